@@ -41,19 +41,35 @@ import {
 } from '../../utils/session';
 import {
   createBlocklistHook,
+  createMcpToolPolicyHook,
+  createRedactionHooks,
   createVaultRestrictionHook,
+  getRedactedSearchExclusions,
 } from '../hooks';
 import type { McpServerManager } from '../mcp';
 import { isSessionInitEvent, isStreamChunk, transformSDKMessage } from '../sdk';
 import {
   buildPermissionUpdates,
+  checkFolderPolicy,
+  collectPermissionRules,
+  findPoliciesInSearch,
   getActionDescription,
+  getMcpToolPolicy,
+  type PermissionRuleBehavior,
+  testPermissionRules,
 } from '../security';
-import { TOOL_ASK_USER_QUESTION, TOOL_ENTER_PLAN_MODE, TOOL_EXIT_PLAN_MODE, TOOL_SKILL } from '../tools/toolNames';
+import {
+  isEditTool,
+  TOOL_ASK_USER_QUESTION,
+  TOOL_ENTER_PLAN_MODE,
+  TOOL_EXIT_PLAN_MODE,
+  TOOL_SKILL,
+} from '../tools/toolNames';
 import type {
   ApprovalDecision,
   ChatMessage,
   Conversation,
+  EditReviewCallback,
   ExitPlanModeCallback,
   ExitPlanModeDecision,
   ImageAttachment,
@@ -86,6 +102,8 @@ export interface ApprovalCallbackOptions {
   decisionReason?: string;
   blockedPath?: string;
   agentID?: string;
+  /** False when the tool's policy is "always ask", so "Always allow" is not offered. */
+  allowAlways?: boolean;
 }
 
 export type ApprovalCallback = (
@@ -111,6 +129,8 @@ export interface QueryOptions {
   forceColdStart?: boolean;
   /** Session-specific external context paths (directories with full access). */
   externalContextPaths?: string[];
+  /** Permission mode override (cold-start only, e.g. for background jobs). */
+  permissionMode?: PermissionMode;
 }
 
 export interface EnsureReadyOptions {
@@ -131,6 +151,7 @@ export class ClaudianService {
   private approvalDismisser: (() => void) | null = null;
   private askUserQuestionCallback: AskUserQuestionCallback | null = null;
   private exitPlanModeCallback: ExitPlanModeCallback | null = null;
+  private editReviewCallback: EditReviewCallback | null = null;
   private permissionModeSyncCallback: ((sdkMode: string) => void) | null = null;
   private vaultPath: string | null = null;
   private currentExternalContextPaths: string[] = [];
@@ -452,9 +473,15 @@ export class ClaudianService {
       enhancedPath,
       mcpManager: this.mcpManager,
       pluginManager: this.plugin.pluginManager,
+      reviewEdits: this.isReviewingEdits(),
     };
   }
 
+  /** Edits wait for review only when enabled and a chat view can show the review. */
+  private isReviewingEdits(): boolean {
+    return this.plugin.settings.reviewEdits && this.editReviewCallback !== null;
+  }
+
   /**
    * Builds SDK options for the persistent query.
    */
@@ -510,13 +537,52 @@ export class ClaudianService {
           this.vaultPath
         );
       },
+      checkFolderPolicy: (p, access) => this.vaultPath
+        ? checkFolderPolicy(this.plugin.settings.folderPolicies, p, this.vaultPath, access)
+        : null,
+      findPoliciesInSearch: (root, depth) => this.vaultPath
+        ? findPoliciesInSearch(this.plugin.settings.folderPolicies, root, this.vaultPath, depth)
+        : [],
+      getSearchExclusions: (input, hidden) => getRedactedSearchExclusions(
+        { redactor: this.plugin.redactor, files: this.plugin.redactedFiles },
+        input,
+        hidden
+      ),
+    });
+
+    const mcpToolPolicyHook = createMcpToolPolicyHook(() => this.plugin.storage.getPermissions());
+
+    const redactionHooks = createRedactionHooks({
+      redactor: this.plugin.redactor,
+      files: this.plugin.redactedFiles,
+      getPermissionBehavior: (toolName, input) => this.getPermissionBehavior(toolName, input),
     });
 
+    const audit = this.plugin.auditLogger;
     return {
-      PreToolUse: [blocklistHook, vaultRestrictionHook],
+      PreToolUse: [
+        audit.auditHook('blocklist', blocklistHook),
+        audit.auditHook('vault_restriction', vaultRestrictionHook),
+        audit.auditHook('mcp_policy', mcpToolPolicyHook),
+        redactionHooks.preToolUse,
+      ],
+      PostToolUse: [redactionHooks.postToolUse],
     };
   }
 
+  /** Behavior of the CC permission rule that decides a tool call, if any. */
+  private async getPermissionBehavior(
+    toolName: string,
+    input: Record<string, unknown>
+  ): Promise<PermissionRuleBehavior | null> {
+    const { storage, settings } = this.plugin;
+    const entries = collectPermissionRules({
+      vault: await storage.getPermissions(),
+      user: settings.loadUserClaudeSettings ? await storage.userCCSettings.getPermissions() : undefined,
+    });
+    return testPermissionRules(entries, toolName, input).decision?.behavior ?? null;
+  }
+
   /**
    * Starts the background consumer loop that routes chunks to handlers.
    */
@@ -715,12 +781,28 @@ export class ClaudianService {
    * Query selection:
    * - Persistent query: default chat conversation
    * - Cold-start query: only when forceColdStart is set
+   *
+   * Tool calls and results are recorded to the audit log as they stream.
    */
   async *query(
     prompt: string,
     images?: ImageAttachment[],
     conversationHistory?: ChatMessage[],
     queryOptions?: QueryOptions
+  ): AsyncGenerator<StreamChunk> {
+    // Callers that show redactions mask first; this covers jobs and other headless prompts
+    const { text } = this.plugin.redactor.redact(prompt);
+    for await (const chunk of this.runQuery(text, images, conversationHistory, queryOptions)) {
+      this.plugin.auditLogger.recordChunk(chunk, this.sessionManager.getSessionId());
+      yield chunk;
+    }
+  }
+
+  private async *runQuery(
+    prompt: string,
+    images?: ImageAttachment[],
+    conversationHistory?: ChatMessage[],
+    queryOptions?: QueryOptions
   ): AsyncGenerator<StreamChunk> {
     const vaultPath = getVaultPath(this.plugin.app);
     if (!vaultPath) {
@@ -742,6 +824,8 @@ export class ClaudianService {
       return;
     }
 
+    await this.mcpManager.refreshCredentials();
+
     // Rebuild history if needed before choosing persistent vs cold-start
     let promptToSend = prompt;
     let forceColdStart = false;
@@ -1136,11 +1220,16 @@ export class ClaudianService {
     // Update permission mode if changed
     // Since we always start with allowDangerouslySkipPermissions: true,
     // we can dynamically switch between modes without restarting
-    if (this.currentConfig && permissionMode !== this.currentConfig.permissionMode) {
+    const reviewEdits = this.isReviewingEdits();
+    if (
+      this.currentConfig
+      && (permissionMode !== this.currentConfig.permissionMode || reviewEdits !== (this.currentConfig.reviewEdits ?? false))
+    ) {
       const sdkMode = this.mapToSDKPermissionMode(permissionMode);
       try {
         await this.persistentQuery.setPermissionMode(sdkMode);
         this.currentConfig.permissionMode = permissionMode;
+        this.currentConfig.reviewEdits = reviewEdits;
       } catch {
         // Silently ignore permission mode update errors
       }
@@ -1150,9 +1239,13 @@ export class ClaudianService {
     const mcpMentions = queryOptions?.mcpMentions || new Set<string>();
     const uiEnabledServers = queryOptions?.enabledMcpServers || new Set<string>();
     const combinedMentions = new Set([...mcpMentions, ...uiEnabledServers]);
-    const mcpServers = this.mcpManager.getActiveServers(combinedMentions);
-    // Include full config in key so config changes (not just name changes) trigger update
-    const mcpServersKey = JSON.stringify(mcpServers);
+    const mcpServers = {
+      ...this.mcpManager.getBuiltInServers(),
+      ...this.mcpManager.getActiveServers(combinedMentions),
+    };
+    // Include full config in key so config changes (not just name changes) trigger update.
+    // In-process server instances are live objects, so they are keyed by name and type only.
+    const mcpServersKey = JSON.stringify(mcpServers, (key, value) => key === 'instance' ? undefined : value);
 
     if (this.currentConfig && mcpServersKey !== this.currentConfig.mcpServersKey) {
       // Convert to McpServerConfig format
@@ -1277,6 +1370,7 @@ export class ClaudianService {
       abortController: this.abortController ?? undefined,
       sessionId: this.sessionManager.getSessionId() ?? undefined,
       modelOverride: queryOptions?.model,
+      permissionModeOverride: queryOptions?.permissionMode,
       canUseTool: this.createApprovalCallback(),
       hooks,
       mcpMentions: queryOptions?.mcpMentions,
@@ -1606,6 +1700,11 @@ export class ClaudianService {
         return result;
       }
 
+      this.plugin.auditLogger.record({
+        kind: 'rewind',
+        userMessageUuid: sdkUserUuid,
+        filesChanged: preview.filesChanged ?? [],
+      }, this.sessionManager.getSessionId());
       this.pendingResumeAt = sdkAssistantUuid;
       this.closePersistentQuery('rewind');
       return {
@@ -1647,11 +1746,24 @@ export class ClaudianService {
     this.exitPlanModeCallback = callback;
   }
 
+  setEditReviewCallback(callback: EditReviewCallback | null): void {
+    this.editReviewCallback = callback;
+  }
+
   setPermissionModeSyncCallback(callback: ((sdkMode: string) => void) | null): void {
     this.permissionModeSyncCallback = callback;
   }
 
   private createApprovalCallback(): CanUseTool {
+    const decide = this.createApprovalDecider();
+    return async (toolName, input, options): Promise<PermissionResult> => {
+      const result = await decide(toolName, input, options);
+      this.plugin.auditLogger.recordApproval(toolName, input, result, this.sessionManager.getSessionId());
+      return result;
+    };
+  }
+
+  private createApprovalDecider(): CanUseTool {
     return async (toolName, input, options): Promise<PermissionResult> => {
       if (this.currentAllowedTools !== null) {
         if (!this.currentAllowedTools.includes(toolName) && toolName !== TOOL_SKILL) {
@@ -1714,6 +1826,32 @@ export class ClaudianService {
         }
       }
 
+      // Review edits: the user sees the diff and may change or partly accept it
+      if (isEditTool(toolName) && this.editReviewCallback && this.isReviewingEdits()) {
+        try {
+          const decision = await this.editReviewCallback(toolName, input, options.signal);
+          if (decision === null) {
+            return { behavior: 'deny', message: 'User interrupted.', interrupt: true };
+          }
+          if (decision.type === 'reject') {
+            return {
+              behavior: 'deny',
+              message: decision.feedback
+                ? `User rejected this edit: ${decision.feedback}`
+                : 'User rejected this edit.',
+              interrupt: false,
+            };
+          }
+          return { behavior: 'allow', updatedInput: decision.updatedInput };
+        } catch (error) {
+          return {
+            behavior: 'deny',
+            message: `Edit review failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            interrupt: false,
+          };
+        }
+      }
+
       // No pre-check — SDK already checked permanent rules before calling canUseTool
       if (!this.approvalCallback) {
         return { behavior: 'deny', message: 'No approval handler available.' };
@@ -1722,15 +1860,23 @@ export class ClaudianService {
       try {
         const { decisionReason, blockedPath, agentID } = options;
         const description = getActionDescription(toolName, input);
+        const alwaysAsk = await this.isAlwaysAskMcpTool(toolName);
         const decision = await this.approvalCallback(
           toolName, input, description,
-          { decisionReason, blockedPath, agentID }
+          alwaysAsk
+            ? { decisionReason: decisionReason ?? 'MCP tool policy: always ask', blockedPath, agentID, allowAlways: false }
+            : { decisionReason, blockedPath, agentID }
         );
 
         if (decision === 'cancel') {
           return { behavior: 'deny', message: 'User interrupted.', interrupt: true };
         }
 
+        // No session rule either, so the next call prompts again
+        if (alwaysAsk && (decision === 'allow' || decision === 'allow-always')) {
+          return { behavior: 'allow', updatedInput: input };
+        }
+
         if (decision === 'allow' || decision === 'allow-always') {
           const updatedPermissions = buildPermissionUpdates(
             toolName, input, decision, options.suggestions
@@ -1751,9 +1897,19 @@ export class ClaudianService {
     };
   }
 
+  private async isAlwaysAskMcpTool(toolName: string): Promise<boolean> {
+    if (!toolName.startsWith('mcp__')) return false;
+    try {
+      return getMcpToolPolicy(await this.plugin.storage.getPermissions(), toolName) === 'ask';
+    } catch {
+      return false;
+    }
+  }
+
   private mapToSDKPermissionMode(mode: PermissionMode): SDKPermissionMode {
     if (mode === 'yolo') return 'bypassPermissions';
     if (mode === 'plan') return 'plan';
-    return 'acceptEdits';
+    // 'default' routes edits through canUseTool so they can be reviewed
+    return this.isReviewingEdits() ? 'default' : 'acceptEdits';
   }
 }
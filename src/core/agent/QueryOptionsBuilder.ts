@@ -47,6 +47,8 @@ export interface QueryOptionsContext {
   mcpManager: McpServerManager;
   /** Plugin manager for Claude Code plugins. */
   pluginManager: PluginManager;
+  /** In normal mode, send edits through canUseTool for review instead of auto-accepting them. */
+  reviewEdits?: boolean;
 }
 
 /**
@@ -81,6 +83,8 @@ export interface ColdStartQueryContext extends QueryOptionsContext {
   sessionId?: string;
   /** Optional model override for cold-start queries. */
   modelOverride?: string;
+  /** Optional permission mode override for cold-start queries. */
+  permissionModeOverride?: PermissionMode;
   /** Approval callback for normal mode. */
   canUseTool?: CanUseTool;
   /** Pre-built hooks array. */
@@ -146,6 +150,8 @@ export class QueryOptionsBuilder {
       mediaFolder: ctx.settings.mediaFolder,
       customPrompt: ctx.settings.systemPrompt,
       allowedExportPaths: ctx.settings.allowedExportPaths,
+      folderPolicies: ctx.settings.folderPolicies,
+      redaction: ctx.settings.enableRedaction,
       vaultPath: ctx.vaultPath,
       userName: ctx.settings.userName,
     };
@@ -175,6 +181,7 @@ export class QueryOptionsBuilder {
       claudeCliPath: ctx.cliPath,
       show1MModel: ctx.settings.show1MModel,
       enableChrome: ctx.settings.enableChrome,
+      reviewEdits: ctx.reviewEdits ?? false,
     };
   }
 
@@ -187,6 +194,8 @@ export class QueryOptionsBuilder {
       mediaFolder: ctx.settings.mediaFolder,
       customPrompt: ctx.settings.systemPrompt,
       allowedExportPaths: ctx.settings.allowedExportPaths,
+      folderPolicies: ctx.settings.folderPolicies,
+      redaction: ctx.settings.enableRedaction,
       vaultPath: ctx.vaultPath,
       userName: ctx.settings.userName,
     });
@@ -219,8 +228,9 @@ export class QueryOptionsBuilder {
       ...UNSUPPORTED_SDK_TOOLS,
       ...DISABLED_BUILTIN_SUBAGENTS,
     ];
+    QueryOptionsBuilder.applyBuiltInMcpTools(options, ctx.mcpManager);
 
-    QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool);
+    QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool, ctx.reviewEdits);
     QueryOptionsBuilder.applyThinkingBudget(options, ctx.settings.thinkingBudget);
     options.hooks = ctx.hooks;
 
@@ -247,7 +257,7 @@ export class QueryOptionsBuilder {
 
   /** Builds SDK options for a cold-start query. */
   static buildColdStartQueryOptions(ctx: ColdStartQueryContext): Options {
-    const permissionMode = ctx.settings.permissionMode;
+    const permissionMode = ctx.permissionModeOverride ?? ctx.settings.permissionMode;
 
     const selectedModel = ctx.modelOverride ?? ctx.settings.model;
     const resolved = resolveModelWithBetas(selectedModel, ctx.settings.show1MModel);
@@ -255,6 +265,8 @@ export class QueryOptionsBuilder {
       mediaFolder: ctx.settings.mediaFolder,
       customPrompt: ctx.settings.systemPrompt,
       allowedExportPaths: ctx.settings.allowedExportPaths,
+      folderPolicies: ctx.settings.folderPolicies,
+      redaction: ctx.settings.enableRedaction,
       vaultPath: ctx.vaultPath,
       userName: ctx.settings.userName,
     });
@@ -286,11 +298,15 @@ export class QueryOptionsBuilder {
     const mcpMentions = ctx.mcpMentions || new Set<string>();
     const uiEnabledServers = ctx.enabledMcpServers || new Set<string>();
     const combinedMentions = new Set([...mcpMentions, ...uiEnabledServers]);
-    const mcpServers = ctx.mcpManager.getActiveServers(combinedMentions);
+    const mcpServers = {
+      ...ctx.mcpManager.getBuiltInServers(),
+      ...ctx.mcpManager.getActiveServers(combinedMentions),
+    };
 
     if (Object.keys(mcpServers).length > 0) {
       options.mcpServers = mcpServers;
     }
+    QueryOptionsBuilder.applyBuiltInMcpTools(options, ctx.mcpManager);
 
     const disallowedMcpTools = ctx.mcpManager.getDisallowedMcpTools(combinedMentions);
     options.disallowedTools = [
@@ -299,7 +315,7 @@ export class QueryOptionsBuilder {
       ...DISABLED_BUILTIN_SUBAGENTS,
     ];
 
-    QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool);
+    QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool, ctx.reviewEdits);
     options.hooks = ctx.hooks;
     QueryOptionsBuilder.applyThinkingBudget(options, ctx.settings.thinkingBudget);
 
@@ -327,7 +343,8 @@ export class QueryOptionsBuilder {
   private static applyPermissionMode(
     options: Options,
     permissionMode: PermissionMode,
-    canUseTool?: CanUseTool
+    canUseTool?: CanUseTool,
+    reviewEdits = false
   ): void {
     options.allowDangerouslySkipPermissions = true;
 
@@ -340,7 +357,18 @@ export class QueryOptionsBuilder {
     } else if (permissionMode === 'plan') {
       options.permissionMode = 'plan';
     } else {
-      options.permissionMode = 'acceptEdits';
+      options.permissionMode = reviewEdits ? 'default' : 'acceptEdits';
+    }
+  }
+
+  /**
+   * Read-only tools of Claudian's in-process MCP servers run without approval.
+   * Persistent queries receive the servers themselves via setMcpServers.
+   */
+  private static applyBuiltInMcpTools(options: Options, mcpManager: McpServerManager): void {
+    const allowedTools = mcpManager.getBuiltInAllowedTools();
+    if (allowedTools.length > 0) {
+      options.allowedTools = allowedTools;
     }
   }
 
@@ -112,6 +112,7 @@ export interface PersistentQueryConfig {
   claudeCliPath: string;
   show1MModel: boolean;  // Whether 1M beta flag is always included
   enableChrome: boolean;  // Whether --chrome flag is passed to CLI
+  reviewEdits?: boolean;  // Whether normal mode routes edits through review (SDK 'default' mode)
 }
 
 export interface SessionState {
@@ -151,6 +152,12 @@ export function computeSystemPromptKey(settings: SystemPromptSettings): string {
     settings.mediaFolder || '',
     settings.customPrompt || '',
     (settings.allowedExportPaths || []).sort().join('|'),
+    (settings.folderPolicies || [])
+      .filter((p) => p.access !== 'hidden')
+      .map((p) => `${p.access}:${p.folder}`)
+      .sort()
+      .join('|'),
+    settings.redaction ? 'redaction' : '',
     settings.vaultPath || '',
     (settings.userName || '').trim(),
     // Note: hasEditorContext is per-message, not tracked here
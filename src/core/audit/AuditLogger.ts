@@ -0,0 +1,141 @@
+/**
+ * Audit Logger
+ *
+ * Records tool calls, tool results, approval decisions, security hook denials and
+ * rewinds to the append-only audit log (see AuditLogStorage). Recording never throws
+ * or blocks the caller: entries are queued and written in order in the background.
+ * Nothing is recorded while the audit log setting is off.
+ */
+
+import type { HookCallbackMatcher, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+
+import type { AuditLogStorage } from '../storage/AuditLogStorage';
+import type { AuditApprovalDecision, AuditEntry, AuditHookName, StreamChunk } from '../types';
+
+/** Longest string kept in a tool input or result; longer values are truncated. */
+export const AUDIT_MAX_STRING_LENGTH = 2000;
+
+/** Distributes Omit over the entry union so each kind keeps its own fields. */
+type AuditEntryData = AuditEntry extends infer E
+  ? E extends AuditEntry ? Omit<E, 'timestamp' | 'sessionId'> : never
+  : never;
+
+function truncate(value: string): string {
+  if (value.length <= AUDIT_MAX_STRING_LENGTH) return value;
+  return `${value.slice(0, AUDIT_MAX_STRING_LENGTH)}… [${value.length - AUDIT_MAX_STRING_LENGTH} more chars]`;
+}
+
+function sanitize(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return truncate(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= 6) return '[nested]';
+  if (Array.isArray(value)) return value.map(item => sanitize(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = sanitize(item, depth + 1);
+  }
+  return result;
+}
+
+/** Maps a canUseTool result back to the decision it represents. */
+export function getApprovalDecision(result: PermissionResult): AuditApprovalDecision {
+  if (result.behavior === 'deny') {
+    return result.interrupt ? 'cancel' : 'deny';
+  }
+
+  const persisted = (result.updatedPermissions ?? []).some(update =>
+    (update.type === 'addRules' || update.type === 'replaceRules') && update.destination !== 'session'
+  );
+  return persisted ? 'allow-always' : 'allow';
+}
+
+export class AuditLogger {
+  private pending: AuditEntry[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  /** Tool names by tool_use id, so results can be attributed to their tool. */
+  private toolNames = new Map<string, string>();
+
+  constructor(
+    private storage: AuditLogStorage,
+    private isEnabled: () => boolean
+  ) {}
+
+  record(data: AuditEntryData, sessionId: string | null, timestamp = Date.now()): void {
+    if (!this.isEnabled()) return;
+
+    this.pending.push({ ...(sanitize(data) as AuditEntryData), timestamp, sessionId });
+    this.writeChain = this.writeChain.then(() => this.writePending());
+  }
+
+  /** Records tool_use and tool_result chunks; other chunks are ignored. */
+  recordChunk(chunk: StreamChunk, sessionId: string | null): void {
+    if (chunk.type === 'tool_use') {
+      this.toolNames.set(chunk.id, chunk.name);
+      this.record({ kind: 'tool_use', toolUseId: chunk.id, toolName: chunk.name, input: chunk.input }, sessionId);
+    } else if (chunk.type === 'tool_result') {
+      const toolName = this.toolNames.get(chunk.id);
+      this.toolNames.delete(chunk.id);
+      this.record({
+        kind: 'tool_result',
+        toolUseId: chunk.id,
+        ...(toolName ? { toolName } : {}),
+        isError: chunk.isError ?? false,
+        content: chunk.content,
+      }, sessionId);
+    }
+  }
+
+  recordApproval(
+    toolName: string,
+    input: Record<string, unknown>,
+    result: PermissionResult,
+    sessionId: string | null
+  ): void {
+    this.record({
+      kind: 'approval',
+      toolName,
+      input,
+      decision: getApprovalDecision(result),
+      ...(result.behavior === 'deny' && result.message ? { message: result.message } : {}),
+    }, sessionId);
+  }
+
+  /** Wraps a PreToolUse hook matcher so every deny it returns is recorded. */
+  auditHook(hook: AuditHookName, matcher: HookCallbackMatcher): HookCallbackMatcher {
+    return {
+      ...matcher,
+      hooks: matcher.hooks.map(callback => async (hookInput, toolUseID, options) => {
+        const output = await callback(hookInput, toolUseID, options);
+        const specific = 'hookSpecificOutput' in output ? output.hookSpecificOutput : undefined;
+        if (specific?.hookEventName === 'PreToolUse' && specific.permissionDecision === 'deny') {
+          const input = hookInput as { tool_name?: string; tool_input?: unknown; session_id?: string };
+          this.record({
+            kind: 'hook_denial',
+            hook,
+            toolName: input.tool_name ?? '',
+            input: (input.tool_input ?? {}) as Record<string, unknown>,
+            reason: specific.permissionDecisionReason ?? '',
+          }, input.session_id ?? null);
+        }
+        return output;
+      }),
+    };
+  }
+
+  /** Resolves once every entry recorded so far has been written. */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  private async writePending(): Promise<void> {
+    if (this.pending.length === 0) return;
+    const entries = this.pending;
+    this.pending = [];
+    try {
+      await this.storage.append(entries);
+    } catch {
+      // Non-critical: auditing must never break a conversation
+    }
+  }
+}
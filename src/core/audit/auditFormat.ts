@@ -0,0 +1,83 @@
+/**
+ * Audit entry formatting: outcome, tool and summary columns for the viewer and
+ * CSV export.
+ */
+
+import { getActionPattern } from '../security/ApprovalManager';
+import type { AuditEntry, AuditOutcome } from '../types';
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = [
+  'requested', 'success', 'error', 'allowed', 'denied', 'cancelled', 'rewound',
+];
+
+const CSV_COLUMNS = ['timestamp', 'session', 'event', 'tool', 'outcome', 'detail'];
+
+export function getAuditOutcome(entry: AuditEntry): AuditOutcome {
+  switch (entry.kind) {
+    case 'tool_use':
+      return 'requested';
+    case 'tool_result':
+      return entry.isError ? 'error' : 'success';
+    case 'approval':
+      if (entry.decision === 'cancel') return 'cancelled';
+      return entry.decision === 'deny' ? 'denied' : 'allowed';
+    case 'hook_denial':
+      return 'denied';
+    case 'rewind':
+      return 'rewound';
+  }
+}
+
+/** Tool the entry is about; empty for rewinds and results of unknown tools. */
+export function getAuditToolName(entry: AuditEntry): string {
+  switch (entry.kind) {
+    case 'tool_use':
+    case 'approval':
+    case 'hook_denial':
+      return entry.toolName;
+    case 'tool_result':
+      return entry.toolName ?? '';
+    case 'rewind':
+      return '';
+  }
+}
+
+/** One-line description of what happened. */
+export function getAuditDetail(entry: AuditEntry): string {
+  switch (entry.kind) {
+    case 'tool_use':
+      return getActionPattern(entry.toolName, entry.input);
+    case 'tool_result':
+      return entry.content.replace(/\s+/g, ' ').trim();
+    case 'approval': {
+      const action = getActionPattern(entry.toolName, entry.input);
+      const decision = entry.decision === 'allow-always' ? 'always allowed' : getAuditOutcome(entry);
+      return entry.message ? `${decision}: ${action} (${entry.message})` : `${decision}: ${action}`;
+    }
+    case 'hook_denial':
+      return `${entry.hook}: ${entry.reason}`;
+    case 'rewind':
+      return entry.filesChanged.length > 0
+        ? `Restored ${entry.filesChanged.join(', ')}`
+        : 'Rewound conversation (no file changes)';
+  }
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    entry.sessionId ?? '',
+    entry.kind,
+    getAuditToolName(entry),
+    getAuditOutcome(entry),
+    getAuditDetail(entry),
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n') + '\r\n';
+}
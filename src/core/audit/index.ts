@@ -0,0 +1,8 @@
+export {
+  AUDIT_OUTCOMES,
+  auditEntriesToCsv,
+  getAuditDetail,
+  getAuditOutcome,
+  getAuditToolName,
+} from './auditFormat';
+export { AUDIT_MAX_STRING_LENGTH, AuditLogger, getApprovalDecision } from './AuditLogger';
@@ -0,0 +1,241 @@
+/**
+ * Redaction Hooks
+ *
+ * PreToolUse hook that points Read and single-file Grep at masked copies of files containing
+ * secrets and restores masked values in what the agent writes; PostToolUse hook that syncs
+ * edits of masked copies back to the original files. Folder searches leave masked files out
+ * through the vault restriction hook (see getRedactedSearchExclusions).
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { REDACTED_FILES_DIR, type RedactedFileStore } from '../redaction/RedactedFileStore';
+import type { Redactor } from '../redaction/Redactor';
+import { getFolderExcludeGlob, getPathExcludeGlob } from '../security/FolderPolicy';
+import type { PermissionRuleBehavior } from '../security/PermissionRules';
+import { TOOL_EDIT, TOOL_GREP, TOOL_NOTEBOOK_EDIT, TOOL_READ, TOOL_WRITE } from '../tools/toolNames';
+import type { FolderPolicy } from '../types';
+import type { SearchExclusions } from './SecurityHooks';
+
+export interface RedactionHookContext {
+  redactor: Redactor;
+  files: RedactedFileStore;
+  /**
+   * Permission rule behavior for the original call. Rules match paths, so a redirect to
+   * a masked copy must carry the original call's decision instead of sidestepping it.
+   */
+  getPermissionBehavior?: (toolName: string, input: Record<string, unknown>) => Promise<PermissionRuleBehavior | null>;
+}
+
+export interface RedactionHooks {
+  preToolUse: HookCallbackMatcher;
+  postToolUse: HookCallbackMatcher;
+}
+
+/** Input fields holding text the agent writes, per tool. */
+const WRITTEN_TEXT_FIELDS: Record<string, string[]> = {
+  [TOOL_WRITE]: ['content'],
+  [TOOL_EDIT]: ['old_string', 'new_string'],
+  [TOOL_NOTEBOOK_EDIT]: ['new_source'],
+};
+
+/** Masked files named when a Grep leaves them out; the rest are counted. */
+const MAX_LISTED_SEARCH_EXCLUSIONS = 10;
+
+interface ToolHookInput {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id?: string;
+}
+
+function restoreWrittenText(redactor: Redactor, toolName: string, input: Record<string, unknown>) {
+  let changed = false;
+  const updated = { ...input };
+  for (const field of WRITTEN_TEXT_FIELDS[toolName] ?? []) {
+    const value = updated[field];
+    if (typeof value !== 'string') continue;
+    const restored = redactor.restore(value);
+    if (restored !== value) {
+      updated[field] = restored;
+      changed = true;
+    }
+  }
+  return changed ? updated : null;
+}
+
+function restoreOutput(redactor: Redactor, toolName: string, input: Record<string, unknown>) {
+  const updatedInput = restoreWrittenText(redactor, toolName, input);
+  if (!updatedInput) {
+    return { continue: true };
+  }
+  return {
+    continue: true,
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse' as const,
+      updatedInput,
+    },
+  };
+}
+
+/**
+ * Exclusions for a Grep that shows matching lines from a folder: every file under it with
+ * secrets gets a masked copy and is left out, along with the copies themselves. Files in
+ * hidden folders are skipped, so they are never named.
+ */
+export function getRedactedSearchExclusions(
+  context: Pick<RedactionHookContext, 'redactor' | 'files'>,
+  toolInput: Record<string, unknown>,
+  hiddenFolders: FolderPolicy[]
+): SearchExclusions | null {
+  const { redactor, files } = context;
+  if (!redactor.isEnabled() || toolInput.output_mode !== 'content') return null;
+
+  const searchPath = typeof toolInput.path === 'string' && toolInput.path ? toolInput.path : '.';
+  const folderPath = files.resolvePath(searchPath);
+  if (!folderPath || !fs.existsSync(folderPath) || !fs.statSync(folderPath).isDirectory()) return null;
+
+  const skipped = hiddenFolders
+    .map(policy => files.resolvePath(policy.folder))
+    .filter((folder): folder is string => folder !== null);
+  const masked = files.prepareSearch(folderPath, skipped).map(file => path.relative(folderPath, file));
+  if (masked.length === 0) return null;
+
+  const listed = masked.slice(0, MAX_LISTED_SEARCH_EXCLUSIONS).join(', ');
+  const more = masked.length > MAX_LISTED_SEARCH_EXCLUSIONS
+    ? ` and ${masked.length - MAX_LISTED_SEARCH_EXCLUSIONS} more`
+    : '';
+  return {
+    globs: [...masked.map(getPathExcludeGlob), getFolderExcludeGlob(REDACTED_FILES_DIR)],
+    note: `Files with masked values were left out of this search: ${listed}${more}. `
+      + 'Read them to see their content with the values masked.',
+  };
+}
+
+export function createRedactionHooks(context: RedactionHookContext): RedactionHooks {
+  const { redactor, files } = context;
+  /** Masked copies being written, by tool_use id, to sync back once the tool succeeds. */
+  const pendingSyncs = new Map<string, string>();
+
+  const redirect = async (
+    toolName: string,
+    input: Record<string, unknown>,
+    mirrorPath: string,
+    pathField = 'file_path'
+  ) => {
+    const behavior = await context.getPermissionBehavior?.(toolName, input) ?? null;
+    if (behavior === 'deny') {
+      // Leave the original call for the CLI to deny
+      return null;
+    }
+    return {
+      continue: true,
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse' as const,
+        ...(behavior && {
+          permissionDecision: behavior,
+          permissionDecisionReason: `Permission rule (${behavior}) for "${input[pathField] as string}"`,
+        }),
+        updatedInput: { ...input, [pathField]: mirrorPath },
+      },
+    };
+  };
+
+  /** Grep shows matching lines straight from the file, so a file search goes to the masked copy. */
+  const prepareGrep = async (input: Record<string, unknown>) => {
+    if (input.output_mode !== 'content' || typeof input.path !== 'string') return null;
+
+    const absolutePath = files.resolvePath(input.path);
+    if (!absolutePath || !fs.existsSync(absolutePath) || fs.statSync(absolutePath).isDirectory()) return null;
+
+    const mirror = files.prepareRead(absolutePath);
+    return mirror ? redirect(TOOL_GREP, input, mirror, 'path') : null;
+  };
+
+  const preToolUse: HookCallbackMatcher = {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as ToolHookInput;
+        const toolName = input.tool_name;
+        if (
+          !redactor.isEnabled()
+          || !(toolName === TOOL_READ || toolName === TOOL_GREP || toolName in WRITTEN_TEXT_FIELDS)
+        ) {
+          return { continue: true };
+        }
+
+        const filePath = typeof input.tool_input.file_path === 'string' ? input.tool_input.file_path : '';
+        const absolutePath = files.resolvePath(filePath);
+
+        try {
+          if (toolName === TOOL_GREP) {
+            return (await prepareGrep(input.tool_input)) ?? { continue: true };
+          }
+
+          if (toolName === TOOL_READ) {
+            const mirror = absolutePath ? files.prepareRead(absolutePath) : null;
+            return (mirror && await redirect(toolName, input.tool_input, mirror)) || { continue: true };
+          }
+
+          // Masked copies keep their placeholders; they are restored when synced back
+          const mirror = absolutePath && toolName !== TOOL_NOTEBOOK_EDIT ? files.getWriteTarget(absolutePath) : null;
+          if (mirror) {
+            const output = await redirect(toolName, input.tool_input, mirror);
+            if (output && input.tool_use_id) {
+              pendingSyncs.set(input.tool_use_id, mirror);
+            }
+            return output ?? { continue: true };
+          }
+        } catch (error) {
+          if (toolName !== TOOL_READ && toolName !== TOOL_GREP) {
+            // The original is still written below, with masked values restored
+            return restoreOutput(redactor, toolName, input.tool_input);
+          }
+          // Fail closed: never send a file unmasked because its copy couldn't be written
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          const target = toolName === TOOL_GREP ? (input.tool_input.path as string | undefined) || '.' : filePath;
+          return {
+            continue: false,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: 'deny' as const,
+              permissionDecisionReason: `Redaction failed for "${target}": ${message}`,
+            },
+          };
+        }
+
+        return restoreOutput(redactor, toolName, input.tool_input);
+      },
+    ],
+  };
+
+  const postToolUse: HookCallbackMatcher = {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as ToolHookInput;
+        const mirror = input.tool_use_id ? pendingSyncs.get(input.tool_use_id) : undefined;
+        if (!mirror) {
+          return { continue: true };
+        }
+        pendingSyncs.delete(input.tool_use_id!);
+
+        try {
+          files.syncBack(mirror);
+          return { continue: true };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          return {
+            continue: true,
+            hookSpecificOutput: {
+              hookEventName: 'PostToolUse' as const,
+              additionalContext: `The edit was made to a masked copy but could not be applied to the original file: ${message}`,
+            },
+          };
+        }
+      },
+    ],
+  };
+
+  return { preToolUse, postToolUse };
+}
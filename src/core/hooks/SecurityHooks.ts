@@ -1,7 +1,7 @@
 /**
  * Security Hooks
  *
- * PreToolUse hooks for enforcing blocklist and vault restriction.
+ * PreToolUse hooks for enforcing blocklist, vault restriction and folder policies.
  */
 
 import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
@@ -10,10 +10,18 @@ import { Notice } from 'obsidian';
 import type { PathAccessType } from '../../utils/path';
 import type { PathCheckContext } from '../security/BashPathValidator';
 import { findBashCommandPathViolation } from '../security/BashPathValidator';
-import { isCommandBlocked } from '../security/BlocklistChecker';
-import { getPathFromToolInput } from '../tools/toolInput';
-import { isEditTool, isFileTool, TOOL_BASH } from '../tools/toolNames';
-import { getBashToolBlockedCommands, type PlatformBlockedCommands } from '../types';
+import { findBlockedCommand } from '../security/BlocklistChecker';
+import type { FolderPolicyAccess, FolderPolicyDecision } from '../security/FolderPolicy';
+import { getFolderExcludeGlob } from '../security/FolderPolicy';
+import { getMcpToolPolicy } from '../security/McpToolPolicy';
+import { getPathFromToolInput, getSearchScope } from '../tools/toolInput';
+import { isEditTool, isFileTool, TOOL_BASH, TOOL_GREP } from '../tools/toolNames';
+import {
+  type CCPermissions,
+  type FolderPolicy,
+  getBashToolBlockedCommands,
+  type PlatformBlockedCommands,
+} from '../types';
 
 export interface BlocklistContext {
   blockedCommands: PlatformBlockedCommands;
@@ -22,6 +30,114 @@ export interface BlocklistContext {
 
 export interface VaultRestrictionContext {
   getPathAccessType: (filePath: string) => PathAccessType;
+  /** Per-folder policies inside the vault (read-only, ask, hidden). */
+  checkFolderPolicy?: (filePath: string, access: FolderPolicyAccess) => FolderPolicyDecision | null;
+  /** Policies on folders a Grep or Glob search reaches below its root. */
+  findPoliciesInSearch?: (searchRoot: string, depth: number) => FolderPolicy[];
+  /**
+   * Files a Grep leaves out besides hidden folders, such as those with masked secrets.
+   * The CLI keeps only one hook's input change, so every exclusion goes through this hook.
+   */
+  getSearchExclusions?: SearchExclusionProvider;
+}
+
+/** Exclude globs for a Grep and a note telling the agent what was left out. */
+export interface SearchExclusions {
+  globs: string[];
+  note: string;
+}
+
+export type SearchExclusionProvider = (
+  toolInput: Record<string, unknown>,
+  hiddenFolders: FolderPolicy[]
+) => SearchExclusions | null;
+
+export interface SearchFolderPolicyResult {
+  decision: FolderPolicyDecision | null;
+  /** Grep input with hidden folders and other exclusions left out, when there are any. */
+  updatedInput?: Record<string, unknown>;
+  additionalContext?: string;
+}
+
+/**
+ * Folder policies for the folders inside a Grep or Glob search. Grep leaves hidden folders
+ * out through exclude globs; Glob can't exclude folders, so it is denied when it reaches one.
+ * Ask folders inside the search need approval. Hidden folders are never named.
+ */
+export function checkSearchFolderPolicies(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  findPolicies: (searchRoot: string, depth: number) => FolderPolicy[],
+  getExclusions?: SearchExclusionProvider
+): SearchFolderPolicyResult | null {
+  const scope = getSearchScope(toolName, toolInput);
+  if (!scope) return null;
+
+  const policies = findPolicies(scope.root, scope.depth);
+  const hidden = policies.filter(policy => policy.access === 'hidden');
+  const ask = policies.find(policy => policy.access === 'ask');
+
+  if (hidden.length > 0 && toolName !== TOOL_GREP) {
+    return {
+      decision: {
+        action: 'deny',
+        policy: hidden[0],
+        reason: 'Access denied: The search reaches a folder hidden from the agent. '
+          + 'Search a narrower folder or a more specific pattern.',
+      },
+    };
+  }
+
+  const exclusions = toolName === TOOL_GREP ? getExclusions?.(toolInput, hidden) ?? null : null;
+  if (hidden.length === 0 && !ask && !exclusions) return null;
+
+  let updatedInput: Record<string, unknown> | undefined;
+  const excludes = [...hidden.map(policy => getFolderExcludeGlob(policy.folder)), ...(exclusions?.globs ?? [])];
+  if (excludes.length > 0) {
+    const existing = typeof toolInput.glob === 'string' ? toolInput.glob.trim() : '';
+    updatedInput = { ...toolInput, glob: [existing, ...excludes].filter(Boolean).join(' ') };
+  }
+
+  return {
+    decision: ask
+      ? {
+        action: 'ask',
+        policy: ask,
+        reason: `Folder policy: "${ask.folder}/" requires approval for every read, and the search includes it.`,
+      }
+      : null,
+    ...(updatedInput && { updatedInput }),
+    ...(exclusions && { additionalContext: exclusions.note }),
+  };
+}
+
+function folderPolicyOutput(decision: FolderPolicyDecision) {
+  return {
+    continue: decision.action === 'ask',
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse' as const,
+      permissionDecision: decision.action,
+      permissionDecisionReason: decision.reason,
+    },
+  };
+}
+
+function searchFolderPolicyOutput(result: SearchFolderPolicyResult) {
+  if (result.decision && !result.updatedInput) {
+    return folderPolicyOutput(result.decision);
+  }
+  return {
+    continue: true,
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse' as const,
+      ...(result.decision && {
+        permissionDecision: result.decision.action,
+        permissionDecisionReason: result.decision.reason,
+      }),
+      updatedInput: result.updatedInput,
+      ...(result.additionalContext && { additionalContext: result.additionalContext }),
+    },
+  };
 }
 
 /**
@@ -40,14 +156,15 @@ export function createBlocklistHook(getContext: () => BlocklistContext): HookCal
         const context = getContext();
 
         const bashToolCommands = getBashToolBlockedCommands(context.blockedCommands);
-        if (isCommandBlocked(command, bashToolCommands, context.enableBlocklist)) {
+        const match = context.enableBlocklist ? findBlockedCommand(command, bashToolCommands) : null;
+        if (match) {
           new Notice('Command blocked by security policy');
           return {
             continue: false,
             hookSpecificOutput: {
               hookEventName: 'PreToolUse' as const,
               permissionDecision: 'deny' as const,
-              permissionDecisionReason: `Command blocked by blocklist: ${command}`,
+              permissionDecisionReason: `Command blocked by blocklist: ${match.reason}`,
             },
           };
         }
@@ -77,8 +194,12 @@ export function createVaultRestrictionHook(context: VaultRestrictionContext): Ho
           const command = (input.tool_input?.command as string) || '';
           const pathCheckContext: PathCheckContext = {
             getPathAccessType: (p) => context.getPathAccessType(p),
+            checkFolderPolicy: context.checkFolderPolicy,
           };
           const violation = findBashCommandPathViolation(command, pathCheckContext);
+          if (violation?.type === 'folder_policy') {
+            return folderPolicyOutput(violation.decision);
+          }
           if (violation) {
             const reason =
               violation.type === 'export_path_read'
@@ -101,10 +222,30 @@ export function createVaultRestrictionHook(context: VaultRestrictionContext): Ho
         }
 
         const filePath = getPathFromToolInput(toolName, input.tool_input);
+        const accessType = filePath ? context.getPathAccessType(filePath) : null;
 
-        if (filePath) {
-          const accessType = context.getPathAccessType(filePath);
+        if (filePath && accessType === 'vault') {
+          const decision = context.checkFolderPolicy?.(filePath, isEditTool(toolName) ? 'write' : 'read');
+          if (decision) {
+            return folderPolicyOutput(decision);
+          }
+        }
 
+        // Searches also reach every folder below their root, including without a path
+        const { findPoliciesInSearch, getSearchExclusions } = context;
+        if ((findPoliciesInSearch || getSearchExclusions) && (!filePath || accessType === 'vault')) {
+          const result = checkSearchFolderPolicies(
+            toolName,
+            input.tool_input,
+            findPoliciesInSearch ?? (() => []),
+            getSearchExclusions
+          );
+          if (result) {
+            return searchFolderPolicyOutput(result);
+          }
+        }
+
+        if (filePath) {
           // Allow full access to vault, readwrite, and context paths
           if (accessType === 'vault' || accessType === 'readwrite' || accessType === 'context') {
             return { continue: true };
@@ -141,3 +282,52 @@ export function createVaultRestrictionHook(context: VaultRestrictionContext): Ho
     ],
   };
 }
+
+/**
+ * Create a PreToolUse hook that enforces ask and deny policies of MCP tools.
+ * Rules are read on each call so policy edits apply to the running session; "ask"
+ * also prompts in bypass mode and when the tool was allowed earlier in the session.
+ * Allow rules need no hook: the SDK applies them from .claude/settings.json.
+ */
+export function createMcpToolPolicyHook(getPermissions: () => Promise<CCPermissions>): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const toolName = (hookInput as { tool_name: string }).tool_name;
+        if (!toolName?.startsWith('mcp__')) {
+          return { continue: true };
+        }
+
+        let policy;
+        try {
+          policy = getMcpToolPolicy(await getPermissions(), toolName);
+        } catch {
+          return { continue: true };
+        }
+
+        if (policy === 'deny') {
+          return {
+            continue: false,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: 'deny' as const,
+              permissionDecisionReason: `Tool "${toolName}" is denied by its MCP tool policy.`,
+            },
+          };
+        }
+        if (policy === 'ask') {
+          return {
+            continue: true,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: 'ask' as const,
+              permissionDecisionReason: 'MCP tool policy: always ask',
+            },
+          };
+        }
+
+        return { continue: true };
+      },
+    ],
+  };
+}
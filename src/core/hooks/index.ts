@@ -1,6 +1,17 @@
+export {
+  createRedactionHooks,
+  getRedactedSearchExclusions,
+  type RedactionHookContext,
+  type RedactionHooks,
+} from './RedactionHooks';
 export {
   type BlocklistContext,
+  checkSearchFolderPolicies,
   createBlocklistHook,
+  createMcpToolPolicyHook,
   createVaultRestrictionHook,
+  type SearchExclusionProvider,
+  type SearchExclusions,
+  type SearchFolderPolicyResult,
   type VaultRestrictionContext,
 } from './SecurityHooks';
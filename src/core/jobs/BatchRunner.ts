@@ -0,0 +1,149 @@
+/**
+ * BatchRunner - Runs a slash command against many notes in the background.
+ *
+ * Each note gets its own cold-start query (isolated session, no approval UI),
+ * run one after another. The quoted note path is passed as the command's arguments,
+ * so commands can reference it via $ARGUMENTS or $1. Progress and per-note
+ * results are published to listeners such as the chat status panel.
+ */
+
+import type ClaudianPlugin from '../../main';
+import { ClaudianService } from '../agent';
+import type { BatchFileResult, BatchRun, PermissionMode } from '../types';
+import { runHeadlessQuery } from './headlessQuery';
+
+/** Finished batch runs kept for display. */
+const MAX_FINISHED_RUNS = 10;
+
+/** Prompt for running the command against one note, quoted so $1 is the whole path. */
+export function getBatchPrompt(commandName: string, notePath: string): string {
+  return `/${commandName} "${notePath.replace(/["\\]/g, '\\$&')}"`;
+}
+
+export class BatchRunner {
+  private plugin: ClaudianPlugin;
+  private runs: BatchRun[] = [];
+  private cancelledRunIds = new Set<string>();
+  private activeServices = new Map<string, ClaudianService>();
+  private listeners = new Set<() => void>();
+
+  constructor(plugin: ClaudianPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Starts a batch run and returns it immediately; results arrive via onChange. */
+  start(commandName: string, paths: string[], permissionMode: PermissionMode): BatchRun {
+    const run: BatchRun = {
+      id: `batch-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      commandName,
+      permissionMode,
+      startedAt: Date.now(),
+      files: paths.map(path => ({ path, status: 'pending', edits: [] })),
+    };
+    this.runs.push(run);
+    this.pruneFinishedRuns();
+    this.notifyChange();
+
+    void this.process(run);
+    return run;
+  }
+
+  /** Cancels the run: the current note's query is stopped and pending notes are skipped. */
+  cancel(runId: string): void {
+    const run = this.runs.find(r => r.id === runId);
+    if (!run || run.finishedAt) return;
+
+    this.cancelledRunIds.add(runId);
+    this.activeServices.get(runId)?.cleanup();
+  }
+
+  /** Cancels all unfinished runs. */
+  cancelAll(): void {
+    for (const run of this.runs) {
+      this.cancel(run.id);
+    }
+  }
+
+  /** Removes finished runs. */
+  clearFinished(): void {
+    this.runs = this.runs.filter(run => !run.finishedAt);
+    this.notifyChange();
+  }
+
+  getRuns(): BatchRun[] {
+    return this.runs;
+  }
+
+  /** Subscribes to run progress. Returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async process(run: BatchRun): Promise<void> {
+    for (const file of run.files) {
+      if (this.cancelledRunIds.has(run.id)) {
+        file.status = 'cancelled';
+        continue;
+      }
+
+      file.status = 'running';
+      this.notifyChange();
+      await this.runFile(run, file);
+      this.notifyChange();
+    }
+
+    run.finishedAt = Date.now();
+    this.cancelledRunIds.delete(run.id);
+    this.pruneFinishedRuns();
+    this.notifyChange();
+  }
+
+  private async runFile(run: BatchRun, file: BatchFileResult): Promise<void> {
+    const service = new ClaudianService(this.plugin, this.plugin.mcpManager);
+    this.activeServices.set(run.id, service);
+
+    try {
+      const result = await runHeadlessQuery(service, getBatchPrompt(run.commandName, file.path), {
+        permissionMode: run.permissionMode,
+      });
+      file.sessionId = result.sessionId ?? undefined;
+      file.edits = result.edits;
+      if (result.sessionId) {
+        await this.plugin.rememberInternalSession(result.sessionId);
+      }
+
+      if (this.cancelledRunIds.has(run.id)) {
+        file.status = 'cancelled';
+      } else if (result.error) {
+        file.status = 'error';
+        file.error = result.error;
+      } else {
+        file.status = 'success';
+      }
+    } finally {
+      service.cleanup();
+      this.activeServices.delete(run.id);
+    }
+  }
+
+  private pruneFinishedRuns(): void {
+    const finished = this.runs.filter(run => run.finishedAt);
+    if (finished.length <= MAX_FINISHED_RUNS) return;
+
+    const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_RUNS));
+    this.runs = this.runs.filter(run => !dropped.has(run));
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * JobRunner - Runs a scheduled job as a background agent query.
+ *
+ * Each run uses its own cold-start ClaudianService (no approval UI, so tools
+ * that need approval are denied unless the job runs in YOLO mode). Slash
+ * commands in the prompt are expanded by the SDK like in chat. The final
+ * answer is appended to a dated note in the job's output folder.
+ */
+
+import type ClaudianPlugin from '../../main';
+import { getExportBasename } from '../../utils/conversationExport';
+import { formatLocalDate, formatLocalTime } from '../../utils/date';
+import { ClaudianService } from '../agent';
+import type { JobRun, JobRunCause, ScheduledJob } from '../types';
+import { type HeadlessQueryResult, runHeadlessQuery } from './headlessQuery';
+
+/** Vault path of the dated note a run started at `timestamp` writes to. */
+export function getJobNotePath(job: Pick<ScheduledJob, 'name' | 'outputFolder'>, timestamp: number): string {
+  const folder = job.outputFolder.replace(/^\/+|\/+$/g, '');
+  const filename = `${formatLocalDate(timestamp)} ${getExportBasename(job.name)}.md`;
+  return folder ? `${folder}/${filename}` : filename;
+}
+
+/** Note content for one run; `isNewNote` adds the frontmatter. */
+export function formatJobNoteSection(
+  job: Pick<ScheduledJob, 'id' | 'name'>,
+  text: string,
+  timestamp: number,
+  isNewNote: boolean
+): string {
+  const section = `## ${formatLocalTime(timestamp)}\n\n${text.trim()}\n`;
+  if (!isNewNote) {
+    return `\n${section}`;
+  }
+  const frontmatter = [
+    '---',
+    `job: ${JSON.stringify(job.name)}`,
+    `jobId: ${JSON.stringify(job.id)}`,
+    `date: ${formatLocalDate(timestamp)}`,
+    '---',
+  ].join('\n');
+  return `${frontmatter}\n\n${section}`;
+}
+
+export class JobRunner {
+  private plugin: ClaudianPlugin;
+  private activeServices = new Set<ClaudianService>();
+
+  constructor(plugin: ClaudianPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Runs the job and writes its result note. Never throws; failures are returned in the run record. */
+  async run(job: ScheduledJob, cause: JobRunCause): Promise<JobRun> {
+    const startedAt = Date.now();
+    const result = await this.query(job);
+
+    const run: JobRun = {
+      startedAt,
+      finishedAt: Date.now(),
+      cause,
+      status: 'success',
+      sessionId: result.sessionId ?? undefined,
+    };
+
+    if (!result.text.trim()) {
+      return { ...run, status: 'error', error: result.error ?? 'The agent returned no answer' };
+    }
+
+    try {
+      run.notePath = await this.writeNote(job, result.text, startedAt);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...run, status: 'error', error: `Failed to write note: ${message}` };
+    }
+
+    return run;
+  }
+
+  /** Cancels all running jobs. */
+  cancel(): void {
+    for (const service of this.activeServices) {
+      service.cleanup();
+    }
+    this.activeServices.clear();
+  }
+
+  private async query(job: ScheduledJob): Promise<HeadlessQueryResult> {
+    const service = new ClaudianService(this.plugin, this.plugin.mcpManager);
+    this.activeServices.add(service);
+    try {
+      const result = await runHeadlessQuery(service, job.prompt, {
+        model: job.model || undefined,
+        permissionMode: job.permissionMode,
+      });
+      if (result.sessionId) {
+        await this.plugin.rememberInternalSession(result.sessionId);
+      }
+      return result;
+    } finally {
+      service.cleanup();
+      this.activeServices.delete(service);
+    }
+  }
+
+  private async writeNote(job: ScheduledJob, text: string, startedAt: number): Promise<string> {
+    const adapter = this.plugin.storage.getAdapter();
+    const path = getJobNotePath(job, startedAt);
+    const isNewNote = !(await adapter.exists(path));
+    await adapter.append(path, formatJobNoteSection(job, text, startedAt, isNewNote));
+    return path;
+  }
+}
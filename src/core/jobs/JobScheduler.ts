@@ -0,0 +1,167 @@
+/**
+ * JobScheduler - Decides when scheduled jobs are due and runs them one at a time.
+ *
+ * Daily jobs missed while Obsidian was closed run once on the next check;
+ * startup jobs run each time the scheduler starts. Running jobs themselves
+ * is delegated to the plugin, which also records the run history that the
+ * due checks are based on.
+ */
+
+import type { JobRunCause, ScheduledJob } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_CHECK_INTERVAL_MS = MINUTE_MS;
+
+export interface JobSchedulerOptions {
+  getJobs: () => ScheduledJob[];
+  runJob: (job: ScheduledJob, cause: JobRunCause) => Promise<void>;
+  /** How often due jobs are checked (ms). */
+  checkIntervalMs?: number;
+}
+
+interface QueuedRun {
+  jobId: string;
+  cause: JobRunCause;
+}
+
+/** Start time of the latest run not started manually. */
+export function getLastScheduledRunAt(job: ScheduledJob): number | undefined {
+  return job.history.find(run => run.cause !== 'manual')?.startedAt;
+}
+
+/**
+ * Returns when the job should next run, or null if it never runs on a timer.
+ * A time at or before `now` means the job is due.
+ */
+export function getNextRunTime(job: ScheduledJob, now: number = Date.now()): number | null {
+  if (!job.enabled || job.trigger === 'startup') return null;
+
+  const lastRunAt = getLastScheduledRunAt(job);
+
+  if (job.trigger === 'interval') {
+    return lastRunAt === undefined ? now : lastRunAt + job.intervalMinutes * MINUTE_MS;
+  }
+
+  const [hours, minutes] = job.time.split(':').map(Number);
+  const slot = new Date(now);
+  slot.setHours(hours, minutes, 0, 0);
+
+  const covered = Math.max(lastRunAt ?? 0, job.createdAt);
+  if (slot.getTime() > now || covered < slot.getTime()) {
+    return slot.getTime();
+  }
+
+  slot.setDate(slot.getDate() + 1);
+  return slot.getTime();
+}
+
+export function isJobDue(job: ScheduledJob, now: number = Date.now()): boolean {
+  const next = getNextRunTime(job, now);
+  return next !== null && next <= now;
+}
+
+export class JobScheduler {
+  private options: JobSchedulerOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private queue: QueuedRun[] = [];
+  private activeJobId: string | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(options: JobSchedulerOptions) {
+    this.options = options;
+  }
+
+  /** Queues startup jobs and due jobs, then checks for due jobs periodically. */
+  start(): void {
+    if (this.timer) return;
+
+    for (const job of this.options.getJobs()) {
+      if (job.enabled && job.trigger === 'startup') {
+        this.enqueue(job.id, 'startup');
+      }
+    }
+    this.tick();
+
+    this.timer = setInterval(() => this.tick(), this.options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS);
+  }
+
+  /** Stops checking and drops queued runs; a run in progress is left to finish. */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.queue = [];
+  }
+
+  /** Queues every due job that is not already queued or running. */
+  tick(now: number = Date.now()): void {
+    for (const job of this.options.getJobs()) {
+      if (isJobDue(job, now)) {
+        this.enqueue(job.id, 'schedule');
+      }
+    }
+  }
+
+  /** Queues a manual run. Returns false if the job is already queued or running. */
+  runNow(jobId: string): boolean {
+    return this.enqueue(jobId, 'manual');
+  }
+
+  isPending(jobId: string): boolean {
+    return this.activeJobId === jobId || this.queue.some(run => run.jobId === jobId);
+  }
+
+  getActiveJobId(): string | null {
+    return this.activeJobId;
+  }
+
+  /** Subscribes to queue and run state changes. Returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enqueue(jobId: string, cause: JobRunCause): boolean {
+    if (this.isPending(jobId)) return false;
+
+    this.queue.push({ jobId, cause });
+    this.notifyChange();
+    void this.processQueue();
+    return true;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.activeJobId) return;
+
+    let next: QueuedRun | undefined;
+    while ((next = this.queue.shift())) {
+      const queued = next;
+      const job = this.options.getJobs().find(j => j.id === queued.jobId);
+      if (!job) continue;
+
+      this.activeJobId = job.id;
+      this.notifyChange();
+      try {
+        await this.options.runJob(job, queued.cause);
+      } catch {
+        // Failures are recorded in the run history by runJob
+      } finally {
+        this.activeJobId = null;
+        this.notifyChange();
+      }
+    }
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
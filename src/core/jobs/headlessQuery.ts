@@ -0,0 +1,83 @@
+/**
+ * Headless query - Runs a single prompt on a ClaudianService without a chat tab.
+ *
+ * Shared by scheduled jobs and batch runs. The service should be a fresh
+ * instance: the query is forced to cold-start so every run gets its own session.
+ */
+
+import { extractDiffData } from '../../utils/diff';
+import type { ClaudianService } from '../agent';
+import { isWriteEditTool } from '../tools';
+import type { PermissionMode, ToolCallInfo } from '../types';
+
+export interface HeadlessQueryOptions {
+  /** Model ID; undefined uses the chat model. */
+  model?: string;
+  permissionMode: PermissionMode;
+}
+
+export interface HeadlessQueryResult {
+  /** Final assistant answer (text after the last tool call). */
+  text: string;
+  sessionId: string | null;
+  error?: string;
+  /** Completed Write/Edit tool calls of the main agent, with diffs when available. */
+  edits: ToolCallInfo[];
+}
+
+/** Streams the prompt to completion. Never throws; failures are returned in `error`. */
+export async function runHeadlessQuery(
+  service: ClaudianService,
+  prompt: string,
+  options: HeadlessQueryOptions
+): Promise<HeadlessQueryResult> {
+  let text = '';
+  let afterToolCall = false;
+  const errors: string[] = [];
+  const pendingEdits = new Map<string, ToolCallInfo>();
+  const edits: ToolCallInfo[] = [];
+
+  try {
+    const stream = service.query(prompt, undefined, undefined, {
+      model: options.model,
+      permissionMode: options.permissionMode,
+      forceColdStart: true,
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.type === 'text' && !chunk.parentToolUseId) {
+        // Keep only the answer after the last tool call, not the narration before it
+        text = afterToolCall ? chunk.content : text + chunk.content;
+        afterToolCall = false;
+      } else if (chunk.type === 'tool_use' && !chunk.parentToolUseId) {
+        afterToolCall = true;
+        if (isWriteEditTool(chunk.name)) {
+          pendingEdits.set(chunk.id, { id: chunk.id, name: chunk.name, input: chunk.input, status: 'running' });
+        }
+      } else if (chunk.type === 'tool_result') {
+        const toolCall = pendingEdits.get(chunk.id);
+        if (toolCall) {
+          pendingEdits.delete(chunk.id);
+          if (!chunk.isError) {
+            toolCall.status = 'completed';
+            toolCall.result = chunk.content;
+            toolCall.diffData = extractDiffData(chunk.toolUseResult, toolCall);
+            edits.push(toolCall);
+          }
+        }
+      } else if (chunk.type === 'error') {
+        errors.push(chunk.content);
+      }
+    }
+
+    return {
+      text,
+      sessionId: service.getSessionId(),
+      error: errors.length > 0 ? errors.join('; ') : undefined,
+      edits,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { text, sessionId: service.getSessionId(), error: message, edits };
+  }
+}
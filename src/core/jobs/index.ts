@@ -0,0 +1,14 @@
+export { BatchRunner, getBatchPrompt } from './BatchRunner';
+export {
+  type HeadlessQueryOptions,
+  type HeadlessQueryResult,
+  runHeadlessQuery,
+} from './headlessQuery';
+export { formatJobNoteSection, getJobNotePath, JobRunner } from './JobRunner';
+export {
+  getLastScheduledRunAt,
+  getNextRunTime,
+  isJobDue,
+  JobScheduler,
+  type JobSchedulerOptions,
+} from './JobScheduler';
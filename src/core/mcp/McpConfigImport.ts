@@ -0,0 +1,294 @@
+/**
+ * McpConfigImport - Discover MCP servers configured in other clients.
+ *
+ * Sources (read-only):
+ * - Claude Desktop: claude_desktop_config.json
+ * - Claude Code: ~/.claude.json (user servers and per-project entries) and <vault>/.mcp.json
+ * - Cursor, Windsurf and VS Code MCP configs
+ *
+ * Configs are normalized to the Claude Code format; env and headers are kept as-is.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { ClaudianMcpServer, McpServerConfig } from '../types';
+import { DEFAULT_MCP_SERVER, getMcpServerType } from '../types';
+
+export interface McpImportServer {
+  name: string;
+  config: McpServerConfig;
+}
+
+export interface McpImportSource {
+  id: string;
+  label: string;
+  path: string;
+  servers: McpImportServer[];
+}
+
+/**
+ * - new: no server with this name yet
+ * - unchanged: a server with this name and the same config exists
+ * - conflict: a server with this name but a different config exists
+ */
+export type McpImportStatus = 'new' | 'unchanged' | 'conflict';
+
+export type McpConflictResolution = 'rename' | 'replace' | 'skip';
+
+export interface McpImportEntry extends McpImportServer {
+  status: McpImportStatus;
+  existing?: ClaudianMcpServer;
+  /** Unused name offered when the entry conflicts. */
+  suggestedName: string;
+}
+
+export interface McpImportChoice {
+  entry: McpImportEntry;
+  resolution: McpConflictResolution;
+  /** Name to use when renaming (defaults to the suggested name). */
+  name?: string;
+}
+
+export interface McpImportResult {
+  servers: ClaudianMcpServer[];
+  added: string[];
+  replaced: string[];
+}
+
+const VALID_NAME_PATTERN = /^[a-zA-Z0-9._-]+$/;
+
+interface McpImportFileSpec {
+  id: string;
+  label: string;
+  path: string;
+  /** Key holding the server record (most clients use mcpServers; VS Code uses servers). */
+  key: 'mcpServers' | 'servers';
+}
+
+function readJsonFile(filePath: string): Record<string, unknown> | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function getClaudeDesktopConfigPath(homeDir: string): string {
+  if (process.platform === 'darwin') {
+    return path.join(homeDir, 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json');
+  }
+  if (process.platform === 'win32') {
+    const appData = process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming');
+    return path.join(appData, 'Claude', 'claude_desktop_config.json');
+  }
+  return path.join(homeDir, '.config', 'Claude', 'claude_desktop_config.json');
+}
+
+function getMcpImportFileSpecs(vaultPath: string | null): McpImportFileSpec[] {
+  const homeDir = os.homedir();
+  const specs: McpImportFileSpec[] = [
+    { id: 'claude-desktop', label: 'Claude Desktop', path: getClaudeDesktopConfigPath(homeDir), key: 'mcpServers' },
+    { id: 'cursor', label: 'Cursor', path: path.join(homeDir, '.cursor', 'mcp.json'), key: 'mcpServers' },
+    { id: 'windsurf', label: 'Windsurf', path: path.join(homeDir, '.codeium', 'windsurf', 'mcp_config.json'), key: 'mcpServers' },
+  ];
+  if (vaultPath) {
+    specs.push(
+      { id: 'project-mcp', label: 'Claude Code (vault .mcp.json)', path: path.join(vaultPath, '.mcp.json'), key: 'mcpServers' },
+      { id: 'vscode', label: 'VS Code (vault)', path: path.join(vaultPath, '.vscode', 'mcp.json'), key: 'servers' },
+    );
+  }
+  return specs;
+}
+
+function toStringRecord(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Converts another client's server entry to our config format, or null if it has no command or URL.
+ * Windsurf's `serverUrl` and `streamable-http` style types are mapped to `url` and `http`.
+ */
+export function normalizeImportedMcpConfig(raw: unknown): McpServerConfig | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const entry = raw as Record<string, unknown>;
+
+  if (typeof entry.command === 'string' && entry.command.trim()) {
+    const args = Array.isArray(entry.args) ? entry.args.filter((a): a is string => typeof a === 'string') : [];
+    const env = toStringRecord(entry.env);
+    return {
+      command: entry.command,
+      ...(args.length > 0 ? { args } : {}),
+      ...(env ? { env } : {}),
+    };
+  }
+
+  const url = typeof entry.url === 'string' ? entry.url : entry.serverUrl;
+  if (typeof url === 'string' && url.trim()) {
+    const headers = toStringRecord(entry.headers);
+    return {
+      type: entry.type === 'sse' ? 'sse' : 'http',
+      url,
+      ...(headers ? { headers } : {}),
+    };
+  }
+
+  return null;
+}
+
+/** Replaces characters Claude Code does not accept in server names. */
+export function sanitizeMcpServerName(name: string): string {
+  const sanitized = name.trim().replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+  return VALID_NAME_PATTERN.test(sanitized) ? sanitized : 'server';
+}
+
+/** Reads valid servers from a `{ name: config }` record. */
+export function extractImportableServers(record: unknown): McpImportServer[] {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) return [];
+
+  const servers: McpImportServer[] = [];
+  for (const [name, raw] of Object.entries(record as Record<string, unknown>)) {
+    const config = normalizeImportedMcpConfig(raw);
+    if (config) {
+      servers.push({ name: sanitizeMcpServerName(name), config });
+    }
+  }
+  return servers;
+}
+
+/** Sources from ~/.claude.json: user servers plus each project entry, the vault's own project first. */
+function getClaudeCodeUserSources(vaultPath: string | null): McpImportSource[] {
+  const filePath = path.join(os.homedir(), '.claude.json');
+  const file = readJsonFile(filePath);
+  if (!file) return [];
+
+  const sources: McpImportSource[] = [];
+  const userServers = extractImportableServers(file.mcpServers);
+  if (userServers.length > 0) {
+    sources.push({ id: 'claude-code-user', label: 'Claude Code (user)', path: filePath, servers: userServers });
+  }
+
+  const projects = file.projects && typeof file.projects === 'object'
+    ? Object.entries(file.projects as Record<string, { mcpServers?: unknown }>)
+    : [];
+  const resolvedVault = vaultPath ? path.resolve(vaultPath) : null;
+  projects.sort(([a], [b]) => Number(path.resolve(b) === resolvedVault) - Number(path.resolve(a) === resolvedVault));
+
+  for (const [projectPath, project] of projects) {
+    const servers = extractImportableServers(project?.mcpServers);
+    if (servers.length === 0) continue;
+    const isVault = path.resolve(projectPath) === resolvedVault;
+    sources.push({
+      id: `claude-code-project:${projectPath}`,
+      label: isVault ? 'Claude Code (this vault)' : `Claude Code (${path.basename(projectPath) || projectPath})`,
+      path: filePath,
+      servers,
+    });
+  }
+
+  return sources;
+}
+
+/** Finds other clients' MCP configs that contain at least one server. */
+export function discoverMcpImportSources(vaultPath: string | null): McpImportSource[] {
+  const sources = getClaudeCodeUserSources(vaultPath);
+
+  for (const spec of getMcpImportFileSpecs(vaultPath)) {
+    const file = readJsonFile(spec.path);
+    const servers = extractImportableServers(file?.[spec.key]);
+    if (servers.length > 0) {
+      sources.push({ id: spec.id, label: spec.label, path: spec.path, servers });
+    }
+  }
+
+  return sources;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Compares configs ignoring key order and an omitted default `type`. */
+export function isSameMcpConfig(a: McpServerConfig, b: McpServerConfig): boolean {
+  const normalize = (config: McpServerConfig) => ({ ...config, type: getMcpServerType(config) });
+  return stableStringify(normalize(a)) === stableStringify(normalize(b));
+}
+
+/** First of `name`, `name-2`, `name-3`, ... that is not taken. */
+export function suggestMcpServerName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let suffix = 2;
+  while (taken.has(`${name}-${suffix}`)) suffix++;
+  return `${name}-${suffix}`;
+}
+
+/** Compares incoming servers with the configured ones. */
+export function buildMcpImportPlan(existing: ClaudianMcpServer[], incoming: McpImportServer[]): McpImportEntry[] {
+  const byName = new Map(existing.map(s => [s.name, s]));
+  const taken = new Set([...byName.keys(), ...incoming.map(s => s.name)]);
+
+  return incoming.map((server) => {
+    const current = byName.get(server.name);
+    if (!current) {
+      return { ...server, status: 'new', suggestedName: server.name };
+    }
+    if (isSameMcpConfig(current.config, server.config)) {
+      return { ...server, status: 'unchanged', existing: current, suggestedName: server.name };
+    }
+    const suggestedName = suggestMcpServerName(server.name, taken);
+    taken.add(suggestedName);
+    return { ...server, status: 'conflict', existing: current, suggestedName };
+  });
+}
+
+/**
+ * Applies the chosen entries to a copy of the server list.
+ * Replacing keeps the existing server's Claudian options (enabled, context-saving, disabled tools).
+ * Renames that are invalid or still taken are skipped.
+ */
+export function applyMcpImport(existing: ClaudianMcpServer[], choices: McpImportChoice[]): McpImportResult {
+  const servers = existing.map(s => ({ ...s }));
+  const added: string[] = [];
+  const replaced: string[] = [];
+
+  for (const { entry, resolution, name } of choices) {
+    if (entry.status === 'unchanged' || resolution === 'skip') continue;
+
+    const index = servers.findIndex(s => s.name === entry.name);
+    if (entry.status === 'conflict' && resolution === 'replace' && index !== -1) {
+      servers[index] = { ...servers[index], config: entry.config };
+      replaced.push(entry.name);
+      continue;
+    }
+
+    const targetName = index === -1 ? entry.name : (name ?? entry.suggestedName).trim();
+    if (!VALID_NAME_PATTERN.test(targetName) || servers.some(s => s.name === targetName)) continue;
+
+    servers.push({
+      name: targetName,
+      config: entry.config,
+      enabled: DEFAULT_MCP_SERVER.enabled,
+      contextSaving: DEFAULT_MCP_SERVER.contextSaving,
+    });
+    added.push(targetName);
+  }
+
+  return { servers, added, replaced };
+}
@@ -0,0 +1,75 @@
+/**
+ * McpCredentials - Fills per-device credentials into MCP server configs.
+ *
+ * Header and env values may reference stored secrets as `${secret:NAME}`; the saved
+ * config keeps the reference and only the config handed to the SDK holds the value.
+ * Servers with OAuth get their access token as an `Authorization: Bearer` header.
+ */
+
+import type { McpCredentialStore } from '../storage/McpCredentialStore';
+import type { ClaudianMcpServer, McpServerConfig } from '../types';
+import type { McpOAuthClient } from './McpOAuth';
+
+const SECRET_REF_PATTERN = /\$\{secret:([A-Za-z0-9_.-]+)\}/g;
+
+/** Resolves credentials for servers before they are started or contacted. */
+export interface McpCredentialProvider {
+  /** Config with secrets and the current OAuth token filled in. */
+  resolveConfig(server: ClaudianMcpServer): McpServerConfig;
+  /** Refreshes the server's OAuth token if it is about to expire. */
+  refresh(server: ClaudianMcpServer): Promise<void>;
+}
+
+function getCredentialRecord(config: McpServerConfig): Record<string, string> | undefined {
+  return 'command' in config ? config.env : config.headers;
+}
+
+/** Names of the secrets referenced by a config's env or header values. */
+export function findSecretRefs(config: McpServerConfig): string[] {
+  const names = new Set<string>();
+  for (const value of Object.values(getCredentialRecord(config) ?? {})) {
+    for (const match of value.matchAll(SECRET_REF_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+/** Replaces `${secret:NAME}` references; unknown secrets are left as written. */
+export function resolveSecretRefs(
+  config: McpServerConfig,
+  getSecret: (name: string) => string | undefined
+): McpServerConfig {
+  const record = getCredentialRecord(config);
+  if (!record) return config;
+
+  const resolved = Object.fromEntries(Object.entries(record).map(([key, value]) => [
+    key,
+    value.replace(SECRET_REF_PATTERN, (ref, name: string) => getSecret(name) ?? ref),
+  ]));
+  return 'command' in config ? { ...config, env: resolved } : { ...config, headers: resolved };
+}
+
+export class McpCredentials implements McpCredentialProvider {
+  constructor(private store: McpCredentialStore, private oauth: McpOAuthClient) {}
+
+  resolveConfig(server: ClaudianMcpServer): McpServerConfig {
+    const config = resolveSecretRefs(server.config, name => this.store.getSecret(name));
+    if (!server.oauth || 'command' in config) return config;
+
+    const token = this.oauth.peekAccessToken(server);
+    if (!token) return config;
+    return { ...config, headers: { ...config.headers, Authorization: `Bearer ${token}` } };
+  }
+
+  async refresh(server: ClaudianMcpServer): Promise<void> {
+    if (server.oauth) {
+      await this.oauth.getAccessToken(server);
+    }
+  }
+
+  /** Referenced secrets that are not stored on this device. */
+  getMissingSecrets(server: ClaudianMcpServer): string[] {
+    return findSecretRefs(server.config).filter(name => this.store.getSecret(name) === undefined);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * McpOAuth - OAuth sign-in for remote MCP servers.
+ *
+ * Authorization code flow with PKCE: discovers the authorization server from the MCP
+ * server's protected resource metadata (falling back to its origin), registers a client
+ * dynamically unless a client ID is configured, and receives the code on a one-off
+ * loopback redirect. Tokens go to the per-device credential store and are refreshed
+ * shortly before they expire.
+ */
+
+import {
+  discoverAuthorizationServerMetadata,
+  discoverOAuthProtectedResourceMetadata,
+  exchangeAuthorization,
+  refreshAuthorization,
+  registerClient,
+  startAuthorization,
+} from '@modelcontextprotocol/sdk/client/auth';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+
+import type { McpCredentialStore, McpOAuthClientInformation, McpOAuthTokens } from '../storage/McpCredentialStore';
+import type { ClaudianMcpServer } from '../types';
+
+type FetchLike = (url: string | URL, init?: RequestInit) => Promise<Response>;
+
+export interface McpOAuthOptions {
+  /** Opens the authorization page in the user's browser. */
+  openUrl: (url: string) => void;
+  fetchFn?: FetchLike;
+  /** How long to wait for the browser to come back with a code. */
+  timeoutMs?: number;
+}
+
+const DEFAULT_SIGN_IN_TIMEOUT_MS = 5 * 60 * 1000;
+/** Tokens this close to expiry are refreshed before use. */
+const REFRESH_MARGIN_MS = 60 * 1000;
+const CALLBACK_PATH = '/callback';
+
+function getServerUrl(server: ClaudianMcpServer): string | null {
+  return 'url' in server.config ? server.config.url : null;
+}
+
+function toStoredTokens(
+  tokens: { access_token: string; token_type: string; refresh_token?: string; scope?: string; expires_in?: number },
+  now: number,
+  previous?: McpOAuthTokens
+): McpOAuthTokens {
+  return {
+    access_token: tokens.access_token,
+    token_type: tokens.token_type,
+    refresh_token: tokens.refresh_token ?? previous?.refresh_token,
+    scope: tokens.scope,
+    expires_at: tokens.expires_in !== undefined ? now + tokens.expires_in * 1000 : undefined,
+  };
+}
+
+interface CallbackListener {
+  redirectUrl: string;
+  waitForCode: (state: string, timeoutMs: number) => Promise<string>;
+  close: () => void;
+}
+
+/** Loopback HTTP server on a random port that receives the authorization redirect once. */
+async function listenForCallback(): Promise<CallbackListener> {
+  let onRequest: ((url: URL) => void) | null = null;
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    const failed = url.searchParams.has('error');
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(failed
+      ? '<p>Sign-in failed. You can close this window.</p>'
+      : '<p>Signed in to the MCP server. You can close this window and return to Obsidian.</p>');
+    onRequest?.(url);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as { port: number };
+
+  return {
+    redirectUrl: `http://127.0.0.1:${port}${CALLBACK_PATH}`,
+    waitForCode: (state, timeoutMs) => new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Sign-in timed out')), timeoutMs);
+      onRequest = (url) => {
+        clearTimeout(timer);
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        if (error) {
+          reject(new Error(url.searchParams.get('error_description') || error));
+        } else if (url.searchParams.get('state') !== state) {
+          reject(new Error('Sign-in response did not match the request'));
+        } else if (!code) {
+          reject(new Error('No authorization code received'));
+        } else {
+          resolve(code);
+        }
+      };
+    }),
+    close: () => server.close(),
+  };
+}
+
+export class McpOAuthClient {
+  constructor(private store: McpCredentialStore, private options: McpOAuthOptions) {}
+
+  /** Whether tokens for the server's current URL are stored on this device. */
+  isSignedIn(server: ClaudianMcpServer): boolean {
+    return this.getStoredTokens(server) !== null;
+  }
+
+  /** Stored access token without refreshing it (null when signed out or expired). */
+  peekAccessToken(server: ClaudianMcpServer, now = Date.now()): string | null {
+    const tokens = this.getStoredTokens(server);
+    if (!tokens) return null;
+    if (tokens.expires_at !== undefined && tokens.expires_at <= now) return null;
+    return tokens.access_token;
+  }
+
+  /** Access token for the server, refreshed first when it is about to expire. */
+  async getAccessToken(server: ClaudianMcpServer, now = Date.now()): Promise<string | null> {
+    const state = this.store.getOAuthState(server.name);
+    const tokens = this.getStoredTokens(server);
+    if (!state || !tokens) return null;
+
+    if (tokens.expires_at === undefined || tokens.expires_at - now > REFRESH_MARGIN_MS) {
+      return tokens.access_token;
+    }
+    if (!tokens.refresh_token) {
+      return this.peekAccessToken(server, now);
+    }
+
+    try {
+      const metadata = await this.discoverMetadata(state.authorizationServerUrl);
+      const refreshed = await refreshAuthorization(state.authorizationServerUrl, {
+        metadata,
+        clientInformation: state.clientInformation,
+        refreshToken: tokens.refresh_token,
+        fetchFn: this.options.fetchFn,
+      });
+      const stored = toStoredTokens(refreshed, now, tokens);
+      this.store.setOAuthState(server.name, { ...state, tokens: stored });
+      return stored.access_token;
+    } catch {
+      return this.peekAccessToken(server, now);
+    }
+  }
+
+  /** Runs the browser sign-in and stores the tokens. Throws with a readable message on failure. */
+  async signIn(server: ClaudianMcpServer): Promise<void> {
+    const serverUrl = getServerUrl(server);
+    if (!serverUrl) {
+      throw new Error('OAuth is only available for remote servers');
+    }
+    const { fetchFn } = this.options;
+
+    let resource: URL | undefined;
+    let authorizationServerUrl = new URL('/', serverUrl).href;
+    try {
+      const resourceMetadata = await discoverOAuthProtectedResourceMetadata(serverUrl, undefined, fetchFn);
+      resource = new URL(resourceMetadata.resource);
+      authorizationServerUrl = resourceMetadata.authorization_servers?.[0] ?? authorizationServerUrl;
+    } catch {
+      // No protected resource metadata: the MCP server is its own authorization server
+    }
+    const metadata = await this.discoverMetadata(authorizationServerUrl);
+    const scope = server.oauth?.scope || undefined;
+
+    const callback = await listenForCallback();
+    try {
+      let clientInformation: McpOAuthClientInformation;
+      if (server.oauth?.clientId) {
+        clientInformation = { client_id: server.oauth.clientId };
+      } else {
+        if (metadata && !metadata.registration_endpoint) {
+          throw new Error('This server does not support dynamic client registration; set a client ID');
+        }
+        const registered = await registerClient(authorizationServerUrl, {
+          metadata,
+          clientMetadata: {
+            client_name: 'Claudian',
+            redirect_uris: [callback.redirectUrl],
+            grant_types: ['authorization_code', 'refresh_token'],
+            response_types: ['code'],
+            token_endpoint_auth_method: 'none',
+            ...(scope ? { scope } : {}),
+          },
+          fetchFn,
+        });
+        clientInformation = { client_id: registered.client_id, client_secret: registered.client_secret };
+      }
+
+      const state = randomUUID();
+      const { authorizationUrl, codeVerifier } = await startAuthorization(authorizationServerUrl, {
+        metadata,
+        clientInformation,
+        redirectUrl: callback.redirectUrl,
+        scope,
+        state,
+        resource,
+      });
+
+      const codePromise = callback.waitForCode(state, this.options.timeoutMs ?? DEFAULT_SIGN_IN_TIMEOUT_MS);
+      this.options.openUrl(authorizationUrl.href);
+      const authorizationCode = await codePromise;
+
+      const tokens = await exchangeAuthorization(authorizationServerUrl, {
+        metadata,
+        clientInformation,
+        authorizationCode,
+        codeVerifier,
+        redirectUri: callback.redirectUrl,
+        resource,
+        fetchFn,
+      });
+
+      this.store.setOAuthState(server.name, {
+        serverUrl,
+        authorizationServerUrl,
+        clientInformation,
+        tokens: toStoredTokens(tokens, Date.now()),
+      });
+    } finally {
+      callback.close();
+    }
+  }
+
+  signOut(serverName: string): void {
+    this.store.clearOAuthState(serverName);
+  }
+
+  private getStoredTokens(server: ClaudianMcpServer): McpOAuthTokens | null {
+    const state = this.store.getOAuthState(server.name);
+    if (!state?.tokens || state.serverUrl !== getServerUrl(server)) return null;
+    return state.tokens;
+  }
+
+  private async discoverMetadata(authorizationServerUrl: string) {
+    try {
+      return await discoverAuthorizationServerMetadata(authorizationServerUrl, { fetchFn: this.options.fetchFn });
+    } catch {
+      return undefined;
+    }
+  }
+}
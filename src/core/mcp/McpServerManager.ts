@@ -1,23 +1,85 @@
 /**
  * McpServerManager - Core MCP server configuration management.
  *
- * Infrastructure layer for loading, filtering, and querying MCP server configurations.
+ * Infrastructure layer for loading, filtering, and querying MCP server configurations,
+ * plus a background health monitor that caches each enabled server's status and tools.
  */
 
-import { extractMcpMentions, transformMcpMentions } from '../../utils/mcp';
-import type { ClaudianMcpServer, McpServerConfig } from '../types';
+import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
+
+import { extractMcpMentions, mcpPromptToSlashCommand, transformMcpMentions } from '../../utils/mcp';
+import type { ClaudianMcpServer, McpServerConfig, SlashCommand } from '../types';
+import type { McpCredentialProvider } from './McpCredentials';
+import { type McpPrompt, type McpResource, type McpTestResult, type McpTool, testMcpServer } from './McpTester';
 
 /** Storage interface for loading MCP servers. */
 export interface McpStorageAdapter {
   load(): Promise<ClaudianMcpServer[]>;
+  /** Needed to persist servers the health monitor disables. */
+  save?(servers: ClaudianMcpServer[]): Promise<void>;
+}
+
+export type McpServerTester = (server: ClaudianMcpServer) => Promise<McpTestResult>;
+
+export type McpHealthStatus = 'unknown' | 'healthy' | 'unhealthy';
+
+export interface McpServerHealth {
+  status: McpHealthStatus;
+  /** When the last check finished (ms since epoch). */
+  checkedAt?: number;
+  serverVersion?: string;
+  /** Tools listed by the last successful check. */
+  tools: McpTool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+  error?: string;
+  consecutiveFailures: number;
+}
+
+export interface McpHealthMonitorOptions {
+  /** Time between checks of all enabled servers. */
+  intervalMs?: number;
+  /** Consecutive failed checks after which a context-saving server is disabled. */
+  maxFailures?: number;
+  onServerDisabled?: (server: ClaudianMcpServer, health: McpServerHealth) => void;
+}
+
+export const DEFAULT_MCP_HEALTH_INTERVAL_MS = 5 * 60 * 1000;
+export const DEFAULT_MCP_HEALTH_MAX_FAILURES = 3;
+
+/** One-line summary of a server's health for tooltips. */
+export function describeMcpHealth(health: McpServerHealth | undefined): string {
+  if (!health || health.status === 'unknown') return 'Not checked yet';
+  if (health.status === 'unhealthy') {
+    return `Unreachable (${health.consecutiveFailures}×): ${health.error ?? 'unknown error'}`;
+  }
+  const toolLabel = health.tools.length === 1 ? 'tool' : 'tools';
+  const version = health.serverVersion ? ` · v${health.serverVersion}` : '';
+  return `Healthy · ${health.tools.length} ${toolLabel}${version}`;
+}
+
+/** In-process server hosted by Claudian (not user-configured, always active). */
+export interface BuiltInMcpServer {
+  config: McpSdkServerConfigWithInstance;
+  /** Full tool names that run without approval (read-only tools). */
+  autoAllowedTools: string[];
 }
 
 export class McpServerManager {
   private servers: ClaudianMcpServer[] = [];
+  private builtInServers = new Map<string, BuiltInMcpServer>();
   private storage: McpStorageAdapter;
+  private tester: McpServerTester;
+  private health = new Map<string, McpServerHealth>();
+  private healthListeners = new Set<() => void>();
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private healthOptions: McpHealthMonitorOptions = {};
+  private isCheckingHealth = false;
+  private credentials: McpCredentialProvider | null = null;
 
-  constructor(storage: McpStorageAdapter) {
+  constructor(storage: McpStorageAdapter, tester: McpServerTester = testMcpServer) {
     this.storage = storage;
+    this.tester = tester;
   }
 
   async loadServers(): Promise<void> {
@@ -28,10 +90,61 @@ export class McpServerManager {
     return this.servers;
   }
 
+  /** Fills secrets and OAuth tokens into configs handed to the SDK or contacted directly. */
+  setCredentialProvider(provider: McpCredentialProvider | null): void {
+    this.credentials = provider;
+  }
+
+  /** Server with credentials filled in, after refreshing an expiring OAuth token. */
+  async resolveServer(server: ClaudianMcpServer): Promise<ClaudianMcpServer> {
+    if (!this.credentials) return server;
+    try {
+      await this.credentials.refresh(server);
+    } catch {
+      // Use the current token; the server reports the auth error if it is rejected
+    }
+    return { ...server, config: this.credentials.resolveConfig(server) };
+  }
+
+  /** Refreshes expiring OAuth tokens of enabled servers (before a query builds its options). */
+  async refreshCredentials(): Promise<void> {
+    if (!this.credentials) return;
+    for (const server of this.servers.filter(s => s.enabled)) {
+      try {
+        await this.credentials.refresh(server);
+      } catch {
+        // Same as resolveServer: keep the current token
+      }
+    }
+  }
+
   getEnabledCount(): number {
     return this.servers.filter((s) => s.enabled).length;
   }
 
+  /** Registers (or with null, removes) an in-process server. */
+  setBuiltInServer(name: string, server: BuiltInMcpServer | null): void {
+    if (server) {
+      this.builtInServers.set(name, server);
+    } else {
+      this.builtInServers.delete(name);
+    }
+  }
+
+  /** In-process servers to include in SDK options alongside the active servers. */
+  getBuiltInServers(): Record<string, McpSdkServerConfigWithInstance> {
+    const result: Record<string, McpSdkServerConfigWithInstance> = {};
+    for (const [name, server] of this.builtInServers) {
+      result[name] = server.config;
+    }
+    return result;
+  }
+
+  /** Tools of in-process servers that are allowed without approval. */
+  getBuiltInAllowedTools(): string[] {
+    return Array.from(this.builtInServers.values()).flatMap(server => server.autoAllowedTools);
+  }
+
   /**
    * Get servers to include in SDK options.
    *
@@ -52,7 +165,7 @@ export class McpServerManager {
         continue;
       }
 
-      result[server.name] = server.config;
+      result[server.name] = this.credentials?.resolveConfig(server) ?? server.config;
     }
 
     return result;
@@ -122,4 +235,154 @@ export class McpServerManager {
   transformMentions(text: string): string {
     return transformMcpMentions(text, this.getContextSavingNames());
   }
+
+  /** Checks all enabled servers now and then every `intervalMs` until stopped. */
+  startHealthMonitor(options: McpHealthMonitorOptions = {}): void {
+    this.stopHealthMonitor();
+    this.healthOptions = options;
+    this.healthTimer = setInterval(
+      () => void this.checkAllServers(),
+      options.intervalMs ?? DEFAULT_MCP_HEALTH_INTERVAL_MS
+    );
+    void this.checkAllServers();
+  }
+
+  stopHealthMonitor(): void {
+    if (this.healthTimer !== null) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /** Cached result of the last check, or undefined if the server was not checked yet. */
+  getServerHealth(name: string): McpServerHealth | undefined {
+    return this.health.get(name);
+  }
+
+  /** Notifies on every health update (and on auto-disable). Returns an unsubscribe function. */
+  onHealthChange(listener: () => void): () => void {
+    this.healthListeners.add(listener);
+    return () => this.healthListeners.delete(listener);
+  }
+
+  /**
+   * Checks enabled servers one at a time (each stdio check spawns the server).
+   * Skipped while a previous round is still running.
+   */
+  async checkAllServers(): Promise<void> {
+    if (this.isCheckingHealth) return;
+    this.isCheckingHealth = true;
+
+    try {
+      const names = new Set(this.servers.map(s => s.name));
+      for (const name of this.health.keys()) {
+        if (!names.has(name)) this.health.delete(name);
+      }
+
+      for (const server of this.servers.filter(s => s.enabled)) {
+        await this.checkServer(server);
+      }
+    } finally {
+      this.isCheckingHealth = false;
+    }
+  }
+
+  /** Checks one enabled server now (e.g. to refresh its resource and prompt lists). */
+  async refreshServer(name: string): Promise<void> {
+    const server = this.servers.find(s => s.name === name && s.enabled);
+    if (server) {
+      await this.checkServer(server);
+    }
+  }
+
+  /** Prompts of enabled servers from their last successful check, as slash commands. */
+  getPromptCommands(): SlashCommand[] {
+    return this.servers
+      .filter(server => server.enabled)
+      .flatMap(server => (this.health.get(server.name)?.prompts ?? [])
+        .map(prompt => mcpPromptToSlashCommand(server.name, prompt)));
+  }
+
+  /** Finds the server prompt a `/mcp__server__prompt args` message invokes. */
+  findPromptCommand(text: string): { server: ClaudianMcpServer; prompt: McpPrompt; args: string } | null {
+    const match = text.match(/^\/(mcp__\S+)(?:\s+([\s\S]*))?$/);
+    if (!match) return null;
+
+    const [, commandName, args = ''] = match;
+    for (const server of this.servers) {
+      if (!server.enabled) continue;
+      const prefix = `mcp__${server.name}__`;
+      if (!commandName.startsWith(prefix)) continue;
+
+      const promptName = commandName.slice(prefix.length);
+      const prompt = this.health.get(server.name)?.prompts.find(p => p.name === promptName);
+      if (prompt) {
+        return { server, prompt, args: args.trim() };
+      }
+    }
+    return null;
+  }
+
+  private async checkServer(server: ClaudianMcpServer): Promise<void> {
+    let result: McpTestResult;
+    try {
+      result = await this.tester(await this.resolveServer(server));
+    } catch (error) {
+      result = { success: false, tools: [], error: error instanceof Error ? error.message : 'Check failed' };
+    }
+
+    // Servers can be reloaded (renamed, disabled, removed) while a check runs
+    const current = this.servers.find(s => s.name === server.name);
+    if (!current?.enabled) return;
+
+    const previous = this.health.get(server.name);
+    const health: McpServerHealth = result.success
+      ? {
+        status: 'healthy',
+        checkedAt: Date.now(),
+        serverVersion: result.serverVersion,
+        tools: result.tools,
+        resources: result.resources ?? [],
+        prompts: result.prompts ?? [],
+        consecutiveFailures: 0,
+      }
+      : {
+        status: 'unhealthy',
+        checkedAt: Date.now(),
+        serverVersion: previous?.serverVersion,
+        tools: previous?.tools ?? [],
+        resources: previous?.resources ?? [],
+        prompts: previous?.prompts ?? [],
+        error: result.error,
+        consecutiveFailures: (previous?.consecutiveFailures ?? 0) + 1,
+      };
+    this.health.set(server.name, health);
+
+    const maxFailures = this.healthOptions.maxFailures ?? DEFAULT_MCP_HEALTH_MAX_FAILURES;
+    if (current.contextSaving && health.consecutiveFailures >= maxFailures) {
+      await this.disableFailingServer(current, health);
+    }
+
+    this.notifyHealthChange();
+  }
+
+  private async disableFailingServer(server: ClaudianMcpServer, health: McpServerHealth): Promise<void> {
+    server.enabled = false;
+    try {
+      await this.storage.save?.(this.servers);
+    } catch {
+      // Still disabled for this session; the warning tells the user what happened
+    }
+    this.healthOptions.onServerDisabled?.(server, health);
+  }
+
+  private notifyHealthChange(): void {
+    for (const listener of this.healthListeners) {
+      try {
+        listener();
+      } catch {
+        // A failing listener must not stop the monitor
+      }
+    }
+  }
 }
@@ -12,6 +12,27 @@ export interface McpTool {
   name: string;
   description?: string;
   inputSchema?: Record<string, unknown>;
+  /** The server's readOnlyHint annotation: the tool does not modify its environment. */
+  readOnly?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
 }
 
 export interface McpTestResult {
@@ -19,6 +40,10 @@ export interface McpTestResult {
   serverName?: string;
   serverVersion?: string;
   tools: McpTool[];
+  /** Listed only when the server supports resources. */
+  resources?: McpResource[];
+  /** Listed only when the server supports prompts. */
+  prompts?: McpPrompt[];
   error?: string;
 }
 
@@ -27,80 +52,164 @@ interface UrlServerConfig {
   headers?: Record<string, string>;
 }
 
-export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestResult> {
+type McpTransport = StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport;
+
+const CONNECT_TIMEOUT_MS = 10000;
+
+function createTransport(server: ClaudianMcpServer): McpTransport {
   const type = getMcpServerType(server.config);
 
-  let transport;
-  try {
-    if (type === 'stdio') {
-      const config = server.config as { command: string; args?: string[]; env?: Record<string, string> };
-      const { cmd, args } = parseCommand(config.command, config.args);
-      if (!cmd) {
-        return { success: false, tools: [], error: 'Missing command' };
-      }
-      transport = new StdioClientTransport({
-        command: cmd,
-        args,
-        env: { ...process.env, ...config.env, PATH: getEnhancedPath(config.env?.PATH) } as Record<string, string>,
-        stderr: 'ignore',
-      });
-    } else {
-      const config = server.config as UrlServerConfig;
-      const url = new URL(config.url);
-      const options = config.headers ? { requestInit: { headers: config.headers } } : undefined;
-      transport = type === 'sse'
-        ? new SSEClientTransport(url, options)
-        : new StreamableHTTPClientTransport(url, options);
+  if (type === 'stdio') {
+    const config = server.config as { command: string; args?: string[]; env?: Record<string, string> };
+    const { cmd, args } = parseCommand(config.command, config.args);
+    if (!cmd) {
+      throw new Error('Missing command');
     }
-  } catch (error) {
-    return {
-      success: false,
-      tools: [],
-      error: error instanceof Error ? error.message : 'Invalid server configuration',
-    };
+    return new StdioClientTransport({
+      command: cmd,
+      args,
+      env: { ...process.env, ...config.env, PATH: getEnhancedPath(config.env?.PATH) } as Record<string, string>,
+      stderr: 'ignore',
+    });
   }
 
+  const config = server.config as UrlServerConfig;
+  const url = new URL(config.url);
+  const options = config.headers ? { requestInit: { headers: config.headers } } : undefined;
+  return type === 'sse'
+    ? new SSEClientTransport(url, options)
+    : new StreamableHTTPClientTransport(url, options);
+}
+
+/** Connects (10s timeout), runs `run`, and always closes the client. */
+async function withClient<T>(
+  transport: McpTransport,
+  run: (client: Client, signal: AbortSignal) => Promise<T>
+): Promise<T> {
   const client = new Client({ name: 'claudian-tester', version: '1.0.0' });
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 10000);
+  const timeout = setTimeout(() => controller.abort(), CONNECT_TIMEOUT_MS);
 
   try {
     await client.connect(transport, { signal: controller.signal });
-
-    const serverVersion = client.getServerVersion();
-    let tools: McpTool[] = [];
+    return await run(client, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error('Connection timeout (10s)');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
     try {
-      const result = await client.listTools(undefined, { signal: controller.signal });
-      tools = result.tools.map((t: { name: string; description?: string; inputSchema?: Record<string, unknown> }) => ({
-        name: t.name,
-        description: t.description,
-        inputSchema: t.inputSchema as Record<string, unknown>,
-      }));
+      await client.close();
     } catch {
-      // listTools failure after successful connect = partial success
+      // Ignore close errors
     }
+  }
+}
+
+/** Lists an optional capability; servers without it answer with an error. */
+async function listOptional<T>(list: () => Promise<T[]>): Promise<T[] | undefined> {
+  try {
+    return await list();
+  } catch {
+    return undefined;
+  }
+}
 
+export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestResult> {
+  let transport: McpTransport;
+  try {
+    transport = createTransport(server);
+  } catch (error) {
     return {
-      success: true,
-      serverName: serverVersion?.name,
-      serverVersion: serverVersion?.version,
-      tools,
+      success: false,
+      tools: [],
+      error: error instanceof Error ? error.message : 'Invalid server configuration',
     };
+  }
+
+  try {
+    return await withClient(transport, async (client, signal) => {
+      const serverVersion = client.getServerVersion();
+      let tools: McpTool[] = [];
+      try {
+        const result = await client.listTools(undefined, { signal });
+        tools = result.tools.map((t): McpTool => ({
+          name: t.name,
+          description: t.description,
+          inputSchema: t.inputSchema as Record<string, unknown>,
+          ...(t.annotations?.readOnlyHint ? { readOnly: true } : {}),
+        }));
+      } catch {
+        // listTools failure after successful connect = partial success
+      }
+
+      const resources = await listOptional(async () => {
+        const result = await client.listResources(undefined, { signal });
+        return result.resources.map((r): McpResource => ({
+          uri: r.uri,
+          name: r.name,
+          description: r.description,
+          mimeType: r.mimeType,
+        }));
+      });
+      const prompts = await listOptional(async () => {
+        const result = await client.listPrompts(undefined, { signal });
+        return result.prompts.map((p): McpPrompt => ({
+          name: p.name,
+          description: p.description,
+          arguments: p.arguments,
+        }));
+      });
+
+      return {
+        success: true,
+        serverName: serverVersion?.name,
+        serverVersion: serverVersion?.version,
+        tools,
+        resources,
+        prompts,
+      };
+    });
   } catch (error) {
-    if (controller.signal.aborted) {
-      return { success: false, tools: [], error: 'Connection timeout (10s)' };
-    }
     return {
       success: false,
       tools: [],
       error: error instanceof Error ? error.message : 'Unknown error',
     };
-  } finally {
-    clearTimeout(timeout);
-    try {
-      await client.close();
-    } catch {
-      // Ignore close errors
-    }
   }
 }
+
+/** Reads a resource as text; binary parts are replaced by a placeholder. Throws on failure. */
+export async function readMcpResource(server: ClaudianMcpServer, uri: string): Promise<string> {
+  return withClient(createTransport(server), async (client, signal) => {
+    const result = await client.readResource({ uri }, { signal });
+    return result.contents
+      .map(content => ('text' in content && typeof content.text === 'string')
+        ? content.text
+        : `[binary content omitted: ${content.mimeType ?? 'unknown type'}]`)
+      .join('\n');
+  });
+}
+
+/** Renders a prompt's messages as one text block. Throws on failure. */
+export async function getMcpPrompt(
+  server: ClaudianMcpServer,
+  name: string,
+  args: Record<string, string>
+): Promise<string> {
+  return withClient(createTransport(server), async (client, signal) => {
+    const result = await client.getPrompt({ name, arguments: args }, { signal });
+    const parts: string[] = [];
+    for (const message of result.messages) {
+      const content = message.content;
+      if (content.type === 'text') {
+        parts.push(content.text);
+      } else if (content.type === 'resource' && 'text' in content.resource) {
+        parts.push(content.resource.text);
+      }
+    }
+    return parts.join('\n\n');
+  });
+}
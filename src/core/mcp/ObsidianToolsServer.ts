@@ -0,0 +1,378 @@
+/**
+ * ObsidianToolsServer - In-process MCP server exposing Obsidian's own knowledge.
+ *
+ * Raw Markdown edits cannot see what Obsidian already knows: resolved links,
+ * backlinks, tags, the frontmatter cache and the open workspace. These tools
+ * answer from the metadata cache, and renames go through fileManager.renameFile
+ * so every link to the note is updated instead of broken.
+ *
+ * The tools can't ask for approval, so notes in hidden and ask folders are left out
+ * of every answer, and renames never touch notes under any folder policy. Answers
+ * are masked like file reads when redaction is on.
+ */
+
+import { createSdkMcpServer, type McpSdkServerConfigWithInstance, tool } from '@anthropic-ai/claude-agent-sdk';
+import type { App, CachedMetadata } from 'obsidian';
+import { MarkdownView, TFile } from 'obsidian';
+import { z } from 'zod';
+
+import { findFolderPolicy, isReadRestricted } from '../security/FolderPolicy';
+import type { FolderPolicy } from '../types';
+
+export const OBSIDIAN_TOOLS_SERVER_NAME = 'claudian-obsidian';
+
+export const OBSIDIAN_TOOL_GET_BACKLINKS = 'get_backlinks';
+export const OBSIDIAN_TOOL_GET_OUTGOING_LINKS = 'get_outgoing_links';
+export const OBSIDIAN_TOOL_LIST_TAGS = 'list_tags';
+export const OBSIDIAN_TOOL_QUERY_FRONTMATTER = 'query_frontmatter';
+export const OBSIDIAN_TOOL_GET_OPEN_NOTES = 'get_open_notes';
+export const OBSIDIAN_TOOL_OPEN_NOTE = 'open_note_in_editor';
+export const OBSIDIAN_TOOL_RENAME_NOTE = 'rename_note_with_link_update';
+
+/**
+ * Full names of the tools that only read metadata or change the view.
+ * Renaming is left to the normal approval flow.
+ */
+export const OBSIDIAN_AUTO_ALLOWED_TOOL_IDS = [
+  OBSIDIAN_TOOL_GET_BACKLINKS,
+  OBSIDIAN_TOOL_GET_OUTGOING_LINKS,
+  OBSIDIAN_TOOL_LIST_TAGS,
+  OBSIDIAN_TOOL_QUERY_FRONTMATTER,
+  OBSIDIAN_TOOL_GET_OPEN_NOTES,
+  OBSIDIAN_TOOL_OPEN_NOTE,
+].map(name => `mcp__${OBSIDIAN_TOOLS_SERVER_NAME}__${name}`);
+
+const DEFAULT_FRONTMATTER_LIMIT = 50;
+const MAX_FRONTMATTER_LIMIT = 500;
+
+type ToolResult = { content: { type: 'text'; text: string }[]; isError?: boolean };
+
+/** Tags of a note (frontmatter and inline), without '#', in order of appearance. */
+export function getNoteTags(cache: CachedMetadata | null): string[] {
+  if (!cache) return [];
+
+  const tags: string[] = [];
+  const fmTags: unknown = cache.frontmatter?.tags ?? cache.frontmatter?.tag;
+  if (Array.isArray(fmTags)) {
+    tags.push(...fmTags.filter((tag): tag is string => typeof tag === 'string'));
+  } else if (typeof fmTags === 'string') {
+    tags.push(...fmTags.split(/[,\s]+/));
+  }
+  if (cache.tags) {
+    tags.push(...cache.tags.map(tag => tag.tag));
+  }
+
+  const unique = new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean));
+  return Array.from(unique);
+}
+
+/** Whether a frontmatter value equals `expected` (case-insensitive; lists match any item). */
+export function frontmatterValueMatches(value: unknown, expected: string): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item => frontmatterValueMatches(item, expected));
+  }
+  if (value === null || value === undefined || typeof value === 'object') {
+    return false;
+  }
+  return String(value).toLowerCase() === expected.toLowerCase();
+}
+
+function normalizeNotePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+}
+
+function textResult(text: string, isError = false): ToolResult {
+  return isError
+    ? { content: [{ type: 'text', text }], isError: true }
+    : { content: [{ type: 'text', text }] };
+}
+
+export class ObsidianToolsServer {
+  private app: App;
+  private getFolderPolicies: () => FolderPolicy[];
+  private redact: (text: string) => string;
+  private config: McpSdkServerConfigWithInstance | null = null;
+
+  constructor(
+    app: App,
+    getFolderPolicies: () => FolderPolicy[] = () => [],
+    redact: (text: string) => string = text => text
+  ) {
+    this.app = app;
+    this.getFolderPolicies = getFolderPolicies;
+    this.redact = redact;
+  }
+
+  /** SDK server config (created once; holds the live server instance). */
+  getConfig(): McpSdkServerConfigWithInstance {
+    if (!this.config) {
+      const path = z.string().describe('Vault-relative note path (e.g. "Projects/Plan.md") or note name');
+
+      this.config = createSdkMcpServer({
+        name: OBSIDIAN_TOOLS_SERVER_NAME,
+        version: '1.0.0',
+        tools: [
+          tool(
+            OBSIDIAN_TOOL_GET_BACKLINKS,
+            'List the notes that link to a note, from Obsidian\'s resolved link index.',
+            { path },
+            async (args) => this.run(() => this.getBacklinks(args.path))
+          ),
+          tool(
+            OBSIDIAN_TOOL_GET_OUTGOING_LINKS,
+            'List the links in a note as Obsidian resolves them, including links to notes that do not exist yet.',
+            { path },
+            async (args) => this.run(() => this.getOutgoingLinks(args.path))
+          ),
+          tool(
+            OBSIDIAN_TOOL_LIST_TAGS,
+            'List the tags of one note, or all tags in the vault with their note counts.',
+            { path: path.optional().describe('Note to list tags for; omit for all vault tags') },
+            async (args) => this.run(() => this.listTags(args.path))
+          ),
+          tool(
+            OBSIDIAN_TOOL_QUERY_FRONTMATTER,
+            'Find notes by frontmatter property using Obsidian\'s metadata cache. Returns each note path with the property value.',
+            {
+              key: z.string().describe('Frontmatter property name, e.g. "status"'),
+              value: z.string().optional()
+                .describe('Only notes whose value equals this (case-insensitive; list properties match any item)'),
+              folder: z.string().optional().describe('Only search inside this vault-relative folder'),
+              limit: z.number().int().min(1).max(MAX_FRONTMATTER_LIMIT).optional()
+                .describe(`Maximum number of notes to return (default ${DEFAULT_FRONTMATTER_LIMIT})`),
+            },
+            async (args) => this.run(() => this.queryFrontmatter(args))
+          ),
+          tool(
+            OBSIDIAN_TOOL_GET_OPEN_NOTES,
+            'List the notes open in the Obsidian workspace and which one is active.',
+            {},
+            async () => this.run(() => this.getOpenNotes())
+          ),
+          tool(
+            OBSIDIAN_TOOL_OPEN_NOTE,
+            'Open a note in the Obsidian editor for the user, optionally at a line.',
+            {
+              path,
+              line: z.number().int().min(1).optional().describe('1-based line to scroll to'),
+              newTab: z.boolean().optional().describe('Open in a new tab instead of the current one'),
+            },
+            async (args) => this.run(() => this.openNote(args.path, args.line, args.newTab))
+          ),
+          tool(
+            OBSIDIAN_TOOL_RENAME_NOTE,
+            'Rename or move a note through Obsidian so that every link to it is updated. '
+              + 'Use this instead of moving files with Bash, which breaks links.',
+            {
+              path,
+              newPath: z.string().describe('New vault-relative path, e.g. "Archive/Plan.md"'),
+            },
+            async (args) => this.run(() => this.renameNote(args.path, args.newPath))
+          ),
+        ],
+      });
+    }
+    return this.config;
+  }
+
+  getBacklinks(path: string): string {
+    const file = this.resolveNote(path);
+    const sources = Object.entries(this.app.metadataCache.resolvedLinks)
+      .filter(([source, targets]) => source !== file.path && targets[file.path] && this.isVisible(source))
+      .map(([source, targets]) => ({ source, count: targets[file.path] }))
+      .sort((a, b) => a.source.localeCompare(b.source));
+
+    if (sources.length === 0) {
+      return `No notes link to ${file.path}.`;
+    }
+    const lines = sources.map(({ source, count }) => `- ${source}${count > 1 ? ` (${count} links)` : ''}`);
+    return `Notes linking to ${file.path} (${sources.length}):\n${lines.join('\n')}`;
+  }
+
+  getOutgoingLinks(path: string): string {
+    const file = this.resolveNote(path);
+    const resolved = Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {})
+      .filter(target => this.isVisible(target))
+      .sort();
+    const unresolved = Object.keys(this.app.metadataCache.unresolvedLinks[file.path] ?? {}).sort();
+
+    if (resolved.length === 0 && unresolved.length === 0) {
+      return `${file.path} has no links.`;
+    }
+    const lines = [
+      ...resolved.map(target => `- ${target}`),
+      ...unresolved.map(link => `- ${link} (unresolved, note does not exist)`),
+    ];
+    return `Links in ${file.path}:\n${lines.join('\n')}`;
+  }
+
+  listTags(path?: string): string {
+    if (path) {
+      const file = this.resolveNote(path);
+      const tags = getNoteTags(this.app.metadataCache.getFileCache(file));
+      return tags.length > 0
+        ? `Tags in ${file.path}: ${tags.map(tag => `#${tag}`).join(', ')}`
+        : `${file.path} has no tags.`;
+    }
+
+    const counts = new Map<string, number>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!this.isVisible(file.path)) continue;
+      for (const tag of getNoteTags(this.app.metadataCache.getFileCache(file))) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    if (counts.size === 0) {
+      return 'The vault has no tags.';
+    }
+    const lines = Array.from(counts)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([tag, count]) => `- #${tag} (${count})`);
+    return `Tags (${counts.size}):\n${lines.join('\n')}`;
+  }
+
+  queryFrontmatter(query: { key: string; value?: string; folder?: string; limit?: number }): string {
+    const folder = query.folder ? normalizeNotePath(query.folder) : '';
+    const folderPrefix = folder ? `${folder}/` : '';
+    const limit = query.limit ?? DEFAULT_FRONTMATTER_LIMIT;
+
+    const matches: string[] = [];
+    let total = 0;
+    const files = this.app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path));
+    for (const file of files) {
+      if (folderPrefix && !file.path.startsWith(folderPrefix)) continue;
+      if (!this.isVisible(file.path)) continue;
+
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter || !(query.key in frontmatter)) continue;
+
+      const value: unknown = frontmatter[query.key];
+      if (query.value !== undefined && !frontmatterValueMatches(value, query.value)) continue;
+
+      total++;
+      if (matches.length < limit) {
+        matches.push(`- ${file.path}: ${JSON.stringify(value)}`);
+      }
+    }
+
+    const condition = query.value !== undefined ? `${query.key} = "${query.value}"` : query.key;
+    if (total === 0) {
+      return `No notes have frontmatter ${condition}.`;
+    }
+    const more = total > matches.length ? `\n(${total - matches.length} more not shown)` : '';
+    return `Notes with frontmatter ${condition} (${total}):\n${matches.join('\n')}${more}`;
+  }
+
+  getOpenNotes(): string {
+    const activePath = this.app.workspace.getActiveFile()?.path;
+    const paths = new Set<string>();
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      if (leaf.view instanceof MarkdownView && leaf.view.file) {
+        paths.add(leaf.view.file.path);
+      }
+    }
+    if (activePath) {
+      paths.add(activePath);
+    }
+    for (const path of paths) {
+      if (!this.isVisible(path)) paths.delete(path);
+    }
+
+    if (paths.size === 0) {
+      return 'No notes are open.';
+    }
+    const lines = Array.from(paths).map(path => `- ${path}${path === activePath ? ' (active)' : ''}`);
+    return `Open notes:\n${lines.join('\n')}`;
+  }
+
+  async openNote(path: string, line?: number, newTab = false): Promise<string> {
+    const file = this.resolveNote(path);
+    const leaf = this.app.workspace.getLeaf(newTab ? 'tab' : false);
+    await leaf.openFile(file, line !== undefined ? { eState: { line: line - 1 } } : undefined);
+    return `Opened ${file.path}${line !== undefined ? ` at line ${line}` : ''}.`;
+  }
+
+  async renameNote(path: string, newPath: string): Promise<string> {
+    const file = this.resolveNote(path);
+    this.assertWritable(file.path);
+
+    let target = normalizeNotePath(newPath);
+    if (!target) {
+      throw new Error('New path is empty');
+    }
+    if (!/\.[^/]+$/.test(target)) {
+      target += `.${file.extension}`;
+    }
+    if (target === file.path) {
+      return `${file.path} already has that path.`;
+    }
+    this.assertWritable(target);
+    if (this.app.vault.getAbstractFileByPath(target)) {
+      throw new Error(`${target} already exists`);
+    }
+
+    const parent = target.includes('/') ? target.slice(0, target.lastIndexOf('/')) : '';
+    if (parent && !this.app.vault.getAbstractFileByPath(parent)) {
+      await this.app.vault.createFolder(parent);
+    }
+
+    const oldPath = file.path;
+    const linkingPaths = Object.entries(this.app.metadataCache.resolvedLinks)
+      .filter(([source, targets]) => source !== oldPath && targets[oldPath])
+      .map(([source]) => source);
+    const policies = this.getFolderPolicies();
+    if (linkingPaths.some(source => findFolderPolicy(policies, source))) {
+      // Hidden notes must not be named, so the protected notes are not listed
+      throw new Error(`Renaming ${oldPath} would update links in notes protected by a folder policy`);
+    }
+    const linkingNotes = linkingPaths.length;
+
+    await this.app.fileManager.renameFile(file, target);
+
+    const noteLabel = linkingNotes === 1 ? 'note' : 'notes';
+    return `Renamed ${oldPath} to ${target}. Links in ${linkingNotes} ${noteLabel} were updated.`;
+  }
+
+  /** Finds a note by vault path (".md" optional) or, failing that, by link name. */
+  private resolveNote(path: string): TFile {
+    const file = this.findNote(normalizeNotePath(path));
+    const policy = file ? findFolderPolicy(this.getFolderPolicies(), file.path) : null;
+    if (!file || policy?.access === 'hidden') {
+      throw new Error(`Note not found: ${path}`);
+    }
+    if (policy?.access === 'ask') {
+      throw new Error(`${file.path} is in "${policy.folder}/", which requires approval for every read. Use Read instead.`);
+    }
+    return file;
+  }
+
+  private findNote(normalized: string): TFile | null {
+    const candidates = /\.md$/i.test(normalized) ? [normalized] : [normalized, `${normalized}.md`];
+    for (const candidate of candidates) {
+      const file = this.app.vault.getAbstractFileByPath(candidate);
+      if (file instanceof TFile) return file;
+    }
+    return this.app.metadataCache.getFirstLinkpathDest(normalized, '');
+  }
+
+  private isVisible(path: string): boolean {
+    return !isReadRestricted(this.getFolderPolicies(), path);
+  }
+
+  /** Renames can't ask for approval, so any folder policy on a path blocks them. */
+  private assertWritable(path: string): void {
+    const policy = findFolderPolicy(this.getFolderPolicies(), path);
+    if (!policy) return;
+    throw new Error(policy.access === 'hidden'
+      ? `Cannot move notes into or out of ${path}`
+      : `${path} is in "${policy.folder}/", which is ${policy.access === 'readonly' ? 'read-only' : 'approval-only'} for renames`);
+  }
+
+  private async run(fn: () => string | Promise<string>): Promise<ToolResult> {
+    try {
+      return textResult(this.redact(await fn()));
+    } catch (error) {
+      return textResult(this.redact(error instanceof Error ? error.message : String(error)), true);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * VaultSearchServer - In-process MCP server with a ranked note search tool.
+ *
+ * Hosted by Claudian alongside the user's external MCP servers. The BM25 index
+ * is built on the first search and kept current from vault events: changed
+ * notes are only marked dirty and re-read before the next search, so typing
+ * in a note costs nothing until the agent actually searches.
+ */
+
+import { createSdkMcpServer, type McpSdkServerConfigWithInstance, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+
+import { buildNoteSnippet, tokenize, VaultSearchIndex } from '../storage/VaultSearchIndex';
+
+export const VAULT_SEARCH_SERVER_NAME = 'claudian-vault';
+export const VAULT_SEARCH_TOOL_NAME = 'search_notes';
+/** Full tool name as seen by the agent and permission rules. */
+export const VAULT_SEARCH_TOOL_ID = `mcp__${VAULT_SEARCH_SERVER_NAME}__${VAULT_SEARCH_TOOL_NAME}`;
+
+const DEFAULT_RESULT_LIMIT = 10;
+const MAX_RESULT_LIMIT = 50;
+
+/** Vault access used to build and refresh the index. */
+export interface VaultSearchSource {
+  /** Vault-relative paths of all Markdown notes. */
+  listNotes(): string[];
+  readNote(path: string): Promise<string>;
+  /** Notes left out of results, such as those in folders hidden from the agent. */
+  isExcluded?(path: string): boolean;
+  /** Masks secrets in note text before snippets are taken from it. */
+  redact?(text: string): string;
+}
+
+export interface VaultSearchResult {
+  path: string;
+  score: number;
+  snippet: string;
+}
+
+export class VaultSearchServer {
+  private source: VaultSearchSource;
+  private index = new VaultSearchIndex();
+  private isBuilt = false;
+  private buildPromise: Promise<void> | null = null;
+  private dirtyPaths = new Set<string>();
+  private config: McpSdkServerConfigWithInstance | null = null;
+
+  constructor(source: VaultSearchSource) {
+    this.source = source;
+  }
+
+  /** SDK server config (created once; holds the live server instance). */
+  getConfig(): McpSdkServerConfigWithInstance {
+    if (!this.config) {
+      this.config = createSdkMcpServer({
+        name: VAULT_SEARCH_SERVER_NAME,
+        version: '1.0.0',
+        tools: [
+          tool(
+            VAULT_SEARCH_TOOL_NAME,
+            'Search the Obsidian vault for notes about a topic. Ranks notes by relevance (BM25 over note text and '
+              + 'file names) and returns vault-relative paths with the best matching passage. Use it to find notes '
+              + 'phrased differently from an exact Grep pattern, then Read the most relevant ones.',
+            {
+              query: z.string().describe('Words describing what to look for, e.g. "quarterly budget planning"'),
+              limit: z.number().int().min(1).max(MAX_RESULT_LIMIT).optional()
+                .describe(`Maximum number of notes to return (default ${DEFAULT_RESULT_LIMIT})`),
+              folder: z.string().optional().describe('Only search inside this vault-relative folder'),
+            },
+            async ({ query, limit, folder }) => {
+              const results = await this.search(query, { limit, folder });
+              return { content: [{ type: 'text', text: formatSearchResults(query, results) }] };
+            }
+          ),
+        ],
+      });
+    }
+    return this.config;
+  }
+
+  /** Marks a created or modified note for re-indexing. */
+  markChanged(path: string): void {
+    // Before the first build the full scan picks the note up anyway
+    if ((!this.isBuilt && !this.buildPromise) || !path.endsWith('.md')) return;
+    this.dirtyPaths.add(path);
+  }
+
+  markDeleted(path: string): void {
+    this.dirtyPaths.delete(path);
+    this.index.removeNote(path);
+  }
+
+  markRenamed(oldPath: string, newPath: string): void {
+    this.markDeleted(oldPath);
+    this.markChanged(newPath);
+  }
+
+  /** Drops the index; it is rebuilt on the next search. */
+  reset(): void {
+    this.index.clear();
+    this.dirtyPaths.clear();
+    this.isBuilt = false;
+  }
+
+  async search(query: string, options: { limit?: number; folder?: string } = {}): Promise<VaultSearchResult[]> {
+    await this.ensureIndexed();
+
+    const hits = this.index.search(query, {
+      limit: options.limit ?? DEFAULT_RESULT_LIMIT,
+      folder: options.folder,
+      exclude: (path) => this.source.isExcluded?.(path) ?? false,
+    });
+    const queryTerms = tokenize(query);
+    const results: VaultSearchResult[] = [];
+    for (const hit of hits) {
+      let snippet = '';
+      try {
+        const content = await this.source.readNote(hit.path);
+        snippet = buildNoteSnippet(this.source.redact?.(content) ?? content, queryTerms);
+      } catch {
+        // Note vanished since indexing; the path is still useful
+      }
+      results.push({ path: hit.path, score: hit.score, snippet });
+    }
+    return results;
+  }
+
+  private async ensureIndexed(): Promise<void> {
+    if (!this.isBuilt) {
+      this.buildPromise ??= this.build().finally(() => {
+        this.buildPromise = null;
+      });
+      await this.buildPromise;
+    }
+
+    const dirty = Array.from(this.dirtyPaths);
+    this.dirtyPaths.clear();
+    for (const path of dirty) {
+      await this.indexNote(path);
+    }
+  }
+
+  private async build(): Promise<void> {
+    this.index.clear();
+    for (const path of this.source.listNotes()) {
+      await this.indexNote(path);
+    }
+    this.isBuilt = true;
+  }
+
+  private async indexNote(path: string): Promise<void> {
+    try {
+      this.index.setNote(path, await this.source.readNote(path));
+    } catch {
+      this.index.removeNote(path);
+    }
+  }
+}
+
+/** Tool output: one numbered entry per note with its score and snippet. */
+export function formatSearchResults(query: string, results: VaultSearchResult[]): string {
+  if (results.length === 0) {
+    return `No notes found for "${query}".`;
+  }
+
+  return results
+    .map((result, i) => {
+      const header = `${i + 1}. ${result.path} (score ${result.score.toFixed(2)})`;
+      return result.snippet ? `${header}\n   ${result.snippet}` : header;
+    })
+    .join('\n');
+}
@@ -1,2 +1,64 @@
-export { McpServerManager, type McpStorageAdapter } from './McpServerManager';
-export { type McpTestResult, type McpTool, testMcpServer } from './McpTester';
+export {
+  applyMcpImport,
+  buildMcpImportPlan,
+  discoverMcpImportSources,
+  type McpConflictResolution,
+  type McpImportChoice,
+  type McpImportEntry,
+  type McpImportResult,
+  type McpImportServer,
+  type McpImportSource,
+  type McpImportStatus,
+} from './McpConfigImport';
+export {
+  findSecretRefs,
+  type McpCredentialProvider,
+  McpCredentials,
+  resolveSecretRefs,
+} from './McpCredentials';
+export { McpOAuthClient, type McpOAuthOptions } from './McpOAuth';
+export {
+  type BuiltInMcpServer,
+  DEFAULT_MCP_HEALTH_INTERVAL_MS,
+  DEFAULT_MCP_HEALTH_MAX_FAILURES,
+  describeMcpHealth,
+  type McpHealthMonitorOptions,
+  type McpHealthStatus,
+  type McpServerHealth,
+  McpServerManager,
+  type McpServerTester,
+  type McpStorageAdapter,
+} from './McpServerManager';
+export {
+  getMcpPrompt,
+  type McpPrompt,
+  type McpPromptArgument,
+  type McpResource,
+  type McpTestResult,
+  type McpTool,
+  readMcpResource,
+  testMcpServer,
+} from './McpTester';
+export {
+  frontmatterValueMatches,
+  getNoteTags,
+  OBSIDIAN_AUTO_ALLOWED_TOOL_IDS,
+  OBSIDIAN_TOOL_GET_BACKLINKS,
+  OBSIDIAN_TOOL_GET_OPEN_NOTES,
+  OBSIDIAN_TOOL_GET_OUTGOING_LINKS,
+  OBSIDIAN_TOOL_LIST_TAGS,
+  OBSIDIAN_TOOL_OPEN_NOTE,
+  OBSIDIAN_TOOL_QUERY_FRONTMATTER,
+  OBSIDIAN_TOOL_RENAME_NOTE,
+  OBSIDIAN_TOOLS_SERVER_NAME,
+  ObsidianToolsServer,
+} from './ObsidianToolsServer';
+export {
+  formatSearchResults,
+  VAULT_SEARCH_SERVER_NAME,
+  VAULT_SEARCH_TOOL_ID,
+  VAULT_SEARCH_TOOL_NAME,
+  type VaultSearchResult,
+  VaultSearchServer,
+  type VaultSearchSource,
+} from './VaultSearchServer';
@@ -0,0 +1,280 @@
+/**
+ * PluginInstaller - Install marketplace plugins the way the Claude Code CLI does.
+ *
+ * Installs are copied (or git-cloned) into ~/.claude/plugins/cache/<marketplace>/<plugin>/<version>,
+ * recorded in installed_plugins.json, and enabled in the settings.json of the chosen scope.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getEnhancedPath } from '../../utils/env';
+import type { CCSettingsStorage } from '../storage/CCSettingsStorage';
+import type {
+  InstalledPluginEntry,
+  InstalledPluginsFile,
+  MarketplacePlugin,
+  PluginMarketplace,
+  PluginScope,
+  PluginSourceSpec,
+} from '../types';
+import { GLOBAL_SETTINGS_PATH, INSTALLED_PLUGINS_PATH } from './PluginManager';
+import { getSourceCloneUrl, KNOWN_MARKETPLACES_PATH, MARKETPLACES_DIR, PLUGINS_DIR } from './PluginMarketplace';
+
+export const PLUGIN_CACHE_DIR = path.join(PLUGINS_DIR, 'cache');
+
+const GIT_TIMEOUT_MS = 120_000;
+
+/** Runs git with the given arguments; rejects with git's stderr on failure. */
+export type GitRunner = (args: string[], cwd?: string) => Promise<string>;
+
+export const runGit: GitRunner = (args, cwd) => new Promise((resolve, reject) => {
+  execFile('git', args, {
+    cwd,
+    env: { ...process.env, PATH: getEnhancedPath() },
+    timeout: GIT_TIMEOUT_MS,
+  }, (error, stdout, stderr) => {
+    if (error) {
+      reject(new Error(stderr?.trim() || error.message));
+      return;
+    }
+    resolve(stdout.trim());
+  });
+});
+
+function readJsonFile<T>(filePath: string): T | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+function samePath(a: string, b: string): boolean {
+  return path.resolve(a) === path.resolve(b);
+}
+
+/** True when `child` resolves to a path strictly inside `parent`. */
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(path.resolve(parent), path.resolve(child));
+  return !!relative && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+/** Names come from remote manifests, so "." and ".." must not become path segments. */
+function sanitizeSegment(value: string): string {
+  const segment = value.replace(/[^a-zA-Z0-9._-]/g, '-');
+  if (!segment || segment === '.' || segment === '..') {
+    throw new Error(`Invalid name "${value}"`);
+  }
+  return segment;
+}
+
+export class PluginInstaller {
+  private vaultPath: string;
+  private ccSettingsStorage: CCSettingsStorage;
+  private git: GitRunner;
+
+  constructor(vaultPath: string, ccSettingsStorage: CCSettingsStorage, git: GitRunner = runGit) {
+    this.vaultPath = vaultPath;
+    this.ccSettingsStorage = ccSettingsStorage;
+    this.git = git;
+  }
+
+  /** Installed entry of a plugin per scope, for this vault. */
+  getInstalledEntries(pluginId: string): Partial<Record<PluginScope, InstalledPluginEntry>> {
+    const entries = this.readInstalled().plugins[pluginId] ?? [];
+    const result: Partial<Record<PluginScope, InstalledPluginEntry>> = {};
+    for (const entry of entries) {
+      if (entry.scope === 'user') {
+        result.user = entry;
+      } else if (entry.projectPath && samePath(entry.projectPath, this.vaultPath)) {
+        result.project = entry;
+      }
+    }
+    return result;
+  }
+
+  /** Clones a git marketplace that is configured but not checked out yet. */
+  async cloneMarketplace(marketplace: PluginMarketplace): Promise<string> {
+    const url = getSourceCloneUrl(marketplace.source);
+    if (!url) {
+      throw new Error(`Marketplace "${marketplace.name}" is a local directory`);
+    }
+
+    const dest = path.join(MARKETPLACES_DIR, sanitizeSegment(marketplace.name));
+    if (!isInside(dest, MARKETPLACES_DIR)) {
+      throw new Error(`Marketplace "${marketplace.name}" resolves outside ${MARKETPLACES_DIR}`);
+    }
+    fs.rmSync(dest, { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    await this.git(['clone', '--depth', '1', ...this.refArgs(marketplace.source), url, dest]);
+
+    const known = readJsonFile<Record<string, unknown>>(KNOWN_MARKETPLACES_PATH) ?? {};
+    known[marketplace.name] = {
+      source: marketplace.source,
+      installLocation: dest,
+      lastUpdated: new Date().toISOString(),
+    };
+    writeJsonFile(KNOWN_MARKETPLACES_PATH, known);
+
+    return dest;
+  }
+
+  /** Pulls the latest marketplace.json for a cloned git marketplace. */
+  async updateMarketplace(marketplace: PluginMarketplace): Promise<void> {
+    if (!marketplace.root || !getSourceCloneUrl(marketplace.source)) {
+      throw new Error(`Marketplace "${marketplace.name}" is not a cloned git marketplace`);
+    }
+    await this.git(['pull', '--ff-only'], marketplace.root);
+
+    const known = readJsonFile<Record<string, Record<string, unknown>>>(KNOWN_MARKETPLACES_PATH);
+    if (known?.[marketplace.name]) {
+      known[marketplace.name].lastUpdated = new Date().toISOString();
+      writeJsonFile(KNOWN_MARKETPLACES_PATH, known);
+    }
+  }
+
+  /** Installs (or reinstalls) a plugin into a scope and enables it there. */
+  async install(marketplace: PluginMarketplace, plugin: MarketplacePlugin, scope: PluginScope): Promise<InstalledPluginEntry> {
+    const marketplaceName = sanitizeSegment(marketplace.name);
+    const pluginName = sanitizeSegment(plugin.name);
+    const version = plugin.version ?? 'unknown';
+    const installPath = path.join(PLUGIN_CACHE_DIR, marketplaceName, pluginName, sanitizeSegment(version));
+    const previous = this.getInstalledEntries(plugin.id)[scope];
+
+    // Only ever delete inside the plugin cache
+    if (!isInside(installPath, PLUGIN_CACHE_DIR)) {
+      throw new Error(`Plugin "${plugin.name}" resolves outside ${PLUGIN_CACHE_DIR}`);
+    }
+    // A manifest may only point at directories inside its own marketplace
+    if (plugin.localPath && !(marketplace.root && isInside(plugin.localPath, marketplace.root))) {
+      throw new Error(`Plugin directory is outside the marketplace: ${plugin.localPath}`);
+    }
+
+    fs.rmSync(installPath, { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(installPath), { recursive: true });
+
+    let gitCommitSha: string | undefined;
+    if (plugin.localPath) {
+      if (!fs.existsSync(plugin.localPath)) {
+        throw new Error(`Plugin directory not found: ${plugin.localPath}`);
+      }
+      fs.cpSync(plugin.localPath, installPath, {
+        recursive: true,
+        filter: (src) => path.basename(src) !== '.git',
+      });
+    } else {
+      const source = typeof plugin.source === 'string' ? null : plugin.source;
+      const url = source ? getSourceCloneUrl(source) : null;
+      if (!source || !url) {
+        throw new Error(`Unsupported source for plugin "${plugin.name}"`);
+      }
+      await this.git(['clone', '--depth', '1', ...this.refArgs(source), url, installPath]);
+      gitCommitSha = await this.git(['rev-parse', 'HEAD'], installPath).catch(() => undefined);
+    }
+
+    const now = new Date().toISOString();
+    const entry: InstalledPluginEntry = {
+      scope,
+      installPath,
+      version,
+      installedAt: previous?.installedAt ?? now,
+      lastUpdated: now,
+      ...(gitCommitSha ? { gitCommitSha } : {}),
+      ...(scope === 'project' ? { projectPath: this.vaultPath } : {}),
+    };
+
+    const installed = this.readInstalled();
+    const others = (installed.plugins[plugin.id] ?? []).filter(e => !this.isScopeEntry(e, scope));
+    installed.plugins[plugin.id] = [...others, entry];
+    writeJsonFile(INSTALLED_PLUGINS_PATH, installed);
+
+    if (previous && !samePath(previous.installPath, installPath)) {
+      this.removeIfUnreferenced(previous.installPath, installed);
+    }
+
+    await this.setEnabled(plugin.id, scope, true);
+    return entry;
+  }
+
+  /** Removes a plugin from a scope; deletes its files once no scope uses them. */
+  async uninstall(pluginId: string, scope: PluginScope): Promise<void> {
+    const installed = this.readInstalled();
+    const entries = installed.plugins[pluginId] ?? [];
+    const removed = entries.filter(e => this.isScopeEntry(e, scope));
+    if (removed.length === 0) {
+      return;
+    }
+
+    const remaining = entries.filter(e => !this.isScopeEntry(e, scope));
+    if (remaining.length > 0) {
+      installed.plugins[pluginId] = remaining;
+    } else {
+      delete installed.plugins[pluginId];
+    }
+    writeJsonFile(INSTALLED_PLUGINS_PATH, installed);
+
+    for (const entry of removed) {
+      this.removeIfUnreferenced(entry.installPath, installed);
+    }
+
+    await this.setEnabled(pluginId, scope, null);
+  }
+
+  private refArgs(source: PluginSourceSpec): string[] {
+    return 'ref' in source && source.ref ? ['--branch', source.ref] : [];
+  }
+
+  private isScopeEntry(entry: InstalledPluginEntry, scope: PluginScope): boolean {
+    if (entry.scope !== scope) return false;
+    return scope === 'user' || (!!entry.projectPath && samePath(entry.projectPath, this.vaultPath));
+  }
+
+  private readInstalled(): InstalledPluginsFile {
+    const installed = readJsonFile<InstalledPluginsFile>(INSTALLED_PLUGINS_PATH);
+    return {
+      version: installed?.version ?? 2,
+      plugins: installed?.plugins ?? {},
+    };
+  }
+
+  private removeIfUnreferenced(installPath: string, installed: InstalledPluginsFile): void {
+    const stillUsed = Object.values(installed.plugins)
+      .some(entries => entries.some(e => samePath(e.installPath, installPath)));
+    // Only ever delete inside the plugin cache
+    if (!stillUsed && isInside(installPath, PLUGIN_CACHE_DIR)) {
+      fs.rmSync(installPath, { recursive: true, force: true });
+    }
+  }
+
+  /** null removes the plugin from enabledPlugins. */
+  private async setEnabled(pluginId: string, scope: PluginScope, enabled: boolean | null): Promise<void> {
+    if (scope === 'project') {
+      if (enabled === null) {
+        await this.ccSettingsStorage.removePluginEnabled(pluginId);
+      } else {
+        await this.ccSettingsStorage.setPluginEnabled(pluginId, enabled);
+      }
+      return;
+    }
+
+    const settings = readJsonFile<Record<string, unknown>>(GLOBAL_SETTINGS_PATH) ?? {};
+    const enabledPlugins = { ...(settings.enabledPlugins as Record<string, boolean> | undefined) };
+    if (enabled === null) {
+      delete enabledPlugins[pluginId];
+    } else {
+      enabledPlugins[pluginId] = enabled;
+    }
+    settings.enabledPlugins = enabledPlugins;
+    writeJsonFile(GLOBAL_SETTINGS_PATH, settings);
+  }
+}
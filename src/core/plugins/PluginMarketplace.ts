@@ -0,0 +1,220 @@
+/**
+ * PluginMarketplace - Browse Claude Code plugin marketplaces.
+ *
+ * Marketplaces are discovered from:
+ * - ~/.claude/plugins/known_marketplaces.json (added via the CLI; git ones are cloned to installLocation)
+ * - extraKnownMarketplaces in user and project settings.json
+ *
+ * Each marketplace root holds .claude-plugin/marketplace.json listing its plugins.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type {
+  KnownMarketplaceEntry,
+  MarketplacePlugin,
+  PluginContents,
+  PluginMarketplace,
+  PluginSourceSpec,
+} from '../types';
+
+export const PLUGINS_DIR = path.join(os.homedir(), '.claude', 'plugins');
+export const KNOWN_MARKETPLACES_PATH = path.join(PLUGINS_DIR, 'known_marketplaces.json');
+export const MARKETPLACES_DIR = path.join(PLUGINS_DIR, 'marketplaces');
+
+const MARKETPLACE_MANIFEST = path.join('.claude-plugin', 'marketplace.json');
+
+function readJsonFile<T>(filePath: string): T | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function isSourceSpec(value: unknown): value is PluginSourceSpec {
+  if (!value || typeof value !== 'object') return false;
+  const spec = value as Record<string, unknown>;
+  switch (spec.source) {
+    case 'directory':
+      return typeof spec.path === 'string';
+    case 'github':
+      return typeof spec.repo === 'string';
+    case 'git':
+    case 'url':
+      return typeof spec.url === 'string';
+    default:
+      return false;
+  }
+}
+
+/** Clone URL for git-based sources, null for local directories. */
+export function getSourceCloneUrl(source: PluginSourceSpec): string | null {
+  switch (source.source) {
+    case 'github':
+      return `https://github.com/${source.repo}.git`;
+    case 'git':
+    case 'url':
+      return source.url;
+    default:
+      return null;
+  }
+}
+
+/** Short label for a source ("owner/repo", a URL or a path). */
+export function describeSource(source: string | PluginSourceSpec): string {
+  if (typeof source === 'string') return source;
+  switch (source.source) {
+    case 'directory':
+      return source.path;
+    case 'github':
+      return source.repo;
+    default:
+      return source.url;
+  }
+}
+
+function getConfiguredMarketplaces(vaultPath: string): Map<string, KnownMarketplaceEntry> {
+  const configured = new Map<string, KnownMarketplaceEntry>();
+  const settingsFiles = [
+    path.join(os.homedir(), '.claude', 'settings.json'),
+    path.join(vaultPath, '.claude', 'settings.json'),
+  ];
+
+  // Later sources win: project settings override user settings override the CLI registry
+  const records = [
+    readJsonFile<Record<string, unknown>>(KNOWN_MARKETPLACES_PATH),
+    ...settingsFiles.map(file => readJsonFile<{ extraKnownMarketplaces?: Record<string, unknown> }>(file)?.extraKnownMarketplaces),
+  ];
+
+  for (const record of records) {
+    if (!record || typeof record !== 'object') continue;
+    for (const [name, raw] of Object.entries(record)) {
+      const entry = raw as Partial<KnownMarketplaceEntry> | null;
+      if (!entry || !isSourceSpec(entry.source)) continue;
+      const previous = configured.get(name);
+      configured.set(name, {
+        source: entry.source,
+        installLocation: entry.installLocation ?? previous?.installLocation,
+        lastUpdated: entry.lastUpdated ?? previous?.lastUpdated,
+      });
+    }
+  }
+
+  return configured;
+}
+
+function getMarketplaceRoot(name: string, entry: KnownMarketplaceEntry): string | null {
+  if (entry.source.source === 'directory') {
+    return entry.source.path;
+  }
+  const candidates = [entry.installLocation, path.join(MARKETPLACES_DIR, name)];
+  return candidates.find((dir): dir is string => !!dir && fs.existsSync(path.join(dir, MARKETPLACE_MANIFEST))) ?? null;
+}
+
+function getAuthorName(author: unknown): string | undefined {
+  if (typeof author === 'string') return author;
+  if (author && typeof author === 'object' && typeof (author as { name?: unknown }).name === 'string') {
+    return (author as { name: string }).name;
+  }
+  return undefined;
+}
+
+/** Reads the plugin list of a marketplace checkout. Throws when the manifest is missing or invalid. */
+export function readMarketplaceManifest(root: string, marketplaceName: string): MarketplacePlugin[] {
+  const manifestPath = path.join(root, MARKETPLACE_MANIFEST);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No ${MARKETPLACE_MANIFEST} in ${root}`);
+  }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as { plugins?: unknown };
+  if (!Array.isArray(manifest.plugins)) {
+    throw new Error(`${manifestPath} has no plugins list`);
+  }
+
+  const plugins: MarketplacePlugin[] = [];
+  for (const raw of manifest.plugins) {
+    if (!raw || typeof raw !== 'object') continue;
+    const entry = raw as Record<string, unknown>;
+    if (typeof entry.name !== 'string' || !entry.name) continue;
+
+    const source = typeof entry.source === 'string' || isSourceSpec(entry.source) ? entry.source : null;
+    if (!source) continue;
+
+    let localPath: string | null = null;
+    if (typeof source === 'string') {
+      localPath = path.resolve(root, source);
+    } else if (source.source === 'directory') {
+      localPath = path.resolve(root, source.path);
+    }
+
+    plugins.push({
+      name: entry.name,
+      id: `${entry.name}@${marketplaceName}`,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+      version: typeof entry.version === 'string' ? entry.version : undefined,
+      author: getAuthorName(entry.author),
+      source,
+      localPath,
+    });
+  }
+
+  return plugins.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** All configured marketplaces with their plugins (unreadable ones carry an error). */
+export function discoverMarketplaces(vaultPath: string): PluginMarketplace[] {
+  const marketplaces: PluginMarketplace[] = [];
+
+  for (const [name, entry] of getConfiguredMarketplaces(vaultPath)) {
+    const root = getMarketplaceRoot(name, entry);
+    const marketplace: PluginMarketplace = { name, source: entry.source, root, plugins: [] };
+
+    if (root) {
+      try {
+        marketplace.plugins = readMarketplaceManifest(root, name);
+      } catch (error) {
+        marketplace.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    marketplaces.push(marketplace);
+  }
+
+  return marketplaces.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function listNames(dir: string, match: (entry: fs.Dirent) => string | null): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .map(match)
+      .filter((name): name is string => name !== null)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/** Lists the commands, agents, skills, MCP servers and hooks a plugin directory provides. */
+export function readPluginContents(pluginDir: string): PluginContents {
+  const markdownName = (entry: fs.Dirent) =>
+    entry.isFile() && entry.name.endsWith('.md') ? entry.name.slice(0, -'.md'.length) : null;
+
+  const skillsDir = path.join(pluginDir, 'skills');
+  const skills = listNames(skillsDir, entry =>
+    entry.isDirectory() && fs.existsSync(path.join(skillsDir, entry.name, 'SKILL.md')) ? entry.name : null);
+
+  const mcpConfig = readJsonFile<{ mcpServers?: Record<string, unknown> }>(path.join(pluginDir, '.mcp.json'));
+
+  return {
+    commands: listNames(path.join(pluginDir, 'commands'), markdownName),
+    agents: listNames(path.join(pluginDir, 'agents'), markdownName),
+    skills,
+    mcpServers: Object.keys(mcpConfig?.mcpServers ?? {}).sort(),
+    hasHooks: fs.existsSync(path.join(pluginDir, 'hooks', 'hooks.json')),
+  };
+}
@@ -1 +1,4 @@
+export type { GitRunner } from './PluginInstaller';
+export { PluginInstaller } from './PluginInstaller';
 export { PluginManager } from './PluginManager';
+export { describeSource, discoverMarketplaces, readPluginContents } from './PluginMarketplace';
@@ -52,6 +52,30 @@ Next paragraph
 \`\`\`
 Use \`<insertion>\` tags to insert new content at the cursor position (\`|\`).
 
+### Whole-Note Mode
+\`\`\`
+user's instruction
+
+<editor_note path="path/to/file.md">
+full note content
+</editor_note>
+\`\`\`
+Use one \`<replacement>\` tag containing the COMPLETE revised note. Leave parts the instruction does not concern exactly as they are.
+
+### Multi-Selection Mode
+\`\`\`
+user's instruction
+
+<editor_selection index="1" path="path/to/file.md">
+first selection
+</editor_selection>
+
+<editor_selection index="2" path="path/to/file.md">
+second selection
+</editor_selection>
+\`\`\`
+Apply the instruction to every selection separately. Use one \`<replacement index="N">\` tag per selection, with the same index.
+
 ## Tools & Path Rules
 
 - **Tools**: Read, Grep, Glob, LS, WebSearch, WebFetch. (All read-only).
@@ -85,6 +109,19 @@ If the user wants to MODIFY or REPLACE the selected text, wrap the replacement i
 
 The content inside the tags should be ONLY the replacement text - no explanation.
 
+### When Editing the Whole Note (Whole-Note Mode)
+
+Wrap the complete revised note in a single <replacement> tag. Do not abbreviate unchanged parts.
+
+### When Editing Several Selections (Multi-Selection Mode)
+
+Return one indexed replacement per selection, in order:
+
+<replacement index="1">first replacement</replacement>
+<replacement index="2">second replacement</replacement>
+
+Repeat a selection's text unchanged if the instruction does not apply to it.
+
 ### When Inserting at Cursor (Cursor Mode)
 
 If the user wants to INSERT new content at the cursor position, wrap the insertion in <insertion> tags:
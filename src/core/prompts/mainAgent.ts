@@ -6,11 +6,15 @@
  */
 
 import { getTodayDate } from '../../utils/date';
+import type { FolderPolicy } from '../types';
 
 export interface SystemPromptSettings {
   mediaFolder?: string;
   customPrompt?: string;
   allowedExportPaths?: string[];
+  folderPolicies?: FolderPolicy[];
+  /** Secrets and personal data are masked with placeholders before they are sent. */
+  redaction?: boolean;
   vaultPath?: string;
   userName?: string;
 }
@@ -281,6 +285,41 @@ cp ./note.md ~/Desktop/note.md
 \`\`\``;
 }
 
+/**
+ * Returns instructions for read-only and approval-required vault folders.
+ * Hidden folders are deliberately not named so they stay invisible.
+ */
+function getFolderPolicyInstructions(folderPolicies: FolderPolicy[]): string {
+  const readonly = folderPolicies.filter((p) => p.access === 'readonly').map((p) => `- ${p.folder}/`);
+  const ask = folderPolicies.filter((p) => p.access === 'ask').map((p) => `- ${p.folder}/`);
+  if (readonly.length === 0 && ask.length === 0) {
+    return '';
+  }
+
+  let section = '\n\n## Folder Policies\n';
+  if (readonly.length > 0) {
+    section += `\nRead-only folders (do not create, edit, move or delete files here):\n\n${readonly.join('\n')}\n`;
+  }
+  if (ask.length > 0) {
+    section += `\nFolders where every access needs user approval (only open files here when the task requires it):\n\n${ask.join('\n')}\n`;
+  }
+  return section.trimEnd();
+}
+
+function getRedactionInstructions(enabled: boolean): string {
+  if (!enabled) {
+    return '';
+  }
+
+  return `
+
+## Redacted Values
+
+Secrets and personal data in messages and files are masked with placeholders like \`[REDACTED_API_KEY_5d41402a]\` or \`[REDACTED_EMAIL_3f9a2c1b]\`. Each placeholder stands for one value and is restored when you write files.
+
+- Keep placeholders exactly as they appear when you copy, move or edit text containing them.
+- Never guess, reconstruct or ask for the masked value.`;
+}
 
 export function buildSystemPrompt(settings: SystemPromptSettings = {}): string {
   let prompt = getBaseSystemPrompt(settings.vaultPath, settings.userName);
@@ -288,6 +327,8 @@ export function buildSystemPrompt(settings: SystemPromptSettings = {}): string {
   // Stable content (ordered for context cache optimization)
   prompt += getImageInstructions(settings.mediaFolder || '');
   prompt += getExportInstructions(settings.allowedExportPaths || []);
+  prompt += getFolderPolicyInstructions(settings.folderPolicies || []);
+  prompt += getRedactionInstructions(settings.redaction ?? false);
 
   if (settings.customPrompt?.trim()) {
     prompt += '\n\n## Custom Instructions\n\n' + settings.customPrompt.trim();
@@ -0,0 +1,184 @@
+/**
+ * RedactedFileStore - Masked copies of files the agent reads.
+ *
+ * Built-in tool results can't be rewritten by hooks, so a Read of a file containing
+ * secrets is redirected to a masked copy under .claude/redacted/. Edits to such a file
+ * are redirected to the copy too (the CLI only edits files it has read) and synced back
+ * to the original with the masked values restored.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { normalizePathForFilesystem } from '../../utils/path';
+import type { Redactor } from './Redactor';
+
+export const REDACTED_FILES_DIR = path.join('.claude', 'redacted');
+
+/** Larger files are sent as-is rather than read into memory to scan. */
+const MAX_REDACTED_FILE_SIZE = 2 * 1024 * 1024;
+
+/** Version control folders, which Grep never searches. */
+const SKIPPED_SEARCH_FOLDERS = new Set(['.git', '.svn', '.hg', '.bzr']);
+
+/** Formats the Read tool renders itself (images, PDFs, notebooks) are not masked. */
+const NON_TEXT_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.svg', '.pdf', '.ipynb',
+]);
+
+interface MirrorEntry {
+  original: string;
+  mirror: string;
+  /** Original content when the copy was made, to notice outside changes. */
+  snapshot: string;
+}
+
+function readText(filePath: string): string | null {
+  try {
+    const stat = fs.statSync(filePath);
+    if (!stat.isFile() || stat.size > MAX_REDACTED_FILE_SIZE) return null;
+    const content = fs.readFileSync(filePath, 'utf-8');
+    return content.includes('\0') ? null : content;
+  } catch {
+    return null;
+  }
+}
+
+export class RedactedFileStore {
+  private byOriginal = new Map<string, MirrorEntry>();
+  private byMirror = new Map<string, MirrorEntry>();
+
+  constructor(
+    private redactor: Redactor,
+    private getVaultPath: () => string | null
+  ) {}
+
+  /** Absolute path for a tool's file path, which may be relative to the vault. */
+  resolvePath(filePath: string): string | null {
+    const vaultPath = this.getVaultPath();
+    if (!vaultPath || !filePath) return null;
+    return path.resolve(vaultPath, normalizePathForFilesystem(filePath));
+  }
+
+  /**
+   * Masks the file for a Read. Returns the path of the masked copy, or null when
+   * there is nothing to mask and the original can be read as-is.
+   */
+  prepareRead(filePath: string): string | null {
+    if (NON_TEXT_EXTENSIONS.has(path.extname(filePath).toLowerCase())) return null;
+
+    const content = readText(filePath);
+    if (content === null) return null;
+
+    const { text, redactions } = this.redactor.redact(content);
+    if (redactions.length === 0) {
+      this.forget(filePath);
+      return null;
+    }
+    return this.writeMirror(filePath, content, text);
+  }
+
+  /**
+   * Masks every file under a folder that Grep would show lines from, apart from the
+   * skipped folders. Returns the originals with masked copies, so the search can leave
+   * them out.
+   */
+  prepareSearch(folderPath: string, skippedFolders: string[] = []): string[] {
+    const vaultPath = this.getVaultPath();
+    const skipped = new Set(skippedFolders);
+    if (vaultPath) skipped.add(path.join(vaultPath, REDACTED_FILES_DIR));
+    const masked: string[] = [];
+
+    const walk = (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!SKIPPED_SEARCH_FOLDERS.has(entry.name) && !skipped.has(entryPath)) walk(entryPath);
+        } else if (entry.isFile() && this.prepareRead(entryPath)) {
+          masked.push(entryPath);
+        }
+      }
+    };
+
+    walk(folderPath);
+    return masked;
+  }
+
+  /**
+   * Masked copy to redirect a write to, or null when the file was never masked.
+   * A copy whose original changed since it was read is refreshed, so the CLI
+   * reports the file as modified and the agent reads it again.
+   */
+  getWriteTarget(filePath: string): string | null {
+    const entry = this.byOriginal.get(filePath);
+    if (!entry) return null;
+
+    const content = readText(filePath);
+    if (content !== null && content !== entry.snapshot) {
+      this.writeMirror(filePath, content, this.redactor.redact(content).text);
+    }
+    return entry.mirror;
+  }
+
+  /** Writes a masked copy back to its original with the masked values restored. */
+  syncBack(mirrorPath: string): void {
+    const entry = this.byMirror.get(mirrorPath);
+    if (!entry) return;
+
+    const content = readText(mirrorPath);
+    if (content === null) return;
+
+    const restored = this.redactor.restore(content);
+    fs.writeFileSync(entry.original, restored, 'utf-8');
+    entry.snapshot = restored;
+  }
+
+  /** Deletes every masked copy. */
+  clear(): void {
+    const vaultPath = this.getVaultPath();
+    if (vaultPath) {
+      try {
+        fs.rmSync(path.join(vaultPath, REDACTED_FILES_DIR), { recursive: true, force: true });
+      } catch {
+        // Leftover copies only hold masked content
+      }
+    }
+    this.byOriginal.clear();
+    this.byMirror.clear();
+  }
+
+  private writeMirror(original: string, content: string, masked: string): string | null {
+    const vaultPath = this.getVaultPath();
+    if (!vaultPath) return null;
+
+    // Same file name in a per-file folder, so the agent still sees the file type
+    const hash = createHash('sha256').update(original).digest('hex').slice(0, 16);
+    const mirror = path.join(vaultPath, REDACTED_FILES_DIR, hash, path.basename(original));
+    fs.mkdirSync(path.dirname(mirror), { recursive: true });
+    fs.writeFileSync(mirror, masked, 'utf-8');
+
+    const entry: MirrorEntry = { original, mirror, snapshot: content };
+    this.byOriginal.set(original, entry);
+    this.byMirror.set(mirror, entry);
+    return mirror;
+  }
+
+  private forget(original: string): void {
+    const entry = this.byOriginal.get(original);
+    if (!entry) return;
+    this.byOriginal.delete(original);
+    this.byMirror.delete(entry.mirror);
+    try {
+      fs.rmSync(path.dirname(entry.mirror), { recursive: true, force: true });
+    } catch {
+      // Leftover copies only hold masked content
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Redactor
+ *
+ * Masks secrets and personal data with placeholders such as [REDACTED_EMAIL_3f9a2c1b]
+ * and restores the original values in text the agent writes back. The suffix is a keyed
+ * hash of the value, so the same value always maps to the same placeholder, also after
+ * the plugin reloads and placeholders saved in earlier conversations come back. A
+ * placeholder can never stand for a different value; one whose value is unknown is kept.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+
+import type { RedactionSummary } from '../types';
+import type { RedactionRule } from './detectors';
+
+export interface RedactionResult {
+  text: string;
+  /** What was masked, by detector, in order of first appearance. */
+  redactions: RedactionSummary[];
+}
+
+interface RedactionMatch {
+  start: number;
+  end: number;
+  value: string;
+  rule: RedactionRule;
+}
+
+/** Where the hash key and the values behind placeholders are kept. */
+export interface RedactionValueStore {
+  getKey(): string;
+  getValue(placeholder: string): string | undefined;
+  setValue(placeholder: string, value: string): void;
+}
+
+/** Hex digits of the hash in a placeholder, unless two values share them. */
+const PLACEHOLDER_HASH_LENGTH = 8;
+
+const PLACEHOLDER_PATTERN = /\[REDACTED_[A-Z0-9_]+?_[0-9a-f]+\]/g;
+
+/** Store that forgets everything when the plugin unloads. */
+export function createMemoryRedactionValueStore(): RedactionValueStore {
+  const key = randomBytes(32).toString('hex');
+  const values = new Map<string, string>();
+  return {
+    getKey: () => key,
+    getValue: placeholder => values.get(placeholder),
+    setValue: (placeholder, value) => { values.set(placeholder, value); },
+  };
+}
+
+function findMatches(text: string, rules: RedactionRule[]): RedactionMatch[] {
+  const matches: RedactionMatch[] = [];
+  for (const rule of rules) {
+    for (const pattern of rule.patterns) {
+      for (const match of text.matchAll(pattern)) {
+        const value = match[1] ?? match[0];
+        if (!value || (rule.validate && !rule.validate(value))) continue;
+        const start = match.index + (match[1] === undefined ? 0 : match[0].indexOf(match[1]));
+        matches.push({ start, end: start + value.length, value, rule });
+      }
+    }
+  }
+  return matches;
+}
+
+export class Redactor {
+  /** `getRules` returns no rules while redaction is turned off. */
+  constructor(
+    private getRules: () => RedactionRule[],
+    private store: RedactionValueStore = createMemoryRedactionValueStore()
+  ) {}
+
+  isEnabled(): boolean {
+    return this.getRules().length > 0;
+  }
+
+  redact(text: string): RedactionResult {
+    const rules = this.getRules();
+    if (rules.length === 0 || !text) {
+      return { text, redactions: [] };
+    }
+
+    // Existing placeholders are left alone so re-sent text isn't masked twice
+    const taken: Array<[number, number]> = [...text.matchAll(PLACEHOLDER_PATTERN)]
+      .map(match => [match.index, match.index + match[0].length]);
+    const overlapsTaken = (match: RedactionMatch) =>
+      taken.some(([start, end]) => match.start < end && start < match.end);
+
+    // Earliest match wins; at the same position the longer one does
+    const matches = findMatches(text, rules)
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    let result = '';
+    let cursor = 0;
+    const counts = new Map<string, number>();
+    for (const match of matches) {
+      if (match.start < cursor || overlapsTaken(match)) continue;
+      result += text.slice(cursor, match.start) + this.getPlaceholder(match.value, match.rule.tag);
+      cursor = match.end;
+      counts.set(match.rule.label, (counts.get(match.rule.label) ?? 0) + 1);
+    }
+
+    if (counts.size === 0) {
+      return { text, redactions: [] };
+    }
+
+    return {
+      text: result + text.slice(cursor),
+      redactions: [...counts].map(([label, count]) => ({ label, count })),
+    };
+  }
+
+  /** Replaces known placeholders with their original values; unknown ones are kept. */
+  restore(text: string): string {
+    if (!text) return text;
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.store.getValue(placeholder) ?? placeholder);
+  }
+
+  private getPlaceholder(value: string, tag: string): string {
+    const hash = createHmac('sha256', this.store.getKey()).update(`${tag}\0${value}`).digest('hex');
+
+    // A longer prefix only when another value already holds the short one
+    for (let length = PLACEHOLDER_HASH_LENGTH; ; length *= 2) {
+      const placeholder = `[REDACTED_${tag}_${hash.slice(0, length)}]`;
+      const existing = this.store.getValue(placeholder);
+      if (existing === undefined) {
+        this.store.setValue(placeholder, value);
+        return placeholder;
+      }
+      if (existing === value || length >= hash.length) return placeholder;
+    }
+  }
+}
+
+/** "API key ×2, Email address" style description of a redaction summary. */
+export function formatRedactionSummary(redactions: RedactionSummary[]): string {
+  return redactions
+    .map(({ label, count }) => (count > 1 ? `${label} ×${count}` : label))
+    .join(', ');
+}
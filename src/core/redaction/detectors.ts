@@ -0,0 +1,147 @@
+/**
+ * Redaction detectors
+ *
+ * Built-in patterns for common secret formats and personal data, plus compilation of
+ * user-defined regex patterns. Matches are masked by the Redactor before content is sent.
+ */
+
+import type { RedactionDetectorId, RedactionPattern } from '../types';
+
+export interface RedactionRule {
+  /** Human-readable name shown in redaction notices. */
+  label: string;
+  /** Upper-case tag used in placeholders, e.g. API_KEY in [REDACTED_API_KEY_1]. */
+  tag: string;
+  /** Global regexes; when a regex has a capture group, only the first group is masked. */
+  patterns: RegExp[];
+  /** Rejects false positives the regex alone can't rule out. */
+  validate?: (value: string) => boolean;
+}
+
+function countDigits(value: string): number {
+  return value.replace(/\D/g, '').length;
+}
+
+/** Luhn checksum, so arbitrary 16-digit numbers are not taken for card numbers. */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const BUILT_IN_REDACTION_RULES: Record<RedactionDetectorId, RedactionRule> = {
+  api_keys: {
+    label: 'API key',
+    tag: 'API_KEY',
+    patterns: [
+      /\bsk-(?:ant-|proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g,
+      /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+      /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+      /\bglpat-[A-Za-z0-9_-]{20,}/g,
+      /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+      /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g,
+      /\bAIza[A-Za-z0-9_-]{35}/g,
+      /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+      /\b(?:api[_-]?key|secret|token|password|passwd)\b["']?\s*[:=]\s*["']?([^\s"',;]{8,})/gi,
+    ],
+  },
+  private_keys: {
+    label: 'Private key',
+    tag: 'PRIVATE_KEY',
+    patterns: [/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g],
+  },
+  emails: {
+    label: 'Email address',
+    tag: 'EMAIL',
+    patterns: [/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g],
+  },
+  phone_numbers: {
+    label: 'Phone number',
+    tag: 'PHONE',
+    patterns: [/(?<![\w+.(-])(?:\+|\()?\d(?:[ ()-]{0,2}\d){7,14}(?![\w.-]*\d)/g],
+    // A leading + or separators keep timestamps and plain IDs from matching; dates are not numbers
+    validate: (value) => {
+      const digits = countDigits(value);
+      return digits >= 9 && digits <= 15
+        && (value.startsWith('+') || /[ ()-]/.test(value))
+        && !/\d{4}-\d{2}-\d{2}/.test(value);
+    },
+  },
+  credit_cards: {
+    label: 'Card number',
+    tag: 'CARD',
+    patterns: [/(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g],
+    // Card networks use leading digits 3-6, which also rules out millisecond timestamps
+    validate: (value) => /^[3-6]/.test(value) && passesLuhn(value),
+  },
+};
+
+/** Placeholder tag for a custom pattern name, e.g. "Client ID" -> CLIENT_ID. */
+export function getRedactionTag(name: string): string {
+  const tag = name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return tag || 'CUSTOM';
+}
+
+/** Returns an error message when the pattern is not a usable regex, otherwise null. */
+export function validateRedactionPattern(pattern: string): string | null {
+  if (!pattern.trim()) {
+    return 'Pattern is empty';
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'g');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+  if (regex.test('')) {
+    return 'Pattern matches empty text';
+  }
+  return null;
+}
+
+/** Rules for the enabled built-in detectors and every valid custom pattern. */
+export function getRedactionRules(
+  detectors: RedactionDetectorId[],
+  patterns: RedactionPattern[]
+): RedactionRule[] {
+  const rules = detectors
+    .filter((id) => id in BUILT_IN_REDACTION_RULES)
+    .map((id) => BUILT_IN_REDACTION_RULES[id]);
+
+  for (const custom of patterns) {
+    if (validateRedactionPattern(custom.pattern)) continue;
+    rules.push({
+      label: custom.name.trim() || 'Custom pattern',
+      tag: getRedactionTag(custom.name),
+      patterns: [new RegExp(custom.pattern, 'g')],
+    });
+  }
+
+  return rules;
+}
+
+/** Drops malformed stored patterns; invalid regexes are kept so the user can fix them. */
+export function normalizeRedactionPatterns(value: unknown): RedactionPattern[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is RedactionPattern =>
+    !!item
+    && typeof item === 'object'
+    && typeof (item as RedactionPattern).name === 'string'
+    && typeof (item as RedactionPattern).pattern === 'string'
+  ).map(({ name, pattern }) => ({ name, pattern }));
+}
+
+export function normalizeRedactionDetectors(value: unknown): RedactionDetectorId[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return [...new Set(value.filter((id): id is RedactionDetectorId =>
+    typeof id === 'string' && id in BUILT_IN_REDACTION_RULES
+  ))];
+}
@@ -0,0 +1,16 @@
+export {
+  BUILT_IN_REDACTION_RULES,
+  getRedactionRules,
+  getRedactionTag,
+  normalizeRedactionDetectors,
+  normalizeRedactionPatterns,
+  type RedactionRule,
+  validateRedactionPattern,
+} from './detectors';
+export { REDACTED_FILES_DIR, RedactedFileStore } from './RedactedFileStore';
+export {
+  formatRedactionSummary,
+  type RedactionResult,
+  type RedactionValueStore,
+  Redactor,
+} from './Redactor';
@@ -72,14 +72,37 @@ export function* transformSDKMessage(
         }
       }
 
+      const apiMessage = message.message as {
+        id?: string;
+        model?: string;
+        usage?: {
+          input_tokens?: number;
+          output_tokens?: number;
+          cache_creation_input_tokens?: number;
+          cache_read_input_tokens?: number;
+        };
+      };
+
+      // Billed tokens for every API call, including subagents. The SDK splits one API
+      // response into several assistant messages with the same message ID, so consumers
+      // keep the latest counts per messageId rather than summing.
+      const billingId = apiMessage?.id ?? message.uuid;
+      if (apiMessage?.usage && billingId) {
+        yield {
+          type: 'token_usage',
+          messageId: billingId,
+          model: apiMessage.model ?? options?.intendedModel ?? 'unknown',
+          usage: {
+            inputTokens: apiMessage.usage.input_tokens ?? 0,
+            outputTokens: apiMessage.usage.output_tokens ?? 0,
+            cacheCreationInputTokens: apiMessage.usage.cache_creation_input_tokens ?? 0,
+            cacheReadInputTokens: apiMessage.usage.cache_read_input_tokens ?? 0,
+          },
+        };
+      }
+
       // Extract usage from main agent assistant messages only (not subagent)
       // This gives accurate per-turn context usage without subagent token pollution
-      const apiMessage = message.message as { usage?: {
-        input_tokens?: number;
-        output_tokens?: number;
-        cache_creation_input_tokens?: number;
-        cache_read_input_tokens?: number;
-      } };
       if (parentToolUseId === null && apiMessage?.usage) {
         const usage = apiMessage.usage;
         const inputTokens = usage.input_tokens ?? 0;
@@ -0,0 +1,676 @@
+/**
+ * Bash Command Analyzer
+ *
+ * Shell-aware parsing of a bash command line into the simple commands it would run.
+ * Pipelines, && / || / ; chains, subshells, brace groups, command and process substitution,
+ * `bash -c` / `eval` strings, `cmd /c` and `powershell -Command` scripts, `find -exec`, aliases
+ * and functions defined in the same command are all flattened so each simple command can be
+ * checked on its own.
+ *
+ * Best-effort: values that only exist at runtime (unknown variables, computed output) are
+ * marked dynamic rather than guessed.
+ */
+
+import * as path from 'path';
+
+export interface BashSimpleCommand {
+  /** Command name after quote removal and wrapper stripping (sudo, env, xargs, ...). */
+  name: string;
+  /** True when the command name is only known at runtime (e.g. `$CMD` or `$(get-cmd)`). */
+  nameDynamic: boolean;
+  /** Arguments after quote removal; dynamic arguments keep their source text. */
+  args: string[];
+  /** Source text of the command, for explanations. */
+  text: string;
+  /** How the command was reached when not written directly (e.g. "function cleanup"). */
+  via?: string;
+}
+
+interface Word {
+  raw: string;
+  value: string;
+  dynamic: boolean;
+}
+
+interface ParseEnv {
+  vars: Map<string, string | null>;
+  /** Alias and function names mapped to the words they run. */
+  definitions: Map<string, { kind: 'alias' | 'function'; words: Word[] }>;
+}
+
+const MAX_DEPTH = 4;
+
+const KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'esac', '!']);
+const LOOP_HEADERS = new Set(['for', 'select', 'case']);
+
+/** Wrappers that run their arguments as a command, with the option flags that take a value. */
+const COMMAND_WRAPPERS: Record<string, Set<string>> = {
+  sudo: new Set(['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U']),
+  doas: new Set(['-u', '-C']),
+  env: new Set(['-u', '-C', '-S']),
+  command: new Set(),
+  builtin: new Set(),
+  exec: new Set(['-a']),
+  nohup: new Set(),
+  time: new Set(['-f', '-o']),
+  nice: new Set(['-n']),
+  ionice: new Set(['-c', '-n', '-p']),
+  timeout: new Set(['-k', '-s']),
+  stdbuf: new Set(['-i', '-o', '-e']),
+  xargs: new Set(['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s']),
+  busybox: new Set(),
+};
+
+/** Wrappers whose first positional argument is not the command (e.g. `timeout 5 rm`). */
+const WRAPPER_LEADING_ARGS: Record<string, number> = { timeout: 1 };
+
+const SHELLS = new Set(['bash', 'sh', 'zsh', 'dash', 'ksh']);
+const POWERSHELLS = new Set(['powershell', 'pwsh']);
+
+const REDIRECT_PATTERN = /^(?:\d+|&)?(?:>>|>&|>\||&>>|&>|>|<<<|<<-|<<|<&|<>|<)/;
+
+function staticWord(value: string): Word {
+  return { raw: value, value, dynamic: false };
+}
+
+function decodeAnsiC(body: string): string {
+  return body.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_match, seq: string) => {
+    if (seq[0] === 'x') return String.fromCharCode(parseInt(seq.slice(1), 16));
+    if (/^[0-7]+$/.test(seq)) return String.fromCharCode(parseInt(seq, 8));
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' };
+    return escapes[seq] ?? seq;
+  });
+}
+
+class BashParser {
+  private pos = 0;
+  private pendingHeredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+
+  constructor(
+    private readonly src: string,
+    private readonly out: BashSimpleCommand[],
+    private readonly env: ParseEnv,
+    private readonly depth: number
+  ) {}
+
+  parseAll(): void {
+    while (this.pos < this.src.length) {
+      this.parseList(null);
+      // Unbalanced closer at top level: skip it and keep going
+      if (this.pos < this.src.length) this.pos++;
+    }
+  }
+
+  /** Parses commands until the terminator (")", "}" or "`") or the end of input. */
+  private parseList(terminator: ')' | '}' | '`' | null): void {
+    while (this.pos < this.src.length) {
+      this.skipSeparators();
+      if (this.pos >= this.src.length) return;
+
+      const c = this.src[this.pos];
+      if (terminator === ')' && c === ')') return;
+      if (terminator === '`' && c === '`') return;
+      if (terminator === '}' && c === '}' && this.isWordBoundary(this.pos + 1)) return;
+      if (c === ')' || c === '`' || (c === '}' && this.isWordBoundary(this.pos + 1))) {
+        // Closer for a construct we are not in (e.g. a case pattern): skip it
+        this.pos++;
+        continue;
+      }
+
+      this.parseCommand(terminator);
+    }
+  }
+
+  private skipSeparators(): void {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (c === '\n') {
+        this.pos++;
+        this.skipHeredocBodies();
+      } else if (c === ' ' || c === '\t' || c === ';' || c === '&' || c === '|' || c === '\r') {
+        this.pos++;
+      } else if (c === '\\' && this.src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (c === '#') {
+        this.skipComment();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipBlanks(): void {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (c === ' ' || c === '\t' || c === '\r') {
+        this.pos++;
+      } else if (c === '\\' && this.src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipComment(): void {
+    while (this.pos < this.src.length && this.src[this.pos] !== '\n') this.pos++;
+  }
+
+  private skipHeredocBodies(): void {
+    while (this.pendingHeredocs.length > 0) {
+      const { delimiter, stripTabs } = this.pendingHeredocs.shift()!;
+      while (this.pos < this.src.length) {
+        const end = this.src.indexOf('\n', this.pos);
+        const lineEnd = end === -1 ? this.src.length : end;
+        let line = this.src.slice(this.pos, lineEnd);
+        if (stripTabs) line = line.replace(/^\t+/, '');
+        this.pos = end === -1 ? this.src.length : end + 1;
+        if (line.replace(/\r$/, '') === delimiter) break;
+      }
+    }
+  }
+
+  private isWordBoundary(index: number): boolean {
+    const c = this.src[index];
+    return c === undefined || /[\s;&|)]/.test(c);
+  }
+
+  private parseCommand(terminator: ')' | '}' | '`' | null): void {
+    const start = this.pos;
+    let end = -1;
+    const words: Word[] = [];
+
+    while (this.pos < this.src.length) {
+      this.skipBlanks();
+      if (this.pos >= this.src.length) break;
+
+      const c = this.src[this.pos];
+      if (c === '\n' || c === ';' || c === '&' || c === '|' || c === ')') break;
+      if (c === '`' && terminator === '`') break;
+      if (c === '#' && (this.pos === start || /\s/.test(this.src[this.pos - 1]))) {
+        end = this.pos;
+        this.skipComment();
+        break;
+      }
+      if (c === '}' && terminator === '}' && this.isWordBoundary(this.pos + 1) && words.length === 0) break;
+
+      if (c === '(') {
+        if (words.length === 1 && /^\(\s*\)/.test(this.src.slice(this.pos))) {
+          this.parseFunctionDefinition(words[0].value);
+          return;
+        }
+        // Subshell (or a stray parenthesis mid-command)
+        this.pos++;
+        this.parseList(')');
+        if (this.src[this.pos] === ')') this.pos++;
+        continue;
+      }
+
+      const redirect = this.src.slice(this.pos).match(REDIRECT_PATTERN);
+      if (redirect) {
+        this.parseRedirect(redirect[0]);
+        continue;
+      }
+
+      const word = this.parseWord(terminator);
+      if (!word) {
+        this.pos++;
+        continue;
+      }
+
+      if (words.length === 0 && !word.dynamic) {
+        if (word.value === 'function' && word.raw === 'function') {
+          const name = this.parseWord(terminator);
+          this.skipBlanks();
+          if (this.src.startsWith('()', this.pos)) this.pos += 2;
+          if (name) this.parseFunctionBody(name.value);
+          return;
+        }
+        if (KEYWORDS.has(word.raw) || (word.raw === '}' && terminator !== '}')) {
+          continue;
+        }
+        if (LOOP_HEADERS.has(word.raw)) {
+          this.skipLoopHeader(word.raw);
+          return;
+        }
+        if (word.raw === '{') {
+          this.parseList('}');
+          if (this.src[this.pos] === '}') this.pos++;
+          continue;
+        }
+      }
+
+      words.push(word);
+    }
+
+    this.emit(words, this.src.slice(start, end === -1 ? this.pos : end).trim());
+  }
+
+  /** `for x in ...` / `case x in` headers name no command; skip to the body. */
+  private skipLoopHeader(keyword: string): void {
+    const stop = keyword === 'case' ? /\bin\b/ : /[;\n]|\bdo\b/;
+    const rest = this.src.slice(this.pos);
+    const match = rest.match(stop);
+    this.pos += match && match.index !== undefined ? match.index + match[0].length : rest.length;
+  }
+
+  private parseFunctionDefinition(name: string): void {
+    this.pos = this.src.indexOf(')', this.pos) + 1;
+    this.parseFunctionBody(name);
+  }
+
+  private parseFunctionBody(name: string): void {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+    const before = this.out.length;
+    const closer = this.src[this.pos] === '(' ? ')' : '}';
+    if (this.src[this.pos] === '{' || this.src[this.pos] === '(') {
+      this.pos++;
+      this.parseList(closer);
+      if (this.src[this.pos] === closer) this.pos++;
+    } else {
+      this.parseCommand(null);
+    }
+
+    const body = this.out.slice(before);
+    if (body.length > 0) {
+      const first = body[0];
+      this.env.definitions.set(name, {
+        kind: 'function',
+        words: [first.name, ...first.args].map((value, i) =>
+          i === 0 && first.nameDynamic ? { raw: value, value, dynamic: true } : staticWord(value)),
+      });
+    }
+  }
+
+  private parseRedirect(op: string): void {
+    this.pos += op.length;
+    this.skipBlanks();
+
+    if (op.endsWith('<<') || op.endsWith('<<-')) {
+      const delimiter = this.parseWord(null);
+      if (delimiter) {
+        this.pendingHeredocs.push({ delimiter: delimiter.value, stripTabs: op.endsWith('-') });
+      }
+      return;
+    }
+
+    if (this.src[this.pos] === '(' && (op === '<' || op === '>')) {
+      // Process substitution: <(cmd) / >(cmd)
+      this.pos++;
+      this.parseList(')');
+      if (this.src[this.pos] === ')') this.pos++;
+      return;
+    }
+
+    this.parseWord(null);
+  }
+
+  /** Reads one shell word, resolving quotes, escapes and expansions. Returns null at an operator. */
+  private parseWord(terminator: ')' | '}' | '`' | null): Word | null {
+    const start = this.pos;
+    let value = '';
+    let dynamic = false;
+
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+
+      if (/\s/.test(c) || c === ';' || c === '&' || c === '|' || c === ')' || c === '(') break;
+      if (c === '<' || c === '>') break;
+      if (c === '`' && terminator === '`') break;
+
+      if (c === '\\') {
+        const next = this.src[this.pos + 1];
+        this.pos += 2;
+        if (next !== undefined && next !== '\n') value += next;
+        continue;
+      }
+
+      if (c === "'") {
+        const end = this.src.indexOf("'", this.pos + 1);
+        const close = end === -1 ? this.src.length : end;
+        value += this.src.slice(this.pos + 1, close);
+        this.pos = close + 1;
+        continue;
+      }
+
+      if (c === '"') {
+        this.pos++;
+        const inner = this.parseDoubleQuoted();
+        value += inner.value;
+        dynamic = dynamic || inner.dynamic;
+        continue;
+      }
+
+      if (c === '$') {
+        const expansion = this.parseDollar();
+        value += expansion.value;
+        dynamic = dynamic || expansion.dynamic;
+        continue;
+      }
+
+      if (c === '`') {
+        const expansion = this.parseBackticks();
+        value += expansion.value;
+        dynamic = dynamic || expansion.dynamic;
+        continue;
+      }
+
+      value += c;
+      this.pos++;
+    }
+
+    if (this.pos === start) return null;
+    return { raw: this.src.slice(start, this.pos), value, dynamic };
+  }
+
+  private parseDoubleQuoted(): { value: string; dynamic: boolean } {
+    let value = '';
+    let dynamic = false;
+
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (c === '"') {
+        this.pos++;
+        break;
+      }
+      if (c === '\\' && /[$`"\\\n]/.test(this.src[this.pos + 1] ?? '')) {
+        if (this.src[this.pos + 1] !== '\n') value += this.src[this.pos + 1];
+        this.pos += 2;
+        continue;
+      }
+      if (c === '$') {
+        const expansion = this.parseDollar();
+        value += expansion.value;
+        dynamic = dynamic || expansion.dynamic;
+        continue;
+      }
+      if (c === '`') {
+        const expansion = this.parseBackticks();
+        value += expansion.value;
+        dynamic = dynamic || expansion.dynamic;
+        continue;
+      }
+      value += c;
+      this.pos++;
+    }
+
+    return { value, dynamic };
+  }
+
+  private parseDollar(): { value: string; dynamic: boolean } {
+    const rest = this.src.slice(this.pos);
+
+    if (rest.startsWith('$((')) {
+      const end = this.src.indexOf('))', this.pos);
+      const close = end === -1 ? this.src.length : end + 2;
+      const raw = this.src.slice(this.pos, close);
+      this.pos = close;
+      return { value: raw, dynamic: true };
+    }
+
+    if (rest.startsWith('$(')) {
+      const start = this.pos;
+      this.pos += 2;
+      const result = this.captureSubstitution(() => {
+        this.parseList(')');
+        if (this.src[this.pos] === ')') this.pos++;
+      });
+      return result ?? { value: this.src.slice(start, this.pos), dynamic: true };
+    }
+
+    if (rest.startsWith("$'")) {
+      let i = this.pos + 2;
+      while (i < this.src.length && this.src[i] !== "'") {
+        i += this.src[i] === '\\' ? 2 : 1;
+      }
+      const body = this.src.slice(this.pos + 2, i);
+      this.pos = i + 1;
+      return { value: decodeAnsiC(body), dynamic: false };
+    }
+
+    if (rest.startsWith('$"')) {
+      this.pos += 2;
+      return this.parseDoubleQuoted();
+    }
+
+    const braced = rest.match(/^\$\{([^}]*)\}/);
+    if (braced) {
+      this.pos += braced[0].length;
+      return this.lookupVariable(braced[1], braced[0]);
+    }
+
+    const simple = rest.match(/^\$([A-Za-z_]\w*|[0-9@*#?$!-])/);
+    if (simple) {
+      this.pos += simple[0].length;
+      return this.lookupVariable(simple[1], simple[0]);
+    }
+
+    this.pos++;
+    return { value: '$', dynamic: false };
+  }
+
+  private lookupVariable(name: string, raw: string): { value: string; dynamic: boolean } {
+    const known = this.env.vars.get(name);
+    if (known !== undefined && known !== null) {
+      return { value: known, dynamic: false };
+    }
+    return { value: raw, dynamic: true };
+  }
+
+  private parseBackticks(): { value: string; dynamic: boolean } {
+    const start = this.pos;
+    let end = this.pos + 1;
+    while (end < this.src.length && this.src[end] !== '`') {
+      end += this.src[end] === '\\' ? 2 : 1;
+    }
+    const inner = this.src.slice(this.pos + 1, end).replace(/\\([`$\\])/g, '$1');
+    this.pos = Math.min(end + 1, this.src.length);
+
+    const result = this.captureSubstitution(() => {
+      new BashParser(inner, this.out, this.env, this.depth).parseAll();
+    });
+    return result ?? { value: this.src.slice(start, this.pos), dynamic: true };
+  }
+
+  /**
+   * Runs a nested parse; the commands it finds are kept for checking.
+   * Output is known statically only for a lone `echo` / `printf` of static text.
+   */
+  private captureSubstitution(parse: () => void): { value: string; dynamic: boolean } | null {
+    const before = this.out.length;
+    parse();
+    const produced = this.out.slice(before);
+
+    if (produced.length === 1 && !produced[0].nameDynamic && ['echo', 'printf'].includes(produced[0].name)) {
+      const args = produced[0].args.filter((arg, i) => !(produced[0].name === 'echo' && i === 0 && /^-[neE]+$/.test(arg)));
+      return { value: args.join(' '), dynamic: false };
+    }
+    return null;
+  }
+
+  private emit(words: Word[], text: string): void {
+    let index = 0;
+    const assignments: Array<[string, Word]> = [];
+    while (index < words.length) {
+      const match = words[index].raw.match(/^([A-Za-z_]\w*)=/);
+      if (!match) break;
+      assignments.push([match[1], { ...words[index], value: words[index].value.slice(match[1].length + 1) }]);
+      index++;
+    }
+
+    if (index === words.length) {
+      // Bare assignments persist for later commands in the same line
+      for (const [name, word] of assignments) {
+        this.env.vars.set(name, word.dynamic ? null : word.value);
+      }
+      return;
+    }
+
+    this.emitWords(words.slice(index), text, undefined, 0);
+  }
+
+  private emitWords(words: Word[], text: string, via: string | undefined, expansions: number): void {
+    const stripped = this.stripWrappers(words);
+    if (stripped.length === 0) return;
+
+    const [nameWord, ...argWords] = stripped;
+    const name = nameWord.dynamic ? nameWord.value : path.basename(nameWord.value);
+    const args = argWords.map(word => word.value);
+
+    const definition = !nameWord.dynamic ? this.env.definitions.get(name) : undefined;
+    if (definition && expansions < MAX_DEPTH) {
+      const expanded = this.expandDefinition(definition.words, argWords, definition.kind);
+      this.emitWords(expanded, text, `${definition.kind} ${name}`, expansions + 1);
+      return;
+    }
+
+    this.out.push({ name, nameDynamic: nameWord.dynamic, args, text, ...(via ? { via } : {}) });
+
+    if (nameWord.dynamic) return;
+
+    if (name === 'alias') {
+      for (const arg of argWords) {
+        const eq = arg.value.indexOf('=');
+        if (eq <= 0 || arg.dynamic) continue;
+        const aliasWords: BashSimpleCommand[] = [];
+        new BashParser(arg.value.slice(eq + 1), aliasWords, { vars: new Map(), definitions: new Map() }, this.depth + 1)
+          .parseAll();
+        if (aliasWords.length > 0) {
+          const first = aliasWords[0];
+          this.env.definitions.set(arg.value.slice(0, eq), {
+            kind: 'alias',
+            words: [first.name, ...first.args].map(staticWord),
+          });
+        }
+      }
+      return;
+    }
+
+    if (this.depth >= MAX_DEPTH) return;
+
+    const nested = this.getNestedScript(name, argWords);
+    if (nested !== null) {
+      new BashParser(nested, this.out, this.env, this.depth + 1).parseAll();
+    }
+
+    if (name === 'find') {
+      this.emitFindExec(argWords, text);
+    }
+  }
+
+  /** Substitutes call arguments into an alias or function body. */
+  private expandDefinition(body: Word[], callArgs: Word[], kind: 'alias' | 'function'): Word[] {
+    if (kind === 'alias') {
+      return [...body, ...callArgs];
+    }
+
+    const expanded: Word[] = [];
+    for (const word of body) {
+      if (/^"?\$[@*]"?$/.test(word.raw) || /^"?\$\{[@*]\}"?$/.test(word.raw)) {
+        expanded.push(...callArgs);
+        continue;
+      }
+      const positional = word.raw.match(/^"?\$\{?([1-9])\}?"?$/);
+      if (positional) {
+        const arg = callArgs[Number(positional[1]) - 1];
+        if (arg) expanded.push(arg);
+        continue;
+      }
+      expanded.push(word);
+    }
+    return expanded;
+  }
+
+  private stripWrappers(words: Word[]): Word[] {
+    let index = 0;
+
+    while (index < words.length && !words[index].dynamic) {
+      const wrapper = path.basename(words[index].value);
+      const valueFlags = COMMAND_WRAPPERS[wrapper];
+      if (!valueFlags) break;
+
+      index++;
+      while (index < words.length) {
+        const token = words[index].value;
+        if (token === '--') {
+          index++;
+          break;
+        }
+        if (wrapper === 'env' && /^[A-Za-z_]\w*=/.test(token)) {
+          index++;
+          continue;
+        }
+        if (!token.startsWith('-') || token === '-') break;
+        // `command -v rm` only looks the command up
+        if (wrapper === 'command' && /^-[vV]$/.test(token)) return [];
+        index += valueFlags.has(token) ? 2 : 1;
+      }
+      index += WRAPPER_LEADING_ARGS[wrapper] ?? 0;
+    }
+
+    return words.slice(index);
+  }
+
+  /**
+   * Script text run by `bash -c`, `eval`, `cmd /c` or `powershell -Command`, when it is static.
+   * Windows scripts are parsed with bash rules, which is close enough to find the commands.
+   */
+  private getNestedScript(name: string, args: Word[]): string | null {
+    const joinStatic = (words: Word[]) =>
+      words.length > 0 && !words.some(word => word.dynamic) ? words.map(word => word.value).join(' ') : null;
+
+    if (name === 'eval') {
+      return joinStatic(args);
+    }
+
+    if (SHELLS.has(name)) {
+      const flagIndex = args.findIndex(arg => /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg.value));
+      const script = flagIndex >= 0 ? args[flagIndex + 1] : undefined;
+      return script && !script.dynamic ? script.value : null;
+    }
+
+    const shell = name.toLowerCase().replace(/\.exe$/, '');
+    if (shell === 'cmd') {
+      // Everything after /c (run and exit) or /k (run and stay) is the command line
+      const flagIndex = args.findIndex(arg => /^\/[ck]$/i.test(arg.value));
+      return flagIndex >= 0 ? joinStatic(args.slice(flagIndex + 1)) : null;
+    }
+
+    if (POWERSHELLS.has(shell)) {
+      for (let i = 0; i < args.length; i++) {
+        const flag = args[i].value.toLowerCase();
+        if (flag.length < 2 || !flag.startsWith('-')) continue;
+        // Parameter names may be abbreviated: -c, -com, -Command
+        if ('-command'.startsWith(flag)) {
+          return joinStatic(args.slice(i + 1));
+        }
+        if ('-encodedcommand'.startsWith(flag) || flag === '-ec') {
+          const encoded = args[i + 1];
+          return encoded && !encoded.dynamic ? Buffer.from(encoded.value, 'base64').toString('utf16le') : null;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private emitFindExec(args: Word[], text: string): void {
+    for (let i = 0; i < args.length; i++) {
+      if (!['-exec', '-execdir', '-ok', '-okdir'].includes(args[i].value)) continue;
+
+      const end = args.findIndex((arg, j) => j > i && (arg.value === ';' || arg.value === '+'));
+      const commandWords = args.slice(i + 1, end === -1 ? args.length : end);
+      if (commandWords.length > 0) {
+        this.emitWords(commandWords, text, 'find -exec', 0);
+      }
+      i = end === -1 ? args.length : end;
+    }
+  }
+}
+
+/** Parses a command line into every simple command it would run. */
+export function parseBashCommands(command: string): BashSimpleCommand[] {
+  const commands: BashSimpleCommand[] = [];
+  new BashParser(command, commands, { vars: new Map(), definitions: new Map() }, 0).parseAll();
+  return commands;
+}
@@ -8,14 +8,22 @@
 import * as path from 'path';
 
 import type { PathAccessType } from '../../utils/path';
+import type { FolderPolicyAccess, FolderPolicyDecision } from './FolderPolicy';
 
 export type PathViolation =
   | { type: 'outside_vault'; path: string }
-  | { type: 'export_path_read'; path: string };
+  | { type: 'export_path_read'; path: string }
+  | { type: 'folder_policy'; path: string; decision: FolderPolicyDecision };
 
 /** Context for path validation - allows dependency injection of access rules */
 export interface PathCheckContext {
   getPathAccessType: (filePath: string) => PathAccessType;
+  /** Folder policy check for paths inside the vault. */
+  checkFolderPolicy?: (filePath: string, access: FolderPolicyAccess) => FolderPolicyDecision | null;
+}
+
+function isAskViolation(violation: PathViolation): boolean {
+  return violation.type === 'folder_policy' && violation.decision.action === 'ask';
 }
 
 /**
@@ -174,7 +182,8 @@ export function isPathLikeToken(token: string): boolean {
 
 /**
  * Check if a path has valid access permissions.
- * Returns a violation if the path is outside vault and not an allowed export/context path.
+ * Returns a violation if the path is outside vault and not an allowed export/context path,
+ * or if a folder policy denies it or requires approval.
  */
 export function checkBashPathAccess(
   candidate: string,
@@ -186,7 +195,12 @@ export function checkBashPathAccess(
 
   const accessType = context.getPathAccessType(cleaned);
 
-  if (accessType === 'vault' || accessType === 'readwrite') {
+  if (accessType === 'vault') {
+    const decision = context.checkFolderPolicy?.(cleaned, access) ?? null;
+    return decision ? { type: 'folder_policy', path: cleaned, decision } : null;
+  }
+
+  if (accessType === 'readwrite') {
     return null;
   }
 
@@ -211,6 +225,17 @@ export function findBashPathViolationInSegment(
 ): PathViolation | null {
   if (segment.length === 0) return null;
 
+  // Denials win over approval prompts, so keep scanning after an "ask" path
+  let askViolation: PathViolation | null = null;
+  const check = (candidate: string, access: 'read' | 'write'): PathViolation | null => {
+    const violation = checkBashPathAccess(candidate, access, context);
+    if (violation && isAskViolation(violation)) {
+      askViolation ??= violation;
+      return null;
+    }
+    return violation;
+  };
+
   const { cmdName, cmdIndex } = getBashSegmentCommandName(segment);
 
   // Some commands have a clear destination argument that should be treated as a write target.
@@ -267,14 +292,14 @@ export function findBashPathViolationInSegment(
     // Embedded redirection operators, e.g. ">/tmp/out", "2>>~/Desktop/log".
     const embeddedOutputRedirect = token.match(/^(?:&>>|&>|\d*>>|\d*>\||\d*>|>>|>\||>)(.+)$/);
     if (embeddedOutputRedirect) {
-      const violation = checkBashPathAccess(embeddedOutputRedirect[1], 'write', context);
+      const violation = check(embeddedOutputRedirect[1], 'write');
       if (violation) return violation;
       continue;
     }
 
     const embeddedInputRedirect = token.match(/^(?:\d*<<|\d*<|<<|<)(.+)$/);
     if (embeddedInputRedirect) {
-      const violation = checkBashPathAccess(embeddedInputRedirect[1], 'read', context);
+      const violation = check(embeddedInputRedirect[1], 'read');
       if (violation) return violation;
       continue;
     }
@@ -282,14 +307,14 @@ export function findBashPathViolationInSegment(
     // Embedded output options, e.g. "--output=/tmp/out", "-o/tmp/out", "-o~/Desktop/out".
     const embeddedLongOutput = token.match(/^--(?:output|out|outfile|output-file)=(.+)$/);
     if (embeddedLongOutput) {
-      const violation = checkBashPathAccess(embeddedLongOutput[1], 'write', context);
+      const violation = check(embeddedLongOutput[1], 'write');
       if (violation) return violation;
       continue;
     }
 
     const embeddedShortOutput = token.match(/^-o(.+)$/);
     if (embeddedShortOutput) {
-      const violation = checkBashPathAccess(embeddedShortOutput[1], 'write', context);
+      const violation = check(embeddedShortOutput[1], 'write');
       if (violation) return violation;
       continue;
     }
@@ -301,7 +326,7 @@ export function findBashPathViolationInSegment(
       const key = token.slice(0, eqIndex);
       const value = token.slice(eqIndex + 1);
       if (key.startsWith('-') && isPathLikeToken(value)) {
-        const violation = checkBashPathAccess(value, 'read', context);
+        const violation = check(value, 'read');
         if (violation) return violation;
       }
     }
@@ -314,13 +339,13 @@ export function findBashPathViolationInSegment(
     const access: 'read' | 'write' =
       i === destinationTokenIndex || expectWriteNext ? 'write' : 'read';
 
-    const violation = checkBashPathAccess(token, access, context);
+    const violation = check(token, access);
     if (violation) return violation;
 
     expectWriteNext = false;
   }
 
-  return null;
+  return askViolation;
 }
 
 /**
@@ -329,7 +354,8 @@ export function findBashPathViolationInSegment(
  *
  * @param command - The bash command to analyze
  * @param context - Path checking context with vault/export path validators
- * @returns The first violation found, or null if command is safe
+ * @returns The first denying violation found, else the first path needing approval,
+ *          or null if command is safe
  */
 export function findBashCommandPathViolation(
   command: string,
@@ -340,13 +366,16 @@ export function findBashCommandPathViolation(
   const tokens = tokenizeBashCommand(command);
   const segments = splitBashTokensIntoSegments(tokens);
 
+  let askViolation: PathViolation | null = null;
   for (const segment of segments) {
     const violation = findBashPathViolationInSegment(segment, context);
-    if (violation) {
+    if (violation && isAskViolation(violation)) {
+      askViolation ??= violation;
+    } else if (violation) {
       return violation;
     }
   }
 
-  return null;
+  return askViolation;
 }
 
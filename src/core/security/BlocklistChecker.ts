@@ -2,8 +2,199 @@
  * Blocklist Checker
  *
  * Checks bash commands against user-defined blocklist patterns.
- * Patterns are treated as case-insensitive regex with fallback to substring match.
+ *
+ * Commands are split into the simple commands they would run (see BashCommandAnalyzer), so
+ * pipelines, chains, subshells, `bash -c` strings and aliases are each checked on their own.
+ * Plain patterns such as `rm -rf` or `chmod -R 777` are structured rules: the command name must
+ * match (`mkfs` also covers `mkfs.ext4`), every flag must be present in any order or spelling
+ * (`rm -r -f`, `rm -fr`, `rm --recursive --force`), and every other word must appear as an
+ * argument (`dd if=` covers any `if=...`). Patterns with regex syntax are matched
+ * case-insensitively against each command and then against the whole command line, so patterns
+ * spanning a pipe (`curl.*\|\s*sh`) still match; an invalid regex falls back to substring match.
+ */
+
+import { type BashSimpleCommand, parseBashCommands } from './BashCommandAnalyzer';
+
+export interface BlocklistMatch {
+  /** Blocklist pattern that matched. */
+  pattern: string;
+  /** Source text of the command that matched. */
+  segment: string;
+  /** Human-readable explanation of the match. */
+  reason: string;
+}
+
+interface StructuredRule {
+  command: string;
+  flags: string[];
+  args: string[];
+}
+
+const REGEX_SYNTAX = /[\^$*+?()[\]{}|\\]/;
+
+/** Long options equivalent to a short flag, per command. */
+const FLAG_ALIASES: Record<string, Record<string, string>> = {
+  rm: { R: 'r', '--recursive': 'r', '--force': 'f' },
+  chmod: { '--recursive': 'R' },
+  chown: { '--recursive': 'R' },
+  chgrp: { '--recursive': 'R' },
+  cp: { R: 'r', '--recursive': 'r', '--force': 'f' },
+  git: { '--force': 'f' },
+};
+
+function parseStructuredRule(pattern: string): StructuredRule | null {
+  const trimmed = pattern.trim();
+  if (!trimmed || REGEX_SYNTAX.test(trimmed)) {
+    return null;
+  }
+
+  const [command, ...rest] = trimmed.split(/\s+/);
+  return {
+    command: command.toLowerCase(),
+    flags: rest.filter(word => word.startsWith('-')),
+    args: rest.filter(word => !word.startsWith('-')).map(word => word.toLowerCase()),
+  };
+}
+
+function normalizeCommandName(name: string): string {
+  return name.toLowerCase().replace(/\.exe$/, '');
+}
+
+function matchesCommandName(name: string, ruleCommand: string): boolean {
+  return name === ruleCommand || name.startsWith(`${ruleCommand}.`);
+}
+
+function matchesArg(arg: string, ruleArg: string): boolean {
+  return ruleArg.endsWith('=') ? arg.startsWith(ruleArg) : arg === ruleArg;
+}
+
+/** Short flags present on a command, with long options folded into their short form. */
+function collectShortFlags(command: string, args: string[]): Set<string> {
+  const aliases = FLAG_ALIASES[command] ?? {};
+  const flags = new Set<string>();
+
+  for (const arg of args) {
+    if (arg === '--') break;
+    if (arg.startsWith('--')) {
+      const alias = aliases[arg.split('=')[0]];
+      if (alias) flags.add(alias);
+    } else if (/^-[A-Za-z0-9]+$/.test(arg)) {
+      for (const letter of arg.slice(1)) {
+        flags.add(aliases[letter] ?? letter);
+      }
+    }
+  }
+
+  return flags;
+}
+
+function hasFlag(command: string, flag: string, args: string[], shortFlags: Set<string>): boolean {
+  if (args.some(arg => arg.toLowerCase() === flag.toLowerCase())) {
+    return true;
+  }
+
+  const aliases = FLAG_ALIASES[command] ?? {};
+  if (flag.startsWith('--')) {
+    const alias = aliases[flag];
+    return alias !== undefined && shortFlags.has(alias);
+  }
+
+  if (/^-[A-Za-z0-9]+$/.test(flag)) {
+    return [...flag.slice(1)].every(letter => shortFlags.has(aliases[letter] ?? letter));
+  }
+
+  return false;
+}
+
+function matchStructuredRule(rule: StructuredRule, command: BashSimpleCommand): string | null {
+  const requiresMore = rule.flags.length > 0 || rule.args.length > 0;
+  let note = '';
+
+  if (command.nameDynamic) {
+    // A computed command name could be anything; only block when the flags/args give it away
+    if (!requiresMore) return null;
+    note = ' (command name is computed at runtime)';
+  } else if (!matchesCommandName(normalizeCommandName(command.name), rule.command)) {
+    return null;
+  }
+
+  const name = rule.command;
+  const shortFlags = collectShortFlags(name, command.args);
+  if (!rule.flags.every(flag => hasFlag(name, flag, command.args, shortFlags))) {
+    return null;
+  }
+
+  const lowerArgs = command.args.map(arg => arg.toLowerCase());
+  if (!rule.args.every(ruleArg => lowerArgs.some(arg => matchesArg(arg, ruleArg)))) {
+    return null;
+  }
+
+  return note;
+}
+
+function matchRegexPattern(pattern: string, text: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    // Invalid regex - fall back to substring match
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+function describeCommand(command: BashSimpleCommand): string {
+  return [command.name, ...command.args].join(' ');
+}
+
+/**
+ * Finds the first command in a bash command line that a blocklist pattern matches.
+ * Returns null when nothing matches.
  */
+export function findBlockedCommand(command: string, patterns: string[]): BlocklistMatch | null {
+  if (patterns.length === 0 || !command.trim()) {
+    return null;
+  }
+
+  const commands = parseBashCommands(command);
+
+  for (const pattern of patterns) {
+    if (!pattern.trim()) continue;
+    const rule = parseStructuredRule(pattern);
+
+    for (const simple of commands) {
+      const via = simple.via ? ` via ${simple.via}` : '';
+
+      if (rule) {
+        const note = matchStructuredRule(rule, simple);
+        if (note !== null) {
+          return {
+            pattern,
+            segment: simple.text,
+            reason: `"${pattern}" matched \`${describeCommand(simple)}\`${via}${note}`,
+          };
+        }
+        continue;
+      }
+
+      if (matchRegexPattern(pattern, simple.text) || matchRegexPattern(pattern, describeCommand(simple))) {
+        return {
+          pattern,
+          segment: simple.text,
+          reason: `"${pattern}" matched \`${simple.text}\`${via}`,
+        };
+      }
+    }
+
+    if (!rule && matchRegexPattern(pattern, command)) {
+      return {
+        pattern,
+        segment: command,
+        reason: `"${pattern}" matched the full command`,
+      };
+    }
+  }
+
+  return null;
+}
 
 export function isCommandBlocked(
   command: string,
@@ -14,12 +205,5 @@ export function isCommandBlocked(
     return false;
   }
 
-  return patterns.some((pattern) => {
-    try {
-      return new RegExp(pattern, 'i').test(command);
-    } catch {
-      // Invalid regex - fall back to substring match
-      return command.toLowerCase().includes(pattern.toLowerCase());
-    }
-  });
+  return findBlockedCommand(command, patterns) !== null;
 }
@@ -0,0 +1,204 @@
+/**
+ * Folder Policy
+ *
+ * Per-folder access policies inside the vault (read-only, ask, hidden). The most
+ * specific folder wins, so `Clients/` can ask while `Clients/Public/` is read-only.
+ * Enforced by the vault restriction hook for file tools and Bash paths; since hooks
+ * run for every tool call of a session, subagents are covered as well.
+ */
+
+import * as path from 'path';
+
+import { normalizePathForComparison, normalizePathForFilesystem, resolveRealPath } from '../../utils/path';
+import type { FolderAccess, FolderPolicy } from '../types';
+
+export type FolderPolicyAccess = 'read' | 'write';
+
+export interface FolderPolicyDecision {
+  action: 'deny' | 'ask';
+  policy: FolderPolicy;
+  reason: string;
+}
+
+/** Access levels from least to most restrictive. */
+export const FOLDER_ACCESS_LEVELS: FolderAccess[] = ['readonly', 'ask', 'hidden'];
+
+export function normalizeFolderPath(folder: string): string {
+  return folder
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/{2,}/g, '/')
+    .replace(/^\/+|\/+$/g, '');
+}
+
+/** Drops invalid entries and duplicate folders (the first one wins). */
+export function normalizeFolderPolicies(value: unknown): FolderPolicy[] {
+  if (!Array.isArray(value)) return [];
+
+  const policies: FolderPolicy[] = [];
+  const seen = new Set<string>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw.folder !== 'string') continue;
+    if (!FOLDER_ACCESS_LEVELS.includes(raw.access as FolderAccess)) continue;
+
+    const folder = normalizeFolderPath(raw.folder);
+    if (!folder || folder.split('/').includes('..') || seen.has(folder)) continue;
+    seen.add(folder);
+    policies.push({ folder, access: raw.access as FolderAccess });
+  }
+  return policies;
+}
+
+function relativeToVault(candidate: string, vault: string): string | null {
+  if (candidate === vault) return '';
+  if (!candidate.startsWith(vault + '/')) return null;
+  return candidate.slice(vault.length + 1);
+}
+
+/**
+ * Vault-relative paths (forward slashes) a file path refers to: as written and with
+ * symlinks resolved, so a link can't be used to reach into a restricted folder.
+ * Empty when the path is outside the vault.
+ */
+export function getVaultRelativePaths(filePath: string, vaultPath: string): string[] {
+  const normalized = normalizePathForFilesystem(filePath);
+  if (!normalized) return [];
+
+  const absolute = path.isAbsolute(normalized) ? normalized : path.resolve(vaultPath, normalized);
+  const literal = relativeToVault(normalizePathForComparison(absolute), normalizePathForComparison(vaultPath));
+  const real = relativeToVault(
+    normalizePathForComparison(resolveRealPath(absolute)),
+    normalizePathForComparison(resolveRealPath(vaultPath))
+  );
+
+  return [...new Set([literal, real].filter((p): p is string => p !== null))];
+}
+
+/** Policy of the most specific folder containing a vault-relative path. */
+export function findFolderPolicy(policies: FolderPolicy[], relativePath: string): FolderPolicy | null {
+  const candidate = normalizePathForComparison(normalizeFolderPath(relativePath));
+  let best: FolderPolicy | null = null;
+  let bestLength = -1;
+
+  for (const policy of policies) {
+    const folder = normalizePathForComparison(normalizeFolderPath(policy.folder));
+    if (!folder) continue;
+    if ((candidate === folder || candidate.startsWith(folder + '/')) && folder.length > bestLength) {
+      best = policy;
+      bestLength = folder.length;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Policies on folders below a search root that the search reaches within `depth` folder
+ * levels. A check of the root path alone misses these, since searches return content from
+ * every folder below it. An empty root is the vault.
+ */
+export function findPoliciesInSearch(
+  policies: FolderPolicy[],
+  searchRoot: string,
+  vaultPath: string,
+  depth = Infinity
+): FolderPolicy[] {
+  if (policies.length === 0) return [];
+
+  const roots = searchRoot ? getVaultRelativePaths(searchRoot, vaultPath) : [''];
+  const found: FolderPolicy[] = [];
+  for (const policy of policies) {
+    const folder = normalizePathForComparison(normalizeFolderPath(policy.folder));
+    if (!folder) continue;
+    const reached = roots.some(root => {
+      const base = normalizePathForComparison(normalizeFolderPath(root));
+      if (base && !folder.startsWith(base + '/')) return false;
+      const levels = (base ? folder.slice(base.length + 1) : folder).split('/').length;
+      return levels <= depth;
+    });
+    if (reached) found.push(policy);
+  }
+  return found;
+}
+
+/**
+ * Grep glob that leaves a vault-relative path out of a search. ripgrep matches relative globs
+ * against its working directory, so the path is matched at any depth like the CLI does for
+ * deny rules. The CLI splits Grep globs on whitespace and commas, so those match any single
+ * character.
+ */
+export function getPathExcludeGlob(relativePath: string): string {
+  const escaped = normalizeFolderPath(relativePath)
+    .replace(/[\\[\]{}*?]/g, '\\$&')
+    .replace(/[\s,]/g, '?');
+  return `!**/${escaped}`;
+}
+
+/** Grep glob that leaves a folder and everything in it out of a search. */
+export function getFolderExcludeGlob(folder: string): string {
+  return `${getPathExcludeGlob(folder)}/**`;
+}
+
+export function isPathHidden(policies: FolderPolicy[], relativePath: string): boolean {
+  return findFolderPolicy(policies, relativePath)?.access === 'hidden';
+}
+
+/**
+ * Whether a vault-relative path is off limits to tools that can't ask for approval (the
+ * built-in MCP servers): hidden folders, and ask folders since every read there needs it.
+ */
+export function isReadRestricted(policies: FolderPolicy[], relativePath: string): boolean {
+  const access = findFolderPolicy(policies, relativePath)?.access;
+  return access === 'hidden' || access === 'ask';
+}
+
+/**
+ * Decides whether a file access is denied or needs approval under the folder policies.
+ * Returns null when no policy restricts it (including paths outside the vault).
+ */
+export function checkFolderPolicy(
+  policies: FolderPolicy[],
+  filePath: string,
+  vaultPath: string,
+  access: FolderPolicyAccess
+): FolderPolicyDecision | null {
+  if (policies.length === 0) return null;
+
+  let result: FolderPolicyDecision | null = null;
+  for (const relativePath of getVaultRelativePaths(filePath, vaultPath)) {
+    const policy = findFolderPolicy(policies, relativePath);
+    const decision = policy ? decide(policy, filePath, access) : null;
+    if (decision && (!result || decision.action === 'deny')) {
+      result = decision;
+    }
+  }
+  return result;
+}
+
+function decide(policy: FolderPolicy, filePath: string, access: FolderPolicyAccess): FolderPolicyDecision | null {
+  switch (policy.access) {
+    case 'hidden':
+      return {
+        action: 'deny',
+        policy,
+        reason: `Access denied: Path "${filePath}" is in a folder hidden from the agent.`,
+      };
+    case 'readonly':
+      return access === 'write'
+        ? {
+          action: 'deny',
+          policy,
+          reason: `Access denied: Path "${filePath}" is in the read-only folder "${policy.folder}/".`,
+        }
+        : null;
+    case 'ask':
+      return {
+        action: 'ask',
+        policy,
+        reason: `Folder policy: "${policy.folder}/" requires approval for every ${access}.`,
+      };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Per-tool approval policies for MCP tools.
+ *
+ * A policy is a CC permission rule on the tool's full name (mcp__server__tool) in the
+ * allow, ask or deny list of .claude/settings.json, so the CLI applies it as well.
+ * Server-wide rules (mcp__server, mcp__server__*) cover every tool of that server.
+ */
+
+import type { CCPermissions } from '../types';
+import { createPermissionRule } from '../types';
+
+export type McpToolPolicy = 'allow' | 'ask' | 'deny';
+
+const POLICY_PRECEDENCE: McpToolPolicy[] = ['deny', 'ask', 'allow'];
+
+export function getMcpToolFullName(serverName: string, toolName: string): string {
+  return `mcp__${serverName}__${toolName}`;
+}
+
+/** Whether a rule names the tool itself or its whole server (mcp__server, mcp__server__*). */
+export function ruleMatchesMcpTool(rule: string, fullToolName: string): boolean {
+  if (rule === fullToolName) return true;
+  const serverRule = rule.endsWith('__*') ? rule.slice(0, -3) : rule;
+  return serverRule.startsWith('mcp__')
+    && !serverRule.slice('mcp__'.length).includes('__')
+    && fullToolName.startsWith(`${serverRule}__`);
+}
+
+/** Effective policy for a full MCP tool name; deny wins over ask, ask over allow. */
+export function getMcpToolPolicy(permissions: CCPermissions, fullToolName: string): McpToolPolicy | null {
+  if (!fullToolName.startsWith('mcp__')) return null;
+  for (const policy of POLICY_PRECEDENCE) {
+    if (permissions[policy]?.some(rule => ruleMatchesMcpTool(rule, fullToolName))) {
+      return policy;
+    }
+  }
+  return null;
+}
+
+/** Policies set on individual tools of a server (server-wide rules are not included). */
+export function getMcpToolPolicies(permissions: CCPermissions, serverName: string): Record<string, McpToolPolicy> {
+  const prefix = getMcpToolFullName(serverName, '');
+  const policies: Record<string, McpToolPolicy> = {};
+  for (const policy of [...POLICY_PRECEDENCE].reverse()) {
+    for (const rule of permissions[policy] ?? []) {
+      const toolName = rule.startsWith(prefix) ? rule.slice(prefix.length) : '';
+      if (toolName && toolName !== '*') {
+        policies[toolName] = policy;
+      }
+    }
+  }
+  return policies;
+}
+
+/** Copy of the permissions with the tool's own rule moved to the policy's list (null removes it). */
+export function setMcpToolPolicy(
+  permissions: CCPermissions,
+  fullToolName: string,
+  policy: McpToolPolicy | null
+): CCPermissions {
+  const rule = createPermissionRule(fullToolName);
+  const updated: CCPermissions = { ...permissions };
+  for (const list of POLICY_PRECEDENCE) {
+    if (permissions[list]) {
+      updated[list] = permissions[list].filter(r => r !== rule);
+    }
+  }
+  if (policy) {
+    updated[policy] = [...(updated[policy] ?? []), rule];
+  }
+  return updated;
+}
@@ -0,0 +1,192 @@
+/**
+ * Permission rule inspection.
+ *
+ * Lists the CC permission rules from the vault's and the user's settings.json, tests
+ * which rule applies to a tool call (deny wins over ask, ask over allow), and finds
+ * rules that no longer have any effect so they can be cleaned up.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  TOOL_BASH,
+  TOOL_EDIT,
+  TOOL_GLOB,
+  TOOL_GREP,
+  TOOL_NOTEBOOK_EDIT,
+  TOOL_READ,
+  TOOL_WRITE,
+} from '../tools/toolNames';
+import type { CCPermissions, PermissionRule } from '../types';
+import { parseCCPermissionRule } from '../types';
+import { getActionPattern, matchesRulePattern } from './ApprovalManager';
+import { ruleMatchesMcpTool } from './McpToolPolicy';
+
+export type PermissionRuleBehavior = 'allow' | 'ask' | 'deny';
+
+/** Where a rule is stored: the vault's .claude/settings.json or ~/.claude/settings.json. */
+export type PermissionRuleSource = 'vault' | 'user';
+
+export interface PermissionRuleEntry {
+  rule: PermissionRule;
+  behavior: PermissionRuleBehavior;
+  source: PermissionRuleSource;
+  /** Position in its source's list for this behavior. */
+  index: number;
+}
+
+export interface PermissionRuleTestResult {
+  /** The part of the input rules are matched against (command, file path, ...). */
+  actionPattern: string;
+  /** Rule that decides the call, or null when no rule matches. */
+  decision: PermissionRuleEntry | null;
+  /** Every matching rule, in precedence order. */
+  matches: PermissionRuleEntry[];
+}
+
+export interface StalePermissionRule {
+  entry: PermissionRuleEntry;
+  reason: string;
+}
+
+/** Behaviors in precedence order. */
+export const PERMISSION_RULE_BEHAVIORS: PermissionRuleBehavior[] = ['deny', 'ask', 'allow'];
+
+const PERMISSION_RULE_SOURCES: PermissionRuleSource[] = ['vault', 'user'];
+
+const FILE_TOOLS = new Set<string>([TOOL_READ, TOOL_WRITE, TOOL_EDIT, TOOL_NOTEBOOK_EDIT]);
+
+const RULE_PATTERN = /^[\w.-]+(?:\(.+\))?$/;
+const MCP_SERVER_WILDCARD_PATTERN = /^mcp__[^_][\w.-]*__\*$/;
+
+export function isValidPermissionRule(rule: string): boolean {
+  return RULE_PATTERN.test(rule) || MCP_SERVER_WILDCARD_PATTERN.test(rule);
+}
+
+/** Flattens permissions into entries: vault before user, each in precedence order. */
+export function collectPermissionRules(
+  sources: Partial<Record<PermissionRuleSource, CCPermissions>>
+): PermissionRuleEntry[] {
+  const entries: PermissionRuleEntry[] = [];
+  for (const source of PERMISSION_RULE_SOURCES) {
+    const permissions = sources[source];
+    if (!permissions) continue;
+    for (const behavior of PERMISSION_RULE_BEHAVIORS) {
+      (permissions[behavior] ?? []).forEach((rule, index) => {
+        entries.push({ rule, behavior, source, index });
+      });
+    }
+  }
+  return entries;
+}
+
+export function permissionRuleMatches(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>
+): boolean {
+  if (toolName.startsWith('mcp__')) {
+    return ruleMatchesMcpTool(rule, toolName);
+  }
+
+  const { tool, pattern } = parseCCPermissionRule(rule);
+  if (tool !== toolName) {
+    return false;
+  }
+  return matchesRulePattern(toolName, getActionPattern(toolName, input), pattern);
+}
+
+export function testPermissionRules(
+  entries: PermissionRuleEntry[],
+  toolName: string,
+  input: Record<string, unknown>
+): PermissionRuleTestResult {
+  const matches = PERMISSION_RULE_BEHAVIORS.flatMap(behavior =>
+    entries.filter(entry => entry.behavior === behavior && permissionRuleMatches(entry.rule, toolName, input))
+  );
+
+  return {
+    actionPattern: getActionPattern(toolName, input),
+    decision: matches[0] ?? null,
+    matches,
+  };
+}
+
+/**
+ * Builds tool input from tester text: a JSON object is used as-is, anything else
+ * fills the field the tool's rules match on (command, file path or pattern).
+ */
+export function toolInputFromText(toolName: string, text: string): Record<string, unknown> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Not JSON: treat as plain text below
+    }
+  }
+
+  if (toolName === TOOL_BASH) return { command: trimmed };
+  if (FILE_TOOLS.has(toolName)) return { file_path: trimmed };
+  if (toolName === TOOL_GLOB || toolName === TOOL_GREP) return { pattern: trimmed };
+  return trimmed ? { input: trimmed } : {};
+}
+
+function resolveRulePath(pattern: string, vaultPath: string | null): string | null {
+  if (/[*?[]/.test(pattern)) return null;
+  if (pattern.startsWith('//')) return pattern.slice(1);
+  if (pattern.startsWith('~/')) return path.join(os.homedir(), pattern.slice(2));
+  if (path.isAbsolute(pattern)) return pattern;
+  return vaultPath ? path.join(vaultPath, pattern) : null;
+}
+
+/**
+ * Rules that never take effect: invalid syntax, repeats within the same list,
+ * rules overridden by the same rule with a stronger behavior, and allow rules
+ * for files that no longer exist. Deny and ask rules for missing files stay, since
+ * they still guard the path if it is created again.
+ */
+export function findStalePermissionRules(
+  entries: PermissionRuleEntry[],
+  vaultPath: string | null
+): StalePermissionRule[] {
+  const stale: StalePermissionRule[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const key = `${entry.source}:${entry.behavior}:${entry.rule}`;
+    if (!isValidPermissionRule(entry.rule)) {
+      stale.push({ entry, reason: 'Invalid rule syntax' });
+      continue;
+    }
+    if (seen.has(key)) {
+      stale.push({ entry, reason: 'Duplicate of an earlier rule' });
+      continue;
+    }
+    seen.add(key);
+
+    const strongerIndex = PERMISSION_RULE_BEHAVIORS.indexOf(entry.behavior);
+    const overriddenBy = PERMISSION_RULE_BEHAVIORS.slice(0, strongerIndex).find(behavior =>
+      entries.some(other => other.behavior === behavior && other.rule === entry.rule)
+    );
+    if (overriddenBy) {
+      stale.push({ entry, reason: `Overridden by the same ${overriddenBy} rule` });
+      continue;
+    }
+
+    const { tool, pattern } = parseCCPermissionRule(entry.rule);
+    if (entry.behavior === 'allow' && FILE_TOOLS.has(tool) && pattern) {
+      const resolved = resolveRulePath(pattern, vaultPath);
+      if (resolved && !fs.existsSync(resolved)) {
+        stale.push({ entry, reason: 'File no longer exists' });
+      }
+    }
+  }
+
+  return stale;
+}
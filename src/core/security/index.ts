@@ -4,6 +4,10 @@ export {
   getActionPattern,
   matchesRulePattern,
 } from './ApprovalManager';
+export {
+  type BashSimpleCommand,
+  parseBashCommands,
+} from './BashCommandAnalyzer';
 export {
   checkBashPathAccess,
   cleanPathToken,
@@ -20,5 +24,44 @@ export {
   tokenizeBashCommand,
 } from './BashPathValidator';
 export {
+  type BlocklistMatch,
+  findBlockedCommand,
   isCommandBlocked,
 } from './BlocklistChecker';
+export {
+  checkFolderPolicy,
+  findFolderPolicy,
+  findPoliciesInSearch,
+  FOLDER_ACCESS_LEVELS,
+  type FolderPolicyAccess,
+  type FolderPolicyDecision,
+  getFolderExcludeGlob,
+  getPathExcludeGlob,
+  getVaultRelativePaths,
+  isPathHidden,
+  isReadRestricted,
+  normalizeFolderPath,
+  normalizeFolderPolicies,
+} from './FolderPolicy';
+export {
+  getMcpToolFullName,
+  getMcpToolPolicies,
+  getMcpToolPolicy,
+  type McpToolPolicy,
+  ruleMatchesMcpTool,
+  setMcpToolPolicy,
+} from './McpToolPolicy';
+export {
+  collectPermissionRules,
+  findStalePermissionRules,
+  isValidPermissionRule,
+  PERMISSION_RULE_BEHAVIORS,
+  type PermissionRuleBehavior,
+  type PermissionRuleEntry,
+  permissionRuleMatches,
+  type PermissionRuleSource,
+  type PermissionRuleTestResult,
+  type StalePermissionRule,
+  testPermissionRules,
+  toolInputFromText,
+} from './PermissionRules';
@@ -0,0 +1,71 @@
+/**
+ * AuditLogStorage - Append-only audit log in vault/.claude/audit/
+ *
+ * One JSONL file per month (YYYY-MM.jsonl), one entry per line. Entries are only
+ * ever appended; lines that fail to parse are skipped when reading.
+ */
+
+import type { AuditEntry } from '../types';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to audit log folder relative to vault root. */
+export const AUDIT_LOG_PATH = '.claude/audit';
+
+export class AuditLogStorage {
+  constructor(private adapter: VaultFileAdapter) {}
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    const byFile = new Map<string, string[]>();
+    for (const entry of entries) {
+      const filePath = this.getFilePath(entry.timestamp);
+      const lines = byFile.get(filePath) ?? [];
+      lines.push(JSON.stringify(entry));
+      byFile.set(filePath, lines);
+    }
+
+    for (const [filePath, lines] of byFile) {
+      await this.adapter.append(filePath, lines.join('\n') + '\n');
+    }
+  }
+
+  /** All entries, oldest first. */
+  async loadEntries(): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    const files = (await this.adapter.listFiles(AUDIT_LOG_PATH))
+      .filter(filePath => filePath.endsWith('.jsonl'))
+      .sort();
+
+    for (const filePath of files) {
+      try {
+        const content = await this.adapter.read(filePath);
+        for (const line of content.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            const entry = JSON.parse(line) as AuditEntry;
+            if (entry && typeof entry.timestamp === 'number' && typeof entry.kind === 'string') {
+              entries.push(entry);
+            }
+          } catch {
+            // Skip partially written lines
+          }
+        }
+      } catch {
+        // Skip files that fail to load
+      }
+    }
+
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async writeExport(fileName: string, content: string): Promise<string> {
+    const filePath = `${AUDIT_LOG_PATH}/${fileName}`;
+    await this.adapter.write(filePath, content);
+    return filePath;
+  }
+
+  getFilePath(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    return `${AUDIT_LOG_PATH}/${date.getFullYear()}-${month}.jsonl`;
+  }
+}
@@ -62,7 +62,7 @@ function normalizeRuleList(value: unknown): PermissionRule[] {
   return value.filter((r): r is string => typeof r === 'string') as PermissionRule[];
 }
 
-function normalizePermissions(permissions: unknown): CCPermissions {
+export function normalizePermissions(permissions: unknown): CCPermissions {
   if (!permissions || typeof permissions !== 'object') {
     return { ...DEFAULT_CC_PERMISSIONS };
   }
@@ -247,6 +247,19 @@ export class CCSettingsStorage {
     await this.save(settings);
   }
 
+  /**
+   * Remove a plugin from enabledPlugins (e.g., after uninstalling it from the project).
+   */
+  async removePluginEnabled(pluginId: string): Promise<void> {
+    const settings = await this.load();
+    if (!settings.enabledPlugins || !(pluginId in settings.enabledPlugins)) {
+      return;
+    }
+
+    delete settings.enabledPlugins[pluginId];
+    await this.save(settings);
+  }
+
   /**
    * Get list of plugin IDs that are explicitly enabled.
    * Used for PluginManager initialization.
@@ -6,17 +6,34 @@
  *
  * Includes:
  * - User preferences (userName)
- * - Security (blocklist, permission mode)
+ * - Security (blocklist, permission mode, folder policies, redaction)
  * - Model & thinking settings
  * - Content settings (tags, media, prompts)
  * - Environment (string format, snippets)
  * - UI settings (keyboard navigation)
  * - CLI paths
+ * - Scheduled jobs and their run history
  * - State (merged from data.json)
  */
 
-import type { ClaudeModel, ClaudianSettings, PlatformBlockedCommands } from '../types';
-import { DEFAULT_SETTINGS, getDefaultBlockedCommands } from '../types';
+import { normalizeRedactionDetectors, normalizeRedactionPatterns } from '../redaction/detectors';
+import { normalizeFolderPolicies } from '../security/FolderPolicy';
+import type {
+  ClaudeModel,
+  ClaudianSettings,
+  JobRun,
+  ModelPricing,
+  PlatformBlockedCommands,
+  ScheduledJob,
+} from '../types';
+import {
+  createScheduledJob,
+  DEFAULT_MODEL_PRICING,
+  DEFAULT_SETTINGS,
+  getDefaultBlockedCommands,
+  JOB_HISTORY_LIMIT,
+  MIN_JOB_INTERVAL_MINUTES,
+} from '../types';
 import type { VaultFileAdapter } from './VaultFileAdapter';
 
 /** Path to Claudian settings file relative to vault root. */
@@ -75,6 +92,82 @@ function normalizeHostnameCliPaths(value: unknown): Record<string, string> {
   return result;
 }
 
+/** Keeps price entries whose four prices are non-negative numbers; falls back to defaults when absent. */
+export function normalizeModelPricing(value: unknown): Record<string, ModelPricing> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_MODEL_PRICING };
+  }
+
+  const isPrice = (price: unknown): price is number =>
+    typeof price === 'number' && isFinite(price) && price >= 0;
+
+  const result: Record<string, ModelPricing> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!key.trim() || !entry || typeof entry !== 'object') continue;
+    const { input, output, cacheWrite, cacheRead } = entry as Record<string, unknown>;
+    if (isPrice(input) && isPrice(output) && isPrice(cacheWrite) && isPrice(cacheRead)) {
+      result[key.trim()] = { input, output, cacheWrite, cacheRead };
+    }
+  }
+  return result;
+}
+
+const JOB_TRIGGERS = new Set(['daily', 'interval', 'startup']);
+const JOB_PERMISSION_MODES = new Set(['normal', 'yolo', 'plan']);
+const JOB_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isJobRun(value: unknown): value is JobRun {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Record<string, unknown>;
+  return typeof run.startedAt === 'number' &&
+    typeof run.finishedAt === 'number' &&
+    (run.status === 'success' || run.status === 'error');
+}
+
+/** Drops jobs without an ID or prompt and fills missing or invalid fields with defaults. */
+export function normalizeScheduledJobs(value: unknown): ScheduledJob[] {
+  if (!Array.isArray(value)) return [];
+
+  const jobs: ScheduledJob[] = [];
+  const seenIds = new Set<string>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw.id !== 'string' || !raw.id || seenIds.has(raw.id)) continue;
+    if (typeof raw.prompt !== 'string' || !raw.prompt.trim()) continue;
+    seenIds.add(raw.id);
+
+    const defaults = createScheduledJob(raw.id);
+    const str = (key: keyof ScheduledJob, fallback: string): string =>
+      typeof raw[key] === 'string' ? raw[key] as string : fallback;
+
+    jobs.push({
+      ...defaults,
+      name: str('name', defaults.name).trim() || defaults.name,
+      createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : defaults.createdAt,
+      enabled: typeof raw.enabled === 'boolean' ? raw.enabled : defaults.enabled,
+      prompt: raw.prompt,
+      model: str('model', defaults.model).trim(),
+      permissionMode: JOB_PERMISSION_MODES.has(raw.permissionMode as string)
+        ? raw.permissionMode as ScheduledJob['permissionMode']
+        : defaults.permissionMode,
+      trigger: JOB_TRIGGERS.has(raw.trigger as string)
+        ? raw.trigger as ScheduledJob['trigger']
+        : defaults.trigger,
+      time: JOB_TIME_PATTERN.test(str('time', '')) ? raw.time as string : defaults.time,
+      intervalMinutes: typeof raw.intervalMinutes === 'number' && isFinite(raw.intervalMinutes)
+        ? Math.max(MIN_JOB_INTERVAL_MINUTES, Math.round(raw.intervalMinutes))
+        : defaults.intervalMinutes,
+      outputFolder: str('outputFolder', defaults.outputFolder).trim().replace(/^\/+|\/+$/g, ''),
+      openInTab: typeof raw.openInTab === 'boolean' ? raw.openInTab : defaults.openInTab,
+      history: Array.isArray(raw.history)
+        ? raw.history.filter(isJobRun).slice(0, JOB_HISTORY_LIMIT)
+        : [],
+    });
+  }
+  return jobs;
+}
+
 export class ClaudianSettingsStorage {
   constructor(private adapter: VaultFileAdapter) { }
 
@@ -95,11 +188,20 @@ export class ClaudianSettingsStorage {
     const blockedCommands = normalizeBlockedCommands(stored.blockedCommands);
     const hostnameCliPaths = normalizeHostnameCliPaths(stored.claudeCliPathsByHost);
     const legacyCliPath = typeof stored.claudeCliPath === 'string' ? stored.claudeCliPath : '';
+    const modelPricing = normalizeModelPricing(stored.modelPricing);
+    const scheduledJobs = normalizeScheduledJobs(stored.scheduledJobs);
+    const folderPolicies = normalizeFolderPolicies(stored.folderPolicies);
+    const defaults = this.getDefaults();
 
     return {
-      ...this.getDefaults(),
+      ...defaults,
       ...storedWithoutLegacy,
       blockedCommands,
+      modelPricing,
+      scheduledJobs,
+      folderPolicies,
+      redactionDetectors: normalizeRedactionDetectors(stored.redactionDetectors) ?? defaults.redactionDetectors,
+      redactionPatterns: normalizeRedactionPatterns(stored.redactionPatterns),
       claudeCliPath: legacyCliPath,
       claudeCliPathsByHost: hostnameCliPaths,
     } as StoredClaudianSettings;
@@ -0,0 +1,354 @@
+/**
+ * ConversationSearchIndex - Full-text search over conversation messages.
+ *
+ * Indexes message text from both legacy JSONL and SDK-native conversations.
+ * The index is in-memory and rebuilt lazily: entries are keyed by conversation ID
+ * and re-indexed when the conversation's version (updatedAt + message count) changes.
+ *
+ * Query syntax:
+ * - Bare words: all must appear (case-insensitive)
+ * - "quoted phrases": matched verbatim (case-insensitive)
+ * - after:YYYY-MM-DD / before:YYYY-MM-DD: restrict to messages in the date range
+ * - after:7d / after:2w: relative dates (days/weeks before now)
+ */
+
+import type { ChatMessage, Conversation } from '../types';
+
+/** Characters of context shown before the first hit in a snippet. */
+const SNIPPET_LEAD = 40;
+/** Maximum snippet length (excluding ellipses). */
+const SNIPPET_LENGTH = 140;
+/** Score boost for terms found in the conversation title. */
+const TITLE_WEIGHT = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedSearchQuery {
+  /** Lowercased bare words. */
+  terms: string[];
+  /** Lowercased quoted phrases. */
+  phrases: string[];
+  /** Inclusive lower bound (ms since epoch). */
+  after?: number;
+  /** Exclusive upper bound (ms since epoch). */
+  before?: number;
+}
+
+export interface ConversationSearchResult {
+  conversationId: string;
+  title: string;
+  /** Best matching message, absent when only the title matched. */
+  messageId?: string;
+  role?: ChatMessage['role'];
+  snippet: string;
+  /** [start, end) ranges within snippet to highlight. */
+  highlights: Array<[number, number]>;
+  timestamp: number;
+  score: number;
+}
+
+interface IndexedMessage {
+  id: string;
+  role: ChatMessage['role'];
+  timestamp: number;
+  text: string;
+  normalized: string;
+}
+
+interface IndexedConversation {
+  id: string;
+  title: string;
+  normalizedTitle: string;
+  timestamp: number;
+  version: string;
+  messages: IndexedMessage[];
+}
+
+/** Parses a relative (7d, 2w) or absolute (YYYY-MM-DD) date in local time. */
+function parseDateFilter(value: string, now: number): number | undefined {
+  const relative = value.match(/^(\d+)([dw])$/i);
+  if (relative) {
+    const amount = parseInt(relative[1], 10) * (relative[2].toLowerCase() === 'w' ? 7 : 1);
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    return today.getTime() - amount * DAY_MS;
+  }
+
+  const absolute = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (absolute) {
+    const date = new Date(
+      parseInt(absolute[1], 10),
+      parseInt(absolute[2], 10) - 1,
+      parseInt(absolute[3], 10)
+    );
+    return isNaN(date.getTime()) ? undefined : date.getTime();
+  }
+
+  return undefined;
+}
+
+/**
+ * Lower-cases text without changing its length, so match offsets in the folded text
+ * are valid in the original. Characters whose lower case is longer (such as 'İ') are kept.
+ */
+function foldCase(text: string): string {
+  const lower = text.toLowerCase();
+  if (lower.length === text.length) return lower;
+
+  let folded = '';
+  for (const char of text) {
+    const lowerChar = char.toLowerCase();
+    folded += lowerChar.length === char.length ? lowerChar : char;
+  }
+  return folded;
+}
+
+/** Parses a raw query string into terms, phrases, and date filters. */
+export function parseSearchQuery(input: string, now: number = Date.now()): ParsedSearchQuery {
+  const query: ParsedSearchQuery = { terms: [], phrases: [] };
+  const tokenPattern = /"([^"]*)"?|(\S+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(input)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = foldCase(match[1].replace(/\s+/g, ' ').trim());
+      if (phrase) query.phrases.push(phrase);
+      continue;
+    }
+
+    const token = match[2];
+    const filter = token.match(/^(after|before):(.+)$/i);
+    if (filter) {
+      const date = parseDateFilter(filter[2], now);
+      if (date !== undefined) {
+        if (filter[1].toLowerCase() === 'after') {
+          query.after = date;
+        } else {
+          query.before = date;
+        }
+        continue;
+      }
+    }
+
+    query.terms.push(foldCase(token));
+  }
+
+  return query;
+}
+
+/** Returns true when the query has nothing to match or filter on. */
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return query.terms.length === 0 &&
+    query.phrases.length === 0 &&
+    query.after === undefined &&
+    query.before === undefined;
+}
+
+/** Returns message text with whitespace collapsed so phrases match across line breaks. */
+function getSearchableText(message: ChatMessage): string {
+  return (message.displayContent ?? message.content ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function getConversationVersion(conversation: Conversation): string {
+  return `${conversation.updatedAt}:${conversation.messages.length}`;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function isInDateRange(timestamp: number, query: ParsedSearchQuery): boolean {
+  if (query.after !== undefined && timestamp < query.after) return false;
+  if (query.before !== undefined && timestamp >= query.before) return false;
+  return true;
+}
+
+/** Builds a snippet around the first hit with highlight ranges relative to the snippet. */
+function buildSnippet(
+  text: string,
+  normalized: string,
+  needles: string[]
+): { snippet: string; highlights: Array<[number, number]> } {
+  const firstHit = needles
+    .map(needle => normalized.indexOf(needle))
+    .filter(index => index !== -1)
+    .reduce((min, index) => Math.min(min, index), Infinity);
+
+  const start = firstHit === Infinity ? 0 : Math.max(0, firstHit - SNIPPET_LEAD);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const body = text.slice(start, end);
+  const normalizedBody = normalized.slice(start, end);
+
+  const ranges: Array<[number, number]> = [];
+  for (const needle of needles) {
+    let index = normalizedBody.indexOf(needle);
+    while (index !== -1) {
+      ranges.push([index + prefix.length, index + prefix.length + needle.length]);
+      index = normalizedBody.indexOf(needle, index + needle.length);
+    }
+  }
+
+  // Merge overlapping ranges so highlights render cleanly
+  ranges.sort((a, b) => a[0] - b[0]);
+  const highlights: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      highlights.push([range[0], range[1]]);
+    }
+  }
+
+  return { snippet: `${prefix}${body}${suffix}`, highlights };
+}
+
+export class ConversationSearchIndex {
+  private entries = new Map<string, IndexedConversation>();
+
+  /** Returns true if the conversation is missing from the index or has changed since indexing. */
+  isStale(conversation: Conversation): boolean {
+    const entry = this.entries.get(conversation.id);
+    return !entry || entry.version !== getConversationVersion(conversation) || entry.title !== conversation.title;
+  }
+
+  /** Adds or replaces a conversation in the index. */
+  indexConversation(conversation: Conversation): void {
+    const messages: IndexedMessage[] = [];
+    for (const message of conversation.messages) {
+      if (message.isInterrupt || message.isRebuiltContext) continue;
+      const text = getSearchableText(message);
+      if (!text) continue;
+      messages.push({
+        id: message.id,
+        role: message.role,
+        timestamp: message.timestamp,
+        text,
+        normalized: foldCase(text),
+      });
+    }
+
+    this.entries.set(conversation.id, {
+      id: conversation.id,
+      title: conversation.title,
+      normalizedTitle: foldCase(conversation.title),
+      timestamp: conversation.lastResponseAt ?? conversation.createdAt,
+      version: getConversationVersion(conversation),
+      messages,
+    });
+  }
+
+  removeConversation(id: string): void {
+    this.entries.delete(id);
+  }
+
+  /** Drops entries for conversations that no longer exist. */
+  retain(ids: Iterable<string>): void {
+    const keep = new Set(ids);
+    for (const id of this.entries.keys()) {
+      if (!keep.has(id)) {
+        this.entries.delete(id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Searches indexed conversations.
+   *
+   * A conversation matches when every term and phrase appears in its title or in
+   * messages within the date range. The result points at the message with the most hits.
+   */
+  search(query: string | ParsedSearchQuery, limit = 50): ConversationSearchResult[] {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    if (isEmptySearchQuery(parsed)) return [];
+
+    const needles = [...parsed.phrases, ...parsed.terms];
+    const results: ConversationSearchResult[] = [];
+
+    for (const entry of this.entries.values()) {
+      const result = this.matchConversation(entry, parsed, needles);
+      if (result) results.push(result);
+    }
+
+    return results
+      .sort((a, b) => (b.score - a.score) || (b.timestamp - a.timestamp))
+      .slice(0, limit);
+  }
+
+  private matchConversation(
+    entry: IndexedConversation,
+    query: ParsedSearchQuery,
+    needles: string[]
+  ): ConversationSearchResult | null {
+    const messages = entry.messages.filter(m => isInDateRange(m.timestamp, query));
+    const titleInRange = isInDateRange(entry.timestamp, query);
+
+    // Date-only query: list conversations with activity in range
+    if (needles.length === 0) {
+      if (messages.length === 0) return null;
+      const latest = messages[messages.length - 1];
+      return {
+        conversationId: entry.id,
+        title: entry.title,
+        messageId: latest.id,
+        role: latest.role,
+        ...buildSnippet(latest.text, latest.normalized, []),
+        timestamp: latest.timestamp,
+        score: 0,
+      };
+    }
+
+    let score = 0;
+    for (const needle of needles) {
+      const titleHits = titleInRange ? countOccurrences(entry.normalizedTitle, needle) : 0;
+      const messageHits = messages.reduce((sum, m) => sum + countOccurrences(m.normalized, needle), 0);
+      if (titleHits === 0 && messageHits === 0) return null;
+      score += titleHits * TITLE_WEIGHT + messageHits;
+    }
+
+    let best: IndexedMessage | null = null;
+    let bestHits = 0;
+    for (const message of messages) {
+      const hits = needles.filter(needle => message.normalized.includes(needle)).length;
+      if (hits > bestHits) {
+        best = message;
+        bestHits = hits;
+      }
+    }
+
+    if (!best) {
+      return {
+        conversationId: entry.id,
+        title: entry.title,
+        ...buildSnippet(entry.title, entry.normalizedTitle, needles),
+        timestamp: entry.timestamp,
+        score,
+      };
+    }
+
+    return {
+      conversationId: entry.id,
+      title: entry.title,
+      messageId: best.id,
+      role: best.role,
+      ...buildSnippet(best.text, best.normalized, needles),
+      timestamp: best.timestamp,
+      score,
+    };
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * McpCredentialStore - Per-device secrets and OAuth tokens for MCP servers.
+ *
+ * Kept outside the vault so synced config never holds credentials, and keyed by
+ * hostname (like claudeCliPathsByHost) so a synced home folder keeps devices apart.
+ *
+ * File format (~/.claude/claudian-credentials.json, mode 600):
+ * {
+ *   "hosts": {
+ *     "my-laptop": {
+ *       "secrets": { "GITHUB_TOKEN": "..." },
+ *       "oauth": { "server-name": { "serverUrl": "...", "clientInformation": {...}, "tokens": {...} } }
+ *     }
+ *   }
+ * }
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { getHostnameKey } from '../../utils/env';
+
+export interface McpOAuthClientInformation {
+  client_id: string;
+  client_secret?: string;
+}
+
+export interface McpOAuthTokens {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  scope?: string;
+  /** Absolute expiry (ms since epoch), derived from expires_in when the token was issued. */
+  expires_at?: number;
+}
+
+export interface McpOAuthState {
+  /** URL the tokens were issued for; a changed server URL invalidates them. */
+  serverUrl: string;
+  authorizationServerUrl: string;
+  clientInformation: McpOAuthClientInformation;
+  tokens?: McpOAuthTokens;
+}
+
+interface HostCredentials {
+  secrets: Record<string, string>;
+  oauth: Record<string, McpOAuthState>;
+}
+
+interface CredentialsFile {
+  hosts: Record<string, HostCredentials>;
+}
+
+export const MCP_CREDENTIALS_PATH = path.join(os.homedir(), '.claude', 'claudian-credentials.json');
+
+/** Secret names usable in `${secret:NAME}` references. */
+export const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export class McpCredentialStore {
+  private file: CredentialsFile | null = null;
+
+  constructor(
+    private filePath: string = MCP_CREDENTIALS_PATH,
+    private hostname: string = getHostnameKey()
+  ) {}
+
+  getSecret(name: string): string | undefined {
+    return this.getHost().secrets[name];
+  }
+
+  getSecretNames(): string[] {
+    return Object.keys(this.getHost().secrets).sort();
+  }
+
+  setSecret(name: string, value: string): void {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name "${name}"`);
+    }
+    this.getHost().secrets[name] = value;
+    this.write();
+  }
+
+  deleteSecret(name: string): void {
+    delete this.getHost().secrets[name];
+    this.write();
+  }
+
+  getOAuthState(serverName: string): McpOAuthState | undefined {
+    return this.getHost().oauth[serverName];
+  }
+
+  setOAuthState(serverName: string, state: McpOAuthState): void {
+    this.getHost().oauth[serverName] = state;
+    this.write();
+  }
+
+  clearOAuthState(serverName: string): void {
+    delete this.getHost().oauth[serverName];
+    this.write();
+  }
+
+  private getHost(): HostCredentials {
+    const file = this.read();
+    const host = file.hosts[this.hostname] ?? { secrets: {}, oauth: {} };
+    host.secrets ??= {};
+    host.oauth ??= {};
+    file.hosts[this.hostname] = host;
+    return host;
+  }
+
+  private read(): CredentialsFile {
+    if (this.file) return this.file;
+
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (parsed && typeof parsed.hosts === 'object' && parsed.hosts) {
+          this.file = parsed as CredentialsFile;
+          return this.file;
+        }
+      }
+    } catch {
+      // Unreadable file: start empty (the next write replaces it)
+    }
+
+    this.file = { hosts: {} };
+    return this.file;
+  }
+
+  private write(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.read(), null, 2), { encoding: 'utf-8', mode: 0o600 });
+  }
+}
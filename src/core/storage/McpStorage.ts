@@ -11,7 +11,8 @@
  *   },
  *   "_claudian": {
  *     "servers": {
- *       "server-name": { "enabled": true, "contextSaving": true, "disabledTools": ["tool"], "description": "..." }
+ *       "server-name": { "enabled": true, "contextSaving": true, "disabledTools": ["tool"], "description": "...",
+ *                        "oauth": { "clientId": "...", "scope": "..." } }
  *     }
  *   }
  * }
@@ -20,6 +21,7 @@
 import type {
   ClaudianMcpConfigFile,
   ClaudianMcpServer,
+  McpOAuthConfig,
   McpServerConfig,
   ParsedMcpConfig,
 } from '../types';
@@ -67,6 +69,7 @@ export class McpStorage {
           contextSaving: meta.contextSaving ?? DEFAULT_MCP_SERVER.contextSaving,
           disabledTools: normalizedDisabledTools,
           description: meta.description,
+          oauth: meta.oauth && typeof meta.oauth === 'object' ? meta.oauth : undefined,
         });
       }
 
@@ -80,7 +83,13 @@ export class McpStorage {
     const mcpServers: Record<string, McpServerConfig> = {};
     const claudianServers: Record<
       string,
-      { enabled?: boolean; contextSaving?: boolean; disabledTools?: string[]; description?: string }
+      {
+        enabled?: boolean;
+        contextSaving?: boolean;
+        disabledTools?: string[];
+        description?: string;
+        oauth?: McpOAuthConfig;
+      }
     > = {};
 
     for (const server of servers) {
@@ -92,6 +101,7 @@ export class McpStorage {
         contextSaving?: boolean;
         disabledTools?: string[];
         description?: string;
+        oauth?: McpOAuthConfig;
       } = {};
 
       if (server.enabled !== DEFAULT_MCP_SERVER.enabled) {
@@ -109,6 +119,9 @@ export class McpStorage {
       if (server.description) {
         meta.description = server.description;
       }
+      if (server.oauth) {
+        meta.oauth = server.oauth;
+      }
 
       if (Object.keys(meta).length > 0) {
         claudianServers[server.name] = meta;
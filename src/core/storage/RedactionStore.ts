@@ -0,0 +1,84 @@
+/**
+ * RedactionStore - Values behind redaction placeholders, kept between plugin loads.
+ *
+ * Placeholders stay in conversation history and SDK sessions, so their values are kept
+ * to restore them in files Claude writes after a reload. Kept outside the vault so synced
+ * or shared vaults never hold them.
+ *
+ * File format (~/.claude/claudian-redactions.json, mode 600):
+ * {
+ *   "key": "...",
+ *   "values": { "[REDACTED_EMAIL_3f9a2c1b]": "a@example.com" }
+ * }
+ */
+
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { RedactionValueStore } from '../redaction';
+
+interface RedactionFile {
+  key: string;
+  values: Record<string, string>;
+}
+
+export const REDACTIONS_PATH = path.join(os.homedir(), '.claude', 'claudian-redactions.json');
+
+/** Oldest values are dropped beyond this; their placeholders are then kept as-is. */
+const MAX_REDACTION_VALUES = 1000;
+
+export class RedactionStore implements RedactionValueStore {
+  private file: RedactionFile | null = null;
+
+  constructor(private filePath: string = REDACTIONS_PATH) {}
+
+  getKey(): string {
+    return this.read().key;
+  }
+
+  getValue(placeholder: string): string | undefined {
+    const { values } = this.read();
+    return Object.prototype.hasOwnProperty.call(values, placeholder) ? values[placeholder] : undefined;
+  }
+
+  setValue(placeholder: string, value: string): void {
+    const { values } = this.read();
+    values[placeholder] = value;
+    const placeholders = Object.keys(values);
+    for (const old of placeholders.slice(0, Math.max(0, placeholders.length - MAX_REDACTION_VALUES))) {
+      delete values[old];
+    }
+    this.write();
+  }
+
+  private read(): RedactionFile {
+    if (this.file) return this.file;
+
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (parsed && typeof parsed.key === 'string' && parsed.key && typeof parsed.values === 'object' && parsed.values) {
+          this.file = parsed as RedactionFile;
+          return this.file;
+        }
+      }
+    } catch {
+      // Unreadable file: start with a new key (placeholders from before are kept as-is)
+    }
+
+    this.file = { key: randomBytes(32).toString('hex'), values: {} };
+    this.write();
+    return this.file;
+  }
+
+  private write(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch {
+      // Values stay in memory for this session
+    }
+  }
+}
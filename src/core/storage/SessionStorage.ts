@@ -18,6 +18,7 @@ import type {
   ConversationMeta,
   SessionMetadata,
   SubagentInfo,
+  TokenUsageRecord,
   UsageInfo,
 } from '../types';
 import type { VaultFileAdapter } from './VaultFileAdapter';
@@ -25,6 +26,12 @@ import type { VaultFileAdapter } from './VaultFileAdapter';
 /** Path to sessions folder relative to vault root. */
 export const SESSIONS_PATH = '.claude/sessions';
 
+/** SDK sessions Claudian started outside chat (inline edit, jobs, batch runs). */
+export const INTERNAL_SESSIONS_PATH = `${SESSIONS_PATH}/internal-sessions.json`;
+
+/** Oldest internal session IDs are forgotten past this many. */
+const MAX_INTERNAL_SESSIONS = 1000;
+
 /** Metadata record stored as first line of JSONL. */
 interface SessionMetaRecord {
   type: 'meta';
@@ -36,6 +43,7 @@ interface SessionMetaRecord {
   sessionId: string | null;
   currentNote?: string;
   usage?: UsageInfo;
+  tokenUsage?: TokenUsageRecord[];
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
 }
 
@@ -49,6 +57,8 @@ interface SessionMessageRecord {
 type SessionRecord = SessionMetaRecord | SessionMessageRecord;
 
 export class SessionStorage {
+  private internalSessionIds: Promise<string[]> | null = null;
+
   constructor(private adapter: VaultFileAdapter) { }
 
   async loadConversation(id: string): Promise<Conversation | null> {
@@ -225,6 +235,7 @@ export class SessionStorage {
       messages,
       currentNote: meta.currentNote,
       usage: meta.usage,
+      tokenUsage: meta.tokenUsage,
       titleGenerationStatus: meta.titleGenerationStatus,
     };
   }
@@ -243,6 +254,7 @@ export class SessionStorage {
       sessionId: conversation.sessionId,
       currentNote: conversation.currentNote,
       usage: conversation.usage,
+      tokenUsage: conversation.tokenUsage,
       titleGenerationStatus: conversation.titleGenerationStatus,
     };
     lines.push(JSON.stringify(meta));
@@ -379,6 +391,37 @@ export class SessionStorage {
     );
   }
 
+  /** IDs of SDK sessions Claudian started outside chat, oldest first. */
+  async loadInternalSessionIds(): Promise<string[]> {
+    if (!this.internalSessionIds) {
+      this.internalSessionIds = this.readInternalSessionIds();
+    }
+    return this.internalSessionIds;
+  }
+
+  /** Records a session Claudian started outside chat, so it isn't offered as a CLI session. */
+  async addInternalSessionId(sessionId: string): Promise<void> {
+    const ids = await this.loadInternalSessionIds();
+    if (ids.includes(sessionId)) return;
+
+    // Mutated in place so concurrent adds all land in the next write
+    ids.push(sessionId);
+    if (ids.length > MAX_INTERNAL_SESSIONS) {
+      ids.splice(0, ids.length - MAX_INTERNAL_SESSIONS);
+    }
+    await this.adapter.write(INTERNAL_SESSIONS_PATH, JSON.stringify(ids));
+  }
+
+  private async readInternalSessionIds(): Promise<string[]> {
+    try {
+      if (!(await this.adapter.exists(INTERNAL_SESSIONS_PATH))) return [];
+      const parsed: unknown = JSON.parse(await this.adapter.read(INTERNAL_SESSIONS_PATH));
+      return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
   toSessionMetadata(conversation: Conversation): SessionMetadata {
     const subagentData = this.extractSubagentData(conversation.messages);
 
@@ -396,6 +439,7 @@ export class SessionStorage {
       externalContextPaths: conversation.externalContextPaths,
       enabledMcpServers: conversation.enabledMcpServers,
       usage: conversation.usage,
+      tokenUsage: conversation.tokenUsage,
       legacyCutoffAt: conversation.legacyCutoffAt,
       subagentData: Object.keys(subagentData).length > 0 ? subagentData : undefined,
       resumeSessionAt: conversation.resumeSessionAt,
@@ -4,6 +4,21 @@ import type { VaultFileAdapter } from './VaultFileAdapter';
 
 export const SKILLS_PATH = '.claude/skills';
 
+const SKILL_FILE = 'SKILL.md';
+
+/** Rejects paths that would escape the skill folder or replace SKILL.md. */
+function resolveSupportingPath(skillName: string, relativePath: string): string {
+  const segments = relativePath.split('/');
+  const invalid = !relativePath ||
+    relativePath.includes('\\') ||
+    segments.some(segment => !segment || segment === '.' || segment === '..') ||
+    relativePath === SKILL_FILE;
+  if (invalid) {
+    throw new Error(`Invalid supporting file path: ${relativePath}`);
+  }
+  return `${SKILLS_PATH}/${skillName}/${relativePath}`;
+}
+
 export class SkillStorage {
   constructor(private adapter: VaultFileAdapter) {}
 
@@ -15,7 +30,7 @@ export class SkillStorage {
 
       for (const folder of folders) {
         const skillName = folder.split('/').pop()!;
-        const skillPath = `${SKILLS_PATH}/${skillName}/SKILL.md`;
+        const skillPath = `${SKILLS_PATH}/${skillName}/${SKILL_FILE}`;
 
         try {
           if (!(await this.adapter.exists(skillPath))) continue;
@@ -42,17 +57,49 @@ export class SkillStorage {
   async save(skill: SlashCommand): Promise<void> {
     const name = skill.name;
     const dirPath = `${SKILLS_PATH}/${name}`;
-    const filePath = `${dirPath}/SKILL.md`;
+    const filePath = `${dirPath}/${SKILL_FILE}`;
 
     await this.adapter.ensureFolder(dirPath);
     await this.adapter.write(filePath, serializeCommand(skill));
   }
 
+  /** Moves the whole skill folder, keeping its supporting files. */
+  async rename(oldName: string, newName: string): Promise<void> {
+    const newPath = `${SKILLS_PATH}/${newName}`;
+    if (await this.adapter.exists(newPath)) {
+      throw new Error(`A skill named "${newName}" already exists`);
+    }
+    await this.adapter.rename(`${SKILLS_PATH}/${oldName}`, newPath);
+  }
+
+  /** Files in the skill folder besides SKILL.md, relative to the folder. */
+  async listSupportingFiles(skillName: string): Promise<string[]> {
+    const dirPath = `${SKILLS_PATH}/${skillName}`;
+    const files = await this.adapter.listFilesRecursive(dirPath);
+    return files
+      .map(file => file.slice(dirPath.length + 1))
+      .filter(file => file && file !== SKILL_FILE)
+      .sort();
+  }
+
+  async readSupportingFile(skillName: string, relativePath: string): Promise<string> {
+    return this.adapter.read(resolveSupportingPath(skillName, relativePath));
+  }
+
+  async writeSupportingFile(skillName: string, relativePath: string, content: string): Promise<void> {
+    await this.adapter.write(resolveSupportingPath(skillName, relativePath), content);
+  }
+
+  async deleteSupportingFile(skillName: string, relativePath: string): Promise<void> {
+    await this.adapter.delete(resolveSupportingPath(skillName, relativePath));
+  }
+
+  /** Deletes the skill folder, including its supporting files. */
   async delete(skillId: string): Promise<void> {
     const name = skillId.replace(/^skill-/, '');
-    const dirPath = `${SKILLS_PATH}/${name}`;
-    const filePath = `${dirPath}/SKILL.md`;
-    await this.adapter.delete(filePath);
-    await this.adapter.deleteFolder(dirPath);
+    if (!name || name === '.' || name === '..' || /[\\/]/.test(name)) {
+      throw new Error(`Invalid skill name: ${name}`);
+    }
+    await this.adapter.deleteFolderRecursive(`${SKILLS_PATH}/${name}`);
   }
 }
@@ -7,6 +7,7 @@
  * - Slash commands in .claude/commands/*.md
  * - Chat sessions in .claude/sessions/*.jsonl
  * - MCP configs in .claude/mcp.json
+ * - Audit log in .claude/audit/*.jsonl
  *
  * Handles migration from legacy formats:
  * - Old settings.json with Claudian fields → split into CC + Claudian files
@@ -31,6 +32,7 @@ import {
   legacyPermissionsToCCPermissions,
 } from '../types';
 import { AGENTS_PATH, AgentVaultStorage } from './AgentVaultStorage';
+import { AuditLogStorage } from './AuditLogStorage';
 import { CC_SETTINGS_PATH, CCSettingsStorage, isLegacyPermissionsFormat } from './CCSettingsStorage';
 import {
   ClaudianSettingsStorage,
@@ -46,6 +48,7 @@ import {
 import { SESSIONS_PATH, SessionStorage } from './SessionStorage';
 import { SKILLS_PATH, SkillStorage } from './SkillStorage';
 import { COMMANDS_PATH, SlashCommandStorage } from './SlashCommandStorage';
+import { UserCCSettingsStorage } from './UserCCSettingsStorage';
 import { VaultFileAdapter } from './VaultFileAdapter';
 
 /** Base path for all Claudian storage. */
@@ -117,6 +120,8 @@ export class StorageService {
   readonly sessions: SessionStorage;
   readonly mcp: McpStorage;
   readonly agents: AgentVaultStorage;
+  readonly userCCSettings: UserCCSettingsStorage;
+  readonly audit: AuditLogStorage;
 
   private adapter: VaultFileAdapter;
   private plugin: Plugin;
@@ -133,6 +138,8 @@ export class StorageService {
     this.sessions = new SessionStorage(this.adapter);
     this.mcp = new McpStorage(this.adapter);
     this.agents = new AgentVaultStorage(this.adapter);
+    this.userCCSettings = new UserCCSettingsStorage();
+    this.audit = new AuditLogStorage(this.adapter);
   }
 
   async initialize(): Promise<CombinedSettings> {
@@ -0,0 +1,54 @@
+/**
+ * UserCCSettingsStorage - Permission rules in the user's ~/.claude/settings.json.
+ *
+ * Claude Code loads these alongside the vault's .claude/settings.json (when
+ * "Load user Claude settings" is on). Only the permissions block is touched;
+ * every other field in the file is preserved as-is.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { CCPermissions } from '../types';
+import { normalizePermissions } from './CCSettingsStorage';
+
+export const USER_CC_SETTINGS_PATH = path.join(os.homedir(), '.claude', 'settings.json');
+
+export class UserCCSettingsStorage {
+  constructor(private filePath: string = USER_CC_SETTINGS_PATH) {}
+
+  async getPermissions(): Promise<CCPermissions> {
+    return normalizePermissions(this.read().permissions);
+  }
+
+  async updatePermissions(permissions: CCPermissions): Promise<void> {
+    const settings = this.read();
+    const existing = settings.permissions && typeof settings.permissions === 'object'
+      ? settings.permissions as Record<string, unknown>
+      : {};
+    settings.permissions = {
+      ...existing,
+      allow: permissions.allow ?? [],
+      deny: permissions.deny ?? [],
+      ask: permissions.ask ?? [],
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(settings, null, 2), 'utf-8');
+  }
+
+  private read(): Record<string, unknown> {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed as Record<string, unknown>;
+        }
+      }
+    } catch {
+      // Unreadable or invalid JSON: treat as empty
+    }
+    return {};
+  }
+}
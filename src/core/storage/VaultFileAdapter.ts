@@ -50,6 +50,13 @@ export class VaultFileAdapter {
     }
   }
 
+  /** Deletes a folder with everything in it. */
+  async deleteFolderRecursive(path: string): Promise<void> {
+    if (await this.exists(path)) {
+      await this.app.vault.adapter.rmdir(path, true);
+    }
+  }
+
   async listFiles(folder: string): Promise<string[]> {
     if (!(await this.exists(folder))) {
       return [];
@@ -0,0 +1,204 @@
+/**
+ * VaultSearchIndex - BM25 ranking over vault notes.
+ *
+ * Stores term frequencies per note path (not the note text) so the index stays
+ * small; callers read the top notes again to build snippets. Words in the note's
+ * file name count extra, and CJK text is split into bigrams since it has no spaces.
+ */
+
+/** BM25 term frequency saturation. */
+const K1 = 1.2;
+/** BM25 length normalization. */
+const B = 0.75;
+/** Extra term frequency for words in the note's file name. */
+const NAME_WEIGHT = 3;
+/** Maximum snippet length (excluding ellipses). */
+const SNIPPET_LENGTH = 200;
+/** Characters of context shown before the first hit in a snippet. */
+const SNIPPET_LEAD = 60;
+
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯]/;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were',
+  'with', 'about', 'notes', 'note',
+]);
+
+export interface VaultSearchOptions {
+  /** Maximum number of results (default 10). */
+  limit?: number;
+  /** Only return notes inside this folder (vault-relative). */
+  folder?: string;
+  /** Leaves notes out before the limit applies. */
+  exclude?: (path: string) => boolean;
+}
+
+export interface VaultSearchHit {
+  path: string;
+  score: number;
+}
+
+interface IndexedNote {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/** Reduces plural and possessive forms so "meeting" matches "meetings". */
+function normalizeTerm(term: string): string {
+  if (term.endsWith("'s")) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+/** Splits text into lowercase search terms (CJK runs become bigrams), without stop words. */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'_]*/gu) ?? [];
+  const terms: string[] = [];
+
+  for (const word of words) {
+    if (CJK_PATTERN.test(word)) {
+      const chars = Array.from(word);
+      if (chars.length === 1) {
+        terms.push(word);
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        terms.push(chars[i] + chars[i + 1]);
+      }
+      continue;
+    }
+
+    const term = normalizeTerm(word);
+    if (term.length < 2 || STOP_WORDS.has(term)) continue;
+    terms.push(term);
+  }
+
+  return terms;
+}
+
+function getNoteName(path: string): string {
+  const filename = path.split('/').pop() ?? path;
+  return filename.replace(/\.md$/i, '');
+}
+
+/**
+ * Returns the passage of `content` with the most query terms,
+ * trimmed to a single line of at most SNIPPET_LENGTH characters.
+ */
+export function buildNoteSnippet(content: string, queryTerms: string[]): string {
+  const body = content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+  const terms = new Set(queryTerms);
+  const paragraphs = body.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  if (paragraphs.length === 0) return '';
+
+  let best = paragraphs[0];
+  let bestScore = 0;
+  for (const paragraph of paragraphs) {
+    const score = new Set(tokenize(paragraph).filter(term => terms.has(term))).size;
+    if (score > bestScore) {
+      best = paragraph;
+      bestScore = score;
+    }
+  }
+
+  const text = best.replace(/\s+/g, ' ');
+  const lower = text.toLowerCase();
+  const firstHit = queryTerms
+    .map(term => lower.indexOf(term))
+    .filter(index => index !== -1)
+    .reduce((min, index) => Math.min(min, index), Infinity);
+
+  const start = firstHit === Infinity || firstHit < SNIPPET_LEAD ? 0 : firstHit - SNIPPET_LEAD;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+export class VaultSearchIndex {
+  private notes = new Map<string, IndexedNote>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.notes.size;
+  }
+
+  has(path: string): boolean {
+    return this.notes.has(path);
+  }
+
+  /** Adds or replaces a note. */
+  setNote(path: string, content: string): void {
+    this.removeNote(path);
+
+    const termFrequencies = new Map<string, number>();
+    const terms = tokenize(content);
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    }
+    for (const term of tokenize(getNoteName(path))) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + NAME_WEIGHT);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+    }
+    this.notes.set(path, { termFrequencies, length: terms.length });
+    this.totalLength += terms.length;
+  }
+
+  removeNote(path: string): void {
+    const note = this.notes.get(path);
+    if (!note) return;
+
+    for (const term of note.termFrequencies.keys()) {
+      const count = (this.documentFrequencies.get(term) ?? 1) - 1;
+      if (count > 0) {
+        this.documentFrequencies.set(term, count);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    }
+    this.notes.delete(path);
+    this.totalLength -= note.length;
+  }
+
+  clear(): void {
+    this.notes.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+  }
+
+  /** Ranks notes by BM25 score for the query terms, best first. Notes without any term are omitted. */
+  search(query: string, options: VaultSearchOptions = {}): VaultSearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.notes.size === 0) return [];
+
+    const folder = options.folder?.replace(/^\/+|\/+$/g, '');
+    const folderPrefix = folder ? `${folder}/` : '';
+    const noteCount = this.notes.size;
+    const averageLength = this.totalLength / noteCount || 1;
+
+    const hits: VaultSearchHit[] = [];
+    for (const [path, note] of this.notes) {
+      if (folderPrefix && !path.startsWith(folderPrefix)) continue;
+      if (options.exclude?.(path)) continue;
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = note.termFrequencies.get(term);
+        if (!tf) continue;
+
+        const df = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (noteCount - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * note.length / averageLength));
+      }
+
+      if (score > 0) {
+        hits.push({ path, score });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+    return hits.slice(0, options.limit ?? 10);
+  }
+}
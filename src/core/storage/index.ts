@@ -1,11 +1,28 @@
 export { AGENTS_PATH, AgentVaultStorage } from './AgentVaultStorage';
+export { AUDIT_LOG_PATH, AuditLogStorage } from './AuditLogStorage';
 export { CC_SETTINGS_PATH, CCSettingsStorage, isLegacyPermissionsFormat } from './CCSettingsStorage';
 export {
   CLAUDIAN_SETTINGS_PATH,
   ClaudianSettingsStorage,
   type StoredClaudianSettings,
 } from './ClaudianSettingsStorage';
+export {
+  ConversationSearchIndex,
+  type ConversationSearchResult,
+  isEmptySearchQuery,
+  type ParsedSearchQuery,
+  parseSearchQuery,
+} from './ConversationSearchIndex';
+export {
+  MCP_CREDENTIALS_PATH,
+  McpCredentialStore,
+  type McpOAuthClientInformation,
+  type McpOAuthState,
+  type McpOAuthTokens,
+  SECRET_NAME_PATTERN,
+} from './McpCredentialStore';
 export { MCP_CONFIG_PATH, McpStorage } from './McpStorage';
+export { REDACTIONS_PATH, RedactionStore } from './RedactionStore';
 export { SESSIONS_PATH, SessionStorage } from './SessionStorage';
 export { SKILLS_PATH, SkillStorage } from './SkillStorage';
 export { COMMANDS_PATH, SlashCommandStorage } from './SlashCommandStorage';
@@ -15,4 +32,12 @@ export {
   SETTINGS_PATH,
   StorageService,
 } from './StorageService';
+export { USER_CC_SETTINGS_PATH, UserCCSettingsStorage } from './UserCCSettingsStorage';
 export { VaultFileAdapter } from './VaultFileAdapter';
+export {
+  buildNoteSnippet,
+  tokenize,
+  type VaultSearchHit,
+  VaultSearchIndex,
+  type VaultSearchOptions,
+} from './VaultSearchIndex';
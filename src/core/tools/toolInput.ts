@@ -42,3 +42,49 @@ export function getPathFromToolInput(
       return null;
   }
 }
+
+/** Where a Grep or Glob search looks. */
+export interface SearchScope {
+  /** Folder the search starts in; empty for the working directory (the vault). */
+  root: string;
+  /** Folder levels below the root the search reaches; Infinity when it recurses. */
+  depth: number;
+}
+
+const GLOB_SYNTAX = /[*?[{]/;
+
+/**
+ * Search scope of a Grep or Glob call, or null for other tools. A Glob pattern's
+ * literal leading folders narrow the root, the way the CLI resolves it.
+ */
+export function getSearchScope(toolName: string, toolInput: Record<string, unknown>): SearchScope | null {
+  const searchPath = typeof toolInput.path === 'string' ? toolInput.path : '';
+
+  if (toolName === TOOL_GREP) {
+    return { root: searchPath, depth: Infinity };
+  }
+  if (toolName !== TOOL_GLOB) {
+    return null;
+  }
+
+  const pattern = (typeof toolInput.pattern === 'string' ? toolInput.pattern : '').replace(/\\/g, '/');
+  const globIndex = pattern.search(GLOB_SYNTAX);
+  if (globIndex === -1) {
+    // A literal pattern names a single file
+    return { root: joinSearchPath(searchPath, pattern), depth: 0 };
+  }
+
+  const slash = pattern.lastIndexOf('/', globIndex);
+  const base = slash === -1 ? '' : pattern.slice(0, slash) || '/';
+  const rest = pattern.slice(slash + 1);
+  return {
+    root: base.startsWith('/') ? base : joinSearchPath(searchPath, base),
+    depth: rest.includes('**') ? Infinity : rest.split('/').length - 1,
+  };
+}
+
+function joinSearchPath(root: string, child: string): string {
+  if (!root) return child;
+  if (!child) return root;
+  return `${root.replace(/[\\/]+$/, '')}/${child}`;
+}
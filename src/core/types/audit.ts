@@ -0,0 +1,31 @@
+/** Security hook that denied a tool call. */
+export type AuditHookName = 'blocklist' | 'vault_restriction' | 'mcp_policy';
+
+/** User (or callback) decision on a tool approval request. */
+export type AuditApprovalDecision = 'allow' | 'allow-always' | 'deny' | 'cancel';
+
+/** Outcome used to filter the audit log. */
+export type AuditOutcome = 'requested' | 'success' | 'error' | 'allowed' | 'denied' | 'cancelled' | 'rewound';
+
+interface AuditEntryBase {
+  /** When the event happened (ms since epoch). */
+  timestamp: number;
+  /** SDK session the event belongs to, when known. */
+  sessionId: string | null;
+}
+
+export type AuditEntry = AuditEntryBase & (
+  | { kind: 'tool_use'; toolUseId: string; toolName: string; input: Record<string, unknown> }
+  | { kind: 'tool_result'; toolUseId: string; toolName?: string; isError: boolean; content: string }
+  | {
+    kind: 'approval';
+    toolName: string;
+    input: Record<string, unknown>;
+    decision: AuditApprovalDecision;
+    message?: string;
+  }
+  | { kind: 'hook_denial'; hook: AuditHookName; toolName: string; input: Record<string, unknown>; reason: string }
+  | { kind: 'rewind'; userMessageUuid: string; filesChanged: string[] }
+);
+
+export type AuditEntryKind = AuditEntry['kind'];
@@ -17,6 +17,12 @@ export const VIEW_TYPE_CLAUDIAN = 'claudian-view';
 /** Supported image media types for attachments. */
 export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
 
+/** Count of values masked by one redaction detector. */
+export interface RedactionSummary {
+  label: string;
+  count: number;
+}
+
 /** Image attachment metadata. */
 export interface ImageAttachment {
   id: string;
@@ -63,6 +69,8 @@ export interface ChatMessage {
   sdkUserUuid?: string;
   /** SDK assistant message UUID for resumeSessionAt. */
   sdkAssistantUuid?: string;
+  /** What was masked in `content` before it was sent (user messages). */
+  redactions?: RedactionSummary[];
 }
 
 /** Persisted conversation with messages and session state. */
@@ -92,6 +100,8 @@ export interface Conversation {
   externalContextPaths?: string[];
   /** Context window usage information. */
   usage?: UsageInfo;
+  /** Cumulative billed tokens, one record per model per turn. */
+  tokenUsage?: TokenUsageRecord[];
   /** Status of AI title generation. */
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
   /** UI-enabled MCP servers for this session (context-saving servers activated via selector). */
@@ -127,6 +137,8 @@ export interface ConversationMeta {
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
   /** True if this conversation uses SDK-native storage. */
   isNative?: boolean;
+  /** True for SDK sessions started outside Claudian (e.g. CLI) that have no metadata yet. */
+  isExternal?: boolean;
 }
 
 /**
@@ -158,6 +170,7 @@ export interface SessionMetadata {
   externalContextPaths?: string[];
   enabledMcpServers?: string[];
   usage?: UsageInfo;
+  tokenUsage?: TokenUsageRecord[];
   /** Timestamp of the last legacy JSONL message (used to merge SDK history). */
   legacyCutoffAt?: number;
   /**
@@ -182,6 +195,7 @@ export type StreamChunk =
   | { type: 'blocked'; content: string }
   | { type: 'done' }
   | { type: 'usage'; usage: UsageInfo; sessionId?: string | null }
+  | { type: 'token_usage'; messageId: string; model: string; usage: TokenUsage }
   | { type: 'compact_boundary' }
   | { type: 'sdk_user_uuid'; uuid: string }
   | { type: 'sdk_user_sent'; uuid: string }
@@ -197,3 +211,18 @@ export interface UsageInfo {
   contextTokens: number;
   percentage: number;
 }
+
+/** Tokens billed for API calls (main agent and subagents). */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/** Tokens billed to one model during one turn. */
+export interface TokenUsageRecord extends TokenUsage {
+  /** When the turn was saved (ms since epoch). */
+  timestamp: number;
+  model: string;
+}
@@ -7,8 +7,11 @@ export {
   type ForkSource,
   type ImageAttachment,
   type ImageMediaType,
+  type RedactionSummary,
   type SessionMetadata,
   type StreamChunk,
+  type TokenUsage,
+  type TokenUsageRecord,
   type UsageInfo,
   VIEW_TYPE_CLAUDIAN,
 } from './chat';
@@ -20,8 +23,11 @@ export {
   CONTEXT_WINDOW_1M,
   CONTEXT_WINDOW_STANDARD,
   DEFAULT_CLAUDE_MODELS,
+  DEFAULT_MODEL_PRICING,
   DEFAULT_THINKING_BUDGET,
   getContextWindowSize,
+  getModelPricing,
+  type ModelPricing,
   type ModelWithBetas,
   type ModelWithoutBetas,
   resolveModelWithBetas,
@@ -50,6 +56,8 @@ export {
   DEFAULT_CC_SETTINGS,
   DEFAULT_SETTINGS,
   type EnvSnippet,
+  type FolderAccess,
+  type FolderPolicy,
   getBashToolBlockedCommands,
   getCliPlatformKey,  // Kept for migration
   getCurrentPlatformBlockedCommands,
@@ -66,6 +74,9 @@ export {
   type PermissionRule,
   type PlatformBlockedCommands,
   type PlatformCliPaths,  // Kept for migration
+  REDACTION_DETECTOR_IDS,
+  type RedactionDetectorId,
+  type RedactionPattern,
   type SlashCommand,
   type TabBarPosition,
 } from './settings';
@@ -87,6 +98,8 @@ export {
   type AskUserQuestionItem,
   type AskUserQuestionOption,
   type AsyncSubagentStatus,
+  type EditReviewCallback,
+  type EditReviewDecision,
   type ExitPlanModeCallback,
   type ExitPlanModeDecision,
   type SubagentInfo,
@@ -104,6 +117,7 @@ export {
   isValidMcpServerConfig,
   type McpConfigFile,
   type McpHttpServerConfig,
+  type McpOAuthConfig,
   type McpServerConfig,
   type McpServerType,
   type McpSSEServerConfig,
@@ -116,9 +130,38 @@ export {
   type ClaudianPlugin,
   type InstalledPluginEntry,
   type InstalledPluginsFile,
+  type KnownMarketplaceEntry,
+  type MarketplacePlugin,
+  type PluginContents,
+  type PluginMarketplace,
   type PluginScope,
+  type PluginSourceSpec,
 } from './plugins';
 
+// Scheduled job types
+export {
+  type BatchFileResult,
+  type BatchFileStatus,
+  type BatchRun,
+  createScheduledJob,
+  DEFAULT_JOB_OUTPUT_FOLDER,
+  JOB_HISTORY_LIMIT,
+  type JobRun,
+  type JobRunCause,
+  type JobTrigger,
+  MIN_JOB_INTERVAL_MINUTES,
+  type ScheduledJob,
+} from './jobs';
+
+// Audit types
+export {
+  type AuditApprovalDecision,
+  type AuditEntry,
+  type AuditEntryKind,
+  type AuditHookName,
+  type AuditOutcome,
+} from './audit';
+
 // Agent types
 export {
   AGENT_PERMISSION_MODES,
@@ -0,0 +1,90 @@
+import type { PermissionMode } from './settings';
+import type { ToolCallInfo } from './tools';
+
+/** When a scheduled job runs. */
+export type JobTrigger = 'daily' | 'interval' | 'startup';
+
+/** What started a job run. */
+export type JobRunCause = 'schedule' | 'startup' | 'manual';
+
+export interface JobRun {
+  startedAt: number;
+  finishedAt: number;
+  cause: JobRunCause;
+  status: 'success' | 'error';
+  /** Vault path of the note the result was written to. */
+  notePath?: string;
+  /** SDK session of the run, used to open it as a conversation. */
+  sessionId?: string;
+  error?: string;
+}
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  /** Daily runs missed before this time are not caught up. */
+  createdAt: number;
+  enabled: boolean;
+  /** Prompt text or a slash command with arguments (e.g. "/weekly-review notes/"). */
+  prompt: string;
+  /** Model ID; empty uses the chat model. */
+  model: string;
+  permissionMode: PermissionMode;
+  trigger: JobTrigger;
+  /** Local time (HH:MM) for daily jobs. */
+  time: string;
+  /** Minutes between runs for interval jobs. */
+  intervalMinutes: number;
+  /** Vault folder for the dated result notes. */
+  outputFolder: string;
+  /** Open each finished run as a conversation in a new chat tab. */
+  openInTab: boolean;
+  /** Most recent runs, newest first (capped at JOB_HISTORY_LIMIT). */
+  history: JobRun[];
+}
+
+export const JOB_HISTORY_LIMIT = 20;
+export const MIN_JOB_INTERVAL_MINUTES = 15;
+export const DEFAULT_JOB_OUTPUT_FOLDER = 'Claudian/Jobs';
+
+/** Creates a daily job with default output settings. */
+export function createScheduledJob(id: string, overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  return {
+    id,
+    name: 'New job',
+    createdAt: Date.now(),
+    enabled: true,
+    prompt: '',
+    model: '',
+    permissionMode: 'normal',
+    trigger: 'daily',
+    time: '08:00',
+    intervalMinutes: 60,
+    outputFolder: DEFAULT_JOB_OUTPUT_FOLDER,
+    openInTab: false,
+    history: [],
+    ...overrides,
+  };
+}
+
+export type BatchFileStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+
+/** Outcome of running a batch's slash command against one note. */
+export interface BatchFileResult {
+  path: string;
+  status: BatchFileStatus;
+  error?: string;
+  sessionId?: string;
+  /** Completed Write/Edit tool calls with their diffs. */
+  edits: ToolCallInfo[];
+}
+
+/** A slash command run against several notes, each in its own background query. */
+export interface BatchRun {
+  id: string;
+  commandName: string;
+  permissionMode: PermissionMode;
+  startedAt: number;
+  finishedAt?: number;
+  files: BatchFileResult[];
+}
@@ -35,6 +35,17 @@ export type McpServerConfig =
 /** Server type identifier. */
 export type McpServerType = 'stdio' | 'sse' | 'http';
 
+/**
+ * OAuth sign-in for an HTTP server (authorization code + PKCE).
+ * Tokens live in the per-device credential store, never in the vault.
+ */
+export interface McpOAuthConfig {
+  /** Pre-registered client ID; dynamic client registration is used when omitted. */
+  clientId?: string;
+  /** Space-separated scopes to request. */
+  scope?: string;
+}
+
 /** Extended server configuration with Claudian-specific options. */
 export interface ClaudianMcpServer {
   /** Unique server name (key in mcpServers record). */
@@ -46,6 +57,7 @@ export interface ClaudianMcpServer {
   /** Tool names disabled for this server. */
   disabledTools?: string[];
   description?: string;
+  oauth?: McpOAuthConfig;
 }
 
 /** MCP configuration file format (Claude Code compatible). */
@@ -64,6 +76,7 @@ export interface ClaudianMcpConfigFile extends McpConfigFile {
         contextSaving?: boolean;
         disabledTools?: string[];
         description?: string;
+        oauth?: McpOAuthConfig;
       }
     >;
   };
@@ -80,3 +80,39 @@ export function getContextWindowSize(
   }
   return CONTEXT_WINDOW_STANDARD;
 }
+
+/** Price per million tokens in USD. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * Default price table, keyed by a substring of the model ID.
+ * The longest matching key wins, so version-specific entries override family entries.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+};
+
+/** Finds the price for a model ID, or null if no table key matches. */
+export function getModelPricing(
+  model: string,
+  pricing: Record<string, ModelPricing>
+): ModelPricing | null {
+  const normalized = model.toLowerCase();
+  let bestKey: string | null = null;
+  for (const key of Object.keys(pricing)) {
+    if (!key || !normalized.includes(key.toLowerCase())) continue;
+    if (!bestKey || key.length > bestKey.length) {
+      bestKey = key;
+    }
+  }
+  return bestKey ? pricing[bestKey] : null;
+}
@@ -23,3 +23,51 @@ export interface InstalledPluginsFile {
   version: number;
   plugins: Record<string, InstalledPluginEntry[]>;
 }
+
+/**
+ * Where a marketplace or a marketplace plugin comes from (Claude Code format).
+ * Marketplace plugins may also use a path string relative to the marketplace root.
+ */
+export type PluginSourceSpec =
+  | { source: 'directory'; path: string }
+  | { source: 'github'; repo: string; ref?: string }
+  | { source: 'git' | 'url'; url: string; ref?: string };
+
+/** Entry in ~/.claude/plugins/known_marketplaces.json or settings extraKnownMarketplaces. */
+export interface KnownMarketplaceEntry {
+  source: PluginSourceSpec;
+  installLocation?: string;
+  lastUpdated?: string;
+}
+
+/** Plugin listed in a marketplace's .claude-plugin/marketplace.json. */
+export interface MarketplacePlugin {
+  name: string;
+  /** e.g., "plugin-name@marketplace-name" */
+  id: string;
+  description?: string;
+  version?: string;
+  author?: string;
+  source: string | PluginSourceSpec;
+  /** Plugin directory inside the marketplace checkout; null for remote sources. */
+  localPath: string | null;
+}
+
+export interface PluginMarketplace {
+  name: string;
+  source: PluginSourceSpec;
+  /** Local checkout or directory; null when a git marketplace has not been cloned yet. */
+  root: string | null;
+  plugins: MarketplacePlugin[];
+  /** Why the marketplace could not be read. */
+  error?: string;
+}
+
+/** What a plugin adds, listed before install. */
+export interface PluginContents {
+  commands: string[];
+  agents: string[];
+  skills: string[];
+  mcpServers: string[];
+  hasHooks: boolean;
+}
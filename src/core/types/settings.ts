@@ -3,7 +3,9 @@
  */
 
 import type { Locale } from '../../i18n/types';
-import type { ClaudeModel, ThinkingBudget } from './models';
+import type { ScheduledJob } from './jobs';
+import type { ClaudeModel, ModelPricing, ThinkingBudget } from './models';
+import { DEFAULT_MODEL_PRICING } from './models';
 
 const UNIX_BLOCKED_COMMANDS = [
   'rm -rf',
@@ -53,6 +55,39 @@ export interface PlatformBlockedCommands {
   windows: string[];
 }
 
+/**
+ * Agent access to a vault folder:
+ * - readonly: reads allowed, writes denied
+ * - ask: every read or write needs approval
+ * - hidden: no access, and left out of the @-mention list
+ */
+export type FolderAccess = 'readonly' | 'ask' | 'hidden';
+
+export interface FolderPolicy {
+  /** Vault-relative folder path, without leading or trailing slashes. */
+  folder: string;
+  access: FolderAccess;
+}
+
+/** Built-in detectors for secrets and personal data masked before content is sent. */
+export type RedactionDetectorId = 'api_keys' | 'private_keys' | 'emails' | 'phone_numbers' | 'credit_cards';
+
+export const REDACTION_DETECTOR_IDS: RedactionDetectorId[] = [
+  'api_keys',
+  'private_keys',
+  'emails',
+  'phone_numbers',
+  'credit_cards',
+];
+
+/** User-defined redaction pattern. */
+export interface RedactionPattern {
+  /** Shown in redaction notices and used for the placeholder label. */
+  name: string;
+  /** JavaScript regex source; when it has a capture group, only the first group is masked. */
+  pattern: string;
+}
+
 export function getDefaultBlockedCommands(): PlatformBlockedCommands {
   return {
     unix: [...UNIX_BLOCKED_COMMANDS],
@@ -199,7 +234,7 @@ export interface EnvSnippet {
 }
 
 /** Source of a slash command. */
-export type SlashCommandSource = 'builtin' | 'user' | 'plugin' | 'sdk';
+export type SlashCommandSource = 'builtin' | 'user' | 'plugin' | 'sdk' | 'mcp';
 
 /** Slash command configuration with Claude Code compatibility. */
 export interface SlashCommand {
@@ -210,7 +245,7 @@ export interface SlashCommand {
   allowedTools?: string[];     // Restrict tools when command is used
   model?: ClaudeModel;         // Override model for this command
   content: string;             // Prompt template with placeholders
-  source?: SlashCommandSource; // Origin of the command (builtin, user, plugin, sdk)
+  source?: SlashCommandSource; // Origin of the command (builtin, user, plugin, sdk, mcp)
   // Skill fields (from .claude/skills/ definitions)
   disableModelInvocation?: boolean;  // Disable model invocation for this skill
   userInvocable?: boolean;           // Whether user can invoke this skill directly
@@ -241,6 +276,12 @@ export interface ClaudianSettings {
   enableBlocklist: boolean;
   blockedCommands: PlatformBlockedCommands;
   permissionMode: PermissionMode;
+  reviewEdits: boolean;  // Normal mode: review Write/Edit/NotebookEdit diffs before they run
+  enableAuditLog: boolean;  // Record tool calls and approval decisions to .claude/audit/
+  folderPolicies: FolderPolicy[];  // Per-folder read-only / ask / hidden policies inside the vault
+  enableRedaction: boolean;  // Mask secrets and personal data before they are sent
+  redactionDetectors: RedactionDetectorId[];  // Enabled built-in detectors
+  redactionPatterns: RedactionPattern[];  // Custom regex detectors
 
   // Model & thinking (Claudian uses enum, CC uses full model ID string)
   model: ClaudeModel;
@@ -250,6 +291,8 @@ export interface ClaudianSettings {
   show1MModel: boolean;  // Show Sonnet (1M) in model selector (requires Max subscription)
   enableChrome: boolean;  // Enable Chrome extension support (passes --chrome flag)
   enableBangBash: boolean;  // Enable ! bash mode for direct command execution
+  enableVaultSearch: boolean;  // Expose the built-in search_notes MCP tool
+  enableObsidianTools: boolean;  // Expose the built-in Obsidian metadata/workspace MCP tools
 
   // Content settings
   excludedTags: string[];
@@ -257,6 +300,8 @@ export interface ClaudianSettings {
   systemPrompt: string;
   allowedExportPaths: string[];
   persistentExternalContextPaths: string[];  // Paths that persist across all sessions
+  enableGhostText: boolean;  // Suggest continuations as dimmed text while typing (Tab accepts)
+  ghostTextFolders: string[];  // Folders where ghost text is on (empty = all notes)
 
   // Environment (string format, CC uses object format in settings.json)
   environmentVariables: string;
@@ -268,6 +313,8 @@ export interface ClaudianSettings {
    * Empty object means all models use default context limits (200k or 1M for Sonnet).
    */
   customContextLimits: Record<string, number>;
+  /** Price table for cost estimates, keyed by a substring of the model ID (see getModelPricing). */
+  modelPricing: Record<string, ModelPricing>;
 
   // UI settings
   keyboardNavigation: KeyboardNavigationSettings;
@@ -296,6 +343,9 @@ export interface ClaudianSettings {
 
   // Slash commands
   hiddenSlashCommands: string[];  // Command names to hide from dropdown (user preference)
+
+  // Scheduled jobs (background agent runs with their run history)
+  scheduledJobs: ScheduledJob[];
 }
 
 /** Default Claudian-specific settings. */
@@ -307,6 +357,12 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   enableBlocklist: true,
   blockedCommands: getDefaultBlockedCommands(),
   permissionMode: 'yolo',
+  reviewEdits: false,
+  enableAuditLog: false,
+  folderPolicies: [],
+  enableRedaction: false,
+  redactionDetectors: [...REDACTION_DETECTOR_IDS],
+  redactionPatterns: [],
 
   // Model & thinking
   model: 'haiku',
@@ -316,6 +372,8 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   show1MModel: false,  // Hidden by default
   enableChrome: false,  // Disabled by default
   enableBangBash: false,  // Disabled by default
+  enableVaultSearch: true,  // Enabled by default
+  enableObsidianTools: true,  // Enabled by default
 
   // Content settings
   excludedTags: [],
@@ -323,11 +381,14 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   systemPrompt: '',
   allowedExportPaths: ['~/Desktop', '~/Downloads'],
   persistentExternalContextPaths: [],
+  enableGhostText: false,  // Opt-in: each pause starts a model request
+  ghostTextFolders: [],
 
   // Environment
   environmentVariables: '',
   envSnippets: [],
   customContextLimits: {},
+  modelPricing: DEFAULT_MODEL_PRICING,
 
   // UI settings
   keyboardNavigation: {
@@ -359,6 +420,9 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
 
   // Slash commands
   hiddenSlashCommands: [],  // No commands hidden by default
+
+  // Scheduled jobs
+  scheduledJobs: [],
 };
 
 /** Default CC-compatible settings. */
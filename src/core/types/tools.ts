@@ -50,6 +50,17 @@ export type ExitPlanModeCallback = (
   signal?: AbortSignal,
 ) => Promise<ExitPlanModeDecision | null>;
 
+export type EditReviewDecision =
+  | { type: 'accept'; updatedInput: Record<string, unknown> }
+  | { type: 'reject'; feedback?: string };
+
+/** Reviews a Write/Edit/NotebookEdit call before it runs. Resolves null if cancelled. */
+export type EditReviewCallback = (
+  toolName: string,
+  input: Record<string, unknown>,
+  signal?: AbortSignal,
+) => Promise<EditReviewDecision | null>;
+
 /** Subagent execution mode: sync (nested tools) or async (background). */
 export type SubagentMode = 'sync' | 'async';
 
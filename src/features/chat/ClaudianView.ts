@@ -428,12 +428,13 @@ export class ClaudianView extends ItemView {
 
     if (conversationController) {
       conversationController.renderHistoryDropdown(this.historyDropdown, {
-        onSelectConversation: async (conversationId) => {
+        onSelectConversation: async (conversationId, messageId) => {
           // Check if conversation is already open in this view's tabs
           const existingTab = this.findTabWithConversation(conversationId);
           if (existingTab) {
             // Switch to existing tab instead of opening in current tab
             await this.tabManager?.switchToTab(existingTab.id);
+            this.revealSearchHit(existingTab, messageId);
             this.historyDropdown?.removeClass('visible');
             return;
           }
@@ -443,19 +444,32 @@ export class ClaudianView extends ItemView {
           if (crossViewResult && crossViewResult.view !== this) {
             // Focus the other view's leaf and switch to the tab
             this.plugin.app.workspace.revealLeaf(crossViewResult.view.leaf);
-            await crossViewResult.view.getTabManager()?.switchToTab(crossViewResult.tabId);
+            const otherTabManager = crossViewResult.view.getTabManager();
+            await otherTabManager?.switchToTab(crossViewResult.tabId);
+            if (messageId) {
+              this.revealSearchHit(otherTabManager?.getTab(crossViewResult.tabId) ?? null, messageId);
+            }
             this.historyDropdown?.removeClass('visible');
             return;
           }
 
           // Open in current tab
           await this.tabManager?.openConversation(conversationId);
+          if (messageId) {
+            this.revealSearchHit(this.findTabWithConversation(conversationId), messageId);
+          }
           this.historyDropdown?.removeClass('visible');
         },
       });
     }
   }
 
+  /** Scrolls a tab to the message matched by a history search, if any. */
+  private revealSearchHit(tab: TabData | null, messageId?: string): void {
+    if (!tab || !messageId) return;
+    tab.controllers.conversationController?.revealMessage(messageId);
+  }
+
   private findTabWithConversation(conversationId: string): TabData | null {
     const tabs = this.tabManager?.getAllTabs() ?? [];
     return tabs.find(tab => tab.conversationId === conversationId) ?? null;
@@ -1,6 +1,7 @@
 import { Notice, setIcon } from 'obsidian';
 
 import type { ClaudianService } from '../../../core/agent';
+import type { ConversationSearchResult } from '../../../core/storage';
 import type { Conversation } from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
@@ -43,9 +44,19 @@ type SaveOptions = {
   resumeSessionAt?: string;
 };
 
+type HistoryRenderOptions = {
+  onSelectConversation: (id: string, messageId?: string) => Promise<void>;
+  onRerender: () => void;
+};
+
+/** Delay before running a history search after the last keystroke. */
+const HISTORY_SEARCH_DEBOUNCE_MS = 200;
+
 export class ConversationController {
   private deps: ConversationControllerDeps;
   private callbacks: ConversationCallbacks;
+  private historySearchQuery = '';
+  private historySearchTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(deps: ConversationControllerDeps, callbacks: ConversationCallbacks = {}) {
     this.deps = deps;
@@ -491,6 +502,11 @@ export class ConversationController {
       resolvedSessionId = sessionId ?? conversation?.sessionId ?? null;
     }
 
+    const newTokenUsage = state.takeTokenUsage();
+    const tokenUsage = newTokenUsage.length > 0
+      ? [...(conversation?.tokenUsage ?? []), ...newTokenUsage]
+      : conversation?.tokenUsage;
+
     const updates: Partial<Conversation> = {
       messages: isNative ? state.messages : state.getPersistedMessages(),
       sessionId: resolvedSessionId,
@@ -502,6 +518,7 @@ export class ConversationController {
       currentNote: currentNote,
       externalContextPaths: externalContextPaths.length > 0 ? externalContextPaths : undefined,
       usage: state.usage ?? undefined,
+      tokenUsage,
       enabledMcpServers: enabledMcpServers.length > 0 ? enabledMcpServers : undefined,
     };
 
@@ -573,30 +590,172 @@ export class ConversationController {
     if (!dropdown) return;
 
     this.renderHistoryItems(dropdown, {
-      onSelectConversation: (id) => this.switchTo(id),
+      onSelectConversation: async (id, messageId) => {
+        await this.switchTo(id);
+        if (messageId) {
+          this.revealMessage(messageId);
+          dropdown.removeClass('visible');
+        }
+      },
       onRerender: () => this.updateHistoryDropdown(),
     });
   }
 
+  /**
+   * Scrolls to a message in the current conversation (e.g., a search hit).
+   * Returns false if the message is not rendered.
+   */
+  revealMessage(messageId: string): boolean {
+    return this.deps.renderer.scrollToMessage(messageId);
+  }
+
   /**
    * Renders history dropdown items to a container.
    * Shared implementation for updateHistoryDropdown() and renderHistoryDropdown().
    */
-  private renderHistoryItems(
-    container: HTMLElement,
-    options: {
-      onSelectConversation: (id: string) => Promise<void>;
-      onRerender: () => void;
-    }
-  ): void {
-    const { plugin, state } = this.deps;
-
+  private renderHistoryItems(container: HTMLElement, options: HistoryRenderOptions): void {
     container.empty();
 
     const dropdownHeader = container.createDiv({ cls: 'claudian-history-header' });
     dropdownHeader.createSpan({ text: 'Conversations' });
 
     const list = container.createDiv({ cls: 'claudian-history-list' });
+    this.renderHistorySearchInput(dropdownHeader, list, options);
+
+    if (this.historySearchQuery.trim()) {
+      void this.renderSearchResults(list, this.historySearchQuery, options);
+    } else {
+      this.renderConversationList(list, options);
+    }
+  }
+
+  /** Renders the search input; typing re-renders only the list so focus is kept. */
+  private renderHistorySearchInput(
+    header: HTMLElement,
+    list: HTMLElement,
+    options: HistoryRenderOptions
+  ): void {
+    const input = header.createEl('input', {
+      cls: 'claudian-history-search',
+      attr: {
+        type: 'search',
+        placeholder: 'Search messages ("phrase", after:2025-01-31)',
+        'aria-label': 'Search conversations',
+      },
+    });
+    input.value = this.historySearchQuery;
+
+    // Keep the dropdown open (document click closes it)
+    input.addEventListener('click', (e) => e.stopPropagation());
+
+    const applyQuery = () => {
+      if (this.historySearchTimer !== null) {
+        clearTimeout(this.historySearchTimer);
+        this.historySearchTimer = null;
+      }
+      list.empty();
+      if (this.historySearchQuery.trim()) {
+        void this.renderSearchResults(list, this.historySearchQuery, options);
+      } else {
+        this.renderConversationList(list, options);
+      }
+    };
+
+    input.addEventListener('input', () => {
+      this.historySearchQuery = input.value;
+      if (this.historySearchTimer !== null) {
+        clearTimeout(this.historySearchTimer);
+      }
+      this.historySearchTimer = setTimeout(applyQuery, HISTORY_SEARCH_DEBOUNCE_MS);
+    });
+
+    input.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.isComposing && input.value) {
+        e.stopPropagation();
+        input.value = '';
+        this.historySearchQuery = '';
+        applyQuery();
+      }
+    });
+  }
+
+  /** Renders full-text search results. Ignores results for a query that was since replaced. */
+  private async renderSearchResults(
+    list: HTMLElement,
+    query: string,
+    options: HistoryRenderOptions
+  ): Promise<void> {
+    const { plugin, state } = this.deps;
+
+    let results: ConversationSearchResult[];
+    try {
+      results = await plugin.searchConversations(query);
+    } catch {
+      results = [];
+    }
+    if (query !== this.historySearchQuery) return;
+
+    list.empty();
+    if (results.length === 0) {
+      list.createDiv({ cls: 'claudian-history-empty', text: 'No matching messages' });
+      return;
+    }
+
+    for (const result of results) {
+      const isCurrent = result.conversationId === state.currentConversationId;
+      const item = list.createDiv({
+        cls: `claudian-history-item claudian-history-search-result${isCurrent ? ' active' : ''}`,
+      });
+
+      const iconEl = item.createDiv({ cls: 'claudian-history-item-icon' });
+      setIcon(iconEl, 'search');
+
+      const content = item.createDiv({ cls: 'claudian-history-item-content' });
+      const titleEl = content.createDiv({ cls: 'claudian-history-item-title', text: result.title });
+      titleEl.setAttribute('title', result.title);
+      this.renderHighlightedSnippet(
+        content.createDiv({ cls: 'claudian-history-item-snippet' }),
+        result.snippet,
+        result.highlights
+      );
+      content.createDiv({
+        cls: 'claudian-history-item-date',
+        text: this.formatDate(result.timestamp),
+      });
+
+      // Search hits are selectable even in the current conversation (jumps to the message)
+      content.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        try {
+          await options.onSelectConversation(result.conversationId, result.messageId);
+        } catch {
+          // Silently ignore selection errors
+        }
+      });
+    }
+  }
+
+  private renderHighlightedSnippet(
+    el: HTMLElement,
+    snippet: string,
+    highlights: Array<[number, number]>
+  ): void {
+    let cursor = 0;
+    for (const [start, end] of highlights) {
+      if (start > cursor) {
+        el.createSpan({ text: snippet.slice(cursor, start) });
+      }
+      el.createEl('mark', { text: snippet.slice(start, end) });
+      cursor = end;
+    }
+    if (cursor < snippet.length) {
+      el.createSpan({ text: snippet.slice(cursor) });
+    }
+  }
+
+  /** Renders all conversations sorted by recency. */
+  private renderConversationList(list: HTMLElement, options: HistoryRenderOptions): void {
+    const { plugin, state } = this.deps;
     const allConversations = plugin.getConversationList();
 
     if (allConversations.length === 0) {
@@ -658,6 +817,18 @@ export class ConversationController {
         });
       }
 
+      const exportBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
+      setIcon(exportBtn, 'file-output');
+      exportBtn.setAttribute('aria-label', 'Export to note');
+      exportBtn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        try {
+          await plugin.exportConversationToNote(conv.id);
+        } catch {
+          // Silently ignore export errors (plugin shows a notice)
+        }
+      });
+
       const renameBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
       setIcon(renameBtn, 'pencil');
       renameBtn.setAttribute('aria-label', 'Rename');
@@ -899,7 +1070,7 @@ export class ConversationController {
    */
   renderHistoryDropdown(
     container: HTMLElement,
-    options: { onSelectConversation: (id: string) => Promise<void> }
+    options: { onSelectConversation: (id: string, messageId?: string) => Promise<void> }
   ): void {
     this.renderHistoryItems(container, {
       onSelectConversation: options.onSelectConversation,
@@ -1,18 +1,35 @@
+import * as fs from 'fs/promises';
 import { Notice } from 'obsidian';
+import * as path from 'path';
 
 import type { ApprovalCallbackOptions, ClaudianService } from '../../../core/agent';
 import { detectBuiltInCommand } from '../../../core/commands';
+import { getMcpPrompt, readMcpResource } from '../../../core/mcp';
+import { getActionDescription } from '../../../core/security';
 import { TOOL_EXIT_PLAN_MODE } from '../../../core/tools/toolNames';
-import type { ApprovalDecision, ChatMessage, ExitPlanModeDecision } from '../../../core/types';
+import type { ApprovalDecision, ChatMessage, EditReviewDecision, ExitPlanModeDecision } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
 import { ResumeSessionDropdown } from '../../../shared/components/ResumeSessionDropdown';
 import { InstructionModal } from '../../../shared/modals/InstructionConfirmModal';
-import { appendCurrentNote } from '../../../utils/context';
+import { appendCurrentNote, appendMcpResource } from '../../../utils/context';
 import { formatDurationMmSs } from '../../../utils/date';
 import { appendEditorContext, type EditorSelectionContext } from '../../../utils/editor';
+import { buildEditProposal } from '../../../utils/editReview';
+import {
+  buildLinkFixPrompt,
+  didTouchVaultFiles,
+  findNewlyBrokenLinks,
+  type LinkCounts,
+  snapshotUnresolvedLinks,
+  waitForMetadataResolved,
+} from '../../../utils/linkIntegrity';
 import { appendMarkdownSnippet } from '../../../utils/markdown';
+import { mapMcpPromptArguments } from '../../../utils/mcp';
+import { getVaultPath, normalizePathForVault } from '../../../utils/path';
 import { COMPLETION_FLAVOR_WORDS } from '../constants';
+import { renderBrokenLinks } from '../rendering/BrokenLinksRenderer';
 import { type InlineAskQuestionConfig, InlineAskUserQuestion } from '../rendering/InlineAskUserQuestion';
+import { InlineEditReview } from '../rendering/InlineEditReview';
 import { InlineExitPlanMode } from '../rendering/InlineExitPlanMode';
 import type { MessageRenderer } from '../rendering/MessageRenderer';
 import { setToolIcon, updateToolCallResult } from '../rendering/ToolCallRenderer';
@@ -26,6 +43,9 @@ import type { ConversationController } from './ConversationController';
 import type { SelectionController } from './SelectionController';
 import type { StreamController } from './StreamController';
 
+/** How long to wait for Obsidian to re-resolve links after a turn that touched files. */
+const LINK_CHECK_TIMEOUT_MS = 2000;
+
 const APPROVAL_OPTION_MAP: Record<string, ApprovalDecision> = {
   'Deny': 'deny',
   'Allow once': 'allow',
@@ -69,6 +89,7 @@ export class InputController {
   private pendingApprovalInline: InlineAskUserQuestion | null = null;
   private pendingAskInline: InlineAskUserQuestion | null = null;
   private pendingExitPlanModeInline: InlineExitPlanMode | null = null;
+  private pendingEditReviewInline: InlineEditReview | null = null;
   private activeResumeDropdown: ResumeSessionDropdown | null = null;
 
   constructor(deps: InputControllerDeps) {
@@ -200,7 +221,8 @@ export class InputController {
     const isCompact = /^\/compact(\s|$)/i.test(content);
 
     // User content first, context XML appended after (enables slash command detection)
-    let promptToSend = content;
+    // MCP prompts are expanded here so they also work for servers the SDK has not loaded
+    let promptToSend = await this.expandMcpPrompt(content);
     let currentNoteForMessage: string | undefined;
 
     // SDK built-in commands (e.g., /compact) must be sent bare — context XML breaks detection
@@ -219,11 +241,16 @@ export class InputController {
       // Transform context file mentions (e.g., @folder/file.ts) to absolute paths
       if (fileContextManager) {
         promptToSend = fileContextManager.transformContextMentions(promptToSend);
+        promptToSend = await this.appendMcpResources(promptToSend, fileContextManager);
       }
     }
 
     fileContextManager?.markCurrentNoteSent();
 
+    // Secrets and personal data are masked before sending; the bubble still shows what was typed
+    const redaction = plugin.redactor.redact(promptToSend);
+    promptToSend = redaction.text;
+
     const userMsg: ChatMessage = {
       id: this.deps.generateId(),
       role: 'user',
@@ -232,6 +259,7 @@ export class InputController {
       timestamp: Date.now(),
       currentNote: currentNoteForMessage,
       images: imagesForMessage,
+      redactions: redaction.redactions.length > 0 ? redaction.redactions : undefined,
     };
     state.addMessage(userMsg);
     renderer.addMessage(userMsg);
@@ -323,6 +351,9 @@ export class InputController {
       }
     }
 
+    // Baseline for the link integrity check after the turn
+    const unresolvedLinksBefore = snapshotUnresolvedLinks(plugin.app.metadataCache);
+
     try {
       // Pass history WITHOUT current turn (userMsg + assistantMsg we just added)
       // This prevents duplication when rebuilding context for new sessions
@@ -423,6 +454,10 @@ export class InputController {
         const userMsgIndex = state.messages.indexOf(userMsg);
         renderer.refreshActionButtons(userMsg, state.messages, userMsgIndex >= 0 ? userMsgIndex : undefined);
 
+        if (contentEl && didTouchVaultFiles(assistantMsg.toolCalls ?? [])) {
+          void this.checkLinkIntegrity(unresolvedLinksBefore, contentEl);
+        }
+
         // approve-new-session: create fresh conversation and send plan content
         // Must be inside the invalidation guard — if the tab was closed or
         // conversation switched, we must not create a new session on stale state.
@@ -442,6 +477,67 @@ export class InputController {
     }
   }
 
+  /** Replaces a `/mcp__server__prompt args` message with the prompt the server returns. */
+  private async expandMcpPrompt(content: string): Promise<string> {
+    const { mcpManager } = this.deps.plugin;
+    const match = mcpManager.findPromptCommand(content);
+    if (!match) return content;
+
+    try {
+      const args = mapMcpPromptArguments(match.prompt, match.args);
+      const server = await mcpManager.resolveServer(match.server);
+      const expanded = await getMcpPrompt(server, match.prompt.name, args);
+      return expanded || content;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`MCP prompt failed: ${message}`);
+      return content;
+    }
+  }
+
+  /** Reads attached MCP resources and appends their contents, then clears the attachments. */
+  private async appendMcpResources(prompt: string, fileContextManager: FileContextManager): Promise<string> {
+    const resources = fileContextManager.getMcpResources();
+    if (resources.length === 0) return prompt;
+
+    const serversByName = new Map(this.deps.plugin.mcpManager.getServers().map(s => [s.name, s]));
+    let result = prompt;
+    for (const resource of resources) {
+      const server = serversByName.get(resource.server);
+      if (!server) continue;
+      try {
+        const text = await readMcpResource(await this.deps.plugin.mcpManager.resolveServer(server), resource.uri);
+        result = appendMcpResource(result, resource.server, resource.uri, text);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        new Notice(`Could not read ${resource.name}: ${message}`);
+      }
+    }
+
+    fileContextManager.clearMcpResources();
+    return result;
+  }
+
+  /** Lists wikilinks that stopped resolving during the turn, with a fix-it follow-up. */
+  private async checkLinkIntegrity(before: LinkCounts, contentEl: HTMLElement): Promise<void> {
+    const { app } = this.deps.plugin;
+    await waitForMetadataResolved(app.metadataCache, LINK_CHECK_TIMEOUT_MS);
+    // Conversation switched or tab closed meanwhile
+    if (!contentEl.isConnected) return;
+
+    const broken = findNewlyBrokenLinks(before, snapshotUnresolvedLinks(app.metadataCache));
+    if (broken.length === 0) return;
+
+    renderBrokenLinks(contentEl, broken, {
+      onOpenNote: (path) => {
+        void app.workspace.openLinkText(path, '', 'tab');
+      },
+      onAskFix: () => {
+        void this.sendMessage({ content: buildLinkFixPrompt(broken) });
+      },
+    });
+  }
+
   // ============================================
   // Queue Management
   // ============================================
@@ -561,7 +657,7 @@ export class InputController {
 
     titleService.generateTitle(
       convId,
-      userContent,
+      plugin.redactor.redact(userContent).text,
       async (conversationId, result) => {
         // Check if conversation still exists and user hasn't manually renamed
         const currentConv = await plugin.getConversationById(conversationId);
@@ -736,8 +832,9 @@ export class InputController {
 
     headerEl.createDiv({ text: description, cls: 'claudian-ask-approval-desc' });
 
-    // Always include "Always allow" — SDK callback has no toggle
-    const questionOptions = Object.keys(APPROVAL_OPTION_MAP);
+    // "Always allow" unless the tool's policy is to always ask — SDK callback has no toggle
+    const questionOptions = Object.keys(APPROVAL_OPTION_MAP)
+      .filter(option => approvalOptions?.allowAlways !== false || APPROVAL_OPTION_MAP[option] !== 'allow-always');
     const input = { questions: [{ question: 'Allow this action?', options: questionOptions }] };
 
     const result = await this.showInlineQuestion(
@@ -857,6 +954,64 @@ export class InputController {
     });
   }
 
+  /**
+   * Shows a diff of a pending Write/Edit/NotebookEdit for review.
+   * Falls back to the regular approval prompt for calls without reviewable text.
+   */
+  async handleEditReview(
+    toolName: string,
+    input: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<EditReviewDecision | null> {
+    const vaultPath = getVaultPath(this.deps.plugin.app);
+    const proposal = await buildEditProposal(toolName, input, (filePath) =>
+      fs.readFile(path.isAbsolute(filePath) || !vaultPath ? filePath : path.join(vaultPath, filePath), 'utf-8')
+    );
+
+    if (!proposal) {
+      const decision = await this.handleApprovalRequest(toolName, input, getActionDescription(toolName, input));
+      if (decision === 'cancel') return null;
+      if (decision === 'deny') return { type: 'reject' };
+      return { type: 'accept', updatedInput: input };
+    }
+
+    const { streamController } = this.deps;
+    const inputContainerEl = this.deps.getInputContainerEl();
+    const parentEl = inputContainerEl.parentElement;
+    if (!parentEl) {
+      throw new Error('Input container is detached from DOM');
+    }
+
+    streamController.hideThinkingIndicator();
+    inputContainerEl.style.display = 'none';
+
+    const displayPath = normalizePathForVault(proposal.filePath, vaultPath) ?? proposal.filePath;
+
+    return new Promise<EditReviewDecision | null>((resolve, reject) => {
+      const inline = new InlineEditReview(
+        parentEl,
+        toolName,
+        input,
+        proposal,
+        (decision: EditReviewDecision | null) => {
+          this.pendingEditReviewInline = null;
+          inputContainerEl.style.display = '';
+          resolve(decision);
+        },
+        signal,
+        displayPath,
+      );
+      this.pendingEditReviewInline = inline;
+      try {
+        inline.render();
+      } catch (err) {
+        this.pendingEditReviewInline = null;
+        inputContainerEl.style.display = '';
+        reject(err);
+      }
+    });
+  }
+
   dismissPendingApproval(): void {
     if (this.pendingApprovalInline) {
       this.pendingApprovalInline.destroy();
@@ -870,6 +1025,10 @@ export class InputController {
       this.pendingExitPlanModeInline.destroy();
       this.pendingExitPlanModeInline = null;
     }
+    if (this.pendingEditReviewInline) {
+      this.pendingEditReviewInline.destroy();
+      this.pendingEditReviewInline = null;
+    }
   }
 
   // ============================================
@@ -898,7 +1057,7 @@ export class InputController {
         break;
       }
       case 'resume':
-        this.showResumeDropdown();
+        await this.showResumeDropdown();
         break;
       case 'fork': {
         if (!this.deps.onForkAll) {
@@ -934,13 +1093,18 @@ export class InputController {
     }
   }
 
-  private showResumeDropdown(): void {
+  private async showResumeDropdown(): Promise<void> {
     const { plugin, state, conversationController } = this.deps;
 
     // Clean up any existing dropdown
     this.destroyResumeDropdown();
 
-    const conversations = plugin.getConversationList();
+    // Sessions started outside Claudian (e.g. CLI) are listed alongside conversations
+    const externalSessions = await plugin.listExternalSessions();
+    const externalIds = new Set(externalSessions.map(s => s.id));
+    const conversations = externalSessions.length > 0
+      ? [...plugin.getConversationList(), ...externalSessions]
+      : plugin.getConversationList();
     if (conversations.length === 0) {
       new Notice('No conversations to resume');
       return;
@@ -949,6 +1113,14 @@ export class InputController {
     const openConversation = this.deps.openConversation
       ?? ((id: string) => conversationController.switchTo(id));
 
+    const importAndOpen = async (id: string): Promise<void> => {
+      const imported = await plugin.importExternalSession(id);
+      if (!imported) {
+        throw new Error('session file could not be read');
+      }
+      await openConversation(id);
+    };
+
     this.activeResumeDropdown = new ResumeSessionDropdown(
       this.deps.getInputContainerEl(),
       this.deps.getInputEl(),
@@ -957,7 +1129,8 @@ export class InputController {
       {
         onSelect: (id) => {
           this.destroyResumeDropdown();
-          openConversation(id).catch((err: unknown) => {
+          const open = externalIds.has(id) ? importAndOpen(id) : openConversation(id);
+          open.catch((err: unknown) => {
             const msg = err instanceof Error ? err.message : String(err);
             new Notice(`Failed to open conversation: ${msg}`);
           });
@@ -161,6 +161,10 @@ export class StreamController {
         break;
       }
 
+      case 'token_usage':
+        state.recordTokenUsage(chunk.messageId, chunk.model, chunk.usage);
+        break;
+
     }
 
     this.scrollToBottom();
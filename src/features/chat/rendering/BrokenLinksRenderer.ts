@@ -0,0 +1,45 @@
+import { setIcon } from 'obsidian';
+
+import type { BrokenLink } from '../../../utils/linkIntegrity';
+
+export interface BrokenLinksCallbacks {
+  onOpenNote: (path: string) => void;
+  onAskFix: () => void;
+}
+
+/** Renders the list of links a turn broke, with a button to ask for a fix. */
+export function renderBrokenLinks(
+  parentEl: HTMLElement,
+  links: BrokenLink[],
+  callbacks: BrokenLinksCallbacks
+): HTMLElement {
+  const rootEl = parentEl.createDiv({ cls: 'claudian-broken-links' });
+
+  const headerEl = rootEl.createDiv({ cls: 'claudian-broken-links-header' });
+  setIcon(headerEl.createSpan({ cls: 'claudian-broken-links-icon' }), 'unlink');
+  const linkLabel = links.length === 1 ? 'link' : 'links';
+  headerEl.createSpan({ text: `${links.length} broken ${linkLabel} after this turn` });
+
+  const listEl = rootEl.createEl('ul', { cls: 'claudian-broken-links-list' });
+  for (const { sourcePath, link } of links) {
+    const itemEl = listEl.createEl('li');
+    itemEl.createSpan({ text: `[[${link}]]`, cls: 'claudian-broken-links-target' });
+    itemEl.createSpan({ text: ' in ' });
+    const sourceEl = itemEl.createEl('a', { text: sourcePath, cls: 'claudian-broken-links-source' });
+    sourceEl.addEventListener('click', (e) => {
+      e.preventDefault();
+      callbacks.onOpenNote(sourcePath);
+    });
+  }
+
+  const fixBtn = rootEl.createEl('button', {
+    text: 'Ask Claude to fix',
+    cls: 'claudian-broken-links-fix mod-cta',
+  });
+  fixBtn.addEventListener('click', () => {
+    fixBtn.disabled = true;
+    callbacks.onAskFix();
+  });
+
+  return rootEl;
+}
@@ -58,6 +58,21 @@ export function splitIntoHunks(diffLines: DiffLine[], contextLines = 3): DiffHun
   return hunks;
 }
 
+export function renderDiffLine(hunkEl: HTMLElement, line: DiffLine): HTMLElement {
+  const lineEl = hunkEl.createDiv({ cls: `claudian-diff-line claudian-diff-${line.type}` });
+
+  // Line prefix
+  const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+  const prefixEl = lineEl.createSpan({ cls: 'claudian-diff-prefix' });
+  prefixEl.setText(prefix);
+
+  // Line content
+  const contentEl = lineEl.createSpan({ cls: 'claudian-diff-text' });
+  contentEl.setText(line.text || ' '); // Show space for empty lines
+
+  return lineEl;
+}
+
 /** Max lines to render for all-inserts diffs (new file creation). */
 const NEW_FILE_DISPLAY_CAP = 20;
 
@@ -73,11 +88,7 @@ export function renderDiffContent(
   if (allInserts && diffLines.length > NEW_FILE_DISPLAY_CAP) {
     const hunkEl = containerEl.createDiv({ cls: 'claudian-diff-hunk' });
     for (const line of diffLines.slice(0, NEW_FILE_DISPLAY_CAP)) {
-      const lineEl = hunkEl.createDiv({ cls: 'claudian-diff-line claudian-diff-insert' });
-      const prefixEl = lineEl.createSpan({ cls: 'claudian-diff-prefix' });
-      prefixEl.setText('+');
-      const contentEl = lineEl.createSpan({ cls: 'claudian-diff-text' });
-      contentEl.setText(line.text || ' ');
+      renderDiffLine(hunkEl, line);
     }
     const remaining = diffLines.length - NEW_FILE_DISPLAY_CAP;
     const separator = containerEl.createDiv({ cls: 'claudian-diff-separator' });
@@ -105,16 +116,7 @@ export function renderDiffContent(
     const hunkEl = containerEl.createDiv({ cls: 'claudian-diff-hunk' });
 
     for (const line of hunk.lines) {
-      const lineEl = hunkEl.createDiv({ cls: `claudian-diff-line claudian-diff-${line.type}` });
-
-      // Line prefix
-      const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
-      const prefixEl = lineEl.createSpan({ cls: 'claudian-diff-prefix' });
-      prefixEl.setText(prefix);
-
-      // Line content
-      const contentEl = lineEl.createSpan({ cls: 'claudian-diff-text' });
-      contentEl.setText(line.text || ' '); // Show space for empty lines
+      renderDiffLine(hunkEl, line);
     }
   });
 }
@@ -0,0 +1,229 @@
+import type { DiffLine } from '../../../core/types/diff';
+import type { EditReviewDecision } from '../../../core/types/tools';
+import { applyLineDiff, computeLineDiff, countLineChanges } from '../../../utils/diff';
+import { applyReviewedText, type EditProposal } from '../../../utils/editReview';
+import { type DiffHunk, renderDiffLine, splitIntoHunks } from './DiffRenderer';
+
+const HINTS_TEXT = 'Untick a change to leave it out · Enter in feedback to reject with a reason · Esc to cancel';
+
+export class InlineEditReview {
+  private containerEl: HTMLElement;
+  private toolName: string;
+  private input: Record<string, unknown>;
+  private proposal: EditProposal;
+  private displayPath: string;
+  private resolveCallback: (decision: EditReviewDecision | null) => void;
+  private resolved = false;
+  private signal?: AbortSignal;
+
+  private diffLines: DiffLine[] = [];
+  private hunks: DiffHunk[] = [];
+  private rejectedHunks = new Set<number>();
+  private isEditing = false;
+
+  private rootEl!: HTMLElement;
+  private statsEl!: HTMLElement;
+  private diffEl!: HTMLElement;
+  private editorEl!: HTMLTextAreaElement;
+  private editToggleBtn!: HTMLButtonElement;
+  private acceptBtn!: HTMLButtonElement;
+  private feedbackInput!: HTMLInputElement;
+  private boundKeyDown: (e: KeyboardEvent) => void;
+  private abortHandler: (() => void) | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    toolName: string,
+    input: Record<string, unknown>,
+    proposal: EditProposal,
+    resolve: (decision: EditReviewDecision | null) => void,
+    signal?: AbortSignal,
+    displayPath?: string,
+  ) {
+    this.containerEl = containerEl;
+    this.toolName = toolName;
+    this.input = input;
+    this.proposal = proposal;
+    this.displayPath = displayPath ?? proposal.filePath;
+    this.resolveCallback = resolve;
+    this.signal = signal;
+    this.boundKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  render(): void {
+    this.rootEl = this.containerEl.createDiv({ cls: 'claudian-edit-review-inline' });
+
+    const headerEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-header' });
+    headerEl.createSpan({ text: `Review ${this.toolName}`, cls: 'claudian-edit-review-title' });
+    headerEl.createSpan({ text: this.displayPath, cls: 'claudian-edit-review-path' });
+    if (this.proposal.isNewFile) {
+      headerEl.createSpan({ text: 'new file', cls: 'claudian-edit-review-badge' });
+    }
+    this.statsEl = headerEl.createSpan({ cls: 'claudian-edit-review-stats claudian-write-edit-stats' });
+
+    this.diffEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-diff' });
+    this.editorEl = this.rootEl.createEl('textarea', { cls: 'claudian-edit-review-editor' });
+    this.editorEl.style.display = 'none';
+
+    const actionsEl = this.rootEl.createDiv({ cls: 'claudian-edit-review-actions' });
+    this.acceptBtn = actionsEl.createEl('button', { cls: 'claudian-edit-review-accept mod-cta' });
+    this.acceptBtn.addEventListener('click', () => this.handleAccept());
+
+    const rejectBtn = actionsEl.createEl('button', { text: 'Reject', cls: 'claudian-edit-review-reject' });
+    rejectBtn.addEventListener('click', () => this.handleResolve({ type: 'reject' }));
+
+    this.editToggleBtn = actionsEl.createEl('button', { text: 'Edit', cls: 'claudian-edit-review-toggle' });
+    this.editToggleBtn.addEventListener('click', () => this.toggleEditing());
+
+    this.feedbackInput = actionsEl.createEl('input', {
+      type: 'text',
+      cls: 'claudian-edit-review-feedback',
+      placeholder: 'Reject with feedback...',
+    });
+
+    this.rootEl.createDiv({ text: HINTS_TEXT, cls: 'claudian-ask-hints' });
+
+    this.setDiff(computeLineDiff(this.proposal.originalText, this.proposal.proposedText));
+
+    this.rootEl.setAttribute('tabindex', '0');
+    this.rootEl.addEventListener('keydown', this.boundKeyDown);
+
+    requestAnimationFrame(() => {
+      this.rootEl.focus();
+      this.rootEl.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    });
+
+    if (this.signal) {
+      this.abortHandler = () => this.handleResolve(null);
+      this.signal.addEventListener('abort', this.abortHandler, { once: true });
+    }
+  }
+
+  destroy(): void {
+    this.handleResolve(null);
+  }
+
+  private setDiff(diffLines: DiffLine[]): void {
+    this.diffLines = diffLines;
+    this.hunks = splitIntoHunks(diffLines);
+    this.rejectedHunks.clear();
+    this.renderHunks();
+  }
+
+  private renderHunks(): void {
+    this.diffEl.empty();
+
+    const { added, removed } = countLineChanges(this.diffLines);
+    this.statsEl.empty();
+    this.statsEl.createSpan({ cls: 'added', text: `+${added}` });
+    this.statsEl.createSpan({ text: ' ' });
+    this.statsEl.createSpan({ cls: 'removed', text: `-${removed}` });
+
+    if (this.hunks.length === 0) {
+      this.diffEl.createDiv({ cls: 'claudian-diff-no-changes', text: 'No changes' });
+    }
+
+    this.hunks.forEach((hunk, index) => {
+      const hunkEl = this.diffEl.createDiv({ cls: 'claudian-diff-hunk claudian-edit-review-hunk' });
+
+      const hunkHeaderEl = hunkEl.createEl('label', { cls: 'claudian-edit-review-hunk-header' });
+      const checkbox = hunkHeaderEl.createEl('input', { type: 'checkbox', cls: 'claudian-edit-review-hunk-toggle' });
+      checkbox.checked = true;
+      hunkHeaderEl.createSpan({
+        text: `Change ${index + 1} of ${this.hunks.length} (line ${hunk.newStart})`,
+        cls: 'claudian-edit-review-hunk-label',
+      });
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.rejectedHunks.delete(index);
+        } else {
+          this.rejectedHunks.add(index);
+        }
+        hunkEl.toggleClass('is-rejected', !checkbox.checked);
+        this.updateAcceptLabel();
+      });
+
+      for (const line of hunk.lines) {
+        renderDiffLine(hunkEl, line);
+      }
+    });
+
+    this.updateAcceptLabel();
+  }
+
+  private updateAcceptLabel(): void {
+    const total = this.hunks.length;
+    const kept = total - this.rejectedHunks.size;
+    this.acceptBtn.setText(this.isEditing || kept === total ? 'Accept' : `Accept selected (${kept}/${total})`);
+  }
+
+  /** Proposed text with rejected hunks undone. */
+  private getMergedText(): string {
+    const rejectedLines = new Set<DiffLine>();
+    for (const index of this.rejectedHunks) {
+      for (const line of this.hunks[index].lines) {
+        rejectedLines.add(line);
+      }
+    }
+    return applyLineDiff(this.diffLines, rejectedLines);
+  }
+
+  private toggleEditing(): void {
+    if (this.isEditing) {
+      this.isEditing = false;
+      this.setDiff(computeLineDiff(this.proposal.originalText, this.editorEl.value));
+      this.editorEl.style.display = 'none';
+      this.diffEl.style.display = '';
+      this.editToggleBtn.setText('Edit');
+    } else {
+      this.isEditing = true;
+      this.editorEl.value = this.getMergedText();
+      this.diffEl.style.display = 'none';
+      this.editorEl.style.display = '';
+      this.editToggleBtn.setText('Show diff');
+      this.updateAcceptLabel();
+      this.editorEl.focus();
+    }
+  }
+
+  private handleAccept(): void {
+    if (!this.isEditing && this.hunks.length > 0 && this.rejectedHunks.size === this.hunks.length) {
+      this.handleResolve({ type: 'reject', feedback: 'All changes were deselected' });
+      return;
+    }
+
+    const text = this.isEditing ? this.editorEl.value : this.getMergedText();
+    const updatedInput = text === this.proposal.proposedText
+      ? this.input
+      : applyReviewedText(this.input, this.proposal, text);
+    this.handleResolve({ type: 'accept', updatedInput });
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      this.handleResolve(null);
+      return;
+    }
+
+    if (e.key === 'Enter' && e.target === this.feedbackInput && this.feedbackInput.value.trim()) {
+      e.preventDefault();
+      e.stopPropagation();
+      this.handleResolve({ type: 'reject', feedback: this.feedbackInput.value.trim() });
+    }
+  }
+
+  private handleResolve(decision: EditReviewDecision | null): void {
+    if (!this.resolved) {
+      this.resolved = true;
+      this.rootEl?.removeEventListener('keydown', this.boundKeyDown);
+      if (this.signal && this.abortHandler) {
+        this.signal.removeEventListener('abort', this.abortHandler);
+        this.abortHandler = null;
+      }
+      this.rootEl?.remove();
+      this.resolveCallback(decision);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import type { App, Component } from 'obsidian';
-import { MarkdownRenderer, Notice } from 'obsidian';
+import { MarkdownRenderer, Notice, setIcon } from 'obsidian';
 
+import { formatRedactionSummary } from '../../../core/redaction';
 import { isWriteEditTool, TOOL_AGENT_OUTPUT, TOOL_TASK } from '../../../core/tools/toolNames';
 import type { ChatMessage, ImageAttachment, ToolCallInfo } from '../../../core/types';
 import { t } from '../../../i18n';
@@ -19,6 +20,9 @@ import { renderStoredWriteEdit } from './WriteEditRenderer';
 
 export type RenderContentFn = (el: HTMLElement, markdown: string) => Promise<void>;
 
+/** How long a message stays highlighted after jumping to it from search. */
+const SEARCH_HIT_HIGHLIGHT_MS = 2000;
+
 export class MessageRenderer {
   private app: App;
   private plugin: ClaudianPlugin;
@@ -82,6 +86,7 @@ export class MessageRenderer {
     const msgEl = this.messagesEl.createDiv({
       cls: `claudian-message claudian-message-${msg.role}`,
     });
+    msgEl.dataset.messageId = msg.id;
 
     const contentEl = msgEl.createDiv({ cls: 'claudian-message-content', attr: { dir: 'auto' } });
 
@@ -92,6 +97,7 @@ export class MessageRenderer {
         void this.renderContent(textEl, textToShow);
         this.addUserCopyButton(msgEl, textToShow);
       }
+      this.renderRedactionNote(contentEl, msg);
       if (this.rewindCallback || this.forkCallback) {
         this.liveMessageEls.set(msg.id, msgEl);
       }
@@ -159,6 +165,7 @@ export class MessageRenderer {
     const msgEl = this.messagesEl.createDiv({
       cls: `claudian-message claudian-message-${msg.role}`,
     });
+    msgEl.dataset.messageId = msg.id;
 
     const contentEl = msgEl.createDiv({ cls: 'claudian-message-content', attr: { dir: 'auto' } });
 
@@ -169,6 +176,7 @@ export class MessageRenderer {
         void this.renderContent(textEl, textToShow);
         this.addUserCopyButton(msgEl, textToShow);
       }
+      this.renderRedactionNote(contentEl, msg);
       if (msg.sdkUserUuid && this.isRewindEligible(allMessages, index)) {
         if (this.rewindCallback) {
           this.addRewindButton(msgEl, msg.id);
@@ -182,6 +190,14 @@ export class MessageRenderer {
     }
   }
 
+  /** Lists what was masked before the message was sent; the values themselves stay local. */
+  private renderRedactionNote(contentEl: HTMLElement, msg: ChatMessage): void {
+    if (!msg.redactions || msg.redactions.length === 0) return;
+    const noteEl = contentEl.createDiv({ cls: 'claudian-redaction-note' });
+    setIcon(noteEl.createSpan({ cls: 'claudian-redaction-note-icon' }), 'shield');
+    noteEl.createSpan({ text: `Redacted before sending: ${formatRedactionSummary(msg.redactions)}` });
+  }
+
   private isRewindEligible(allMessages?: ChatMessage[], index?: number): boolean {
     if (!allMessages || index === undefined) return false;
     const ctx = findRewindContext(allMessages, index);
@@ -589,6 +605,21 @@ export class MessageRenderer {
     this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
   }
 
+  /**
+   * Scrolls a rendered message into view and briefly highlights it.
+   * Returns false if the message is not rendered (e.g., image-only or rebuilt context).
+   */
+  scrollToMessage(messageId: string): boolean {
+    const msgEl = Array.from(this.messagesEl.children)
+      .find((el) => (el as HTMLElement).dataset?.messageId === messageId) as HTMLElement | undefined;
+    if (!msgEl) return false;
+
+    msgEl.scrollIntoView({ block: 'center' });
+    msgEl.addClass('claudian-message-search-hit');
+    setTimeout(() => msgEl.removeClass('claudian-message-search-hit'), SEARCH_HIT_HIGHLIGHT_MS);
+    return true;
+  }
+
   /** Scrolls to bottom if already near bottom (within threshold). */
   scrollToBottomIfNeeded(threshold = 100): void {
     const { scrollTop, scrollHeight, clientHeight } = this.messagesEl;
@@ -119,6 +119,9 @@ export class InstructionRefineService {
         }
 
         if (message.type === 'system' && message.subtype === 'init' && message.session_id) {
+          if (message.session_id !== this.sessionId) {
+            void this.plugin.rememberInternalSession(message.session_id);
+          }
           this.sessionId = message.session_id;
         }
 
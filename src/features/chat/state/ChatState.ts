@@ -1,4 +1,4 @@
-import type { UsageInfo } from '../../../core/types';
+import type { TokenUsage, TokenUsageRecord, UsageInfo } from '../../../core/types';
 import type {
   ChatMessage,
   ChatStateCallbacks,
@@ -33,6 +33,7 @@ function createInitialState(): ChatStateData {
     pendingTools: new Map(),
     usage: null,
     ignoreUsageUpdates: false,
+    pendingTokenUsage: new Map(),
     currentTodos: null,
     needsAttention: false,
     autoScrollEnabled: true, // Default; controllers will override based on settings
@@ -261,6 +262,33 @@ export class ChatState {
     this.state.ignoreUsageUpdates = value;
   }
 
+  /** Records billed tokens for an API message. Later counts for the same message replace earlier ones. */
+  recordTokenUsage(messageId: string, model: string, usage: TokenUsage): void {
+    this.state.pendingTokenUsage.set(messageId, { model, usage });
+  }
+
+  /** Returns unsaved billed tokens summed per model, and clears them. */
+  takeTokenUsage(timestamp: number = Date.now()): TokenUsageRecord[] {
+    const byModel = new Map<string, TokenUsageRecord>();
+    for (const { model, usage } of this.state.pendingTokenUsage.values()) {
+      const record = byModel.get(model) ?? {
+        timestamp,
+        model,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+      };
+      record.inputTokens += usage.inputTokens;
+      record.outputTokens += usage.outputTokens;
+      record.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+      record.cacheReadInputTokens += usage.cacheReadInputTokens;
+      byModel.set(model, record);
+    }
+    this.state.pendingTokenUsage.clear();
+    return [...byModel.values()];
+  }
+
   // ============================================
   // Current Todos (for persistent bottom panel)
   // ============================================
@@ -389,6 +417,7 @@ export class ChatState {
     this.clearMaps();
     this.state.queuedMessage = null;
     this.usage = null;
+    this.state.pendingTokenUsage.clear();
     this.currentTodos = null;
     this.autoScrollEnabled = true;
   }
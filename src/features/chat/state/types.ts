@@ -6,6 +6,7 @@ import type {
   ImageAttachment,
   PermissionMode,
   SubagentInfo,
+  TokenUsage,
   ToolCallInfo,
   UsageInfo,
 } from '../../../core/types';
@@ -79,6 +80,8 @@ export interface ChatStateData {
   usage: UsageInfo | null;
   // Flag to ignore usage updates (during session reset)
   ignoreUsageUpdates: boolean;
+  /** Billed tokens not yet saved to the conversation, keyed by API message ID. */
+  pendingTokenUsage: Map<string, { model: string; usage: TokenUsage }>;
 
   // Current todo items for the persistent bottom panel
   currentTodos: TodoItem[] | null;
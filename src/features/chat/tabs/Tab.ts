@@ -3,6 +3,7 @@ import { Notice } from 'obsidian';
 
 import { ClaudianService } from '../../../core/agent';
 import type { McpServerManager } from '../../../core/mcp';
+import { isPathHidden } from '../../../core/security';
 import type { ChatMessage, ClaudeModel, Conversation, PermissionMode, SlashCommand, ThinkingBudget } from '../../../core/types';
 import { DEFAULT_CLAUDE_MODELS, DEFAULT_THINKING_BUDGET, getContextWindowSize } from '../../../core/types';
 import { t } from '../../../i18n';
@@ -26,10 +27,12 @@ import { TitleGenerationService } from '../services/TitleGenerationService';
 import { ChatState } from '../state';
 import {
   BangBashModeManager as BangBashModeManagerClass,
+  BatchEditsModal,
   createInputToolbar,
   FileContextManager,
   ImageContextManager,
   InstructionModeManager as InstructionModeManagerClass,
+  McpBrowserModal,
   StatusPanel,
 } from '../ui';
 import type { TabData, TabDOMElements, TabId } from './types';
@@ -314,6 +317,7 @@ function initializeContextManagers(tab: TabData, plugin: ClaudianPlugin): void {
     dom.inputEl,
     {
       getExcludedTags: () => plugin.settings.excludedTags,
+      isHiddenPath: (path) => isPathHidden(plugin.settings.folderPolicies, path),
       onChipsChanged: () => {
         tab.controllers.selectionController?.updateContextRowVisibility();
         autoResizeTextarea(dom.inputEl);
@@ -345,11 +349,13 @@ function initializeContextManagers(tab: TabData, plugin: ClaudianPlugin): void {
  * Initializes slash command dropdown for a tab.
  * @param getSdkCommands Callback to get SDK commands from any ready service (shared across tabs).
  * @param getHiddenCommands Callback to get current hidden commands from settings.
+ * @param getMcpPromptCommands Callback to get prompts of enabled MCP servers.
  */
 function initializeSlashCommands(
   tab: TabData,
   getSdkCommands?: () => Promise<SlashCommand[]>,
-  getHiddenCommands?: () => Set<string>
+  getHiddenCommands?: () => Set<string>,
+  getMcpPromptCommands?: () => SlashCommand[]
 ): void {
   const { dom } = tab;
 
@@ -360,6 +366,7 @@ function initializeSlashCommands(
       onSelect: () => {},
       onHide: () => {},
       getSdkCommands,
+      getMcpPromptCommands,
     },
     {
       hiddenCommands: getHiddenCommands?.() ?? new Set(),
@@ -413,8 +420,22 @@ function initializeInstructionAndTodo(tab: TabData, plugin: ClaudianPlugin): voi
     }
   }
 
-  tab.ui.statusPanel = new StatusPanel();
+  const { batchRunner } = plugin;
+  tab.ui.statusPanel = new StatusPanel({
+    onOpenFile: (path) => {
+      void plugin.app.workspace.openLinkText(path, '', 'tab');
+    },
+    onShowBatchEdits: (file) => new BatchEditsModal(plugin.app, file).open(),
+    onCancelBatch: (runId) => batchRunner.cancel(runId),
+    onClearBatches: () => batchRunner.clearFinished(),
+  });
   tab.ui.statusPanel.mount(dom.statusPanelContainerEl);
+
+  // Batch runs are plugin-wide, so every tab's panel shows them
+  tab.ui.statusPanel.updateBatchRuns(batchRunner.getRuns());
+  dom.eventCleanups.push(
+    batchRunner.onChange(() => tab.ui.statusPanel?.updateBatchRuns(batchRunner.getRuns()))
+  );
 }
 
 /**
@@ -478,6 +499,18 @@ function initializeInputToolbar(tab: TabData, plugin: ClaudianPlugin): void {
   tab.ui.permissionToggle = toolbarComponents.permissionToggle;
 
   tab.ui.mcpServerSelector.setMcpManager(plugin.mcpManager);
+  tab.ui.mcpServerSelector.setOnBrowse(() => {
+    new McpBrowserModal(plugin.app, plugin.mcpManager, {
+      onAttachResource: (server, resource) => {
+        tab.ui.fileContextManager?.attachMcpResource({ server, uri: resource.uri, name: resource.name });
+      },
+      onUsePrompt: (commandText) => {
+        dom.inputEl.value = commandText;
+        dom.inputEl.focus();
+        autoResizeTextarea(dom.inputEl);
+      },
+    }).open();
+  });
 
   // Sync @-mentions to UI selector
   tab.ui.fileContextManager?.setOnMcpMentionChange((servers) => {
@@ -529,7 +562,8 @@ export function initializeTabUI(
   initializeSlashCommands(
     tab,
     options.getSdkCommands,
-    () => new Set((plugin.settings.hiddenSlashCommands || []).map(c => c.toLowerCase()))
+    () => new Set((plugin.settings.hiddenSlashCommands || []).map(c => c.toLowerCase())),
+    () => plugin.mcpManager.getPromptCommands()
   );
 
   // Initialize instruction mode and todo panel
@@ -1128,6 +1162,11 @@ export function setupServiceCallbacks(tab: TabData, plugin: ClaudianPlugin): voi
         await tab.controllers.inputController?.handleAskUserQuestion(input, signal)
         ?? null
     );
+    tab.service.setEditReviewCallback(
+      async (toolName, input, signal) =>
+        await tab.controllers.inputController?.handleEditReview(toolName, input, signal)
+        ?? null
+    );
     tab.service.setExitPlanModeCallback(
       async (input, signal) => {
         const decision = await tab.controllers.inputController?.handleExitPlanMode(input, signal) ?? null;
@@ -0,0 +1,29 @@
+import type { App } from 'obsidian';
+import { Modal } from 'obsidian';
+
+import type { BatchFileResult } from '../../../core/types';
+import { renderStoredWriteEdit } from '../rendering';
+
+/** Shows the Write/Edit diffs a batch run produced for one note. */
+export class BatchEditsModal extends Modal {
+  private file: BatchFileResult;
+
+  constructor(app: App, file: BatchFileResult) {
+    super(app);
+    this.file = file;
+  }
+
+  onOpen() {
+    this.setTitle(`Changes from ${this.file.path}`);
+    this.modalEl.addClass('claudian-batch-edits-modal');
+
+    const listEl = this.contentEl.createDiv({ cls: 'claudian-batch-edits-list' });
+    for (const edit of this.file.edits) {
+      renderStoredWriteEdit(listEl, edit);
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -5,12 +5,15 @@ import type { AgentManager } from '../../../core/agents';
 import type { McpServerManager } from '../../../core/mcp';
 import { MentionDropdownController } from '../../../shared/mention/MentionDropdownController';
 import { getVaultPath, normalizePathForVault as normalizePathForVaultUtil } from '../../../utils/path';
+import type { McpResourceAttachment } from './file-context/state/FileContextState';
 import { FileContextState } from './file-context/state/FileContextState';
 import { MarkdownFileCache } from './file-context/state/MarkdownFileCache';
 import { FileChipsView } from './file-context/view/FileChipsView';
 
 export interface FileContextCallbacks {
   getExcludedTags: () => string[];
+  /** Whether a vault path is in a folder hidden from the agent. */
+  isHiddenPath?: (path: string) => boolean;
   onChipsChanged?: () => void;
   getExternalContexts?: () => string[];
   /** Called when an agent is selected from the @ mention dropdown. */
@@ -60,6 +63,10 @@ export class FileContextManager {
           this.refreshCurrentNoteChip();
         }
       },
+      onRemoveMcpResource: (resource) => {
+        this.state.detachMcpResource(resource.server, resource.uri);
+        this.refreshCurrentNoteChip();
+      },
       onOpenFile: async (filePath) => {
         const file = this.app.vault.getAbstractFileByPath(filePath);
         if (!(file instanceof TFile)) {
@@ -87,7 +94,7 @@ export class FileContextManager {
         setMentionedMcpServers: (mentions) => this.state.setMentionedMcpServers(mentions),
         addMentionedMcpServer: (name) => this.state.addMentionedMcpServer(name),
         getExternalContexts: () => this.callbacks.getExternalContexts?.() || [],
-        getCachedMarkdownFiles: () => this.fileCache.getFiles(),
+        getCachedMarkdownFiles: () => this.fileCache.getFiles().filter(file => !this.isHiddenFile(file)),
         normalizePathForVault: (rawPath) => this.normalizePathForVault(rawPath),
       }
     );
@@ -110,6 +117,24 @@ export class FileContextManager {
     return this.state.getAttachedFiles();
   }
 
+  getMcpResources(): McpResourceAttachment[] {
+    return this.state.getMcpResources();
+  }
+
+  /** Attaches an MCP resource as context for the next message. */
+  attachMcpResource(resource: McpResourceAttachment): void {
+    if (this.state.attachMcpResource(resource)) {
+      this.refreshCurrentNoteChip();
+    }
+  }
+
+  /** Clears attached MCP resources (call after sending a message). */
+  clearMcpResources(): void {
+    if (this.state.getMcpResources().length === 0) return;
+    this.state.clearMcpResources();
+    this.refreshCurrentNoteChip();
+  }
+
   /** Checks whether current note should be sent for this session. */
   shouldSendCurrentNote(notePath?: string | null): boolean {
     const resolvedPath = notePath ?? this.currentNotePath;
@@ -155,7 +180,7 @@ export class FileContextManager {
   /** Auto-attaches the currently focused file (for new sessions). */
   autoAttachActiveFile() {
     const activeFile = this.app.workspace.getActiveFile();
-    if (activeFile && !this.hasExcludedTag(activeFile)) {
+    if (activeFile && !this.isExcludedFile(activeFile)) {
       const normalizedPath = this.normalizePathForVault(activeFile.path);
       if (normalizedPath) {
         this.currentNotePath = normalizedPath;
@@ -172,7 +197,7 @@ export class FileContextManager {
 
     if (!this.state.isSessionStarted()) {
       this.state.clearAttachments();
-      if (!this.hasExcludedTag(file)) {
+      if (!this.isExcludedFile(file)) {
         this.currentNotePath = normalizedPath;
         this.state.attachFile(normalizedPath);
       } else {
@@ -227,7 +252,7 @@ export class FileContextManager {
   }
 
   private refreshCurrentNoteChip(): void {
-    this.chipsView.renderCurrentNote(this.currentNotePath);
+    this.chipsView.renderCurrentNote(this.currentNotePath, this.state.getMcpResources());
     this.callbacks.onChipsChanged?.();
   }
 
@@ -318,6 +343,14 @@ export class FileContextManager {
     this.mentionDropdown.updateMcpMentionsFromText(text);
   }
 
+  private isExcludedFile(file: TFile): boolean {
+    return this.isHiddenFile(file) || this.hasExcludedTag(file);
+  }
+
+  private isHiddenFile(file: TFile): boolean {
+    return this.callbacks.isHiddenPath?.(file.path) ?? false;
+  }
+
   private hasExcludedTag(file: TFile): boolean {
     const excludedTags = this.callbacks.getExcludedTags();
     if (excludedTags.length === 0) return false;
@@ -646,6 +646,7 @@ export class McpServerSelector {
   private mcpManager: McpServerManager | null = null;
   private enabledServers: Set<string> = new Set();
   private onChangeCallback: ((enabled: Set<string>) => void) | null = null;
+  private onBrowseCallback: (() => void) | null = null;
 
   constructor(parentEl: HTMLElement) {
     this.container = parentEl.createDiv({ cls: 'claudian-mcp-selector' });
@@ -663,6 +664,12 @@ export class McpServerSelector {
     this.onChangeCallback = callback;
   }
 
+  /** Shows a "Browse resources & prompts" entry that runs the callback. */
+  setOnBrowse(callback: () => void): void {
+    this.onBrowseCallback = callback;
+    this.renderDropdown();
+  }
+
   getEnabledServers(): Set<string> {
     return new Set(this.enabledServers);
   }
@@ -754,6 +761,16 @@ export class McpServerSelector {
     for (const server of servers) {
       this.renderServerItem(listEl, server);
     }
+
+    if (this.onBrowseCallback) {
+      const browseEl = this.dropdownEl.createDiv({ cls: 'claudian-mcp-selector-browse' });
+      browseEl.setText('Browse resources & prompts');
+      browseEl.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.onBrowseCallback?.();
+      });
+    }
   }
 
   private renderServerItem(listEl: HTMLElement, server: ClaudianMcpServer) {
@@ -0,0 +1,150 @@
+import type { App } from 'obsidian';
+import { Modal, setIcon } from 'obsidian';
+
+import type { McpPrompt, McpResource, McpServerManager } from '../../../core/mcp';
+import { describeMcpHealth } from '../../../core/mcp';
+import type { ClaudianMcpServer } from '../../../core/types';
+import { formatMcpPromptArgumentHint, mcpPromptToSlashCommand } from '../../../utils/mcp';
+
+export interface McpBrowserCallbacks {
+  onAttachResource: (server: string, resource: McpResource) => void;
+  /** Receives the slash command text (e.g. `/mcp__server__prompt `) to put in the input. */
+  onUsePrompt: (commandText: string) => void;
+}
+
+/** Lists the resources and prompts of each enabled MCP server, from the health monitor's cache. */
+export class McpBrowserModal extends Modal {
+  private mcpManager: McpServerManager;
+  private callbacks: McpBrowserCallbacks;
+  private unsubscribe: (() => void) | null = null;
+  private refreshing = new Set<string>();
+
+  constructor(app: App, mcpManager: McpServerManager, callbacks: McpBrowserCallbacks) {
+    super(app);
+    this.mcpManager = mcpManager;
+    this.callbacks = callbacks;
+  }
+
+  onOpen() {
+    this.setTitle('MCP resources & prompts');
+    this.modalEl.addClass('claudian-mcp-browser-modal');
+    this.unsubscribe = this.mcpManager.onHealthChange(() => this.render());
+    this.render();
+
+    // Servers the monitor has not reached yet are checked right away
+    for (const server of this.getServers()) {
+      if ((this.mcpManager.getServerHealth(server.name)?.status ?? 'unknown') === 'unknown') {
+        void this.refresh(server.name);
+      }
+    }
+  }
+
+  onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private getServers(): ClaudianMcpServer[] {
+    return this.mcpManager.getServers().filter(s => s.enabled);
+  }
+
+  private async refresh(name: string): Promise<void> {
+    if (this.refreshing.has(name)) return;
+    this.refreshing.add(name);
+    this.render();
+    try {
+      await this.mcpManager.refreshServer(name);
+    } finally {
+      this.refreshing.delete(name);
+      this.render();
+    }
+  }
+
+  private render(): void {
+    this.contentEl.empty();
+
+    const servers = this.getServers();
+    if (servers.length === 0) {
+      this.contentEl.createDiv({ cls: 'claudian-mcp-browser-empty', text: 'No enabled MCP servers' });
+      return;
+    }
+
+    for (const server of servers) {
+      this.renderServer(server);
+    }
+  }
+
+  private renderServer(server: ClaudianMcpServer): void {
+    const health = this.mcpManager.getServerHealth(server.name);
+    const sectionEl = this.contentEl.createDiv({ cls: 'claudian-mcp-browser-server' });
+
+    const headerEl = sectionEl.createDiv({ cls: 'claudian-mcp-browser-server-header' });
+    headerEl.createSpan({ cls: `claudian-mcp-health-dot is-${health?.status ?? 'unknown'}` });
+    headerEl.createSpan({ cls: 'claudian-mcp-browser-server-name', text: server.name });
+    headerEl.createSpan({ cls: 'claudian-mcp-browser-server-status', text: describeMcpHealth(health) });
+
+    const refreshEl = headerEl.createEl('button', { cls: 'claudian-mcp-browser-refresh', attr: { 'aria-label': 'Refresh' } });
+    setIcon(refreshEl, 'refresh-cw');
+    if (this.refreshing.has(server.name)) {
+      refreshEl.disabled = true;
+      refreshEl.addClass('is-loading');
+    }
+    refreshEl.addEventListener('click', () => void this.refresh(server.name));
+
+    const resources = health?.resources ?? [];
+    const prompts = health?.prompts ?? [];
+    if (resources.length === 0 && prompts.length === 0) {
+      sectionEl.createDiv({ cls: 'claudian-mcp-browser-empty', text: 'No resources or prompts' });
+      return;
+    }
+
+    if (resources.length > 0) {
+      sectionEl.createDiv({ cls: 'claudian-mcp-browser-heading', text: 'Resources' });
+      for (const resource of resources) {
+        this.renderResource(sectionEl, server.name, resource);
+      }
+    }
+
+    if (prompts.length > 0) {
+      sectionEl.createDiv({ cls: 'claudian-mcp-browser-heading', text: 'Prompts' });
+      for (const prompt of prompts) {
+        this.renderPrompt(sectionEl, server.name, prompt);
+      }
+    }
+  }
+
+  private renderResource(parentEl: HTMLElement, serverName: string, resource: McpResource): void {
+    const itemEl = parentEl.createDiv({ cls: 'claudian-mcp-browser-item' });
+    const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-browser-item-info' });
+    infoEl.createDiv({ cls: 'claudian-mcp-browser-item-name', text: resource.name });
+    infoEl.createDiv({ cls: 'claudian-mcp-browser-item-desc', text: resource.description || resource.uri });
+
+    const attachEl = itemEl.createEl('button', { text: 'Attach' });
+    attachEl.addEventListener('click', () => {
+      this.callbacks.onAttachResource(serverName, resource);
+      this.close();
+    });
+  }
+
+  private renderPrompt(parentEl: HTMLElement, serverName: string, prompt: McpPrompt): void {
+    const command = mcpPromptToSlashCommand(serverName, prompt);
+    const itemEl = parentEl.createDiv({ cls: 'claudian-mcp-browser-item' });
+    const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-browser-item-info' });
+
+    const nameEl = infoEl.createDiv({ cls: 'claudian-mcp-browser-item-name', text: `/${command.name}` });
+    const hint = formatMcpPromptArgumentHint(prompt);
+    if (hint) {
+      nameEl.createSpan({ cls: 'claudian-mcp-browser-item-hint', text: ` ${hint}` });
+    }
+    if (prompt.description) {
+      infoEl.createDiv({ cls: 'claudian-mcp-browser-item-desc', text: prompt.description });
+    }
+
+    const useEl = itemEl.createEl('button', { text: 'Use' });
+    useEl.addEventListener('click', () => {
+      this.callbacks.onUsePrompt(`/${command.name} `);
+      this.close();
+    });
+  }
+}
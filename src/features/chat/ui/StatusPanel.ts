@@ -2,7 +2,7 @@ import { Notice, setIcon } from 'obsidian';
 
 import type { TodoItem } from '../../../core/tools';
 import { getToolIcon, TOOL_TASK, TOOL_TODO_WRITE } from '../../../core/tools';
-import type { AsyncSubagentStatus } from '../../../core/types';
+import type { AsyncSubagentStatus, BatchFileResult, BatchFileStatus, BatchRun } from '../../../core/types';
 import { t } from '../../../i18n';
 import { renderTodoItems } from '../rendering/todoUtils';
 
@@ -28,12 +28,29 @@ export interface PanelBashOutput {
 
 const MAX_BASH_OUTPUTS = 50;
 
+const BATCH_FILE_ICONS: Record<BatchFileStatus, string> = {
+  pending: 'circle',
+  running: 'loader',
+  success: 'check',
+  error: 'x',
+  cancelled: 'minus',
+};
+
+/** Actions the panel delegates to the host (batch run links and controls). */
+export interface StatusPanelCallbacks {
+  onOpenFile?: (path: string) => void;
+  onShowBatchEdits?: (file: BatchFileResult) => void;
+  onCancelBatch?: (runId: string) => void;
+  onClearBatches?: () => void;
+}
+
 /**
- * StatusPanel - persistent bottom panel for async subagent status and todos.
+ * StatusPanel - persistent bottom panel for async subagent status, batch runs, and todos.
  */
 export class StatusPanel {
   private containerEl: HTMLElement | null = null;
   private panelEl: HTMLElement | null = null;
+  private callbacks: StatusPanelCallbacks;
 
   // Async subagent section (above todos)
   private subagentContainerEl: HTMLElement | null = null;
@@ -47,6 +64,11 @@ export class StatusPanel {
   private currentBashOutputs: Map<string, PanelBashOutput> = new Map();
   private bashEntryExpanded: Map<string, boolean> = new Map();
 
+  // Batch run section (between bash outputs and todos)
+  private batchContainerEl: HTMLElement | null = null;
+  private currentBatchRuns: BatchRun[] = [];
+  private batchEntryExpanded: Map<string, boolean> = new Map();
+
   // Todo section
   private todoContainerEl: HTMLElement | null = null;
   private todoHeaderEl: HTMLElement | null = null;
@@ -60,6 +82,10 @@ export class StatusPanel {
   private bashClickHandler: (() => void) | null = null;
   private bashKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
 
+  constructor(callbacks: StatusPanelCallbacks = {}) {
+    this.callbacks = callbacks;
+  }
+
   /**
    * Mount the panel into the messages container.
    * Appends to the end of the messages area.
@@ -112,6 +138,7 @@ export class StatusPanel {
     this.bashOutputContainerEl = null;
     this.bashHeaderEl = null;
     this.bashContentEl = null;
+    this.batchContainerEl = null;
     this.todoContainerEl = null;
     this.todoHeaderEl = null;
     this.todoContentEl = null;
@@ -120,6 +147,7 @@ export class StatusPanel {
     // Re-render current state
     this.renderSubagentStatus();
     this.renderBashOutputs();
+    this.renderBatchRuns();
     if (this.currentTodos && this.currentTodos.length > 0) {
       this.updateTodos(this.currentTodos);
     }
@@ -170,6 +198,12 @@ export class StatusPanel {
     this.bashOutputContainerEl.appendChild(this.bashContentEl);
     this.panelEl.appendChild(this.bashOutputContainerEl);
 
+    // Batch run container (between bash outputs and todos) - hidden by default
+    this.batchContainerEl = document.createElement('div');
+    this.batchContainerEl.className = 'claudian-status-panel-batch';
+    this.batchContainerEl.style.display = 'none';
+    this.panelEl.appendChild(this.batchContainerEl);
+
     // Todo container
     this.todoContainerEl = document.createElement('div');
     this.todoContainerEl.className = 'claudian-status-panel-todos';
@@ -723,6 +757,150 @@ export class StatusPanel {
     this.renderBashOutputs({ scroll: false });
   }
 
+  // ============================================
+  // Batch Run Methods
+  // ============================================
+
+  /** Replace the displayed batch runs (oldest first). */
+  updateBatchRuns(runs: BatchRun[]): void {
+    this.currentBatchRuns = runs;
+    this.renderBatchRuns();
+  }
+
+  private renderBatchRuns(): void {
+    if (!this.batchContainerEl) return;
+
+    if (this.currentBatchRuns.length === 0) {
+      this.batchContainerEl.style.display = 'none';
+      this.batchContainerEl.empty();
+      return;
+    }
+
+    this.batchContainerEl.style.display = 'block';
+    this.batchContainerEl.empty();
+
+    for (const run of this.currentBatchRuns) {
+      this.batchContainerEl.appendChild(this.renderBatchEntry(run));
+    }
+  }
+
+  private renderBatchEntry(run: BatchRun): HTMLElement {
+    const entryEl = document.createElement('div');
+    entryEl.className = 'claudian-tool-call claudian-status-panel-batch-entry';
+
+    const headerEl = document.createElement('div');
+    headerEl.className = 'claudian-tool-header';
+    headerEl.setAttribute('tabindex', '0');
+    headerEl.setAttribute('role', 'button');
+
+    const iconEl = document.createElement('span');
+    iconEl.className = 'claudian-tool-icon';
+    iconEl.setAttribute('aria-hidden', 'true');
+    setIcon(iconEl, 'files');
+    headerEl.appendChild(iconEl);
+
+    const doneCount = run.files.filter(f => f.status !== 'pending' && f.status !== 'running').length;
+    const labelEl = document.createElement('span');
+    labelEl.className = 'claudian-tool-label';
+    labelEl.textContent = `/${run.commandName} (${doneCount}/${run.files.length})`;
+    headerEl.appendChild(labelEl);
+
+    const statusEl = document.createElement('span');
+    statusEl.className = 'claudian-tool-status';
+    if (run.finishedAt) {
+      const hasErrors = run.files.some(f => f.status === 'error');
+      statusEl.classList.add(hasErrors ? 'status-error' : 'status-completed');
+      setIcon(statusEl, hasErrors ? 'x' : 'check');
+    } else {
+      statusEl.classList.add('status-running');
+    }
+    headerEl.appendChild(statusEl);
+
+    const actionsEl = document.createElement('span');
+    actionsEl.className = 'claudian-status-panel-bash-actions';
+    if (run.finishedAt) {
+      this.appendActionButton(actionsEl, 'clear', 'Clear finished batch runs', 'trash', () => {
+        this.callbacks.onClearBatches?.();
+      });
+    } else {
+      this.appendActionButton(actionsEl, 'cancel', 'Cancel batch run', 'square', () => {
+        this.callbacks.onCancelBatch?.(run.id);
+      });
+    }
+    headerEl.appendChild(actionsEl);
+
+    entryEl.appendChild(headerEl);
+
+    const contentEl = document.createElement('div');
+    contentEl.className = 'claudian-tool-content claudian-status-panel-batch-files';
+    const isExpanded = this.batchEntryExpanded.get(run.id) ?? true;
+    contentEl.style.display = isExpanded ? 'block' : 'none';
+    headerEl.setAttribute('aria-expanded', String(isExpanded));
+    const toggle = () => {
+      this.batchEntryExpanded.set(run.id, !isExpanded);
+      this.renderBatchRuns();
+    };
+    headerEl.addEventListener('click', toggle);
+    headerEl.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        toggle();
+      }
+    });
+
+    for (const file of run.files) {
+      contentEl.appendChild(this.renderBatchFile(file));
+    }
+    entryEl.appendChild(contentEl);
+
+    return entryEl;
+  }
+
+  private renderBatchFile(file: BatchFileResult): HTMLElement {
+    const rowEl = document.createElement('div');
+    rowEl.className = `claudian-status-panel-batch-file status-${file.status}`;
+
+    const iconEl = document.createElement('span');
+    iconEl.className = 'claudian-status-panel-icon';
+    iconEl.setAttribute('aria-label', file.status);
+    setIcon(iconEl, BATCH_FILE_ICONS[file.status]);
+    rowEl.appendChild(iconEl);
+
+    const pathEl = document.createElement('span');
+    pathEl.className = 'claudian-status-panel-batch-path';
+    pathEl.textContent = file.path;
+    pathEl.setAttribute('title', file.path);
+    pathEl.addEventListener('click', () => this.callbacks.onOpenFile?.(file.path));
+    rowEl.appendChild(pathEl);
+
+    if (file.edits.length > 0) {
+      let added = 0;
+      let removed = 0;
+      for (const edit of file.edits) {
+        added += edit.diffData?.stats.added ?? 0;
+        removed += edit.diffData?.stats.removed ?? 0;
+      }
+
+      const diffEl = document.createElement('span');
+      diffEl.className = 'claudian-status-panel-batch-diff';
+      diffEl.setAttribute('role', 'button');
+      diffEl.setAttribute('aria-label', 'Show changes');
+      diffEl.textContent = `+${added} -${removed}`;
+      diffEl.addEventListener('click', () => this.callbacks.onShowBatchEdits?.(file));
+      rowEl.appendChild(diffEl);
+    }
+
+    if (file.error) {
+      const errorEl = document.createElement('span');
+      errorEl.className = 'claudian-status-panel-batch-error';
+      errorEl.textContent = file.error;
+      errorEl.setAttribute('title', file.error);
+      rowEl.appendChild(errorEl);
+    }
+
+    return rowEl;
+  }
+
   // ============================================
   // Cleanup
   // ============================================
@@ -754,9 +932,11 @@ export class StatusPanel {
     this.bashClickHandler = null;
     this.bashKeydownHandler = null;
 
-    // Clear subagent and bash output tracking
+    // Clear subagent, bash output, and batch run tracking
     this.currentSubagents.clear();
     this.currentBashOutputs.clear();
+    this.currentBatchRuns = [];
+    this.batchEntryExpanded.clear();
 
     if (this.panelEl) {
       this.panelEl.remove();
@@ -766,6 +946,7 @@ export class StatusPanel {
     this.bashOutputContainerEl = null;
     this.bashHeaderEl = null;
     this.bashContentEl = null;
+    this.batchContainerEl = null;
     this.todoContainerEl = null;
     this.todoHeaderEl = null;
     this.todoContentEl = null;
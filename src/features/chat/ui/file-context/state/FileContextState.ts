@@ -2,6 +2,17 @@ function escapeRegExp(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+/** An MCP server resource attached as context; its contents are read when the message is sent. */
+export interface McpResourceAttachment {
+  server: string;
+  uri: string;
+  name: string;
+}
+
+function getMcpResourceKey(resource: Pick<McpResourceAttachment, 'server' | 'uri'>): string {
+  return `${resource.server}\n${resource.uri}`;
+}
+
 export class FileContextState {
   private attachedFiles: Set<string> = new Set();
   private sessionStarted = false;
@@ -9,6 +20,7 @@ export class FileContextState {
   private currentNoteSent = false;
   /** Maps display name to absolute path for external context files only. */
   private contextFileMap: Map<string, string> = new Map();
+  private mcpResources: Map<string, McpResourceAttachment> = new Map();
 
   getAttachedFiles(): Set<string> {
     return new Set(this.attachedFiles);
@@ -35,6 +47,7 @@ export class FileContextState {
     this.currentNoteSent = false;
     this.attachedFiles.clear();
     this.contextFileMap.clear();
+    this.mcpResources.clear();
     this.clearMcpMentions();
   }
 
@@ -70,6 +83,27 @@ export class FileContextState {
   clearAttachments(): void {
     this.attachedFiles.clear();
     this.contextFileMap.clear();
+    this.mcpResources.clear();
+  }
+
+  getMcpResources(): McpResourceAttachment[] {
+    return [...this.mcpResources.values()];
+  }
+
+  /** Returns false if the resource was already attached. */
+  attachMcpResource(resource: McpResourceAttachment): boolean {
+    const key = getMcpResourceKey(resource);
+    if (this.mcpResources.has(key)) return false;
+    this.mcpResources.set(key, { ...resource });
+    return true;
+  }
+
+  detachMcpResource(server: string, uri: string): void {
+    this.mcpResources.delete(getMcpResourceKey({ server, uri }));
+  }
+
+  clearMcpResources(): void {
+    this.mcpResources.clear();
   }
 
   /** Transform text by replacing external context file display names with absolute paths. */
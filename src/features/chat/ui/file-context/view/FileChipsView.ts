@@ -1,8 +1,11 @@
 import { setIcon } from 'obsidian';
 
+import type { McpResourceAttachment } from '../state/FileContextState';
+
 export interface FileChipsViewCallbacks {
   onRemoveAttachment: (path: string) => void;
   onOpenFile: (path: string) => void;
+  onRemoveMcpResource?: (resource: McpResourceAttachment) => void;
 }
 
 export class FileChipsView {
@@ -25,17 +28,40 @@ export class FileChipsView {
     this.fileIndicatorEl.remove();
   }
 
-  renderCurrentNote(filePath: string | null): void {
+  renderCurrentNote(filePath: string | null, mcpResources: McpResourceAttachment[] = []): void {
     this.fileIndicatorEl.empty();
 
-    if (!filePath) {
+    if (!filePath && mcpResources.length === 0) {
       this.fileIndicatorEl.style.display = 'none';
       return;
     }
 
     this.fileIndicatorEl.style.display = 'flex';
-    this.renderFileChip(filePath, () => {
-      this.callbacks.onRemoveAttachment(filePath);
+    if (filePath) {
+      this.renderFileChip(filePath, () => {
+        this.callbacks.onRemoveAttachment(filePath);
+      });
+    }
+    for (const resource of mcpResources) {
+      this.renderMcpResourceChip(resource);
+    }
+  }
+
+  private renderMcpResourceChip(resource: McpResourceAttachment): void {
+    const chipEl = this.fileIndicatorEl.createDiv({ cls: 'claudian-file-chip claudian-mcp-resource-chip' });
+
+    const iconEl = chipEl.createSpan({ cls: 'claudian-file-chip-icon' });
+    setIcon(iconEl, 'database');
+
+    const nameEl = chipEl.createSpan({ cls: 'claudian-file-chip-name' });
+    nameEl.setText(resource.name);
+    nameEl.setAttribute('title', `${resource.server}: ${resource.uri}`);
+
+    const removeEl = chipEl.createSpan({ cls: 'claudian-file-chip-remove' });
+    removeEl.setText('\u00D7');
+    removeEl.setAttribute('aria-label', 'Remove');
+    removeEl.addEventListener('click', () => {
+      this.callbacks.onRemoveMcpResource?.(resource);
     });
   }
 
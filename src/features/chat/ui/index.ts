@@ -1,4 +1,5 @@
 export { type BangBashModeCallbacks, BangBashModeManager, type BangBashModeState } from './BangBashModeManager';
+export { BatchEditsModal } from './BatchEditsModal';
 export { type FileContextCallbacks,FileContextManager } from './FileContext';
 export { type ImageContextCallbacks,ImageContextManager } from './ImageContext';
 export {
@@ -12,4 +13,5 @@ export {
   ThinkingBudgetSelector,
 } from './InputToolbar';
 export { type InstructionModeCallbacks, InstructionModeManager, type InstructionModeState } from './InstructionModeManager';
-export { type PanelBashOutput, type PanelSubagentInfo, StatusPanel } from './StatusPanel';
+export { type McpBrowserCallbacks, McpBrowserModal } from './McpBrowserModal';
+export { type PanelBashOutput, type PanelSubagentInfo, StatusPanel, type StatusPanelCallbacks } from './StatusPanel';
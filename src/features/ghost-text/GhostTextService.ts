@@ -0,0 +1,162 @@
+import type { Options } from '@anthropic-ai/claude-agent-sdk';
+import { query as agentQuery } from '@anthropic-ai/claude-agent-sdk';
+
+import { GHOST_TEXT_SYSTEM_PROMPT } from '../../core/prompts/ghostText';
+import type ClaudianPlugin from '../../main';
+import { type CursorContext, formatEditorContext } from '../../utils/editor';
+import { getEnhancedPath, getMissingNodeError, parseEnvironmentVariables } from '../../utils/env';
+import { getVaultPath } from '../../utils/path';
+
+export interface GhostTextRequest {
+  notePath: string;
+  cursorContext: CursorContext;
+  /** Lines above the cursor line, for tone and topic. */
+  precedingText: string;
+}
+
+/** Longest continuation shown, in characters. */
+const MAX_COMPLETION_LENGTH = 200;
+
+/** Whether ghost text is on for a note, given the folder list (empty = all notes). */
+export function isGhostTextEnabledForPath(notePath: string | null, folders: string[]): boolean {
+  if (folders.length === 0) return true;
+  if (!notePath) return false;
+
+  return folders.some(folder => {
+    const normalized = folder.trim().replace(/^\/+|\/+$/g, '');
+    return !normalized || notePath.startsWith(`${normalized}/`);
+  });
+}
+
+export function buildGhostTextPrompt(request: GhostTextRequest): string {
+  const cursor = formatEditorContext({
+    notePath: request.notePath,
+    mode: 'cursor',
+    cursorContext: request.cursorContext,
+  });
+
+  const parts = [];
+  if (request.precedingText.trim()) {
+    parts.push('<preceding_text>', request.precedingText, '</preceding_text>', '');
+  }
+  parts.push(cursor, '', 'Continue the text at the cursor.');
+  return parts.join('\n');
+}
+
+/**
+ * Extracts the continuation from the reply. Keeps leading whitespace (it separates the
+ * continuation from the word before the cursor) and stops at the first blank line.
+ */
+export function parseGhostTextResponse(responseText: string): string | null {
+  const match = responseText.match(/<completion>([\s\S]*?)<\/completion>/);
+  let completion = match ? match[1] : responseText;
+
+  const paragraphEnd = completion.search(/\n\s*\n/);
+  if (paragraphEnd !== -1) {
+    completion = completion.substring(0, paragraphEnd);
+  }
+  completion = completion.trimEnd();
+
+  if (completion.length > MAX_COMPLETION_LENGTH) {
+    completion = completion.substring(0, MAX_COMPLETION_LENGTH);
+  }
+
+  return completion.trim() ? completion : null;
+}
+
+/** Fetches short continuations for the editor; a new request cancels the previous one. */
+export class GhostTextService {
+  private plugin: ClaudianPlugin;
+  private abortController: AbortController | null = null;
+
+  constructor(plugin: ClaudianPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Resolves to the continuation, or null when cancelled, empty or failed. */
+  async complete(request: GhostTextRequest): Promise<string | null> {
+    this.cancel();
+
+    const vaultPath = getVaultPath(this.plugin.app);
+    if (!vaultPath) return null;
+
+    const envVars = parseEnvironmentVariables(
+      this.plugin.getActiveEnvironmentVariables()
+    );
+
+    const resolvedClaudePath = this.plugin.getResolvedClaudeCliPath();
+    if (!resolvedClaudePath) return null;
+
+    const enhancedPath = getEnhancedPath(envVars.PATH, resolvedClaudePath);
+    if (getMissingNodeError(resolvedClaudePath, enhancedPath)) return null;
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    const options: Options = {
+      cwd: vaultPath,
+      systemPrompt: GHOST_TEXT_SYSTEM_PROMPT,
+      model: envVars.ANTHROPIC_DEFAULT_HAIKU_MODEL || 'claude-haiku-4-5',
+      abortController,
+      pathToClaudeCodeExecutable: resolvedClaudePath,
+      env: {
+        ...process.env,
+        ...envVars,
+        PATH: enhancedPath,
+      },
+      tools: [],
+      permissionMode: 'bypassPermissions',
+      allowDangerouslySkipPermissions: true,
+      settingSources: this.plugin.settings.loadUserClaudeSettings
+        ? ['user', 'project']
+        : ['project'],
+      persistSession: false,
+    };
+
+    try {
+      const prompt = this.plugin.redactor.redact(buildGhostTextPrompt(request)).text;
+      const response = agentQuery({ prompt, options });
+      let responseText = '';
+
+      for await (const message of response) {
+        if (abortController.signal.aborted) return null;
+
+        const text = this.extractTextFromMessage(message);
+        if (text) {
+          responseText += text;
+        }
+      }
+
+      if (abortController.signal.aborted) return null;
+      return parseGhostTextResponse(this.plugin.redactor.restore(responseText));
+    } catch {
+      // Suggestions are best-effort; failures just show nothing
+      return null;
+    } finally {
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  /** Cancels the pending request, if any. */
+  cancel(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  private extractTextFromMessage(
+    message: { type: string; message?: { content?: Array<{ type: string; text?: string }> } }
+  ): string {
+    if (message.type !== 'assistant' || !message.message?.content) {
+      return '';
+    }
+
+    return message.message.content
+      .filter((block): block is { type: 'text'; text: string } =>
+        block.type === 'text' && !!block.text
+      )
+      .map((block) => block.text)
+      .join('');
+  }
+}
@@ -0,0 +1,180 @@
+import type { EditorState, Extension } from '@codemirror/state';
+import { Prec, StateEffect, StateField } from '@codemirror/state';
+import type { DecorationSet, ViewUpdate } from '@codemirror/view';
+import { Decoration, EditorView, keymap, ViewPlugin, WidgetType } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+
+import { buildCursorContext } from '../../../utils/editor';
+import type { GhostTextRequest } from '../GhostTextService';
+
+/** Typing pause before a continuation is requested. */
+export const GHOST_TEXT_DELAY_MS = 800;
+
+/** Lines above the cursor line sent along for tone and topic. */
+const PRECEDING_LINE_COUNT = 20;
+
+export interface GhostTextExtensionOptions {
+  /** Whether suggestions are on for the note being edited (checked on every pause). */
+  isEnabled: (notePath: string | null) => boolean;
+  complete: (request: GhostTextRequest) => Promise<string | null>;
+  cancel: () => void;
+  delayMs?: number;
+}
+
+export interface GhostText {
+  pos: number;
+  text: string;
+}
+
+export const setGhostText = StateEffect.define<GhostText | null>();
+
+class GhostTextWidget extends WidgetType {
+  constructor(private text: string) {
+    super();
+  }
+
+  eq(other: GhostTextWidget): boolean {
+    return other.text === this.text;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement('span');
+    span.className = 'claudian-ghost-text';
+    span.textContent = this.text;
+    return span;
+  }
+}
+
+/** The suggestion shown at the cursor; any edit or cursor move clears it. */
+export const ghostTextField = StateField.define<GhostText | null>({
+  create() {
+    return null;
+  },
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setGhostText)) return effect.value;
+    }
+    if (tr.docChanged || tr.selection) return null;
+    return value;
+  },
+  provide: field => EditorView.decorations.from(field, (ghost): DecorationSet => {
+    if (!ghost) return Decoration.none;
+    return Decoration.set([
+      Decoration.widget({ widget: new GhostTextWidget(ghost.text), side: 1 }).range(ghost.pos),
+    ]);
+  }),
+});
+
+function getNotePath(state: EditorState): string | null {
+  return state.field(editorInfoField, false)?.file?.path ?? null;
+}
+
+/** Request for the text around the (single, empty) cursor, or null if there is none. */
+export function buildGhostTextRequest(state: EditorState): GhostTextRequest | null {
+  const { ranges, main } = state.selection;
+  if (ranges.length > 1 || !main.empty) return null;
+
+  const line = state.doc.lineAt(main.head);
+  const cursorContext = buildCursorContext(
+    (lineIndex) => state.doc.line(lineIndex + 1).text,
+    state.doc.lines,
+    line.number - 1,
+    main.head - line.from
+  );
+
+  const firstPrecedingLine = Math.max(1, line.number - PRECEDING_LINE_COUNT);
+  const precedingText = line.number > 1
+    ? state.doc.sliceString(state.doc.line(firstPrecedingLine).from, line.from).replace(/\n$/, '')
+    : '';
+
+  return { notePath: getNotePath(state) ?? 'unknown', cursorContext, precedingText };
+}
+
+/** Inserts the shown suggestion at the cursor. Returns false (so Tab indents) when there is none. */
+export function acceptGhostText(view: EditorView): boolean {
+  const ghost = view.state.field(ghostTextField, false);
+  if (!ghost) return false;
+
+  view.dispatch({
+    changes: { from: ghost.pos, insert: ghost.text },
+    selection: { anchor: ghost.pos + ghost.text.length },
+    effects: setGhostText.of(null),
+    userEvent: 'input.complete',
+  });
+  return true;
+}
+
+export function dismissGhostText(view: EditorView): boolean {
+  if (!view.state.field(ghostTextField, false)) return false;
+  view.dispatch({ effects: setGhostText.of(null) });
+  return true;
+}
+
+/**
+ * Dimmed inline continuations: after a typing pause the text around the cursor is sent for
+ * completion, and the reply is shown at the cursor until Tab accepts it or the user moves on.
+ */
+export function createGhostTextExtension(options: GhostTextExtensionOptions): Extension {
+  const delayMs = options.delayMs ?? GHOST_TEXT_DELAY_MS;
+
+  const requester = ViewPlugin.fromClass(class {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private pending = false;
+
+    constructor(private view: EditorView) {}
+
+    update(update: ViewUpdate): void {
+      if (update.docChanged || update.selectionSet || (update.focusChanged && !update.view.hasFocus)) {
+        this.cancel();
+      }
+
+      const typed = update.transactions.some(tr => tr.isUserEvent('input.type') || tr.isUserEvent('delete'));
+      if (update.docChanged && typed) {
+        this.timer = setTimeout(() => void this.request(), delayMs);
+      }
+    }
+
+    destroy(): void {
+      this.cancel();
+    }
+
+    private cancel(): void {
+      if (this.timer !== null) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+      if (this.pending) {
+        this.pending = false;
+        options.cancel();
+      }
+    }
+
+    private async request(): Promise<void> {
+      this.timer = null;
+      const state = this.view.state;
+      if (!options.isEnabled(getNotePath(state))) return;
+
+      const request = buildGhostTextRequest(state);
+      if (!request) return;
+
+      this.pending = true;
+      const text = await options.complete(request);
+      // Drop replies that arrive after the user typed, moved or blurred the editor
+      if (!this.pending || this.view.state !== state) return;
+      this.pending = false;
+
+      if (text) {
+        this.view.dispatch({ effects: setGhostText.of({ pos: state.selection.main.head, text }) });
+      }
+    }
+  });
+
+  return [
+    ghostTextField,
+    requester,
+    Prec.highest(keymap.of([
+      { key: 'Tab', run: acceptGhostText },
+      { key: 'Escape', run: dismissGhostText },
+    ])),
+  ];
+}
@@ -1,7 +1,15 @@
 import type { HookCallbackMatcher, Options } from '@anthropic-ai/claude-agent-sdk';
 import { query as agentQuery } from '@anthropic-ai/claude-agent-sdk';
 
+import {
+  checkSearchFolderPolicies,
+  createRedactionHooks,
+  getRedactedSearchExclusions,
+  type SearchExclusionProvider,
+} from '../../core/hooks';
 import { getInlineEditSystemPrompt } from '../../core/prompts/inlineEdit';
+import { checkFolderPolicy, findPoliciesInSearch } from '../../core/security/FolderPolicy';
+import { collectPermissionRules, testPermissionRules } from '../../core/security/PermissionRules';
 import { getPathFromToolInput } from '../../core/tools/toolInput';
 import {
   isReadOnlyTool,
@@ -11,6 +19,7 @@ import {
   TOOL_LS,
   TOOL_READ,
 } from '../../core/tools/toolNames';
+import type { FolderPolicy } from '../../core/types';
 import { THINKING_BUDGETS } from '../../core/types';
 import type ClaudianPlugin from '../../main';
 import { appendContextFiles } from '../../utils/context';
@@ -18,7 +27,7 @@ import { type CursorContext } from '../../utils/editor';
 import { getEnhancedPath, getMissingNodeError, parseEnvironmentVariables } from '../../utils/env';
 import { getPathAccessType, getVaultPath, type PathAccessType } from '../../utils/path';
 
-export type InlineEditMode = 'selection' | 'cursor';
+export type InlineEditMode = 'selection' | 'cursor' | 'note' | 'multi-selection';
 
 export interface InlineEditSelectionRequest {
   mode: 'selection';
@@ -38,18 +47,59 @@ export interface InlineEditCursorRequest {
   contextFiles?: string[];
 }
 
-export type InlineEditRequest = InlineEditSelectionRequest | InlineEditCursorRequest;
+export interface InlineEditNoteRequest {
+  mode: 'note';
+  instruction: string;
+  notePath: string;
+  noteContent: string;
+  contextFiles?: string[];
+}
+
+export interface InlineEditSelectionRange {
+  text: string;
+  startLine: number;  // 1-indexed
+  lineCount: number;
+}
+
+export interface InlineEditMultiSelectionRequest {
+  mode: 'multi-selection';
+  instruction: string;
+  notePath: string;
+  selections: InlineEditSelectionRange[];
+  contextFiles?: string[];
+}
+
+export type InlineEditRequest =
+  | InlineEditSelectionRequest
+  | InlineEditCursorRequest
+  | InlineEditNoteRequest
+  | InlineEditMultiSelectionRequest;
 
 export interface InlineEditResult {
   success: boolean;
-  editedText?: string;      // replacement (selection mode)
+  editedText?: string;      // replacement (selection and note mode)
+  editedTexts?: string[];   // replacement per selection (multi-selection mode)
   insertedText?: string;    // insertion (cursor mode)
   clarification?: string;
   error?: string;
 }
 
+/** A replacement or insertion the agent proposed, kept so earlier alternatives can be revisited. */
+export type InlineEditProposal =
+  | { instruction: string; kind: 'replacement' | 'insertion'; text: string }
+  | { instruction: string; kind: 'replacements'; texts: string[] };
+
 /** Parses response text for <replacement> or <insertion> tag. */
 export function parseInlineEditResponse(responseText: string): InlineEditResult {
+  const indexedMatches = Array.from(responseText.matchAll(/<replacement index="(\d+)">([\s\S]*?)<\/replacement>/g));
+  if (indexedMatches.length > 0) {
+    const editedTexts: string[] = [];
+    for (const [, index, text] of indexedMatches) {
+      editedTexts[Number(index) - 1] = text;
+    }
+    return { success: true, editedTexts };
+  }
+
   const replacementMatch = responseText.match(/<replacement>([\s\S]*?)<\/replacement>/);
   if (replacementMatch) {
     return { success: true, editedText: replacementMatch[1] };
@@ -92,11 +142,34 @@ function buildCursorPrompt(request: InlineEditCursorRequest): string {
   ].join('\n');
 }
 
+function buildNotePrompt(request: InlineEditNoteRequest): string {
+  return [
+    request.instruction,
+    '',
+    `<editor_note path="${request.notePath}">`,
+    request.noteContent,
+    '</editor_note>',
+  ].join('\n');
+}
+
+function buildMultiSelectionPrompt(request: InlineEditMultiSelectionRequest): string {
+  const blocks = request.selections.map((selection, i) => [
+    `<editor_selection index="${i + 1}" path="${request.notePath}" lines="${selection.startLine}-${selection.startLine + selection.lineCount - 1}">`,
+    selection.text,
+    '</editor_selection>',
+  ].join('\n'));
+  return [request.instruction, '', blocks.join('\n\n')].join('\n');
+}
+
 export function buildInlineEditPrompt(request: InlineEditRequest): string {
   let prompt: string;
 
   if (request.mode === 'cursor') {
     prompt = buildCursorPrompt(request);
+  } else if (request.mode === 'note') {
+    prompt = buildNotePrompt(request);
+  } else if (request.mode === 'multi-selection') {
+    prompt = buildMultiSelectionPrompt(request);
   } else {
     // Instruction first for slash command detection
     const lineAttr = request.startLine && request.lineCount
@@ -119,6 +192,35 @@ export function buildInlineEditPrompt(request: InlineEditRequest): string {
   return prompt;
 }
 
+const REFINE_REPLY_FORMATS: Record<InlineEditMode, string> = {
+  selection: 'Reply with the complete new text in <replacement> tags; it replaces my original selection.',
+  cursor: 'Reply with the complete new text in <insertion> tags; it is inserted at the cursor.',
+  note: 'Reply with the complete revised note in <replacement> tags.',
+  'multi-selection': 'Reply with one <replacement index="N"> per selection, in the same order.',
+};
+
+/**
+ * Follow-up asking the agent to revise its proposal. `currentText` is the proposal as the
+ * user left it (with dropped hunks reverted), so the agent builds on what was kept.
+ * In multi-selection mode it holds one indexed replacement per selection.
+ */
+export function buildRefinePrompt(instruction: string, currentText: string, mode: InlineEditMode): string {
+  return [
+    instruction,
+    '',
+    '<current_proposal>',
+    currentText,
+    '</current_proposal>',
+    '',
+    `Revise the proposal above. ${REFINE_REPLY_FORMATS[mode]}`,
+  ].join('\n');
+}
+
+/** Indexed replacements in the multi-selection reply format. */
+export function formatIndexedReplacements(texts: string[]): string {
+  return texts.map((text, i) => `<replacement index="${i + 1}">${text}</replacement>`).join('\n');
+}
+
 export function createReadOnlyHook(): HookCallbackMatcher {
   return {
     hooks: [
@@ -146,7 +248,11 @@ export function createReadOnlyHook(): HookCallbackMatcher {
   };
 }
 
-export function createVaultRestrictionHook(vaultPath: string): HookCallbackMatcher {
+export function createVaultRestrictionHook(
+  vaultPath: string,
+  getFolderPolicies: () => FolderPolicy[] = () => [],
+  getSearchExclusions?: SearchExclusionProvider
+): HookCallbackMatcher {
   const fileTools = [TOOL_READ, TOOL_GLOB, TOOL_GREP, TOOL_LS] as const;
 
   return {
@@ -191,6 +297,52 @@ export function createVaultRestrictionHook(vaultPath: string): HookCallbackMatch
           };
         }
 
+        if (accessType === 'vault') {
+          // Inline edit can't prompt for approval, so "ask" folders are denied like hidden ones
+          const decision = checkFolderPolicy(getFolderPolicies(), filePath, vaultPath, 'read');
+          if (decision) {
+            return {
+              continue: false,
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse' as const,
+                permissionDecision: 'deny' as const,
+                permissionDecisionReason: decision.action === 'ask'
+                  ? `Access denied: "${decision.policy.folder}/" requires approval, which inline edit cannot ask for.`
+                  : decision.reason,
+              },
+            };
+          }
+
+          const search = checkSearchFolderPolicies(
+            toolName,
+            input.tool_input,
+            (root, depth) => findPoliciesInSearch(getFolderPolicies(), root, vaultPath, depth),
+            getSearchExclusions
+          );
+          if (search?.decision) {
+            return {
+              continue: false,
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse' as const,
+                permissionDecision: 'deny' as const,
+                permissionDecisionReason: search.decision.action === 'ask'
+                  ? `Access denied: The search includes "${search.decision.policy.folder}/", which requires approval that inline edit cannot ask for.`
+                  : search.decision.reason,
+              },
+            };
+          }
+          if (search?.updatedInput) {
+            return {
+              continue: true,
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse' as const,
+                updatedInput: search.updatedInput,
+                ...(search.additionalContext && { additionalContext: search.additionalContext }),
+              },
+            };
+          }
+        }
+
         if (accessType === 'vault' || accessType === 'context' || accessType === 'readwrite') {
           return { continue: true };
         }
@@ -234,6 +386,8 @@ export class InlineEditService {
   private plugin: ClaudianPlugin;
   private abortController: AbortController | null = null;
   private sessionId: string | null = null;
+  private mode: InlineEditMode = 'selection';
+  private proposals: InlineEditProposal[] = [];
 
   constructor(plugin: ClaudianPlugin) {
     this.plugin = plugin;
@@ -241,12 +395,19 @@ export class InlineEditService {
 
   resetConversation(): void {
     this.sessionId = null;
+    this.proposals = [];
+  }
+
+  /** Proposals of the current conversation, oldest first. */
+  getProposals(): readonly InlineEditProposal[] {
+    return this.proposals;
   }
 
   async editText(request: InlineEditRequest): Promise<InlineEditResult> {
-    this.sessionId = null;
+    this.resetConversation();
+    this.mode = request.mode;
     const prompt = buildInlineEditPrompt(request);
-    return this.sendMessage(prompt);
+    return this.sendMessage(prompt, request.instruction);
   }
 
   async continueConversation(message: string, contextFiles?: string[]): Promise<InlineEditResult> {
@@ -258,10 +419,18 @@ export class InlineEditService {
     if (contextFiles && contextFiles.length > 0) {
       prompt = appendContextFiles(message, contextFiles);
     }
-    return this.sendMessage(prompt);
+    return this.sendMessage(prompt, message);
   }
 
-  private async sendMessage(prompt: string): Promise<InlineEditResult> {
+  /** Asks for a new version of a proposal; the result is still diffed against the original selection. */
+  async refine(instruction: string, currentText: string): Promise<InlineEditResult> {
+    if (!this.sessionId) {
+      return { success: false, error: 'No active conversation to continue' };
+    }
+    return this.sendMessage(buildRefinePrompt(instruction, currentText, this.mode), instruction);
+  }
+
+  private async sendMessage(prompt: string, instruction: string): Promise<InlineEditResult> {
     const vaultPath = getVaultPath(this.plugin.app);
     if (!vaultPath) {
       return { success: false, error: 'Could not determine vault path' };
@@ -301,7 +470,16 @@ export class InlineEditService {
       hooks: {
         PreToolUse: [
           createReadOnlyHook(),
-          createVaultRestrictionHook(vaultPath),
+          createVaultRestrictionHook(
+            vaultPath,
+            () => this.plugin.settings.folderPolicies,
+            (toolInput, hidden) => getRedactedSearchExclusions(
+              { redactor: this.plugin.redactor, files: this.plugin.redactedFiles },
+              toolInput,
+              hidden
+            )
+          ),
+          this.createRedactionHook(),
         ],
       },
     };
@@ -317,7 +495,8 @@ export class InlineEditService {
     }
 
     try {
-      const response = agentQuery({ prompt, options });
+      // Selections and notes are masked; the reply gets the values back before it is applied
+      const response = agentQuery({ prompt: this.plugin.redactor.redact(prompt).text, options });
       let responseText = '';
 
       for await (const message of response) {
@@ -327,6 +506,9 @@ export class InlineEditService {
         }
 
         if (message.type === 'system' && message.subtype === 'init' && message.session_id) {
+          if (message.session_id !== this.sessionId) {
+            void this.plugin.rememberInternalSession(message.session_id);
+          }
           this.sessionId = message.session_id;
         }
 
@@ -336,7 +518,15 @@ export class InlineEditService {
         }
       }
 
-      return parseInlineEditResponse(responseText);
+      const result = parseInlineEditResponse(this.plugin.redactor.restore(responseText));
+      if (result.editedTexts !== undefined) {
+        this.proposals.push({ instruction, kind: 'replacements', texts: result.editedTexts });
+      } else if (result.editedText !== undefined) {
+        this.proposals.push({ instruction, kind: 'replacement', text: result.editedText });
+      } else if (result.insertedText !== undefined) {
+        this.proposals.push({ instruction, kind: 'insertion', text: result.insertedText });
+      }
+      return result;
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Unknown error';
       return { success: false, error: msg };
@@ -345,6 +535,22 @@ export class InlineEditService {
     }
   }
 
+  /** Masks secrets in files the agent reads; inline edit never writes, so no sync back is needed. */
+  private createRedactionHook(): HookCallbackMatcher {
+    const { redactor, redactedFiles, storage, settings } = this.plugin;
+    return createRedactionHooks({
+      redactor,
+      files: redactedFiles,
+      getPermissionBehavior: async (toolName, input) => {
+        const entries = collectPermissionRules({
+          vault: await storage.getPermissions(),
+          user: settings.loadUserClaudeSettings ? await storage.userCCSettings.getPermissions() : undefined,
+        });
+        return testPermissionRules(entries, toolName, input).decision?.behavior ?? null;
+      },
+    }).preToolUse;
+  }
+
   cancel(): void {
     if (this.abortController) {
       this.abortController.abort();
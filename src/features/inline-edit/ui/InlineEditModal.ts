@@ -1,18 +1,45 @@
 import type { App, Editor} from 'obsidian';
 import { MarkdownView, Notice } from 'obsidian';
 
+import { isPathHidden } from '../../../core/security';
 import type ClaudianPlugin from '../../../main';
 import { hideSelectionHighlight, showSelectionHighlight } from '../../../shared/components/SelectionHighlight';
 import { SlashCommandDropdown } from '../../../shared/components/SlashCommandDropdown';
 import { MentionDropdownController } from '../../../shared/mention/MentionDropdownController';
 import { type CursorContext, getEditorView } from '../../../utils/editor';
-import { escapeHtml, normalizeInsertionText } from '../../../utils/inlineEdit';
+import {
+  applyWordDiff,
+  computeWordDiff,
+  diffTextRegions,
+  escapeHtml,
+  groupWordDiff,
+  normalizeInsertionText,
+  type TextRegion,
+  type WordDiffSegment,
+  wordDiffToHtml,
+} from '../../../utils/inlineEdit';
 import { getVaultPath, normalizePathForVault as normalizePathForVaultUtil } from '../../../utils/path';
-import { type InlineEditMode, InlineEditService } from '../InlineEditService';
+import {
+  formatIndexedReplacements,
+  type InlineEditMode,
+  type InlineEditProposal,
+  type InlineEditRequest,
+  type InlineEditResult,
+  InlineEditService,
+} from '../InlineEditService';
+
+/** A selected range in editor offsets. */
+export interface InlineEditRange {
+  from: number;
+  to: number;
+  text: string;
+}
 
 export type InlineEditContext =
   | { mode: 'selection'; selectedText: string }
-  | { mode: 'cursor'; cursorContext: CursorContext };
+  | { mode: 'cursor'; cursorContext: CursorContext }
+  | { mode: 'note' }
+  | { mode: 'multi-selection'; selections: InlineEditRange[] };
 import { RangeSetBuilder,StateEffect, StateField } from '@codemirror/state';
 import type {
   DecorationSet} from '@codemirror/view';
@@ -28,16 +55,30 @@ const showInlineEdit = StateEffect.define<{
   selTo: number;
   widget: InlineEditController;
   isInbetween?: boolean;
+  /** Ranges to highlight while the input is open (multi-selection mode). */
+  highlights?: Array<{ from: number; to: number }>;
 }>();
-const showDiff = StateEffect.define<{
-  from: number;
-  to: number;
+/** What the diff widget shows for the current proposal. */
+interface DiffWidgetState {
   diffHtml: string;
+  /** 1-based position of the shown proposal in the history. */
+  position: number;
+  total: number;
+  /** Agent reply or error from the last refine. */
+  notice: string | null;
+  isRefining: boolean;
+  /** Index of the edited region this widget previews (several in note and multi-selection mode). */
+  region: number;
+  /** Whether this widget carries the accept/reject, history and refine controls. */
+  showControls: boolean;
+}
+const showDiff = StateEffect.define<{
+  regions: Array<{ from: number; to: number; state: DiffWidgetState }>;
   widget: InlineEditController;
 }>();
 const showInsertion = StateEffect.define<{
   pos: number;
-  diffHtml: string;
+  state: DiffWidgetState;
   widget: InlineEditController;
 }>();
 const hideInlineEdit = StateEffect.define<null>();
@@ -45,17 +86,51 @@ const hideInlineEdit = StateEffect.define<null>();
 let activeController: InlineEditController | null = null;
 
 class DiffWidget extends WidgetType {
-  constructor(private diffHtml: string, private controller: InlineEditController) {
+  constructor(private state: DiffWidgetState, private controller: InlineEditController) {
     super();
   }
   toDOM(): HTMLElement {
     const span = document.createElement('span');
     span.className = 'claudian-inline-diff-replace';
-    span.innerHTML = this.diffHtml;
+    span.innerHTML = this.state.diffHtml;
+    span.addEventListener('click', (e) => {
+      const hunkEl = (e.target as HTMLElement).closest<HTMLElement>('[data-hunk]');
+      if (hunkEl?.dataset.hunk) {
+        this.controller.toggleHunk(this.state.region, Number(hunkEl.dataset.hunk));
+      }
+    });
+
+    if (!this.state.showControls) {
+      return span;
+    }
 
     const btns = document.createElement('span');
     btns.className = 'claudian-inline-diff-buttons';
 
+    if (this.state.total > 1) {
+      const prevBtn = document.createElement('button');
+      prevBtn.className = 'claudian-inline-diff-btn history';
+      prevBtn.textContent = '‹';
+      prevBtn.title = 'Previous proposal';
+      prevBtn.disabled = this.state.position <= 1;
+      prevBtn.onclick = () => this.controller.showProposal(this.state.position - 2);
+
+      const positionEl = document.createElement('span');
+      positionEl.className = 'claudian-inline-diff-position';
+      positionEl.textContent = `${this.state.position}/${this.state.total}`;
+
+      const nextBtn = document.createElement('button');
+      nextBtn.className = 'claudian-inline-diff-btn history';
+      nextBtn.textContent = '›';
+      nextBtn.title = 'Next proposal';
+      nextBtn.disabled = this.state.position >= this.state.total;
+      nextBtn.onclick = () => this.controller.showProposal(this.state.position);
+
+      btns.appendChild(prevBtn);
+      btns.appendChild(positionEl);
+      btns.appendChild(nextBtn);
+    }
+
     const rejectBtn = document.createElement('button');
     rejectBtn.className = 'claudian-inline-diff-btn reject';
     rejectBtn.textContent = '✕';
@@ -70,12 +145,43 @@ class DiffWidget extends WidgetType {
 
     btns.appendChild(rejectBtn);
     btns.appendChild(acceptBtn);
+
+    const refineInput = document.createElement('input');
+    refineInput.type = 'text';
+    refineInput.className = 'claudian-inline-diff-refine';
+    refineInput.placeholder = this.state.isRefining ? 'Refining...' : 'Refine...';
+    refineInput.disabled = this.state.isRefining;
+    refineInput.spellcheck = false;
+    refineInput.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter' || e.isComposing) return;
+      // Keep Enter from reaching the document handler, which accepts the proposal
+      e.preventDefault();
+      e.stopPropagation();
+      const instruction = refineInput.value.trim();
+      if (instruction) {
+        void this.controller.refine(instruction);
+      }
+    });
+    btns.appendChild(refineInput);
     span.appendChild(btns);
 
+    if (this.state.notice) {
+      const noticeEl = document.createElement('span');
+      noticeEl.className = 'claudian-inline-diff-notice';
+      noticeEl.textContent = this.state.notice;
+      span.appendChild(noticeEl);
+    }
+
     return span;
   }
   eq(other: DiffWidget): boolean {
-    return this.diffHtml === other.diffHtml;
+    return this.state.diffHtml === other.state.diffHtml
+      && this.state.position === other.state.position
+      && this.state.total === other.state.total
+      && this.state.notice === other.state.notice
+      && this.state.isRefining === other.state.isRefining
+      && this.state.region === other.state.region
+      && this.state.showControls === other.state.showControls;
   }
   ignoreEvent(): boolean {
     return true;
@@ -111,17 +217,23 @@ const inlineEditField = StateField.define<DecorationSet>({
           block: !isInbetween,
           side: isInbetween ? 1 : -1,
         }));
+        for (const range of e.value.highlights ?? []) {
+          builder.add(range.from, range.to, Decoration.mark({ class: 'claudian-selection-highlight' }));
+        }
         deco = builder.finish();
       } else if (e.is(showDiff)) {
         const builder = new RangeSetBuilder<Decoration>();
-        builder.add(e.value.from, e.value.to, Decoration.replace({
-          widget: new DiffWidget(e.value.diffHtml, e.value.widget),
-        }));
+        for (const region of e.value.regions) {
+          const widget = new DiffWidget(region.state, e.value.widget);
+          builder.add(region.from, region.to, region.from === region.to
+            ? Decoration.widget({ widget, side: 1 })
+            : Decoration.replace({ widget }));
+        }
         deco = builder.finish();
       } else if (e.is(showInsertion)) {
         const builder = new RangeSetBuilder<Decoration>();
         builder.add(e.value.pos, e.value.pos, Decoration.widget({
-          widget: new DiffWidget(e.value.diffHtml, e.value.widget),
+          widget: new DiffWidget(e.value.state, e.value.widget),
           side: 1, // After the position
         }));
         deco = builder.finish();
@@ -136,63 +248,12 @@ const inlineEditField = StateField.define<DecorationSet>({
 
 const installedEditors = new WeakSet<EditorView>();
 
-interface DiffOp { type: 'equal' | 'insert' | 'delete'; text: string; }
-
-function computeDiff(oldText: string, newText: string): DiffOp[] {
-  const oldWords = oldText.split(/(\s+)/);
-  const newWords = newText.split(/(\s+)/);
-  const m = oldWords.length, n = newWords.length;
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      dp[i][j] = oldWords[i-1] === newWords[j-1]
-        ? dp[i-1][j-1] + 1
-        : Math.max(dp[i-1][j], dp[i][j-1]);
-    }
-  }
-
-  const ops: DiffOp[] = [];
-  let i = m, j = n;
-  const temp: DiffOp[] = [];
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && oldWords[i-1] === newWords[j-1]) {
-      temp.push({ type: 'equal', text: oldWords[i-1] });
-      i--; j--;
-    } else if (j > 0 && (i === 0 || dp[i][j-1] >= dp[i-1][j])) {
-      temp.push({ type: 'insert', text: newWords[j-1] });
-      j--;
-    } else {
-      temp.push({ type: 'delete', text: oldWords[i-1] });
-      i--;
-    }
-  }
-
-  temp.reverse();
-  for (const op of temp) {
-    if (ops.length > 0 && ops[ops.length-1].type === op.type) {
-      ops[ops.length-1].text += op.text;
-    } else {
-      ops.push({ ...op });
-    }
-  }
-  return ops;
-}
+export type InlineEditDecision = 'accept' | 'edit' | 'reject';
 
-function diffToHtml(ops: DiffOp[]): string {
-  return ops.map(op => {
-    const escaped = escapeHtml(op.text);
-    switch (op.type) {
-      case 'delete': return `<span class="claudian-diff-del">${escaped}</span>`;
-      case 'insert': return `<span class="claudian-diff-ins">${escaped}</span>`;
-      default: return escaped;
-    }
-  }).join('');
+function hasProposal(result: InlineEditResult): boolean {
+  return result.editedText !== undefined || result.editedTexts !== undefined || result.insertedText !== undefined;
 }
 
-export type InlineEditDecision = 'accept' | 'edit' | 'reject';
-
 export class InlineEditModal {
   private controller: InlineEditController | null = null;
 
@@ -237,11 +298,19 @@ class InlineEditController {
   private spinnerEl: HTMLElement | null = null;
   private agentReplyEl: HTMLElement | null = null;
   private containerEl: HTMLElement | null = null;
-  private editedText: string | null = null;
-  private insertedText: string | null = null;
+  /** Index of the shown proposal in the service's proposal history (-1 before the first). */
+  private proposalIndex = -1;
+  /** Dropped word-level hunks per proposal index, keyed `region:hunk`. */
+  private rejectedHunks = new Map<number, Set<string>>();
+  private isRefining = false;
+  private refineNotice: string | null = null;
+  private isClosed = false;
   private selFrom: number;
   private selTo: number;
+  /** Selected text, or the whole note in note mode. */
   private selectedText: string;
+  /** Selections in multi-selection mode, in document order. */
+  private ranges: InlineEditRange[] = [];
   private startLine: number = 0; // 1-indexed
   private mode: InlineEditMode;
   private cursorContext: CursorContext | null = null;
@@ -267,6 +336,11 @@ class InlineEditController {
     if (editContext.mode === 'cursor') {
       this.cursorContext = editContext.cursorContext;
       this.selectedText = '';
+    } else if (editContext.mode === 'multi-selection') {
+      this.ranges = [...editContext.selections].sort((a, b) => a.from - b.from);
+      this.selectedText = '';
+    } else if (editContext.mode === 'note') {
+      this.selectedText = '';
     } else {
       this.selectedText = editContext.selectedText;
     }
@@ -274,10 +348,24 @@ class InlineEditController {
     this.updatePositionsFromEditor();
   }
 
+  /** Whether the proposal can touch several separate ranges of the note. */
+  private isMultiRegion(): boolean {
+    return this.mode === 'note' || this.mode === 'multi-selection';
+  }
+
   private updatePositionsFromEditor() {
     const doc = this.editorView.state.doc;
 
-    if (this.mode === 'cursor') {
+    if (this.mode === 'note') {
+      this.selFrom = 0;
+      this.selTo = doc.length;
+      this.selectedText = doc.toString();
+      this.startLine = 1;
+    } else if (this.mode === 'multi-selection') {
+      this.selFrom = this.ranges[0]?.from ?? 0;
+      this.selTo = this.ranges[this.ranges.length - 1]?.to ?? this.selFrom;
+      this.startLine = doc.lineAt(this.selFrom).number;
+    } else if (this.mode === 'cursor') {
       const ctx = this.cursorContext as CursorContext;
       const line = doc.line(ctx.line + 1);
       this.selFrom = line.from + ctx.column;
@@ -329,6 +417,7 @@ class InlineEditController {
         selTo: this.selTo,
         widget: this,
         isInbetween,
+        highlights: this.mode === 'multi-selection' ? this.ranges : undefined,
       }),
     });
     this.updateSelectionHighlight();
@@ -380,7 +469,7 @@ class InlineEditController {
     this.inputEl = document.createElement('input');
     this.inputEl.type = 'text';
     this.inputEl.className = 'claudian-inline-input';
-    this.inputEl.placeholder = this.mode === 'cursor' ? 'Insert instructions...' : 'Edit instructions...';
+    this.inputEl.placeholder = this.getInputPlaceholder();
     this.inputEl.spellcheck = false;
     inputWrap.appendChild(this.inputEl);
 
@@ -416,7 +505,8 @@ class InlineEditController {
         getExternalContexts: () => [],
         getCachedMarkdownFiles: () => {
           try {
-            return this.app.vault.getMarkdownFiles();
+            const policies = this.plugin.settings.folderPolicies;
+            return this.app.vault.getMarkdownFiles().filter(file => !isPathHidden(policies, file.path));
           } catch {
             return [];
           }
@@ -453,37 +543,14 @@ class InlineEditController {
     if (this.isConversing) {
       result = await this.inlineEditService.continueConversation(userMessage, contextFiles);
     } else {
-      if (this.mode === 'cursor') {
-        result = await this.inlineEditService.editText({
-          mode: 'cursor',
-          instruction: userMessage,
-          notePath: this.notePath,
-          cursorContext: this.cursorContext as CursorContext,
-          contextFiles,
-        });
-      } else {
-        const lineCount = this.selectedText.split(/\r?\n/).length;
-        result = await this.inlineEditService.editText({
-          mode: 'selection',
-          instruction: userMessage,
-          notePath: this.notePath,
-          selectedText: this.selectedText,
-          startLine: this.startLine,
-          lineCount,
-          contextFiles,
-        });
-      }
+      result = await this.inlineEditService.editText(this.buildRequest(userMessage, contextFiles));
     }
 
     this.spinnerEl.style.display = 'none';
 
     if (result.success) {
-      if (result.editedText !== undefined) {
-        this.editedText = result.editedText;
-        this.showDiffInPlace();
-      } else if (result.insertedText !== undefined) {
-        this.insertedText = result.insertedText;
-        this.showInsertionInPlace();
+      if (hasProposal(result)) {
+        this.showProposal(this.inlineEditService.getProposals().length - 1);
       } else if (result.clarification) {
         this.showAgentReply(result.clarification);
         this.isConversing = true;
@@ -499,6 +566,41 @@ class InlineEditController {
     }
   }
 
+  private getInputPlaceholder(): string {
+    switch (this.mode) {
+      case 'cursor': return 'Insert instructions...';
+      case 'note': return 'Instructions for the whole note...';
+      case 'multi-selection': return `Instructions for all ${this.ranges.length} selections...`;
+      default: return 'Edit instructions...';
+    }
+  }
+
+  private buildRequest(instruction: string, contextFiles: string[]): InlineEditRequest {
+    const base = { instruction, notePath: this.notePath, contextFiles };
+    if (this.mode === 'cursor') {
+      return { ...base, mode: 'cursor', cursorContext: this.cursorContext as CursorContext };
+    }
+    if (this.mode === 'note') {
+      // Pick up edits made while the input was open
+      this.updatePositionsFromEditor();
+      return { ...base, mode: 'note', noteContent: this.selectedText };
+    }
+    if (this.mode === 'multi-selection') {
+      const doc = this.editorView.state.doc;
+      return {
+        ...base,
+        mode: 'multi-selection',
+        selections: this.ranges.map(range => ({
+          text: range.text,
+          startLine: doc.lineAt(range.from).number,
+          lineCount: range.text.split(/\r?\n/).length,
+        })),
+      };
+    }
+    const lineCount = this.selectedText.split(/\r?\n/).length;
+    return { ...base, mode: 'selection', selectedText: this.selectedText, startLine: this.startLine, lineCount };
+  }
+
   private showAgentReply(message: string) {
     if (!this.agentReplyEl || !this.containerEl) return;
     this.agentReplyEl.style.display = 'block';
@@ -516,62 +618,190 @@ class InlineEditController {
     this.inputEl.focus();
   }
 
-  private showDiffInPlace() {
-    if (this.editedText === null) return;
+  /** Shows a proposal from the history; hunk choices are remembered per proposal. */
+  showProposal(index: number) {
+    const proposals = this.inlineEditService.getProposals();
+    if (index < 0 || index >= proposals.length) return;
 
-    hideSelectionHighlight(this.editorView);
+    const isFirstProposal = this.proposalIndex === -1;
+    this.proposalIndex = index;
+    this.refineNotice = null;
+    this.renderProposal();
+
+    if (isFirstProposal) {
+      this.installDecisionKeys();
+    }
+  }
 
-    const diffOps = computeDiff(this.selectedText, this.editedText);
-    const diffHtml = diffToHtml(diffOps);
+  toggleHunk(region: number, hunkIndex: number) {
+    let rejected = this.rejectedHunks.get(this.proposalIndex);
+    if (!rejected) {
+      rejected = new Set();
+      this.rejectedHunks.set(this.proposalIndex, rejected);
+    }
+    const key = `${region}:${hunkIndex}`;
+    if (rejected.has(key)) {
+      rejected.delete(key);
+    } else {
+      rejected.add(key);
+    }
+    this.renderProposal();
+  }
 
-    this.editorView.dispatch({
-      effects: showDiff.of({
-        from: this.selFrom,
-        to: this.selTo,
-        diffHtml,
-        widget: this,
-      }),
-    });
+  /** Asks the agent to revise the shown proposal (as the user left it) and shows the result as a new proposal. */
+  async refine(instruction: string) {
+    const currentText = this.getCurrentText();
+    if (this.isRefining || currentText === null) return;
 
-    if (this.escHandler) {
-      document.removeEventListener('keydown', this.escHandler);
+    this.isRefining = true;
+    this.refineNotice = null;
+    this.renderProposal();
+
+    const result = await this.inlineEditService.refine(instruction, currentText);
+    this.isRefining = false;
+    if (this.isClosed) return;
+
+    if (result.success && hasProposal(result)) {
+      this.showProposal(this.inlineEditService.getProposals().length - 1);
+      return;
     }
-    this.escHandler = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && !e.isComposing) {
-        this.reject();
-      } else if (e.key === 'Enter' && !e.isComposing) {
-        this.accept();
+    this.refineNotice = result.success
+      ? result.clarification ?? 'No response from agent'
+      : result.error || 'Error - try again';
+    this.renderProposal();
+  }
+
+  private getCurrentProposal(): InlineEditProposal | undefined {
+    return this.inlineEditService.getProposals()[this.proposalIndex];
+  }
+
+  /** Ranges the proposal changes, with the text the user currently keeps for each. */
+  private getRegions(proposal: InlineEditProposal): TextRegion[] {
+    if (proposal.kind === 'replacements') {
+      return this.ranges.map((range, i) => ({
+        from: range.from,
+        to: range.to,
+        original: range.text,
+        proposed: proposal.texts[i] ?? range.text,
+      }));
+    }
+    if (proposal.kind === 'insertion') {
+      return [{ from: this.selFrom, to: this.selTo, original: '', proposed: normalizeInsertionText(proposal.text) }];
+    }
+    if (this.mode === 'note') {
+      return diffTextRegions(this.selectedText, proposal.text);
+    }
+    return [{ from: this.selFrom, to: this.selTo, original: this.selectedText, proposed: proposal.text }];
+  }
+
+  private getSegments(region: TextRegion): WordDiffSegment[] {
+    return groupWordDiff(computeWordDiff(region.original, region.proposed));
+  }
+
+  private getRejectedHunks(region: number): Set<number> {
+    const rejected = new Set<number>();
+    for (const key of this.rejectedHunks.get(this.proposalIndex) ?? []) {
+      const [keyRegion, hunk] = key.split(':').map(Number);
+      if (keyRegion === region) rejected.add(hunk);
+    }
+    return rejected;
+  }
+
+  /** Text each region receives on accept: the proposal with dropped hunks reverted. */
+  private getMergedRegions(proposal: InlineEditProposal): Array<TextRegion & { text: string }> {
+    return this.getRegions(proposal).map((region, i) => ({
+      ...region,
+      text: proposal.kind === 'insertion'
+        ? region.proposed
+        : applyWordDiff(this.getSegments(region), this.getRejectedHunks(i)),
+    }));
+  }
+
+  /** The shown proposal as the user left it, in the shape the agent proposed it. */
+  private getCurrentText(): string | null {
+    const proposal = this.getCurrentProposal();
+    if (!proposal) return null;
+
+    const regions = this.getMergedRegions(proposal);
+    if (proposal.kind === 'replacements') {
+      return formatIndexedReplacements(regions.map(region => region.text));
+    }
+    if (this.mode === 'note' && proposal.kind === 'replacement') {
+      let merged = '';
+      let offset = 0;
+      for (const region of regions) {
+        merged += this.selectedText.slice(offset, region.from) + region.text;
+        offset = region.to;
       }
-    };
-    document.addEventListener('keydown', this.escHandler);
+      return merged + this.selectedText.slice(offset);
+    }
+    return regions[0]?.text ?? '';
   }
 
-  private showInsertionInPlace() {
-    if (this.insertedText === null) return;
+  private renderProposal() {
+    const proposals = this.inlineEditService.getProposals();
+    const proposal = proposals[this.proposalIndex];
+    if (!proposal) return;
 
     hideSelectionHighlight(this.editorView);
 
-    const trimmedText = normalizeInsertionText(this.insertedText);
-    this.insertedText = trimmedText;
+    const baseState = {
+      position: this.proposalIndex + 1,
+      total: proposals.length,
+      notice: this.refineNotice,
+      isRefining: this.isRefining,
+    };
 
-    const escaped = escapeHtml(trimmedText);
-    const diffHtml = `<span class="claudian-diff-ins">${escaped}</span>`;
+    if (proposal.kind === 'insertion') {
+      const escaped = escapeHtml(normalizeInsertionText(proposal.text));
+      this.editorView.dispatch({
+        effects: showInsertion.of({
+          pos: this.selFrom,
+          state: { ...baseState, diffHtml: `<span class="claudian-diff-ins">${escaped}</span>`, region: 0, showControls: true },
+          widget: this,
+        }),
+      });
+      return;
+    }
 
-    this.editorView.dispatch({
-      effects: showInsertion.of({
-        pos: this.selFrom,
-        diffHtml,
-        widget: this,
-      }),
+    const regions: Array<{ from: number; to: number; state: DiffWidgetState }> = [];
+    this.getRegions(proposal).forEach((region, i) => {
+      // Multi-region proposals leave most of the note alone; only changed ranges get a widget
+      if (this.isMultiRegion() && region.original === region.proposed) return;
+      regions.push({
+        from: region.from,
+        to: region.to,
+        state: {
+          ...baseState,
+          diffHtml: wordDiffToHtml(this.getSegments(region), this.getRejectedHunks(i)),
+          region: i,
+          showControls: regions.length === 0,
+        },
+      });
     });
 
+    if (regions.length === 0) {
+      this.editorView.dispatch({
+        effects: showInsertion.of({
+          pos: this.selFrom,
+          state: { ...baseState, notice: baseState.notice ?? 'No changes proposed', diffHtml: '', region: 0, showControls: true },
+          widget: this,
+        }),
+      });
+      return;
+    }
+
+    this.editorView.dispatch({ effects: showDiff.of({ regions, widget: this }) });
+  }
+
+  private installDecisionKeys() {
     if (this.escHandler) {
       document.removeEventListener('keydown', this.escHandler);
     }
     this.escHandler = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && !e.isComposing) {
         this.reject();
-      } else if (e.key === 'Enter' && !e.isComposing) {
+      } else if (e.key === 'Enter' && !e.isComposing && !this.isRefining) {
         this.accept();
       }
     };
@@ -579,7 +809,13 @@ class InlineEditController {
   }
 
   accept() {
-    const textToInsert = this.editedText ?? this.insertedText;
+    const proposal = this.getCurrentProposal();
+    if (proposal && this.isMultiRegion()) {
+      this.acceptRegions(proposal);
+      return;
+    }
+
+    const textToInsert = this.getCurrentText();
     if (textToInsert !== null) {
       // Convert CM6 positions back to Obsidian Editor positions
       const doc = this.editorView.state.doc;
@@ -597,6 +833,26 @@ class InlineEditController {
     }
   }
 
+  /** Applies every changed region in one editor transaction, so a single undo reverts them all. */
+  private acceptRegions(proposal: InlineEditProposal) {
+    const editedText = this.getCurrentText() ?? undefined;
+    const changes = this.getMergedRegions(proposal)
+      .filter(region => region.text !== region.original)
+      .map(region => ({
+        from: this.editor.offsetToPos(region.from),
+        to: this.editor.offsetToPos(region.to),
+        text: region.text,
+      }));
+
+    this.cleanup();
+    if (changes.length === 0) {
+      this.resolve({ decision: 'reject' });
+      return;
+    }
+    this.editor.transaction({ changes });
+    this.resolve({ decision: 'accept', editedText });
+  }
+
   reject() {
     this.cleanup({ keepSelectionHighlight: true });
     this.restoreSelectionHighlight();
@@ -612,6 +868,7 @@ class InlineEditController {
   }
 
   private cleanup(options?: { keepSelectionHighlight?: boolean }) {
+    this.isClosed = true;
     this.inlineEditService.cancel();
     this.inlineEditService.resetConversation();
     this.isConversing = false;
@@ -12,10 +12,16 @@ import { expandHomePath } from '../../utils/path';
 import { ClaudianView } from '../chat/ClaudianView';
 import { buildNavMappingText, parseNavMappings } from './keyboardNavigation';
 import { AgentSettings } from './ui/AgentSettings';
+import { AuditLogModal } from './ui/AuditLogModal';
 import { EnvSnippetManager } from './ui/EnvSnippetManager';
+import { FolderPolicySettings } from './ui/FolderPolicySettings';
+import { JobSettings } from './ui/JobSettings';
 import { McpSettingsManager } from './ui/McpSettingsManager';
+import { PermissionRuleSettings } from './ui/PermissionRuleSettings';
 import { PluginSettingsManager } from './ui/PluginSettingsManager';
+import { RedactionSettings } from './ui/RedactionSettings';
 import { SlashCommandSettings } from './ui/SlashCommandSettings';
+import { UsageDashboard } from './ui/UsageDashboard';
 
 function formatHotkey(hotkey: { modifiers: string[]; key: string }): string {
   const isMac = navigator.platform.includes('Mac');
@@ -229,6 +235,39 @@ export class ClaudianSettingTab extends PluginSettingTab {
         });
     }
 
+    new Setting(containerEl)
+      .setName(t('settings.ghostText.name'))
+      .setDesc(t('settings.ghostText.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableGhostText)
+          .onChange(async (value) => {
+            this.plugin.settings.enableGhostText = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.enableGhostText) {
+      new Setting(containerEl)
+        .setName(t('settings.ghostTextFolders.name'))
+        .setDesc(t('settings.ghostTextFolders.desc'))
+        .addTextArea((text) => {
+          text
+            .setPlaceholder('Journal\nProjects/Drafts')
+            .setValue(this.plugin.settings.ghostTextFolders.join('\n'))
+            .onChange(async (value) => {
+              this.plugin.settings.ghostTextFolders = value
+                .split(/\r?\n/)
+                .map((s) => s.trim().replace(/^\/+|\/+$/g, ''))
+                .filter((s) => s.length > 0);
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.rows = 4;
+          text.inputEl.cols = 30;
+        });
+    }
+
     new Setting(containerEl)
       .setName(t('settings.navMappings.name'))
       .setDesc(t('settings.navMappings.desc'))
@@ -378,6 +417,32 @@ export class ClaudianSettingTab extends PluginSettingTab {
       cls: 'setting-item-description',
     });
 
+    new Setting(containerEl)
+      .setName(t('settings.vaultSearch.name'))
+      .setDesc(t('settings.vaultSearch.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableVaultSearch)
+          .onChange(async (value) => {
+            this.plugin.settings.enableVaultSearch = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateBuiltInMcpServers();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.obsidianTools.name'))
+      .setDesc(t('settings.obsidianTools.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableObsidianTools)
+          .onChange(async (value) => {
+            this.plugin.settings.enableObsidianTools = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateBuiltInMcpServers();
+          })
+      );
+
     const mcpContainer = containerEl.createDiv({ cls: 'claudian-mcp-container' });
     new McpSettingsManager(mcpContainer, this.plugin);
 
@@ -392,6 +457,28 @@ export class ClaudianSettingTab extends PluginSettingTab {
     const pluginsContainer = containerEl.createDiv({ cls: 'claudian-plugins-container' });
     new PluginSettingsManager(pluginsContainer, this.plugin);
 
+    new Setting(containerEl).setName(t('settings.jobs.name')).setHeading();
+
+    const jobsDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    jobsDesc.createEl('p', {
+      text: t('settings.jobs.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const jobsContainer = containerEl.createDiv({ cls: 'claudian-jobs-container' });
+    new JobSettings(jobsContainer, this.plugin);
+
+    new Setting(containerEl).setName(t('settings.usage.name')).setHeading();
+
+    const usageDesc = containerEl.createDiv({ cls: 'claudian-usage-settings-desc' });
+    usageDesc.createEl('p', {
+      text: t('settings.usage.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const usageContainer = containerEl.createDiv({ cls: 'claudian-usage-container' });
+    new UsageDashboard(usageContainer, this.plugin);
+
     new Setting(containerEl).setName(t('settings.safety')).setHeading();
 
     new Setting(containerEl)
@@ -406,6 +493,35 @@ export class ClaudianSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName(t('settings.reviewEdits.name'))
+      .setDesc(t('settings.reviewEdits.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.reviewEdits)
+          .onChange(async (value) => {
+            this.plugin.settings.reviewEdits = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.auditLog.name'))
+      .setDesc(t('settings.auditLog.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableAuditLog)
+          .onChange(async (value) => {
+            this.plugin.settings.enableAuditLog = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Open')
+          .onClick(() => new AuditLogModal(this.app, this.plugin).open())
+      );
+
     new Setting(containerEl)
       .setName(t('settings.enableBlocklist.name'))
       .setDesc(t('settings.enableBlocklist.desc'))
@@ -486,6 +602,39 @@ export class ClaudianSettingTab extends PluginSettingTab {
         text.inputEl.addEventListener('blur', () => this.restartServiceForPromptChange());
       });
 
+    new Setting(containerEl).setName(t('settings.permissionRules.name')).setHeading();
+
+    const permissionRulesDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    permissionRulesDesc.createEl('p', {
+      text: t('settings.permissionRules.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const permissionRulesContainer = containerEl.createDiv({ cls: 'claudian-permission-rules-container' });
+    new PermissionRuleSettings(permissionRulesContainer, this.plugin);
+
+    new Setting(containerEl).setName(t('settings.folderPolicies.name')).setHeading();
+
+    const folderPoliciesDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    folderPoliciesDesc.createEl('p', {
+      text: t('settings.folderPolicies.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const folderPoliciesContainer = containerEl.createDiv({ cls: 'claudian-folder-policies-container' });
+    new FolderPolicySettings(folderPoliciesContainer, this.plugin);
+
+    new Setting(containerEl).setName(t('settings.redaction.name')).setHeading();
+
+    const redactionDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    redactionDesc.createEl('p', {
+      text: t('settings.redaction.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const redactionContainer = containerEl.createDiv({ cls: 'claudian-redaction-container' });
+    new RedactionSettings(redactionContainer, this.plugin);
+
     new Setting(containerEl).setName(t('settings.environment')).setHeading();
 
     new Setting(containerEl)
@@ -0,0 +1,182 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon } from 'obsidian';
+
+import {
+  AUDIT_OUTCOMES,
+  auditEntriesToCsv,
+  getAuditDetail,
+  getAuditOutcome,
+  getAuditToolName,
+} from '../../../core/audit';
+import type { AuditEntry, AuditOutcome } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { formatLocalDate, formatLocalTime } from '../../../utils/date';
+
+/** Newest rows rendered; the CSV export always includes every filtered entry. */
+const MAX_VISIBLE_ROWS = 500;
+
+const EVENT_LABELS: Record<AuditEntry['kind'], string> = {
+  tool_use: 'Tool call',
+  tool_result: 'Result',
+  approval: 'Approval',
+  hook_denial: 'Blocked',
+  rewind: 'Rewind',
+};
+
+const ALL = '';
+
+function shortSessionId(sessionId: string | null): string {
+  return sessionId ? sessionId.slice(0, 8) : '—';
+}
+
+/** Browse the audit log, filtered by session, tool and outcome, and export it to CSV. */
+export class AuditLogModal extends Modal {
+  private plugin: ClaudianPlugin;
+  private entries: AuditEntry[] = [];
+  private sessionFilter = ALL;
+  private toolFilter = ALL;
+  private outcomeFilter: AuditOutcome | typeof ALL = ALL;
+
+  constructor(app: App, plugin: ClaudianPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    this.setTitle('Audit log');
+    this.modalEl.addClass('claudian-audit-modal');
+    void this.reload();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      await this.plugin.auditLogger.flush();
+      this.entries = await this.plugin.storage.audit.loadEntries();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to load audit log: ${message}`);
+      this.entries = [];
+    }
+    this.render();
+  }
+
+  private getFilteredEntries(): AuditEntry[] {
+    return this.entries.filter(entry =>
+      (this.sessionFilter === ALL || (entry.sessionId ?? '') === this.sessionFilter)
+      && (this.toolFilter === ALL || getAuditToolName(entry) === this.toolFilter)
+      && (this.outcomeFilter === ALL || getAuditOutcome(entry) === this.outcomeFilter)
+    );
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (!this.plugin.settings.enableAuditLog) {
+      contentEl.createDiv({
+        cls: 'setting-item-description claudian-audit-note',
+        text: 'Audit logging is off. Turn it on in Settings → Safety to record new tool calls.',
+      });
+    }
+
+    const toolbarEl = contentEl.createDiv({ cls: 'claudian-audit-toolbar' });
+    const sessions = [...new Set(this.entries.map(entry => entry.sessionId ?? ''))];
+    this.renderFilter(toolbarEl, 'All sessions', sessions.map(id => [id, id ? shortSessionId(id) : '(no session)']),
+      this.sessionFilter, value => { this.sessionFilter = value; });
+
+    const tools = [...new Set(this.entries.map(getAuditToolName).filter(Boolean))].sort();
+    this.renderFilter(toolbarEl, 'All tools', tools.map(tool => [tool, tool]),
+      this.toolFilter, value => { this.toolFilter = value; });
+
+    this.renderFilter(toolbarEl, 'All outcomes', AUDIT_OUTCOMES.map(outcome => [outcome, outcome]),
+      this.outcomeFilter, value => { this.outcomeFilter = value as AuditOutcome | typeof ALL; });
+
+    const actionsEl = toolbarEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const refreshBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Refresh' },
+    });
+    setIcon(refreshBtn, 'refresh-cw');
+    refreshBtn.addEventListener('click', () => void this.reload());
+
+    const filtered = this.getFilteredEntries();
+
+    const exportBtn = actionsEl.createEl('button', { text: 'Export CSV' });
+    exportBtn.disabled = filtered.length === 0;
+    exportBtn.addEventListener('click', () => void this.exportCsv(filtered));
+
+    if (filtered.length === 0) {
+      contentEl.createDiv({
+        cls: 'claudian-sp-empty-state',
+        text: this.entries.length === 0 ? 'No audit entries recorded yet.' : 'No entries match the filters.',
+      });
+      return;
+    }
+
+    const visible = filtered.slice(-MAX_VISIBLE_ROWS).reverse();
+    const tableWrapper = contentEl.createDiv({ cls: 'claudian-audit-table-wrapper' });
+    const table = tableWrapper.createEl('table', { cls: 'claudian-audit-table' });
+    const headRow = table.createEl('thead').createEl('tr');
+    for (const heading of ['Time', 'Session', 'Event', 'Tool', 'Outcome', 'Detail']) {
+      headRow.createEl('th', { text: heading });
+    }
+
+    const body = table.createEl('tbody');
+    for (const entry of visible) {
+      const outcome = getAuditOutcome(entry);
+      const row = body.createEl('tr');
+      row.createEl('td', {
+        cls: 'claudian-audit-time',
+        text: `${formatLocalDate(entry.timestamp)} ${formatLocalTime(entry.timestamp)}`,
+      });
+      row.createEl('td', { text: shortSessionId(entry.sessionId), attr: { title: entry.sessionId ?? '' } });
+      row.createEl('td', { text: EVENT_LABELS[entry.kind] });
+      row.createEl('td', { text: getAuditToolName(entry) });
+      row.createEl('td', { cls: `claudian-audit-outcome claudian-audit-outcome-${outcome}`, text: outcome });
+      const detail = getAuditDetail(entry);
+      row.createEl('td', { cls: 'claudian-audit-detail', text: detail, attr: { title: detail } });
+    }
+
+    if (filtered.length > MAX_VISIBLE_ROWS) {
+      contentEl.createDiv({
+        cls: 'setting-item-description claudian-audit-note',
+        text: `Showing the newest ${MAX_VISIBLE_ROWS} of ${filtered.length} entries. Export to CSV to see all.`,
+      });
+    }
+  }
+
+  private renderFilter(
+    parentEl: HTMLElement,
+    allLabel: string,
+    options: [string, string][],
+    selected: string,
+    onChange: (value: string) => void
+  ): void {
+    const select = parentEl.createEl('select', { cls: 'dropdown' });
+    select.createEl('option', { text: allLabel, attr: { value: ALL } });
+    for (const [value, label] of options) {
+      const option = select.createEl('option', { text: label, attr: { value } });
+      option.selected = value === selected;
+    }
+    select.addEventListener('change', () => {
+      onChange(select.value);
+      this.render();
+    });
+  }
+
+  private async exportCsv(entries: AuditEntry[]): Promise<void> {
+    const now = Date.now();
+    const stamp = `${formatLocalDate(now)}-${formatLocalTime(now).replace(':', '')}`;
+    try {
+      const filePath = await this.plugin.storage.audit.writeExport(`export-${stamp}.csv`, auditEntriesToCsv(entries));
+      new Notice(`Exported ${entries.length} audit entries to ${filePath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to export audit log: ${message}`);
+    }
+  }
+}
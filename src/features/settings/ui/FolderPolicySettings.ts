@@ -0,0 +1,180 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import { FOLDER_ACCESS_LEVELS, normalizeFolderPath } from '../../../core/security/FolderPolicy';
+import type { FolderAccess, FolderPolicy } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { confirmDelete } from '../../../shared/modals/ConfirmModal';
+
+const ACCESS_LABELS: Record<FolderAccess, string> = {
+  readonly: 'Read-only',
+  ask: 'Ask',
+  hidden: 'Hidden',
+};
+
+const ACCESS_DESCRIPTIONS: Record<FolderAccess, string> = {
+  readonly: 'Claude can read files but not create, edit or delete them.',
+  ask: 'Every read or write asks for approval, even in YOLO mode.',
+  hidden: 'Claude cannot access the folder, and its notes are left out of @-mentions.',
+};
+
+class FolderPolicyModal extends Modal {
+  private existing: FolderPolicy | null;
+  private onSave: (policy: FolderPolicy) => Promise<void>;
+
+  constructor(app: App, existing: FolderPolicy | null, onSave: (policy: FolderPolicy) => Promise<void>) {
+    super(app);
+    this.existing = existing;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existing ? 'Edit folder policy' : 'Add folder policy');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+    const draft: FolderPolicy = {
+      folder: this.existing?.folder ?? '',
+      access: this.existing?.access ?? 'readonly',
+    };
+
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc('Vault-relative path. Applies to everything inside it; a policy on a subfolder takes precedence.')
+      .addText(text => {
+        text.setPlaceholder('Journal').setValue(draft.folder).onChange(value => {
+          draft.folder = value;
+        });
+        const datalist = contentEl.createEl('datalist', { attr: { id: 'claudian-folder-policy-folders' } });
+        // getAllFolders needs Obsidian 1.6.6; older versions just get no suggestions
+        for (const folder of this.app.vault.getAllFolders?.() ?? []) {
+          datalist.createEl('option', { attr: { value: folder.path } });
+        }
+        text.inputEl.setAttribute('list', 'claudian-folder-policy-folders');
+      });
+
+    const accessSetting = new Setting(contentEl)
+      .setName('Access')
+      .setDesc(ACCESS_DESCRIPTIONS[draft.access])
+      .addDropdown(dropdown => {
+        for (const access of FOLDER_ACCESS_LEVELS) {
+          dropdown.addOption(access, ACCESS_LABELS[access]);
+        }
+        dropdown.setValue(draft.access).onChange(value => {
+          draft.access = value as FolderAccess;
+          accessSetting.setDesc(ACCESS_DESCRIPTIONS[draft.access]);
+        });
+      });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'claudian-save-btn mod-cta' });
+    saveBtn.addEventListener('click', async () => {
+      const folder = normalizeFolderPath(draft.folder);
+      if (!folder || folder.split('/').includes('..')) {
+        new Notice('Enter a folder inside the vault');
+        return;
+      }
+      try {
+        await this.onSave({ folder, access: draft.access });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        new Notice(`Failed to save folder policy: ${message}`);
+        return;
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/** Read-only, ask and hidden policies for vault folders. */
+export class FolderPolicySettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: 'Folders', cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openModal(null));
+
+    const policies = [...this.plugin.settings.folderPolicies]
+      .sort((a, b) => a.folder.localeCompare(b.folder));
+    if (policies.length === 0) {
+      this.containerEl.createDiv({ cls: 'claudian-sp-empty-state', text: 'No folder policies.' });
+      return;
+    }
+
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-sp-list' });
+    for (const policy of policies) {
+      this.renderItem(listEl, policy);
+    }
+  }
+
+  private renderItem(listEl: HTMLElement, policy: FolderPolicy): void {
+    const itemEl = listEl.createDiv({ cls: 'claudian-sp-item claudian-folder-policy' });
+
+    const infoEl = itemEl.createDiv({ cls: 'claudian-sp-info' });
+    const headerRow = infoEl.createDiv({ cls: 'claudian-sp-item-header' });
+    headerRow.createSpan({ cls: 'claudian-sp-item-name claudian-folder-policy-path', text: `${policy.folder}/` });
+    headerRow.createSpan({
+      cls: `claudian-slash-item-badge claudian-folder-policy-${policy.access}`,
+      text: ACCESS_LABELS[policy.access],
+    });
+
+    const actionsEl = itemEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Edit' },
+    });
+    setIcon(editBtn, 'pencil');
+    editBtn.addEventListener('click', () => this.openModal(policy));
+
+    const deleteBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+      attr: { 'aria-label': 'Delete' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', async () => {
+      const confirmed = await confirmDelete(this.plugin.app, `Delete the policy for "${policy.folder}/"?`);
+      if (!confirmed) return;
+      await this.save(this.plugin.settings.folderPolicies.filter(p => p.folder !== policy.folder));
+    });
+  }
+
+  private openModal(existing: FolderPolicy | null): void {
+    new FolderPolicyModal(this.plugin.app, existing, async (policy) => {
+      const others = this.plugin.settings.folderPolicies.filter(p =>
+        p.folder !== existing?.folder && p.folder !== policy.folder
+      );
+      await this.save([...others, policy]);
+    }).open();
+  }
+
+  private async save(policies: FolderPolicy[]): Promise<void> {
+    this.plugin.settings.folderPolicies = policies;
+    await this.plugin.saveSettings();
+    this.render();
+  }
+}
@@ -0,0 +1,405 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import { getNextRunTime } from '../../../core/jobs';
+import type { JobRun, JobTrigger, PermissionMode, ScheduledJob } from '../../../core/types';
+import { createScheduledJob, MIN_JOB_INTERVAL_MINUTES } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { confirmDelete } from '../../../shared/modals/ConfirmModal';
+import { formatLocalDate, formatLocalTime } from '../../../utils/date';
+
+const TRIGGER_OPTIONS: { value: JobTrigger; label: string }[] = [
+  { value: 'daily', label: 'Every day at' },
+  { value: 'interval', label: 'Every N minutes' },
+  { value: 'startup', label: 'When Obsidian opens' },
+];
+
+const PERMISSION_OPTIONS: { value: PermissionMode; label: string }[] = [
+  { value: 'normal', label: 'Safe (edits allowed, other tools denied)' },
+  { value: 'plan', label: 'Plan (read-only)' },
+  { value: 'yolo', label: 'YOLO (all tools allowed)' },
+];
+
+const CAUSE_LABELS: Record<JobRun['cause'], string> = {
+  schedule: 'scheduled',
+  startup: 'startup',
+  manual: 'manual',
+};
+
+/** Rows shown in the run history of each job. */
+const MAX_HISTORY_ROWS = 10;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function formatTimestamp(timestamp: number): string {
+  return `${formatLocalDate(timestamp)} ${formatLocalTime(timestamp)}`;
+}
+
+function describeSchedule(job: ScheduledJob): string {
+  switch (job.trigger) {
+    case 'daily':
+      return `Daily at ${job.time}`;
+    case 'interval':
+      return `Every ${job.intervalMinutes} min`;
+    case 'startup':
+      return 'When Obsidian opens';
+  }
+}
+
+class JobModal extends Modal {
+  private plugin: ClaudianPlugin;
+  private existingJob: ScheduledJob | null;
+  private onSave: (job: ScheduledJob) => Promise<void>;
+
+  constructor(
+    app: App,
+    plugin: ClaudianPlugin,
+    existingJob: ScheduledJob | null,
+    onSave: (job: ScheduledJob) => Promise<void>
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.existingJob = existingJob;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existingJob ? 'Edit scheduled job' : 'Add scheduled job');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+    const draft: ScheduledJob = this.existingJob
+      ? { ...this.existingJob }
+      : createScheduledJob(`job-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`);
+
+    new Setting(contentEl)
+      .setName('Name')
+      .setDesc('Also used in the result note name.')
+      .addText(text => {
+        text.setValue(draft.name).onChange(value => { draft.name = value; });
+      });
+
+    new Setting(contentEl)
+      .setName('Prompt')
+      .setDesc('Prompt text or a slash command with arguments, e.g. /daily-review.');
+
+    const promptArea = contentEl.createEl('textarea', {
+      cls: 'claudian-sp-content-area',
+      attr: { rows: '6', placeholder: 'Summarize the notes I changed yesterday' },
+    });
+    promptArea.value = draft.prompt;
+
+    new Setting(contentEl)
+      .setName('Schedule')
+      .addDropdown(dropdown => {
+        for (const option of TRIGGER_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(draft.trigger).onChange(value => {
+          draft.trigger = value as JobTrigger;
+          updateScheduleFields();
+        });
+      });
+
+    const timeSetting = new Setting(contentEl)
+      .setName('Time')
+      .setDesc('Local time (HH:MM). Runs missed while Obsidian was closed run once when it opens.')
+      .addText(text => {
+        text.setPlaceholder('08:00').setValue(draft.time).onChange(value => { draft.time = value.trim(); });
+      });
+
+    const intervalSetting = new Setting(contentEl)
+      .setName('Interval (minutes)')
+      .setDesc(`At least ${MIN_JOB_INTERVAL_MINUTES} minutes.`)
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.setValue(String(draft.intervalMinutes)).onChange(value => {
+          draft.intervalMinutes = Number(value);
+        });
+      });
+
+    const updateScheduleFields = () => {
+      timeSetting.settingEl.toggle(draft.trigger === 'daily');
+      intervalSetting.settingEl.toggle(draft.trigger === 'interval');
+    };
+    updateScheduleFields();
+
+    new Setting(contentEl)
+      .setName('Model')
+      .setDesc('Model ID or alias. Leave empty to use the chat model.')
+      .addText(text => {
+        text.setPlaceholder(this.plugin.settings.model).setValue(draft.model).onChange(value => {
+          draft.model = value.trim();
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Permission mode')
+      .setDesc('Jobs run unattended, so tools that need approval are denied unless YOLO is selected.')
+      .addDropdown(dropdown => {
+        for (const option of PERMISSION_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(draft.permissionMode).onChange(value => {
+          draft.permissionMode = value as PermissionMode;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Output folder')
+      .setDesc('Results are appended to "<date> <name>.md" in this folder.')
+      .addText(text => {
+        text.setValue(draft.outputFolder).onChange(value => { draft.outputFolder = value; });
+      });
+
+    new Setting(contentEl)
+      .setName('Open in chat tab')
+      .setDesc('Open each finished run as a conversation in a new tab so you can follow up.')
+      .addToggle(toggle => {
+        toggle.setValue(draft.openInTab).onChange(value => { draft.openInTab = value; });
+      });
+
+    new Setting(contentEl)
+      .setName('Enabled')
+      .addToggle(toggle => {
+        toggle.setValue(draft.enabled).onChange(value => { draft.enabled = value; });
+      });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'claudian-save-btn mod-cta' });
+    saveBtn.addEventListener('click', async () => {
+      draft.name = draft.name.trim();
+      draft.prompt = promptArea.value.trim();
+      draft.outputFolder = draft.outputFolder.trim().replace(/^\/+|\/+$/g, '');
+
+      if (!draft.name) {
+        new Notice('Job name is required');
+        return;
+      }
+      if (!draft.prompt) {
+        new Notice('Prompt is required');
+        return;
+      }
+      if (draft.trigger === 'daily' && !TIME_PATTERN.test(draft.time)) {
+        new Notice('Time must be in HH:MM format');
+        return;
+      }
+      if (draft.trigger === 'interval' &&
+          (!Number.isFinite(draft.intervalMinutes) || draft.intervalMinutes < MIN_JOB_INTERVAL_MINUTES)) {
+        new Notice(`Interval must be at least ${MIN_JOB_INTERVAL_MINUTES} minutes`);
+        return;
+      }
+      draft.intervalMinutes = Math.round(draft.intervalMinutes);
+
+      try {
+        await this.onSave(draft);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        new Notice(`Failed to save job: ${message}`);
+        return;
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class JobSettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private expandedJobIds = new Set<string>();
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+
+    const unsubscribe = this.plugin.jobScheduler.onChange(() => {
+      // The settings tab re-creates this section on every open; drop stale listeners
+      if (!this.containerEl.isConnected) {
+        unsubscribe();
+        return;
+      }
+      this.render();
+    });
+
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: 'Jobs', cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openJobModal(null));
+
+    const jobs = this.plugin.settings.scheduledJobs;
+    if (jobs.length === 0) {
+      this.containerEl.createDiv({ cls: 'claudian-sp-empty-state', text: 'No scheduled jobs.' });
+      return;
+    }
+
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-sp-list' });
+    for (const job of jobs) {
+      this.renderJobItem(listEl, job);
+    }
+  }
+
+  private renderJobItem(listEl: HTMLElement, job: ScheduledJob): void {
+    const wrapperEl = listEl.createDiv({ cls: 'claudian-job' });
+    const itemEl = wrapperEl.createDiv({ cls: 'claudian-sp-item' });
+    if (!job.enabled) {
+      itemEl.addClass('claudian-job-disabled');
+    }
+
+    const infoEl = itemEl.createDiv({ cls: 'claudian-sp-info' });
+    const headerRow = infoEl.createDiv({ cls: 'claudian-sp-item-header' });
+    headerRow.createSpan({ cls: 'claudian-sp-item-name', text: job.name });
+    headerRow.createSpan({ cls: 'claudian-slash-item-badge', text: job.enabled ? describeSchedule(job) : 'Disabled' });
+
+    infoEl.createDiv({ cls: 'claudian-sp-item-desc', text: job.prompt });
+
+    const isPending = this.plugin.jobScheduler.isPending(job.id);
+    const isRunning = this.plugin.jobScheduler.getActiveJobId() === job.id;
+    const statusEl = infoEl.createDiv({ cls: 'claudian-job-status' });
+    const lastRun = job.history[0];
+    const parts: string[] = [];
+    if (isRunning) {
+      parts.push('Running…');
+    } else if (isPending) {
+      parts.push('Queued');
+    }
+    if (lastRun) {
+      parts.push(`Last run ${formatTimestamp(lastRun.startedAt)} (${lastRun.status === 'success' ? 'succeeded' : 'failed'})`);
+    }
+    const nextRun = getNextRunTime(job);
+    if (nextRun !== null) {
+      parts.push(`Next ${nextRun <= Date.now() ? 'now' : formatTimestamp(nextRun)}`);
+    }
+    statusEl.setText(parts.join(' · ') || 'Never run');
+
+    if (lastRun?.status === 'error' && lastRun.error) {
+      infoEl.createDiv({ cls: 'claudian-job-error', text: lastRun.error });
+    }
+
+    const actionsEl = itemEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+    const runBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Run now' },
+    });
+    setIcon(runBtn, 'play');
+    runBtn.disabled = isPending;
+    runBtn.addEventListener('click', () => {
+      if (!this.plugin.jobScheduler.runNow(job.id)) {
+        new Notice(`"${job.name}" is already running`);
+      }
+    });
+
+    if (job.history.length > 0) {
+      const historyBtn = actionsEl.createEl('button', {
+        cls: 'claudian-settings-action-btn',
+        attr: { 'aria-label': 'Run history' },
+      });
+      setIcon(historyBtn, 'history');
+      historyBtn.addEventListener('click', () => {
+        if (this.expandedJobIds.has(job.id)) {
+          this.expandedJobIds.delete(job.id);
+        } else {
+          this.expandedJobIds.add(job.id);
+        }
+        this.render();
+      });
+    }
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Edit' },
+    });
+    setIcon(editBtn, 'pencil');
+    editBtn.addEventListener('click', () => this.openJobModal(job));
+
+    const deleteBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+      attr: { 'aria-label': 'Delete' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', async () => {
+      const confirmed = await confirmDelete(this.plugin.app, `Delete scheduled job "${job.name}"?`);
+      if (!confirmed) return;
+      this.plugin.settings.scheduledJobs = this.plugin.settings.scheduledJobs.filter(j => j.id !== job.id);
+      await this.plugin.saveSettings();
+      this.render();
+    });
+
+    if (this.expandedJobIds.has(job.id)) {
+      this.renderHistory(wrapperEl, job);
+    }
+  }
+
+  private renderHistory(wrapperEl: HTMLElement, job: ScheduledJob): void {
+    const historyEl = wrapperEl.createDiv({ cls: 'claudian-job-history' });
+
+    for (const run of job.history.slice(0, MAX_HISTORY_ROWS)) {
+      const rowEl = historyEl.createDiv({ cls: `claudian-job-run claudian-job-run-${run.status}` });
+      const iconEl = rowEl.createSpan({ cls: 'claudian-job-run-icon' });
+      setIcon(iconEl, run.status === 'success' ? 'check' : 'x');
+
+      const seconds = Math.max(0, Math.round((run.finishedAt - run.startedAt) / 1000));
+      rowEl.createSpan({
+        cls: 'claudian-job-run-time',
+        text: `${formatTimestamp(run.startedAt)} · ${CAUSE_LABELS[run.cause]} · ${seconds}s`,
+      });
+
+      if (run.status === 'error') {
+        rowEl.createSpan({ cls: 'claudian-job-run-error', text: run.error ?? 'Unknown error' });
+      }
+
+      const notePath = run.notePath;
+      if (notePath) {
+        const noteLink = rowEl.createEl('a', { cls: 'claudian-job-run-link', text: 'Note' });
+        noteLink.addEventListener('click', () => {
+          void this.plugin.app.workspace.openLinkText(notePath, '', 'tab');
+        });
+      }
+
+      if (run.sessionId) {
+        const chatLink = rowEl.createEl('a', { cls: 'claudian-job-run-link', text: 'Conversation' });
+        chatLink.addEventListener('click', async () => {
+          if (!(await this.plugin.openJobRun(run))) {
+            new Notice('The session for this run could not be found');
+          }
+        });
+      }
+    }
+  }
+
+  private openJobModal(existingJob: ScheduledJob | null): void {
+    new JobModal(this.plugin.app, this.plugin, existingJob, (job) => this.saveJob(job)).open();
+  }
+
+  private async saveJob(job: ScheduledJob): Promise<void> {
+    const jobs = this.plugin.settings.scheduledJobs;
+    const index = jobs.findIndex(j => j.id === job.id);
+    if (index === -1) {
+      this.plugin.settings.scheduledJobs = [...jobs, job];
+    } else {
+      // Keep runs recorded while the modal was open
+      this.plugin.settings.scheduledJobs = jobs.map((j, i) => (i === index ? { ...job, history: j.history } : j));
+    }
+    await this.plugin.saveSettings();
+    this.render();
+  }
+}
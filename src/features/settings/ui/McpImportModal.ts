@@ -0,0 +1,204 @@
+import type { App } from 'obsidian';
+import { Modal } from 'obsidian';
+
+import type {
+  McpConflictResolution,
+  McpImportChoice,
+  McpImportEntry,
+  McpImportSource,
+} from '../../../core/mcp/McpConfigImport';
+import { buildMcpImportPlan } from '../../../core/mcp/McpConfigImport';
+import type { ClaudianMcpServer, McpServerConfig } from '../../../core/types';
+
+const STATUS_LABELS: Record<McpImportEntry['status'], string> = {
+  new: 'New',
+  unchanged: 'Already configured',
+  conflict: 'Name in use',
+};
+
+function formatConfigPreview(config: McpServerConfig): string {
+  if ('command' in config) {
+    return [config.command, ...(config.args ?? [])].join(' ');
+  }
+  return config.url;
+}
+
+/** Lists env/header names only; values may be secrets. */
+function formatConfigKeys(config: McpServerConfig): string | null {
+  const record = 'command' in config ? config.env : config.headers;
+  const keys = Object.keys(record ?? {});
+  if (keys.length === 0) return null;
+  return `${'command' in config ? 'env' : 'headers'}: ${keys.join(', ')}`;
+}
+
+interface EntryState {
+  entry: McpImportEntry;
+  selected: boolean;
+  resolution: McpConflictResolution;
+  name: string;
+}
+
+/** Import wizard: pick a discovered config, review what changes, resolve name conflicts. */
+export class McpImportModal extends Modal {
+  private sources: McpImportSource[];
+  private existing: ClaudianMcpServer[];
+  private onImport: (choices: McpImportChoice[]) => Promise<void>;
+  private sourceIndex = 0;
+  private entries: EntryState[] = [];
+
+  constructor(
+    app: App,
+    sources: McpImportSource[],
+    existing: ClaudianMcpServer[],
+    onImport: (choices: McpImportChoice[]) => Promise<void>
+  ) {
+    super(app);
+    this.sources = sources;
+    this.existing = existing;
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    this.setTitle('Import MCP servers');
+    this.modalEl.addClass('claudian-mcp-import-modal');
+
+    if (this.sources.length === 0) {
+      this.contentEl.createDiv({
+        cls: 'claudian-mcp-import-empty',
+        text: 'No MCP configs found from Claude Desktop, Claude Code (~/.claude.json, .mcp.json), Cursor, Windsurf or VS Code.',
+      });
+      return;
+    }
+
+    this.selectSource(0);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private selectSource(index: number): void {
+    this.sourceIndex = index;
+    const plan = buildMcpImportPlan(this.existing, this.sources[index].servers);
+    this.entries = plan.map(entry => ({
+      entry,
+      selected: entry.status !== 'unchanged',
+      resolution: 'rename',
+      name: entry.suggestedName,
+    }));
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const sourceRow = contentEl.createDiv({ cls: 'claudian-mcp-import-source' });
+    const select = sourceRow.createEl('select', { cls: 'dropdown' });
+    this.sources.forEach((source, i) => {
+      const option = select.createEl('option', {
+        text: `${source.label} (${source.servers.length})`,
+        attr: { value: String(i) },
+      });
+      option.selected = i === this.sourceIndex;
+    });
+    select.addEventListener('change', () => this.selectSource(Number(select.value)));
+    sourceRow.createDiv({ cls: 'claudian-mcp-import-path', text: this.sources[this.sourceIndex].path });
+
+    const listEl = contentEl.createDiv({ cls: 'claudian-mcp-import-list' });
+    for (const state of this.entries) {
+      this.renderEntry(listEl, state);
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-mcp-buttons' });
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const count = this.getChoices().length;
+    const importBtn = buttonContainer.createEl('button', {
+      text: count > 0 ? `Import ${count}` : 'Import',
+      cls: 'claudian-save-btn mod-cta',
+    });
+    importBtn.disabled = count === 0;
+    importBtn.addEventListener('click', async () => {
+      importBtn.disabled = true;
+      await this.onImport(this.getChoices());
+      this.close();
+    });
+  }
+
+  private renderEntry(listEl: HTMLElement, state: EntryState): void {
+    const { entry } = state;
+    const itemEl = listEl.createDiv({ cls: `claudian-mcp-import-item is-${entry.status}` });
+
+    const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+    checkbox.checked = state.selected;
+    checkbox.disabled = entry.status === 'unchanged';
+    checkbox.addEventListener('change', () => {
+      state.selected = checkbox.checked;
+      this.render();
+    });
+
+    const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-import-info' });
+    const nameRow = infoEl.createDiv({ cls: 'claudian-mcp-name-row' });
+    nameRow.createSpan({ cls: 'claudian-mcp-name', text: entry.name });
+    nameRow.createSpan({ cls: 'claudian-mcp-import-status', text: STATUS_LABELS[entry.status] });
+
+    if (entry.status === 'conflict' && entry.existing) {
+      infoEl.createDiv({
+        cls: 'claudian-mcp-preview claudian-mcp-import-removed',
+        text: `− ${formatConfigPreview(entry.existing.config)}`,
+      });
+      infoEl.createDiv({
+        cls: 'claudian-mcp-preview claudian-mcp-import-added',
+        text: `+ ${formatConfigPreview(entry.config)}`,
+      });
+    } else {
+      infoEl.createDiv({ cls: 'claudian-mcp-preview', text: formatConfigPreview(entry.config) });
+    }
+
+    const keys = formatConfigKeys(entry.config);
+    if (keys) {
+      infoEl.createDiv({ cls: 'claudian-mcp-import-keys', text: keys });
+    }
+
+    if (entry.status === 'conflict' && state.selected) {
+      this.renderConflictControls(infoEl, state);
+    }
+  }
+
+  private renderConflictControls(parentEl: HTMLElement, state: EntryState): void {
+    const rowEl = parentEl.createDiv({ cls: 'claudian-mcp-import-resolve' });
+
+    const select = rowEl.createEl('select', { cls: 'dropdown' });
+    const options: Array<[McpConflictResolution, string]> = [
+      ['rename', 'Add as'],
+      ['replace', 'Replace existing'],
+    ];
+    for (const [value, label] of options) {
+      const option = select.createEl('option', { text: label, attr: { value } });
+      option.selected = value === state.resolution;
+    }
+    select.addEventListener('change', () => {
+      state.resolution = select.value as McpConflictResolution;
+      this.render();
+    });
+
+    if (state.resolution === 'rename') {
+      const input = rowEl.createEl('input', { type: 'text', value: state.name });
+      input.addEventListener('input', () => {
+        state.name = input.value;
+      });
+    }
+  }
+
+  private getChoices(): McpImportChoice[] {
+    return this.entries
+      .filter(state => state.selected && state.entry.status !== 'unchanged')
+      .map(state => ({
+        entry: state.entry,
+        resolution: state.resolution,
+        name: state.entry.status === 'conflict' ? state.name : undefined,
+      }));
+  }
+}
@@ -26,6 +26,9 @@ export class McpServerModal extends Modal {
   private env = '';
   private url = '';
   private headers = '';
+  private oauthEnabled = false;
+  private oauthClientId = '';
+  private oauthScope = '';
   private typeFieldsEl: HTMLElement | null = null;
   private nameInputEl: HTMLInputElement | null = null;
 
@@ -47,6 +50,9 @@ export class McpServerModal extends Modal {
       this.serverType = getMcpServerType(existingServer.config);
       this.enabled = existingServer.enabled;
       this.contextSaving = existingServer.contextSaving;
+      this.oauthEnabled = !!existingServer.oauth;
+      this.oauthClientId = existingServer.oauth?.clientId ?? '';
+      this.oauthScope = existingServer.oauth?.scope ?? '';
       this.initFromConfig(existingServer.config);
     } else if (prefillConfig) {
       this.serverName = prefillConfig.name;
@@ -176,7 +182,7 @@ export class McpServerModal extends Modal {
 
     const envSetting = new Setting(this.typeFieldsEl)
       .setName('Environment variables')
-      .setDesc('KEY=VALUE per line (optional)');
+      .setDesc('KEY=VALUE per line (optional). Use ${secret:NAME} for values stored on this device.');
     envSetting.settingEl.addClass('claudian-mcp-env-setting');
 
     const envTextarea = envSetting.controlEl.createEl('textarea', {
@@ -207,7 +213,7 @@ export class McpServerModal extends Modal {
 
     const headersSetting = new Setting(this.typeFieldsEl)
       .setName('Headers')
-      .setDesc('HTTP headers (KEY=VALUE per line)');
+      .setDesc('HTTP headers (KEY=VALUE per line). Use ${secret:NAME} for values stored on this device.');
     headersSetting.settingEl.addClass('claudian-mcp-env-setting');
 
     const headersTextarea = headersSetting.controlEl.createEl('textarea', {
@@ -219,6 +225,39 @@ export class McpServerModal extends Modal {
     headersTextarea.addEventListener('input', () => {
       this.headers = headersTextarea.value;
     });
+
+    new Setting(this.typeFieldsEl)
+      .setName('OAuth sign-in')
+      .setDesc('Sign in from the server list; tokens are stored on this device, not in the vault')
+      .addToggle((toggle) => {
+        toggle.setValue(this.oauthEnabled);
+        toggle.onChange((value) => {
+          this.oauthEnabled = value;
+          this.renderTypeFields();
+        });
+      });
+
+    if (!this.oauthEnabled) return;
+
+    new Setting(this.typeFieldsEl)
+      .setName('Client ID')
+      .setDesc('Leave empty to register automatically (dynamic client registration)')
+      .addText((text) => {
+        text.setValue(this.oauthClientId);
+        text.onChange((value) => {
+          this.oauthClientId = value;
+        });
+      });
+
+    new Setting(this.typeFieldsEl)
+      .setName('Scope')
+      .setDesc('Space-separated scopes (optional)')
+      .addText((text) => {
+        text.setValue(this.oauthScope);
+        text.onChange((value) => {
+          this.oauthScope = value;
+        });
+      });
   }
 
   private handleKeyDown(e: KeyboardEvent) {
@@ -300,6 +339,15 @@ export class McpServerModal extends Modal {
       disabledTools: this.existingServer?.disabledTools,
     };
 
+    if (this.serverType !== 'stdio' && this.oauthEnabled) {
+      const clientId = this.oauthClientId.trim();
+      const scope = this.oauthScope.trim();
+      server.oauth = {
+        ...(clientId ? { clientId } : {}),
+        ...(scope ? { scope } : {}),
+      };
+    }
+
     this.onSave(server);
     this.close();
   }
@@ -1,10 +1,15 @@
 import { Notice, setIcon } from 'obsidian';
 
+import { applyMcpImport, discoverMcpImportSources } from '../../../core/mcp/McpConfigImport';
+import { describeMcpHealth } from '../../../core/mcp/McpServerManager';
 import { testMcpServer } from '../../../core/mcp/McpTester';
-import { McpStorage } from '../../../core/storage';
+import { getMcpToolFullName, getMcpToolPolicies, setMcpToolPolicy } from '../../../core/security/McpToolPolicy';
+import { McpStorage, SECRET_NAME_PATTERN } from '../../../core/storage';
 import type { ClaudianMcpServer, McpServerConfig, McpServerType } from '../../../core/types';
 import { DEFAULT_MCP_SERVER, getMcpServerType } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
+import { getVaultPath } from '../../../utils/path';
+import { McpImportModal } from './McpImportModal';
 import { McpServerModal } from './McpServerModal';
 import { McpTestModal } from './McpTestModal';
 
@@ -30,6 +35,15 @@ export class McpSettingsManager {
     this.containerEl = containerEl;
     this.plugin = plugin;
     this.loadAndRender();
+
+    // Live status dots; reloads from storage too, since the monitor may have disabled a server
+    const unsubscribe = this.plugin.mcpManager.onHealthChange(() => {
+      if (!this.containerEl.isConnected) {
+        unsubscribe();
+        return;
+      }
+      this.loadAndRender();
+    });
   }
 
   private async loadAndRender() {
@@ -76,6 +90,14 @@ export class McpSettingsManager {
       this.importFromClipboard();
     });
 
+    const discoverOption = dropdown.createDiv({ cls: 'claudian-mcp-add-option' });
+    setIcon(discoverOption.createSpan({ cls: 'claudian-mcp-add-option-icon' }), 'download');
+    discoverOption.createSpan({ text: 'Import from other apps' });
+    discoverOption.addEventListener('click', () => {
+      dropdown.removeClass('is-visible');
+      this.openImportWizard();
+    });
+
     addBtn.addEventListener('click', (e) => {
       e.stopPropagation();
       dropdown.toggleClass('is-visible', !dropdown.hasClass('is-visible'));
@@ -88,13 +110,63 @@ export class McpSettingsManager {
     if (this.servers.length === 0) {
       const emptyEl = this.containerEl.createDiv({ cls: 'claudian-mcp-empty' });
       emptyEl.setText('No MCP servers configured. Click "Add" to add one.');
-      return;
+    } else {
+      const listEl = this.containerEl.createDiv({ cls: 'claudian-mcp-list' });
+      for (const server of this.servers) {
+        this.renderServerItem(listEl, server);
+      }
     }
 
-    const listEl = this.containerEl.createDiv({ cls: 'claudian-mcp-list' });
-    for (const server of this.servers) {
-      this.renderServerItem(listEl, server);
+    this.renderSecrets();
+  }
+
+  /** Per-device secrets referenced from env and header values as ${secret:NAME}. */
+  private renderSecrets() {
+    const sectionEl = this.containerEl.createDiv({ cls: 'claudian-mcp-secrets' });
+    const headerEl = sectionEl.createDiv({ cls: 'claudian-mcp-header' });
+    headerEl.createSpan({ text: 'Secrets (this device)', cls: 'claudian-mcp-label' });
+    sectionEl.createDiv({
+      cls: 'setting-item-description',
+      text: 'Stored outside the vault. Reference them in env or header values as ${secret:NAME}.',
+    });
+
+    const store = this.plugin.mcpCredentialStore;
+    const listEl = sectionEl.createDiv({ cls: 'claudian-mcp-secret-list' });
+    for (const name of store.getSecretNames()) {
+      const rowEl = listEl.createDiv({ cls: 'claudian-mcp-secret-item' });
+      rowEl.createSpan({ cls: 'claudian-mcp-secret-name', text: name });
+      const deleteBtn = rowEl.createEl('button', {
+        cls: 'claudian-mcp-action-btn claudian-mcp-delete-btn',
+        attr: { 'aria-label': 'Delete' },
+      });
+      setIcon(deleteBtn, 'trash-2');
+      deleteBtn.addEventListener('click', async () => {
+        if (!confirm(`Delete secret "${name}"?`)) return;
+        store.deleteSecret(name);
+        await this.broadcastMcpReloadToAllViews();
+        this.render();
+      });
     }
+
+    const formEl = sectionEl.createDiv({ cls: 'claudian-mcp-secret-form' });
+    const nameInput = formEl.createEl('input', { type: 'text', attr: { placeholder: 'NAME' } });
+    const valueInput = formEl.createEl('input', { type: 'password', attr: { placeholder: 'Value' } });
+    const saveBtn = formEl.createEl('button', { text: 'Save secret' });
+    saveBtn.addEventListener('click', async () => {
+      const name = nameInput.value.trim();
+      if (!SECRET_NAME_PATTERN.test(name)) {
+        new Notice('Secret names can only contain letters, numbers, dots, hyphens, and underscores');
+        return;
+      }
+      if (!valueInput.value) {
+        new Notice('Please enter a value');
+        return;
+      }
+      store.setSecret(name, valueInput.value);
+      await this.broadcastMcpReloadToAllViews();
+      this.render();
+      new Notice(`Secret "${name}" saved`);
+    });
   }
 
   private renderServerItem(listEl: HTMLElement, server: ClaudianMcpServer) {
@@ -103,10 +175,18 @@ export class McpSettingsManager {
       itemEl.addClass('claudian-mcp-item-disabled');
     }
 
+    const health = server.enabled ? this.plugin.mcpManager.getServerHealth(server.name) : undefined;
     const statusEl = itemEl.createDiv({ cls: 'claudian-mcp-status' });
-    statusEl.addClass(
-      server.enabled ? 'claudian-mcp-status-enabled' : 'claudian-mcp-status-disabled'
-    );
+    if (!server.enabled) {
+      statusEl.addClass('claudian-mcp-status-disabled');
+    } else if (health?.status === 'unhealthy') {
+      statusEl.addClass('claudian-mcp-status-unhealthy');
+    } else {
+      statusEl.addClass('claudian-mcp-status-enabled');
+    }
+    if (server.enabled) {
+      statusEl.setAttribute('title', describeMcpHealth(health));
+    }
 
     const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-info' });
 
@@ -132,8 +212,30 @@ export class McpSettingsManager {
       previewEl.setText(this.getServerPreview(server, serverType));
     }
 
+    if (health?.status === 'unhealthy') {
+      infoEl.createDiv({ cls: 'claudian-mcp-health-error', text: describeMcpHealth(health) });
+    }
+
+    const missingSecrets = this.plugin.mcpCredentials.getMissingSecrets(server);
+    if (missingSecrets.length > 0) {
+      infoEl.createDiv({
+        cls: 'claudian-mcp-health-error',
+        text: `Missing secrets on this device: ${missingSecrets.join(', ')}`,
+      });
+    }
+
     const actionsEl = itemEl.createDiv({ cls: 'claudian-mcp-actions' });
 
+    if (server.oauth && serverType !== 'stdio') {
+      const signedIn = this.plugin.mcpOAuth.isSignedIn(server);
+      const authBtn = actionsEl.createEl('button', {
+        cls: 'claudian-mcp-action-btn',
+        attr: { 'aria-label': signedIn ? 'Sign out' : 'Sign in' },
+      });
+      setIcon(authBtn, signedIn ? 'log-out' : 'log-in');
+      authBtn.addEventListener('click', () => (signedIn ? this.signOut(server) : this.signIn(server)));
+    }
+
     const testBtn = actionsEl.createEl('button', {
       cls: 'claudian-mcp-action-btn',
       attr: { 'aria-label': 'Verify (show tools)' },
@@ -173,18 +275,47 @@ export class McpSettingsManager {
       },
       async (disabledTools) => {
         await this.updateAllDisabledTools(server, disabledTools);
+      },
+      {
+        policies: getMcpToolPolicies(await this.plugin.storage.getPermissions(), server.name),
+        onChange: async (toolName, policy) => {
+          const permissions = await this.plugin.storage.getPermissions();
+          await this.plugin.storage.updatePermissions(
+            setMcpToolPolicy(permissions, getMcpToolFullName(server.name, toolName), policy)
+          );
+        },
       }
     );
     modal.open();
 
     try {
-      const result = await testMcpServer(server);
+      const result = await testMcpServer(await this.plugin.mcpManager.resolveServer(server));
       modal.setResult(result);
     } catch (error) {
       modal.setError(error instanceof Error ? error.message : 'Verification failed');
     }
   }
 
+  private async signIn(server: ClaudianMcpServer) {
+    new Notice(`Complete the sign-in for "${server.name}" in your browser`);
+    try {
+      await this.plugin.mcpOAuth.signIn(server);
+    } catch (error) {
+      new Notice(`Sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    await this.broadcastMcpReloadToAllViews();
+    this.render();
+    new Notice(`Signed in to "${server.name}"`);
+  }
+
+  private async signOut(server: ClaudianMcpServer) {
+    this.plugin.mcpOAuth.signOut(server.name);
+    await this.broadcastMcpReloadToAllViews();
+    this.render();
+    new Notice(`Signed out of "${server.name}"`);
+  }
+
   /** Rolls back on save failure; warns on reload failure (since save succeeded). */
   private async updateServerDisabledTools(
     server: ClaudianMcpServer,
@@ -296,6 +427,33 @@ export class McpSettingsManager {
     }
   }
 
+  private openImportWizard() {
+    const sources = discoverMcpImportSources(getVaultPath(this.plugin.app));
+    const modal = new McpImportModal(this.plugin.app, sources, this.servers, async (choices) => {
+      const result = applyMcpImport(this.servers, choices);
+      if (result.added.length === 0 && result.replaced.length === 0) {
+        new Notice('No new MCP servers imported');
+        return;
+      }
+
+      this.servers = result.servers;
+      await this.plugin.storage.mcp.save(this.servers);
+      await this.broadcastMcpReloadToAllViews();
+      this.render();
+
+      const parts: string[] = [];
+      if (result.added.length > 0) {
+        parts.push(`imported ${result.added.length} MCP server${result.added.length > 1 ? 's' : ''}`);
+      }
+      if (result.replaced.length > 0) {
+        parts.push(`replaced ${result.replaced.length}`);
+      }
+      const message = parts.join(', ');
+      new Notice(message.charAt(0).toUpperCase() + message.slice(1));
+    });
+    modal.open();
+  }
+
   private async saveServer(server: ClaudianMcpServer, existing: ClaudianMcpServer | null) {
     if (existing) {
       const index = this.servers.findIndex((s) => s.name === existing.name);
@@ -380,6 +538,7 @@ export class McpSettingsManager {
     }
 
     this.servers = this.servers.filter((s) => s.name !== server.name);
+    this.plugin.mcpOAuth.signOut(server.name);
     await this.plugin.storage.mcp.save(this.servers);
     await this.broadcastMcpReloadToAllViews();
     this.render();
@@ -2,6 +2,20 @@ import type { App } from 'obsidian';
 import { Modal, Notice, setIcon } from 'obsidian';
 
 import type { McpTestResult, McpTool } from '../../../core/mcp/McpTester';
+import type { McpToolPolicy } from '../../../core/security/McpToolPolicy';
+
+/** Per-tool approval policies edited next to each tool (stored as permission rules). */
+export interface McpToolPolicyOptions {
+  policies: Record<string, McpToolPolicy>;
+  onChange: (toolName: string, policy: McpToolPolicy | null) => Promise<void>;
+}
+
+const POLICY_OPTIONS: Array<[McpToolPolicy | '', string]> = [
+  ['', 'Default'],
+  ['allow', 'Always allow'],
+  ['ask', 'Always ask'],
+  ['deny', 'Deny'],
+];
 
 function formatToggleError(error: unknown): string {
   if (!(error instanceof Error)) return 'Failed to update tool setting';
@@ -27,6 +41,7 @@ export class McpTestModal extends Modal {
   private disabledTools: Set<string>;
   private onToolToggle?: (toolName: string, enabled: boolean) => Promise<void>;
   private onBulkToggle?: (disabledTools: string[]) => Promise<void>;
+  private policyOptions?: McpToolPolicyOptions;
   private toolToggles: Map<string, { checkbox: HTMLInputElement; container: HTMLElement }> =
     new Map();
   private toolElements: Map<string, HTMLElement> = new Map();
@@ -38,7 +53,8 @@ export class McpTestModal extends Modal {
     serverName: string,
     initialDisabledTools?: string[],
     onToolToggle?: (toolName: string, enabled: boolean) => Promise<void>,
-    onBulkToggle?: (disabledTools: string[]) => Promise<void>
+    onBulkToggle?: (disabledTools: string[]) => Promise<void>,
+    policyOptions?: McpToolPolicyOptions
   ) {
     super(app);
     this.serverName = serverName;
@@ -49,6 +65,7 @@ export class McpTestModal extends Modal {
     );
     this.onToolToggle = onToolToggle;
     this.onBulkToggle = onBulkToggle;
+    this.policyOptions = policyOptions;
   }
 
   onOpen() {
@@ -170,6 +187,14 @@ export class McpTestModal extends Modal {
     const nameEl = headerEl.createSpan({ cls: 'claudian-mcp-test-tool-name' });
     nameEl.setText(tool.name);
 
+    if (tool.readOnly) {
+      headerEl.createSpan({ cls: 'claudian-mcp-test-tool-badge', text: 'read-only' });
+    }
+
+    if (this.policyOptions) {
+      this.renderPolicySelect(headerEl, tool.name, this.policyOptions);
+    }
+
     const toggleEl = headerEl.createDiv({ cls: 'claudian-mcp-test-tool-toggle' });
     const toggleContainer = toggleEl.createDiv({ cls: 'checkbox-container' });
     const checkbox = toggleContainer.createEl('input', {
@@ -204,6 +229,36 @@ export class McpTestModal extends Modal {
     }
   }
 
+  private renderPolicySelect(headerEl: HTMLElement, toolName: string, options: McpToolPolicyOptions) {
+    const select = headerEl.createEl('select', {
+      cls: 'dropdown claudian-mcp-test-tool-policy',
+      attr: { 'aria-label': `Approval policy for ${toolName}` },
+    });
+    for (const [value, label] of POLICY_OPTIONS) {
+      select.createEl('option', { text: label, attr: { value } });
+    }
+    select.value = options.policies[toolName] ?? '';
+
+    select.addEventListener('change', async () => {
+      const previous = options.policies[toolName];
+      const policy = (select.value || null) as McpToolPolicy | null;
+      select.disabled = true;
+      try {
+        await options.onChange(toolName, policy);
+        if (policy) {
+          options.policies[toolName] = policy;
+        } else {
+          delete options.policies[toolName];
+        }
+      } catch (error) {
+        select.value = previous ?? '';
+        new Notice(formatToggleError(error));
+      } finally {
+        select.disabled = false;
+      }
+    });
+  }
+
   private async handleToolToggle(
     toolName: string,
     checkbox: HTMLInputElement,
@@ -0,0 +1,496 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import type {
+  PermissionRuleBehavior,
+  PermissionRuleEntry,
+  PermissionRuleSource,
+  StalePermissionRule,
+} from '../../../core/security/PermissionRules';
+import {
+  collectPermissionRules,
+  findStalePermissionRules,
+  isValidPermissionRule,
+  PERMISSION_RULE_BEHAVIORS,
+  testPermissionRules,
+  toolInputFromText,
+} from '../../../core/security/PermissionRules';
+import { TOOL_BASH } from '../../../core/tools/toolNames';
+import type { CCPermissions } from '../../../core/types';
+import { createPermissionRule } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { confirmDelete } from '../../../shared/modals/ConfirmModal';
+import { getVaultPath } from '../../../utils/path';
+
+const BEHAVIOR_LABELS: Record<PermissionRuleBehavior, string> = {
+  deny: 'Deny',
+  ask: 'Ask',
+  allow: 'Allow',
+};
+
+const BEHAVIOR_VERBS: Record<PermissionRuleBehavior, string> = {
+  deny: 'Denied',
+  ask: 'Asks for approval',
+  allow: 'Allowed',
+};
+
+const SOURCE_LABELS: Record<PermissionRuleSource, string> = {
+  vault: 'Vault',
+  user: 'User',
+};
+
+const SOURCE_OPTIONS: { value: PermissionRuleSource; label: string }[] = [
+  { value: 'vault', label: 'Vault (.claude/settings.json)' },
+  { value: 'user', label: 'User (~/.claude/settings.json)' },
+];
+
+function describeEntry(entry: PermissionRuleEntry): string {
+  return `${entry.rule} (${BEHAVIOR_LABELS[entry.behavior].toLowerCase()}, ${SOURCE_LABELS[entry.source].toLowerCase()})`;
+}
+
+interface RuleDraft {
+  rule: string;
+  behavior: PermissionRuleBehavior;
+  source: PermissionRuleSource;
+}
+
+class PermissionRuleModal extends Modal {
+  private existing: PermissionRuleEntry | null;
+  private onSave: (draft: RuleDraft) => Promise<void>;
+
+  constructor(app: App, existing: PermissionRuleEntry | null, onSave: (draft: RuleDraft) => Promise<void>) {
+    super(app);
+    this.existing = existing;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existing ? 'Edit permission rule' : 'Add permission rule');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+    const draft: RuleDraft = {
+      rule: this.existing?.rule ?? '',
+      behavior: this.existing?.behavior ?? 'allow',
+      source: this.existing?.source ?? 'vault',
+    };
+
+    new Setting(contentEl)
+      .setName('Rule')
+      .setDesc('Tool name with an optional pattern, e.g. Bash(git status), Bash(npm run:*), Read(notes/) or mcp__server__tool.')
+      .addText(text => {
+        text.setPlaceholder('Bash(git *)').setValue(draft.rule).onChange(value => {
+          draft.rule = value.trim();
+        });
+        text.inputEl.addClass('claudian-permission-rule-input');
+      });
+
+    new Setting(contentEl)
+      .setName('Behavior')
+      .addDropdown(dropdown => {
+        for (const behavior of PERMISSION_RULE_BEHAVIORS) {
+          dropdown.addOption(behavior, BEHAVIOR_LABELS[behavior]);
+        }
+        dropdown.setValue(draft.behavior).onChange(value => {
+          draft.behavior = value as PermissionRuleBehavior;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Stored in')
+      .addDropdown(dropdown => {
+        for (const option of SOURCE_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(draft.source).onChange(value => {
+          draft.source = value as PermissionRuleSource;
+        });
+      });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'claudian-save-btn mod-cta' });
+    saveBtn.addEventListener('click', async () => {
+      if (!isValidPermissionRule(draft.rule)) {
+        new Notice('Enter a rule like Tool or Tool(pattern)');
+        return;
+      }
+      try {
+        await this.onSave(draft);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        new Notice(`Failed to save rule: ${message}`);
+        return;
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class StaleRulesModal extends Modal {
+  private stale: StalePermissionRule[];
+  private onRemove: (entries: PermissionRuleEntry[]) => Promise<void>;
+
+  constructor(app: App, stale: StalePermissionRule[], onRemove: (entries: PermissionRuleEntry[]) => Promise<void>) {
+    super(app);
+    this.stale = stale;
+    this.onRemove = onRemove;
+  }
+
+  onOpen() {
+    this.setTitle('Clean up permission rules');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+    const selected = new Set(this.stale.map(item => item.entry));
+
+    contentEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'These rules have no effect. Select the ones to remove.',
+    });
+
+    const listEl = contentEl.createDiv({ cls: 'claudian-permission-stale-list' });
+    for (const item of this.stale) {
+      const rowEl = listEl.createEl('label', { cls: 'claudian-permission-stale-item' });
+      const checkbox = rowEl.createEl('input', { attr: { type: 'checkbox' } });
+      checkbox.checked = true;
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          selected.add(item.entry);
+        } else {
+          selected.delete(item.entry);
+        }
+      });
+      const textEl = rowEl.createDiv();
+      textEl.createDiv({ cls: 'claudian-permission-rule-text', text: describeEntry(item.entry) });
+      textEl.createDiv({ cls: 'claudian-permission-stale-reason', text: item.reason });
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const removeBtn = buttonContainer.createEl('button', { text: 'Remove selected', cls: 'mod-warning' });
+    removeBtn.addEventListener('click', async () => {
+      if (selected.size === 0) {
+        this.close();
+        return;
+      }
+      try {
+        await this.onRemove([...selected]);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        new Notice(`Failed to remove rules: ${message}`);
+        return;
+      }
+      new Notice(`Removed ${selected.size} rule${selected.size === 1 ? '' : 's'}`);
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/** Allow/ask/deny rules from the vault and user settings, with a rule tester and cleanup. */
+export class PermissionRuleSettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private permissions: Record<PermissionRuleSource, CCPermissions> = { vault: {}, user: {} };
+  private testToolName: string = TOOL_BASH;
+  private testInput = '';
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    void this.reload();
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      this.permissions = {
+        vault: await this.plugin.storage.getPermissions(),
+        user: await this.plugin.storage.userCCSettings.getPermissions(),
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      new Notice(`Failed to load permission rules: ${message}`);
+    }
+    this.render();
+  }
+
+  /** User rules only apply when the SDK loads ~/.claude/settings.json. */
+  private isUserSourceActive(): boolean {
+    return this.plugin.settings.loadUserClaudeSettings;
+  }
+
+  private getEntries(): PermissionRuleEntry[] {
+    return collectPermissionRules(this.permissions);
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: 'Rules', cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+
+    const refreshBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Refresh' },
+    });
+    setIcon(refreshBtn, 'refresh-cw');
+    refreshBtn.addEventListener('click', () => { void this.reload(); });
+
+    const cleanupBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Clean up stale rules' },
+    });
+    setIcon(cleanupBtn, 'eraser');
+    cleanupBtn.addEventListener('click', () => this.openCleanup());
+
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openRuleModal(null));
+
+    this.renderTester();
+
+    const entries = this.getEntries();
+    if (entries.length === 0) {
+      this.containerEl.createDiv({ cls: 'claudian-sp-empty-state', text: 'No permission rules.' });
+      return;
+    }
+
+    if (!this.isUserSourceActive() && entries.some(entry => entry.source === 'user')) {
+      this.containerEl.createDiv({
+        cls: 'claudian-permission-note',
+        text: 'User rules are not applied because "Load user Claude settings" is off.',
+      });
+    }
+
+    for (const behavior of PERMISSION_RULE_BEHAVIORS) {
+      const group = entries.filter(entry => entry.behavior === behavior);
+      if (group.length === 0) continue;
+
+      this.containerEl.createDiv({
+        cls: 'claudian-permission-section-header',
+        text: `${BEHAVIOR_LABELS[behavior]} (${group.length})`,
+      });
+      const listEl = this.containerEl.createDiv({ cls: 'claudian-sp-list' });
+      for (const entry of group) {
+        this.renderRuleItem(listEl, entry);
+      }
+    }
+  }
+
+  private renderTester(): void {
+    const testerEl = this.containerEl.createDiv({ cls: 'claudian-permission-tester' });
+
+    const inputsEl = testerEl.createDiv({ cls: 'claudian-permission-tester-inputs' });
+    const toolInput = inputsEl.createEl('input', {
+      cls: 'claudian-permission-tester-tool',
+      attr: { type: 'text', placeholder: 'Tool name', 'aria-label': 'Tool name' },
+    });
+    toolInput.value = this.testToolName;
+
+    const valueInput = inputsEl.createEl('textarea', {
+      cls: 'claudian-permission-tester-input',
+      attr: {
+        rows: '2',
+        placeholder: 'Command, file path or JSON tool input, e.g. git push origin main',
+        'aria-label': 'Tool input',
+      },
+    });
+    valueInput.value = this.testInput;
+
+    const resultEl = testerEl.createDiv({ cls: 'claudian-permission-tester-result' });
+
+    const update = () => {
+      this.testToolName = toolInput.value.trim();
+      this.testInput = valueInput.value;
+      this.renderTestResult(resultEl);
+    };
+    toolInput.addEventListener('input', update);
+    valueInput.addEventListener('input', update);
+    this.renderTestResult(resultEl);
+  }
+
+  private renderTestResult(resultEl: HTMLElement): void {
+    resultEl.empty();
+    for (const behavior of PERMISSION_RULE_BEHAVIORS) {
+      resultEl.removeClass(`claudian-permission-tester-${behavior}`);
+    }
+    if (!this.testToolName) {
+      resultEl.setText('Enter a tool name and input to see which rule applies.');
+      return;
+    }
+
+    const entries = this.getEntries().filter(entry => entry.source === 'vault' || this.isUserSourceActive());
+    const input = toolInputFromText(this.testToolName, this.testInput);
+    const result = testPermissionRules(entries, this.testToolName, input);
+
+    if (!result.decision) {
+      resultEl.setText('No rule matches: the permission mode decides.');
+      return;
+    }
+
+    resultEl.addClass(`claudian-permission-tester-${result.decision.behavior}`);
+    resultEl.createDiv({
+      cls: 'claudian-permission-tester-decision',
+      text: `${BEHAVIOR_VERBS[result.decision.behavior]} by ${describeEntry(result.decision)}`,
+    });
+
+    const others = result.matches.slice(1);
+    if (others.length > 0) {
+      resultEl.createDiv({
+        cls: 'claudian-permission-tester-others',
+        text: `Also matches: ${others.map(describeEntry).join(', ')}`,
+      });
+    }
+  }
+
+  private renderRuleItem(listEl: HTMLElement, entry: PermissionRuleEntry): void {
+    const itemEl = listEl.createDiv({ cls: 'claudian-sp-item claudian-permission-rule' });
+    const inactive = entry.source === 'user' && !this.isUserSourceActive();
+    if (inactive) {
+      itemEl.addClass('claudian-permission-rule-inactive');
+    }
+
+    const infoEl = itemEl.createDiv({ cls: 'claudian-sp-info' });
+    const headerRow = infoEl.createDiv({ cls: 'claudian-sp-item-header' });
+    headerRow.createSpan({ cls: 'claudian-sp-item-name claudian-permission-rule-text', text: entry.rule });
+    headerRow.createSpan({ cls: 'claudian-slash-item-badge', text: SOURCE_LABELS[entry.source] });
+
+    const list = this.permissions[entry.source][entry.behavior] ?? [];
+    const actionsEl = itemEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+    const upBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Move up' },
+    });
+    setIcon(upBtn, 'arrow-up');
+    upBtn.disabled = entry.index === 0;
+    upBtn.addEventListener('click', () => { void this.moveRule(entry, -1); });
+
+    const downBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Move down' },
+    });
+    setIcon(downBtn, 'arrow-down');
+    downBtn.disabled = entry.index === list.length - 1;
+    downBtn.addEventListener('click', () => { void this.moveRule(entry, 1); });
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Edit' },
+    });
+    setIcon(editBtn, 'pencil');
+    editBtn.addEventListener('click', () => this.openRuleModal(entry));
+
+    const deleteBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+      attr: { 'aria-label': 'Delete' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', async () => {
+      const confirmed = await confirmDelete(this.plugin.app, `Delete rule "${entry.rule}"?`);
+      if (!confirmed) return;
+      await this.removeRules([entry]);
+      this.render();
+    });
+  }
+
+  private openRuleModal(existing: PermissionRuleEntry | null): void {
+    new PermissionRuleModal(this.plugin.app, existing, async (draft) => {
+      await this.saveRule(existing, draft);
+      this.render();
+    }).open();
+  }
+
+  private openCleanup(): void {
+    const stale = findStalePermissionRules(this.getEntries(), getVaultPath(this.plugin.app));
+    if (stale.length === 0) {
+      new Notice('No stale permission rules found');
+      return;
+    }
+
+    new StaleRulesModal(this.plugin.app, stale, async (entries) => {
+      await this.removeRules(entries);
+      this.render();
+    }).open();
+  }
+
+  private async saveRule(existing: PermissionRuleEntry | null, draft: RuleDraft): Promise<void> {
+    const rule = createPermissionRule(draft.rule);
+    const target = [...(this.permissions[draft.source][draft.behavior] ?? [])];
+    const inPlace = existing && existing.source === draft.source && existing.behavior === draft.behavior;
+
+    if (inPlace) {
+      target[existing.index] = rule;
+      this.permissions[draft.source] = { ...this.permissions[draft.source], [draft.behavior]: target };
+      await this.persist(draft.source);
+      return;
+    }
+
+    if (existing) {
+      this.removeFromList(existing);
+    }
+    const updatedTarget = [...(this.permissions[draft.source][draft.behavior] ?? [])];
+    if (!updatedTarget.includes(rule)) {
+      updatedTarget.push(rule);
+    }
+    this.permissions[draft.source] = { ...this.permissions[draft.source], [draft.behavior]: updatedTarget };
+
+    await this.persist(draft.source);
+    if (existing && existing.source !== draft.source) {
+      await this.persist(existing.source);
+    }
+  }
+
+  private async moveRule(entry: PermissionRuleEntry, delta: -1 | 1): Promise<void> {
+    const list = [...(this.permissions[entry.source][entry.behavior] ?? [])];
+    const target = entry.index + delta;
+    if (target < 0 || target >= list.length) return;
+
+    [list[entry.index], list[target]] = [list[target], list[entry.index]];
+    this.permissions[entry.source] = { ...this.permissions[entry.source], [entry.behavior]: list };
+    await this.persist(entry.source);
+    this.render();
+  }
+
+  private async removeRules(entries: PermissionRuleEntry[]): Promise<void> {
+    // Remove from the end so earlier indexes stay valid
+    const ordered = [...entries].sort((a, b) => b.index - a.index);
+    for (const entry of ordered) {
+      this.removeFromList(entry);
+    }
+    for (const source of new Set(entries.map(entry => entry.source))) {
+      await this.persist(source);
+    }
+  }
+
+  private removeFromList(entry: PermissionRuleEntry): void {
+    const list = [...(this.permissions[entry.source][entry.behavior] ?? [])];
+    list.splice(entry.index, 1);
+    this.permissions[entry.source] = { ...this.permissions[entry.source], [entry.behavior]: list };
+  }
+
+  private async persist(source: PermissionRuleSource): Promise<void> {
+    if (source === 'vault') {
+      await this.plugin.storage.updatePermissions(this.permissions.vault);
+    } else {
+      await this.plugin.storage.userCCSettings.updatePermissions(this.permissions.user);
+    }
+  }
+}
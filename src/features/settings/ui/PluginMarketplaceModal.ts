@@ -0,0 +1,265 @@
+import type { App } from 'obsidian';
+import { Modal, Notice } from 'obsidian';
+
+import type { PluginInstaller } from '../../../core/plugins';
+import { describeSource, discoverMarketplaces, readPluginContents } from '../../../core/plugins';
+import type { MarketplacePlugin, PluginMarketplace, PluginScope } from '../../../core/types';
+
+const SCOPE_LABELS: Record<PluginScope, string> = {
+  project: 'Project (this vault)',
+  user: 'User (all vaults)',
+};
+
+/** Browse configured marketplaces; install, update and uninstall their plugins. */
+export class PluginMarketplaceModal extends Modal {
+  private installer: PluginInstaller;
+  private vaultPath: string;
+  private onChanged: () => Promise<void>;
+  private marketplaces: PluginMarketplace[] = [];
+  private marketplaceIndex = 0;
+  private installScope: PluginScope = 'project';
+  private expanded = new Set<string>();
+  private busy = false;
+
+  constructor(app: App, installer: PluginInstaller, vaultPath: string, onChanged: () => Promise<void>) {
+    super(app);
+    this.installer = installer;
+    this.vaultPath = vaultPath;
+    this.onChanged = onChanged;
+  }
+
+  onOpen() {
+    this.setTitle('Plugin marketplaces');
+    this.modalEl.addClass('claudian-plugin-marketplace-modal');
+    this.reload();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private reload(): void {
+    const selected = this.marketplaces[this.marketplaceIndex]?.name;
+    this.marketplaces = discoverMarketplaces(this.vaultPath);
+    const index = this.marketplaces.findIndex(m => m.name === selected);
+    this.marketplaceIndex = index >= 0 ? index : 0;
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.marketplaces.length === 0) {
+      contentEl.createDiv({
+        cls: 'claudian-plugin-marketplace-empty',
+        text: 'No marketplaces configured. Add one with "/plugin marketplace add" in the Claude CLI, or via extraKnownMarketplaces in settings.json.',
+      });
+      return;
+    }
+
+    const marketplace = this.marketplaces[this.marketplaceIndex];
+
+    const toolbarEl = contentEl.createDiv({ cls: 'claudian-plugin-marketplace-toolbar' });
+    const select = toolbarEl.createEl('select', { cls: 'dropdown' });
+    this.marketplaces.forEach((m, i) => {
+      const option = select.createEl('option', {
+        text: `${m.name} (${m.plugins.length})`,
+        attr: { value: String(i) },
+      });
+      option.selected = i === this.marketplaceIndex;
+    });
+    select.addEventListener('change', () => {
+      this.marketplaceIndex = Number(select.value);
+      this.render();
+    });
+
+    const scopeSelect = toolbarEl.createEl('select', { cls: 'dropdown' });
+    for (const scope of ['project', 'user'] as PluginScope[]) {
+      const option = scopeSelect.createEl('option', { text: SCOPE_LABELS[scope], attr: { value: scope } });
+      option.selected = scope === this.installScope;
+    }
+    scopeSelect.setAttribute('aria-label', 'Install scope');
+    scopeSelect.addEventListener('change', () => {
+      this.installScope = scopeSelect.value as PluginScope;
+      this.render();
+    });
+
+    const isGit = marketplace.source.source !== 'directory';
+    if (isGit) {
+      const syncBtn = toolbarEl.createEl('button', {
+        text: marketplace.root ? 'Update marketplace' : 'Clone marketplace',
+      });
+      syncBtn.disabled = this.busy;
+      syncBtn.addEventListener('click', () => this.run(
+        marketplace.root ? 'Marketplace updated' : 'Marketplace cloned',
+        async () => {
+          if (marketplace.root) {
+            await this.installer.updateMarketplace(marketplace);
+          } else {
+            await this.installer.cloneMarketplace(marketplace);
+          }
+        },
+        false
+      ));
+    }
+
+    contentEl.createDiv({
+      cls: 'claudian-plugin-marketplace-source',
+      text: marketplace.root ?? describeSource(marketplace.source),
+    });
+
+    if (marketplace.error) {
+      contentEl.createDiv({ cls: 'claudian-plugin-marketplace-error', text: marketplace.error });
+      return;
+    }
+
+    if (!marketplace.root) {
+      contentEl.createDiv({
+        cls: 'claudian-plugin-marketplace-empty',
+        text: 'This marketplace has not been cloned yet.',
+      });
+      return;
+    }
+
+    if (marketplace.plugins.length === 0) {
+      contentEl.createDiv({ cls: 'claudian-plugin-marketplace-empty', text: 'This marketplace lists no plugins.' });
+      return;
+    }
+
+    const listEl = contentEl.createDiv({ cls: 'claudian-plugin-marketplace-list' });
+    for (const plugin of marketplace.plugins) {
+      this.renderPlugin(listEl, marketplace, plugin);
+    }
+  }
+
+  private renderPlugin(listEl: HTMLElement, marketplace: PluginMarketplace, plugin: MarketplacePlugin): void {
+    const installed = this.installer.getInstalledEntries(plugin.id);
+    const entry = installed[this.installScope];
+
+    const itemEl = listEl.createDiv({ cls: 'claudian-plugin-marketplace-item' });
+    const headerEl = itemEl.createDiv({ cls: 'claudian-plugin-marketplace-item-header' });
+
+    const infoEl = headerEl.createDiv({ cls: 'claudian-plugin-info' });
+    const nameRow = infoEl.createDiv({ cls: 'claudian-plugin-name-row' });
+    nameRow.createSpan({ cls: 'claudian-plugin-name', text: plugin.name });
+    if (plugin.version) {
+      nameRow.createSpan({ cls: 'claudian-plugin-marketplace-version', text: `v${plugin.version}` });
+    }
+    for (const scope of Object.keys(installed) as PluginScope[]) {
+      const version = installed[scope]?.version;
+      nameRow.createSpan({
+        cls: 'claudian-plugin-marketplace-badge',
+        text: version && version !== 'unknown' ? `${scope} · v${version}` : scope,
+      });
+    }
+
+    const description = [plugin.description, plugin.author ? `by ${plugin.author}` : null]
+      .filter(Boolean)
+      .join(' — ');
+    if (description) {
+      infoEl.createDiv({ cls: 'claudian-plugin-marketplace-desc', text: description });
+    }
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-plugin-marketplace-actions' });
+
+    const detailsBtn = actionsEl.createEl('button', {
+      text: this.expanded.has(plugin.id) ? 'Hide contents' : 'Contents',
+    });
+    detailsBtn.addEventListener('click', () => {
+      if (this.expanded.has(plugin.id)) {
+        this.expanded.delete(plugin.id);
+      } else {
+        this.expanded.add(plugin.id);
+      }
+      this.render();
+    });
+
+    if (!entry) {
+      const installBtn = actionsEl.createEl('button', { text: 'Install', cls: 'mod-cta' });
+      installBtn.disabled = this.busy;
+      installBtn.addEventListener('click', () => this.run(
+        `Installed "${plugin.name}" (${this.installScope})`,
+        () => this.installer.install(marketplace, plugin, this.installScope)
+      ));
+    } else {
+      if (plugin.version && plugin.version !== entry.version) {
+        const updateBtn = actionsEl.createEl('button', { text: `Update to v${plugin.version}`, cls: 'mod-cta' });
+        updateBtn.disabled = this.busy;
+        updateBtn.addEventListener('click', () => this.run(
+          `Updated "${plugin.name}" (${this.installScope})`,
+          () => this.installer.install(marketplace, plugin, this.installScope)
+        ));
+      }
+
+      const uninstallBtn = actionsEl.createEl('button', { text: 'Uninstall', cls: 'mod-warning' });
+      uninstallBtn.disabled = this.busy;
+      uninstallBtn.addEventListener('click', () => this.run(
+        `Uninstalled "${plugin.name}" (${this.installScope})`,
+        () => this.installer.uninstall(plugin.id, this.installScope)
+      ));
+    }
+
+    if (this.expanded.has(plugin.id)) {
+      this.renderContents(itemEl, plugin, entry?.installPath);
+    }
+  }
+
+  private renderContents(itemEl: HTMLElement, plugin: MarketplacePlugin, installPath?: string): void {
+    const contentsEl = itemEl.createDiv({ cls: 'claudian-plugin-marketplace-contents' });
+    const dir = plugin.localPath ?? installPath;
+    if (!dir) {
+      contentsEl.setText(`Fetched from ${describeSource(plugin.source)} on install; contents are listed once installed.`);
+      return;
+    }
+
+    const contents = readPluginContents(dir);
+    const rows: Array<[string, string[]]> = [
+      ['Commands', contents.commands.map(name => `/${name}`)],
+      ['Agents', contents.agents],
+      ['Skills', contents.skills],
+      ['MCP servers', contents.mcpServers],
+    ];
+
+    let listed = false;
+    for (const [label, names] of rows) {
+      if (names.length === 0) continue;
+      listed = true;
+      const rowEl = contentsEl.createDiv({ cls: 'claudian-plugin-marketplace-contents-row' });
+      rowEl.createSpan({ cls: 'claudian-plugin-marketplace-contents-label', text: label });
+      rowEl.createSpan({ text: names.join(', ') });
+    }
+
+    if (contents.hasHooks) {
+      listed = true;
+      contentsEl.createDiv({
+        cls: 'claudian-plugin-marketplace-hooks',
+        text: 'Adds hooks that run commands on agent events.',
+      });
+    }
+
+    if (!listed) {
+      contentsEl.setText('No commands, agents, skills or MCP servers found.');
+    }
+  }
+
+  private async run(successMessage: string, action: () => Promise<unknown>, pluginsChanged = true): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    this.render();
+
+    try {
+      await action();
+      if (pluginsChanged) {
+        await this.onChanged();
+      }
+      new Notice(successMessage);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      new Notice(`Marketplace action failed: ${message}`);
+    } finally {
+      this.busy = false;
+      this.reload();
+    }
+  }
+}
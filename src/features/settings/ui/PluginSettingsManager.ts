@@ -1,7 +1,10 @@
 import { Notice, setIcon } from 'obsidian';
 
+import { PluginInstaller } from '../../../core/plugins';
 import type { ClaudianPlugin as ClaudianPluginType } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
+import { getVaultPath } from '../../../utils/path';
+import { PluginMarketplaceModal } from './PluginMarketplaceModal';
 
 export class PluginSettingsManager {
   private containerEl: HTMLElement;
@@ -19,18 +22,27 @@ export class PluginSettingsManager {
     const headerEl = this.containerEl.createDiv({ cls: 'claudian-plugin-header' });
     headerEl.createSpan({ text: 'Claude Code Plugins', cls: 'claudian-plugin-label' });
 
-    const refreshBtn = headerEl.createEl('button', {
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+
+    const refreshBtn = actionsEl.createEl('button', {
       cls: 'claudian-settings-action-btn',
       attr: { 'aria-label': 'Refresh' },
     });
     setIcon(refreshBtn, 'refresh-cw');
     refreshBtn.addEventListener('click', () => this.refreshPlugins());
 
+    const browseBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Browse marketplaces' },
+    });
+    setIcon(browseBtn, 'store');
+    browseBtn.addEventListener('click', () => this.openMarketplace());
+
     const plugins = this.plugin.pluginManager.getPlugins();
 
     if (plugins.length === 0) {
       const emptyEl = this.containerEl.createDiv({ cls: 'claudian-plugin-empty' });
-      emptyEl.setText('No Claude Code plugins found. Enable plugins via the Claude CLI.');
+      emptyEl.setText('No Claude Code plugins found. Browse marketplaces to install one, or use the Claude CLI.');
       return;
     }
 
@@ -95,18 +107,7 @@ export class PluginSettingsManager {
     try {
       await this.plugin.pluginManager.togglePlugin(pluginId);
       await this.plugin.agentManager.loadAgents();
-
-      const view = this.plugin.getView();
-      const tabManager = view?.getTabManager();
-      if (tabManager) {
-        try {
-          await tabManager.broadcastToAllTabs(
-            async (service) => { await service.ensureReady({ force: true }); }
-          );
-        } catch {
-          new Notice('Plugin toggled, but some tabs failed to restart.');
-        }
-      }
+      await this.restartTabs('Plugin toggled, but some tabs failed to restart.');
 
       new Notice(`Plugin "${pluginId}" ${wasEnabled ? 'disabled' : 'enabled'}`);
     } catch (err) {
@@ -118,6 +119,36 @@ export class PluginSettingsManager {
     }
   }
 
+  private async restartTabs(failureMessage: string) {
+    const view = this.plugin.getView();
+    const tabManager = view?.getTabManager();
+    if (!tabManager) return;
+
+    try {
+      await tabManager.broadcastToAllTabs(
+        async (service) => { await service.ensureReady({ force: true }); }
+      );
+    } catch {
+      new Notice(failureMessage);
+    }
+  }
+
+  private openMarketplace() {
+    const vaultPath = getVaultPath(this.plugin.app);
+    if (!vaultPath) {
+      new Notice('Plugin marketplaces require a local vault.');
+      return;
+    }
+
+    const installer = new PluginInstaller(vaultPath, this.plugin.storage.ccSettings);
+    new PluginMarketplaceModal(this.plugin.app, installer, vaultPath, async () => {
+      await this.plugin.pluginManager.loadPlugins();
+      await this.plugin.agentManager.loadAgents();
+      await this.restartTabs('Plugins changed, but some tabs failed to restart.');
+      this.render();
+    }).open();
+  }
+
   private async refreshPlugins() {
     try {
       await this.plugin.pluginManager.loadPlugins();
@@ -0,0 +1,253 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import {
+  BUILT_IN_REDACTION_RULES,
+  formatRedactionSummary,
+  getRedactionRules,
+  Redactor,
+  validateRedactionPattern,
+} from '../../../core/redaction';
+import type { RedactionDetectorId, RedactionPattern } from '../../../core/types';
+import { REDACTION_DETECTOR_IDS } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { confirmDelete } from '../../../shared/modals/ConfirmModal';
+
+const DETECTOR_DESCRIPTIONS: Record<RedactionDetectorId, string> = {
+  api_keys: 'Anthropic, OpenAI, AWS, GitHub, GitLab, Slack, Stripe and Google keys, JWTs, and values assigned to api_key, token, secret or password.',
+  private_keys: 'PEM private key blocks.',
+  emails: 'Email addresses.',
+  phone_numbers: 'Phone numbers written with a leading + or separators.',
+  credit_cards: 'Card numbers that pass the Luhn check.',
+};
+
+class RedactionPatternModal extends Modal {
+  private existing: RedactionPattern | null;
+  private onSave: (pattern: RedactionPattern) => Promise<void>;
+
+  constructor(app: App, existing: RedactionPattern | null, onSave: (pattern: RedactionPattern) => Promise<void>) {
+    super(app);
+    this.existing = existing;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existing ? 'Edit redaction pattern' : 'Add redaction pattern');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+    const draft: RedactionPattern = {
+      name: this.existing?.name ?? '',
+      pattern: this.existing?.pattern ?? '',
+    };
+
+    new Setting(contentEl)
+      .setName('Name')
+      .setDesc('Shown in redaction notes and used in placeholders, e.g. "Client ID" becomes [REDACTED_CLIENT_ID_…].')
+      .addText(text => {
+        text.setPlaceholder('Client ID').setValue(draft.name).onChange(value => {
+          draft.name = value;
+        });
+      });
+
+    const patternSetting = new Setting(contentEl)
+      .setName('Pattern')
+      .setDesc('JavaScript regular expression. With a capture group, only the first group is masked.')
+      .addText(text => {
+        text.setPlaceholder('CL-\\d{6}').setValue(draft.pattern).onChange(value => {
+          draft.pattern = value;
+          errorEl.setText(value.trim() ? validateRedactionPattern(value) ?? '' : '');
+        });
+        text.inputEl.addClass('claudian-redaction-pattern-input');
+      });
+    const errorEl = patternSetting.descEl.createDiv({ cls: 'claudian-redaction-error' });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'claudian-save-btn mod-cta' });
+    saveBtn.addEventListener('click', async () => {
+      const name = draft.name.trim();
+      if (!name) {
+        new Notice('Enter a name for the pattern');
+        return;
+      }
+      const error = validateRedactionPattern(draft.pattern);
+      if (error) {
+        new Notice(`Invalid pattern: ${error}`);
+        return;
+      }
+      try {
+        await this.onSave({ name, pattern: draft.pattern });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        new Notice(`Failed to save redaction pattern: ${message}`);
+        return;
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/** Redaction toggle, built-in detectors, custom patterns and a tester. */
+export class RedactionSettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private testText = '';
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+    const { settings } = this.plugin;
+
+    new Setting(this.containerEl)
+      .setName('Redact outgoing content')
+      .setDesc('Also masks Read results through a masked copy under .claude/redacted/. Grep, Bash and web results are not masked.')
+      .addToggle(toggle =>
+        toggle.setValue(settings.enableRedaction).onChange(async (value) => {
+          settings.enableRedaction = value;
+          await this.save();
+        })
+      );
+
+    const detectorsHeader = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    detectorsHeader.createSpan({ text: 'Built-in detectors', cls: 'claudian-sp-label' });
+
+    for (const id of REDACTION_DETECTOR_IDS) {
+      new Setting(this.containerEl)
+        .setName(BUILT_IN_REDACTION_RULES[id].label)
+        .setDesc(DETECTOR_DESCRIPTIONS[id])
+        .addToggle(toggle =>
+          toggle.setValue(settings.redactionDetectors.includes(id)).onChange(async (value) => {
+            settings.redactionDetectors = REDACTION_DETECTOR_IDS.filter(detector =>
+              detector === id ? value : settings.redactionDetectors.includes(detector)
+            );
+            await this.save();
+          })
+        );
+    }
+
+    this.renderPatterns();
+    this.renderTester();
+  }
+
+  private renderPatterns(): void {
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: 'Custom patterns', cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openModal(null));
+
+    const patterns = this.plugin.settings.redactionPatterns;
+    if (patterns.length === 0) {
+      this.containerEl.createDiv({
+        cls: 'claudian-sp-empty-state',
+        text: 'No custom patterns. Add one for postal addresses, client IDs or anything else to keep private.',
+      });
+      return;
+    }
+
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-sp-list' });
+    patterns.forEach((pattern, index) => this.renderPattern(listEl, pattern, index));
+  }
+
+  private renderPattern(listEl: HTMLElement, pattern: RedactionPattern, index: number): void {
+    const itemEl = listEl.createDiv({ cls: 'claudian-sp-item claudian-redaction-pattern' });
+
+    const infoEl = itemEl.createDiv({ cls: 'claudian-sp-info' });
+    const headerRow = infoEl.createDiv({ cls: 'claudian-sp-item-header' });
+    headerRow.createSpan({ cls: 'claudian-sp-item-name', text: pattern.name });
+    const error = validateRedactionPattern(pattern.pattern);
+    if (error) {
+      headerRow.createSpan({ cls: 'claudian-slash-item-badge claudian-redaction-invalid', text: 'Invalid' });
+    }
+    infoEl.createDiv({
+      cls: 'claudian-sp-item-desc claudian-redaction-pattern-source',
+      text: pattern.pattern,
+      attr: error ? { title: error } : {},
+    });
+
+    const actionsEl = itemEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Edit' },
+    });
+    setIcon(editBtn, 'pencil');
+    editBtn.addEventListener('click', () => this.openModal(index));
+
+    const deleteBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+      attr: { 'aria-label': 'Delete' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', async () => {
+      const confirmed = await confirmDelete(this.plugin.app, `Delete the redaction pattern "${pattern.name}"?`);
+      if (!confirmed) return;
+      this.plugin.settings.redactionPatterns = this.plugin.settings.redactionPatterns.filter((_, i) => i !== index);
+      await this.save();
+    });
+  }
+
+  private renderTester(): void {
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: 'Test', cls: 'claudian-sp-label' });
+
+    const testerEl = this.containerEl.createDiv({ cls: 'claudian-redaction-tester' });
+    const inputEl = testerEl.createEl('textarea', {
+      cls: 'claudian-redaction-tester-input',
+      attr: { rows: '3', placeholder: 'Paste text to see what would be masked' },
+    });
+    inputEl.value = this.testText;
+    const outputEl = testerEl.createDiv({ cls: 'claudian-redaction-tester-output' });
+    const summaryEl = testerEl.createDiv({ cls: 'setting-item-description' });
+
+    const update = () => {
+      this.testText = inputEl.value;
+      // A separate redactor, so testing doesn't use up placeholder numbers of the live one
+      const { settings } = this.plugin;
+      const redactor = new Redactor(() => getRedactionRules(settings.redactionDetectors, settings.redactionPatterns));
+      const { text, redactions } = redactor.redact(this.testText);
+      outputEl.setText(text);
+      summaryEl.setText(!this.testText
+        ? ''
+        : redactions.length > 0 ? `Masked: ${formatRedactionSummary(redactions)}` : 'Nothing to mask.');
+    };
+    inputEl.addEventListener('input', update);
+    update();
+  }
+
+  private openModal(index: number | null): void {
+    const existing = index === null ? null : this.plugin.settings.redactionPatterns[index];
+    new RedactionPatternModal(this.plugin.app, existing, async (pattern) => {
+      const patterns = [...this.plugin.settings.redactionPatterns];
+      if (index === null) {
+        patterns.push(pattern);
+      } else {
+        patterns[index] = pattern;
+      }
+      this.plugin.settings.redactionPatterns = patterns;
+      await this.save();
+    }).open();
+  }
+
+  private async save(): Promise<void> {
+    await this.plugin.saveSettings();
+    this.render();
+  }
+}
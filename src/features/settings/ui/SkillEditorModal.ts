@@ -0,0 +1,416 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import type { ClaudeModel, SlashCommand } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import type { SkillIssue } from '../../../utils/skill';
+import { hasSkillErrors, validateSkill } from '../../../utils/skill';
+import { normalizeArgumentHint, parseSlashCommandContent, serializeSlashCommandMarkdown } from '../../../utils/slashCommand';
+
+interface SkillDraft {
+  name: string;
+  description: string;
+  argumentHint: string;
+  model: string;
+  allowedTools: string;
+  modelInvocable: boolean;
+  userInvocable: boolean;
+  fork: boolean;
+  agent: string;
+  hooks: string;
+  content: string;
+}
+
+function draftFromSkill(skill: SlashCommand | null): SkillDraft {
+  return {
+    name: skill?.name ?? '',
+    description: skill?.description ?? '',
+    argumentHint: skill?.argumentHint ?? '',
+    model: skill?.model ?? '',
+    allowedTools: skill?.allowedTools?.join(', ') ?? '',
+    modelInvocable: !skill?.disableModelInvocation,
+    userInvocable: skill?.userInvocable !== false,
+    fork: skill?.context === 'fork',
+    agent: skill?.agent ?? '',
+    hooks: skill?.hooks ? JSON.stringify(skill.hooks, null, 2) : '',
+    content: skill ? parseSlashCommandContent(skill.content).promptContent : '',
+  };
+}
+
+/** Dedicated editor for .claude/skills/<name>/SKILL.md and the files next to it. */
+export class SkillEditorModal extends Modal {
+  private plugin: ClaudianPlugin;
+  private existingSkill: SlashCommand | null;
+  private onSave: (skill: SlashCommand, previous: SlashCommand | null) => Promise<void>;
+  private draft: SkillDraft;
+  private testArgs = '';
+  private issuesEl: HTMLElement | null = null;
+  private agentSetting: Setting | null = null;
+  private filesEl: HTMLElement | null = null;
+  private selectedFile: string | null = null;
+
+  constructor(
+    app: App,
+    plugin: ClaudianPlugin,
+    existingSkill: SlashCommand | null,
+    onSave: (skill: SlashCommand, previous: SlashCommand | null) => Promise<void>
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.existingSkill = existingSkill;
+    this.onSave = onSave;
+    this.draft = draftFromSkill(existingSkill);
+  }
+
+  onOpen() {
+    this.setTitle(this.existingSkill ? `Edit skill /${this.existingSkill.name}` : 'New skill');
+    this.modalEl.addClass('claudian-sp-modal', 'claudian-skill-editor');
+
+    const { contentEl } = this;
+
+    this.addText(contentEl, 'Skill name', 'Folder name under .claude/skills; used as /name', 'name', 'summarize-notes');
+    this.addTextArea(contentEl, 'Description', 'When Claude should use this skill', 'description', 2);
+
+    const invocationEl = this.addSection(contentEl, 'Invocation');
+    this.addToggle(invocationEl, 'Claude can invoke', 'Let the model load this skill when the description matches', 'modelInvocable');
+    this.addToggle(invocationEl, 'User can invoke', 'Show as /name in the chat input', 'userInvocable');
+    this.addText(invocationEl, 'Argument hint', 'Placeholder shown after /name (e.g., "[file] [focus]")', 'argumentHint');
+
+    const executionEl = this.addSection(contentEl, 'Execution');
+    this.addToggle(executionEl, 'Run in a subagent', 'context: fork — runs the skill in its own context', 'fork', () => {
+      this.updateAgentVisibility();
+    });
+    this.agentSetting = this.addText(executionEl, 'Agent', 'Subagent type when running in a subagent', 'agent', 'general-purpose');
+    this.updateAgentVisibility();
+    this.addText(executionEl, 'Model override', 'Optional model for this skill', 'model', 'claude-sonnet-4-5');
+    this.addText(executionEl, 'Allowed tools', 'Comma-separated, e.g. Read, Grep, Bash(git diff:*) (empty = all)', 'allowedTools');
+
+    const hooksEl = this.addSection(contentEl, 'Hooks');
+    hooksEl.createDiv({
+      cls: 'setting-item-description',
+      text: 'JSON object of hook events to matcher lists, active while the skill runs.',
+    });
+    this.createTextArea(hooksEl, 'hooks', 4, '{ "PostToolUse": [{ "matcher": "Edit", "hooks": [{ "type": "command", "command": "npm run lint" }] }] }')
+      .addClass('claudian-skill-editor-code');
+
+    new Setting(contentEl)
+      .setName('Instructions')
+      .setDesc('Body of SKILL.md. Use $ARGUMENTS, $1, $2, @file, !`bash`');
+    this.createTextArea(contentEl, 'content', 10, 'When asked to summarize notes:\n1. ...')
+      .addClass('claudian-sp-content-area');
+
+    this.issuesEl = contentEl.createDiv({ cls: 'claudian-skill-editor-issues' });
+
+    const filesSection = this.addSection(contentEl, 'Supporting files');
+    this.filesEl = filesSection.createDiv({ cls: 'claudian-skill-editor-files' });
+    void this.renderFiles();
+
+    this.renderButtons(contentEl);
+    this.refreshIssues();
+
+    contentEl.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        this.close();
+      }
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private addSection(containerEl: HTMLElement, title: string): HTMLElement {
+    const details = containerEl.createEl('details', { cls: 'claudian-sp-advanced-section' });
+    details.createEl('summary', { text: title, cls: 'claudian-sp-advanced-summary' });
+    details.open = true;
+    return details;
+  }
+
+  private addText(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: 'name' | 'argumentHint' | 'model' | 'allowedTools' | 'agent',
+    placeholder = ''
+  ): Setting {
+    return new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => {
+        text.setValue(this.draft[key])
+          .setPlaceholder(placeholder)
+          .onChange(value => {
+            this.draft[key] = value;
+            this.refreshIssues();
+          });
+      });
+  }
+
+  private addTextArea(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: 'description',
+    rows: number
+  ): void {
+    const setting = new Setting(containerEl).setName(name).setDesc(desc);
+    setting.addTextArea(text => {
+      text.setValue(this.draft[key]).onChange(value => {
+        this.draft[key] = value;
+        this.refreshIssues();
+      });
+      text.inputEl.rows = rows;
+    });
+  }
+
+  private addToggle(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: 'modelInvocable' | 'userInvocable' | 'fork',
+    onChange?: () => void
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addToggle(toggle => {
+        toggle.setValue(this.draft[key]).onChange(value => {
+          this.draft[key] = value;
+          onChange?.();
+          this.refreshIssues();
+        });
+      });
+  }
+
+  private createTextArea(
+    containerEl: HTMLElement,
+    key: 'hooks' | 'content',
+    rows: number,
+    placeholder: string
+  ): HTMLTextAreaElement {
+    const textarea = containerEl.createEl('textarea', { attr: { rows: String(rows), placeholder } });
+    textarea.value = this.draft[key];
+    textarea.addEventListener('input', () => {
+      this.draft[key] = textarea.value;
+      this.refreshIssues();
+    });
+    return textarea;
+  }
+
+  private updateAgentVisibility(): void {
+    if (this.agentSetting) {
+      this.agentSetting.settingEl.style.display = this.draft.fork ? '' : 'none';
+    }
+  }
+
+  /** Parses the hooks field; returns an issue instead of throwing on invalid JSON. */
+  private parseHooks(): { hooks?: Record<string, unknown>; issue?: SkillIssue } {
+    const text = this.draft.hooks.trim();
+    if (!text) return {};
+    try {
+      const hooks = JSON.parse(text) as unknown;
+      if (!hooks || typeof hooks !== 'object' || Array.isArray(hooks)) {
+        return { issue: { severity: 'error', field: 'hooks', message: 'Hooks must be a JSON object' } };
+      }
+      return { hooks: hooks as Record<string, unknown> };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { issue: { severity: 'error', field: 'hooks', message: `Hooks are not valid JSON: ${message}` } };
+    }
+  }
+
+  private buildSkill(hooks?: Record<string, unknown>): SlashCommand {
+    const name = this.draft.name.trim();
+    const allowedTools = this.draft.allowedTools.split(',').map(s => s.trim()).filter(Boolean);
+
+    return {
+      id: `skill-${name}`,
+      name,
+      description: this.draft.description.trim() || undefined,
+      argumentHint: normalizeArgumentHint(this.draft.argumentHint.trim()) || undefined,
+      model: (this.draft.model.trim() || undefined) as ClaudeModel | undefined,
+      allowedTools: allowedTools.length > 0 ? allowedTools : undefined,
+      content: this.draft.content,
+      source: 'user',
+      disableModelInvocation: this.draft.modelInvocable ? undefined : true,
+      userInvocable: this.draft.userInvocable ? undefined : false,
+      context: this.draft.fork ? 'fork' : undefined,
+      agent: this.draft.fork ? (this.draft.agent.trim() || undefined) : undefined,
+      hooks,
+    };
+  }
+
+  /** Validates exactly what would be written to SKILL.md. */
+  private validate(): { skill: SlashCommand; issues: SkillIssue[] } {
+    const { hooks, issue } = this.parseHooks();
+    const skill = this.buildSkill(hooks);
+    const markdown = serializeSlashCommandMarkdown(skill, skill.content);
+    const issues = validateSkill(skill.name, markdown);
+    if (issue) issues.push(issue);
+
+    const duplicate = this.plugin.settings.slashCommands.find(
+      c => c.name.toLowerCase() === skill.name.toLowerCase() && c.id !== this.existingSkill?.id
+    );
+    if (duplicate) {
+      issues.push({ severity: 'error', field: 'name', message: `A command named "/${skill.name}" already exists` });
+    }
+
+    return { skill, issues };
+  }
+
+  private refreshIssues(): void {
+    if (!this.issuesEl) return;
+    this.issuesEl.empty();
+
+    const { issues } = this.validate();
+    if (issues.length === 0) {
+      this.issuesEl.createDiv({ cls: 'claudian-skill-editor-issue is-ok', text: 'No problems found' });
+      return;
+    }
+
+    for (const issue of issues) {
+      const issueEl = this.issuesEl.createDiv({ cls: `claudian-skill-editor-issue is-${issue.severity}` });
+      const iconEl = issueEl.createSpan({ cls: 'claudian-skill-editor-issue-icon' });
+      setIcon(iconEl, issue.severity === 'error' ? 'x-circle' : 'alert-triangle');
+      issueEl.createSpan({ text: issue.message });
+    }
+  }
+
+  private async renderFiles(): Promise<void> {
+    const filesEl = this.filesEl;
+    if (!filesEl) return;
+    filesEl.empty();
+
+    if (!this.existingSkill) {
+      filesEl.createDiv({
+        cls: 'setting-item-description',
+        text: 'Save the skill first to add scripts, templates or reference docs next to SKILL.md.',
+      });
+      return;
+    }
+
+    const storage = this.plugin.storage.skills;
+    const skillName = this.existingSkill.name;
+    const files = await storage.listSupportingFiles(skillName).catch(() => [] as string[]);
+
+    const listEl = filesEl.createDiv({ cls: 'claudian-skill-editor-file-list' });
+    if (files.length === 0) {
+      listEl.createDiv({ cls: 'setting-item-description', text: 'No supporting files.' });
+    }
+    for (const file of files) {
+      const rowEl = listEl.createDiv({ cls: 'claudian-skill-editor-file' });
+      if (file === this.selectedFile) rowEl.addClass('is-selected');
+      rowEl.createSpan({ cls: 'claudian-skill-editor-file-name', text: file });
+      rowEl.addEventListener('click', () => {
+        this.selectedFile = file;
+        void this.renderFiles();
+      });
+
+      const deleteBtn = rowEl.createEl('button', {
+        cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+        attr: { 'aria-label': `Delete ${file}` },
+      });
+      setIcon(deleteBtn, 'trash-2');
+      deleteBtn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        try {
+          await storage.deleteSupportingFile(skillName, file);
+          if (this.selectedFile === file) this.selectedFile = null;
+        } catch {
+          new Notice(`Failed to delete ${file}`);
+        }
+        await this.renderFiles();
+      });
+    }
+
+    const addRow = filesEl.createDiv({ cls: 'claudian-skill-editor-file-add' });
+    const pathInput = addRow.createEl('input', { type: 'text', attr: { placeholder: 'scripts/helper.py' } });
+    const addBtn = addRow.createEl('button', { text: 'Add file' });
+    addBtn.addEventListener('click', async () => {
+      const relativePath = pathInput.value.trim();
+      if (files.includes(relativePath)) {
+        this.selectedFile = relativePath;
+      } else {
+        try {
+          await storage.writeSupportingFile(skillName, relativePath, '');
+          this.selectedFile = relativePath;
+        } catch (error) {
+          new Notice(error instanceof Error ? error.message : 'Failed to add file');
+          return;
+        }
+      }
+      await this.renderFiles();
+    });
+
+    if (this.selectedFile && files.includes(this.selectedFile)) {
+      const file = this.selectedFile;
+      const editorEl = filesEl.createDiv({ cls: 'claudian-skill-editor-file-editor' });
+      const textarea = editorEl.createEl('textarea', { cls: 'claudian-skill-editor-code', attr: { rows: '8' } });
+      textarea.value = await storage.readSupportingFile(skillName, file).catch(() => '');
+
+      const saveFileBtn = editorEl.createEl('button', { text: `Save ${file}` });
+      saveFileBtn.addEventListener('click', async () => {
+        try {
+          await storage.writeSupportingFile(skillName, file, textarea.value);
+          new Notice(`Saved ${file}`);
+        } catch {
+          new Notice(`Failed to save ${file}`);
+        }
+      });
+    }
+  }
+
+  private renderButtons(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Test arguments')
+      .setDesc('Passed as $ARGUMENTS when testing the skill')
+      .addText(text => {
+        text.setValue(this.testArgs).onChange(value => { this.testArgs = value; });
+      });
+
+    const buttonContainer = containerEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const testBtn = buttonContainer.createEl('button', { text: 'Save and test' });
+    testBtn.addEventListener('click', async () => {
+      const skill = await this.save();
+      if (!skill) return;
+      if (skill.userInvocable === false) {
+        new Notice('Skill saved. Enable "User can invoke" to test it from a chat tab.');
+        return;
+      }
+      this.close();
+      await this.plugin.runSkillInNewTab(skill.name, this.testArgs);
+    });
+
+    const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'claudian-save-btn' });
+    saveBtn.addEventListener('click', async () => {
+      if (await this.save()) {
+        this.close();
+      }
+    });
+  }
+
+  /** Writes the skill when there are no errors; returns it, or null when blocked. */
+  private async save(): Promise<SlashCommand | null> {
+    const { skill, issues } = this.validate();
+    if (hasSkillErrors(issues)) {
+      this.refreshIssues();
+      new Notice(issues.find(issue => issue.severity === 'error')!.message);
+      return null;
+    }
+
+    try {
+      await this.onSave(skill, this.existingSkill);
+    } catch (error) {
+      new Notice(error instanceof Error ? error.message : 'Failed to save skill');
+      return null;
+    }
+
+    this.existingSkill = skill;
+    return skill;
+  }
+}
@@ -1,10 +1,11 @@
-import type { App, ToggleComponent } from 'obsidian';
+import type { App } from 'obsidian';
 import { Modal, Notice, setIcon, Setting } from 'obsidian';
 
 import type { SlashCommand } from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { extractFirstParagraph, isSkill, normalizeArgumentHint, parseSlashCommandContent, validateCommandName } from '../../../utils/slashCommand';
+import { SkillEditorModal } from './SkillEditorModal';
 
 function resolveAllowedTools(inputValue: string, parsedTools?: string[]): string[] | undefined {
   const trimmed = inputValue.trim();
@@ -35,12 +36,7 @@ export class SlashCommandModal extends Modal {
   }
 
   onOpen() {
-    const existingIsSkill = this.existingCmd ? isSkill(this.existingCmd) : false;
-    let selectedType: 'command' | 'skill' = existingIsSkill ? 'skill' : 'command';
-
-    const typeLabel = () => selectedType === 'skill' ? 'Skill' : 'Slash Command';
-
-    this.setTitle(this.existingCmd ? `Edit ${typeLabel()}` : `Add ${typeLabel()}`);
+    this.setTitle(this.existingCmd ? 'Edit Slash Command' : 'Add Slash Command');
     this.modalEl.addClass('claudian-sp-modal');
 
     const { contentEl } = this;
@@ -51,42 +47,9 @@ export class SlashCommandModal extends Modal {
     let modelInput: HTMLInputElement;
     let toolsInput: HTMLInputElement;
     let disableModelToggle: boolean = this.existingCmd?.disableModelInvocation ?? false;
-    let disableUserInvocation: boolean = this.existingCmd?.userInvocable === false;
     let contextValue: 'fork' | '' = this.existingCmd?.context ?? '';
     let agentInput: HTMLInputElement;
 
-    /* eslint-disable prefer-const -- assigned in Setting callbacks */
-    let disableUserSetting!: Setting;
-    let disableUserToggle!: ToggleComponent;
-    /* eslint-enable prefer-const */
-
-    const updateSkillOnlyFields = () => {
-      const isSkillType = selectedType === 'skill';
-      disableUserSetting.settingEl.style.display = isSkillType ? '' : 'none';
-      if (!isSkillType) {
-        disableUserInvocation = false;
-        disableUserToggle.setValue(false);
-      }
-    };
-
-    new Setting(contentEl)
-      .setName('Type')
-      .setDesc('Command or skill')
-      .addDropdown(dropdown => {
-        dropdown
-          .addOption('command', 'Command')
-          .addOption('skill', 'Skill')
-          .setValue(selectedType)
-          .onChange(value => {
-            selectedType = value as 'command' | 'skill';
-            this.setTitle(this.existingCmd ? `Edit ${typeLabel()}` : `Add ${typeLabel()}`);
-            updateSkillOnlyFields();
-          });
-        if (this.existingCmd) {
-          dropdown.setDisabled(true);
-        }
-      });
-
     new Setting(contentEl)
       .setName('Command name')
       .setDesc('The name used after / (e.g., "review" for /review)')
@@ -110,8 +73,7 @@ export class SlashCommandModal extends Modal {
       cls: 'claudian-sp-advanced-summary',
     });
     if (this.existingCmd?.argumentHint || this.existingCmd?.model || this.existingCmd?.allowedTools?.length ||
-        this.existingCmd?.disableModelInvocation || this.existingCmd?.userInvocable === false ||
-        this.existingCmd?.context || this.existingCmd?.agent) {
+        this.existingCmd?.disableModelInvocation || this.existingCmd?.context || this.existingCmd?.agent) {
       details.open = true;
     }
 
@@ -148,17 +110,6 @@ export class SlashCommandModal extends Modal {
           .onChange(value => { disableModelToggle = value; });
       });
 
-    disableUserSetting = new Setting(details)
-      .setName('Disable user invocation')
-      .setDesc('Prevent the user from invoking this skill directly')
-      .addToggle(toggle => {
-        disableUserToggle = toggle;
-        toggle.setValue(disableUserInvocation)
-          .onChange(value => { disableUserInvocation = value; });
-      });
-
-    updateSkillOnlyFields();
-
     new Setting(details)
       .setName('Context')
       .setDesc('Run in a subagent (fork)')
@@ -234,11 +185,8 @@ export class SlashCommandModal extends Modal {
       const parsed = parseSlashCommandContent(content);
       const promptContent = parsed.promptContent;
 
-      const isSkillType = selectedType === 'skill';
       const id = this.existingCmd?.id ||
-        (isSkillType
-          ? `skill-${name}`
-          : `cmd-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`);
+        `cmd-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
 
       const cmd: SlashCommand = {
         id,
@@ -248,9 +196,7 @@ export class SlashCommandModal extends Modal {
         model: modelInput.value.trim() || parsed.model || undefined,
         allowedTools: resolveAllowedTools(toolsInput.value, parsed.allowedTools),
         content: promptContent,
-        source: isSkillType ? 'user' : undefined,
         disableModelInvocation: disableModelToggle || undefined,
-        userInvocable: disableUserInvocation ? false : undefined,
         context: contextValue || undefined,
         agent: contextValue === 'fork' ? (agentInput.value.trim() || undefined) : undefined,
       };
@@ -258,8 +204,7 @@ export class SlashCommandModal extends Modal {
       try {
         await this.onSave(cmd);
       } catch {
-        const label = isSkillType ? 'skill' : 'slash command';
-        new Notice(`Failed to save ${label}`);
+        new Notice('Failed to save slash command');
         return;
       }
       this.close();
@@ -304,6 +249,13 @@ export class SlashCommandSettings {
     setIcon(addBtn, 'plus');
     addBtn.addEventListener('click', () => this.openCommandModal(null));
 
+    const addSkillBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'New skill' },
+    });
+    setIcon(addSkillBtn, 'package-plus');
+    addSkillBtn.addEventListener('click', () => this.openSkillEditor(null));
+
     const commands = this.plugin.settings.slashCommands;
 
     if (commands.length === 0) {
@@ -350,7 +302,13 @@ export class SlashCommandSettings {
       attr: { 'aria-label': 'Edit' },
     });
     setIcon(editBtn, 'pencil');
-    editBtn.addEventListener('click', () => this.openCommandModal(cmd));
+    editBtn.addEventListener('click', () => {
+      if (isSkill(cmd)) {
+        this.openSkillEditor(cmd);
+      } else {
+        this.openCommandModal(cmd);
+      }
+    });
 
     if (!isSkill(cmd)) {
       const convertBtn = actionsEl.createEl('button', {
@@ -394,6 +352,12 @@ export class SlashCommandSettings {
     modal.open();
   }
 
+  private openSkillEditor(existingSkill: SlashCommand | null): void {
+    new SkillEditorModal(this.plugin.app, this.plugin, existingSkill, async (skill, previous) => {
+      await this.saveSkill(skill, previous);
+    }).open();
+  }
+
   private storageFor(cmd: SlashCommand) {
     return isSkill(cmd) ? this.plugin.storage.skills : this.plugin.storage.commands;
   }
@@ -414,6 +378,19 @@ export class SlashCommandSettings {
     new Notice(`${label} "/${cmd.name}" ${existing ? 'updated' : 'created'}`);
   }
 
+  private async saveSkill(skill: SlashCommand, existing: SlashCommand | null): Promise<void> {
+    // Move the folder on rename so supporting files stay with the skill
+    if (existing && existing.name !== skill.name) {
+      await this.plugin.storage.skills.rename(existing.name, skill.name);
+    }
+    await this.plugin.storage.skills.save(skill);
+
+    await this.reloadCommands();
+
+    this.render();
+    new Notice(`Skill "/${skill.name}" ${existing ? 'updated' : 'created'}`);
+  }
+
   private async deleteCommand(cmd: SlashCommand): Promise<void> {
     await this.storageFor(cmd).delete(cmd.id);
 
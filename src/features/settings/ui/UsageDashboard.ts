@@ -0,0 +1,259 @@
+import { setIcon } from 'obsidian';
+
+import type { ModelPricing } from '../../../core/types';
+import { DEFAULT_MODEL_PRICING } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import {
+  getTotalTokens,
+  NO_FOLDER_KEY,
+  ROOT_FOLDER_KEY,
+  type UsageBucket,
+} from '../../../utils/tokenUsage';
+
+type UsageRange = '7d' | '30d' | 'all';
+
+const RANGE_OPTIONS: { value: UsageRange; label: string; days?: number }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: 'all', label: 'All time' },
+];
+
+const PRICE_FIELDS: { key: keyof ModelPricing; label: string }[] = [
+  { key: 'input', label: 'Input' },
+  { key: 'output', label: 'Output' },
+  { key: 'cacheWrite', label: 'Cache write' },
+  { key: 'cacheRead', label: 'Cache read' },
+];
+
+/** Rows shown per table before the rest is summarized. */
+const MAX_TABLE_ROWS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+function formatCost(bucket: UsageBucket): string {
+  const cost = bucket.cost < 0.01 && bucket.cost > 0 ? '<$0.01' : `$${bucket.cost.toFixed(2)}`;
+  return bucket.unpricedTokens > 0 ? `${cost}*` : cost;
+}
+
+function formatFolder(key: string): string {
+  if (key === NO_FOLDER_KEY) return '(no note)';
+  if (key === ROOT_FOLDER_KEY) return '(vault root)';
+  return key;
+}
+
+/** Settings section with token/cost totals and the editable price table. */
+export class UsageDashboard {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private range: UsageRange = '30d';
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.render();
+  }
+
+  private render() {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-usage-header' });
+    const rangeSelect = headerEl.createEl('select', { cls: 'dropdown claudian-usage-range' });
+    for (const option of RANGE_OPTIONS) {
+      const optionEl = rangeSelect.createEl('option', { text: option.label, value: option.value });
+      optionEl.selected = option.value === this.range;
+    }
+    rangeSelect.addEventListener('change', () => {
+      this.range = rangeSelect.value as UsageRange;
+      this.render();
+    });
+
+    const refreshBtn = headerEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Refresh' },
+    });
+    setIcon(refreshBtn, 'refresh-cw');
+    refreshBtn.addEventListener('click', () => this.render());
+
+    const days = RANGE_OPTIONS.find(o => o.value === this.range)?.days;
+    const since = days !== undefined ? Date.now() - days * DAY_MS : undefined;
+    const report = this.plugin.getUsageReport(since);
+
+    if (getTotalTokens(report.total) === 0) {
+      this.containerEl.createDiv({
+        cls: 'claudian-usage-empty',
+        text: 'No usage recorded for this period.',
+      });
+    } else {
+      this.renderSummary(report.total);
+      this.renderTable('By day', report.byDay);
+      this.renderTable('By model', report.byModel);
+      this.renderTable('By folder', report.byFolder.map(b => ({ ...b, label: formatFolder(b.key) })));
+      this.renderTable('Top conversations', report.byConversation);
+
+      if (report.total.unpricedTokens > 0) {
+        this.containerEl.createDiv({
+          cls: 'claudian-usage-note',
+          text: '* Includes models missing from the price table; their tokens are not counted in the cost.',
+        });
+      }
+    }
+
+    this.renderPriceTable();
+  }
+
+  private renderSummary(total: UsageBucket) {
+    const summaryEl = this.containerEl.createDiv({ cls: 'claudian-usage-summary' });
+    const stats: [string, string][] = [
+      ['Estimated cost', formatCost(total)],
+      ['Input', formatTokens(total.inputTokens)],
+      ['Output', formatTokens(total.outputTokens)],
+      ['Cache write', formatTokens(total.cacheCreationInputTokens)],
+      ['Cache read', formatTokens(total.cacheReadInputTokens)],
+    ];
+    for (const [label, value] of stats) {
+      const statEl = summaryEl.createDiv({ cls: 'claudian-usage-stat' });
+      statEl.createDiv({ cls: 'claudian-usage-stat-value', text: value });
+      statEl.createDiv({ cls: 'claudian-usage-stat-label', text: label });
+    }
+  }
+
+  private renderTable(title: string, buckets: UsageBucket[]) {
+    if (buckets.length === 0) return;
+
+    this.containerEl.createDiv({ cls: 'claudian-usage-section-header', text: title });
+    const table = this.containerEl.createEl('table', { cls: 'claudian-usage-table' });
+    const headRow = table.createEl('thead').createEl('tr');
+    for (const heading of ['', 'Input', 'Output', 'Cache', 'Cost']) {
+      headRow.createEl('th', { text: heading });
+    }
+
+    const body = table.createEl('tbody');
+    for (const bucket of buckets.slice(0, MAX_TABLE_ROWS)) {
+      const row = body.createEl('tr');
+      const labelCell = row.createEl('td', { cls: 'claudian-usage-label', text: bucket.label });
+      labelCell.setAttribute('title', bucket.label);
+      row.createEl('td', { text: formatTokens(bucket.inputTokens) });
+      row.createEl('td', { text: formatTokens(bucket.outputTokens) });
+      row.createEl('td', { text: formatTokens(bucket.cacheCreationInputTokens + bucket.cacheReadInputTokens) });
+      row.createEl('td', { text: formatCost(bucket) });
+    }
+
+    if (buckets.length > MAX_TABLE_ROWS) {
+      const row = body.createEl('tr', { cls: 'claudian-usage-more' });
+      row.createEl('td', { text: `+${buckets.length - MAX_TABLE_ROWS} more`, attr: { colspan: '5' } });
+    }
+  }
+
+  private renderPriceTable() {
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-usage-section-header claudian-usage-pricing-header' });
+    headerEl.createSpan({ text: 'Price table (USD per million tokens)' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-usage-pricing-actions' });
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add model' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.addPriceRow());
+
+    const resetBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Reset to defaults' },
+    });
+    setIcon(resetBtn, 'rotate-ccw');
+    resetBtn.addEventListener('click', () => {
+      void this.savePricing({ ...DEFAULT_MODEL_PRICING });
+    });
+
+    this.containerEl.createDiv({
+      cls: 'setting-item-description claudian-usage-pricing-desc',
+      text: 'Each entry applies to model IDs containing its key; the longest matching key wins.',
+    });
+
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-usage-pricing-list' });
+    for (const [key, pricing] of Object.entries(this.plugin.settings.modelPricing)) {
+      this.renderPriceRow(listEl, key, pricing);
+    }
+  }
+
+  private renderPriceRow(listEl: HTMLElement, key: string, pricing: ModelPricing) {
+    const rowEl = listEl.createDiv({ cls: 'claudian-usage-pricing-row' });
+
+    const keyInput = rowEl.createEl('input', {
+      type: 'text',
+      cls: 'claudian-usage-pricing-key',
+      value: key,
+      attr: { 'aria-label': 'Model ID match' },
+    });
+    keyInput.addEventListener('change', () => {
+      const newKey = keyInput.value.trim();
+      if (!newKey || newKey === key) {
+        keyInput.value = key;
+        return;
+      }
+      const next = { ...this.plugin.settings.modelPricing };
+      next[newKey] = next[key] ?? pricing;
+      delete next[key];
+      void this.savePricing(next);
+    });
+
+    for (const field of PRICE_FIELDS) {
+      const input = rowEl.createEl('input', {
+        type: 'number',
+        cls: 'claudian-usage-pricing-price',
+        value: String(pricing[field.key]),
+        attr: { 'aria-label': field.label, min: '0', step: 'any' },
+      });
+      input.addEventListener('change', () => {
+        // Read the latest entry: other fields of this row may have changed without a re-render
+        const current = this.plugin.settings.modelPricing[key] ?? pricing;
+        const value = parseFloat(input.value);
+        if (!isFinite(value) || value < 0) {
+          input.value = String(current[field.key]);
+          return;
+        }
+        void this.savePricing({
+          ...this.plugin.settings.modelPricing,
+          [key]: { ...current, [field.key]: value },
+        }, false);
+      });
+    }
+
+    const deleteBtn = rowEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Remove' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', () => {
+      const next = { ...this.plugin.settings.modelPricing };
+      delete next[key];
+      void this.savePricing(next);
+    });
+  }
+
+  private addPriceRow() {
+    const existing = this.plugin.settings.modelPricing;
+    let key = 'new-model';
+    for (let i = 2; key in existing; i++) {
+      key = `new-model-${i}`;
+    }
+    void this.savePricing({
+      ...existing,
+      [key]: { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 },
+    });
+  }
+
+  /** Replaces the price table (never mutates it, since it may be the shared default). */
+  private async savePricing(pricing: Record<string, ModelPricing>, rerender = true) {
+    this.plugin.settings.modelPricing = pricing;
+    await this.plugin.saveSettings();
+    if (rerender) {
+      this.render();
+    }
+  }
+}
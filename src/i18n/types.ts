@@ -85,6 +85,10 @@ export type TranslationKey =
   | 'settings.titleModel.name'
   | 'settings.titleModel.desc'
   | 'settings.titleModel.auto'
+  | 'settings.ghostText.name'
+  | 'settings.ghostText.desc'
+  | 'settings.ghostTextFolders.name'
+  | 'settings.ghostTextFolders.desc'
   | 'settings.navMappings.name'
   | 'settings.navMappings.desc'
 
@@ -126,11 +130,23 @@ export type TranslationKey =
   // Settings - MCP Servers
   | 'settings.mcpServers.name'
   | 'settings.mcpServers.desc'
+  | 'settings.vaultSearch.name'
+  | 'settings.vaultSearch.desc'
+  | 'settings.obsidianTools.name'
+  | 'settings.obsidianTools.desc'
 
   // Settings - Plugins
   | 'settings.plugins.name'
   | 'settings.plugins.desc'
 
+  // Settings - Scheduled jobs
+  | 'settings.jobs.name'
+  | 'settings.jobs.desc'
+
+  // Settings - Usage
+  | 'settings.usage.name'
+  | 'settings.usage.desc'
+
   // Settings - Subagents
   | 'settings.subagents.name'
   | 'settings.subagents.desc'
@@ -169,6 +185,10 @@ export type TranslationKey =
   | 'settings.safety'
   | 'settings.loadUserSettings.name'
   | 'settings.loadUserSettings.desc'
+  | 'settings.reviewEdits.name'
+  | 'settings.reviewEdits.desc'
+  | 'settings.auditLog.name'
+  | 'settings.auditLog.desc'
   | 'settings.enableBlocklist.name'
   | 'settings.enableBlocklist.desc'
   | 'settings.blockedCommands.name'
@@ -177,6 +197,12 @@ export type TranslationKey =
   | 'settings.blockedCommands.unixDesc'
   | 'settings.exportPaths.name'
   | 'settings.exportPaths.desc'
+  | 'settings.permissionRules.name'
+  | 'settings.permissionRules.desc'
+  | 'settings.folderPolicies.name'
+  | 'settings.folderPolicies.desc'
+  | 'settings.redaction.name'
+  | 'settings.redaction.desc'
 
   // Settings - Environment
   | 'settings.environment'
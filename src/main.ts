@@ -5,18 +5,41 @@
  * Manages conversation persistence and environment variable configuration.
  */
 
-import type { Editor, MarkdownView } from 'obsidian';
+import type { Editor, MarkdownView, TAbstractFile, TFile } from 'obsidian';
 import { Notice, Plugin } from 'obsidian';
 
 import { AgentManager } from './core/agents';
-import { McpServerManager } from './core/mcp';
+import { AuditLogger } from './core/audit';
+import { BatchRunner, JobRunner, JobScheduler } from './core/jobs';
+import {
+  McpCredentials,
+  McpOAuthClient,
+  McpServerManager,
+  OBSIDIAN_AUTO_ALLOWED_TOOL_IDS,
+  OBSIDIAN_TOOLS_SERVER_NAME,
+  ObsidianToolsServer,
+  VAULT_SEARCH_SERVER_NAME,
+  VAULT_SEARCH_TOOL_ID,
+  VaultSearchServer,
+} from './core/mcp';
 import { PluginManager } from './core/plugins';
-import { StorageService } from './core/storage';
+import { getRedactionRules, RedactedFileStore, Redactor } from './core/redaction';
+import { isReadRestricted } from './core/security';
+import {
+  ConversationSearchIndex,
+  type ConversationSearchResult,
+  McpCredentialStore,
+  RedactionStore,
+  StorageService,
+} from './core/storage';
 import type {
   ChatMessage,
   ClaudianSettings,
   Conversation,
   ConversationMeta,
+  JobRun,
+  JobRunCause,
+  ScheduledJob,
   SlashCommand,
   SubagentInfo,
 } from './core/types';
@@ -25,17 +48,31 @@ import {
   DEFAULT_SETTINGS,
   getCliPlatformKey,
   getHostnameKey,
+  JOB_HISTORY_LIMIT,
   VIEW_TYPE_CLAUDIAN,
 } from './core/types';
 import { ClaudianView } from './features/chat/ClaudianView';
+import { GhostTextService, isGhostTextEnabledForPath } from './features/ghost-text/GhostTextService';
+import { createGhostTextExtension } from './features/ghost-text/ui/GhostTextExtension';
 import { type InlineEditContext, InlineEditModal } from './features/inline-edit/ui/InlineEditModal';
 import { ClaudianSettingTab } from './features/settings/ClaudianSettings';
+import { AuditLogModal } from './features/settings/ui/AuditLogModal';
 import { setLocale } from './i18n';
+import { chooseBatchCommand, collectMarkdownPaths } from './shared/modals/BatchCommandModal';
 import { ClaudeCliResolver } from './utils/claudeCli';
-import { buildCursorContext } from './utils/editor';
+import { conversationToMarkdown, getExportBasename } from './utils/conversationExport';
+import { buildCursorContext, getSelectedRanges } from './utils/editor';
 import { getCurrentModelFromEnvironment, getModelsFromEnvironment, parseEnvironmentVariables } from './utils/env';
 import { getVaultPath } from './utils/path';
-import { deleteSDKSession, loadSDKSessionMessages, sdkSessionExists, type SDKSessionLoadResult } from './utils/sdkSession';
+import {
+  deleteSDKSession,
+  listSDKSessions,
+  loadSDKSessionMessages,
+  sdkSessionExists,
+  type SDKSessionLoadResult,
+  summarizeSDKSession,
+} from './utils/sdkSession';
+import { buildUsageReport, type UsageReport } from './utils/tokenUsage';
 
 /**
  * Main plugin class for Claudian.
@@ -44,21 +81,77 @@ import { deleteSDKSession, loadSDKSessionMessages, sdkSessionExists, type SDKSes
 export default class ClaudianPlugin extends Plugin {
   settings: ClaudianSettings;
   mcpManager: McpServerManager;
+  mcpCredentials: McpCredentials;
+  mcpCredentialStore: McpCredentialStore;
+  mcpOAuth: McpOAuthClient;
   pluginManager: PluginManager;
   agentManager: AgentManager;
   storage: StorageService;
+  auditLogger: AuditLogger;
+  redactor: Redactor;
+  redactedFiles: RedactedFileStore;
   cliResolver: ClaudeCliResolver;
+  jobScheduler: JobScheduler;
+  batchRunner: BatchRunner;
+  vaultSearchServer: VaultSearchServer;
+  obsidianToolsServer: ObsidianToolsServer;
+  ghostTextService: GhostTextService;
+  private jobRunner: JobRunner;
   private conversations: Conversation[] = [];
+  private searchIndex = new ConversationSearchIndex();
   private runtimeEnvironmentVariables = '';
 
   async onload() {
     await this.loadSettings();
 
     this.cliResolver = new ClaudeCliResolver();
+    this.auditLogger = new AuditLogger(this.storage.audit, () => this.settings.enableAuditLog);
+    this.redactor = new Redactor(
+      () => this.settings.enableRedaction
+        ? getRedactionRules(this.settings.redactionDetectors, this.settings.redactionPatterns)
+        : [],
+      new RedactionStore()
+    );
+    this.redactedFiles = new RedactedFileStore(this.redactor, () => getVaultPath(this.app));
+    // Masked copies left by a session that didn't unload cleanly
+    this.redactedFiles.clear();
 
     // Initialize MCP manager (shared for agent + UI)
     this.mcpManager = new McpServerManager(this.storage.mcp);
+    this.mcpCredentialStore = new McpCredentialStore();
+    this.mcpOAuth = new McpOAuthClient(this.mcpCredentialStore, { openUrl: (url) => window.open(url) });
+    this.mcpCredentials = new McpCredentials(this.mcpCredentialStore, this.mcpOAuth);
+    this.mcpManager.setCredentialProvider(this.mcpCredentials);
     await this.mcpManager.loadServers();
+    this.app.workspace.onLayoutReady(() => this.mcpManager.startHealthMonitor({
+      onServerDisabled: (server, health) => {
+        new Notice(
+          `MCP server "${server.name}" failed ${health.consecutiveFailures} health checks in a row `
+            + `and was disabled (${health.error ?? 'unknown error'}). Re-enable it in Settings → MCP Servers.`,
+          10000
+        );
+      },
+    }));
+
+    // Built-in note search server; its index follows vault changes
+    this.vaultSearchServer = new VaultSearchServer({
+      listNotes: () => this.app.vault.getMarkdownFiles().map(file => file.path),
+      readNote: (path) => this.app.vault.adapter.read(path),
+      isExcluded: (path) => isReadRestricted(this.settings.folderPolicies, path),
+      redact: (text) => this.redactor.redact(text).text,
+    });
+    this.registerEvent(this.app.vault.on('create', (file) => this.vaultSearchServer.markChanged(file.path)));
+    this.registerEvent(this.app.vault.on('modify', (file) => this.vaultSearchServer.markChanged(file.path)));
+    this.registerEvent(this.app.vault.on('delete', (file) => this.vaultSearchServer.markDeleted(file.path)));
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => this.vaultSearchServer.markRenamed(oldPath, file.path))
+    );
+    this.obsidianToolsServer = new ObsidianToolsServer(
+      this.app,
+      () => this.settings.folderPolicies,
+      (text) => this.redactor.redact(text).text
+    );
+    this.updateBuiltInMcpServers();
 
     // Initialize plugin manager (reads from installed_plugins.json + settings.json)
     const vaultPath = (this.app.vault.adapter as any).basePath;
@@ -69,6 +162,47 @@ export default class ClaudianPlugin extends Plugin {
     this.agentManager = new AgentManager(vaultPath, this.pluginManager);
     await this.agentManager.loadAgents();
 
+    this.jobRunner = new JobRunner(this);
+    this.jobScheduler = new JobScheduler({
+      getJobs: () => this.settings.scheduledJobs,
+      runJob: async (job, cause) => {
+        await this.runScheduledJob(job, cause);
+      },
+    });
+    // Wait for the workspace so startup jobs can open their results in a tab
+    this.app.workspace.onLayoutReady(() => this.jobScheduler.start());
+
+    this.batchRunner = new BatchRunner(this);
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        menu.addItem((item) => {
+          item
+            .setTitle('Run slash command with Claudian')
+            .setIcon('bot')
+            .onClick(() => void this.runSlashCommandOnFiles([file]));
+        });
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on('files-menu', (menu, files) => {
+        menu.addItem((item) => {
+          item
+            .setTitle('Run slash command with Claudian')
+            .setIcon('bot')
+            .onClick(() => void this.runSlashCommandOnFiles(files));
+        });
+      })
+    );
+
+    // Ghost text reads the settings on every pause, so toggles apply without a reload
+    this.ghostTextService = new GhostTextService(this);
+    this.registerEditorExtension(createGhostTextExtension({
+      isEnabled: (notePath) =>
+        this.settings.enableGhostText && isGhostTextEnabledForPath(notePath, this.settings.ghostTextFolders),
+      complete: (request) => this.ghostTextService.complete(request),
+      cancel: () => this.ghostTextService.cancel(),
+    }));
+
     this.registerView(
       VIEW_TYPE_CLAUDIAN,
       (leaf) => new ClaudianView(leaf, this)
@@ -92,9 +226,12 @@ export default class ClaudianPlugin extends Plugin {
       editorCallback: async (editor: Editor, view: MarkdownView) => {
         const selectedText = editor.getSelection();
         const notePath = view.file?.path || 'unknown';
+        const selections = getSelectedRanges(editor);
 
         let editContext: InlineEditContext;
-        if (selectedText.trim()) {
+        if (selections.length > 1) {
+          editContext = { mode: 'multi-selection', selections };
+        } else if (selectedText.trim()) {
           editContext = { mode: 'selection', selectedText };
         } else {
           const cursor = editor.getCursor();
@@ -116,6 +253,20 @@ export default class ClaudianPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'inline-edit-note',
+      name: 'Inline edit whole note',
+      editorCallback: async (_editor: Editor, view: MarkdownView) => {
+        const notePath = view.file?.path || 'unknown';
+        const modal = new InlineEditModal(this.app, this, { mode: 'note' }, notePath);
+        const result = await modal.openAndWait();
+
+        if (result.decision === 'accept') {
+          new Notice('Edit applied');
+        }
+      },
+    });
+
     this.addCommand({
       id: 'new-tab',
       name: 'New tab',
@@ -159,6 +310,34 @@ export default class ClaudianPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'export-conversation',
+      name: 'Export current conversation to note',
+      checkCallback: (checking: boolean) => {
+        const conversationId = this.getView()?.getTabManager()?.getActiveTab()?.conversationId;
+        if (!conversationId) return false;
+
+        if (!checking) {
+          void this.exportConversationToNote(conversationId);
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'run-slash-command-on-note',
+      name: 'Run slash command on current note',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+
+        if (!checking) {
+          void this.runSlashCommandOnFiles([file]);
+        }
+        return true;
+      },
+    });
+
     this.addCommand({
       id: 'close-current-tab',
       name: 'Close current tab',
@@ -181,10 +360,26 @@ export default class ClaudianPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'open-audit-log',
+      name: 'Open audit log',
+      callback: () => {
+        new AuditLogModal(this.app, this).open();
+      },
+    });
+
     this.addSettingTab(new ClaudianSettingTab(this.app, this));
   }
 
   async onunload() {
+    this.jobScheduler?.stop();
+    this.jobRunner?.cancel();
+    this.batchRunner?.cancelAll();
+    this.ghostTextService?.cancel();
+    this.mcpManager?.stopHealthMonitor();
+    await this.auditLogger?.flush();
+    this.redactedFiles?.clear();
+
     // Ensures state is saved even if Obsidian quits without calling onClose()
     for (const view of this.getAllViews()) {
       const tabManager = view.getTabManager();
@@ -279,6 +474,7 @@ export default class ClaudianPlugin extends Plugin {
       conversation.externalContextPaths = meta.externalContextPaths ?? conversation.externalContextPaths;
       conversation.enabledMcpServers = meta.enabledMcpServers ?? conversation.enabledMcpServers;
       conversation.usage = meta.usage ?? conversation.usage;
+      conversation.tokenUsage = meta.tokenUsage ?? conversation.tokenUsage;
       if (meta.sdkSessionId !== undefined) {
         conversation.sdkSessionId = meta.sdkSessionId;
       } else if (conversation.sdkSessionId === undefined && conversation.sessionId) {
@@ -314,6 +510,7 @@ export default class ClaudianPlugin extends Plugin {
           externalContextPaths: meta.externalContextPaths,
           enabledMcpServers: meta.enabledMcpServers,
           usage: meta.usage,
+          tokenUsage: meta.tokenUsage,
           titleGenerationStatus: meta.titleGenerationStatus,
           legacyCutoffAt: meta.legacyCutoffAt,
           isNative: true,
@@ -564,6 +761,13 @@ export default class ClaudianPlugin extends Plugin {
     });
   }
 
+  /** Builds a title from the first sentence of a prompt. */
+  private generateTitleFromPrompt(prompt: string): string {
+    const firstSentence = prompt.split(/[.!?\n]/)[0].trim();
+    if (!firstSentence) return this.generateDefaultTitle();
+    return firstSentence.substring(0, 50) + (firstSentence.length > 50 ? '...' : '');
+  }
+
   private getConversationPreview(conv: Conversation): string {
     const firstUserMsg = conv.messages.find(m => m.role === 'user');
     if (!firstUserMsg) {
@@ -784,6 +988,7 @@ export default class ClaudianPlugin extends Plugin {
 
     const conversation = this.conversations[index];
     this.conversations.splice(index, 1);
+    this.searchIndex.removeConversation(id);
 
     const vaultPath = getVaultPath(this.app);
     const sdkSessionId = conversation.sdkSessionId ?? conversation.sessionId;
@@ -913,6 +1118,250 @@ export default class ClaudianPlugin extends Plugin {
     }));
   }
 
+  /**
+   * Lists SDK sessions for this vault that no conversation references,
+   * such as sessions started with the CLI from the vault directory.
+   */
+  async listExternalSessions(): Promise<ConversationMeta[]> {
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath) return [];
+
+    const knownSessionIds = new Set<string>();
+    for (const conversation of this.conversations) {
+      knownSessionIds.add(conversation.id);
+      if (conversation.sessionId) knownSessionIds.add(conversation.sessionId);
+      if (conversation.sdkSessionId) knownSessionIds.add(conversation.sdkSessionId);
+      for (const id of conversation.previousSdkSessionIds ?? []) knownSessionIds.add(id);
+      if (conversation.forkSource) knownSessionIds.add(conversation.forkSource.sessionId);
+    }
+    for (const id of await this.storage.sessions.loadInternalSessionIds()) {
+      knownSessionIds.add(id);
+    }
+
+    const sessions = await listSDKSessions(vaultPath);
+    return sessions
+      .filter(session => !knownSessionIds.has(session.sessionId))
+      .map(session => ({
+        id: session.sessionId,
+        title: this.generateTitleFromPrompt(session.firstPrompt),
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        lastResponseAt: session.updatedAt,
+        messageCount: 0,
+        preview: session.firstPrompt.substring(0, 50) + (session.firstPrompt.length > 50 ? '...' : ''),
+        isNative: true,
+        isExternal: true,
+      }));
+  }
+
+  /** Keeps a session Claudian started outside chat out of the external session list. */
+  async rememberInternalSession(sessionId: string): Promise<void> {
+    try {
+      await this.storage.sessions.addInternalSessionId(sessionId);
+    } catch {
+      // Best effort: at worst the session is offered for import
+    }
+  }
+
+  /**
+   * Imports an external SDK session as a native conversation.
+   *
+   * Creates metadata keyed by the session ID so the session appears in history
+   * and resumes in place when the next message is sent.
+   */
+  async importExternalSession(sessionId: string): Promise<Conversation | null> {
+    const existing = this.conversations.find(c => c.id === sessionId);
+    if (existing) return existing;
+
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath) return null;
+
+    const summary = await summarizeSDKSession(vaultPath, sessionId);
+    if (!summary) return null;
+
+    const conversation: Conversation = {
+      id: sessionId,
+      title: this.generateTitleFromPrompt(summary.firstPrompt),
+      createdAt: summary.createdAt,
+      updatedAt: summary.updatedAt,
+      lastResponseAt: summary.updatedAt,
+      sessionId,
+      sdkSessionId: sessionId,
+      messages: [],
+      isNative: true,
+    };
+
+    this.conversations.push(conversation);
+    this.conversations.sort(
+      (a, b) => (b.lastResponseAt ?? b.updatedAt) - (a.lastResponseAt ?? a.updatedAt)
+    );
+    await this.storage.sessions.saveMetadata(
+      this.storage.sessions.toSessionMetadata(conversation)
+    );
+
+    return conversation;
+  }
+
+  /**
+   * Full-text search across all conversations.
+   *
+   * Native sessions have their SDK messages loaded on first search so their
+   * content can be indexed; the index is refreshed only for changed conversations.
+   */
+  async searchConversations(query: string, limit?: number): Promise<ConversationSearchResult[]> {
+    for (const conversation of this.conversations) {
+      await this.loadSdkMessagesForConversation(conversation);
+      if (this.searchIndex.isStale(conversation)) {
+        this.searchIndex.indexConversation(conversation);
+      }
+    }
+    this.searchIndex.retain(this.conversations.map(c => c.id));
+
+    return this.searchIndex.search(query, limit);
+  }
+
+  /**
+   * Aggregates billed tokens and estimated cost across all conversations.
+   *
+   * @param since - Only count turns at or after this timestamp (ms since epoch)
+   */
+  getUsageReport(since?: number): UsageReport {
+    return buildUsageReport(this.conversations, this.settings.modelPricing, { since });
+  }
+
+  /** Registers or removes Claudian's in-process MCP servers according to settings. */
+  updateBuiltInMcpServers(): void {
+    if (this.settings.enableVaultSearch) {
+      this.mcpManager.setBuiltInServer(VAULT_SEARCH_SERVER_NAME, {
+        config: this.vaultSearchServer.getConfig(),
+        autoAllowedTools: [VAULT_SEARCH_TOOL_ID],
+      });
+    } else {
+      this.mcpManager.setBuiltInServer(VAULT_SEARCH_SERVER_NAME, null);
+      this.vaultSearchServer.reset();
+    }
+
+    this.mcpManager.setBuiltInServer(
+      OBSIDIAN_TOOLS_SERVER_NAME,
+      this.settings.enableObsidianTools
+        ? { config: this.obsidianToolsServer.getConfig(), autoAllowedTools: OBSIDIAN_AUTO_ALLOWED_TOOL_IDS }
+        : null
+    );
+  }
+
+  /**
+   * Runs a scheduled job and records the run in the job's history.
+   * Failures are reported with a notice; successful runs open in a new tab if the job asks for it.
+   */
+  async runScheduledJob(job: ScheduledJob, cause: JobRunCause): Promise<JobRun> {
+    const run = await this.jobRunner.run(job, cause);
+
+    // Look the job up again: it may have been edited or deleted while running
+    const current = this.settings.scheduledJobs.find(j => j.id === job.id);
+    if (current) {
+      current.history = [run, ...current.history].slice(0, JOB_HISTORY_LIMIT);
+      await this.saveSettings();
+    }
+
+    if (run.status === 'error') {
+      new Notice(`Scheduled job "${job.name}" failed: ${run.error}`);
+    } else if (job.openInTab) {
+      await this.openJobRun(run);
+    } else if (cause === 'manual') {
+      new Notice(`Scheduled job "${job.name}" finished: ${run.notePath}`);
+    }
+    return run;
+  }
+
+  /**
+   * Asks for a slash command and runs it against the Markdown notes in `files`
+   * (folders included recursively), one background query per note.
+   * Progress is shown in the chat view's status panel.
+   */
+  async runSlashCommandOnFiles(files: TAbstractFile[]): Promise<void> {
+    const paths = collectMarkdownPaths(files);
+    if (paths.length === 0) {
+      new Notice('No Markdown notes selected');
+      return;
+    }
+
+    const commands = this.settings.slashCommands
+      .filter(cmd => cmd.userInvocable !== false)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    if (commands.length === 0) {
+      new Notice('No slash commands found. Add one in Claudian settings.');
+      return;
+    }
+
+    const choice = await chooseBatchCommand(this.app, commands, paths, this.settings.permissionMode);
+    if (!choice) return;
+
+    this.batchRunner.start(choice.commandName, paths, choice.permissionMode);
+    await this.activateView();
+  }
+
+  /** Imports a job run's session as a conversation and opens it in a new chat tab. */
+  async openJobRun(run: JobRun): Promise<boolean> {
+    if (!run.sessionId) return false;
+
+    const conversation = await this.importExternalSession(run.sessionId);
+    if (!conversation) return false;
+
+    await this.activateView();
+    await this.getView()?.getTabManager()?.openConversation(conversation.id, true);
+    return true;
+  }
+
+  /** Invokes a saved skill in a fresh chat tab so it can be tried without touching open conversations. */
+  async runSkillInNewTab(skillName: string, args = ''): Promise<boolean> {
+    await this.activateView();
+    const tab = await this.getView()?.getTabManager()?.createTab();
+    if (!tab) {
+      new Notice(`Maximum ${this.settings.maxTabs ?? 3} tabs allowed`);
+      return false;
+    }
+
+    const content = args.trim() ? `/${skillName} ${args.trim()}` : `/${skillName}`;
+    await tab.controllers.inputController?.sendMessage({ content });
+    return true;
+  }
+
+  /**
+   * Exports a conversation to a Markdown note and opens it.
+   *
+   * The note is created in Obsidian's default location for new notes;
+   * an index suffix is added when the title is already taken.
+   */
+  async exportConversationToNote(id: string): Promise<TFile | null> {
+    const conversation = await this.getConversationById(id);
+    if (!conversation) return null;
+
+    const content = conversationToMarkdown(conversation, {
+      vaultPath: getVaultPath(this.app),
+      fallbackModel: this.settings.model,
+    });
+
+    try {
+      const folder = this.app.fileManager.getNewFileParent('');
+      const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+      const basename = getExportBasename(conversation.title);
+
+      let path = `${prefix}${basename}.md`;
+      for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+        path = `${prefix}${basename} ${i}.md`;
+      }
+
+      const file = await this.app.vault.create(path, content);
+      await this.app.workspace.getLeaf('tab').openFile(file);
+      new Notice(`Exported to ${file.path}`);
+      return file;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(`Failed to export conversation: ${message}`);
+      return null;
+    }
+  }
+
   /** Returns the active Claudian view from workspace, if open. */
   getView(): ClaudianView | null {
     const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN);
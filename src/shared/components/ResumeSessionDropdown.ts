@@ -3,6 +3,7 @@
  *
  * Dropup UI for selecting a previous conversation to resume.
  * Shown when the /resume built-in command is executed.
+ * Also lists SDK sessions started outside Claudian (e.g. from the CLI).
  */
 
 import { setIcon } from 'obsidian';
@@ -145,17 +146,18 @@ export class ResumeSessionDropdown {
 
       const item = list.createDiv({ cls: 'claudian-resume-item' });
       if (isCurrent) item.addClass('current');
+      if (conv.isExternal) item.addClass('external');
       if (i === this.selectedIndex) item.addClass('selected');
 
       const iconEl = item.createDiv({ cls: 'claudian-resume-item-icon' });
-      setIcon(iconEl, isCurrent ? 'message-square-dot' : 'message-square');
+      setIcon(iconEl, this.getItemIcon(conv, isCurrent));
 
       const content = item.createDiv({ cls: 'claudian-resume-item-content' });
       const titleEl = content.createDiv({ cls: 'claudian-resume-item-title', text: conv.title });
       titleEl.setAttribute('title', conv.title);
       content.createDiv({
         cls: 'claudian-resume-item-date',
-        text: isCurrent ? 'Current session' : this.formatDate(conv.lastResponseAt ?? conv.createdAt),
+        text: this.getItemSubtitle(conv, isCurrent),
       });
 
       item.addEventListener('click', () => {
@@ -173,6 +175,17 @@ export class ResumeSessionDropdown {
     }
   }
 
+  private getItemIcon(conv: ConversationMeta, isCurrent: boolean): string {
+    if (isCurrent) return 'message-square-dot';
+    return conv.isExternal ? 'terminal' : 'message-square';
+  }
+
+  private getItemSubtitle(conv: ConversationMeta, isCurrent: boolean): string {
+    if (isCurrent) return 'Current session';
+    const date = this.formatDate(conv.lastResponseAt ?? conv.createdAt);
+    return conv.isExternal ? `CLI session · ${date}` : date;
+  }
+
   private formatDate(timestamp: number): string {
     const date = new Date(timestamp);
     const now = new Date();
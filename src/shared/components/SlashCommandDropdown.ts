@@ -31,6 +31,8 @@ export interface SlashCommandDropdownCallbacks {
    * Only available after the service is initialized (first message sent).
    */
   getSdkCommands?: () => Promise<SlashCommand[]>;
+  /** Prompts of enabled MCP servers, including servers the SDK has not loaded yet. */
+  getMcpPromptCommands?: () => SlashCommand[];
 }
 
 export interface SlashCommandDropdownOptions {
@@ -235,9 +237,9 @@ export class SlashCommandDropdown {
   }
 
   /**
-   * Builds the merged command list from built-in and SDK commands.
+   * Builds the merged command list from built-in, MCP prompt and SDK commands.
    * Built-in commands have highest priority and are not subject to hiding.
-   * SDK commands are deduplicated, filtered, and respect user hiding.
+   * MCP prompt and SDK commands are deduplicated, filtered, and respect user hiding.
    */
   private buildCommandList(builtInCommands: SlashCommand[]): SlashCommand[] {
     const seenNames = new Set<string>();
@@ -253,7 +255,8 @@ export class SlashCommandDropdown {
       }
     }
 
-    for (const cmd of this.cachedSdkSkills) {
+    const mcpPromptCommands = this.callbacks.getMcpPromptCommands?.() ?? [];
+    for (const cmd of [...mcpPromptCommands, ...this.cachedSdkSkills]) {
       const nameLower = cmd.name.toLowerCase();
       if (
         FILTERED_SDK_COMMANDS.has(nameLower) ||
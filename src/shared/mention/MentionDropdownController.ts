@@ -1,6 +1,7 @@
 import type { TFile } from 'obsidian';
 import { setIcon } from 'obsidian';
 
+import { describeMcpHealth, type McpServerHealth } from '../../core/mcp/McpServerManager';
 import { getFolderName, normalizePathForComparison } from '../../utils/externalContext';
 import { type ExternalContextFile, externalContextScanner } from '../../utils/externalContextScanner';
 import { extractMcpMentions } from '../../utils/mcp';
@@ -35,6 +36,8 @@ export interface MentionDropdownCallbacks {
 
 export interface McpMentionProvider {
   getContextSavingServers: () => Array<{ name: string }>;
+  /** Background health check result, shown as a status dot. */
+  getServerHealth?: (name: string) => McpServerHealth | undefined;
 }
 
 export class MentionDropdownController {
@@ -418,6 +421,13 @@ export class MentionDropdownController {
         if (item.type === 'mcp-server') {
           const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
           nameEl.setText(`@${item.name}`);
+          if (this.mcpManager?.getServerHealth) {
+            const health = this.mcpManager.getServerHealth(item.name);
+            const dotEl = nameEl.createSpan({
+              cls: `claudian-mcp-health-dot is-${health?.status ?? 'unknown'}`,
+            });
+            dotEl.setAttribute('title', describeMcpHealth(health));
+          }
         } else if (item.type === 'agent-folder') {
           const nameEl = textEl.createSpan({
             cls: 'claudian-mention-name claudian-mention-name-agent-folder',
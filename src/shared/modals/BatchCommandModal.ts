@@ -0,0 +1,132 @@
+import type { App, TAbstractFile } from 'obsidian';
+import { Modal, Notice, Setting, TFile, TFolder } from 'obsidian';
+
+import type { PermissionMode, SlashCommand } from '../../core/types';
+
+const PERMISSION_OPTIONS: { value: PermissionMode; label: string }[] = [
+  { value: 'normal', label: 'Safe (edits allowed, other tools denied)' },
+  { value: 'plan', label: 'Plan (read-only)' },
+  { value: 'yolo', label: 'YOLO (all tools allowed)' },
+];
+
+/** Paths listed in the modal before collapsing to a count. */
+const MAX_LISTED_PATHS = 5;
+
+export interface BatchCommandChoice {
+  commandName: string;
+  permissionMode: PermissionMode;
+}
+
+/** Markdown notes in the given files and folders (recursively), without duplicates. */
+export function collectMarkdownPaths(files: TAbstractFile[]): string[] {
+  const paths = new Set<string>();
+  const visit = (file: TAbstractFile) => {
+    if (file instanceof TFolder) {
+      file.children.forEach(visit);
+    } else if (file instanceof TFile && file.extension === 'md') {
+      paths.add(file.path);
+    }
+  };
+  files.forEach(visit);
+  return Array.from(paths).sort((a, b) => a.localeCompare(b));
+}
+
+/** Asks which slash command to run on the notes. Resolves null if cancelled. */
+export function chooseBatchCommand(
+  app: App,
+  commands: SlashCommand[],
+  paths: string[],
+  defaultPermissionMode: PermissionMode
+): Promise<BatchCommandChoice | null> {
+  return new Promise(resolve => {
+    new BatchCommandModal(app, commands, paths, defaultPermissionMode, resolve).open();
+  });
+}
+
+class BatchCommandModal extends Modal {
+  private commands: SlashCommand[];
+  private paths: string[];
+  private choice: BatchCommandChoice;
+  private resolve: (choice: BatchCommandChoice | null) => void;
+  private resolved = false;
+
+  constructor(
+    app: App,
+    commands: SlashCommand[],
+    paths: string[],
+    defaultPermissionMode: PermissionMode,
+    resolve: (choice: BatchCommandChoice | null) => void
+  ) {
+    super(app);
+    this.commands = commands;
+    this.paths = paths;
+    this.resolve = resolve;
+    this.choice = {
+      commandName: commands[0]?.name ?? '',
+      permissionMode: defaultPermissionMode,
+    };
+  }
+
+  onOpen() {
+    const noteLabel = this.paths.length === 1 ? 'note' : 'notes';
+    this.setTitle(`Run slash command on ${this.paths.length} ${noteLabel}`);
+    this.modalEl.addClass('claudian-batch-command-modal');
+
+    const { contentEl } = this;
+
+    const listEl = contentEl.createEl('ul', { cls: 'claudian-batch-command-paths' });
+    for (const path of this.paths.slice(0, MAX_LISTED_PATHS)) {
+      listEl.createEl('li', { text: path });
+    }
+    if (this.paths.length > MAX_LISTED_PATHS) {
+      listEl.createEl('li', { text: `and ${this.paths.length - MAX_LISTED_PATHS} more` });
+    }
+
+    new Setting(contentEl)
+      .setName('Command')
+      .setDesc('The quoted note path is passed as the command arguments ($ARGUMENTS, or $1 without quotes).')
+      .addDropdown(dropdown => {
+        for (const command of this.commands) {
+          dropdown.addOption(command.name, `/${command.name}`);
+        }
+        dropdown.setValue(this.choice.commandName).onChange(value => {
+          this.choice.commandName = value;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Permission mode')
+      .setDesc('Each note runs in its own background session, so tools that need approval are denied unless YOLO is selected.')
+      .addDropdown(dropdown => {
+        for (const option of PERMISSION_OPTIONS) {
+          dropdown.addOption(option.value, option.label);
+        }
+        dropdown.setValue(this.choice.permissionMode).onChange(value => {
+          this.choice.permissionMode = value as PermissionMode;
+        });
+      });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'claudian-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const runBtn = buttonContainer.createEl('button', { text: 'Run', cls: 'claudian-save-btn mod-cta' });
+    runBtn.addEventListener('click', () => {
+      if (!this.choice.commandName) {
+        new Notice('Choose a slash command');
+        return;
+      }
+      this.resolved = true;
+      this.resolve({ ...this.choice });
+      this.close();
+    });
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(null);
+    }
+    this.contentEl.empty();
+  }
+}
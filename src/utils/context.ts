@@ -12,9 +12,10 @@ const CURRENT_NOTE_SUFFIX_REGEX = /\n\n<current_note>\n[\s\S]*?<\/current_note>$
 /**
  * Pattern to match XML context tags appended to prompts.
  * These tags are always preceded by \n\n separator.
- * Matches: current_note, editor_selection (with attributes), editor_cursor (with attributes), context_files
+ * Matches: current_note, editor_selection (with attributes), editor_cursor (with attributes), context_files,
+ * mcp_resource (with attributes)
  */
-export const XML_CONTEXT_PATTERN = /\n\n<(?:current_note|editor_selection|editor_cursor|context_files)[\s>]/;
+export const XML_CONTEXT_PATTERN = /\n\n<(?:current_note|editor_selection|editor_cursor|context_files|mcp_resource)[\s>]/;
 
 export function formatCurrentNote(notePath: string): string {
   return `<current_note>\n${notePath}\n</current_note>`;
@@ -24,6 +25,11 @@ export function appendCurrentNote(prompt: string, notePath: string): string {
   return `${prompt}\n\n${formatCurrentNote(notePath)}`;
 }
 
+/** Appends the contents of an attached MCP resource, read just before sending. */
+export function appendMcpResource(prompt: string, server: string, uri: string, content: string): string {
+  return `${prompt}\n\n<mcp_resource server="${server}" uri="${uri}">\n${content}\n</mcp_resource>`;
+}
+
 /**
  * Strips current note context from a prompt (both prefix and suffix formats).
  * Handles legacy (prefix) and current (suffix) formats.
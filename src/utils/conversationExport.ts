@@ -0,0 +1,328 @@
+/**
+ * Claudian - Conversation Export
+ *
+ * Converts a conversation into a Markdown note with frontmatter, turns,
+ * collapsed callouts for thinking/tool calls, and wikilinks to touched files.
+ */
+
+import { getPathFromToolInput } from '../core/tools/toolInput';
+import { isEditTool, TOOL_READ, TOOL_TASK } from '../core/tools/toolNames';
+import type { ChatMessage, Conversation, SubagentInfo, ToolCallInfo } from '../core/types';
+import { formatDurationMmSs } from './date';
+import { getTotalTokens, sumTokenUsage } from './tokenUsage';
+
+/** Tool results longer than this are truncated in the export. */
+const MAX_TOOL_RESULT_LENGTH = 2000;
+/** Characters that Obsidian does not allow in file names (plus link-breaking ones). */
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+const MAX_FILENAME_LENGTH = 100;
+export const DEFAULT_EXPORT_BASENAME = 'Claudian conversation';
+
+export interface ConversationExportOptions {
+  /** Absolute vault path, used to turn absolute tool paths into wikilinks. */
+  vaultPath: string | null;
+  /** Model to record when the conversation has no usage info. */
+  fallbackModel?: string;
+}
+
+export interface TouchedFiles {
+  read: string[];
+  edited: string[];
+}
+
+// ============================================
+// File Links
+// ============================================
+
+/** Returns a vault-relative path, or null if the path lies outside the vault. */
+export function toVaultRelativePath(rawPath: string, vaultPath: string | null): string | null {
+  const normalized = rawPath.replace(/\\/g, '/').trim();
+  if (!normalized) return null;
+
+  const isAbsolute = normalized.startsWith('/') || /^[A-Za-z]:\//.test(normalized) || normalized.startsWith('~');
+  if (!isAbsolute) {
+    const relative = normalized.replace(/^\.\//, '');
+    return relative.startsWith('../') ? null : relative;
+  }
+
+  if (!vaultPath) return null;
+  const vaultPrefix = vaultPath.replace(/\\/g, '/').replace(/\/+$/, '') + '/';
+  if (normalized.toLowerCase().startsWith(vaultPrefix.toLowerCase())) {
+    return normalized.slice(vaultPrefix.length) || null;
+  }
+  return null;
+}
+
+/** Formats a vault-relative path as a wikilink (Markdown notes omit the extension). */
+export function toWikilink(vaultRelativePath: string): string {
+  const target = vaultRelativePath.replace(/\.md$/i, '');
+  return `[[${target}]]`;
+}
+
+function formatFileReference(rawPath: string, vaultPath: string | null): string {
+  const relative = toVaultRelativePath(rawPath, vaultPath);
+  return relative ? toWikilink(relative) : `\`${rawPath}\``;
+}
+
+function collectToolCalls(messages: ChatMessage[]): ToolCallInfo[] {
+  const toolCalls: ToolCallInfo[] = [];
+  for (const message of messages) {
+    for (const toolCall of message.toolCalls ?? []) {
+      toolCalls.push(toolCall);
+    }
+    for (const subagent of message.subagents ?? []) {
+      toolCalls.push(...subagent.toolCalls);
+    }
+  }
+  return toolCalls;
+}
+
+/** Collects vault files the agent read or edited, in first-seen order. */
+export function collectTouchedFiles(messages: ChatMessage[], vaultPath: string | null): TouchedFiles {
+  const read = new Set<string>();
+  const edited = new Set<string>();
+
+  for (const toolCall of collectToolCalls(messages)) {
+    if (toolCall.status === 'blocked') continue;
+    const isRead = toolCall.name === TOOL_READ;
+    const isEdit = isEditTool(toolCall.name);
+    if (!isRead && !isEdit) continue;
+
+    const rawPath = getPathFromToolInput(toolCall.name, toolCall.input);
+    const relative = rawPath ? toVaultRelativePath(rawPath, vaultPath) : null;
+    if (!relative) continue;
+
+    (isEdit ? edited : read).add(relative);
+  }
+
+  return { read: [...read], edited: [...edited] };
+}
+
+// ============================================
+// Markdown Building
+// ============================================
+
+/** Prefixes every line so the block renders inside a callout. */
+function quoteLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function callout(type: string, title: string, body: string): string {
+  const header = `> [!${type}]- ${title.replace(/\n/g, ' ')}`;
+  return body.trim() ? `${header}\n${quoteLines(body.trim())}` : header;
+}
+
+/** Wraps text in a code fence longer than any backtick run it contains. */
+function fence(text: string, lang = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n… (truncated)` : text;
+}
+
+function formatToolTitle(toolCall: ToolCallInfo, vaultPath: string | null): string {
+  const rawPath = getPathFromToolInput(toolCall.name, toolCall.input);
+  if (rawPath) {
+    return `${toolCall.name}: ${formatFileReference(rawPath, vaultPath)}`;
+  }
+  const command = toolCall.input.command ?? toolCall.input.query ?? toolCall.input.url ?? toolCall.input.description;
+  if (typeof command === 'string' && command) {
+    const singleLine = command.replace(/\s+/g, ' ');
+    return `${toolCall.name}: ${singleLine.length > 80 ? `${singleLine.slice(0, 80)}…` : singleLine}`;
+  }
+  return toolCall.name;
+}
+
+function formatToolCall(toolCall: ToolCallInfo, vaultPath: string | null): string {
+  const type = toolCall.status === 'error' || toolCall.status === 'blocked' ? 'failure' : 'example';
+  const parts: string[] = [];
+  if (Object.keys(toolCall.input).length > 0) {
+    parts.push('**Input**', fence(JSON.stringify(toolCall.input, null, 2), 'json'));
+  }
+  if (toolCall.result) {
+    parts.push('**Result**', fence(truncate(toolCall.result, MAX_TOOL_RESULT_LENGTH)));
+  }
+  return callout(type, formatToolTitle(toolCall, vaultPath), parts.join('\n'));
+}
+
+function formatSubagent(subagent: SubagentInfo, vaultPath: string | null): string {
+  const parts: string[] = [];
+  if (subagent.prompt) {
+    parts.push('**Prompt**', subagent.prompt);
+  }
+  for (const toolCall of subagent.toolCalls) {
+    parts.push(`- ${formatToolTitle(toolCall, vaultPath)}`);
+  }
+  if (subagent.result) {
+    parts.push('**Result**', truncate(subagent.result, MAX_TOOL_RESULT_LENGTH));
+  }
+  return callout('abstract', `Subagent: ${subagent.description}`, parts.join('\n\n'));
+}
+
+function formatThinking(content: string, durationSeconds?: number): string {
+  const title = durationSeconds !== undefined
+    ? `Thinking (${formatDurationMmSs(durationSeconds)})`
+    : 'Thinking';
+  return callout('note', title, content);
+}
+
+function formatAssistantBody(message: ChatMessage, vaultPath: string | null): string {
+  const toolCalls = new Map((message.toolCalls ?? []).map(tc => [tc.id, tc]));
+  const subagents = new Map((message.subagents ?? []).map(s => [s.id, s]));
+  const sections: string[] = [];
+
+  if (!message.contentBlocks || message.contentBlocks.length === 0) {
+    if (message.content.trim()) sections.push(message.content.trim());
+    for (const toolCall of toolCalls.values()) {
+      sections.push(formatToolCall(toolCall, vaultPath));
+    }
+    return sections.join('\n\n');
+  }
+
+  for (const block of message.contentBlocks) {
+    switch (block.type) {
+      case 'text':
+        if (block.content.trim()) sections.push(block.content.trim());
+        break;
+      case 'thinking':
+        if (block.content.trim()) sections.push(formatThinking(block.content, block.durationSeconds));
+        break;
+      case 'tool_use': {
+        const toolCall = toolCalls.get(block.toolId);
+        if (!toolCall) break;
+        const subagent = toolCall.name === TOOL_TASK ? subagents.get(block.toolId) : undefined;
+        sections.push(subagent ? formatSubagent(subagent, vaultPath) : formatToolCall(toolCall, vaultPath));
+        break;
+      }
+      case 'subagent': {
+        const subagent = subagents.get(block.subagentId);
+        if (subagent) sections.push(formatSubagent(subagent, vaultPath));
+        break;
+      }
+      case 'compact_boundary':
+        sections.push('> [!info] Conversation compacted');
+        break;
+    }
+  }
+
+  return sections.join('\n\n');
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function formatFrontmatter(conversation: Conversation, model: string | undefined, touched: TouchedFiles): string {
+  const lines = [
+    '---',
+    `title: ${yamlString(conversation.title)}`,
+    `createdAt: ${new Date(conversation.createdAt).toISOString()}`,
+  ];
+  if (model) {
+    lines.push(`model: ${yamlString(model)}`);
+  }
+
+  // Context window at the last turn
+  const usage = conversation.usage;
+  if (usage) {
+    lines.push(
+      'usage:',
+      `  inputTokens: ${usage.inputTokens}`,
+      `  cacheCreationInputTokens: ${usage.cacheCreationInputTokens}`,
+      `  cacheReadInputTokens: ${usage.cacheReadInputTokens}`,
+      `  contextTokens: ${usage.contextTokens}`,
+      `  contextWindow: ${usage.contextWindow}`,
+      `  percentage: ${usage.percentage}`,
+    );
+  }
+
+  // Tokens billed over the whole conversation, subagents included
+  if (conversation.tokenUsage?.length) {
+    const total = sumTokenUsage(conversation.tokenUsage);
+    lines.push(
+      'tokenUsage:',
+      `  inputTokens: ${total.inputTokens}`,
+      `  outputTokens: ${total.outputTokens}`,
+      `  cacheCreationInputTokens: ${total.cacheCreationInputTokens}`,
+      `  cacheReadInputTokens: ${total.cacheReadInputTokens}`,
+      `  totalTokens: ${getTotalTokens(total)}`,
+    );
+  }
+
+  const pushLinks = (key: string, paths: string[]) => {
+    if (paths.length === 0) return;
+    lines.push(`${key}:`, ...paths.map(p => `  - ${yamlString(toWikilink(p))}`));
+  };
+  pushLinks('filesRead', touched.read);
+  pushLinks('filesEdited', touched.edited);
+
+  lines.push(`conversationId: ${yamlString(conversation.id)}`, '---');
+  return lines.join('\n');
+}
+
+/** Converts a conversation into Markdown note content. */
+export function conversationToMarkdown(
+  conversation: Conversation,
+  options: ConversationExportOptions
+): string {
+  const { vaultPath } = options;
+  const messages = conversation.messages.filter(m => !m.isRebuiltContext);
+  const touched = collectTouchedFiles(messages, vaultPath);
+  const model = conversation.usage?.model ?? options.fallbackModel;
+
+  const sections: string[] = [
+    formatFrontmatter(conversation, model, touched),
+    `# ${conversation.title}`,
+  ];
+
+  for (const message of messages) {
+    if (message.isInterrupt) {
+      sections.push('> [!warning] Interrupted by user');
+      continue;
+    }
+
+    if (message.role === 'user') {
+      const text = (message.displayContent ?? message.content).trim();
+      const imageNote = message.images?.length
+        ? `_${message.images.length} image${message.images.length > 1 ? 's' : ''} attached_`
+        : '';
+      if (!text && !imageNote) continue;
+      sections.push('## User', [text, imageNote].filter(Boolean).join('\n\n'));
+    } else {
+      const body = formatAssistantBody(message, vaultPath);
+      if (!body) continue;
+      sections.push('## Assistant', body);
+    }
+  }
+
+  if (touched.read.length > 0 || touched.edited.length > 0) {
+    const fileLines: string[] = ['## Files'];
+    if (touched.edited.length > 0) {
+      fileLines.push(`**Edited**: ${touched.edited.map(toWikilink).join(', ')}`);
+    }
+    if (touched.read.length > 0) {
+      fileLines.push(`**Read**: ${touched.read.map(toWikilink).join(', ')}`);
+    }
+    sections.push(fileLines.join('\n\n'));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/** Builds a safe note basename from the conversation title. */
+export function getExportBasename(title: string): string {
+  const sanitized = title
+    .replace(INVALID_FILENAME_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, MAX_FILENAME_LENGTH)
+    .trim();
+  return sanitized || DEFAULT_EXPORT_BASENAME;
+}
@@ -1,7 +1,7 @@
 /**
  * Claudian - Date Utilities
  *
- * Date formatting helpers for system prompts.
+ * Date formatting helpers for system prompts, usage reports, and job notes.
  */
 
 /** Returns today's date in readable and ISO format for the system prompt. */
@@ -29,3 +29,19 @@ export function formatDurationMmSs(seconds: number): string {
   }
   return `${mins}m ${secs}s`;
 }
+
+/** Formats a timestamp as a local YYYY-MM-DD date. */
+export function formatLocalDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Formats a timestamp as a local HH:MM time. */
+export function formatLocalTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
@@ -41,6 +41,108 @@ export function countLineChanges(diffLines: DiffLine[]): DiffStats {
   return { added, removed };
 }
 
+/** Above this many LCS cells (changed old lines × changed new lines), the changed block is replaced wholesale. */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Line diff of two texts (LCS over the lines between the common prefix and suffix).
+ * Applying every change with applyLineDiff reproduces `newText` exactly.
+ */
+export function computeLineDiff(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMid = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMid = newLines.slice(prefix, newLines.length - suffix);
+  const m = oldMid.length;
+  const n = newMid.length;
+
+  // Edit script for the middle: 'e' = equal, 'd' = delete, 'i' = insert
+  const ops: ('e' | 'd' | 'i')[] = [];
+  if (m * n > MAX_LCS_CELLS) {
+    ops.push(...Array<'d'>(m).fill('d'), ...Array<'i'>(n).fill('i'));
+  } else {
+    const dp: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+    for (let i = m - 1; i >= 0; i--) {
+      for (let j = n - 1; j >= 0; j--) {
+        dp[i][j] = oldMid[i] === newMid[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < m || j < n) {
+      if (i < m && j < n && oldMid[i] === newMid[j]) {
+        ops.push('e');
+        i++;
+        j++;
+      } else if (i < m && (j === n || dp[i + 1][j] >= dp[i][j + 1])) {
+        ops.push('d');
+        i++;
+      } else {
+        ops.push('i');
+        j++;
+      }
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let oldLineNum = 1;
+  let newLineNum = 1;
+  const pushEqual = (text: string) => {
+    result.push({ type: 'equal', text, oldLineNum: oldLineNum++, newLineNum: newLineNum++ });
+  };
+
+  oldLines.slice(0, prefix).forEach(pushEqual);
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    if (op === 'e') {
+      pushEqual(oldMid[oldIndex++]);
+      newIndex++;
+    } else if (op === 'd') {
+      result.push({ type: 'delete', text: oldMid[oldIndex++], oldLineNum: oldLineNum++ });
+    } else {
+      result.push({ type: 'insert', text: newMid[newIndex++], newLineNum: newLineNum++ });
+    }
+  }
+  oldLines.slice(oldLines.length - suffix).forEach(pushEqual);
+
+  return result;
+}
+
+/**
+ * Rebuilds the new text from a line diff. Changes in `rejected` are undone:
+ * rejected inserts are dropped and rejected deletes are kept.
+ */
+export function applyLineDiff(diffLines: DiffLine[], rejected: ReadonlySet<DiffLine> = new Set()): string {
+  const lines: string[] = [];
+  for (const line of diffLines) {
+    if (line.type === 'equal') {
+      lines.push(line.text);
+    } else if ((line.type === 'insert') !== rejected.has(line)) {
+      lines.push(line.text);
+    }
+  }
+  return lines.join('\n');
+}
+
 /**
  * Extracts ToolDiffData from an SDK toolUseResult object.
  *
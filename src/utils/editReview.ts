@@ -0,0 +1,87 @@
+/**
+ * Claudian - Edit review helpers
+ *
+ * Turns a pending Write/Edit/NotebookEdit call into before/after text for review,
+ * and writes the reviewed text back into the tool input.
+ */
+
+import { TOOL_EDIT, TOOL_NOTEBOOK_EDIT, TOOL_WRITE } from '../core/tools/toolNames';
+
+/** Tool input field holding the proposed text. */
+export type ReviewedField = 'content' | 'new_string' | 'new_source';
+
+export interface EditProposal {
+  filePath: string;
+  field: ReviewedField;
+  /** Text being replaced: the current file (Write), old_string (Edit) or current cell source (NotebookEdit). */
+  originalText: string;
+  proposedText: string;
+  /** Write to a file that does not exist yet. */
+  isNewFile: boolean;
+}
+
+function getNotebookCellSource(notebookJson: string, cellId: string): string {
+  const notebook = JSON.parse(notebookJson) as { cells?: Array<{ id?: string; source?: string | string[] }> };
+  const cell = notebook.cells?.find(c => c.id === cellId);
+  if (!cell?.source) return '';
+  return Array.isArray(cell.source) ? cell.source.join('') : cell.source;
+}
+
+/**
+ * Builds the review for an edit tool call.
+ * Returns null for calls without reviewable text (e.g. deleting a notebook cell).
+ */
+export async function buildEditProposal(
+  toolName: string,
+  input: Record<string, unknown>,
+  readFile: (filePath: string) => Promise<string>
+): Promise<EditProposal | null> {
+  if (toolName === TOOL_WRITE) {
+    const filePath = input.file_path;
+    const content = input.content;
+    if (typeof filePath !== 'string' || typeof content !== 'string') return null;
+
+    try {
+      const originalText = await readFile(filePath);
+      return { filePath, field: 'content', originalText, proposedText: content, isNewFile: false };
+    } catch {
+      return { filePath, field: 'content', originalText: '', proposedText: content, isNewFile: true };
+    }
+  }
+
+  if (toolName === TOOL_EDIT) {
+    const filePath = input.file_path;
+    const oldString = input.old_string;
+    const newString = input.new_string;
+    if (typeof filePath !== 'string' || typeof oldString !== 'string' || typeof newString !== 'string') return null;
+
+    return { filePath, field: 'new_string', originalText: oldString, proposedText: newString, isNewFile: false };
+  }
+
+  if (toolName === TOOL_NOTEBOOK_EDIT) {
+    const filePath = input.notebook_path;
+    const newSource = input.new_source;
+    if (typeof filePath !== 'string' || typeof newSource !== 'string' || input.edit_mode === 'delete') return null;
+
+    let originalText = '';
+    if (input.edit_mode !== 'insert' && typeof input.cell_id === 'string') {
+      try {
+        originalText = getNotebookCellSource(await readFile(filePath), input.cell_id);
+      } catch {
+        // Unreadable notebook: review against an empty cell
+      }
+    }
+    return { filePath, field: 'new_source', originalText, proposedText: newSource, isNewFile: false };
+  }
+
+  return null;
+}
+
+/** Tool input with the reviewed text in place of the proposed text. */
+export function applyReviewedText(
+  input: Record<string, unknown>,
+  proposal: EditProposal,
+  text: string
+): Record<string, unknown> {
+  return { ...input, [proposal.field]: text };
+}
@@ -15,6 +15,20 @@ export function getEditorView(editor: Editor): EditorView | undefined {
   return (editor as unknown as { cm?: EditorView }).cm;
 }
 
+/** Non-blank selections of the editor (one per cursor) in document order, as offsets. */
+export function getSelectedRanges(editor: Editor): Array<{ from: number; to: number; text: string }> {
+  return editor.listSelections()
+    .map(({ anchor, head }) => {
+      const anchorOffset = editor.posToOffset(anchor);
+      const headOffset = editor.posToOffset(head);
+      const from = Math.min(anchorOffset, headOffset);
+      const to = Math.max(anchorOffset, headOffset);
+      return { from, to, text: editor.getRange(editor.offsetToPos(from), editor.offsetToPos(to)) };
+    })
+    .filter(range => range.text.trim())
+    .sort((a, b) => a.from - b.from);
+}
+
 export interface CursorContext {
   beforeCursor: string;
   afterCursor: string;
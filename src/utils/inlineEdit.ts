@@ -1,8 +1,10 @@
 /**
  * Utilities for inline edit UI.
- * Kept dependency-free so tests can import directly.
+ * Kept free of Obsidian dependencies so tests can import directly.
  */
 
+import { computeLineDiff } from './diff';
+
 /**
  * Trims leading and trailing blank lines from insertion text.
  * Matches the behavior expected by cursor insertion preview.
@@ -16,3 +18,180 @@ export function escapeHtml(text: string): string {
   return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
+
+export interface WordDiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** Word-level diff (whitespace runs are their own tokens); consecutive ops of one type are merged. */
+export function computeWordDiff(oldText: string, newText: string): WordDiffOp[] {
+  const oldWords = oldText.split(/(\s+)/);
+  const newWords = newText.split(/(\s+)/);
+  const m = oldWords.length, n = newWords.length;
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      dp[i][j] = oldWords[i-1] === newWords[j-1]
+        ? dp[i-1][j-1] + 1
+        : Math.max(dp[i-1][j], dp[i][j-1]);
+    }
+  }
+
+  const ops: WordDiffOp[] = [];
+  let i = m, j = n;
+  const temp: WordDiffOp[] = [];
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && oldWords[i-1] === newWords[j-1]) {
+      temp.push({ type: 'equal', text: oldWords[i-1] });
+      i--; j--;
+    } else if (j > 0 && (i === 0 || dp[i][j-1] >= dp[i-1][j])) {
+      temp.push({ type: 'insert', text: newWords[j-1] });
+      j--;
+    } else {
+      temp.push({ type: 'delete', text: oldWords[i-1] });
+      i--;
+    }
+  }
+
+  temp.reverse();
+  for (const op of temp) {
+    if (ops.length > 0 && ops[ops.length-1].type === op.type) {
+      ops[ops.length-1].text += op.text;
+    } else {
+      ops.push({ ...op });
+    }
+  }
+  return ops;
+}
+
+/** Unchanged text, or one change (adjacent delete/insert) the user can keep or drop. */
+export type WordDiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; deleted: string; inserted: string };
+
+export function groupWordDiff(ops: WordDiffOp[]): WordDiffSegment[] {
+  const segments: WordDiffSegment[] = [];
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      if (op.text) segments.push({ type: 'equal', text: op.text });
+      continue;
+    }
+    let last = segments[segments.length - 1];
+    if (last?.type !== 'change') {
+      last = { type: 'change', deleted: '', inserted: '' };
+      segments.push(last);
+    }
+    if (op.type === 'delete') {
+      last.deleted += op.text;
+    } else {
+      last.inserted += op.text;
+    }
+  }
+  return segments;
+}
+
+/** Number of changes in a grouped diff; hunk indexes run from 0 to this count. */
+export function countWordDiffHunks(segments: WordDiffSegment[]): number {
+  return segments.filter(segment => segment.type === 'change').length;
+}
+
+/** New text with the changes whose hunk index is in `rejected` reverted. */
+export function applyWordDiff(segments: WordDiffSegment[], rejected: ReadonlySet<number> = new Set()): string {
+  let hunkIndex = 0;
+  return segments.map(segment => {
+    if (segment.type === 'equal') return segment.text;
+    return rejected.has(hunkIndex++) ? segment.deleted : segment.inserted;
+  }).join('');
+}
+
+/** Preview HTML; each change is wrapped in a `data-hunk` span so clicks can toggle it. */
+export function wordDiffToHtml(segments: WordDiffSegment[], rejected: ReadonlySet<number> = new Set()): string {
+  let hunkIndex = 0;
+  return segments.map(segment => {
+    if (segment.type === 'equal') return escapeHtml(segment.text);
+
+    const index = hunkIndex++;
+    const isRejected = rejected.has(index);
+    const cls = isRejected ? 'claudian-inline-diff-hunk is-rejected' : 'claudian-inline-diff-hunk';
+    const title = isRejected ? 'Click to keep this change' : 'Click to drop this change';
+    const deleted = segment.deleted ? `<span class="claudian-diff-del">${escapeHtml(segment.deleted)}</span>` : '';
+    const inserted = segment.inserted ? `<span class="claudian-diff-ins">${escapeHtml(segment.inserted)}</span>` : '';
+    return `<span class="${cls}" data-hunk="${index}" title="${title}">${deleted}${inserted}</span>`;
+  }).join('');
+}
+
+/** Range of the original text (character offsets) and what the proposal puts there. */
+export interface TextRegion {
+  from: number;
+  to: number;
+  original: string;
+  proposed: string;
+}
+
+/**
+ * Splits a whole-text rewrite into the line blocks that changed, so each block can be
+ * previewed in place. Applying every region to `oldText` yields `newText`.
+ */
+export function diffTextRegions(oldText: string, newText: string): TextRegion[] {
+  if (oldText === newText) return [];
+  if (oldText === '') return [{ from: 0, to: 0, original: '', proposed: newText }];
+
+  const oldLines = oldText.split('\n');
+  const starts: number[] = [];
+  let offset = 0;
+  for (const line of oldLines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+  const lineEnd = (index: number) => starts[index] + oldLines[index].length;
+
+  const toRegion = (first: number, deleted: string[], inserted: string[]): TextRegion => {
+    const last = first + deleted.length - 1;
+    if (deleted.length > 0 && inserted.length > 0) {
+      return { from: starts[first], to: lineEnd(last), original: deleted.join('\n'), proposed: inserted.join('\n') };
+    }
+    if (deleted.length > 0) {
+      // Take a line break along so no empty line is left behind
+      if (last + 1 < oldLines.length) {
+        return { from: starts[first], to: starts[last + 1], original: `${deleted.join('\n')}\n`, proposed: '' };
+      }
+      if (first > 0) {
+        return { from: lineEnd(first - 1), to: lineEnd(last), original: `\n${deleted.join('\n')}`, proposed: '' };
+      }
+      return { from: 0, to: oldText.length, original: oldText, proposed: '' };
+    }
+    if (first < oldLines.length) {
+      return { from: starts[first], to: starts[first], original: '', proposed: `${inserted.join('\n')}\n` };
+    }
+    return { from: oldText.length, to: oldText.length, original: '', proposed: `\n${inserted.join('\n')}` };
+  };
+
+  const diff = computeLineDiff(oldText, newText);
+  const regions: TextRegion[] = [];
+  let oldIndex = 0;
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].type === 'equal') {
+      oldIndex++;
+      i++;
+      continue;
+    }
+    const first = oldIndex;
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (i < diff.length && diff[i].type !== 'equal') {
+      if (diff[i].type === 'delete') {
+        deleted.push(diff[i].text);
+        oldIndex++;
+      } else {
+        inserted.push(diff[i].text);
+      }
+      i++;
+    }
+    regions.push(toRegion(first, deleted, inserted));
+  }
+  return regions;
+}
@@ -0,0 +1,86 @@
+/**
+ * Claudian - Link integrity check
+ *
+ * Compares Obsidian's unresolved link index before and after an agent turn to
+ * find wikilinks the turn broke (e.g. by moving, renaming or deleting notes).
+ */
+
+import type { MetadataCache } from 'obsidian';
+
+import { isEditTool, TOOL_BASH } from '../core/tools/toolNames';
+import type { ToolCallInfo } from '../core/types/tools';
+
+/** Link counts per source note, shaped like `metadataCache.unresolvedLinks`. */
+export type LinkCounts = Record<string, Record<string, number>>;
+
+export interface BrokenLink {
+  /** Note containing the link. */
+  sourcePath: string;
+  /** Link text as written (without brackets, heading or alias). */
+  link: string;
+}
+
+/** Bash commands that move or delete files. */
+const FILE_MOVING_COMMAND_PATTERN = /(^|[\s;&|(])(mv|rm|rmdir|git\s+mv|git\s+rm)\s/;
+
+export function snapshotUnresolvedLinks(metadataCache: MetadataCache): LinkCounts {
+  const snapshot: LinkCounts = {};
+  for (const [sourcePath, links] of Object.entries(metadataCache.unresolvedLinks)) {
+    snapshot[sourcePath] = { ...links };
+  }
+  return snapshot;
+}
+
+/** Unresolved links in `after` that were not (as often) unresolved in `before`. */
+export function findNewlyBrokenLinks(before: LinkCounts, after: LinkCounts): BrokenLink[] {
+  const broken: BrokenLink[] = [];
+  for (const [sourcePath, links] of Object.entries(after)) {
+    for (const [link, count] of Object.entries(links)) {
+      if (count > (before[sourcePath]?.[link] ?? 0)) {
+        broken.push({ sourcePath, link });
+      }
+    }
+  }
+  return broken.sort((a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.link.localeCompare(b.link));
+}
+
+/** Whether a turn's tool calls may have written, moved or deleted vault files. */
+export function didTouchVaultFiles(toolCalls: ToolCallInfo[]): boolean {
+  return toolCalls.some(toolCall => {
+    if (toolCall.status === 'error' || toolCall.status === 'blocked') return false;
+    if (isEditTool(toolCall.name)) return true;
+    if (toolCall.name === TOOL_BASH) {
+      const command = toolCall.input.command;
+      return typeof command === 'string' && FILE_MOVING_COMMAND_PATTERN.test(command);
+    }
+    return false;
+  });
+}
+
+/**
+ * Resolves once Obsidian reports the metadata cache as resolved, or after `timeoutMs`
+ * (the event does not fire again if everything was already resolved).
+ */
+export function waitForMetadataResolved(metadataCache: MetadataCache, timeoutMs: number): Promise<void> {
+  return new Promise(resolve => {
+    const finish = () => {
+      clearTimeout(timer);
+      metadataCache.offref(ref);
+      resolve();
+    };
+    const ref = metadataCache.on('resolved', finish);
+    const timer = setTimeout(finish, timeoutMs);
+  });
+}
+
+/** Follow-up prompt asking the agent to repair the links. */
+export function buildLinkFixPrompt(links: BrokenLink[]): string {
+  const lines = links.map(({ sourcePath, link }) => `- [[${link}]] in ${sourcePath}`);
+  return [
+    'These wikilinks stopped resolving after your last changes:',
+    ...lines,
+    '',
+    'Fix them so they point to the notes you moved or renamed. '
+      + 'If a target was deleted on purpose, tell me instead of inventing a new target.',
+  ].join('\n');
+}
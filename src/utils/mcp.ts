@@ -1,3 +1,6 @@
+import type { McpPrompt } from '../core/mcp/McpTester';
+import type { SlashCommand } from '../core/types';
+
 export function extractMcpMentions(text: string, validNames: Set<string>): Set<string> {
   const mentions = new Set<string>();
   const regex = /@([a-zA-Z0-9._-]+)(?!\/)/g;
@@ -94,3 +97,45 @@ export function splitCommandString(cmdStr: string): string[] {
 
   return parts;
 }
+
+/** Argument hint for a server prompt: `<required>` and `[optional]` arguments in order. */
+export function formatMcpPromptArgumentHint(prompt: McpPrompt): string {
+  return (prompt.arguments ?? [])
+    .map(arg => (arg.required ? `<${arg.name}>` : `[${arg.name}]`))
+    .join(' ');
+}
+
+/** Server prompt as a `/mcp__server__prompt` slash command (the name Claude Code uses). */
+export function mcpPromptToSlashCommand(serverName: string, prompt: McpPrompt): SlashCommand {
+  const name = `mcp__${serverName}__${prompt.name}`;
+  return {
+    id: `mcp:${serverName}:${prompt.name}`,
+    name,
+    description: prompt.description ? `${prompt.description} (${serverName})` : `MCP prompt from ${serverName}`,
+    argumentHint: formatMcpPromptArgumentHint(prompt) || undefined,
+    content: '',
+    source: 'mcp',
+  };
+}
+
+/**
+ * Maps space-separated arguments (quotes group words) to the prompt's arguments in order.
+ * Extra words go to the last argument. Throws if a required argument is missing.
+ */
+export function mapMcpPromptArguments(prompt: McpPrompt, argsText: string): Record<string, string> {
+  const declared = prompt.arguments ?? [];
+  const values = splitCommandString(argsText);
+  const result: Record<string, string> = {};
+
+  declared.forEach((arg, i) => {
+    const isLast = i === declared.length - 1;
+    const value = isLast ? values.slice(i).join(' ') : values[i];
+    if (value) {
+      result[arg.name] = value;
+    } else if (arg.required) {
+      throw new Error(`Missing argument "${arg.name}" for prompt "${prompt.name}"`);
+    }
+  });
+
+  return result;
+}
@@ -381,7 +381,7 @@ export function findClaudeCLIPath(pathValue?: string): string | null {
  * If the full path doesn't exist, resolve the nearest existing ancestor via realpath
  * and then re-append the remaining path segments.
  */
-function resolveRealPath(p: string): string {
+export function resolveRealPath(p: string): string {
   const realpathFn = (fs.realpathSync.native ?? fs.realpathSync) as (path: fs.PathLike) => string;
 
   try {
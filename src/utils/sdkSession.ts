@@ -166,6 +166,110 @@ export async function readSDKSession(vaultPath: string, sessionId: string): Prom
   }
 }
 
+/** Summary of an SDK session file, used to discover sessions started outside Claudian. */
+export interface SDKSessionSummary {
+  sessionId: string;
+  /** First prompt the user typed (display text only). */
+  firstPrompt: string;
+  createdAt: number;
+  /** Last modification time of the session file. */
+  updatedAt: number;
+}
+
+/** Only the head of a session file is parsed when summarizing; the first prompt is near the top. */
+const SESSION_SUMMARY_HEAD_BYTES = 64 * 1024;
+
+async function readFileHead(filePath: string, maxBytes: number): Promise<string> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(maxBytes);
+    const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0);
+    return buffer.toString('utf-8', 0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Summarizes an SDK session file without loading the whole conversation.
+ *
+ * Returns null when the file is missing, unreadable, or has no user prompt
+ * (e.g. sessions that were opened and closed without sending anything).
+ */
+export async function summarizeSDKSession(vaultPath: string, sessionId: string): Promise<SDKSessionSummary | null> {
+  try {
+    const sessionPath = getSDKSessionPath(vaultPath, sessionId);
+    const stat = await fs.stat(sessionPath);
+    const head = await readFileHead(sessionPath, SESSION_SUMMARY_HEAD_BYTES);
+
+    let createdAt: number | undefined;
+    let firstPrompt = '';
+
+    for (const line of head.split('\n')) {
+      if (!line.trim()) continue;
+      let msg: SDKNativeMessage;
+      try {
+        msg = JSON.parse(line) as SDKNativeMessage;
+      } catch {
+        // Last line may be cut off by the head limit
+        continue;
+      }
+
+      if (createdAt === undefined && msg.timestamp) {
+        const parsed = new Date(msg.timestamp).getTime();
+        if (!isNaN(parsed)) createdAt = parsed;
+      }
+
+      if (msg.type !== 'user' || isSystemInjectedMessage(msg)) continue;
+      const chatMsg = parseSDKMessageToChat(msg);
+      if (!chatMsg || chatMsg.isInterrupt || chatMsg.isRebuiltContext) continue;
+
+      firstPrompt = (chatMsg.displayContent ?? chatMsg.content).trim();
+      if (firstPrompt) break;
+    }
+
+    if (!firstPrompt) return null;
+
+    return {
+      sessionId,
+      firstPrompt,
+      createdAt: createdAt ?? stat.mtimeMs,
+      updatedAt: stat.mtimeMs,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists SDK sessions stored for the vault, newest first.
+ *
+ * Includes sessions started from the CLI in the vault directory. Subagent
+ * transcripts (agent-*.jsonl) are skipped since they cannot be resumed.
+ */
+export async function listSDKSessions(vaultPath: string): Promise<SDKSessionSummary[]> {
+  const projectPath = path.join(getSDKProjectsPath(), encodeVaultPathForSDK(vaultPath));
+
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(projectPath);
+  } catch {
+    return [];
+  }
+
+  const summaries: SDKSessionSummary[] = [];
+  for (const fileName of fileNames) {
+    if (!fileName.endsWith('.jsonl') || fileName.startsWith('agent-')) continue;
+    const sessionId = fileName.slice(0, -'.jsonl'.length);
+    if (!isValidSessionId(sessionId)) continue;
+
+    const summary = await summarizeSDKSession(vaultPath, sessionId);
+    if (summary) summaries.push(summary);
+  }
+
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
 function extractTextContent(content: string | SDKNativeContentBlock[] | undefined): string {
   if (!content) return '';
   if (typeof content === 'string') return content;
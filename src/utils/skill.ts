@@ -0,0 +1,180 @@
+import {
+  TOOL_AGENT_OUTPUT,
+  TOOL_ASK_USER_QUESTION,
+  TOOL_BASH,
+  TOOL_BASH_OUTPUT,
+  TOOL_EDIT,
+  TOOL_GLOB,
+  TOOL_GREP,
+  TOOL_KILL_SHELL,
+  TOOL_LIST_MCP_RESOURCES,
+  TOOL_LS,
+  TOOL_NOTEBOOK_EDIT,
+  TOOL_READ,
+  TOOL_READ_MCP_RESOURCE,
+  TOOL_SKILL,
+  TOOL_TASK,
+  TOOL_TODO_WRITE,
+  TOOL_WEB_FETCH,
+  TOOL_WEB_SEARCH,
+  TOOL_WRITE,
+} from '../core/tools/toolNames';
+import { isRecord, parseFrontmatter, validateSlugName } from './frontmatter';
+import { parseSlashCommandContent } from './slashCommand';
+
+export type SkillIssueSeverity = 'error' | 'warning';
+
+export interface SkillIssue {
+  severity: SkillIssueSeverity;
+  /** Editor field the issue belongs to (e.g., "description", "hooks"). */
+  field: string;
+  message: string;
+}
+
+/** Hook events accepted in skill frontmatter (mirrors the SDK's HOOK_EVENTS). */
+export const SKILL_HOOK_EVENTS = [
+  'PreToolUse',
+  'PostToolUse',
+  'PostToolUseFailure',
+  'Notification',
+  'UserPromptSubmit',
+  'SessionStart',
+  'SessionEnd',
+  'Stop',
+  'SubagentStart',
+  'SubagentStop',
+  'PreCompact',
+  'PermissionRequest',
+  'Setup',
+] as const;
+
+const KNOWN_TOOLS = new Set<string>([
+  TOOL_AGENT_OUTPUT,
+  TOOL_ASK_USER_QUESTION,
+  TOOL_BASH,
+  TOOL_BASH_OUTPUT,
+  TOOL_EDIT,
+  TOOL_GLOB,
+  TOOL_GREP,
+  TOOL_KILL_SHELL,
+  TOOL_LIST_MCP_RESOURCES,
+  TOOL_LS,
+  TOOL_NOTEBOOK_EDIT,
+  TOOL_READ,
+  TOOL_READ_MCP_RESOURCE,
+  TOOL_SKILL,
+  TOOL_TASK,
+  TOOL_TODO_WRITE,
+  TOOL_WEB_FETCH,
+  TOOL_WEB_SEARCH,
+  TOOL_WRITE,
+]);
+
+const KNOWN_FRONTMATTER_KEYS = new Set([
+  'name',
+  'description',
+  'argument-hint',
+  'argumentHint',
+  'allowed-tools',
+  'allowedTools',
+  'model',
+  'disable-model-invocation',
+  'disableModelInvocation',
+  'user-invocable',
+  'userInvocable',
+  'context',
+  'agent',
+  'hooks',
+  'license',
+  'version',
+]);
+
+/** `Tool` or `Tool(specifier)`, e.g. `Bash(git diff:*)` or `mcp__server__tool`. */
+const TOOL_RULE_PATTERN = /^([A-Za-z][\w-]*)(\(.*\))?$/;
+
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+/**
+ * Checks a SKILL.md file the way Claude Code reads it.
+ * Errors make the skill unusable; warnings flag fields that are ignored or likely mistakes.
+ */
+export function validateSkill(name: string, markdown: string): SkillIssue[] {
+  const issues: SkillIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ severity: 'error', field, message });
+  const warning = (field: string, message: string) => issues.push({ severity: 'warning', field, message });
+
+  const nameError = validateSlugName(name, 'Skill');
+  if (nameError) {
+    error('name', nameError);
+  }
+
+  const frontmatter = parseFrontmatter(markdown);
+  if (!frontmatter) {
+    error('frontmatter', 'Frontmatter is missing or could not be parsed');
+    return issues;
+  }
+
+  const fm = frontmatter.frontmatter;
+  const parsed = parseSlashCommandContent(markdown);
+
+  for (const key of Object.keys(fm)) {
+    if (!KNOWN_FRONTMATTER_KEYS.has(key)) {
+      warning('frontmatter', `Unknown field "${key}" is ignored`);
+    }
+  }
+
+  if (typeof fm.name === 'string' && fm.name !== name) {
+    warning('name', `Frontmatter name "${fm.name}" differs from the folder name "${name}"`);
+  }
+
+  if (!parsed.description) {
+    warning('description', 'Add a description so Claude knows when to use this skill');
+  } else if (parsed.description.length > MAX_DESCRIPTION_LENGTH) {
+    warning('description', `Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  if (!parsed.promptContent.trim()) {
+    error('content', 'Instructions are required');
+  }
+
+  if (parsed.disableModelInvocation && parsed.userInvocable === false) {
+    error('userInvocable', 'Neither Claude nor the user can invoke this skill');
+  }
+
+  if (fm.context !== undefined && fm.context !== null && parsed.context !== 'fork') {
+    error('context', `Unsupported context "${String(fm.context)}" (only "fork" is supported)`);
+  }
+
+  if (parsed.agent && parsed.context !== 'fork') {
+    warning('agent', 'Agent is only used when context is fork');
+  }
+
+  for (const rule of parsed.allowedTools ?? []) {
+    const match = rule.match(TOOL_RULE_PATTERN);
+    if (!match) {
+      error('allowedTools', `Invalid tool rule "${rule}"`);
+    } else if (!KNOWN_TOOLS.has(match[1]) && !match[1].startsWith('mcp__')) {
+      warning('allowedTools', `Unknown tool "${match[1]}"`);
+    }
+  }
+
+  if (fm.hooks !== undefined) {
+    if (!isRecord(fm.hooks)) {
+      error('hooks', 'Hooks must map event names to hook lists');
+    } else {
+      for (const [event, matchers] of Object.entries(fm.hooks)) {
+        if (!(SKILL_HOOK_EVENTS as readonly string[]).includes(event)) {
+          error('hooks', `Unknown hook event "${event}"`);
+        } else if (!Array.isArray(matchers)) {
+          error('hooks', `Hooks for "${event}" must be a list`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function hasSkillErrors(issues: SkillIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
@@ -0,0 +1,162 @@
+/**
+ * Claudian - Token Usage Accounting
+ *
+ * Aggregates per-turn token records into totals by day, model, vault folder,
+ * and conversation, with cost estimates from the configurable price table.
+ */
+
+import type { Conversation, ModelPricing, TokenUsage, TokenUsageRecord } from '../core/types';
+import { getModelPricing } from '../core/types';
+import { formatLocalDate } from './date';
+
+const TOKENS_PER_MILLION = 1_000_000;
+/** Folder label for conversations without an attached note. */
+export const NO_FOLDER_KEY = '';
+/** Folder label for notes in the vault root. */
+export const ROOT_FOLDER_KEY = '/';
+
+export interface UsageBucket extends TokenUsage {
+  key: string;
+  label: string;
+  /** Estimated cost in USD for tokens with a known price. */
+  cost: number;
+  /** Tokens from models missing from the price table (excluded from cost). */
+  unpricedTokens: number;
+}
+
+export interface UsageReport {
+  total: UsageBucket;
+  /** Newest day first; keys are local YYYY-MM-DD dates. */
+  byDay: UsageBucket[];
+  /** Highest cost first. */
+  byModel: UsageBucket[];
+  /** Highest cost first; keyed by the folder of the conversation's current note. */
+  byFolder: UsageBucket[];
+  /** Highest cost first; keyed by conversation ID. */
+  byConversation: UsageBucket[];
+}
+
+export interface UsageReportOptions {
+  /** Only include records at or after this timestamp (ms since epoch). */
+  since?: number;
+}
+
+export function getTotalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+}
+
+/** Adds up token counts across records. */
+export function sumTokenUsage(records: TokenUsage[]): TokenUsage {
+  const total: TokenUsage = { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 };
+  for (const record of records) {
+    total.inputTokens += record.inputTokens;
+    total.outputTokens += record.outputTokens;
+    total.cacheCreationInputTokens += record.cacheCreationInputTokens;
+    total.cacheReadInputTokens += record.cacheReadInputTokens;
+  }
+  return total;
+}
+
+/** Estimated cost in USD for the given token counts. */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheCreationInputTokens * pricing.cacheWrite +
+    usage.cacheReadInputTokens * pricing.cacheRead
+  ) / TOKENS_PER_MILLION;
+}
+
+/** Returns the vault folder of the conversation's current note. */
+export function getUsageFolder(conversation: Pick<Conversation, 'currentNote'>): string {
+  const note = conversation.currentNote?.replace(/\\/g, '/').trim();
+  if (!note) return NO_FOLDER_KEY;
+  const lastSlash = note.lastIndexOf('/');
+  return lastSlash > 0 ? note.slice(0, lastSlash) : ROOT_FOLDER_KEY;
+}
+
+function createBucket(key: string, label: string = key): UsageBucket {
+  return {
+    key,
+    label,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    cost: 0,
+    unpricedTokens: 0,
+  };
+}
+
+function addRecord(bucket: UsageBucket, record: TokenUsageRecord, pricing: ModelPricing | null): void {
+  bucket.inputTokens += record.inputTokens;
+  bucket.outputTokens += record.outputTokens;
+  bucket.cacheCreationInputTokens += record.cacheCreationInputTokens;
+  bucket.cacheReadInputTokens += record.cacheReadInputTokens;
+  if (pricing) {
+    bucket.cost += estimateCost(record, pricing);
+  } else {
+    bucket.unpricedTokens += getTotalTokens(record);
+  }
+}
+
+function addToGroup(
+  group: Map<string, UsageBucket>,
+  key: string,
+  label: string,
+  record: TokenUsageRecord,
+  pricing: ModelPricing | null
+): void {
+  let bucket = group.get(key);
+  if (!bucket) {
+    bucket = createBucket(key, label);
+    group.set(key, bucket);
+  }
+  addRecord(bucket, record, pricing);
+}
+
+function byCostDescending(a: UsageBucket, b: UsageBucket): number {
+  return (b.cost - a.cost) || (getTotalTokens(b) - getTotalTokens(a));
+}
+
+/** Aggregates token usage across conversations. */
+export function buildUsageReport(
+  conversations: Pick<Conversation, 'id' | 'title' | 'currentNote' | 'tokenUsage'>[],
+  pricingTable: Record<string, ModelPricing>,
+  options: UsageReportOptions = {}
+): UsageReport {
+  const total = createBucket('total');
+  const byDay = new Map<string, UsageBucket>();
+  const byModel = new Map<string, UsageBucket>();
+  const byFolder = new Map<string, UsageBucket>();
+  const byConversation = new Map<string, UsageBucket>();
+  const pricingCache = new Map<string, ModelPricing | null>();
+
+  for (const conversation of conversations) {
+    const folder = getUsageFolder(conversation);
+
+    for (const record of conversation.tokenUsage ?? []) {
+      if (options.since !== undefined && record.timestamp < options.since) continue;
+
+      if (!pricingCache.has(record.model)) {
+        pricingCache.set(record.model, getModelPricing(record.model, pricingTable));
+      }
+      const pricing = pricingCache.get(record.model) ?? null;
+
+      addRecord(total, record, pricing);
+      const day = formatLocalDate(record.timestamp);
+      addToGroup(byDay, day, day, record, pricing);
+      addToGroup(byModel, record.model, record.model, record, pricing);
+      addToGroup(byFolder, folder, folder, record, pricing);
+      addToGroup(byConversation, conversation.id, conversation.title, record, pricing);
+    }
+  }
+
+  return {
+    total,
+    byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: [...byModel.values()].sort(byCostDescending),
+    byFolder: [...byFolder.values()].sort(byCostDescending),
+    byConversation: [...byConversation.values()].sort(byCostDescending),
+  };
+}
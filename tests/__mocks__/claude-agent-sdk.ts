@@ -67,6 +67,36 @@ export type AgentMcpServerSpec = string | Record<string, unknown>;
 
 export type McpServerConfig = Record<string, unknown>;
 
+export type McpSdkServerConfigWithInstance = {
+  type: 'sdk';
+  name: string;
+  instance: { tools: SdkMcpToolDefinition[] };
+};
+
+export type SdkMcpToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  handler: (args: any, extra: unknown) => Promise<any>;
+};
+
+export function tool(
+  name: string,
+  description: string,
+  inputSchema: Record<string, unknown>,
+  handler: SdkMcpToolDefinition['handler']
+): SdkMcpToolDefinition {
+  return { name, description, inputSchema, handler };
+}
+
+export function createSdkMcpServer(options: {
+  name: string;
+  version?: string;
+  tools?: SdkMcpToolDefinition[];
+}): McpSdkServerConfigWithInstance {
+  return { type: 'sdk', name: options.name, instance: { tools: options.tools ?? [] } };
+}
+
 export type PermissionBehavior = 'allow' | 'deny' | 'ask';
 
 export type PermissionRuleValue = {
@@ -1,5 +1,7 @@
 // Mock for Obsidian API
 
+import { StateField } from '@codemirror/state';
+
 export class Plugin {
   app: any;
   manifest: any;
@@ -13,6 +15,8 @@ export class Plugin {
   addCommand = jest.fn();
   addSettingTab = jest.fn();
   registerView = jest.fn();
+  registerEvent = jest.fn();
+  registerEditorExtension = jest.fn();
   loadData = jest.fn().mockResolvedValue({});
   saveData = jest.fn().mockResolvedValue(undefined);
 }
@@ -172,6 +176,12 @@ export const MarkdownRenderer = {
 
 export const setIcon = jest.fn();
 
+/** Editor file info; tests provide it with `editorInfoField.init(...)`. */
+export const editorInfoField = StateField.define<any>({
+  create: () => null,
+  update: (value) => value,
+});
+
 // Notice mock that tracks constructor calls
 export const Notice = jest.fn().mockImplementation((_message: string, _timeout?: number) => {});
 
@@ -25,6 +25,7 @@ jest.mock('@/core/types', () => {
 // Now import after all mocks are set up
 import { ClaudianService } from '@/core/agent/ClaudianService';
 import { createVaultRestrictionHook } from '@/core/hooks/SecurityHooks';
+import { RedactedFileStore, Redactor } from '@/core/redaction';
 import { transformSDKMessage } from '@/core/sdk';
 import { getActionDescription, getActionPattern } from '@/core/security/ApprovalManager';
 import { getPathFromToolInput } from '@/core/tools/toolInput';
@@ -78,9 +79,12 @@ function createMockMcpManager() {
     getServers: jest.fn().mockReturnValue([]),
     getEnabledCount: jest.fn().mockReturnValue(0),
     getActiveServers: jest.fn().mockReturnValue({}),
+    getBuiltInServers: jest.fn().mockReturnValue({}),
+    getBuiltInAllowedTools: jest.fn().mockReturnValue([]),
     getDisallowedMcpTools: jest.fn().mockReturnValue([]),
     getAllDisallowedMcpTools: jest.fn().mockReturnValue([]),
     hasServers: jest.fn().mockReturnValue(false),
+    refreshCredentials: jest.fn().mockResolvedValue(undefined),
   } as any;
 }
 
@@ -93,6 +97,7 @@ function createMockPlugin(settings: Record<string, unknown> = {}) {
     ask: [] as string[],
   };
 
+  const redactor = new Redactor(() => []);
   const mockPlugin = {
     settings: {
       enableBlocklist: true,
@@ -114,6 +119,7 @@ function createMockPlugin(settings: Record<string, unknown> = {}) {
       permissions: [], // Legacy field (for backwards compat tests)
       permissionMode: 'yolo',
       allowedExportPaths: [],
+      folderPolicies: [],
       loadUserClaudeSettings: false,
       mediaFolder: '',
       systemPrompt: '',
@@ -150,6 +156,14 @@ function createMockPlugin(settings: Record<string, unknown> = {}) {
       getPluginsKey: jest.fn().mockReturnValue(''),
       hasEnabledPlugins: jest.fn().mockReturnValue(false),
     },
+    auditLogger: {
+      record: jest.fn(),
+      recordChunk: jest.fn(),
+      recordApproval: jest.fn(),
+      auditHook: jest.fn((_hook: string, matcher: unknown) => matcher),
+    },
+    redactor,
+    redactedFiles: new RedactedFileStore(redactor, () => null),
   } as any;
   return mockPlugin;
 }
@@ -1,6 +1,6 @@
 import * as os from 'os';
 
-import { DEFAULT_SETTINGS, VIEW_TYPE_CLAUDIAN } from '@/core/types';
+import { createScheduledJob, DEFAULT_SETTINGS, VIEW_TYPE_CLAUDIAN } from '@/core/types';
 import * as sdkSession from '@/utils/sdkSession';
 
 // Mock fs for ClaudianService
@@ -31,6 +31,8 @@ describe('ClaudianPlugin', () => {
           stat: jest.fn().mockResolvedValue(null),
           rename: jest.fn().mockResolvedValue(undefined),
         },
+        on: jest.fn(),
+        getMarkdownFiles: jest.fn().mockReturnValue([]),
       },
       workspace: {
         getLeavesOfType: jest.fn().mockReturnValue([]),
@@ -41,6 +43,8 @@ describe('ClaudianPlugin', () => {
           setViewState: jest.fn().mockResolvedValue(undefined),
         }),
         revealLeaf: jest.fn(),
+        onLayoutReady: jest.fn(),
+        on: jest.fn(),
       },
     };
 
@@ -95,6 +99,20 @@ describe('ClaudianPlugin', () => {
       });
     });
 
+    it('should add inline edit commands for selections and the whole note', async () => {
+      await plugin.onload();
+
+      const ids = (plugin.addCommand as jest.Mock).mock.calls.map(([command]) => command.id);
+      expect(ids).toEqual(expect.arrayContaining(['inline-edit', 'inline-edit-note']));
+    });
+
+    it('should register the ghost text editor extension', async () => {
+      await plugin.onload();
+
+      expect((plugin.registerEditorExtension as jest.Mock)).toHaveBeenCalledTimes(1);
+      expect(plugin.ghostTextService).toBeDefined();
+    });
+
     it('should migrate legacy cli path to hostname-based paths and clear old field', async () => {
       const legacyPath = '/legacy/claude';
       mockApp.vault.adapter.exists.mockImplementation(async (path: string) => {
@@ -582,6 +600,279 @@ describe('ClaudianPlugin', () => {
     });
   });
 
+  describe('searchConversations', () => {
+    it('should find messages in in-memory conversations', async () => {
+      await plugin.onload();
+
+      const conv = await plugin.createConversation();
+      await plugin.updateConversation(conv.id, {
+        messages: [
+          { id: 'msg-1', role: 'user', content: 'Why is my Dataview query empty?', timestamp: Date.now() },
+        ],
+      });
+
+      const results = await plugin.searchConversations('dataview');
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ conversationId: conv.id, messageId: 'msg-1' });
+    });
+
+    it('should drop deleted conversations from results', async () => {
+      await plugin.onload();
+
+      const conv = await plugin.createConversation();
+      await plugin.updateConversation(conv.id, {
+        messages: [{ id: 'msg-1', role: 'user', content: 'canvas', timestamp: Date.now() }],
+      });
+      await plugin.searchConversations('canvas');
+
+      await plugin.deleteConversation(conv.id);
+
+      expect(await plugin.searchConversations('canvas')).toEqual([]);
+    });
+  });
+
+  describe('getUsageReport', () => {
+    it('should aggregate token usage using the configured price table', async () => {
+      await plugin.onload();
+      plugin.settings.modelPricing = { sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } };
+      const conv = await plugin.createConversation();
+      await plugin.updateConversation(conv.id, {
+        tokenUsage: [
+          { timestamp: 1000, model: 'claude-sonnet-4-5', inputTokens: 1_000_000, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+          { timestamp: 5000, model: 'claude-sonnet-4-5', inputTokens: 0, outputTokens: 1_000_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+        ],
+      });
+
+      expect(plugin.getUsageReport().total.cost).toBeCloseTo(18);
+      expect(plugin.getUsageReport(2000).total.cost).toBeCloseTo(15);
+    });
+  });
+
+  describe('runScheduledJob', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should record the run at the top of the job history and save settings', async () => {
+      await plugin.onload();
+      const job = createScheduledJob('job-1', {
+        prompt: 'Summarize',
+        history: [{ startedAt: 1, finishedAt: 2, cause: 'schedule', status: 'success' }],
+      });
+      plugin.settings.scheduledJobs = [job];
+      const run = { startedAt: 10, finishedAt: 20, cause: 'manual' as const, status: 'success' as const, notePath: 'Claudian/Jobs/a.md' };
+      jest.spyOn((plugin as any).jobRunner, 'run').mockResolvedValue(run);
+      const saveSpy = jest.spyOn(plugin, 'saveSettings').mockResolvedValue(undefined);
+
+      await plugin.runScheduledJob(job, 'manual');
+
+      expect(plugin.settings.scheduledJobs[0].history.map(r => r.startedAt)).toEqual([10, 1]);
+      expect(saveSpy).toHaveBeenCalled();
+    });
+
+    it('should not recreate a job deleted while it was running', async () => {
+      await plugin.onload();
+      const job = createScheduledJob('job-1', { prompt: 'Summarize' });
+      plugin.settings.scheduledJobs = [];
+      jest.spyOn((plugin as any).jobRunner, 'run').mockResolvedValue({
+        startedAt: 10, finishedAt: 20, cause: 'schedule', status: 'error', error: 'boom',
+      });
+
+      const run = await plugin.runScheduledJob(job, 'schedule');
+
+      expect(run.status).toBe('error');
+      expect(plugin.settings.scheduledJobs).toEqual([]);
+    });
+  });
+
+  describe('updateBuiltInMcpServers', () => {
+    it('should register the built-in servers by default', async () => {
+      await plugin.onload();
+
+      expect(Object.keys(plugin.mcpManager.getBuiltInServers())).toEqual(['claudian-vault', 'claudian-obsidian']);
+      expect(plugin.mcpManager.getBuiltInAllowedTools()).toContain('mcp__claudian-vault__search_notes');
+      expect(plugin.mcpManager.getBuiltInAllowedTools()).toContain('mcp__claudian-obsidian__get_backlinks');
+      expect(plugin.mcpManager.getBuiltInAllowedTools()).not.toContain(
+        'mcp__claudian-obsidian__rename_note_with_link_update'
+      );
+    });
+
+    it('should remove servers that are disabled', async () => {
+      await plugin.onload();
+      plugin.settings.enableVaultSearch = false;
+
+      plugin.updateBuiltInMcpServers();
+
+      expect(Object.keys(plugin.mcpManager.getBuiltInServers())).toEqual(['claudian-obsidian']);
+      expect(plugin.mcpManager.getBuiltInAllowedTools()).not.toContain('mcp__claudian-vault__search_notes');
+
+      plugin.settings.enableObsidianTools = false;
+      plugin.updateBuiltInMcpServers();
+
+      expect(plugin.mcpManager.getBuiltInServers()).toEqual({});
+    });
+  });
+
+  describe('external sessions', () => {
+    const cliSession = {
+      sessionId: 'cli-session-1',
+      firstPrompt: 'Summarize my weekly notes. Keep it short',
+      createdAt: 1000,
+      updatedAt: 2000,
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should list sessions that no conversation references', async () => {
+      await plugin.onload();
+      const conv = await plugin.createConversation('known-session');
+      await plugin.updateConversation(conv.id, { previousSdkSessionIds: ['old-session'] });
+      jest.spyOn(sdkSession, 'listSDKSessions').mockResolvedValue([
+        cliSession,
+        { ...cliSession, sessionId: 'known-session' },
+        { ...cliSession, sessionId: 'old-session' },
+      ]);
+
+      const external = await plugin.listExternalSessions();
+
+      expect(external).toEqual([expect.objectContaining({
+        id: 'cli-session-1',
+        title: 'Summarize my weekly notes',
+        lastResponseAt: 2000,
+        isNative: true,
+        isExternal: true,
+      })]);
+    });
+
+    it('should not list sessions Claudian started outside chat', async () => {
+      await plugin.onload();
+      await plugin.rememberInternalSession('inline-edit-session');
+      jest.spyOn(sdkSession, 'listSDKSessions').mockResolvedValue([
+        cliSession,
+        { ...cliSession, sessionId: 'inline-edit-session' },
+      ]);
+
+      const external = await plugin.listExternalSessions();
+
+      expect(external.map(session => session.id)).toEqual(['cli-session-1']);
+    });
+
+    it('should import a session by creating metadata keyed by the session ID', async () => {
+      await plugin.onload();
+      jest.spyOn(sdkSession, 'summarizeSDKSession').mockResolvedValue(cliSession);
+
+      const conversation = await plugin.importExternalSession('cli-session-1');
+
+      expect(conversation).toMatchObject({
+        id: 'cli-session-1',
+        sessionId: 'cli-session-1',
+        sdkSessionId: 'cli-session-1',
+        title: 'Summarize my weekly notes',
+        isNative: true,
+      });
+      expect(plugin.getConversationSync('cli-session-1')).toBe(conversation);
+      expect(mockApp.vault.adapter.write).toHaveBeenCalledWith(
+        expect.stringContaining('cli-session-1.meta.json'),
+        expect.any(String)
+      );
+    });
+
+    it('should return the existing conversation when already imported', async () => {
+      await plugin.onload();
+      const summarySpy = jest.spyOn(sdkSession, 'summarizeSDKSession').mockResolvedValue(cliSession);
+
+      const first = await plugin.importExternalSession('cli-session-1');
+      const second = await plugin.importExternalSession('cli-session-1');
+
+      expect(second).toBe(first);
+      expect(summarySpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when the session file cannot be summarized', async () => {
+      await plugin.onload();
+      jest.spyOn(sdkSession, 'summarizeSDKSession').mockResolvedValue(null);
+
+      expect(await plugin.importExternalSession('cli-session-1')).toBeNull();
+    });
+  });
+
+  describe('exportConversationToNote', () => {
+    let existingPaths: Set<string>;
+    let openFile: jest.Mock;
+
+    beforeEach(() => {
+      existingPaths = new Set();
+      openFile = jest.fn().mockResolvedValue(undefined);
+      mockApp.vault.getAbstractFileByPath = jest.fn((path: string) => (existingPaths.has(path) ? {} : null));
+      mockApp.vault.create = jest.fn().mockImplementation((path: string) => Promise.resolve({ path }));
+      mockApp.fileManager = {
+        getNewFileParent: jest.fn().mockReturnValue({ path: 'Inbox', isRoot: () => false }),
+      };
+      mockApp.workspace.getLeaf = jest.fn().mockReturnValue({ openFile });
+    });
+
+    it('should write a Markdown note and open it', async () => {
+      await plugin.onload();
+
+      const conv = await plugin.createConversation();
+      await plugin.renameConversation(conv.id, 'Dataview fix');
+      await plugin.updateConversation(conv.id, {
+        messages: [{ id: 'msg-1', role: 'user', content: 'Hello Claude', timestamp: Date.now() }],
+      });
+
+      const file = await plugin.exportConversationToNote(conv.id);
+
+      expect(file?.path).toBe('Inbox/Dataview fix.md');
+      const [, content] = mockApp.vault.create.mock.calls[0];
+      expect(content).toContain('title: "Dataview fix"');
+      expect(content).toContain('## User\n\nHello Claude');
+      expect(openFile).toHaveBeenCalledWith(file);
+    });
+
+    it('should add a suffix when the note already exists', async () => {
+      await plugin.onload();
+
+      const conv = await plugin.createConversation();
+      await plugin.renameConversation(conv.id, 'Notes');
+      existingPaths.add('Inbox/Notes.md');
+      existingPaths.add('Inbox/Notes 1.md');
+
+      const file = await plugin.exportConversationToNote(conv.id);
+
+      expect(file?.path).toBe('Inbox/Notes 2.md');
+    });
+
+    it('should write to the vault root when that is the default location', async () => {
+      mockApp.fileManager.getNewFileParent.mockReturnValue({ path: '/', isRoot: () => true });
+      await plugin.onload();
+
+      const conv = await plugin.createConversation();
+      await plugin.renameConversation(conv.id, 'Root note');
+
+      const file = await plugin.exportConversationToNote(conv.id);
+
+      expect(file?.path).toBe('Root note.md');
+    });
+
+    it('should return null when creation fails', async () => {
+      mockApp.vault.create.mockRejectedValue(new Error('disk full'));
+      await plugin.onload();
+
+      const conv = await plugin.createConversation();
+
+      expect(await plugin.exportConversationToNote(conv.id)).toBeNull();
+    });
+
+    it('should return null for unknown conversations', async () => {
+      await plugin.onload();
+
+      expect(await plugin.exportConversationToNote('missing')).toBeNull();
+    });
+  });
+
   describe('loadSettings with conversations', () => {
     it('should load saved conversations from JSONL files', async () => {
       const timestamp = Date.now();
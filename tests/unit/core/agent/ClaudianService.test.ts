@@ -4,6 +4,7 @@ import { ClaudianService } from '@/core/agent/ClaudianService';
 import { MessageChannel } from '@/core/agent/MessageChannel';
 import { createResponseHandler } from '@/core/agent/types';
 import type { McpServerManager } from '@/core/mcp';
+import { RedactedFileStore, Redactor } from '@/core/redaction';
 import type ClaudianPlugin from '@/main';
 import * as envUtils from '@/utils/env';
 import * as sessionUtils from '@/utils/session';
@@ -39,6 +40,7 @@ describe('ClaudianService', () => {
       getPermissions: jest.fn().mockResolvedValue({ allow: [], deny: [], ask: [] }),
     };
 
+    const redactor = new Redactor(() => []);
     mockPlugin = {
       app: {
         vault: { adapter: { basePath: '/mock/vault/path' } },
@@ -64,13 +66,24 @@ describe('ClaudianService', () => {
       pluginManager: {
         getPluginsKey: jest.fn().mockReturnValue(''),
       },
+      auditLogger: {
+        record: jest.fn(),
+        recordChunk: jest.fn(),
+        recordApproval: jest.fn(),
+        auditHook: jest.fn((_hook: string, matcher: unknown) => matcher),
+      },
+      redactor,
+      redactedFiles: new RedactedFileStore(redactor, () => null),
     } as unknown as ClaudianPlugin;
 
     mockMcpManager = {
       loadServers: jest.fn().mockResolvedValue(undefined),
       getAllDisallowedMcpTools: jest.fn().mockReturnValue([]),
       getActiveServers: jest.fn().mockReturnValue({}),
+      getBuiltInServers: jest.fn().mockReturnValue({}),
+      getBuiltInAllowedTools: jest.fn().mockReturnValue([]),
       getDisallowedMcpTools: jest.fn().mockReturnValue([]),
+      refreshCredentials: jest.fn().mockResolvedValue(undefined),
     } as unknown as MockMcpServerManager;
 
     service = new ClaudianService(mockPlugin as ClaudianPlugin, mockMcpManager);
@@ -500,6 +513,110 @@ describe('ClaudianService', () => {
           destination: 'projectSettings',
         });
       });
+
+      it('should prompt without "Always allow" and add no rule for always-ask MCP tools', async () => {
+        (mockPlugin as any).storage.getPermissions.mockResolvedValue({
+          allow: [], deny: [], ask: ['mcp__github__create_issue'],
+        });
+        const callback = jest.fn().mockResolvedValue('allow-always');
+        service.setApprovalCallback(callback);
+
+        const canUseTool = (service as any).createApprovalCallback();
+        const result = await canUseTool('mcp__github__create_issue', { title: 'x' }, canUseToolOptions);
+
+        expect(callback).toHaveBeenCalledWith(
+          'mcp__github__create_issue',
+          { title: 'x' },
+          expect.any(String),
+          expect.objectContaining({ allowAlways: false, decisionReason: 'MCP tool policy: always ask' }),
+        );
+        expect(result).toEqual({ behavior: 'allow', updatedInput: { title: 'x' } });
+      });
+    });
+
+    it('should record every decision to the audit log', async () => {
+      service.setApprovalCallback(jest.fn().mockResolvedValue('deny'));
+      service.setSessionId('session-abc');
+
+      const canUseTool = (service as any).createApprovalCallback();
+      const result = await canUseTool('Bash', { command: 'ls' }, {
+        signal: new AbortController().signal,
+        toolUseID: 'tool-1',
+      });
+
+      expect(mockPlugin.auditLogger!.recordApproval).toHaveBeenCalledWith(
+        'Bash', { command: 'ls' }, result, 'session-abc'
+      );
+    });
+  });
+
+  describe('Edit review', () => {
+    const canUseToolOptions = {
+      signal: new AbortController().signal,
+      toolUseID: 'test-tool-use-id',
+    };
+    const editInput = { file_path: 'note.md', old_string: 'a', new_string: 'b' };
+
+    beforeEach(() => {
+      (mockPlugin.settings as any).reviewEdits = true;
+    });
+
+    it('should route edit tools to the edit review callback', async () => {
+      const reviewCallback = jest.fn().mockResolvedValue({
+        type: 'accept',
+        updatedInput: { ...editInput, new_string: 'c' },
+      });
+      const approvalCallback = jest.fn();
+      service.setEditReviewCallback(reviewCallback);
+      service.setApprovalCallback(approvalCallback);
+
+      const canUseTool = (service as any).createApprovalCallback();
+      const result = await canUseTool('Edit', editInput, canUseToolOptions);
+
+      expect(reviewCallback).toHaveBeenCalledWith('Edit', editInput, canUseToolOptions.signal);
+      expect(approvalCallback).not.toHaveBeenCalled();
+      expect(result).toEqual({ behavior: 'allow', updatedInput: { ...editInput, new_string: 'c' } });
+    });
+
+    it('should deny without interrupt and pass feedback on reject', async () => {
+      service.setEditReviewCallback(jest.fn().mockResolvedValue({ type: 'reject', feedback: 'keep the title' }));
+
+      const canUseTool = (service as any).createApprovalCallback();
+      const result = await canUseTool('Edit', editInput, canUseToolOptions);
+
+      expect(result.behavior).toBe('deny');
+      expect(result.message).toBe('User rejected this edit: keep the title');
+      expect(result.interrupt).toBe(false);
+    });
+
+    it('should interrupt when the review is cancelled', async () => {
+      service.setEditReviewCallback(jest.fn().mockResolvedValue(null));
+
+      const canUseTool = (service as any).createApprovalCallback();
+      const result = await canUseTool('Write', { file_path: 'a.md', content: 'x' }, canUseToolOptions);
+
+      expect(result).toEqual({ behavior: 'deny', message: 'User interrupted.', interrupt: true });
+    });
+
+    it('should use the regular approval when review is disabled', async () => {
+      (mockPlugin.settings as any).reviewEdits = false;
+      const reviewCallback = jest.fn();
+      service.setEditReviewCallback(reviewCallback);
+      service.setApprovalCallback(jest.fn().mockResolvedValue('deny'));
+
+      const canUseTool = (service as any).createApprovalCallback();
+      const result = await canUseTool('Edit', editInput, canUseToolOptions);
+
+      expect(reviewCallback).not.toHaveBeenCalled();
+      expect(result.message).toBe('User denied this action.');
+    });
+
+    it('should map normal mode to default only while reviewing', () => {
+      expect((service as any).mapToSDKPermissionMode('normal')).toBe('acceptEdits');
+
+      service.setEditReviewCallback(jest.fn());
+      expect((service as any).mapToSDKPermissionMode('normal')).toBe('default');
+      expect((service as any).mapToSDKPermissionMode('yolo')).toBe('bypassPermissions');
     });
   });
 
@@ -10,6 +10,8 @@ function createMockMcpManager() {
     getServers: jest.fn().mockReturnValue([]),
     getEnabledCount: jest.fn().mockReturnValue(0),
     getActiveServers: jest.fn().mockReturnValue({}),
+    getBuiltInServers: jest.fn().mockReturnValue({}),
+    getBuiltInAllowedTools: jest.fn().mockReturnValue([]),
     getDisallowedMcpTools: jest.fn().mockReturnValue([]),
     getAllDisallowedMcpTools: jest.fn().mockReturnValue([]),
     hasServers: jest.fn().mockReturnValue(false),
@@ -290,6 +292,24 @@ describe('QueryOptionsBuilder', () => {
       expect(options.canUseTool).toBe(canUseTool);
     });
 
+    it('routes edits through canUseTool in normal mode when reviewing edits', () => {
+      const canUseTool = jest.fn();
+      const ctx = {
+        ...createMockContext({
+          settings: createMockSettings({ permissionMode: 'normal' }),
+          reviewEdits: true,
+        }),
+        abortController: new AbortController(),
+        hooks: {},
+        canUseTool,
+      };
+      const options = QueryOptionsBuilder.buildPersistentQueryOptions(ctx);
+
+      expect(options.permissionMode).toBe('default');
+      expect(options.canUseTool).toBe(canUseTool);
+      expect(QueryOptionsBuilder.buildPersistentQueryConfig(ctx).reviewEdits).toBe(true);
+    });
+
     it('sets plan mode options correctly', () => {
       const canUseTool = jest.fn();
       const ctx = {
@@ -529,6 +549,24 @@ describe('QueryOptionsBuilder', () => {
       expect(options.mcpServers?.['test-server']).toBeDefined();
     });
 
+    it('includes built-in MCP servers and auto-allows their tools', () => {
+      const mcpManager = createMockMcpManager();
+      const builtIn = { type: 'sdk', name: 'claudian-vault', instance: {} };
+      mcpManager.getBuiltInServers.mockReturnValue({ 'claudian-vault': builtIn });
+      mcpManager.getBuiltInAllowedTools.mockReturnValue(['mcp__claudian-vault__search_notes']);
+
+      const ctx = {
+        ...createMockContext({ mcpManager }),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.mcpServers?.['claudian-vault']).toBe(builtIn);
+      expect(options.allowedTools).toEqual(['mcp__claudian-vault__search_notes']);
+    });
+
     it('uses model override when provided', () => {
       const ctx = {
         ...createMockContext({
@@ -544,6 +582,21 @@ describe('QueryOptionsBuilder', () => {
       expect(options.model).toBe('claude-opus-4-5');
     });
 
+    it('uses permission mode override when provided', () => {
+      const ctx = {
+        ...createMockContext({
+          settings: createMockSettings({ permissionMode: 'yolo' }),
+        }),
+        abortController: new AbortController(),
+        hooks: {},
+        permissionModeOverride: 'plan' as const,
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.permissionMode).toBe('plan');
+    });
+
     it('applies tool restriction when allowedTools is provided', () => {
       const ctx = {
         ...createMockContext(),
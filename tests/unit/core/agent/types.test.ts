@@ -37,14 +37,20 @@ describe('computeSystemPromptKey', () => {
       mediaFolder: 'attachments',
       customPrompt: 'Be helpful',
       allowedExportPaths: ['/path/b', '/path/a'],
+      folderPolicies: [
+        { folder: 'Journal', access: 'readonly' as const },
+        { folder: 'Clients', access: 'ask' as const },
+        { folder: 'Archive', access: 'hidden' as const },
+      ],
+      redaction: true,
       vaultPath: '/vault',
       userName: 'Alice',
     };
 
     const key = computeSystemPromptKey(settings);
 
-    // Paths are sorted to keep the key stable.
-    expect(key).toBe('attachments::Be helpful::/path/a|/path/b::/vault::Alice');
+    // Paths and policies are sorted to keep the key stable; hidden folders never reach the prompt.
+    expect(key).toBe('attachments::Be helpful::/path/a|/path/b::ask:Clients|readonly:Journal::redaction::/vault::Alice');
   });
 
   it('handles empty/undefined values', () => {
@@ -57,8 +63,8 @@ describe('computeSystemPromptKey', () => {
     };
 
     const key = computeSystemPromptKey(settings);
-    // 5 empty parts joined with '::' = 4 separators = 8 colons
-    expect(key).toBe('::::::::');
+    // 7 empty parts joined with '::' = 6 separators = 12 colons
+    expect(key).toBe('::::::::::::');
   });
 
   it('produces different keys for different inputs', () => {
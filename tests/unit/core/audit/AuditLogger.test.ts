@@ -0,0 +1,157 @@
+import type { HookCallbackMatcher, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+
+import { AUDIT_MAX_STRING_LENGTH, AuditLogger, getApprovalDecision } from '@/core/audit/AuditLogger';
+import type { AuditLogStorage } from '@/core/storage/AuditLogStorage';
+import type { AuditEntry } from '@/core/types';
+
+describe('AuditLogger', () => {
+  let written: AuditEntry[];
+  let storage: jest.Mocked<AuditLogStorage>;
+  let enabled: boolean;
+  let logger: AuditLogger;
+
+  beforeEach(() => {
+    written = [];
+    storage = {
+      append: jest.fn(async (entries: AuditEntry[]) => { written.push(...entries); }),
+    } as unknown as jest.Mocked<AuditLogStorage>;
+    enabled = true;
+    logger = new AuditLogger(storage, () => enabled);
+  });
+
+  it('writes recorded entries in order with timestamp and session', async () => {
+    logger.record({ kind: 'rewind', userMessageUuid: 'u1', filesChanged: ['a.md'] }, 'session-1', 1000);
+    logger.record({ kind: 'rewind', userMessageUuid: 'u2', filesChanged: [] }, null, 2000);
+    await logger.flush();
+
+    expect(written).toEqual([
+      { kind: 'rewind', userMessageUuid: 'u1', filesChanged: ['a.md'], timestamp: 1000, sessionId: 'session-1' },
+      { kind: 'rewind', userMessageUuid: 'u2', filesChanged: [], timestamp: 2000, sessionId: null },
+    ]);
+  });
+
+  it('records nothing while disabled', async () => {
+    enabled = false;
+    logger.record({ kind: 'rewind', userMessageUuid: 'u1', filesChanged: [] }, null);
+    await logger.flush();
+
+    expect(storage.append).not.toHaveBeenCalled();
+  });
+
+  it('truncates long strings in tool input', async () => {
+    logger.recordChunk({
+      type: 'tool_use', id: 't1', name: 'Write', input: { file_path: 'a.md', content: 'x'.repeat(5000) },
+    }, 's');
+    await logger.flush();
+
+    const entry = written[0] as Extract<AuditEntry, { kind: 'tool_use' }>;
+    expect(entry.input.file_path).toBe('a.md');
+    expect((entry.input.content as string).startsWith('x'.repeat(AUDIT_MAX_STRING_LENGTH))).toBe(true);
+    expect(entry.input.content).toContain('[3000 more chars]');
+  });
+
+  it('attributes tool results to the tool that produced them', async () => {
+    logger.recordChunk({ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'ls' } }, 's');
+    logger.recordChunk({ type: 'tool_result', id: 't1', content: 'fail', isError: true }, 's');
+    logger.recordChunk({ type: 'text', content: 'hello' }, 's');
+    await logger.flush();
+
+    expect(written.map(e => e.kind)).toEqual(['tool_use', 'tool_result']);
+    expect(written[1]).toMatchObject({ toolUseId: 't1', toolName: 'Bash', isError: true, content: 'fail' });
+  });
+
+  it('keeps recording after a failed write', async () => {
+    storage.append.mockRejectedValueOnce(new Error('disk full'));
+    logger.record({ kind: 'rewind', userMessageUuid: 'u1', filesChanged: [] }, null);
+    await logger.flush();
+    logger.record({ kind: 'rewind', userMessageUuid: 'u2', filesChanged: [] }, null);
+    await logger.flush();
+
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatchObject({ userMessageUuid: 'u2' });
+  });
+
+  it('records approval decisions with the deny message', async () => {
+    logger.recordApproval('Bash', { command: 'rm x' }, {
+      behavior: 'deny', message: 'User denied this action.', interrupt: false,
+    }, 's');
+    await logger.flush();
+
+    expect(written[0]).toMatchObject({
+      kind: 'approval', toolName: 'Bash', decision: 'deny', message: 'User denied this action.',
+    });
+  });
+
+  describe('auditHook', () => {
+    const hookInput = {
+      hook_event_name: 'PreToolUse',
+      session_id: 'session-9',
+      tool_name: 'Bash',
+      tool_input: { command: 'rm -rf /' },
+    };
+    const options = { signal: new AbortController().signal };
+
+    function matcherReturning(output: Record<string, unknown>): HookCallbackMatcher {
+      return { matcher: 'Bash', hooks: [jest.fn().mockResolvedValue(output)] };
+    }
+
+    it('records denies and passes the hook output through', async () => {
+      const output = {
+        continue: false,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: 'Command blocked by blocklist: "rm -rf" matched',
+        },
+      };
+      const wrapped = logger.auditHook('blocklist', matcherReturning(output));
+
+      const result = await wrapped.hooks[0](hookInput as any, 'tool-1', options);
+      await logger.flush();
+
+      expect(wrapped.matcher).toBe('Bash');
+      expect(result).toBe(output);
+      expect(written[0]).toMatchObject({
+        kind: 'hook_denial',
+        hook: 'blocklist',
+        sessionId: 'session-9',
+        toolName: 'Bash',
+        input: { command: 'rm -rf /' },
+        reason: 'Command blocked by blocklist: "rm -rf" matched',
+      });
+    });
+
+    it('ignores hooks that let the call continue', async () => {
+      const wrapped = logger.auditHook('vault_restriction', matcherReturning({ continue: true }));
+
+      await wrapped.hooks[0](hookInput as any, 'tool-1', options);
+      await logger.flush();
+
+      expect(written).toEqual([]);
+    });
+  });
+});
+
+describe('getApprovalDecision', () => {
+  it('maps deny results to deny or cancel', () => {
+    expect(getApprovalDecision({ behavior: 'deny', message: 'no', interrupt: false })).toBe('deny');
+    expect(getApprovalDecision({ behavior: 'deny', message: 'stop', interrupt: true })).toBe('cancel');
+  });
+
+  it('detects allow-always from persisted permission rules', () => {
+    const session: PermissionResult = {
+      behavior: 'allow',
+      updatedInput: {},
+      updatedPermissions: [{ type: 'addRules', rules: [{ toolName: 'Bash' }], behavior: 'allow', destination: 'session' }],
+    };
+    const always: PermissionResult = {
+      behavior: 'allow',
+      updatedInput: {},
+      updatedPermissions: [{ type: 'addRules', rules: [{ toolName: 'Bash' }], behavior: 'allow', destination: 'projectSettings' }],
+    };
+
+    expect(getApprovalDecision({ behavior: 'allow', updatedInput: {} })).toBe('allow');
+    expect(getApprovalDecision(session)).toBe('allow');
+    expect(getApprovalDecision(always)).toBe('allow-always');
+  });
+});
@@ -0,0 +1,45 @@
+import { auditEntriesToCsv, getAuditDetail, getAuditOutcome, getAuditToolName } from '@/core/audit/auditFormat';
+import type { AuditEntry } from '@/core/types';
+
+const base = { timestamp: Date.UTC(2026, 2, 15, 10, 0, 0), sessionId: 'session-1' };
+
+describe('audit entry formatting', () => {
+  it('derives outcomes for every kind of entry', () => {
+    const entries: AuditEntry[] = [
+      { ...base, kind: 'tool_use', toolUseId: 't', toolName: 'Read', input: {} },
+      { ...base, kind: 'tool_result', toolUseId: 't', isError: false, content: '' },
+      { ...base, kind: 'tool_result', toolUseId: 't', isError: true, content: '' },
+      { ...base, kind: 'approval', toolName: 'Bash', input: {}, decision: 'allow-always' },
+      { ...base, kind: 'approval', toolName: 'Bash', input: {}, decision: 'deny' },
+      { ...base, kind: 'approval', toolName: 'Bash', input: {}, decision: 'cancel' },
+      { ...base, kind: 'hook_denial', hook: 'blocklist', toolName: 'Bash', input: {}, reason: '' },
+      { ...base, kind: 'rewind', userMessageUuid: 'u', filesChanged: [] },
+    ];
+
+    expect(entries.map(getAuditOutcome)).toEqual([
+      'requested', 'success', 'error', 'allowed', 'denied', 'cancelled', 'denied', 'rewound',
+    ]);
+  });
+
+  it('describes entries by their action', () => {
+    expect(getAuditDetail({ ...base, kind: 'tool_use', toolUseId: 't', toolName: 'Bash', input: { command: 'ls -la' } }))
+      .toBe('ls -la');
+    expect(getAuditDetail({
+      ...base, kind: 'approval', toolName: 'Read', input: { file_path: 'a.md' }, decision: 'allow-always',
+    })).toBe('always allowed: a.md');
+    expect(getAuditDetail({ ...base, kind: 'rewind', userMessageUuid: 'u', filesChanged: ['a.md', 'b.md'] }))
+      .toBe('Restored a.md, b.md');
+    expect(getAuditToolName({ ...base, kind: 'tool_result', toolUseId: 't', isError: false, content: '' })).toBe('');
+  });
+
+  it('exports CSV with a header and quoted fields', () => {
+    const csv = auditEntriesToCsv([
+      { ...base, kind: 'hook_denial', hook: 'blocklist', toolName: 'Bash', input: {}, reason: 'matched "rm -rf", x' },
+    ]);
+
+    expect(csv).toBe(
+      'timestamp,session,event,tool,outcome,detail\r\n'
+      + '2026-03-15T10:00:00.000Z,session-1,hook_denial,Bash,denied,"blocklist: matched ""rm -rf"", x"\r\n'
+    );
+  });
+});
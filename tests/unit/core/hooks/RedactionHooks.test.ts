@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  createRedactionHooks,
+  getRedactedSearchExclusions,
+  type RedactionHookContext,
+} from '@/core/hooks/RedactionHooks';
+import { getRedactionRules, RedactedFileStore, Redactor } from '@/core/redaction';
+
+describe('RedactionHooks', () => {
+  let vaultPath: string;
+  let redactor: Redactor;
+  let files: RedactedFileStore;
+
+  const createHookInput = (
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    toolUseId = 'tool-1',
+    hookEventName: 'PreToolUse' | 'PostToolUse' = 'PreToolUse'
+  ) => ({
+    hook_event_name: hookEventName,
+    session_id: 'test-session',
+    transcript_path: '/tmp/transcript',
+    cwd: vaultPath,
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_use_id: toolUseId,
+    ...(hookEventName === 'PostToolUse' && { tool_response: {} }),
+  });
+
+  const runPre = (
+    hooks: ReturnType<typeof createRedactionHooks>,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    toolUseId = 'tool-1'
+  ) => hooks.preToolUse.hooks[0](
+    createHookInput(toolName, toolInput, toolUseId) as any,
+    toolUseId,
+    { signal: new AbortController().signal }
+  );
+
+  const runPost = (hooks: ReturnType<typeof createRedactionHooks>, toolName: string, toolUseId = 'tool-1') =>
+    hooks.postToolUse.hooks[0](
+      createHookInput(toolName, {}, toolUseId, 'PostToolUse') as any,
+      toolUseId,
+      { signal: new AbortController().signal }
+    );
+
+  const createHooks = (overrides: Partial<RedactionHookContext> = {}) =>
+    createRedactionHooks({ redactor, files, ...overrides });
+
+  const writeNote = (name: string, content: string) => {
+    fs.writeFileSync(path.join(vaultPath, name), content, 'utf-8');
+    return path.join(vaultPath, name);
+  };
+
+  beforeEach(() => {
+    vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-redaction-hooks-'));
+    redactor = new Redactor(() => getRedactionRules(['emails'], []));
+    files = new RedactedFileStore(redactor, () => vaultPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  it('does nothing while redaction is disabled', async () => {
+    const disabled = new Redactor(() => []);
+    writeNote('contact.md', 'a@example.com');
+    const hooks = createHooks({ redactor: disabled, files: new RedactedFileStore(disabled, () => vaultPath) });
+
+    await expect(runPre(hooks, 'Read', { file_path: 'contact.md' })).resolves.toEqual({ continue: true });
+  });
+
+  describe('Read', () => {
+    it('redirects reads of files with secrets to a masked copy', async () => {
+      writeNote('contact.md', 'Mail a@example.com');
+      const hooks = createHooks();
+
+      const result = await runPre(hooks, 'Read', { file_path: 'contact.md', limit: 10 }) as any;
+
+      const mirror = result.hookSpecificOutput.updatedInput.file_path;
+      expect(result.hookSpecificOutput.updatedInput.limit).toBe(10);
+      expect(result.hookSpecificOutput.permissionDecision).toBeUndefined();
+      expect(fs.readFileSync(mirror, 'utf-8')).toBe(`Mail ${redactor.redact('a@example.com').text}`);
+    });
+
+    it('leaves reads of files without secrets alone', async () => {
+      writeNote('plain.md', 'Nothing here');
+
+      await expect(runPre(createHooks(), 'Read', { file_path: 'plain.md' })).resolves.toEqual({ continue: true });
+    });
+
+    it('carries the permission rule decision of the original path', async () => {
+      writeNote('contact.md', 'a@example.com');
+      const getPermissionBehavior = jest.fn().mockResolvedValue('ask');
+
+      const result = await runPre(createHooks({ getPermissionBehavior }), 'Read', { file_path: 'contact.md' }) as any;
+
+      expect(getPermissionBehavior).toHaveBeenCalledWith('Read', { file_path: 'contact.md' });
+      expect(result.hookSpecificOutput.permissionDecision).toBe('ask');
+      expect(result.hookSpecificOutput.updatedInput.file_path).not.toBe('contact.md');
+    });
+
+    it('does not redirect reads a rule denies', async () => {
+      writeNote('contact.md', 'a@example.com');
+      const getPermissionBehavior = jest.fn().mockResolvedValue('deny');
+
+      await expect(runPre(createHooks({ getPermissionBehavior }), 'Read', { file_path: 'contact.md' }))
+        .resolves.toEqual({ continue: true });
+    });
+
+    it('denies the read when the masked copy cannot be written', async () => {
+      writeNote('contact.md', 'a@example.com');
+      jest.spyOn(files, 'prepareRead').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      const result = await runPre(createHooks(), 'Read', { file_path: 'contact.md' }) as any;
+
+      expect(result.continue).toBe(false);
+      expect(result.hookSpecificOutput.permissionDecision).toBe('deny');
+      expect(result.hookSpecificOutput.permissionDecisionReason).toContain('disk full');
+    });
+  });
+
+  describe('Grep', () => {
+    it('points content searches of a single file at the masked copy', async () => {
+      writeNote('contact.md', 'Mail a@example.com');
+
+      const result = await runPre(createHooks(), 'Grep', {
+        pattern: 'Mail',
+        path: 'contact.md',
+        output_mode: 'content',
+      }) as any;
+
+      const mirror = result.hookSpecificOutput.updatedInput.path;
+      expect(fs.readFileSync(mirror, 'utf-8')).toBe(`Mail ${redactor.redact('a@example.com').text}`);
+    });
+
+    it('leaves folder searches to the vault restriction hook', async () => {
+      writeNote('contact.md', 'Mail a@example.com');
+
+      await expect(runPre(createHooks(), 'Grep', { pattern: 'Mail', output_mode: 'content' }))
+        .resolves.toEqual({ continue: true });
+    });
+
+    describe('getRedactedSearchExclusions', () => {
+      it('leaves masked files and their copies out of folder searches', () => {
+        writeNote('contact.md', 'Mail a@example.com');
+        writeNote('plain.md', 'Mail later');
+
+        const exclusions = getRedactedSearchExclusions({ redactor, files }, { pattern: 'Mail', output_mode: 'content' }, []);
+
+        expect(exclusions?.globs).toEqual(['!**/contact.md', `!**/${path.join('.claude', 'redacted').replace(/\\/g, '/')}/**`]);
+        expect(exclusions?.note).toContain('contact.md');
+        expect(exclusions?.note).not.toContain('plain.md');
+      });
+
+      it('never names files in hidden folders', () => {
+        fs.mkdirSync(path.join(vaultPath, 'Private'));
+        writeNote(path.join('Private', 'diary.md'), 'a@example.com');
+
+        expect(getRedactedSearchExclusions(
+          { redactor, files },
+          { pattern: 'a', output_mode: 'content' },
+          [{ folder: 'Private', access: 'hidden' }]
+        )).toBeNull();
+      });
+
+      it('skips searches that show no lines', () => {
+        writeNote('contact.md', 'a@example.com');
+
+        expect(getRedactedSearchExclusions({ redactor, files }, { pattern: 'a' }, [])).toBeNull();
+      });
+    });
+  });
+
+  describe('writes', () => {
+    it('restores placeholders in written content', async () => {
+      const placeholder = redactor.redact('a@example.com').text;
+
+      const result = await runPre(createHooks(), 'Write', {
+        file_path: 'out.md',
+        content: `To ${placeholder}`,
+      }) as any;
+
+      expect(result.hookSpecificOutput.updatedInput).toEqual({ file_path: 'out.md', content: 'To a@example.com' });
+    });
+
+    it('restores placeholders in edits of files that were never masked', async () => {
+      const placeholder = redactor.redact('a@example.com').text;
+      writeNote('out.md', 'To someone');
+
+      const result = await runPre(createHooks(), 'Edit', {
+        file_path: 'out.md',
+        old_string: 'someone',
+        new_string: placeholder,
+      }) as any;
+
+      expect(result.hookSpecificOutput.updatedInput.new_string).toBe('a@example.com');
+      expect(result.hookSpecificOutput.updatedInput.file_path).toBe('out.md');
+    });
+
+    it('leaves writes without placeholders alone', async () => {
+      await expect(runPre(createHooks(), 'Write', { file_path: 'out.md', content: 'plain' }))
+        .resolves.toEqual({ continue: true });
+    });
+
+    it('redirects edits of masked files to the copy and syncs them back', async () => {
+      const original = writeNote('contact.md', 'Mail a@example.com');
+      const hooks = createHooks();
+      const read = await runPre(hooks, 'Read', { file_path: 'contact.md' }, 'read-1') as any;
+      const mirror = read.hookSpecificOutput.updatedInput.file_path;
+
+      const edit = await runPre(hooks, 'Edit', {
+        file_path: 'contact.md',
+        old_string: 'Mail',
+        new_string: 'Write to',
+      }, 'edit-1') as any;
+      expect(edit.hookSpecificOutput.updatedInput.file_path).toBe(mirror);
+
+      // What the CLI would do with the redirected edit
+      fs.writeFileSync(mirror, `Write to ${redactor.redact('a@example.com').text}`, 'utf-8');
+      await expect(runPost(hooks, 'Edit', 'edit-1')).resolves.toEqual({ continue: true });
+
+      expect(fs.readFileSync(original, 'utf-8')).toBe('Write to a@example.com');
+    });
+
+    it('reports edits that could not be synced back', async () => {
+      writeNote('contact.md', 'a@example.com');
+      const hooks = createHooks();
+      await runPre(hooks, 'Read', { file_path: 'contact.md' }, 'read-1');
+      await runPre(hooks, 'Write', { file_path: 'contact.md', content: 'new' }, 'write-1');
+      jest.spyOn(files, 'syncBack').mockImplementation(() => {
+        throw new Error('read-only file system');
+      });
+
+      const result = await runPost(hooks, 'Write', 'write-1') as any;
+
+      expect(result.hookSpecificOutput.additionalContext).toContain('read-only file system');
+    });
+
+    it('ignores tool calls it did not redirect after they finish', async () => {
+      await expect(runPost(createHooks(), 'Write', 'other')).resolves.toEqual({ continue: true });
+    });
+  });
+});
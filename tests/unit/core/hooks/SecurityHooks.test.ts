@@ -1,9 +1,11 @@
 import {
   type BlocklistContext,
   createBlocklistHook,
+  createMcpToolPolicyHook,
   createVaultRestrictionHook,
   type VaultRestrictionContext,
 } from '@/core/hooks/SecurityHooks';
+import type { CCPermissions, FolderPolicy, PermissionRule } from '@/core/types';
 import type { PathAccessType } from '@/utils/path';
 
 describe('SecurityHooks', () => {
@@ -45,6 +47,30 @@ describe('SecurityHooks', () => {
       });
     });
 
+    it('explains which command matched', async () => {
+      const context: BlocklistContext = {
+        blockedCommands: {
+          unix: ['rm -rf'],
+          windows: [],
+        },
+        enableBlocklist: true,
+      };
+
+      const hook = createBlocklistHook(() => context);
+
+      const result = await hook.hooks[0](
+        createHookInput('npm run build && rm -r -f dist'),
+        'tool-1',
+        { signal: new AbortController().signal }
+      );
+
+      expect(result).toMatchObject({
+        hookSpecificOutput: {
+          permissionDecisionReason: 'Command blocked by blocklist: "rm -rf" matched `rm -r -f dist`',
+        },
+      });
+    });
+
     it('allows commands not in the blocklist', async () => {
       const context: BlocklistContext = {
         blockedCommands: {
@@ -451,6 +477,188 @@ describe('SecurityHooks', () => {
       });
     });
 
+    describe('Folder policies', () => {
+      const createContext = (): VaultRestrictionContext => ({
+        getPathAccessType: (): PathAccessType => 'vault',
+        checkFolderPolicy: jest.fn((filePath: string, access: 'read' | 'write') => {
+          if (filePath.includes('Archive/')) {
+            return { action: 'deny' as const, policy: { folder: 'Archive', access: 'hidden' as const }, reason: 'hidden' };
+          }
+          if (filePath.includes('Clients/')) {
+            return { action: 'ask' as const, policy: { folder: 'Clients', access: 'ask' as const }, reason: `ask ${access}` };
+          }
+          return null;
+        }),
+      });
+
+      it('denies file tools in a denied folder', async () => {
+        const context = createContext();
+        const hook = createVaultRestrictionHook(context);
+
+        const result = await hook.hooks[0](
+          createHookInput('Read', { file_path: '/vault/Archive/old.md' }),
+          'tool-1',
+          { signal: new AbortController().signal }
+        );
+
+        expect(result).toEqual({
+          continue: false,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse',
+            permissionDecision: 'deny',
+            permissionDecisionReason: 'hidden',
+          },
+        });
+        expect(context.checkFolderPolicy).toHaveBeenCalledWith('/vault/Archive/old.md', 'read');
+      });
+
+      it('asks for approval on edits in an ask folder', async () => {
+        const context = createContext();
+        const hook = createVaultRestrictionHook(context);
+
+        const result = await hook.hooks[0](
+          createHookInput('Edit', { file_path: '/vault/Clients/plan.md', old_string: 'a', new_string: 'b' }),
+          'tool-1',
+          { signal: new AbortController().signal }
+        );
+
+        expect(result).toEqual({
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse',
+            permissionDecision: 'ask',
+            permissionDecisionReason: 'ask write',
+          },
+        });
+      });
+
+      it('applies folder policies to Bash command paths', async () => {
+        const hook = createVaultRestrictionHook(createContext());
+
+        const result = await hook.hooks[0](
+          createHookInput('Bash', { command: 'cat Clients/plan.md Archive/old.md' }),
+          'tool-1',
+          { signal: new AbortController().signal }
+        );
+
+        expect(result).toMatchObject({
+          continue: false,
+          hookSpecificOutput: { permissionDecision: 'deny', permissionDecisionReason: 'hidden' },
+        });
+      });
+
+      it('allows paths outside any policy', async () => {
+        const hook = createVaultRestrictionHook(createContext());
+
+        const result = await hook.hooks[0](
+          createHookInput('Write', { file_path: '/vault/Notes/new.md', content: 'x' }),
+          'tool-1',
+          { signal: new AbortController().signal }
+        );
+
+        expect(result).toEqual({ continue: true });
+      });
+
+      describe('searches', () => {
+        const searchPolicies: FolderPolicy[] = [
+          { folder: 'Archive', access: 'hidden' },
+          { folder: 'Clients', access: 'ask' },
+        ];
+        const createSearchContext = (): VaultRestrictionContext => ({
+          ...createContext(),
+          findPoliciesInSearch: jest.fn((root: string) =>
+            searchPolicies.filter(policy => !root || policy.folder.startsWith(`${root}/`))
+          ),
+        });
+
+        it('excludes hidden folders from Grep and asks for ask folders', async () => {
+          const hook = createVaultRestrictionHook(createSearchContext());
+
+          const result = await hook.hooks[0](
+            createHookInput('Grep', { pattern: 'key', glob: '*.md' }),
+            'tool-1',
+            { signal: new AbortController().signal }
+          );
+
+          expect(result).toEqual({
+            continue: true,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse',
+              permissionDecision: 'ask',
+              permissionDecisionReason: expect.stringContaining('"Clients/"'),
+              updatedInput: { pattern: 'key', glob: '*.md !**/Archive/**' },
+            },
+          });
+        });
+
+        it('denies Glob searches that reach a hidden folder without naming it', async () => {
+          const hook = createVaultRestrictionHook(createSearchContext());
+
+          const result = await hook.hooks[0](
+            createHookInput('Glob', { pattern: '**/*.md' }),
+            'tool-1',
+            { signal: new AbortController().signal }
+          ) as any;
+
+          expect(result.continue).toBe(false);
+          expect(result.hookSpecificOutput.permissionDecision).toBe('deny');
+          expect(result.hookSpecificOutput.permissionDecisionReason).not.toContain('Archive');
+        });
+
+        it('passes the search scope and allows searches below no policy', async () => {
+          const context = createSearchContext();
+          const hook = createVaultRestrictionHook(context);
+
+          const result = await hook.hooks[0](
+            createHookInput('Glob', { pattern: '*.md', path: 'Notes' }),
+            'tool-1',
+            { signal: new AbortController().signal }
+          );
+
+          expect(context.findPoliciesInSearch).toHaveBeenCalledWith('Notes', 0);
+          expect(result).toEqual({ continue: true });
+        });
+
+        it('adds further Grep exclusions to the hidden folder ones in a single input change', async () => {
+          const getSearchExclusions = jest.fn().mockReturnValue({ globs: ['!**/keys.md'], note: 'Left out keys.md' });
+          const hook = createVaultRestrictionHook({
+            ...createSearchContext(),
+            findPoliciesInSearch: () => [searchPolicies[0]],
+            getSearchExclusions,
+          });
+
+          const result = await hook.hooks[0](
+            createHookInput('Grep', { pattern: 'key', output_mode: 'content' }),
+            'tool-1',
+            { signal: new AbortController().signal }
+          );
+
+          expect(getSearchExclusions).toHaveBeenCalledWith({ pattern: 'key', output_mode: 'content' }, [searchPolicies[0]]);
+          expect(result).toEqual({
+            continue: true,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse',
+              updatedInput: { pattern: 'key', output_mode: 'content', glob: '!**/Archive/** !**/keys.md' },
+              additionalContext: 'Left out keys.md',
+            },
+          });
+        });
+
+        it('does not ask Glob searches for further exclusions', async () => {
+          const getSearchExclusions = jest.fn();
+          const hook = createVaultRestrictionHook({ ...createSearchContext(), getSearchExclusions });
+
+          await hook.hooks[0](
+            createHookInput('Glob', { pattern: '*.md', path: 'Notes' }),
+            'tool-1',
+            { signal: new AbortController().signal }
+          );
+
+          expect(getSearchExclusions).not.toHaveBeenCalled();
+        });
+      });
+    });
+
     describe('Edge cases', () => {
       it('allows file tools without path in input', async () => {
         const context: VaultRestrictionContext = {
@@ -509,4 +717,63 @@ describe('SecurityHooks', () => {
       });
     });
   });
+
+  describe('createMcpToolPolicyHook', () => {
+    const permissions: CCPermissions = {
+      allow: ['mcp__github__list_issues'] as PermissionRule[],
+      ask: ['mcp__github__create_issue'] as PermissionRule[],
+      deny: ['mcp__github__delete_repo'] as PermissionRule[],
+    };
+    const run = (toolName: string, getPermissions = async () => permissions) =>
+      createMcpToolPolicyHook(getPermissions).hooks[0](
+        {
+          hook_event_name: 'PreToolUse' as const,
+          session_id: 'test-session',
+          transcript_path: '/tmp/transcript',
+          cwd: '/vault',
+          tool_name: toolName,
+          tool_input: {},
+          tool_use_id: 'tool-1',
+        },
+        'tool-1',
+        { signal: new AbortController().signal }
+      );
+
+    it('denies tools with a deny policy', async () => {
+      expect(await run('mcp__github__delete_repo')).toEqual({
+        continue: false,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: expect.stringContaining('mcp__github__delete_repo'),
+        },
+      });
+    });
+
+    it('forces a prompt for tools with an ask policy', async () => {
+      expect(await run('mcp__github__create_issue')).toEqual({
+        continue: true,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'ask',
+          permissionDecisionReason: 'MCP tool policy: always ask',
+        },
+      });
+    });
+
+    it('leaves allowed, unlisted and non-MCP tools to the SDK', async () => {
+      const getPermissions = jest.fn(async () => permissions);
+
+      expect(await run('mcp__github__list_issues')).toEqual({ continue: true });
+      expect(await run('mcp__github__other')).toEqual({ continue: true });
+      expect(await run('Bash', getPermissions)).toEqual({ continue: true });
+      expect(getPermissions).not.toHaveBeenCalled();
+    });
+
+    it('continues when permissions cannot be read', async () => {
+      expect(await run('mcp__github__delete_repo', async () => {
+        throw new Error('EACCES');
+      })).toEqual({ continue: true });
+    });
+  });
 });
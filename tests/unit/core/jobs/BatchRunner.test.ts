@@ -0,0 +1,113 @@
+import { ClaudianService } from '@/core/agent';
+import { BatchRunner, getBatchPrompt } from '@/core/jobs/BatchRunner';
+import type { StreamChunk } from '@/core/types';
+
+jest.mock('@/core/agent', () => ({
+  ClaudianService: jest.fn(),
+}));
+
+const MockedService = ClaudianService as jest.MockedClass<typeof ClaudianService>;
+
+/** Each created service streams the chunks for the next prompt in `chunksByPrompt`. */
+function mockServices(chunksByPrompt: Record<string, StreamChunk[]>) {
+  const services: { query: jest.Mock; cleanup: jest.Mock }[] = [];
+  MockedService.mockImplementation(() => {
+    const service = {
+      query: jest.fn(async function* (prompt: string) {
+        for (const chunk of chunksByPrompt[prompt] ?? []) {
+          yield chunk;
+        }
+      }),
+      getSessionId: jest.fn().mockReturnValue(`session-${services.length}`),
+      cleanup: jest.fn(),
+    };
+    services.push(service);
+    return service as unknown as ClaudianService;
+  });
+  return services;
+}
+
+async function waitForRun(runner: BatchRunner): Promise<void> {
+  for (let i = 0; i < 50 && runner.getRuns().some(run => !run.finishedAt); i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+const plugin = { mcpManager: {}, rememberInternalSession: jest.fn().mockResolvedValue(undefined) } as any;
+
+describe('getBatchPrompt', () => {
+  it('passes the note path as the command arguments', () => {
+    expect(getBatchPrompt('tidy', 'notes/a b.md')).toBe('/tidy "notes/a b.md"');
+  });
+
+  it('escapes quotes and backslashes in the path', () => {
+    expect(getBatchPrompt('tidy', 'say "hi"\\.md')).toBe('/tidy "say \\"hi\\"\\\\.md"');
+  });
+});
+
+describe('BatchRunner', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('runs each note in its own service and records per-file results', async () => {
+    const services = mockServices({
+      '/tidy "a.md"': [
+        { type: 'tool_use', id: 'e1', name: 'Edit', input: { file_path: 'a.md', old_string: 'x', new_string: 'y' } },
+        { type: 'tool_result', id: 'e1', content: 'ok' },
+      ],
+      '/tidy "b.md"': [{ type: 'error', content: 'Rate limited' }],
+    });
+    const runner = new BatchRunner(plugin);
+
+    const run = runner.start('tidy', ['a.md', 'b.md'], 'plan');
+    await waitForRun(runner);
+
+    expect(services).toHaveLength(2);
+    expect(services[0].query.mock.calls[0][3]).toMatchObject({ permissionMode: 'plan', forceColdStart: true });
+    expect(services.every(s => s.cleanup.mock.calls.length === 1)).toBe(true);
+    expect(run.files).toEqual([
+      expect.objectContaining({ path: 'a.md', status: 'success', sessionId: 'session-0' }),
+      expect.objectContaining({ path: 'b.md', status: 'error', error: 'Rate limited', edits: [] }),
+    ]);
+    expect(run.files[0].edits).toHaveLength(1);
+    expect(plugin.rememberInternalSession).toHaveBeenCalledWith('session-0');
+    expect(run.finishedAt).toBeDefined();
+  });
+
+  it('notifies listeners while running', async () => {
+    mockServices({});
+    const runner = new BatchRunner(plugin);
+    const listener = jest.fn();
+    runner.onChange(listener);
+
+    runner.start('tidy', ['a.md'], 'normal');
+    await waitForRun(runner);
+
+    // Started, file running, file done, run finished
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops the current note and skips the rest when cancelled', async () => {
+    const services = mockServices({});
+    const runner = new BatchRunner(plugin);
+
+    const run = runner.start('tidy', ['a.md', 'b.md'], 'normal');
+    runner.cancel(run.id);
+    await waitForRun(runner);
+
+    expect(services[0].cleanup).toHaveBeenCalled();
+    expect(run.files.map(f => f.status)).toEqual(['cancelled', 'cancelled']);
+  });
+
+  it('clears finished runs only', async () => {
+    mockServices({});
+    const runner = new BatchRunner(plugin);
+
+    runner.start('tidy', ['a.md'], 'normal');
+    await waitForRun(runner);
+    runner.clearFinished();
+
+    expect(runner.getRuns()).toEqual([]);
+  });
+});
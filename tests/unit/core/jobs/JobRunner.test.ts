@@ -0,0 +1,141 @@
+import { ClaudianService } from '@/core/agent';
+import { formatJobNoteSection, getJobNotePath, JobRunner } from '@/core/jobs/JobRunner';
+import type { StreamChunk } from '@/core/types';
+import { createScheduledJob } from '@/core/types';
+
+jest.mock('@/core/agent', () => ({
+  ClaudianService: jest.fn(),
+}));
+
+const MockedService = ClaudianService as jest.MockedClass<typeof ClaudianService>;
+const STARTED = new Date(2025, 0, 10, 8, 5).getTime();
+
+function mockService(chunks: StreamChunk[], sessionId: string | null = 'session-1') {
+  const service = {
+    query: jest.fn(async function* () {
+      for (const chunk of chunks) {
+        yield chunk;
+      }
+    }),
+    getSessionId: jest.fn().mockReturnValue(sessionId),
+    cleanup: jest.fn(),
+  };
+  MockedService.mockImplementation(() => service as unknown as ClaudianService);
+  return service;
+}
+
+function createPlugin(existingPaths: string[] = []) {
+  const adapter = {
+    exists: jest.fn(async (path: string) => existingPaths.includes(path)),
+    append: jest.fn().mockResolvedValue(undefined),
+  };
+  const plugin = {
+    mcpManager: {},
+    storage: { getAdapter: () => adapter },
+    rememberInternalSession: jest.fn().mockResolvedValue(undefined),
+  };
+  return { plugin: plugin as any, adapter };
+}
+
+const job = createScheduledJob('job-1', {
+  name: 'Morning: brief',
+  prompt: '/brief',
+  model: 'haiku',
+  permissionMode: 'plan',
+  outputFolder: 'Reports/',
+});
+
+describe('getJobNotePath', () => {
+  it('builds a dated, sanitized note path in the output folder', () => {
+    expect(getJobNotePath(job, STARTED)).toBe('Reports/2025-01-10 Morning brief.md');
+    expect(getJobNotePath({ ...job, outputFolder: '' }, STARTED)).toBe('2025-01-10 Morning brief.md');
+  });
+});
+
+describe('formatJobNoteSection', () => {
+  it('adds frontmatter to a new note', () => {
+    expect(formatJobNoteSection(job, ' Answer \n', STARTED, true)).toBe(
+      '---\njob: "Morning: brief"\njobId: "job-1"\ndate: 2025-01-10\n---\n\n## 08:05\n\nAnswer\n'
+    );
+  });
+
+  it('separates appended sections with a blank line', () => {
+    expect(formatJobNoteSection(job, 'Answer', STARTED, false)).toBe('\n## 08:05\n\nAnswer\n');
+  });
+});
+
+describe('JobRunner', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(STARTED);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('queries with the job settings and writes the final answer to the note', async () => {
+    const service = mockService([
+      { type: 'text', content: 'Let me check.' },
+      { type: 'tool_use', id: 't1', name: 'Read', input: {} },
+      { type: 'text', content: 'Sub-agent text', parentToolUseId: 't1' },
+      { type: 'text', content: 'Final ' },
+      { type: 'text', content: 'answer' },
+    ]);
+    const { plugin, adapter } = createPlugin();
+
+    const run = await new JobRunner(plugin).run(job, 'schedule');
+
+    expect(service.query).toHaveBeenCalledWith('/brief', undefined, undefined, {
+      model: 'haiku',
+      permissionMode: 'plan',
+      forceColdStart: true,
+    });
+    expect(adapter.append).toHaveBeenCalledWith(
+      'Reports/2025-01-10 Morning brief.md',
+      expect.stringContaining('## 08:05\n\nFinal answer\n')
+    );
+    expect(run).toEqual({
+      startedAt: STARTED,
+      finishedAt: STARTED,
+      cause: 'schedule',
+      status: 'success',
+      sessionId: 'session-1',
+      notePath: 'Reports/2025-01-10 Morning brief.md',
+    });
+    expect(plugin.rememberInternalSession).toHaveBeenCalledWith('session-1');
+    expect(service.cleanup).toHaveBeenCalled();
+  });
+
+  it('appends without frontmatter when the note exists', async () => {
+    mockService([{ type: 'text', content: 'Again' }]);
+    const { plugin, adapter } = createPlugin(['Reports/2025-01-10 Morning brief.md']);
+
+    await new JobRunner(plugin).run(job, 'manual');
+
+    expect(adapter.append.mock.calls[0][1]).toBe('\n## 08:05\n\nAgain\n');
+  });
+
+  it('records stream errors when there is no answer', async () => {
+    mockService([{ type: 'error', content: 'Rate limited' }], null);
+    const { plugin, adapter } = createPlugin();
+
+    const run = await new JobRunner(plugin).run(job, 'schedule');
+
+    expect(run.status).toBe('error');
+    expect(run.error).toBe('Rate limited');
+    expect(run.sessionId).toBeUndefined();
+    expect(adapter.append).not.toHaveBeenCalled();
+  });
+
+  it('records note write failures', async () => {
+    mockService([{ type: 'text', content: 'Answer' }]);
+    const { plugin, adapter } = createPlugin();
+    adapter.append.mockRejectedValue(new Error('disk full'));
+
+    const run = await new JobRunner(plugin).run(job, 'schedule');
+
+    expect(run).toMatchObject({ status: 'error', error: 'Failed to write note: disk full', sessionId: 'session-1' });
+  });
+});
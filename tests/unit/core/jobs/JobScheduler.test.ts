@@ -0,0 +1,157 @@
+import { getLastScheduledRunAt, getNextRunTime, isJobDue, JobScheduler } from '@/core/jobs/JobScheduler';
+import type { JobRun, ScheduledJob } from '@/core/types';
+import { createScheduledJob } from '@/core/types';
+
+const CREATED = new Date(2025, 0, 1, 12).getTime();
+const MINUTE = 60 * 1000;
+
+function at(day: number, hours: number, minutes = 0): number {
+  return new Date(2025, 0, day, hours, minutes).getTime();
+}
+
+function run(startedAt: number, cause: JobRun['cause'] = 'schedule'): JobRun {
+  return { startedAt, finishedAt: startedAt + 1000, cause, status: 'success' };
+}
+
+function job(overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  return createScheduledJob(overrides.id ?? 'job-1', { prompt: 'Summarize', createdAt: CREATED, ...overrides });
+}
+
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('getLastScheduledRunAt', () => {
+  it('ignores manual runs', () => {
+    expect(getLastScheduledRunAt(job({ history: [run(300, 'manual'), run(200), run(100)] }))).toBe(200);
+    expect(getLastScheduledRunAt(job({ history: [run(300, 'manual')] }))).toBeUndefined();
+  });
+});
+
+describe('getNextRunTime', () => {
+  it('returns null for disabled and startup jobs', () => {
+    expect(getNextRunTime(job({ enabled: false }), at(2, 9))).toBeNull();
+    expect(getNextRunTime(job({ trigger: 'startup' }), at(2, 9))).toBeNull();
+  });
+
+  it('schedules daily jobs at the next slot', () => {
+    const daily = job({ time: '08:00' });
+
+    expect(getNextRunTime(daily, at(2, 7))).toBe(at(2, 8));
+    expect(getNextRunTime({ ...daily, history: [run(at(2, 8))] }, at(2, 9))).toBe(at(3, 8));
+  });
+
+  it('catches up on a daily slot missed since the last run', () => {
+    const daily = job({ time: '08:00', history: [run(at(1, 8))] });
+
+    expect(isJobDue(daily, at(3, 10))).toBe(true);
+  });
+
+  it('does not run a daily job for a slot before it was created', () => {
+    expect(getNextRunTime(job({ time: '08:00' }), at(1, 13))).toBe(at(2, 8));
+  });
+
+  it('runs interval jobs immediately, then after each interval', () => {
+    const interval = job({ trigger: 'interval', intervalMinutes: 30 });
+
+    expect(isJobDue(interval, at(2, 9))).toBe(true);
+    expect(getNextRunTime({ ...interval, history: [run(at(2, 9))] }, at(2, 9, 10))).toBe(at(2, 9, 30));
+  });
+});
+
+describe('JobScheduler', () => {
+  let jobs: ScheduledJob[];
+  let runJob: jest.Mock;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jobs = [];
+    runJob = jest.fn().mockResolvedValue(undefined);
+    scheduler = new JobScheduler({ getJobs: () => jobs, runJob });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('runs startup and due jobs when started', async () => {
+    jest.setSystemTime(at(2, 9));
+    jobs = [
+      job({ id: 'startup', trigger: 'startup' }),
+      job({ id: 'daily', time: '08:00' }),
+      job({ id: 'later', time: '18:00' }),
+    ];
+
+    scheduler.start();
+    await flushPromises();
+
+    expect(runJob.mock.calls.map(([j, cause]) => [j.id, cause])).toEqual([
+      ['startup', 'startup'],
+      ['daily', 'schedule'],
+    ]);
+  });
+
+  it('checks for due jobs periodically', async () => {
+    jest.setSystemTime(at(2, 7, 59));
+    jobs = [job({ time: '08:00' })];
+
+    scheduler.start();
+    await flushPromises();
+    expect(runJob).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(MINUTE);
+    await flushPromises();
+    expect(runJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs one job at a time and does not queue a pending job twice', async () => {
+    let finish!: () => void;
+    runJob.mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve; }));
+    jobs = [job({ id: 'a', trigger: 'startup' }), job({ id: 'b', trigger: 'startup' })];
+
+    expect(scheduler.runNow('a')).toBe(true);
+    expect(scheduler.runNow('b')).toBe(true);
+    expect(scheduler.runNow('a')).toBe(false);
+    expect(scheduler.getActiveJobId()).toBe('a');
+    expect(scheduler.isPending('b')).toBe(true);
+    expect(runJob).toHaveBeenCalledTimes(1);
+
+    finish();
+    await flushPromises();
+
+    expect(runJob).toHaveBeenCalledTimes(2);
+    expect(runJob.mock.calls[1][1]).toBe('manual');
+  });
+
+  it('keeps processing the queue when a run fails', async () => {
+    runJob.mockRejectedValueOnce(new Error('boom'));
+    jobs = [job({ id: 'a' }), job({ id: 'b' })];
+
+    scheduler.runNow('a');
+    scheduler.runNow('b');
+    await flushPromises();
+
+    expect(runJob).toHaveBeenCalledTimes(2);
+    expect(scheduler.getActiveJobId()).toBeNull();
+  });
+
+  it('notifies listeners until they unsubscribe', async () => {
+    const listener = jest.fn();
+    const unsubscribe = scheduler.onChange(listener);
+    jobs = [job()];
+
+    scheduler.runNow('job-1');
+    await flushPromises();
+    expect(listener).toHaveBeenCalled();
+
+    listener.mockClear();
+    unsubscribe();
+    scheduler.runNow('job-1');
+    await flushPromises();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
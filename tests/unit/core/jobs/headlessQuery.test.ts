@@ -0,0 +1,75 @@
+import type { ClaudianService } from '@/core/agent';
+import { runHeadlessQuery } from '@/core/jobs/headlessQuery';
+import type { StreamChunk } from '@/core/types';
+
+function createService(chunks: StreamChunk[], options: { throwAfter?: boolean } = {}) {
+  return {
+    query: jest.fn(async function* () {
+      for (const chunk of chunks) {
+        yield chunk;
+      }
+      if (options.throwAfter) {
+        throw new Error('Process exited');
+      }
+    }),
+    getSessionId: jest.fn().mockReturnValue('session-1'),
+  } as unknown as ClaudianService & { query: jest.Mock };
+}
+
+describe('runHeadlessQuery', () => {
+  it('forces a cold start with the given model and permission mode', async () => {
+    const service = createService([]);
+
+    await runHeadlessQuery(service, '/tidy notes/a.md', { model: 'haiku', permissionMode: 'plan' });
+
+    expect(service.query).toHaveBeenCalledWith('/tidy notes/a.md', undefined, undefined, {
+      model: 'haiku',
+      permissionMode: 'plan',
+      forceColdStart: true,
+    });
+  });
+
+  it('keeps the main agent answer after the last tool call', async () => {
+    const result = await runHeadlessQuery(createService([
+      { type: 'text', content: 'Let me check.' },
+      { type: 'tool_use', id: 't1', name: 'Read', input: {} },
+      { type: 'text', content: 'Sub-agent text', parentToolUseId: 't1' },
+      { type: 'text', content: 'Final ' },
+      { type: 'text', content: 'answer' },
+    ]), 'prompt', { permissionMode: 'normal' });
+
+    expect(result.text).toBe('Final answer');
+    expect(result.sessionId).toBe('session-1');
+    expect(result.error).toBeUndefined();
+  });
+
+  it('collects successful Write/Edit calls with their diffs', async () => {
+    const result = await runHeadlessQuery(createService([
+      { type: 'tool_use', id: 'e1', name: 'Edit', input: { file_path: 'a.md', old_string: 'x', new_string: 'y' } },
+      { type: 'tool_result', id: 'e1', content: 'ok' },
+      { type: 'tool_use', id: 'e2', name: 'Write', input: { file_path: 'b.md', content: 'z' } },
+      { type: 'tool_result', id: 'e2', content: 'denied', isError: true },
+      { type: 'tool_use', id: 'r1', name: 'Read', input: { file_path: 'c.md' } },
+      { type: 'tool_result', id: 'r1', content: 'text' },
+    ]), 'prompt', { permissionMode: 'normal' });
+
+    expect(result.edits).toHaveLength(1);
+    expect(result.edits[0]).toMatchObject({ id: 'e1', name: 'Edit', status: 'completed' });
+    expect(result.edits[0].diffData?.stats).toEqual({ added: 1, removed: 1 });
+  });
+
+  it('returns stream errors and thrown errors without throwing', async () => {
+    const withErrorChunks = await runHeadlessQuery(createService([
+      { type: 'error', content: 'First' },
+      { type: 'error', content: 'Second' },
+    ]), 'prompt', { permissionMode: 'normal' });
+    const withThrow = await runHeadlessQuery(
+      createService([{ type: 'text', content: 'Partial' }], { throwAfter: true }),
+      'prompt',
+      { permissionMode: 'normal' }
+    );
+
+    expect(withErrorChunks.error).toBe('First; Second');
+    expect(withThrow).toMatchObject({ text: 'Partial', error: 'Process exited' });
+  });
+});
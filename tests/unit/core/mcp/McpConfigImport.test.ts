@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const homeDir = '/home/testuser';
+const vaultPath = '/home/testuser/vault';
+
+jest.mock('os', () => ({
+  homedir: jest.fn(() => homeDir),
+}));
+
+jest.mock('fs');
+
+import {
+  applyMcpImport,
+  buildMcpImportPlan,
+  discoverMcpImportSources,
+  extractImportableServers,
+  isSameMcpConfig,
+  normalizeImportedMcpConfig,
+  sanitizeMcpServerName,
+  suggestMcpServerName,
+} from '@/core/mcp/McpConfigImport';
+import type { ClaudianMcpServer } from '@/core/types';
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+function mockFiles(files: Record<string, unknown>) {
+  mockFs.existsSync.mockImplementation((p) => String(p) in files);
+  mockFs.readFileSync.mockImplementation((p) => JSON.stringify(files[String(p)]));
+}
+
+function server(name: string, command: string): ClaudianMcpServer {
+  return { name, config: { command }, enabled: true, contextSaving: true };
+}
+
+describe('normalizeImportedMcpConfig', () => {
+  it('keeps command, args and env of stdio servers', () => {
+    expect(normalizeImportedMcpConfig({
+      command: 'npx',
+      args: ['-y', 'server'],
+      env: { API_KEY: 'secret' },
+      alwaysAllow: ['tool'],
+    })).toEqual({ command: 'npx', args: ['-y', 'server'], env: { API_KEY: 'secret' } });
+  });
+
+  it('keeps headers of remote servers and maps other transport names to http', () => {
+    expect(normalizeImportedMcpConfig({ url: 'https://a.dev/mcp', type: 'streamable-http', headers: { Authorization: 'Bearer x' } }))
+      .toEqual({ type: 'http', url: 'https://a.dev/mcp', headers: { Authorization: 'Bearer x' } });
+    expect(normalizeImportedMcpConfig({ url: 'https://a.dev/sse', type: 'sse' }))
+      .toEqual({ type: 'sse', url: 'https://a.dev/sse' });
+  });
+
+  it('reads Windsurf serverUrl', () => {
+    expect(normalizeImportedMcpConfig({ serverUrl: 'https://a.dev/mcp' })).toEqual({ type: 'http', url: 'https://a.dev/mcp' });
+  });
+
+  it('rejects entries without command or URL', () => {
+    expect(normalizeImportedMcpConfig({ args: [] })).toBeNull();
+    expect(normalizeImportedMcpConfig('npx')).toBeNull();
+  });
+});
+
+describe('extractImportableServers', () => {
+  it('sanitizes names and drops invalid entries', () => {
+    expect(extractImportableServers({
+      'My Server': { command: 'a' },
+      broken: {},
+    })).toEqual([{ name: 'My-Server', config: { command: 'a' } }]);
+  });
+
+  it('returns nothing for non-objects', () => {
+    expect(extractImportableServers(undefined)).toEqual([]);
+    expect(extractImportableServers(['a'])).toEqual([]);
+  });
+});
+
+describe('sanitizeMcpServerName', () => {
+  it('falls back when nothing valid is left', () => {
+    expect(sanitizeMcpServerName(' !! ')).toBe('server');
+  });
+});
+
+describe('discoverMcpImportSources', () => {
+  const claudeJsonPath = path.join(homeDir, '.claude.json');
+  const desktopPath = path.join(homeDir, '.config', 'Claude', 'claude_desktop_config.json');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns nothing when no configs exist', () => {
+    mockFiles({});
+    expect(discoverMcpImportSources(vaultPath)).toEqual([]);
+  });
+
+  it('lists Claude Code user and project servers with the vault project first', () => {
+    mockFiles({
+      [claudeJsonPath]: {
+        mcpServers: { github: { command: 'gh-mcp' } },
+        projects: {
+          '/home/testuser/other': { mcpServers: { other: { command: 'other' } } },
+          [vaultPath]: { mcpServers: { notes: { command: 'notes' } } },
+          '/home/testuser/empty': { mcpServers: {} },
+        },
+      },
+    });
+
+    const sources = discoverMcpImportSources(vaultPath);
+
+    expect(sources.map(s => s.label)).toEqual([
+      'Claude Code (user)',
+      'Claude Code (this vault)',
+      'Claude Code (other)',
+    ]);
+    expect(sources[1].servers).toEqual([{ name: 'notes', config: { command: 'notes' } }]);
+  });
+
+  it('reads Claude Desktop and VS Code configs', () => {
+    if (process.platform === 'darwin' || process.platform === 'win32') return;
+    mockFiles({
+      [desktopPath]: { mcpServers: { fs: { command: 'fs-mcp', env: { ROOT: '/' } } } },
+      [path.join(vaultPath, '.vscode', 'mcp.json')]: { servers: { web: { type: 'http', url: 'https://web.dev/mcp' } } },
+    });
+
+    const sources = discoverMcpImportSources(vaultPath);
+
+    expect(sources.map(s => [s.id, s.servers.length])).toEqual([['claude-desktop', 1], ['vscode', 1]]);
+    expect(sources[0].servers[0].config).toEqual({ command: 'fs-mcp', env: { ROOT: '/' } });
+  });
+
+  it('skips unreadable files', () => {
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.readFileSync.mockReturnValue('{ not json');
+
+    expect(discoverMcpImportSources(vaultPath)).toEqual([]);
+  });
+});
+
+describe('isSameMcpConfig', () => {
+  it('ignores key order and a default type', () => {
+    expect(isSameMcpConfig({ type: 'stdio', command: 'a', args: ['x'] }, { args: ['x'], command: 'a' })).toBe(true);
+    expect(isSameMcpConfig({ type: 'http', url: 'u' }, { type: 'sse', url: 'u' })).toBe(false);
+  });
+});
+
+describe('suggestMcpServerName', () => {
+  it('adds the first free numeric suffix', () => {
+    expect(suggestMcpServerName('a', new Set())).toBe('a');
+    expect(suggestMcpServerName('a', new Set(['a', 'a-2']))).toBe('a-3');
+  });
+});
+
+describe('buildMcpImportPlan', () => {
+  it('marks new, unchanged and conflicting servers', () => {
+    const plan = buildMcpImportPlan(
+      [server('same', 'same'), server('taken', 'old')],
+      [
+        { name: 'fresh', config: { command: 'fresh' } },
+        { name: 'same', config: { command: 'same' } },
+        { name: 'taken', config: { command: 'new' } },
+      ]
+    );
+
+    expect(plan.map(e => [e.name, e.status, e.suggestedName])).toEqual([
+      ['fresh', 'new', 'fresh'],
+      ['same', 'unchanged', 'same'],
+      ['taken', 'conflict', 'taken-2'],
+    ]);
+  });
+});
+
+describe('applyMcpImport', () => {
+  const existing = [
+    { ...server('taken', 'old'), contextSaving: false, disabledTools: ['rm'] },
+  ];
+  const [fresh, conflict] = buildMcpImportPlan(existing, [
+    { name: 'fresh', config: { command: 'fresh', env: { TOKEN: 't' } } },
+    { name: 'taken', config: { command: 'new' } },
+  ]);
+
+  it('adds new servers with default options and keeps env', () => {
+    const result = applyMcpImport(existing, [{ entry: fresh, resolution: 'rename' }]);
+
+    expect(result.added).toEqual(['fresh']);
+    expect(result.servers[1]).toEqual({
+      name: 'fresh',
+      config: { command: 'fresh', env: { TOKEN: 't' } },
+      enabled: true,
+      contextSaving: true,
+    });
+  });
+
+  it('adds a conflicting server under the chosen name', () => {
+    const result = applyMcpImport(existing, [{ entry: conflict, resolution: 'rename', name: 'taken-new' }]);
+
+    expect(result.added).toEqual(['taken-new']);
+    expect(result.servers.map(s => s.name)).toEqual(['taken', 'taken-new']);
+  });
+
+  it('replaces the config but keeps the Claudian options', () => {
+    const result = applyMcpImport(existing, [{ entry: conflict, resolution: 'replace' }]);
+
+    expect(result.replaced).toEqual(['taken']);
+    expect(result.servers).toEqual([
+      { name: 'taken', config: { command: 'new' }, enabled: true, contextSaving: false, disabledTools: ['rm'] },
+    ]);
+    expect(existing[0].config).toEqual({ command: 'old' });
+  });
+
+  it('skips invalid or taken rename targets and skipped entries', () => {
+    const result = applyMcpImport(existing, [
+      { entry: conflict, resolution: 'rename', name: 'taken' },
+      { entry: conflict, resolution: 'rename', name: 'bad name' },
+      { entry: fresh, resolution: 'skip' },
+    ]);
+
+    expect(result.added).toEqual([]);
+    expect(result.servers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { findSecretRefs, McpCredentials, resolveSecretRefs } from '@/core/mcp/McpCredentials';
+import type { McpOAuthClient } from '@/core/mcp/McpOAuth';
+import type { McpCredentialStore } from '@/core/storage/McpCredentialStore';
+import type { ClaudianMcpServer } from '@/core/types';
+
+const secrets: Record<string, string> = { API_KEY: 'key-1', 'org.id': 'org-9' };
+
+describe('findSecretRefs', () => {
+  it('lists referenced secrets in env and header values once', () => {
+    expect(findSecretRefs({ command: 'a', env: { A: '${secret:API_KEY}', B: 'x-${secret:API_KEY}' } }))
+      .toEqual(['API_KEY']);
+    expect(findSecretRefs({ type: 'http', url: 'u', headers: { Org: '${secret:org.id}' } })).toEqual(['org.id']);
+    expect(findSecretRefs({ command: 'a' })).toEqual([]);
+  });
+});
+
+describe('resolveSecretRefs', () => {
+  const getSecret = (name: string) => secrets[name];
+
+  it('fills header values and leaves unknown references as written', () => {
+    const config = {
+      type: 'http' as const,
+      url: 'https://mcp.example.com',
+      headers: { Authorization: 'Bearer ${secret:API_KEY}', 'X-Other': '${secret:MISSING}' },
+    };
+
+    expect(resolveSecretRefs(config, getSecret)).toEqual({
+      ...config,
+      headers: { Authorization: 'Bearer key-1', 'X-Other': '${secret:MISSING}' },
+    });
+    expect(config.headers.Authorization).toBe('Bearer ${secret:API_KEY}');
+  });
+
+  it('fills env values of stdio servers', () => {
+    expect(resolveSecretRefs({ command: 'a', env: { ORG: '${secret:org.id}' } }, getSecret))
+      .toEqual({ command: 'a', env: { ORG: 'org-9' } });
+  });
+});
+
+describe('McpCredentials', () => {
+  const store = { getSecret: (name: string) => secrets[name] } as unknown as McpCredentialStore;
+  const oauth = {
+    peekAccessToken: jest.fn(),
+    getAccessToken: jest.fn().mockResolvedValue('token'),
+  };
+  const credentials = new McpCredentials(store, oauth as unknown as McpOAuthClient);
+  const remote: ClaudianMcpServer = {
+    name: 'remote',
+    config: { type: 'http', url: 'https://mcp.example.com', headers: { 'X-Key': '${secret:API_KEY}' } },
+    enabled: true,
+    contextSaving: true,
+    oauth: {},
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('adds the OAuth access token as a bearer header', () => {
+    oauth.peekAccessToken.mockReturnValue('access-1');
+
+    expect(credentials.resolveConfig(remote)).toEqual({
+      type: 'http',
+      url: 'https://mcp.example.com',
+      headers: { 'X-Key': 'key-1', Authorization: 'Bearer access-1' },
+    });
+  });
+
+  it('leaves the headers alone when not signed in or OAuth is off', () => {
+    oauth.peekAccessToken.mockReturnValue(null);
+    expect(credentials.resolveConfig(remote)).toEqual({ ...remote.config, headers: { 'X-Key': 'key-1' } });
+
+    const { oauth: _, ...plain } = remote;
+    credentials.resolveConfig(plain);
+    expect(oauth.peekAccessToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes tokens only for OAuth servers', async () => {
+    await credentials.refresh(remote);
+    await credentials.refresh({ ...remote, oauth: undefined });
+
+    expect(oauth.getAccessToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports secrets missing on this device', () => {
+    expect(credentials.getMissingSecrets({
+      ...remote,
+      config: { command: 'a', env: { A: '${secret:API_KEY}', B: '${secret:NOPE}' } },
+    })).toEqual(['NOPE']);
+  });
+});
@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+import { McpOAuthClient } from '@/core/mcp/McpOAuth';
+import { McpCredentialStore } from '@/core/storage/McpCredentialStore';
+import type { ClaudianMcpServer } from '@/core/types';
+
+interface StandInServer {
+  baseUrl: string;
+  requests: string[];
+  deny: boolean;
+  close: () => Promise<void>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+}
+
+/** Minimal MCP server + authorization server: discovery, registration, PKCE code grant and refresh. */
+async function startStandInServer(): Promise<StandInServer> {
+  const challenges = new Map<string, string>();
+  const state: StandInServer = { baseUrl: '', requests: [], deny: false, close: async () => {} };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', state.baseUrl);
+    state.requests.push(`${req.method} ${url.pathname}`);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname.startsWith('/.well-known/oauth-protected-resource')) {
+      json(200, { resource: `${state.baseUrl}/mcp`, authorization_servers: [state.baseUrl] });
+    } else if (url.pathname === '/.well-known/oauth-authorization-server') {
+      json(200, {
+        issuer: state.baseUrl,
+        authorization_endpoint: `${state.baseUrl}/authorize`,
+        token_endpoint: `${state.baseUrl}/token`,
+        registration_endpoint: `${state.baseUrl}/register`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    } else if (url.pathname === '/register' && req.method === 'POST') {
+      json(201, { ...JSON.parse(await readBody(req)), client_id: 'registered-client' });
+    } else if (url.pathname === '/authorize') {
+      const redirect = new URL(url.searchParams.get('redirect_uri')!);
+      if (state.deny) {
+        redirect.searchParams.set('error', 'access_denied');
+        redirect.searchParams.set('error_description', 'User declined');
+      } else {
+        challenges.set('code-1', url.searchParams.get('code_challenge')!);
+        redirect.searchParams.set('code', 'code-1');
+        redirect.searchParams.set('state', url.searchParams.get('state')!);
+      }
+      res.writeHead(302, { Location: redirect.href });
+      res.end();
+    } else if (url.pathname === '/token' && req.method === 'POST') {
+      const params = new URLSearchParams(await readBody(req));
+      if (params.get('grant_type') === 'authorization_code') {
+        const verifier = params.get('code_verifier') ?? '';
+        const challenge = createHash('sha256').update(verifier).digest('base64url');
+        if (challenges.get(params.get('code') ?? '') !== challenge) {
+          json(400, { error: 'invalid_grant' });
+          return;
+        }
+        json(200, { access_token: 'access-1', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh-1' });
+      } else if (params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'refresh-1') {
+        json(200, { access_token: 'access-2', token_type: 'Bearer', expires_in: 3600 });
+      } else {
+        json(400, { error: 'invalid_grant' });
+      }
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as { port: number };
+  state.baseUrl = `http://127.0.0.1:${port}`;
+  state.close = () => new Promise(resolve => server.close(() => resolve()));
+  return state;
+}
+
+describe('McpOAuthClient', () => {
+  let standIn: StandInServer;
+  let tempDir: string;
+  let store: McpCredentialStore;
+  let server: ClaudianMcpServer;
+
+  /** Plays the browser: follows the authorization redirect back to the loopback callback. */
+  const openUrl = (url: string) => void fetch(url).catch(() => {});
+
+  beforeEach(async () => {
+    standIn = await startStandInServer();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-oauth-'));
+    store = new McpCredentialStore(path.join(tempDir, 'credentials.json'), 'host');
+    server = {
+      name: 'remote',
+      config: { type: 'http', url: `${standIn.baseUrl}/mcp` },
+      enabled: true,
+      contextSaving: true,
+      oauth: {},
+    };
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('signs in with dynamic registration and PKCE and stores the tokens', async () => {
+    const client = new McpOAuthClient(store, { openUrl });
+
+    await client.signIn(server);
+
+    expect(standIn.requests).toEqual(expect.arrayContaining(['POST /register', 'GET /authorize', 'POST /token']));
+    expect(client.isSignedIn(server)).toBe(true);
+    expect(client.peekAccessToken(server)).toBe('access-1');
+    expect(store.getOAuthState('remote')).toMatchObject({
+      serverUrl: `${standIn.baseUrl}/mcp`,
+      clientInformation: { client_id: 'registered-client' },
+      tokens: { refresh_token: 'refresh-1' },
+    });
+  });
+
+  it('uses a configured client ID instead of registering', async () => {
+    const client = new McpOAuthClient(store, { openUrl });
+
+    await client.signIn({ ...server, oauth: { clientId: 'my-client' } });
+
+    expect(standIn.requests).not.toContain('POST /register');
+    expect(store.getOAuthState('remote')?.clientInformation).toEqual({ client_id: 'my-client' });
+  });
+
+  it('rejects when the user declines', async () => {
+    standIn.deny = true;
+    const client = new McpOAuthClient(store, { openUrl });
+
+    await expect(client.signIn(server)).rejects.toThrow('User declined');
+    expect(client.isSignedIn(server)).toBe(false);
+  });
+
+  it('times out when the browser never returns', async () => {
+    const client = new McpOAuthClient(store, { openUrl: () => {}, timeoutMs: 50 });
+
+    await expect(client.signIn(server)).rejects.toThrow('Sign-in timed out');
+  });
+
+  it('refreshes tokens that are about to expire and keeps the refresh token', async () => {
+    const client = new McpOAuthClient(store, { openUrl });
+    await client.signIn(server);
+    const expiresAt = store.getOAuthState('remote')!.tokens!.expires_at!;
+
+    expect(await client.getAccessToken(server, expiresAt - 10 * 60 * 1000)).toBe('access-1');
+    expect(await client.getAccessToken(server, expiresAt - 30 * 1000)).toBe('access-2');
+    expect(store.getOAuthState('remote')?.tokens?.refresh_token).toBe('refresh-1');
+  });
+
+  it('ignores tokens issued for a different URL and forgets them on sign-out', async () => {
+    const client = new McpOAuthClient(store, { openUrl });
+    await client.signIn(server);
+
+    expect(client.peekAccessToken({ ...server, config: { type: 'http', url: 'https://other.example.com' } })).toBeNull();
+
+    client.signOut('remote');
+    expect(await client.getAccessToken(server)).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
-import { McpServerManager } from '@/core/mcp';
+import { describeMcpHealth, McpServerManager } from '@/core/mcp';
+import type { McpTestResult } from '@/core/mcp/McpTester';
 import type { ClaudianMcpServer } from '@/core/types';
 
 const createManager = async (servers: ClaudianMcpServer[]) => {
@@ -402,4 +403,313 @@ describe('McpServerManager', () => {
       expect(manager.getServers()).toEqual(servers);
     });
   });
+
+  describe('built-in servers', () => {
+    const config = { type: 'sdk' as const, name: 'claudian-vault', instance: {} as any };
+
+    it('returns registered servers and their auto-allowed tools', async () => {
+      const manager = await createManager([]);
+      manager.setBuiltInServer('claudian-vault', {
+        config,
+        autoAllowedTools: ['mcp__claudian-vault__search_notes'],
+      });
+
+      expect(manager.getBuiltInServers()).toEqual({ 'claudian-vault': config });
+      expect(manager.getBuiltInAllowedTools()).toEqual(['mcp__claudian-vault__search_notes']);
+    });
+
+    it('removes a server when set to null', async () => {
+      const manager = await createManager([]);
+      manager.setBuiltInServer('claudian-vault', { config, autoAllowedTools: ['tool'] });
+      manager.setBuiltInServer('claudian-vault', null);
+
+      expect(manager.getBuiltInServers()).toEqual({});
+      expect(manager.getBuiltInAllowedTools()).toEqual([]);
+    });
+
+    it('keeps built-in servers out of the configured server list', async () => {
+      const manager = await createManager([]);
+      manager.setBuiltInServer('claudian-vault', { config, autoAllowedTools: [] });
+
+      expect(manager.getServers()).toEqual([]);
+      expect(manager.getActiveServers(new Set())).toEqual({});
+    });
+  });
+
+  describe('health monitor', () => {
+    const healthy: McpTestResult = { success: true, serverVersion: '1.2.0', tools: [{ name: 'search' }] };
+    const failing: McpTestResult = { success: false, tools: [], error: 'spawn ENOENT' };
+
+    const createMonitoredManager = async (
+      servers: ClaudianMcpServer[],
+      tester: jest.Mock,
+      save = jest.fn().mockResolvedValue(undefined)
+    ) => {
+      const manager = new McpServerManager({ load: async () => servers, save }, tester);
+      await manager.loadServers();
+      return manager;
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('caches tools and version of healthy servers', async () => {
+      const tester = jest.fn().mockResolvedValue(healthy);
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: true },
+      ], tester);
+
+      await manager.checkAllServers();
+
+      expect(manager.getServerHealth('alpha')).toEqual(expect.objectContaining({
+        status: 'healthy',
+        serverVersion: '1.2.0',
+        tools: [{ name: 'search' }],
+        consecutiveFailures: 0,
+      }));
+    });
+
+    it('only checks enabled servers', async () => {
+      const tester = jest.fn().mockResolvedValue(healthy);
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: false },
+        { name: 'beta', config: { command: 'beta' }, enabled: false, contextSaving: false },
+      ], tester);
+
+      await manager.checkAllServers();
+
+      expect(tester).toHaveBeenCalledTimes(1);
+      expect(manager.getServerHealth('beta')).toBeUndefined();
+    });
+
+    it('keeps the last tool list and counts failures when a check fails', async () => {
+      const tester = jest.fn().mockResolvedValueOnce(healthy).mockResolvedValue(failing);
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: false },
+      ], tester);
+
+      await manager.checkAllServers();
+      await manager.checkAllServers();
+      await manager.checkAllServers();
+
+      expect(manager.getServerHealth('alpha')).toEqual(expect.objectContaining({
+        status: 'unhealthy',
+        tools: [{ name: 'search' }],
+        error: 'spawn ENOENT',
+        consecutiveFailures: 2,
+      }));
+    });
+
+    it('treats a throwing tester as a failed check', async () => {
+      const tester = jest.fn().mockRejectedValue(new Error('boom'));
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: false },
+      ], tester);
+
+      await manager.checkAllServers();
+
+      expect(manager.getServerHealth('alpha')?.error).toBe('boom');
+    });
+
+    it('disables and saves a context-saving server after repeated failures', async () => {
+      const tester = jest.fn().mockResolvedValue(failing);
+      const save = jest.fn().mockResolvedValue(undefined);
+      const onServerDisabled = jest.fn();
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: true },
+      ], tester, save);
+      jest.useFakeTimers();
+      manager.startHealthMonitor({ intervalMs: 1000, maxFailures: 2, onServerDisabled });
+      await jest.advanceTimersByTimeAsync(1000);
+      manager.stopHealthMonitor();
+
+      expect(manager.getServers()[0].enabled).toBe(false);
+      expect(save).toHaveBeenCalledWith(manager.getServers());
+      expect(onServerDisabled).toHaveBeenCalledWith(
+        manager.getServers()[0],
+        expect.objectContaining({ consecutiveFailures: 2 })
+      );
+      expect(manager.getActiveServers(new Set(['alpha']))).toEqual({});
+    });
+
+    it('never disables servers without context-saving', async () => {
+      const tester = jest.fn().mockResolvedValue(failing);
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: false },
+      ], tester);
+      jest.useFakeTimers();
+      manager.startHealthMonitor({ intervalMs: 1000, maxFailures: 1 });
+      await jest.advanceTimersByTimeAsync(1000);
+      manager.stopHealthMonitor();
+
+      expect(tester).toHaveBeenCalledTimes(2);
+
+      expect(manager.getServers()[0].enabled).toBe(true);
+    });
+
+    it('notifies listeners until they unsubscribe', async () => {
+      const tester = jest.fn().mockResolvedValue(healthy);
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: false },
+      ], tester);
+      const listener = jest.fn();
+      const unsubscribe = manager.onHealthChange(listener);
+
+      await manager.checkAllServers();
+      unsubscribe();
+      await manager.checkAllServers();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('checks again on every interval until stopped', async () => {
+      jest.useFakeTimers();
+      const tester = jest.fn().mockResolvedValue(healthy);
+      const manager = await createMonitoredManager([
+        { name: 'alpha', config: { command: 'alpha' }, enabled: true, contextSaving: false },
+      ], tester);
+
+      manager.startHealthMonitor({ intervalMs: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(1000);
+      manager.stopHealthMonitor();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(tester).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('prompts and resources', () => {
+    const withPrompts: McpTestResult = {
+      success: true,
+      tools: [],
+      resources: [{ uri: 'file:///readme.md', name: 'readme' }],
+      prompts: [{ name: 'review', description: 'Review code', arguments: [{ name: 'file', required: true }] }],
+    };
+
+    const createPromptManager = async (servers: ClaudianMcpServer[], tester = jest.fn().mockResolvedValue(withPrompts)) => {
+      const manager = new McpServerManager({ load: async () => servers }, tester);
+      await manager.loadServers();
+      await manager.checkAllServers();
+      return manager;
+    };
+
+    it('caches resources and prompts of healthy servers', async () => {
+      const manager = await createPromptManager([
+        { name: 'docs', config: { command: 'docs' }, enabled: true, contextSaving: true },
+      ]);
+
+      expect(manager.getServerHealth('docs')?.resources).toEqual(withPrompts.resources);
+      expect(manager.getServerHealth('docs')?.prompts).toEqual(withPrompts.prompts);
+    });
+
+    it('exposes prompts as slash commands', async () => {
+      const manager = await createPromptManager([
+        { name: 'docs', config: { command: 'docs' }, enabled: true, contextSaving: true },
+      ]);
+
+      expect(manager.getPromptCommands()).toEqual([
+        expect.objectContaining({ name: 'mcp__docs__review', argumentHint: '<file>', source: 'mcp' }),
+      ]);
+    });
+
+    it('finds the prompt a slash command refers to', async () => {
+      const manager = await createPromptManager([
+        { name: 'docs', config: { command: 'docs' }, enabled: true, contextSaving: true },
+      ]);
+
+      expect(manager.findPromptCommand('/mcp__docs__review src/a.ts')).toEqual({
+        server: manager.getServers()[0],
+        prompt: withPrompts.prompts![0],
+        args: 'src/a.ts',
+      });
+      expect(manager.findPromptCommand('/mcp__docs__missing')).toBeNull();
+      expect(manager.findPromptCommand('/review')).toBeNull();
+    });
+
+    it('ignores prompts of disabled servers', async () => {
+      const manager = await createPromptManager([
+        { name: 'docs', config: { command: 'docs' }, enabled: false, contextSaving: true },
+      ]);
+
+      expect(manager.getPromptCommands()).toEqual([]);
+      expect(manager.findPromptCommand('/mcp__docs__review')).toBeNull();
+    });
+
+    it('re-checks a single server on refresh', async () => {
+      const tester = jest.fn().mockResolvedValue(withPrompts);
+      const manager = await createPromptManager([
+        { name: 'docs', config: { command: 'docs' }, enabled: true, contextSaving: true },
+        { name: 'other', config: { command: 'other' }, enabled: true, contextSaving: true },
+      ], tester);
+      tester.mockClear();
+
+      await manager.refreshServer('docs');
+
+      expect(tester).toHaveBeenCalledTimes(1);
+      expect(tester).toHaveBeenCalledWith(manager.getServers()[0]);
+    });
+  });
+
+  describe('credentials', () => {
+    const remote: ClaudianMcpServer = {
+      name: 'remote',
+      config: { type: 'http', url: 'https://mcp.example.com', headers: { 'X-Key': '${secret:KEY}' } },
+      enabled: true,
+      contextSaving: false,
+      oauth: {},
+    };
+    const createProvider = () => ({
+      resolveConfig: jest.fn((server: ClaudianMcpServer) => ({ ...server.config, headers: { 'X-Key': 'resolved' } })),
+      refresh: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('passes resolved configs to the SDK but keeps stored configs unchanged', async () => {
+      const manager = await createManager([remote]);
+      manager.setCredentialProvider(createProvider());
+
+      expect(manager.getActiveServers(new Set()).remote).toEqual({
+        type: 'http',
+        url: 'https://mcp.example.com',
+        headers: { 'X-Key': 'resolved' },
+      });
+      expect(manager.getServers()[0].config).toBe(remote.config);
+    });
+
+    it('refreshes tokens before resolving a server and tolerates refresh errors', async () => {
+      const manager = await createManager([remote]);
+      const provider = createProvider();
+      provider.refresh.mockRejectedValue(new Error('offline'));
+      manager.setCredentialProvider(provider);
+
+      const resolved = await manager.resolveServer(remote);
+
+      expect(provider.refresh).toHaveBeenCalledWith(remote);
+      expect(resolved).toEqual({ ...remote, config: { ...remote.config, headers: { 'X-Key': 'resolved' } } });
+    });
+
+    it('refreshes enabled servers only', async () => {
+      const manager = await createManager([remote, { ...remote, name: 'off', enabled: false }]);
+      const provider = createProvider();
+      manager.setCredentialProvider(provider);
+
+      await manager.refreshCredentials();
+
+      expect(provider.refresh).toHaveBeenCalledTimes(1);
+      expect(provider.refresh).toHaveBeenCalledWith(remote);
+    });
+  });
+
+  describe('describeMcpHealth', () => {
+    const base = { tools: [], resources: [], prompts: [], consecutiveFailures: 0 };
+
+    it('summarizes each status', () => {
+      expect(describeMcpHealth(undefined)).toBe('Not checked yet');
+      expect(describeMcpHealth({ ...base, status: 'healthy', tools: [{ name: 'a' }], serverVersion: '2.0' }))
+        .toBe('Healthy · 1 tool · v2.0');
+      expect(describeMcpHealth({ ...base, status: 'unhealthy', error: 'timeout', consecutiveFailures: 3 }))
+        .toBe('Unreachable (3×): timeout');
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { testMcpServer } from '@/core/mcp/McpTester';
+import { getMcpPrompt, readMcpResource, testMcpServer } from '@/core/mcp/McpTester';
 import type { ClaudianMcpServer } from '@/core/types';
 
 // Mock the MCP SDK transports and client
@@ -8,10 +8,29 @@ jest.mock('@modelcontextprotocol/sdk/client', () => ({
     getServerVersion: jest.fn().mockReturnValue({ name: 'test-server', version: '1.0.0' }),
     listTools: jest.fn().mockResolvedValue({
       tools: [
-        { name: 'tool1', description: 'A test tool', inputSchema: { type: 'object' } },
+        { name: 'tool1', description: 'A test tool', inputSchema: { type: 'object' }, annotations: { readOnlyHint: true } },
         { name: 'tool2' },
       ],
     }),
+    listResources: jest.fn().mockResolvedValue({
+      resources: [{ uri: 'file:///readme.md', name: 'readme', mimeType: 'text/markdown' }],
+    }),
+    listPrompts: jest.fn().mockResolvedValue({
+      prompts: [{ name: 'review', description: 'Review code', arguments: [{ name: 'file', required: true }] }],
+    }),
+    readResource: jest.fn().mockResolvedValue({
+      contents: [
+        { uri: 'file:///readme.md', text: '# Readme' },
+        { uri: 'file:///logo.png', blob: 'AAAA', mimeType: 'image/png' },
+      ],
+    }),
+    getPrompt: jest.fn().mockResolvedValue({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review this file.' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.ts', text: 'const a = 1;' } } },
+        { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+      ],
+    }),
     close: jest.fn(),
   })),
 }));
@@ -62,7 +81,27 @@ describe('testMcpServer', () => {
       expect(result.tools).toHaveLength(2);
       expect(result.tools[0].name).toBe('tool1');
       expect(result.tools[0].description).toBe('A test tool');
+      expect(result.tools[0].readOnly).toBe(true);
       expect(result.tools[1].name).toBe('tool2');
+      expect(result.tools[1].readOnly).toBeUndefined();
+    });
+
+    it('should return resources and prompts', async () => {
+      const server: ClaudianMcpServer = {
+        name: 'test',
+        config: { command: 'node server.js' },
+        enabled: true,
+        contextSaving: false,
+      };
+
+      const result = await testMcpServer(server);
+
+      expect(result.resources).toEqual([
+        { uri: 'file:///readme.md', name: 'readme', description: undefined, mimeType: 'text/markdown' },
+      ]);
+      expect(result.prompts).toEqual([
+        { name: 'review', description: 'Review code', arguments: [{ name: 'file', required: true }] },
+      ]);
     });
 
     it('should return error for missing command', async () => {
@@ -258,3 +297,43 @@ describe('testMcpServer', () => {
     });
   });
 });
+
+describe('readMcpResource', () => {
+  const server: ClaudianMcpServer = {
+    name: 'docs',
+    config: { command: 'node server.js' },
+    enabled: true,
+    contextSaving: false,
+  };
+
+  it('joins text contents and notes binary parts', async () => {
+    await expect(readMcpResource(server, 'file:///readme.md')).resolves.toBe(
+      '# Readme\n[binary content omitted: image/png]'
+    );
+  });
+
+  it('throws when the server cannot be reached', async () => {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn().mockRejectedValue(new Error('Connection refused')),
+      close: jest.fn(),
+    }));
+
+    await expect(readMcpResource(server, 'file:///readme.md')).rejects.toThrow('Connection refused');
+  });
+});
+
+describe('getMcpPrompt', () => {
+  it('joins text and embedded resource messages', async () => {
+    const server: ClaudianMcpServer = {
+      name: 'docs',
+      config: { command: 'node server.js' },
+      enabled: true,
+      contextSaving: false,
+    };
+
+    await expect(getMcpPrompt(server, 'review', { file: 'a.ts' })).resolves.toBe(
+      'Review this file.\n\nconst a = 1;'
+    );
+  });
+});
@@ -0,0 +1,324 @@
+import { MarkdownView, TFile } from 'obsidian';
+
+import {
+  frontmatterValueMatches,
+  getNoteTags,
+  OBSIDIAN_AUTO_ALLOWED_TOOL_IDS,
+  ObsidianToolsServer,
+} from '@/core/mcp';
+import { BUILT_IN_REDACTION_RULES, Redactor } from '@/core/redaction';
+
+function createMockTFile(path: string): TFile {
+  return new (TFile as any)(path) as TFile;
+}
+
+function createMarkdownView(file: TFile): MarkdownView {
+  return new (MarkdownView as any)(undefined, file) as MarkdownView;
+}
+
+function createApp(options: {
+  files?: string[];
+  caches?: Record<string, any>;
+  resolvedLinks?: Record<string, Record<string, number>>;
+  unresolvedLinks?: Record<string, Record<string, number>>;
+} = {}) {
+  const files = new Map((options.files ?? []).map(path => [path, createMockTFile(path)]));
+  const leaf = { openFile: jest.fn().mockResolvedValue(undefined) };
+
+  return {
+    leaf,
+    app: {
+      vault: {
+        getMarkdownFiles: jest.fn(() => Array.from(files.values())),
+        getAbstractFileByPath: jest.fn((path: string) => files.get(path) ?? null),
+        createFolder: jest.fn().mockResolvedValue(undefined),
+      },
+      metadataCache: {
+        resolvedLinks: options.resolvedLinks ?? {},
+        unresolvedLinks: options.unresolvedLinks ?? {},
+        getFileCache: jest.fn((file: TFile) => options.caches?.[file.path] ?? null),
+        getFirstLinkpathDest: jest.fn((linkpath: string) =>
+          Array.from(files.values()).find(file => file.basename === linkpath) ?? null
+        ),
+      },
+      fileManager: {
+        renameFile: jest.fn().mockResolvedValue(undefined),
+      },
+      workspace: {
+        getActiveFile: jest.fn().mockReturnValue(null),
+        getLeavesOfType: jest.fn().mockReturnValue([]),
+        getLeaf: jest.fn().mockReturnValue(leaf),
+      },
+    } as any,
+  };
+}
+
+describe('getNoteTags', () => {
+  it('combines frontmatter and inline tags without duplicates', () => {
+    const cache = {
+      frontmatter: { tags: ['project', '#work'] },
+      tags: [{ tag: '#work' }, { tag: '#idea' }],
+    } as any;
+
+    expect(getNoteTags(cache)).toEqual(['project', 'work', 'idea']);
+  });
+
+  it('splits string frontmatter tags', () => {
+    expect(getNoteTags({ frontmatter: { tags: 'a, b c' } } as any)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('returns nothing without a cache', () => {
+    expect(getNoteTags(null)).toEqual([]);
+  });
+});
+
+describe('frontmatterValueMatches', () => {
+  it('compares scalars case-insensitively', () => {
+    expect(frontmatterValueMatches('Done', 'done')).toBe(true);
+    expect(frontmatterValueMatches(3, '3')).toBe(true);
+    expect(frontmatterValueMatches('open', 'done')).toBe(false);
+  });
+
+  it('matches any list item', () => {
+    expect(frontmatterValueMatches(['a', 'b'], 'B')).toBe(true);
+  });
+
+  it('does not match objects or missing values', () => {
+    expect(frontmatterValueMatches({ a: 1 }, 'a')).toBe(false);
+    expect(frontmatterValueMatches(null, 'null')).toBe(false);
+  });
+});
+
+describe('ObsidianToolsServer', () => {
+  it('auto-allows every tool except renaming', () => {
+    expect(OBSIDIAN_AUTO_ALLOWED_TOOL_IDS).toContain('mcp__claudian-obsidian__get_backlinks');
+    expect(OBSIDIAN_AUTO_ALLOWED_TOOL_IDS).not.toContain('mcp__claudian-obsidian__rename_note_with_link_update');
+  });
+
+  describe('getBacklinks', () => {
+    it('lists linking notes with link counts', () => {
+      const { app } = createApp({
+        files: ['Plan.md', 'a.md', 'b.md'],
+        resolvedLinks: { 'b.md': { 'Plan.md': 2 }, 'a.md': { 'Plan.md': 1 }, 'Plan.md': { 'Plan.md': 1 } },
+      });
+      const server = new ObsidianToolsServer(app);
+
+      expect(server.getBacklinks('Plan')).toBe('Notes linking to Plan.md (2):\n- a.md\n- b.md (2 links)');
+    });
+
+    it('reports notes without backlinks', () => {
+      const { app } = createApp({ files: ['Plan.md'] });
+
+      expect(new ObsidianToolsServer(app).getBacklinks('Plan.md')).toBe('No notes link to Plan.md.');
+    });
+
+    it('throws for unknown notes', () => {
+      const { app } = createApp();
+
+      expect(() => new ObsidianToolsServer(app).getBacklinks('Missing')).toThrow('Note not found: Missing');
+    });
+  });
+
+  it('lists resolved and unresolved outgoing links', () => {
+    const { app } = createApp({
+      files: ['a.md'],
+      resolvedLinks: { 'a.md': { 'b.md': 1 } },
+      unresolvedLinks: { 'a.md': { 'Someday': 1 } },
+    });
+
+    expect(new ObsidianToolsServer(app).getOutgoingLinks('a.md')).toBe(
+      'Links in a.md:\n- b.md\n- Someday (unresolved, note does not exist)'
+    );
+  });
+
+  describe('listTags', () => {
+    const caches = {
+      'a.md': { tags: [{ tag: '#work' }, { tag: '#idea' }] },
+      'b.md': { frontmatter: { tags: ['work'] } },
+    };
+
+    it('counts tags across the vault', () => {
+      const { app } = createApp({ files: ['a.md', 'b.md'], caches });
+
+      expect(new ObsidianToolsServer(app).listTags()).toBe('Tags (2):\n- #work (2)\n- #idea (1)');
+    });
+
+    it('lists the tags of one note', () => {
+      const { app } = createApp({ files: ['a.md', 'b.md'], caches });
+
+      expect(new ObsidianToolsServer(app).listTags('a.md')).toBe('Tags in a.md: #work, #idea');
+    });
+  });
+
+  describe('queryFrontmatter', () => {
+    const caches = {
+      'Projects/a.md': { frontmatter: { status: 'Done' } },
+      'Projects/b.md': { frontmatter: { status: 'open' } },
+      'c.md': { frontmatter: { status: 'done' } },
+      'd.md': { frontmatter: { other: 1 } },
+    };
+    const files = Object.keys(caches);
+
+    it('finds notes with the property', () => {
+      const { app } = createApp({ files, caches });
+
+      expect(new ObsidianToolsServer(app).queryFrontmatter({ key: 'status' })).toBe(
+        'Notes with frontmatter status (3):\n- c.md: "done"\n- Projects/a.md: "Done"\n- Projects/b.md: "open"'
+      );
+    });
+
+    it('filters by value and folder', () => {
+      const { app } = createApp({ files, caches });
+
+      expect(new ObsidianToolsServer(app).queryFrontmatter({ key: 'status', value: 'done', folder: 'Projects' }))
+        .toBe('Notes with frontmatter status = "done" (1):\n- Projects/a.md: "Done"');
+    });
+
+    it('reports notes beyond the limit', () => {
+      const { app } = createApp({ files, caches });
+
+      expect(new ObsidianToolsServer(app).queryFrontmatter({ key: 'status', limit: 1 }))
+        .toBe('Notes with frontmatter status (3):\n- c.md: "done"\n(2 more not shown)');
+    });
+  });
+
+  it('lists open notes and marks the active one', () => {
+    const { app } = createApp();
+    const active = createMockTFile('a.md');
+    app.workspace.getActiveFile.mockReturnValue(active);
+    app.workspace.getLeavesOfType.mockReturnValue([
+      { view: createMarkdownView(active) },
+      { view: createMarkdownView(createMockTFile('b.md')) },
+    ]);
+
+    expect(new ObsidianToolsServer(app).getOpenNotes()).toBe('Open notes:\n- a.md (active)\n- b.md');
+  });
+
+  it('opens a note at a line', async () => {
+    const { app, leaf } = createApp({ files: ['a.md'] });
+
+    const result = await new ObsidianToolsServer(app).openNote('a.md', 5, true);
+
+    expect(app.workspace.getLeaf).toHaveBeenCalledWith('tab');
+    expect(leaf.openFile).toHaveBeenCalledWith(expect.any(TFile), { eState: { line: 4 } });
+    expect(result).toBe('Opened a.md at line 5.');
+  });
+
+  describe('renameNote', () => {
+    it('renames through the file manager and creates missing folders', async () => {
+      const { app } = createApp({
+        files: ['Plan.md', 'a.md'],
+        resolvedLinks: { 'a.md': { 'Plan.md': 1 } },
+      });
+
+      const result = await new ObsidianToolsServer(app).renameNote('Plan.md', 'Archive/Old plan');
+
+      expect(app.vault.createFolder).toHaveBeenCalledWith('Archive');
+      expect(app.fileManager.renameFile).toHaveBeenCalledWith(expect.objectContaining({ path: 'Plan.md' }), 'Archive/Old plan.md');
+      expect(result).toBe('Renamed Plan.md to Archive/Old plan.md. Links in 1 note were updated.');
+    });
+
+    it('refuses to overwrite an existing note', async () => {
+      const { app } = createApp({ files: ['a.md', 'b.md'] });
+
+      await expect(new ObsidianToolsServer(app).renameNote('a.md', 'b.md')).rejects.toThrow('b.md already exists');
+      expect(app.fileManager.renameFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('folder policies', () => {
+    const policies = [
+      { folder: 'Private', access: 'hidden' as const },
+      { folder: 'Clients', access: 'ask' as const },
+      { folder: 'Archive', access: 'readonly' as const },
+    ];
+
+    const createServer = (options: Parameters<typeof createApp>[0]) => {
+      const { app } = createApp(options);
+      return { app, server: new ObsidianToolsServer(app, () => policies) };
+    };
+
+    it('treats notes in hidden folders as missing', () => {
+      const { server } = createServer({ files: ['Private/Diary.md'] });
+
+      expect(() => server.getBacklinks('Private/Diary.md')).toThrow('Note not found: Private/Diary.md');
+    });
+
+    it('points notes in ask folders to Read', () => {
+      const { server } = createServer({ files: ['Clients/Acme.md'] });
+
+      expect(() => server.getOutgoingLinks('Clients/Acme')).toThrow('requires approval for every read');
+    });
+
+    it('leaves restricted notes out of links, tags and property queries', () => {
+      const { server } = createServer({
+        files: ['Plan.md', 'Private/Diary.md', 'Clients/Acme.md', 'Archive/Old.md'],
+        caches: {
+          'Plan.md': { frontmatter: { status: 'open' }, tags: [{ tag: '#work' }] },
+          'Private/Diary.md': { frontmatter: { status: 'open' }, tags: [{ tag: '#secret' }] },
+          'Clients/Acme.md': { frontmatter: { status: 'open' } },
+          'Archive/Old.md': { frontmatter: { status: 'open' } },
+        },
+        resolvedLinks: {
+          'Plan.md': { 'Private/Diary.md': 1 },
+          'Private/Diary.md': { 'Plan.md': 1 },
+          'Archive/Old.md': { 'Plan.md': 1 },
+        },
+      });
+
+      expect(server.getBacklinks('Plan')).toBe('Notes linking to Plan.md (1):\n- Archive/Old.md');
+      expect(server.getOutgoingLinks('Plan')).not.toContain('Diary');
+      expect(server.listTags()).not.toContain('secret');
+      const matches = server.queryFrontmatter({ key: 'status' });
+      expect(matches).toContain('Plan.md');
+      expect(matches).toContain('Archive/Old.md');
+      expect(matches).not.toContain('Private');
+      expect(matches).not.toContain('Clients');
+    });
+
+    it('refuses to rename notes out of or into policy folders', async () => {
+      const { app, server } = createServer({ files: ['Archive/Old.md', 'Plan.md'] });
+
+      await expect(server.renameNote('Archive/Old.md', 'Old.md')).rejects.toThrow('read-only');
+      await expect(server.renameNote('Plan.md', 'Private/Plan.md')).rejects.toThrow('Cannot move notes');
+      expect(app.fileManager.renameFile).not.toHaveBeenCalled();
+    });
+
+    it('refuses renames that would rewrite links in protected notes', async () => {
+      const { app, server } = createServer({
+        files: ['Plan.md', 'Private/Diary.md'],
+        resolvedLinks: { 'Private/Diary.md': { 'Plan.md': 1 } },
+      });
+
+      await expect(server.renameNote('Plan.md', 'Plan v2.md')).rejects.toThrow('protected by a folder policy');
+      expect(app.fileManager.renameFile).not.toHaveBeenCalled();
+    });
+  });
+
+  it('returns tool errors instead of throwing', async () => {
+    const { app } = createApp();
+    const config = new ObsidianToolsServer(app).getConfig() as any;
+    const backlinksTool = config.instance.tools.find((t: any) => t.name === 'get_backlinks');
+
+    const result = await backlinksTool.handler({ path: 'Missing' }, {});
+
+    expect(config.name).toBe('claudian-obsidian');
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Note not found: Missing' }], isError: true });
+  });
+
+  it('masks secrets in tool results', async () => {
+    const { app } = createApp({
+      files: ['a.md'],
+      caches: { 'a.md': { frontmatter: { owner: 'jane@example.com' } } },
+    });
+    const redactor = new Redactor(() => [BUILT_IN_REDACTION_RULES.emails]);
+    const config = new ObsidianToolsServer(app, () => [], text => redactor.redact(text).text).getConfig() as any;
+    const queryTool = config.instance.tools.find((t: any) => t.name === 'query_frontmatter');
+
+    const result = await queryTool.handler({ key: 'owner' }, {});
+
+    expect(result.content[0].text).toBe(
+      `Notes with frontmatter owner (1):\n- a.md: "${redactor.redact('jane@example.com').text}"`
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { formatSearchResults, VAULT_SEARCH_TOOL_ID, VaultSearchServer } from '@/core/mcp';
+import { BUILT_IN_REDACTION_RULES, Redactor } from '@/core/redaction';
+
+function createSource(notes: Record<string, string>) {
+  return {
+    notes,
+    listNotes: jest.fn(() => Object.keys(notes)),
+    readNote: jest.fn(async (path: string) => {
+      if (!(path in notes)) throw new Error(`Missing ${path}`);
+      return notes[path];
+    }),
+  };
+}
+
+describe('VaultSearchServer', () => {
+  it('builds the index lazily on the first search', async () => {
+    const source = createSource({ 'budget.md': 'Quarterly budget review' });
+    const server = new VaultSearchServer(source);
+
+    expect(source.listNotes).not.toHaveBeenCalled();
+
+    const results = await server.search('budget');
+
+    expect(source.listNotes).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      { path: 'budget.md', score: expect.any(Number), snippet: 'Quarterly budget review' },
+    ]);
+  });
+
+  it('re-reads changed notes before the next search', async () => {
+    const source = createSource({ 'a.md': 'gardening' });
+    const server = new VaultSearchServer(source);
+    await server.search('gardening');
+
+    source.notes['a.md'] = 'budget';
+    source.notes['b.md'] = 'budget too';
+    server.markChanged('a.md');
+    server.markChanged('b.md');
+    server.markChanged('image.png');
+
+    const results = await server.search('budget');
+
+    expect(results.map(r => r.path).sort()).toEqual(['a.md', 'b.md']);
+    expect(source.listNotes).toHaveBeenCalledTimes(1);
+    expect(source.readNote).not.toHaveBeenCalledWith('image.png');
+  });
+
+  it('ignores changes before the index is built', () => {
+    const source = createSource({ 'a.md': 'text' });
+    const server = new VaultSearchServer(source);
+
+    server.markChanged('a.md');
+
+    expect(source.readNote).not.toHaveBeenCalled();
+  });
+
+  it('handles deletes and renames', async () => {
+    const source = createSource({ 'old.md': 'budget', 'gone.md': 'budget' });
+    const server = new VaultSearchServer(source);
+    await server.search('budget');
+
+    delete source.notes['gone.md'];
+    server.markDeleted('gone.md');
+    source.notes['new.md'] = source.notes['old.md'];
+    delete source.notes['old.md'];
+    server.markRenamed('old.md', 'new.md');
+
+    const results = await server.search('budget');
+
+    expect(results.map(r => r.path)).toEqual(['new.md']);
+  });
+
+  it('rebuilds after reset', async () => {
+    const source = createSource({ 'a.md': 'budget' });
+    const server = new VaultSearchServer(source);
+    await server.search('budget');
+
+    server.reset();
+    await server.search('budget');
+
+    expect(source.listNotes).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves out notes the source excludes', async () => {
+    const source = {
+      ...createSource({ 'Private/budget.md': 'budget', 'budget.md': 'budget' }),
+      isExcluded: (path: string) => path.startsWith('Private/'),
+    };
+
+    const results = await new VaultSearchServer(source).search('budget');
+
+    expect(results.map(r => r.path)).toEqual(['budget.md']);
+  });
+
+  it('masks secrets in snippets', async () => {
+    const redactor = new Redactor(() => [BUILT_IN_REDACTION_RULES.emails]);
+    const source = {
+      ...createSource({ 'budget.md': 'Budget owner jane@example.com' }),
+      redact: (text: string) => redactor.redact(text).text,
+    };
+
+    const results = await new VaultSearchServer(source).search('budget owner');
+
+    expect(results[0].snippet).toBe(`Budget owner ${redactor.redact('jane@example.com').text}`);
+    expect(formatSearchResults('budget owner', results)).not.toContain('jane@example.com');
+  });
+
+  it('exposes the search tool through the SDK server config', async () => {
+    const server = new VaultSearchServer(createSource({ 'Work/budget.md': 'budget', 'Home/budget.md': 'budget' }));
+    const config = server.getConfig() as any;
+
+    expect(config.type).toBe('sdk');
+    expect(config.name).toBe('claudian-vault');
+    expect(server.getConfig()).toBe(config);
+    expect(VAULT_SEARCH_TOOL_ID).toBe('mcp__claudian-vault__search_notes');
+
+    const searchTool = config.instance.tools[0];
+    expect(searchTool.name).toBe('search_notes');
+
+    const result = await searchTool.handler({ query: 'budget', folder: 'Work' }, {});
+    expect(result.content[0].text).toContain('1. Work/budget.md');
+    expect(result.content[0].text).not.toContain('Home/budget.md');
+  });
+});
+
+describe('formatSearchResults', () => {
+  it('numbers results with scores and snippets', () => {
+    const text = formatSearchResults('budget', [
+      { path: 'a.md', score: 2.5, snippet: 'The budget' },
+      { path: 'b.md', score: 1, snippet: '' },
+    ]);
+
+    expect(text).toBe('1. a.md (score 2.50)\n   The budget\n2. b.md (score 1.00)');
+  });
+
+  it('reports when nothing matches', () => {
+    expect(formatSearchResults('budget', [])).toBe('No notes found for "budget".');
+  });
+});
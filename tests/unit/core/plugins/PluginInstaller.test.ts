@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('os', () => {
+  const actualOs = jest.requireActual('os');
+  const actualFs = jest.requireActual('fs');
+  const actualPath = jest.requireActual('path');
+  const home = actualFs.mkdtempSync(actualPath.join(actualOs.tmpdir(), 'claudian-installer-home-'));
+  return { ...actualOs, homedir: () => home };
+});
+
+import { PluginInstaller } from '@/core/plugins/PluginInstaller';
+import type { MarketplacePlugin, PluginMarketplace } from '@/core/types';
+
+function readJson(filePath: string): any {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function createMockCCSettingsStorage() {
+  return {
+    setPluginEnabled: jest.fn().mockResolvedValue(undefined),
+    removePluginEnabled: jest.fn().mockResolvedValue(undefined),
+  } as any;
+}
+
+describe('PluginInstaller', () => {
+  const home = os.homedir();
+  const pluginsDir = path.join(home, '.claude', 'plugins');
+  const installedPath = path.join(pluginsDir, 'installed_plugins.json');
+  const globalSettingsPath = path.join(home, '.claude', 'settings.json');
+  let vaultPath: string;
+  let marketRoot: string;
+  let marketplace: PluginMarketplace;
+  let plugin: MarketplacePlugin;
+
+  beforeEach(() => {
+    vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-installer-vault-'));
+    marketRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-installer-market-'));
+    fs.mkdirSync(path.join(marketRoot, 'fmt', 'commands'), { recursive: true });
+    fs.writeFileSync(path.join(marketRoot, 'fmt', 'commands', 'format.md'), '# Format');
+    fs.mkdirSync(path.join(marketRoot, 'fmt', '.git'));
+
+    marketplace = {
+      name: 'team',
+      source: { source: 'directory', path: marketRoot },
+      root: marketRoot,
+      plugins: [],
+    };
+    plugin = {
+      name: 'fmt',
+      id: 'fmt@team',
+      version: '1.0.0',
+      source: './fmt',
+      localPath: path.join(marketRoot, 'fmt'),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(home, '.claude'), { recursive: true, force: true });
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+    fs.rmSync(marketRoot, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('copies a local plugin into the cache and enables it for the user', async () => {
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), jest.fn());
+
+    const entry = await installer.install(marketplace, plugin, 'user');
+
+    const expectedPath = path.join(pluginsDir, 'cache', 'team', 'fmt', '1.0.0');
+    expect(entry).toMatchObject({ scope: 'user', installPath: expectedPath, version: '1.0.0' });
+    expect(fs.existsSync(path.join(expectedPath, 'commands', 'format.md'))).toBe(true);
+    expect(fs.existsSync(path.join(expectedPath, '.git'))).toBe(false);
+    expect(readJson(installedPath)).toEqual({ version: 2, plugins: { 'fmt@team': [entry] } });
+    expect(readJson(globalSettingsPath).enabledPlugins).toEqual({ 'fmt@team': true });
+    expect(installer.getInstalledEntries('fmt@team')).toEqual({ user: entry });
+  });
+
+  it('records project installs against the vault and enables them in project settings', async () => {
+    const ccSettings = createMockCCSettingsStorage();
+    const installer = new PluginInstaller(vaultPath, ccSettings, jest.fn());
+
+    const entry = await installer.install(marketplace, plugin, 'project');
+
+    expect(entry.projectPath).toBe(vaultPath);
+    expect(ccSettings.setPluginEnabled).toHaveBeenCalledWith('fmt@team', true);
+    expect(fs.existsSync(globalSettingsPath)).toBe(false);
+    expect(new PluginInstaller('/other/vault', ccSettings).getInstalledEntries('fmt@team')).toEqual({});
+  });
+
+  it('replaces the previous version on update and removes its files', async () => {
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), jest.fn());
+    const first = await installer.install(marketplace, plugin, 'user');
+
+    const second = await installer.install(marketplace, { ...plugin, version: '1.1.0' }, 'user');
+
+    expect(second.installedAt).toBe(first.installedAt);
+    expect(readJson(installedPath).plugins['fmt@team']).toEqual([second]);
+    expect(fs.existsSync(first.installPath)).toBe(false);
+    expect(fs.existsSync(second.installPath)).toBe(true);
+  });
+
+  it('keeps files still used by another scope on uninstall', async () => {
+    const ccSettings = createMockCCSettingsStorage();
+    const installer = new PluginInstaller(vaultPath, ccSettings, jest.fn());
+    await installer.install(marketplace, plugin, 'user');
+    const projectEntry = await installer.install(marketplace, plugin, 'project');
+
+    await installer.uninstall('fmt@team', 'project');
+
+    expect(ccSettings.removePluginEnabled).toHaveBeenCalledWith('fmt@team');
+    expect(Object.keys(installer.getInstalledEntries('fmt@team'))).toEqual(['user']);
+    expect(fs.existsSync(projectEntry.installPath)).toBe(true);
+
+    await installer.uninstall('fmt@team', 'user');
+
+    expect(readJson(installedPath).plugins).toEqual({});
+    expect(readJson(globalSettingsPath).enabledPlugins).toEqual({});
+    expect(fs.existsSync(projectEntry.installPath)).toBe(false);
+  });
+
+  it('clones remote plugin sources with git', async () => {
+    const git = jest.fn(async (args: string[]) => {
+      if (args[0] === 'clone') {
+        fs.mkdirSync(args[args.length - 1], { recursive: true });
+        return '';
+      }
+      return 'abc123';
+    });
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), git);
+    const remote: MarketplacePlugin = {
+      ...plugin,
+      version: undefined,
+      source: { source: 'github', repo: 'org/fmt', ref: 'v2' },
+      localPath: null,
+    };
+
+    const entry = await installer.install(marketplace, remote, 'user');
+
+    expect(git).toHaveBeenCalledWith([
+      'clone', '--depth', '1', '--branch', 'v2', 'https://github.com/org/fmt.git', entry.installPath,
+    ]);
+    expect(entry).toMatchObject({ version: 'unknown', gitCommitSha: 'abc123' });
+  });
+
+  it('clones a git marketplace and registers its checkout', async () => {
+    const git = jest.fn().mockResolvedValue('');
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), git);
+    const remoteMarketplace: PluginMarketplace = {
+      name: 'official',
+      source: { source: 'git', url: 'https://example.com/m.git' },
+      root: null,
+      plugins: [],
+    };
+
+    const dest = await installer.cloneMarketplace(remoteMarketplace);
+
+    expect(dest).toBe(path.join(pluginsDir, 'marketplaces', 'official'));
+    expect(git).toHaveBeenCalledWith(['clone', '--depth', '1', 'https://example.com/m.git', dest]);
+    expect(readJson(path.join(pluginsDir, 'known_marketplaces.json')).official).toMatchObject({
+      source: remoteMarketplace.source,
+      installLocation: dest,
+    });
+
+    await installer.updateMarketplace({ ...remoteMarketplace, root: dest });
+    expect(git).toHaveBeenLastCalledWith(['pull', '--ff-only'], dest);
+  });
+
+  it('rejects "." and ".." names before deleting anything', async () => {
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), jest.fn());
+    const outsideCache = path.join(pluginsDir, 'keep.txt');
+    fs.mkdirSync(pluginsDir, { recursive: true });
+    fs.writeFileSync(outsideCache, 'keep');
+
+    await expect(installer.install(marketplace, { ...plugin, name: '..', version: '..' }, 'user'))
+      .rejects.toThrow('Invalid name ".."');
+    await expect(installer.install({ ...marketplace, name: '..' }, plugin, 'user'))
+      .rejects.toThrow('Invalid name ".."');
+    await expect(installer.cloneMarketplace({
+      name: '.',
+      source: { source: 'git', url: 'https://example.com/m.git' },
+      root: null,
+      plugins: [],
+    })).rejects.toThrow('Invalid name "."');
+    expect(fs.existsSync(outsideCache)).toBe(true);
+  });
+
+  it('rejects plugin directories outside the marketplace', async () => {
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), jest.fn());
+
+    await expect(installer.install(marketplace, { ...plugin, localPath: vaultPath }, 'user'))
+      .rejects.toThrow('Plugin directory is outside the marketplace');
+    expect(fs.existsSync(path.join(pluginsDir, 'cache'))).toBe(false);
+  });
+
+  it('rejects cloning a directory marketplace', async () => {
+    const installer = new PluginInstaller(vaultPath, createMockCCSettingsStorage(), jest.fn());
+
+    await expect(installer.cloneMarketplace(marketplace)).rejects.toThrow('is a local directory');
+  });
+});
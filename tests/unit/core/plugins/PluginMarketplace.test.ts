@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('os', () => {
+  const actualOs = jest.requireActual('os');
+  const actualFs = jest.requireActual('fs');
+  const actualPath = jest.requireActual('path');
+  const home = actualFs.mkdtempSync(actualPath.join(actualOs.tmpdir(), 'claudian-marketplace-home-'));
+  return { ...actualOs, homedir: () => home };
+});
+
+import {
+  describeSource,
+  discoverMarketplaces,
+  getSourceCloneUrl,
+  readMarketplaceManifest,
+  readPluginContents,
+} from '@/core/plugins/PluginMarketplace';
+
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+function writeFile(filePath: string, content = ''): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe('PluginMarketplace', () => {
+  const home = os.homedir();
+  let vaultPath: string;
+  let marketRoot: string;
+
+  beforeEach(() => {
+    vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-marketplace-vault-'));
+    marketRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-marketplace-root-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(home, '.claude'), { recursive: true, force: true });
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+    fs.rmSync(marketRoot, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('readMarketplaceManifest', () => {
+    it('parses plugins with relative and remote sources', () => {
+      writeJson(path.join(marketRoot, '.claude-plugin', 'marketplace.json'), {
+        name: 'team',
+        plugins: [
+          { name: 'zeta', source: './plugins/zeta', version: '1.2.0', author: { name: 'Ada' } },
+          { name: 'alpha', source: { source: 'github', repo: 'org/alpha' }, description: 'Alpha tools' },
+          { name: 'broken', source: { source: 'ftp' } },
+          { source: './nameless' },
+        ],
+      });
+
+      const plugins = readMarketplaceManifest(marketRoot, 'team');
+
+      expect(plugins).toEqual([
+        {
+          name: 'alpha',
+          id: 'alpha@team',
+          description: 'Alpha tools',
+          version: undefined,
+          author: undefined,
+          source: { source: 'github', repo: 'org/alpha' },
+          localPath: null,
+        },
+        {
+          name: 'zeta',
+          id: 'zeta@team',
+          description: undefined,
+          version: '1.2.0',
+          author: 'Ada',
+          source: './plugins/zeta',
+          localPath: path.join(marketRoot, 'plugins', 'zeta'),
+        },
+      ]);
+    });
+
+    it('throws when the manifest is missing', () => {
+      expect(() => readMarketplaceManifest(marketRoot, 'team')).toThrow('No .claude-plugin');
+    });
+  });
+
+  describe('discoverMarketplaces', () => {
+    it('combines the CLI registry with extraKnownMarketplaces from settings', () => {
+      writeJson(path.join(marketRoot, '.claude-plugin', 'marketplace.json'), {
+        plugins: [{ name: 'local-one', source: './local-one' }],
+      });
+      writeJson(path.join(home, '.claude', 'plugins', 'known_marketplaces.json'), {
+        official: { source: { source: 'github', repo: 'org/official' } },
+      });
+      writeJson(path.join(vaultPath, '.claude', 'settings.json'), {
+        extraKnownMarketplaces: {
+          local: { source: { source: 'directory', path: marketRoot } },
+          invalid: { source: { source: 'directory' } },
+        },
+      });
+
+      const marketplaces = discoverMarketplaces(vaultPath);
+
+      expect(marketplaces.map(m => m.name)).toEqual(['local', 'official']);
+      expect(marketplaces[0]).toMatchObject({ root: marketRoot, plugins: [{ id: 'local-one@local' }] });
+      expect(marketplaces[1]).toMatchObject({ root: null, plugins: [] });
+    });
+
+    it('uses the cloned checkout of a git marketplace', () => {
+      const checkout = path.join(home, '.claude', 'plugins', 'marketplaces', 'official');
+      writeJson(path.join(checkout, '.claude-plugin', 'marketplace.json'), {
+        plugins: [{ name: 'fmt', source: './fmt' }],
+      });
+      writeJson(path.join(home, '.claude', 'plugins', 'known_marketplaces.json'), {
+        official: { source: { source: 'git', url: 'https://example.com/m.git' } },
+      });
+
+      const [marketplace] = discoverMarketplaces(vaultPath);
+
+      expect(marketplace.root).toBe(checkout);
+      expect(marketplace.plugins[0].localPath).toBe(path.join(checkout, 'fmt'));
+    });
+
+    it('reports unreadable manifests as an error', () => {
+      writeFile(path.join(marketRoot, '.claude-plugin', 'marketplace.json'), '{"plugins": 3}');
+      writeJson(path.join(vaultPath, '.claude', 'settings.json'), {
+        extraKnownMarketplaces: { local: { source: { source: 'directory', path: marketRoot } } },
+      });
+
+      const [marketplace] = discoverMarketplaces(vaultPath);
+
+      expect(marketplace.error).toContain('has no plugins list');
+      expect(marketplace.plugins).toEqual([]);
+    });
+  });
+
+  describe('readPluginContents', () => {
+    it('lists commands, agents, skills, MCP servers and hooks', () => {
+      writeFile(path.join(marketRoot, 'commands', 'review.md'));
+      writeFile(path.join(marketRoot, 'commands', 'notes.txt'));
+      writeFile(path.join(marketRoot, 'agents', 'planner.md'));
+      writeFile(path.join(marketRoot, 'skills', 'pdf', 'SKILL.md'));
+      fs.mkdirSync(path.join(marketRoot, 'skills', 'empty'), { recursive: true });
+      writeJson(path.join(marketRoot, '.mcp.json'), { mcpServers: { search: {}, db: {} } });
+      writeJson(path.join(marketRoot, 'hooks', 'hooks.json'), {});
+
+      expect(readPluginContents(marketRoot)).toEqual({
+        commands: ['review'],
+        agents: ['planner'],
+        skills: ['pdf'],
+        mcpServers: ['db', 'search'],
+        hasHooks: true,
+      });
+    });
+
+    it('returns empty contents for a missing directory', () => {
+      expect(readPluginContents(path.join(marketRoot, 'missing'))).toEqual({
+        commands: [],
+        agents: [],
+        skills: [],
+        mcpServers: [],
+        hasHooks: false,
+      });
+    });
+  });
+
+  describe('source helpers', () => {
+    it('derives clone URLs and labels', () => {
+      expect(getSourceCloneUrl({ source: 'github', repo: 'org/repo' })).toBe('https://github.com/org/repo.git');
+      expect(getSourceCloneUrl({ source: 'url', url: 'https://x/y.git' })).toBe('https://x/y.git');
+      expect(getSourceCloneUrl({ source: 'directory', path: '/tmp/m' })).toBeNull();
+      expect(describeSource({ source: 'github', repo: 'org/repo' })).toBe('org/repo');
+      expect(describeSource('./plugins/a')).toBe('./plugins/a');
+    });
+  });
+});
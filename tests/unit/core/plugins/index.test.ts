@@ -1,8 +1,8 @@
-import { PluginManager } from '@/core/plugins';
+import { PluginInstaller, PluginManager } from '@/core/plugins';
 
 describe('core/plugins index', () => {
   it('re-exports runtime symbols', () => {
     expect(PluginManager).toBeDefined();
+    expect(PluginInstaller).toBeDefined();
   });
 });
-
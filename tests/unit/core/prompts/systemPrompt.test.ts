@@ -50,6 +50,30 @@ describe('systemPrompt', () => {
       expect(prompt).toContain('- ~/Desktop');
       expect(prompt).toContain('- /tmp');
     });
+
+    it('should list read-only and ask folders but never name hidden folders', () => {
+      const prompt = buildSystemPrompt({
+        folderPolicies: [
+          { folder: 'Journal', access: 'readonly' },
+          { folder: 'Clients', access: 'ask' },
+          { folder: 'Archive', access: 'hidden' },
+        ],
+      });
+      expect(prompt).toContain('## Folder Policies');
+      expect(prompt).toContain('- Journal/');
+      expect(prompt).toContain('- Clients/');
+      expect(prompt).not.toContain('Archive');
+    });
+
+    it('should not include folder policies when only hidden folders are configured', () => {
+      const prompt = buildSystemPrompt({ folderPolicies: [{ folder: 'Archive', access: 'hidden' }] });
+      expect(prompt).not.toContain('## Folder Policies');
+    });
+
+    it('should explain redaction placeholders only when redaction is enabled', () => {
+      expect(buildSystemPrompt({ redaction: true })).toContain('## Redacted Values');
+      expect(buildSystemPrompt({})).not.toContain('## Redacted Values');
+    });
   });
 
   describe('userName in system prompt', () => {
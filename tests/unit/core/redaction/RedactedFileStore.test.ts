@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { getRedactionRules, REDACTED_FILES_DIR, RedactedFileStore, Redactor } from '@/core/redaction';
+
+describe('RedactedFileStore', () => {
+  let vaultPath: string;
+  let redactor: Redactor;
+  let store: RedactedFileStore;
+
+  const writeNote = (name: string, content: string) => {
+    const filePath = path.join(vaultPath, name);
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  /** Placeholder the redactor uses for a value. */
+  const mask = (value: string) => redactor.redact(value).text;
+
+  beforeEach(() => {
+    vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-redacted-'));
+    redactor = new Redactor(() => getRedactionRules(['emails'], []));
+    store = new RedactedFileStore(redactor, () => vaultPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  describe('resolvePath', () => {
+    it('resolves vault-relative paths', () => {
+      expect(store.resolvePath('notes/a.md')).toBe(path.join(vaultPath, 'notes', 'a.md'));
+    });
+
+    it('returns null without a vault path or file path', () => {
+      expect(store.resolvePath('')).toBeNull();
+      expect(new RedactedFileStore(redactor, () => null).resolvePath('a.md')).toBeNull();
+    });
+  });
+
+  describe('prepareRead', () => {
+    it('writes a masked copy under .claude/redacted with the same file name', () => {
+      const original = writeNote('contact.md', 'Mail a@example.com\n');
+
+      const mirror = store.prepareRead(original);
+
+      expect(mirror).not.toBeNull();
+      expect(mirror!.startsWith(path.join(vaultPath, REDACTED_FILES_DIR))).toBe(true);
+      expect(path.basename(mirror!)).toBe('contact.md');
+      expect(fs.readFileSync(mirror!, 'utf-8')).toBe(`Mail ${mask('a@example.com')}\n`);
+      expect(fs.readFileSync(original, 'utf-8')).toBe('Mail a@example.com\n');
+    });
+
+    it('returns null when there is nothing to mask', () => {
+      const original = writeNote('plain.md', 'Nothing secret');
+
+      expect(store.prepareRead(original)).toBeNull();
+      expect(fs.existsSync(path.join(vaultPath, REDACTED_FILES_DIR))).toBe(false);
+    });
+
+    it('skips non-text formats and missing files', () => {
+      const image = writeNote('photo.png', 'a@example.com');
+
+      expect(store.prepareRead(image)).toBeNull();
+      expect(store.prepareRead(path.join(vaultPath, 'missing.md'))).toBeNull();
+    });
+
+    it('forgets the copy once the original no longer needs masking', () => {
+      const original = writeNote('contact.md', 'a@example.com');
+      const mirror = store.prepareRead(original)!;
+
+      fs.writeFileSync(original, 'removed', 'utf-8');
+
+      expect(store.prepareRead(original)).toBeNull();
+      expect(fs.existsSync(mirror)).toBe(false);
+      expect(store.getWriteTarget(original)).toBeNull();
+    });
+  });
+
+  describe('prepareSearch', () => {
+    it('masks files with secrets below the folder and skips the given folders', () => {
+      fs.mkdirSync(path.join(vaultPath, 'Notes', 'Private'), { recursive: true });
+      const contact = writeNote(path.join('Notes', 'contact.md'), 'a@example.com');
+      writeNote(path.join('Notes', 'plain.md'), 'Nothing secret');
+      writeNote(path.join('Notes', 'Private', 'diary.md'), 'b@example.com');
+
+      const masked = store.prepareSearch(path.join(vaultPath, 'Notes'), [path.join(vaultPath, 'Notes', 'Private')]);
+
+      expect(masked).toEqual([contact]);
+      expect(store.getWriteTarget(contact)).not.toBeNull();
+    });
+
+    it('does not search the masked copies again', () => {
+      const contact = writeNote('contact.md', 'a@example.com');
+      store.prepareRead(contact);
+
+      expect(store.prepareSearch(vaultPath)).toEqual([contact]);
+    });
+  });
+
+  describe('getWriteTarget', () => {
+    it('returns null for files that were never masked', () => {
+      expect(store.getWriteTarget(writeNote('plain.md', 'text'))).toBeNull();
+    });
+
+    it('refreshes the copy when the original changed since it was read', () => {
+      const original = writeNote('contact.md', 'a@example.com');
+      const mirror = store.prepareRead(original)!;
+
+      fs.writeFileSync(original, 'a@example.com and b@example.com', 'utf-8');
+
+      expect(store.getWriteTarget(original)).toBe(mirror);
+      expect(fs.readFileSync(mirror, 'utf-8')).toBe(`${mask('a@example.com')} and ${mask('b@example.com')}`);
+    });
+  });
+
+  describe('syncBack', () => {
+    it('writes the copy back to the original with values restored', () => {
+      const original = writeNote('contact.md', 'Mail a@example.com');
+      const mirror = store.prepareRead(original)!;
+
+      const written = `Write to ${mask('a@example.com')} soon`;
+      fs.writeFileSync(mirror, written, 'utf-8');
+      store.syncBack(mirror);
+
+      expect(fs.readFileSync(original, 'utf-8')).toBe('Write to a@example.com soon');
+      // The synced content is the new snapshot, so the copy is not refreshed
+      expect(store.getWriteTarget(original)).toBe(mirror);
+      expect(fs.readFileSync(mirror, 'utf-8')).toBe(written);
+    });
+
+    it('ignores unknown paths', () => {
+      expect(() => store.syncBack(path.join(vaultPath, 'unknown.md'))).not.toThrow();
+    });
+  });
+
+  describe('clear', () => {
+    it('deletes every masked copy', () => {
+      const original = writeNote('contact.md', 'a@example.com');
+      store.prepareRead(original);
+
+      store.clear();
+
+      expect(fs.existsSync(path.join(vaultPath, REDACTED_FILES_DIR))).toBe(false);
+      expect(store.getWriteTarget(original)).toBeNull();
+    });
+  });
+});
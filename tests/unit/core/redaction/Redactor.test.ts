@@ -0,0 +1,123 @@
+import type { RedactionRule, RedactionValueStore } from '@/core/redaction';
+import { BUILT_IN_REDACTION_RULES, formatRedactionSummary, getRedactionRules, Redactor } from '@/core/redaction';
+
+const EMAIL = BUILT_IN_REDACTION_RULES.emails;
+
+function memoryStore(key: string): RedactionValueStore {
+  const values = new Map<string, string>();
+  return {
+    getKey: () => key,
+    getValue: placeholder => values.get(placeholder),
+    setValue: (placeholder, value) => { values.set(placeholder, value); },
+  };
+}
+
+describe('Redactor', () => {
+  it('is disabled and returns text unchanged without rules', () => {
+    const redactor = new Redactor(() => []);
+
+    expect(redactor.isEnabled()).toBe(false);
+    expect(redactor.redact('mail a@example.com')).toEqual({ text: 'mail a@example.com', redactions: [] });
+  });
+
+  it('follows rule changes between calls', () => {
+    let rules: RedactionRule[] = [];
+    const redactor = new Redactor(() => rules);
+
+    expect(redactor.redact('a@example.com').text).toBe('a@example.com');
+    rules = [EMAIL];
+    expect(redactor.isEnabled()).toBe(true);
+    expect(redactor.redact('a@example.com').text).toMatch(/^\[REDACTED_EMAIL_[0-9a-f]{8}\]$/);
+  });
+
+  it('reuses the placeholder for repeated values', () => {
+    const redactor = new Redactor(() => [EMAIL]);
+
+    const first = redactor.redact('a@example.com, b@example.com, a@example.com');
+    const [a, b, again] = first.text.split(', ');
+    expect(a).toBe(again);
+    expect(a).not.toBe(b);
+    expect(first.redactions).toEqual([{ label: 'Email address', count: 3 }]);
+
+    // Stable across calls, so the agent can refer to the same value later
+    expect(redactor.redact('again b@example.com').text).toBe(`again ${b}`);
+  });
+
+  it('derives placeholders from the value and the store key', () => {
+    const first = new Redactor(() => [EMAIL], memoryStore('key-1'));
+    const second = new Redactor(() => [EMAIL], memoryStore('key-1'));
+    const other = new Redactor(() => [EMAIL], memoryStore('key-2'));
+
+    // Visiting values in a different order doesn't change their placeholders
+    const text = first.redact('a@example.com b@example.com').text;
+    expect(second.redact('b@example.com a@example.com').text.split(' ').reverse().join(' ')).toBe(text);
+    expect(other.redact('a@example.com b@example.com').text).not.toBe(text);
+  });
+
+  it('lengthens the placeholder when another value holds it', () => {
+    const store = memoryStore('key');
+    const placeholder = new Redactor(() => [EMAIL], memoryStore('key')).redact('a@example.com').text;
+    store.setValue(placeholder, 'b@example.com');
+
+    const text = new Redactor(() => [EMAIL], store).redact('a@example.com').text;
+    expect(text).toMatch(/^\[REDACTED_EMAIL_[0-9a-f]{16}\]$/);
+    expect(text.startsWith(placeholder.slice(0, -1))).toBe(true);
+  });
+
+  it('summarizes redactions in order of first appearance', () => {
+    const redactor = new Redactor(() => getRedactionRules(['emails', 'credit_cards'], []));
+
+    const { redactions } = redactor.redact('4111 1111 1111 1111 then a@example.com');
+    expect(redactions).toEqual([
+      { label: 'Card number', count: 1 },
+      { label: 'Email address', count: 1 },
+    ]);
+  });
+
+  it('masks only the first capture group of a custom pattern', () => {
+    const redactor = new Redactor(() => getRedactionRules([], [{ name: 'Client ID', pattern: 'client:(\\d{4})' }]));
+
+    expect(redactor.redact('see client:1234').text).toMatch(/^see client:\[REDACTED_CLIENT_ID_[0-9a-f]{8}\]$/);
+  });
+
+  it('prefers the earliest and then the longest overlapping match', () => {
+    const redactor = new Redactor(() => getRedactionRules([], [
+      { name: 'Short', pattern: 'abc' },
+      { name: 'Long', pattern: 'abcdef' },
+      { name: 'Later', pattern: 'def' },
+    ]));
+
+    expect(redactor.redact('xabcdefx').text).toMatch(/^x\[REDACTED_LONG_[0-9a-f]{8}\]x$/);
+  });
+
+  it('leaves existing placeholders alone', () => {
+    const redactor = new Redactor(() => getRedactionRules([], [{ name: 'Digits', pattern: '\\d+' }]));
+
+    expect(redactor.redact('[REDACTED_EMAIL_12] and 42').text)
+      .toMatch(/^\[REDACTED_EMAIL_12\] and \[REDACTED_DIGITS_[0-9a-f]{8}\]$/);
+  });
+
+  it('restores known placeholders and keeps unknown ones', () => {
+    const redactor = new Redactor(() => [EMAIL]);
+    const placeholder = redactor.redact('a@example.com').text;
+
+    expect(redactor.restore(`To: ${placeholder}, cc [REDACTED_EMAIL_9]`))
+      .toBe('To: a@example.com, cc [REDACTED_EMAIL_9]');
+  });
+
+  it('round-trips text through redact and restore', () => {
+    const redactor = new Redactor(() => getRedactionRules(['api_keys', 'emails'], []));
+    const text = `token=${'x'.repeat(20)} owner a@example.com`;
+
+    expect(redactor.restore(redactor.redact(text).text)).toBe(text);
+  });
+});
+
+describe('formatRedactionSummary', () => {
+  it('lists labels with counts above one', () => {
+    expect(formatRedactionSummary([
+      { label: 'API key', count: 2 },
+      { label: 'Email address', count: 1 },
+    ])).toBe('API key ×2, Email address');
+  });
+});
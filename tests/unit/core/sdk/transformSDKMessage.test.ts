@@ -861,6 +861,75 @@ describe('transformSDKMessage', () => {
     });
   });
 
+  describe('assistant message token accounting', () => {
+    it('yields billed tokens keyed by API message ID and model', () => {
+      const message: SDKMessage = {
+        type: 'assistant',
+        parent_tool_use_id: null,
+        message: {
+          id: 'msg_123',
+          model: 'claude-sonnet-4-5-20250929',
+          content: [{ type: 'text', text: 'Hello' }],
+          usage: {
+            input_tokens: 10,
+            output_tokens: 20,
+            cache_creation_input_tokens: 30,
+            cache_read_input_tokens: 40,
+          },
+        } as any,
+      };
+
+      const results = [...transformSDKMessage(message, { intendedModel: 'sonnet' })];
+
+      expect(results.filter(r => r.type === 'token_usage')).toEqual([{
+        type: 'token_usage',
+        messageId: 'msg_123',
+        model: 'claude-sonnet-4-5-20250929',
+        usage: {
+          inputTokens: 10,
+          outputTokens: 20,
+          cacheCreationInputTokens: 30,
+          cacheReadInputTokens: 40,
+        },
+      }]);
+    });
+
+    it('includes subagent messages', () => {
+      const message: SDKMessage = {
+        type: 'assistant',
+        parent_tool_use_id: 'subagent-task-123',
+        message: {
+          id: 'msg_sub',
+          model: 'claude-haiku-4-5',
+          content: [{ type: 'text', text: 'Subagent response' }],
+          usage: { input_tokens: 5000, output_tokens: 1000 },
+        } as any,
+      };
+
+      const results = [...transformSDKMessage(message)];
+
+      const tokenResults = results.filter(r => r.type === 'token_usage');
+      expect(tokenResults).toHaveLength(1);
+      expect(tokenResults[0]).toMatchObject({ messageId: 'msg_sub', model: 'claude-haiku-4-5' });
+    });
+
+    it('falls back to the message uuid and intended model', () => {
+      const message: SDKMessage = {
+        type: 'assistant',
+        uuid: 'uuid-1',
+        parent_tool_use_id: null,
+        message: {
+          content: [{ type: 'text', text: 'Hello' }],
+          usage: { input_tokens: 1 },
+        } as any,
+      };
+
+      const results = [...transformSDKMessage(message, { intendedModel: 'opus' })];
+
+      expect(results.find(r => r.type === 'token_usage')).toMatchObject({ messageId: 'uuid-1', model: 'opus' });
+    });
+  });
+
   describe('error messages', () => {
     it('yields error event with error content', () => {
       const message: SDKMessage = {
@@ -0,0 +1,107 @@
+import { parseBashCommands } from '@/core/security/BashCommandAnalyzer';
+
+function commandLines(command: string): string[] {
+  return parseBashCommands(command).map(c => [c.name, ...c.args].join(' '));
+}
+
+describe('parseBashCommands', () => {
+  it('splits pipelines and chains into simple commands', () => {
+    expect(commandLines('git status && npm test || echo fail; ls | wc -l & sleep 1')).toEqual([
+      'git status',
+      'npm test',
+      'echo fail',
+      'ls',
+      'wc -l',
+      'sleep 1',
+    ]);
+  });
+
+  it('removes quotes and escapes', () => {
+    expect(commandLines(`echo "a b" 'c d' e\\ f "\\$HOME"`)).toEqual(['echo a b c d e f $HOME']);
+    expect(commandLines("$'\\x72m' -rf x")).toEqual(['rm -rf x']);
+  });
+
+  it('keeps the source text of each command', () => {
+    const commands = parseBashCommands('cd src && rm -r -f build  # cleanup');
+
+    expect(commands.map(c => c.text)).toEqual(['cd src', 'rm -r -f build']);
+  });
+
+  it('descends into subshells, groups and substitutions', () => {
+    expect(commandLines('(cd /tmp && ls); { pwd; }; echo $(date) `whoami`; diff <(ls a) <(ls b)')).toEqual([
+      'cd /tmp',
+      'ls',
+      'pwd',
+      'date',
+      'whoami',
+      'echo $(date) `whoami`',
+      'ls a',
+      'ls b',
+      'diff',
+    ]);
+  });
+
+  it('resolves static command substitutions and variables', () => {
+    const commands = parseBashCommands('x=rm; $x -rf a; $(echo rm) -rf b; $UNKNOWN -rf c');
+
+    expect(commands.map(c => [c.name, c.nameDynamic])).toEqual([
+      ['rm', false],
+      ['echo', false],
+      ['rm', false],
+      ['$UNKNOWN', true],
+    ]);
+  });
+
+  it('strips command wrappers', () => {
+    expect(commandLines('sudo -u root env FOO=1 nice -n 5 /usr/bin/rm -rf x')).toEqual(['rm -rf x']);
+    expect(commandLines('timeout 10 xargs -n 1 rm -f')).toEqual(['rm -f']);
+    expect(commandLines('command -v rm')).toEqual([]);
+  });
+
+  it('parses scripts passed to shells and eval', () => {
+    expect(commandLines(`bash -c 'ls; rm -rf x'`)).toEqual(["bash -c ls; rm -rf x", 'ls', 'rm -rf x']);
+    expect(commandLines('eval rm -rf x')).toEqual(['eval rm -rf x', 'rm -rf x']);
+  });
+
+  it('parses scripts passed to cmd and PowerShell', () => {
+    expect(commandLines('cmd.exe /c "rd /s /q build"')).toEqual(['cmd.exe /c rd /s /q build', 'rd /s /q build']);
+    expect(commandLines("pwsh -NoProfile -Com 'Remove-Item -Recurse x'")).toEqual([
+      'pwsh -NoProfile -Com Remove-Item -Recurse x',
+      'Remove-Item -Recurse x',
+    ]);
+    const encoded = Buffer.from('Remove-Item -Force x', 'utf16le').toString('base64');
+    expect(commandLines(`powershell -enc ${encoded}`).slice(1)).toEqual(['Remove-Item -Force x']);
+    expect(commandLines('busybox sh -c "rm -rf x"').slice(1)).toEqual(['rm -rf x']);
+  });
+
+  it('parses find -exec commands', () => {
+    const commands = parseBashCommands('find . -type f -exec rm -f {} +');
+
+    expect(commands.map(c => [c.name, ...c.args].join(' '))).toEqual([
+      'find . -type f -exec rm -f {} +',
+      'rm -f {}',
+    ]);
+    expect(commands[1].via).toBe('find -exec');
+  });
+
+  it('expands aliases and functions defined in the command', () => {
+    const commands = parseBashCommands('alias del="rm -r"; del -f x; wipe() { rm "$@"; }; wipe -rf y');
+
+    expect(commands.filter(c => c.via).map(c => [c.via, [c.name, ...c.args].join(' ')])).toEqual([
+      ['alias del', 'rm -r -f x'],
+      ['function wipe', 'rm -rf y'],
+    ]);
+  });
+
+  it('ignores comments and heredoc bodies', () => {
+    expect(commandLines('# rm -rf /\ncat <<EOF > out.txt\nrm -rf /\nEOF\nls')).toEqual(['cat', 'ls']);
+  });
+
+  it('skips shell keywords', () => {
+    expect(commandLines('if true; then rm -f a; fi; for f in a b; do rm $f; done')).toEqual([
+      'true',
+      'rm -f a',
+      'rm $f',
+    ]);
+  });
+});
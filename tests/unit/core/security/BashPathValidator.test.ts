@@ -651,4 +651,48 @@ describe('BashPathValidator', () => {
       expect(result).toBeNull();
     });
   });
+  describe('folder policies', () => {
+    const decision = (action: 'deny' | 'ask', folder: string) => ({
+      action,
+      policy: { folder, access: action === 'ask' ? 'ask' as const : 'hidden' as const },
+      reason: `${action} ${folder}`,
+    });
+    const context = {
+      getPathAccessType: (): PathAccessType => 'vault',
+      checkFolderPolicy: jest.fn((filePath: string, access: 'read' | 'write') => {
+        if (filePath.startsWith('Archive/')) return decision('deny', 'Archive');
+        if (filePath.startsWith('Clients/')) return decision('ask', 'Clients');
+        if (filePath.startsWith('Journal/') && access === 'write') return decision('deny', 'Journal');
+        return null;
+      }),
+    };
+
+    it('passes the access kind to the folder policy check', () => {
+      expect(findBashCommandPathViolation('cat Journal/today.md', context)).toBeNull();
+      expect(findBashCommandPathViolation('echo hi > Journal/today.md', context)).toMatchObject({
+        type: 'folder_policy',
+        path: 'Journal/today.md',
+        decision: { action: 'deny' },
+      });
+    });
+
+    it('reports a denied path even after a path that needs approval', () => {
+      expect(findBashCommandPathViolation('cat Clients/a.md Archive/b.md', context)).toMatchObject({
+        path: 'Archive/b.md',
+        decision: { action: 'deny' },
+      });
+      expect(findBashCommandPathViolation('cat Clients/a.md && ls Archive/old', context)).toMatchObject({
+        path: 'Archive/old',
+      });
+    });
+
+    it('reports paths that need approval when nothing is denied', () => {
+      expect(findBashCommandPathViolation('cat Clients/a.md ./notes/b.md', context)).toMatchObject({
+        type: 'folder_policy',
+        path: 'Clients/a.md',
+        decision: { action: 'ask' },
+      });
+    });
+  });
 });
+
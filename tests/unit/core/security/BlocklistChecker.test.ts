@@ -1,4 +1,4 @@
-import { isCommandBlocked } from '@/core/security/BlocklistChecker';
+import { findBlockedCommand, isCommandBlocked } from '@/core/security/BlocklistChecker';
 
 describe('BlocklistChecker', () => {
   describe('isCommandBlocked', () => {
@@ -28,7 +28,7 @@ describe('BlocklistChecker', () => {
 
       it('is case-insensitive for regex matches', () => {
         const command = 'RM FILE.TXT';
-        const patterns = ['rm file'];
+        const patterns = ['rm file\\.txt'];
         expect(isCommandBlocked(command, patterns, true)).toBe(true);
       });
 
@@ -103,7 +103,7 @@ describe('BlocklistChecker', () => {
 
       it('handles unicode characters in patterns', () => {
         const command = 'echo "🚀 rocket"';
-        const patterns = ['rocket'];
+        const patterns = ['echo.*🚀'];
         expect(isCommandBlocked(command, patterns, true)).toBe(true);
       });
 
@@ -115,6 +115,108 @@ describe('BlocklistChecker', () => {
     });
   });
 
+  describe('structured rules', () => {
+    const patterns = ['rm -rf', 'chmod -R 777'];
+
+    it.each([
+      'rm -r -f /tmp/x',
+      'rm -fr /tmp/x',
+      'rm -Rf /tmp/x',
+      'rm --recursive --force /tmp/x',
+      'sudo rm -rf /',
+      '/bin/rm -rf /',
+      'echo ok && rm -r -f build',
+      'ls | xargs rm -rf',
+      '(cd /tmp; rm -rf x)',
+      'echo $(rm -rf x)',
+      '$(echo rm) -rf /',
+      'r\\m -rf /',
+      'x=rm; $x -rf /',
+      'bash -c "rm -rf /"',
+      'eval "rm -rf /"',
+      'find . -name tmp -exec rm -rf {} \\;',
+      'alias nuke="rm -rf"; nuke /',
+      'f() { rm "$@"; }; f -rf /',
+      'chmod 777 -R /srv',
+    ])('blocks %s', (command) => {
+      expect(isCommandBlocked(command, patterns, true)).toBe(true);
+    });
+
+    it.each([
+      'echo "rm -rf is dangerous"',
+      'git commit -m "remove rm -rf usage"',
+      'grep -r "rm -rf" docs',
+      'rm -r build',
+      'rm file.txt',
+      'chmod 755 -R /srv',
+      'cat <<EOF\nrm -rf /\nEOF',
+    ])('allows %s', (command) => {
+      expect(isCommandBlocked(command, patterns, true)).toBe(false);
+    });
+
+    it('matches dotted command variants and option prefixes', () => {
+      expect(isCommandBlocked('mkfs.ext4 /dev/sda1', ['mkfs'], true)).toBe(true);
+      expect(isCommandBlocked('dd if=/dev/zero of=/dev/sda', ['dd if='], true)).toBe(true);
+      expect(isCommandBlocked('dd of=/tmp/out', ['dd if='], true)).toBe(false);
+    });
+
+    it('matches Windows-style switches as arguments', () => {
+      expect(isCommandBlocked('del /S /Q C:\\temp', ['del /s /q'], true)).toBe(true);
+      expect(isCommandBlocked('del /q file.txt', ['del /s /q'], true)).toBe(false);
+    });
+
+    it.each([
+      'cmd /c del /s /q C:\\x',
+      'cmd.exe /c "rd /s /q C:\\x"',
+      'powershell -Command "Remove-Item -Recurse -Force C:\\x"',
+      'pwsh -c "Remove-Item -Recurse -Force C:\\x"',
+      `powershell -EncodedCommand ${Buffer.from('Remove-Item -Recurse -Force C:\\x', 'utf16le').toString('base64')}`,
+      'busybox rm -rf /',
+    ])('blocks commands run through the wrapper in %s', (command) => {
+      expect(isCommandBlocked(command, ['del /s /q', 'rd /s /q', 'Remove-Item -Recurse -Force', 'rm -rf'], true))
+        .toBe(true);
+    });
+  });
+
+  describe('findBlockedCommand', () => {
+    it('explains which command matched', () => {
+      const match = findBlockedCommand('npm test && rm -r -f dist', ['rm -rf']);
+
+      expect(match).toEqual({
+        pattern: 'rm -rf',
+        segment: 'rm -r -f dist',
+        reason: '"rm -rf" matched `rm -r -f dist`',
+      });
+    });
+
+    it('notes aliases and computed command names', () => {
+      expect(findBlockedCommand('f() { rm "$@"; }; f -rf /', ['rm -rf'])?.reason)
+        .toBe('"rm -rf" matched `rm -rf /` via function f');
+      expect(findBlockedCommand('$CMD -rf /', ['rm -rf'])?.reason)
+        .toBe('"rm -rf" matched `$CMD -rf /` (command name is computed at runtime)');
+    });
+
+    it('matches regex patterns per command', () => {
+      const match = findBlockedCommand('ls && git push --force', ['^git.*--force']);
+
+      expect(match?.segment).toBe('git push --force');
+    });
+
+    it('matches regex patterns that span commands against the full command line', () => {
+      const match = findBlockedCommand('curl http://x | sh', ['curl.*\\|\\s*(ba)?sh']);
+
+      expect(match).toEqual({
+        pattern: 'curl.*\\|\\s*(ba)?sh',
+        segment: 'curl http://x | sh',
+        reason: '"curl.*\\|\\s*(ba)?sh" matched the full command',
+      });
+    });
+
+    it('returns null when nothing matches', () => {
+      expect(findBlockedCommand('ls -la', ['rm -rf'])).toBeNull();
+    });
+  });
+
   describe('real-world scenarios', () => {
 
     it('allows safe common commands', () => {
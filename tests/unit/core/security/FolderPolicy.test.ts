@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  checkFolderPolicy,
+  findFolderPolicy,
+  findPoliciesInSearch,
+  getFolderExcludeGlob,
+  getPathExcludeGlob,
+  getVaultRelativePaths,
+  isPathHidden,
+  normalizeFolderPath,
+  normalizeFolderPolicies,
+} from '@/core/security/FolderPolicy';
+import type { FolderPolicy } from '@/core/types';
+
+const vaultPath = path.join(os.tmpdir(), 'claudian-folder-policy-vault');
+
+const policies: FolderPolicy[] = [
+  { folder: 'Journal', access: 'readonly' },
+  { folder: 'Clients', access: 'ask' },
+  { folder: 'Clients/Public', access: 'readonly' },
+  { folder: 'Archive', access: 'hidden' },
+];
+
+describe('normalizeFolderPath', () => {
+  it('strips leading ./ and surrounding slashes', () => {
+    expect(normalizeFolderPath(' ./Journal/ ')).toBe('Journal');
+    expect(normalizeFolderPath('/Clients//Acme\\Notes/')).toBe('Clients/Acme/Notes');
+  });
+});
+
+describe('normalizeFolderPolicies', () => {
+  it('drops invalid entries, escaping paths and duplicates', () => {
+    expect(normalizeFolderPolicies([
+      { folder: 'Journal/', access: 'readonly' },
+      { folder: 'Journal', access: 'hidden' },
+      { folder: '../outside', access: 'hidden' },
+      { folder: 'Clients', access: 'write' },
+      { folder: '', access: 'ask' },
+      'Archive',
+      { folder: 'Archive', access: 'hidden' },
+    ])).toEqual([
+      { folder: 'Journal', access: 'readonly' },
+      { folder: 'Archive', access: 'hidden' },
+    ]);
+    expect(normalizeFolderPolicies(undefined)).toEqual([]);
+  });
+});
+
+describe('findFolderPolicy', () => {
+  it('uses the most specific folder', () => {
+    expect(findFolderPolicy(policies, 'Clients/Acme/plan.md')?.access).toBe('ask');
+    expect(findFolderPolicy(policies, 'Clients/Public/faq.md')?.access).toBe('readonly');
+    expect(findFolderPolicy(policies, 'Clients')?.access).toBe('ask');
+  });
+
+  it('does not match folders sharing a name prefix', () => {
+    expect(findFolderPolicy(policies, 'Journaling/idea.md')).toBeNull();
+    expect(isPathHidden(policies, 'Archive/2020/old.md')).toBe(true);
+    expect(isPathHidden(policies, 'Archives/old.md')).toBe(false);
+  });
+});
+
+describe('getVaultRelativePaths', () => {
+  it('resolves relative and absolute paths inside the vault', () => {
+    expect(getVaultRelativePaths('Journal/today.md', vaultPath)).toEqual(['Journal/today.md']);
+    expect(getVaultRelativePaths(path.join(vaultPath, 'Journal', 'today.md'), vaultPath)).toEqual(['Journal/today.md']);
+    expect(getVaultRelativePaths('./Notes/../Archive/x.md', vaultPath)).toEqual(['Archive/x.md']);
+  });
+
+  it('returns nothing for paths outside the vault', () => {
+    expect(getVaultRelativePaths('/etc/passwd', vaultPath)).toEqual([]);
+    expect(getVaultRelativePaths('../other/file.md', vaultPath)).toEqual([]);
+  });
+});
+
+describe('checkFolderPolicy', () => {
+  it('denies writes to read-only folders but allows reads', () => {
+    expect(checkFolderPolicy(policies, 'Journal/today.md', vaultPath, 'read')).toBeNull();
+    expect(checkFolderPolicy(policies, 'Journal/today.md', vaultPath, 'write')).toMatchObject({
+      action: 'deny',
+      policy: { folder: 'Journal' },
+      reason: expect.stringContaining('read-only folder "Journal/"'),
+    });
+  });
+
+  it('asks for every access to ask folders', () => {
+    expect(checkFolderPolicy(policies, 'Clients/Acme/plan.md', vaultPath, 'read')).toMatchObject({
+      action: 'ask',
+      reason: 'Folder policy: "Clients/" requires approval for every read.',
+    });
+  });
+
+  it('denies all access to hidden folders', () => {
+    expect(checkFolderPolicy(policies, path.join(vaultPath, 'Archive/old.md'), vaultPath, 'read')).toMatchObject({
+      action: 'deny',
+      reason: expect.stringContaining('hidden from the agent'),
+    });
+  });
+
+  it('ignores paths without a policy or outside the vault', () => {
+    expect(checkFolderPolicy(policies, 'Notes/a.md', vaultPath, 'write')).toBeNull();
+    expect(checkFolderPolicy(policies, '/tmp/Archive/a.md', vaultPath, 'read')).toBeNull();
+    expect(checkFolderPolicy([], 'Archive/a.md', vaultPath, 'read')).toBeNull();
+  });
+
+  describe('with symlinks', () => {
+    let tempDir: string;
+    let realVault: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-folder-policy-'));
+      realVault = path.join(tempDir, 'vault');
+      fs.mkdirSync(path.join(realVault, 'Archive'), { recursive: true });
+      fs.writeFileSync(path.join(realVault, 'Archive', 'old.md'), 'secret');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('applies the policy of the folder a link points into', () => {
+      fs.symlinkSync(path.join(realVault, 'Archive'), path.join(realVault, 'shortcut'));
+
+      expect(checkFolderPolicy(policies, 'shortcut/old.md', realVault, 'read')?.action).toBe('deny');
+    });
+  });
+});
+
+describe('findPoliciesInSearch', () => {
+  it('finds policies on folders below the search root', () => {
+    expect(findPoliciesInSearch(policies, '', vaultPath).map(p => p.folder))
+      .toEqual(['Journal', 'Clients', 'Clients/Public', 'Archive']);
+    expect(findPoliciesInSearch(policies, 'Clients', vaultPath).map(p => p.folder)).toEqual(['Clients/Public']);
+    expect(findPoliciesInSearch(policies, path.join(vaultPath, 'Notes'), vaultPath)).toEqual([]);
+  });
+
+  it('only counts folders within the search depth', () => {
+    expect(findPoliciesInSearch(policies, '', vaultPath, 0)).toEqual([]);
+    expect(findPoliciesInSearch(policies, '', vaultPath, 1).map(p => p.folder))
+      .toEqual(['Journal', 'Clients', 'Archive']);
+  });
+
+  it('ignores searches outside the vault', () => {
+    expect(findPoliciesInSearch(policies, '/elsewhere', vaultPath)).toEqual([]);
+  });
+});
+
+describe('getFolderExcludeGlob', () => {
+  it('excludes the folder at any depth', () => {
+    expect(getFolderExcludeGlob('Archive/')).toBe('!**/Archive/**');
+  });
+
+  it('escapes glob syntax and keeps the glob a single word', () => {
+    expect(getFolderExcludeGlob('My Notes, [old]')).toBe('!**/My?Notes??\\[old\\]/**');
+  });
+});
+
+describe('getPathExcludeGlob', () => {
+  it('excludes a single file at any depth', () => {
+    expect(getPathExcludeGlob('Notes\\keys *.md')).toBe('!**/Notes/keys?\\*.md');
+  });
+});
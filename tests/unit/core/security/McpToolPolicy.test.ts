@@ -0,0 +1,79 @@
+import {
+  getMcpToolFullName,
+  getMcpToolPolicies,
+  getMcpToolPolicy,
+  setMcpToolPolicy,
+} from '@/core/security/McpToolPolicy';
+import type { CCPermissions, PermissionRule } from '@/core/types';
+
+const rules = (...values: string[]) => values as PermissionRule[];
+
+describe('McpToolPolicy', () => {
+  it('builds full tool names', () => {
+    expect(getMcpToolFullName('github', 'create_issue')).toBe('mcp__github__create_issue');
+  });
+
+  describe('getMcpToolPolicy', () => {
+    it('matches exact and server-wide rules', () => {
+      const permissions: CCPermissions = {
+        allow: rules('mcp__github__list_issues', 'mcp__docs'),
+        ask: rules('mcp__github__*'),
+      };
+
+      expect(getMcpToolPolicy(permissions, 'mcp__docs__search')).toBe('allow');
+      expect(getMcpToolPolicy(permissions, 'mcp__github__create_issue')).toBe('ask');
+      expect(getMcpToolPolicy(permissions, 'mcp__other__tool')).toBeNull();
+      expect(getMcpToolPolicy(permissions, 'Bash')).toBeNull();
+    });
+
+    it('prefers deny over ask over allow', () => {
+      const permissions: CCPermissions = {
+        allow: rules('mcp__github__delete_repo'),
+        ask: rules('mcp__github__delete_repo'),
+        deny: rules('mcp__github'),
+      };
+
+      expect(getMcpToolPolicy(permissions, 'mcp__github__delete_repo')).toBe('deny');
+    });
+
+    it('does not treat a tool rule as a server rule', () => {
+      expect(getMcpToolPolicy({ deny: rules('mcp__github__list') }, 'mcp__github__list_issues')).toBeNull();
+    });
+  });
+
+  it('lists per-tool policies of one server', () => {
+    const permissions: CCPermissions = {
+      allow: rules('mcp__github__list_issues', 'mcp__github__*', 'mcp__gitlab__list_issues', 'Read'),
+      ask: rules('mcp__github__create_issue'),
+      deny: rules('mcp__github__delete_repo'),
+    };
+
+    expect(getMcpToolPolicies(permissions, 'github')).toEqual({
+      list_issues: 'allow',
+      create_issue: 'ask',
+      delete_repo: 'deny',
+    });
+  });
+
+  describe('setMcpToolPolicy', () => {
+    const permissions: CCPermissions = {
+      allow: rules('Read', 'mcp__github__create_issue'),
+      deny: rules('Bash(rm *)'),
+      defaultMode: 'default',
+    };
+
+    it('moves the tool rule to the chosen list and keeps other rules', () => {
+      expect(setMcpToolPolicy(permissions, 'mcp__github__create_issue', 'ask')).toEqual({
+        allow: rules('Read'),
+        deny: rules('Bash(rm *)'),
+        ask: rules('mcp__github__create_issue'),
+        defaultMode: 'default',
+      });
+      expect(permissions.allow).toContain('mcp__github__create_issue');
+    });
+
+    it('removes the rule for the default policy', () => {
+      expect(setMcpToolPolicy(permissions, 'mcp__github__create_issue', null).allow).toEqual(rules('Read'));
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  collectPermissionRules,
+  findStalePermissionRules,
+  isValidPermissionRule,
+  type PermissionRuleEntry,
+  testPermissionRules,
+  toolInputFromText,
+} from '@/core/security/PermissionRules';
+import type { CCPermissions } from '@/core/types';
+import { createPermissionRule } from '@/core/types';
+
+function permissions(lists: { allow?: string[]; ask?: string[]; deny?: string[] }): CCPermissions {
+  return {
+    allow: (lists.allow ?? []).map(createPermissionRule),
+    ask: (lists.ask ?? []).map(createPermissionRule),
+    deny: (lists.deny ?? []).map(createPermissionRule),
+  };
+}
+
+function label(entry: PermissionRuleEntry | null): string | null {
+  return entry ? `${entry.behavior}:${entry.source}:${entry.rule}` : null;
+}
+
+describe('PermissionRules', () => {
+  describe('collectPermissionRules', () => {
+    it('lists vault rules before user rules in precedence order with list positions', () => {
+      const entries = collectPermissionRules({
+        user: permissions({ allow: ['Read'] }),
+        vault: permissions({ allow: ['Bash(git *)', 'Glob'], deny: ['Bash(rm *)'] }),
+      });
+
+      expect(entries).toEqual([
+        { rule: 'Bash(rm *)', behavior: 'deny', source: 'vault', index: 0 },
+        { rule: 'Bash(git *)', behavior: 'allow', source: 'vault', index: 0 },
+        { rule: 'Glob', behavior: 'allow', source: 'vault', index: 1 },
+        { rule: 'Read', behavior: 'allow', source: 'user', index: 0 },
+      ]);
+    });
+  });
+
+  describe('isValidPermissionRule', () => {
+    it('accepts tool rules and MCP server wildcards', () => {
+      expect(isValidPermissionRule('Bash')).toBe(true);
+      expect(isValidPermissionRule('Bash(npm run:*)')).toBe(true);
+      expect(isValidPermissionRule('mcp__github__create_issue')).toBe(true);
+      expect(isValidPermissionRule('mcp__github__*')).toBe(true);
+      expect(isValidPermissionRule('Bash(')).toBe(false);
+      expect(isValidPermissionRule('')).toBe(false);
+    });
+
+    it('accepts MCP servers with hyphens and dots in their names', () => {
+      expect(isValidPermissionRule('mcp__my-server__delete_file')).toBe(true);
+      expect(isValidPermissionRule('mcp__claude-in-chrome__navigate')).toBe(true);
+      expect(isValidPermissionRule('mcp__my.server__*')).toBe(true);
+      expect(isValidPermissionRule('mcp__my-server__*')).toBe(true);
+    });
+  });
+
+  describe('testPermissionRules', () => {
+    const entries = collectPermissionRules({
+      vault: permissions({
+        allow: ['Bash(git *)', 'Read(/vault/notes)', 'mcp__github'],
+        ask: ['Bash(git push:*)'],
+      }),
+      user: permissions({ deny: ['Bash(git push --force:*)'] }),
+    });
+
+    it('lets deny win over ask and ask over allow', () => {
+      const forcePush = testPermissionRules(entries, 'Bash', { command: 'git push --force origin' });
+      expect(label(forcePush.decision)).toBe('deny:user:Bash(git push --force:*)');
+      expect(forcePush.matches.map(label)).toEqual([
+        'deny:user:Bash(git push --force:*)',
+        'ask:vault:Bash(git push:*)',
+        'allow:vault:Bash(git *)',
+      ]);
+
+      expect(label(testPermissionRules(entries, 'Bash', { command: 'git push origin' }).decision))
+        .toBe('ask:vault:Bash(git push:*)');
+      expect(label(testPermissionRules(entries, 'Bash', { command: 'git status' }).decision))
+        .toBe('allow:vault:Bash(git *)');
+    });
+
+    it('uses path prefixes for file tools and server rules for MCP tools', () => {
+      expect(testPermissionRules(entries, 'Read', { file_path: '/vault/notes/a.md' }).decision?.rule)
+        .toBe('Read(/vault/notes)');
+      expect(testPermissionRules(entries, 'Read', { file_path: '/vault/notes-old/a.md' }).decision).toBeNull();
+      expect(testPermissionRules(entries, 'mcp__github__list_issues', {}).decision?.rule).toBe('mcp__github');
+    });
+
+    it('reports the action pattern and no decision when nothing matches', () => {
+      const result = testPermissionRules(entries, 'Bash', { command: ' npm test ' });
+
+      expect(result).toEqual({ actionPattern: 'npm test', decision: null, matches: [] });
+    });
+  });
+
+  describe('toolInputFromText', () => {
+    it('parses JSON objects and otherwise fills the matched field', () => {
+      expect(toolInputFromText('Bash', '{"command":"ls"}')).toEqual({ command: 'ls' });
+      expect(toolInputFromText('Bash', 'git status')).toEqual({ command: 'git status' });
+      expect(toolInputFromText('Edit', 'notes/a.md')).toEqual({ file_path: 'notes/a.md' });
+      expect(toolInputFromText('Grep', 'TODO')).toEqual({ pattern: 'TODO' });
+      expect(toolInputFromText('WebFetch', '')).toEqual({});
+    });
+  });
+
+  describe('findStalePermissionRules', () => {
+    let vaultPath: string;
+
+    beforeEach(() => {
+      vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-rules-'));
+      fs.writeFileSync(path.join(vaultPath, 'kept.md'), '');
+    });
+
+    afterEach(() => {
+      fs.rmSync(vaultPath, { recursive: true, force: true });
+    });
+
+    it('finds invalid, duplicate, overridden and missing-path rules', () => {
+      const entries = collectPermissionRules({
+        vault: permissions({
+          allow: ['Bash(ls)', 'Bash(ls)', 'Bash(rm -rf build)', 'Read(kept.md)', 'Read(gone.md)', 'Read(*.md)', 'Bash('],
+          deny: ['Bash(rm -rf build)'],
+        }),
+        user: permissions({ allow: ['Bash(ls)'] }),
+      });
+
+      const stale = findStalePermissionRules(entries, vaultPath);
+
+      expect(stale.map(item => [label(item.entry), item.entry.index, item.reason])).toEqual([
+        ['allow:vault:Bash(ls)', 1, 'Duplicate of an earlier rule'],
+        ['allow:vault:Bash(rm -rf build)', 2, 'Overridden by the same deny rule'],
+        ['allow:vault:Read(gone.md)', 4, 'File no longer exists'],
+        ['allow:vault:Bash(', 6, 'Invalid rule syntax'],
+      ]);
+    });
+
+    it('resolves absolute and home-relative file rules', () => {
+      const entries = collectPermissionRules({
+        vault: permissions({
+          allow: [`Read(/${path.join(vaultPath, 'kept.md')})`, `Edit(${path.join(vaultPath, 'missing')})`],
+        }),
+      });
+
+      expect(findStalePermissionRules(entries, null).map(item => item.entry.rule))
+        .toEqual([`Edit(${path.join(vaultPath, 'missing')})`]);
+    });
+
+    it('keeps deny and ask rules for missing files', () => {
+      const entries = collectPermissionRules({
+        vault: permissions({ deny: ['Read(.env)'], ask: ['Edit(secrets.md)'] }),
+      });
+
+      expect(findStalePermissionRules(entries, vaultPath)).toEqual([]);
+    });
+
+    it('keeps rules for MCP servers with hyphenated names', () => {
+      const entries = collectPermissionRules({
+        vault: permissions({
+          allow: ['mcp__my-server__read_file', 'mcp__my-server__*'],
+          deny: ['mcp__my-server__delete_file'],
+        }),
+      });
+
+      expect(findStalePermissionRules(entries, vaultPath)).toEqual([]);
+    });
+  });
+});
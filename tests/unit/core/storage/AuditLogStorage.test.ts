@@ -0,0 +1,73 @@
+import { AUDIT_LOG_PATH, AuditLogStorage } from '@/core/storage/AuditLogStorage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+import type { AuditEntry } from '@/core/types';
+
+describe('AuditLogStorage', () => {
+  let mockAdapter: jest.Mocked<VaultFileAdapter>;
+  let storage: AuditLogStorage;
+
+  const march = new Date(2026, 2, 15, 10, 0).getTime();
+  const april = new Date(2026, 3, 1, 9, 30).getTime();
+
+  beforeEach(() => {
+    mockAdapter = {
+      read: jest.fn(),
+      write: jest.fn().mockResolvedValue(undefined),
+      append: jest.fn().mockResolvedValue(undefined),
+      listFiles: jest.fn(),
+    } as unknown as jest.Mocked<VaultFileAdapter>;
+
+    storage = new AuditLogStorage(mockAdapter);
+  });
+
+  it('stores one file per month', () => {
+    expect(storage.getFilePath(march)).toBe(`${AUDIT_LOG_PATH}/2026-03.jsonl`);
+  });
+
+  it('appends entries as JSON lines to the file of their month', async () => {
+    const entries: AuditEntry[] = [
+      { kind: 'tool_use', timestamp: march, sessionId: 's1', toolUseId: 't1', toolName: 'Read', input: {} },
+      { kind: 'rewind', timestamp: april, sessionId: 's1', userMessageUuid: 'u1', filesChanged: [] },
+      { kind: 'tool_result', timestamp: april, sessionId: 's1', toolUseId: 't1', isError: false, content: 'ok' },
+    ];
+
+    await storage.append(entries);
+
+    expect(mockAdapter.append).toHaveBeenCalledTimes(2);
+    expect(mockAdapter.append).toHaveBeenCalledWith(
+      '.claude/audit/2026-03.jsonl',
+      JSON.stringify(entries[0]) + '\n'
+    );
+    expect(mockAdapter.append).toHaveBeenCalledWith(
+      '.claude/audit/2026-04.jsonl',
+      `${JSON.stringify(entries[1])}\n${JSON.stringify(entries[2])}\n`
+    );
+  });
+
+  it('loads entries from every log file in time order, skipping broken lines', async () => {
+    const first: AuditEntry = { kind: 'rewind', timestamp: march, sessionId: null, userMessageUuid: 'u1', filesChanged: [] };
+    const second: AuditEntry = { kind: 'rewind', timestamp: april, sessionId: null, userMessageUuid: 'u2', filesChanged: [] };
+    mockAdapter.listFiles.mockResolvedValue([
+      '.claude/audit/2026-04.jsonl',
+      '.claude/audit/export-2026-04-01-0930.csv',
+      '.claude/audit/2026-03.jsonl',
+    ]);
+    mockAdapter.read.mockImplementation(async (path: string) =>
+      path.endsWith('2026-03.jsonl')
+        ? `${JSON.stringify(first)}\n{"kind":"rew`
+        : `${JSON.stringify(second)}\n\n`
+    );
+
+    const entries = await storage.loadEntries();
+
+    expect(entries).toEqual([first, second]);
+    expect(mockAdapter.read).toHaveBeenCalledTimes(2);
+  });
+
+  it('writes exports next to the log', async () => {
+    const filePath = await storage.writeExport('export.csv', 'a,b\r\n');
+
+    expect(filePath).toBe('.claude/audit/export.csv');
+    expect(mockAdapter.write).toHaveBeenCalledWith('.claude/audit/export.csv', 'a,b\r\n');
+  });
+});
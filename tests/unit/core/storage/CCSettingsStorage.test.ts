@@ -386,6 +386,32 @@ describe('CCSettingsStorage', () => {
             expect(writtenContent.enabledPlugins['plugin-a']).toBe(false);
         });
 
+        it('should remove a plugin from enabledPlugins', async () => {
+            mockAdapter.exists.mockResolvedValue(true);
+            mockAdapter.read.mockResolvedValue(JSON.stringify({
+                permissions: { allow: [], deny: [], ask: [] },
+                enabledPlugins: { 'plugin-a': true, 'plugin-b': false }
+            }));
+
+            await storage.removePluginEnabled('plugin-a');
+
+            const writeCall = mockAdapter.write.mock.calls[0];
+            const writtenContent = JSON.parse(writeCall[1]);
+            expect(writtenContent.enabledPlugins).toEqual({ 'plugin-b': false });
+        });
+
+        it('should not write when removing an unknown plugin', async () => {
+            mockAdapter.exists.mockResolvedValue(true);
+            mockAdapter.read.mockResolvedValue(JSON.stringify({
+                permissions: { allow: [], deny: [], ask: [] },
+                enabledPlugins: { 'plugin-a': true }
+            }));
+
+            await storage.removePluginEnabled('plugin-b');
+
+            expect(mockAdapter.write).not.toHaveBeenCalled();
+        });
+
         it('should preserve enabledPlugins when saving other settings', async () => {
             mockAdapter.exists.mockResolvedValue(true);
             mockAdapter.read.mockResolvedValue(JSON.stringify({
@@ -2,9 +2,18 @@ import {
   CLAUDIAN_SETTINGS_PATH,
   ClaudianSettingsStorage,
   normalizeBlockedCommands,
+  normalizeModelPricing,
+  normalizeScheduledJobs,
 } from '@/core/storage/ClaudianSettingsStorage';
 import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
-import { DEFAULT_SETTINGS, getDefaultBlockedCommands } from '@/core/types';
+import {
+  DEFAULT_JOB_OUTPUT_FOLDER,
+  DEFAULT_MODEL_PRICING,
+  DEFAULT_SETTINGS,
+  getDefaultBlockedCommands,
+  JOB_HISTORY_LIMIT,
+  MIN_JOB_INTERVAL_MINUTES,
+} from '@/core/types';
 
 const mockAdapter = {
   exists: jest.fn(),
@@ -381,3 +390,85 @@ describe('normalizeBlockedCommands', () => {
   });
 });
 
+
+describe('normalizeModelPricing', () => {
+  it('should return a copy of the defaults when missing or malformed', () => {
+    expect(normalizeModelPricing(undefined)).toEqual(DEFAULT_MODEL_PRICING);
+    expect(normalizeModelPricing([])).toEqual(DEFAULT_MODEL_PRICING);
+    expect(normalizeModelPricing(undefined)).not.toBe(DEFAULT_MODEL_PRICING);
+  });
+
+  it('should keep valid entries and drop invalid ones', () => {
+    const result = normalizeModelPricing({
+      ' custom-model ': { input: 2, output: 8, cacheWrite: 2.5, cacheRead: 0.2 },
+      negative: { input: -1, output: 8, cacheWrite: 2.5, cacheRead: 0.2 },
+      partial: { input: 1 },
+      text: 'nope',
+    });
+
+    expect(result).toEqual({
+      'custom-model': { input: 2, output: 8, cacheWrite: 2.5, cacheRead: 0.2 },
+    });
+  });
+
+  it('should allow an empty table', () => {
+    expect(normalizeModelPricing({})).toEqual({});
+  });
+});
+
+describe('normalizeScheduledJobs', () => {
+  it('should return an empty list when missing or malformed', () => {
+    expect(normalizeScheduledJobs(undefined)).toEqual([]);
+    expect(normalizeScheduledJobs({})).toEqual([]);
+  });
+
+  it('should drop jobs without an id or prompt and duplicate ids', () => {
+    const result = normalizeScheduledJobs([
+      { id: 'job-1', prompt: 'Summarize inbox' },
+      { id: 'job-1', prompt: 'Duplicate' },
+      { id: 'job-2', prompt: '   ' },
+      { prompt: 'No id' },
+      'not a job',
+    ]);
+
+    expect(result.map(job => job.id)).toEqual(['job-1']);
+    expect(result[0].prompt).toBe('Summarize inbox');
+  });
+
+  it('should fill defaults and replace invalid fields', () => {
+    const [job] = normalizeScheduledJobs([{
+      id: 'job-1',
+      prompt: '/daily-review',
+      permissionMode: 'admin',
+      trigger: 'weekly',
+      time: '25:00',
+      intervalMinutes: 1,
+      outputFolder: '/Reports/Daily/',
+    }]);
+
+    expect(job).toMatchObject({
+      name: 'New job',
+      enabled: true,
+      permissionMode: 'normal',
+      trigger: 'daily',
+      time: '08:00',
+      intervalMinutes: MIN_JOB_INTERVAL_MINUTES,
+      outputFolder: 'Reports/Daily',
+      openInTab: false,
+      history: [],
+    });
+    expect(normalizeScheduledJobs([{ id: 'job-2', prompt: 'x' }])[0].outputFolder).toBe(DEFAULT_JOB_OUTPUT_FOLDER);
+  });
+
+  it('should keep valid runs and cap the history', () => {
+    const run = { startedAt: 1, finishedAt: 2, cause: 'schedule', status: 'success' };
+    const [job] = normalizeScheduledJobs([{
+      id: 'job-1',
+      prompt: 'x',
+      history: [{ startedAt: 'yesterday' }, ...Array.from({ length: JOB_HISTORY_LIMIT + 5 }, () => run)],
+    }]);
+
+    expect(job.history).toHaveLength(JOB_HISTORY_LIMIT);
+    expect(job.history[0]).toEqual(run);
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  ConversationSearchIndex,
+  isEmptySearchQuery,
+  parseSearchQuery,
+} from '@/core/storage/ConversationSearchIndex';
+import type { ChatMessage, Conversation } from '@/core/types';
+
+function msg(id: string, role: ChatMessage['role'], content: string, timestamp: number, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, role, content, timestamp, ...extra };
+}
+
+function conv(id: string, title: string, messages: ChatMessage[], extra: Partial<Conversation> = {}): Conversation {
+  return {
+    id,
+    title,
+    createdAt: messages[0]?.timestamp ?? 0,
+    updatedAt: messages[messages.length - 1]?.timestamp ?? 0,
+    sessionId: null,
+    messages,
+    ...extra,
+  };
+}
+
+const JAN_10 = new Date(2025, 0, 10, 12).getTime();
+const FEB_10 = new Date(2025, 1, 10, 12).getTime();
+const MAR_10 = new Date(2025, 2, 10, 12).getTime();
+
+describe('parseSearchQuery', () => {
+  it('splits bare words into lowercased terms', () => {
+    expect(parseSearchQuery('Dataview Query')).toEqual({ terms: ['dataview', 'query'], phrases: [] });
+  });
+
+  it('extracts quoted phrases and collapses whitespace', () => {
+    const query = parseSearchQuery('fix "Dataview   query" table');
+    expect(query.phrases).toEqual(['dataview query']);
+    expect(query.terms).toEqual(['fix', 'table']);
+  });
+
+  it('treats an unterminated quote as a phrase', () => {
+    expect(parseSearchQuery('"open phrase').phrases).toEqual(['open phrase']);
+  });
+
+  it('parses absolute after/before dates as local midnight', () => {
+    const query = parseSearchQuery('after:2025-01-15 before:2025-02-01');
+    expect(query.after).toBe(new Date(2025, 0, 15).getTime());
+    expect(query.before).toBe(new Date(2025, 1, 1).getTime());
+    expect(query.terms).toEqual([]);
+  });
+
+  it('parses relative dates from now', () => {
+    const now = new Date(2025, 2, 10, 15, 30).getTime();
+    expect(parseSearchQuery('after:7d', now).after).toBe(new Date(2025, 2, 3).getTime());
+    expect(parseSearchQuery('after:2w', now).after).toBe(new Date(2025, 1, 24).getTime());
+  });
+
+  it('keeps invalid filters as plain terms', () => {
+    expect(parseSearchQuery('after:someday').terms).toEqual(['after:someday']);
+  });
+
+  it('reports empty queries', () => {
+    expect(isEmptySearchQuery(parseSearchQuery('   '))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery('""'))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery('after:2025-01-01'))).toBe(false);
+  });
+});
+
+describe('ConversationSearchIndex', () => {
+  let index: ConversationSearchIndex;
+
+  beforeEach(() => {
+    index = new ConversationSearchIndex();
+  });
+
+  it('returns no results for an empty query', () => {
+    index.indexConversation(conv('c1', 'Chat', [msg('m1', 'user', 'hello', JAN_10)]));
+    expect(index.search('')).toEqual([]);
+  });
+
+  it('finds the message containing all terms', () => {
+    index.indexConversation(conv('c1', 'Notes cleanup', [
+      msg('m1', 'user', 'My Dataview query returns nothing', JAN_10),
+      msg('m2', 'assistant', 'The FROM clause needs quotes around the folder', JAN_10 + 1000),
+    ]));
+    index.indexConversation(conv('c2', 'Other', [msg('m3', 'user', 'Unrelated question', JAN_10)]));
+
+    const results = index.search('dataview query');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ conversationId: 'c1', messageId: 'm1', role: 'user' });
+  });
+
+  it('requires every term to appear somewhere in the conversation', () => {
+    index.indexConversation(conv('c1', 'Chat', [
+      msg('m1', 'user', 'dataview', JAN_10),
+      msg('m2', 'assistant', 'templater', JAN_10),
+    ]));
+
+    expect(index.search('dataview templater')).toHaveLength(1);
+    expect(index.search('dataview canvas')).toHaveLength(0);
+  });
+
+  it('matches phrases verbatim across line breaks', () => {
+    index.indexConversation(conv('c1', 'Chat', [
+      msg('m1', 'user', 'fixed the\nDataview query', JAN_10),
+      msg('m2', 'user', 'query for dataview', JAN_10),
+    ]));
+
+    const results = index.search('"the dataview query"');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].messageId).toBe('m1');
+  });
+
+  it('indexes displayContent instead of the expanded prompt', () => {
+    index.indexConversation(conv('c1', 'Chat', [
+      msg('m1', 'user', '<current_note>secret.md</current_note> summarize', JAN_10, { displayContent: 'summarize' }),
+    ]));
+
+    expect(index.search('secret')).toHaveLength(0);
+    expect(index.search('summarize')).toHaveLength(1);
+  });
+
+  it('skips interrupt and rebuilt context messages', () => {
+    index.indexConversation(conv('c1', 'Chat', [
+      msg('m1', 'user', 'history blob with keyword', JAN_10, { isRebuiltContext: true }),
+      msg('m2', 'user', 'keyword interrupted', JAN_10, { isInterrupt: true }),
+    ]));
+
+    expect(index.search('keyword')).toHaveLength(0);
+  });
+
+  it('matches title-only hits without a message id', () => {
+    index.indexConversation(conv('c1', 'Dataview debugging', [msg('m1', 'user', 'hello', JAN_10)]));
+
+    const [result] = index.search('dataview');
+
+    expect(result.conversationId).toBe('c1');
+    expect(result.messageId).toBeUndefined();
+  });
+
+  it('filters messages by date range', () => {
+    index.indexConversation(conv('c1', 'Chat', [
+      msg('m1', 'user', 'canvas layout', JAN_10),
+      msg('m2', 'user', 'canvas colors', FEB_10),
+      msg('m3', 'user', 'canvas export', MAR_10),
+    ]));
+
+    const results = index.search('canvas after:2025-02-01 before:2025-03-01');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].messageId).toBe('m2');
+  });
+
+  it('lists conversations with activity in range for date-only queries', () => {
+    index.indexConversation(conv('c1', 'January', [msg('m1', 'user', 'a', JAN_10)]));
+    index.indexConversation(conv('c2', 'March', [msg('m2', 'user', 'b', MAR_10)]));
+
+    const results = index.search('after:2025-03-01');
+
+    expect(results.map(r => r.conversationId)).toEqual(['c2']);
+  });
+
+  it('ranks by hit count, then recency', () => {
+    index.indexConversation(conv('c1', 'One', [msg('m1', 'user', 'graph', JAN_10)]));
+    index.indexConversation(conv('c2', 'Two', [msg('m2', 'user', 'graph graph graph', JAN_10)]));
+    index.indexConversation(conv('c3', 'Three', [msg('m3', 'user', 'graph', FEB_10)]));
+
+    expect(index.search('graph').map(r => r.conversationId)).toEqual(['c2', 'c3', 'c1']);
+  });
+
+  it('respects the result limit', () => {
+    for (let i = 0; i < 5; i++) {
+      index.indexConversation(conv(`c${i}`, 'Chat', [msg(`m${i}`, 'user', 'term', JAN_10 + i)]));
+    }
+
+    expect(index.search('term', 2)).toHaveLength(2);
+  });
+
+  it('builds a snippet around the first hit with highlight ranges', () => {
+    const padding = 'x'.repeat(100);
+    index.indexConversation(conv('c1', 'Chat', [msg('m1', 'user', `${padding} Needle here`, JAN_10)]));
+
+    const [result] = index.search('needle');
+
+    expect(result.snippet.startsWith('…')).toBe(true);
+    expect(result.highlights).toHaveLength(1);
+    const [start, end] = result.highlights[0];
+    expect(result.snippet.slice(start, end)).toBe('Needle');
+  });
+
+  it('keeps highlights on the match when lower-casing changes the text length', () => {
+    index.indexConversation(conv('c1', 'Chat', [msg('m1', 'user', 'İİİİ then Needle here', JAN_10)]));
+
+    const [result] = index.search('needle');
+
+    const [start, end] = result.highlights[0];
+    expect(result.snippet.slice(start, end)).toBe('Needle');
+  });
+
+  it('merges overlapping highlight ranges', () => {
+    index.indexConversation(conv('c1', 'Chat', [msg('m1', 'user', 'dataview query', JAN_10)]));
+
+    const [result] = index.search('"dataview query" view');
+
+    expect(result.highlights).toEqual([[0, 14]]);
+  });
+
+  describe('staleness', () => {
+    it('reports unindexed and changed conversations as stale', () => {
+      const conversation = conv('c1', 'Chat', [msg('m1', 'user', 'a', JAN_10)]);
+      expect(index.isStale(conversation)).toBe(true);
+
+      index.indexConversation(conversation);
+      expect(index.isStale(conversation)).toBe(false);
+
+      conversation.messages.push(msg('m2', 'assistant', 'b', JAN_10 + 1));
+      expect(index.isStale(conversation)).toBe(true);
+    });
+
+    it('reports renamed conversations as stale', () => {
+      const conversation = conv('c1', 'Chat', [msg('m1', 'user', 'a', JAN_10)]);
+      index.indexConversation(conversation);
+
+      conversation.title = 'Renamed';
+
+      expect(index.isStale(conversation)).toBe(true);
+    });
+  });
+
+  it('removes and retains entries', () => {
+    index.indexConversation(conv('c1', 'Chat', [msg('m1', 'user', 'term', JAN_10)]));
+    index.indexConversation(conv('c2', 'Chat', [msg('m2', 'user', 'term', JAN_10)]));
+    index.indexConversation(conv('c3', 'Chat', [msg('m3', 'user', 'term', JAN_10)]));
+
+    index.removeConversation('c1');
+    index.retain(['c2']);
+
+    expect(index.size).toBe(1);
+    expect(index.search('term').map(r => r.conversationId)).toEqual(['c2']);
+  });
+});
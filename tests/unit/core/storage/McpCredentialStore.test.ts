@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { McpCredentialStore } from '@/core/storage/McpCredentialStore';
+
+describe('McpCredentialStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-credentials-'));
+    filePath = path.join(tempDir, 'nested', 'credentials.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('stores secrets per host', () => {
+    const laptop = new McpCredentialStore(filePath, 'laptop');
+    laptop.setSecret('GITHUB_TOKEN', 'ghp_1');
+    laptop.setSecret('API.KEY', 'k');
+
+    const desktop = new McpCredentialStore(filePath, 'desktop');
+    desktop.setSecret('GITHUB_TOKEN', 'ghp_2');
+
+    const reloaded = new McpCredentialStore(filePath, 'laptop');
+    expect(reloaded.getSecretNames()).toEqual(['API.KEY', 'GITHUB_TOKEN']);
+    expect(reloaded.getSecret('GITHUB_TOKEN')).toBe('ghp_1');
+    expect(new McpCredentialStore(filePath, 'desktop').getSecret('GITHUB_TOKEN')).toBe('ghp_2');
+  });
+
+  it('writes the file readable by the owner only', () => {
+    if (process.platform === 'win32') return;
+    new McpCredentialStore(filePath, 'host').setSecret('A', 'b');
+
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects secret names that cannot be referenced', () => {
+    const store = new McpCredentialStore(filePath, 'host');
+    expect(() => store.setSecret('MY KEY', 'x')).toThrow('Invalid secret name');
+  });
+
+  it('deletes secrets and OAuth state', () => {
+    const store = new McpCredentialStore(filePath, 'host');
+    store.setSecret('A', 'b');
+    store.setOAuthState('remote', {
+      serverUrl: 'https://mcp.example.com',
+      authorizationServerUrl: 'https://auth.example.com',
+      clientInformation: { client_id: 'c' },
+      tokens: { access_token: 't', token_type: 'Bearer' },
+    });
+
+    store.deleteSecret('A');
+    store.clearOAuthState('remote');
+
+    const reloaded = new McpCredentialStore(filePath, 'host');
+    expect(reloaded.getSecret('A')).toBeUndefined();
+    expect(reloaded.getOAuthState('remote')).toBeUndefined();
+  });
+
+  it('starts empty when the file is unreadable', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{ not json');
+
+    const store = new McpCredentialStore(filePath, 'host');
+    expect(store.getSecretNames()).toEqual([]);
+    store.setSecret('A', 'b');
+    expect(new McpCredentialStore(filePath, 'host').getSecret('A')).toBe('b');
+  });
+});
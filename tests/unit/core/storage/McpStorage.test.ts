@@ -336,6 +336,28 @@ describe('McpStorage', () => {
       expect(saved._claudian.servers.alpha.description).toBe('A test server');
     });
 
+    it('round-trips OAuth settings without storing tokens in the vault', async () => {
+      const adapter = createMockAdapter();
+      const storage = new McpStorage(adapter);
+
+      await storage.save([
+        {
+          name: 'remote',
+          config: { type: 'http', url: 'https://mcp.example.com/mcp' },
+          enabled: true,
+          contextSaving: true,
+          oauth: { clientId: 'claudian', scope: 'read' },
+        },
+      ]);
+
+      const saved = JSON.parse(adapter._store['.claude/mcp.json']);
+      expect(saved.mcpServers.remote).toEqual({ type: 'http', url: 'https://mcp.example.com/mcp' });
+      expect(saved._claudian.servers.remote.oauth).toEqual({ clientId: 'claudian', scope: 'read' });
+
+      const loaded = await storage.load();
+      expect(loaded[0].oauth).toEqual({ clientId: 'claudian', scope: 'read' });
+    });
+
     it('stores enabled=false in _claudian when different from default', async () => {
       const adapter = createMockAdapter();
       const storage = new McpStorage(adapter);
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BUILT_IN_REDACTION_RULES, Redactor } from '@/core/redaction';
+import { RedactionStore } from '@/core/storage/RedactionStore';
+
+const EMAIL = BUILT_IN_REDACTION_RULES.emails;
+
+describe('RedactionStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-redactions-'));
+    filePath = path.join(tempDir, 'nested', 'redactions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('restores placeholders with a fresh Redactor after a reload', () => {
+    const placeholder = new Redactor(() => [EMAIL], new RedactionStore(filePath)).redact('a@example.com').text;
+
+    const reloaded = new Redactor(() => [EMAIL], new RedactionStore(filePath));
+    expect(reloaded.restore(`To: ${placeholder}`)).toBe('To: a@example.com');
+    expect(reloaded.redact('a@example.com').text).toBe(placeholder);
+  });
+
+  it('starts with a new key when the file is unreadable', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'not json', 'utf-8');
+
+    const store = new RedactionStore(filePath);
+    expect(store.getKey()).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({ key: store.getKey(), values: {} });
+  });
+
+  it('drops the oldest values beyond the limit', () => {
+    const store = new RedactionStore(filePath);
+    for (let i = 0; i <= 1000; i++) {
+      store.setValue(`[REDACTED_CUSTOM_${i.toString(16)}]`, `value ${i}`);
+    }
+
+    const reloaded = new RedactionStore(filePath);
+    expect(reloaded.getValue('[REDACTED_CUSTOM_0]')).toBeUndefined();
+    expect(reloaded.getValue('[REDACTED_CUSTOM_1]')).toBe('value 1');
+    expect(reloaded.getValue('[REDACTED_CUSTOM_3e8]')).toBe('value 1000');
+  });
+
+  it('writes the file readable by the owner only', () => {
+    if (process.platform === 'win32') return;
+    new RedactionStore(filePath).getKey();
+
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+});
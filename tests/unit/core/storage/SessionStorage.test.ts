@@ -1,4 +1,4 @@
-import { SESSIONS_PATH,SessionStorage } from '@/core/storage/SessionStorage';
+import { INTERNAL_SESSIONS_PATH, SESSIONS_PATH, SessionStorage } from '@/core/storage/SessionStorage';
 import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
 import type { Conversation, SessionMetadata, UsageInfo } from '@/core/types';
 
@@ -958,6 +958,40 @@ describe('SessionStorage', () => {
     });
   });
 
+  describe('internal session IDs', () => {
+    it('returns an empty list without a file', async () => {
+      mockAdapter.exists.mockResolvedValue(false);
+
+      await expect(storage.loadInternalSessionIds()).resolves.toEqual([]);
+    });
+
+    it('appends new IDs once and keeps concurrent adds', async () => {
+      mockAdapter.exists.mockResolvedValue(true);
+      mockAdapter.read.mockResolvedValue('["a", 3]');
+
+      await Promise.all([
+        storage.addInternalSessionId('b'),
+        storage.addInternalSessionId('c'),
+        storage.addInternalSessionId('a'),
+      ]);
+
+      expect(mockAdapter.read).toHaveBeenCalledTimes(1);
+      expect(mockAdapter.write).toHaveBeenLastCalledWith(INTERNAL_SESSIONS_PATH, '["a","b","c"]');
+    });
+
+    it('forgets the oldest IDs past the limit', async () => {
+      mockAdapter.exists.mockResolvedValue(true);
+      mockAdapter.read.mockResolvedValue(JSON.stringify(Array.from({ length: 1000 }, (_, i) => `s${i}`)));
+
+      await storage.addInternalSessionId('new');
+
+      const ids = await storage.loadInternalSessionIds();
+      expect(ids).toHaveLength(1000);
+      expect(ids[0]).toBe('s1');
+      expect(ids[999]).toBe('new');
+    });
+  });
+
   describe('toSessionMetadata - extractSubagentData', () => {
     it('extracts subagent data from assistant messages', () => {
       const conversation: Conversation = {
@@ -1076,6 +1110,14 @@ describe('SessionStorage', () => {
         externalContextPaths: ['/external/path'],
         enabledMcpServers: ['mcp-server'],
         usage,
+        tokenUsage: [{
+          timestamp: 1700000900,
+          model: 'claude-opus-4-5',
+          inputTokens: 5000,
+          outputTokens: 800,
+          cacheCreationInputTokens: 1000,
+          cacheReadInputTokens: 500,
+        }],
         titleGenerationStatus: 'success',
         legacyCutoffAt: 1700000050,
       };
@@ -1094,6 +1136,7 @@ describe('SessionStorage', () => {
       expect(metadata.externalContextPaths).toEqual(['/external/path']);
       expect(metadata.enabledMcpServers).toEqual(['mcp-server']);
       expect(metadata.usage).toEqual(usage);
+      expect(metadata.tokenUsage).toEqual(conversation.tokenUsage);
       expect(metadata.titleGenerationStatus).toBe('success');
 
       // Should not include messages
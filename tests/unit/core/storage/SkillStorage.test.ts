@@ -31,6 +31,11 @@ function createMockAdapter(files: Record<string, string> = {}): VaultFileAdapter
     append: jest.fn(),
     stat: jest.fn(),
     deleteFolder: jest.fn(),
+    deleteFolderRecursive: jest.fn(async (folder: string) => {
+      for (const path of Object.keys(files)) {
+        if (path.startsWith(folder + '/')) delete files[path];
+      }
+    }),
   } as unknown as VaultFileAdapter;
   return mockAdapter;
 }
@@ -257,19 +262,89 @@ Prompt`,
   });
 
   describe('delete', () => {
-    it('deletes skill file and cleans up directory', async () => {
-      const adapter = createMockAdapter({
+    it('deletes the skill folder with its supporting files', async () => {
+      const files = {
         '.claude/skills/target/SKILL.md': `---
 description: Target
 ---
 Prompt`,
-      });
+        '.claude/skills/target/scripts/run.py': 'print()',
+        '.claude/skills/other/SKILL.md': 'Other',
+      };
+      const adapter = createMockAdapter(files);
       const storage = new SkillStorage(adapter);
 
       await storage.delete('skill-target');
 
-      expect(adapter.delete).toHaveBeenCalledWith('.claude/skills/target/SKILL.md');
-      expect(adapter.deleteFolder).toHaveBeenCalledWith('.claude/skills/target');
+      expect(adapter.deleteFolderRecursive).toHaveBeenCalledWith('.claude/skills/target');
+      expect(Object.keys(files)).toEqual(['.claude/skills/other/SKILL.md']);
+    });
+
+    it('refuses names that would reach outside the skill folder', async () => {
+      const adapter = createMockAdapter({});
+      const storage = new SkillStorage(adapter);
+
+      await expect(storage.delete('skill-')).rejects.toThrow('Invalid skill name');
+      await expect(storage.delete('skill-../agents')).rejects.toThrow('Invalid skill name');
+      expect(adapter.deleteFolderRecursive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('supporting files', () => {
+    it('lists files next to SKILL.md relative to the skill folder', async () => {
+      const adapter = createMockAdapter({});
+      (adapter.listFilesRecursive as jest.Mock).mockResolvedValue([
+        '.claude/skills/pdf/SKILL.md',
+        '.claude/skills/pdf/scripts/fill.py',
+        '.claude/skills/pdf/REFERENCE.md',
+      ]);
+      const storage = new SkillStorage(adapter);
+
+      expect(await storage.listSupportingFiles('pdf')).toEqual(['REFERENCE.md', 'scripts/fill.py']);
+      expect(adapter.listFilesRecursive).toHaveBeenCalledWith('.claude/skills/pdf');
+    });
+
+    it('reads, writes and deletes files inside the skill folder', async () => {
+      const adapter = createMockAdapter({ '.claude/skills/pdf/scripts/fill.py': 'print(1)' });
+      const storage = new SkillStorage(adapter);
+
+      expect(await storage.readSupportingFile('pdf', 'scripts/fill.py')).toBe('print(1)');
+      await storage.writeSupportingFile('pdf', 'forms.md', '# Forms');
+      await storage.deleteSupportingFile('pdf', 'scripts/fill.py');
+
+      expect(adapter.write).toHaveBeenCalledWith('.claude/skills/pdf/forms.md', '# Forms');
+      expect(adapter.delete).toHaveBeenCalledWith('.claude/skills/pdf/scripts/fill.py');
+    });
+
+    it.each(['../other/SKILL.md', '/etc/passwd', 'a//b', 'SKILL.md', '', 'a\\b'])(
+      'rejects the path %p',
+      async (relativePath) => {
+        const storage = new SkillStorage(createMockAdapter({}));
+
+        await expect(storage.writeSupportingFile('pdf', relativePath, 'x')).rejects.toThrow('Invalid supporting file path');
+      }
+    );
+  });
+
+  describe('rename', () => {
+    it('moves the skill folder', async () => {
+      const adapter = createMockAdapter({ '.claude/skills/old/SKILL.md': 'x' });
+      const storage = new SkillStorage(adapter);
+
+      await storage.rename('old', 'new');
+
+      expect(adapter.rename).toHaveBeenCalledWith('.claude/skills/old', '.claude/skills/new');
+    });
+
+    it('refuses to overwrite an existing skill', async () => {
+      const adapter = createMockAdapter({
+        '.claude/skills/old/SKILL.md': 'x',
+        '.claude/skills/new/SKILL.md': 'y',
+      });
+      const storage = new SkillStorage(adapter);
+
+      await expect(storage.rename('old', 'new')).rejects.toThrow('already exists');
+      expect(adapter.rename).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { UserCCSettingsStorage } from '@/core/storage/UserCCSettingsStorage';
+import { createPermissionRule } from '@/core/types';
+
+describe('UserCCSettingsStorage', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-user-settings-'));
+    filePath = path.join(tempDir, '.claude', 'settings.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('returns empty rule lists when the file is missing or invalid', async () => {
+    expect(await new UserCCSettingsStorage(filePath).getPermissions()).toMatchObject({ allow: [], deny: [], ask: [] });
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{ not json');
+    expect(await new UserCCSettingsStorage(filePath).getPermissions()).toMatchObject({ allow: [], deny: [], ask: [] });
+  });
+
+  it('updates rule lists and keeps other settings', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({
+      model: 'opus',
+      enabledPlugins: { 'a@b': true },
+      permissions: { allow: ['Read'], defaultMode: 'plan', additionalDirectories: ['/tmp'] },
+    }));
+
+    const storage = new UserCCSettingsStorage(filePath);
+    await storage.updatePermissions({
+      allow: [createPermissionRule('Bash(git *)')],
+      deny: [createPermissionRule('WebFetch')],
+    });
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({
+      model: 'opus',
+      enabledPlugins: { 'a@b': true },
+      permissions: {
+        allow: ['Bash(git *)'],
+        deny: ['WebFetch'],
+        ask: [],
+        defaultMode: 'plan',
+        additionalDirectories: ['/tmp'],
+      },
+    });
+    expect((await storage.getPermissions()).allow).toEqual(['Bash(git *)']);
+  });
+});
@@ -217,6 +217,26 @@ describe('VaultFileAdapter', () => {
     });
   });
 
+  describe('deleteFolderRecursive', () => {
+    it('deletes the folder with its contents', async () => {
+      mockAdapter.exists.mockResolvedValue(true);
+      mockAdapter.rmdir = jest.fn().mockResolvedValue(undefined);
+
+      await vaultAdapter.deleteFolderRecursive('skills/pdf');
+
+      expect(mockAdapter.rmdir).toHaveBeenCalledWith('skills/pdf', true);
+    });
+
+    it('does nothing when the folder does not exist', async () => {
+      mockAdapter.exists.mockResolvedValue(false);
+      mockAdapter.rmdir = jest.fn();
+
+      await vaultAdapter.deleteFolderRecursive('missing');
+
+      expect(mockAdapter.rmdir).not.toHaveBeenCalled();
+    });
+  });
+
   describe('listFiles', () => {
     it('lists files in existing folder', async () => {
       mockAdapter.exists.mockResolvedValue(true);
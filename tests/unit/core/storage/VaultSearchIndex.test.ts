@@ -0,0 +1,119 @@
+import { buildNoteSnippet, tokenize, VaultSearchIndex } from '@/core/storage/VaultSearchIndex';
+
+describe('tokenize', () => {
+  it('lowercases words and drops stop words and single characters', () => {
+    expect(tokenize('The Budget of a Project x')).toEqual(['budget', 'project']);
+  });
+
+  it('normalizes plurals and possessives', () => {
+    expect(tokenize("Meetings Alice's class")).toEqual(['meeting', 'alice', 'class']);
+  });
+
+  it('splits CJK text into bigrams', () => {
+    expect(tokenize('会议记录')).toEqual(['会议', '议记', '记录']);
+  });
+
+  it('keeps a single CJK character', () => {
+    expect(tokenize('猫')).toEqual(['猫']);
+  });
+});
+
+describe('buildNoteSnippet', () => {
+  it('returns the paragraph with the most query terms', () => {
+    const content = 'Intro paragraph.\n\nThe quarterly budget review is next week.\n\nUnrelated ending.';
+    expect(buildNoteSnippet(content, ['budget', 'review'])).toBe('The quarterly budget review is next week.');
+  });
+
+  it('skips frontmatter', () => {
+    const content = '---\ntags: budget\n---\nFirst paragraph.';
+    expect(buildNoteSnippet(content, ['budget'])).toBe('First paragraph.');
+  });
+
+  it('trims long paragraphs around the first match', () => {
+    const content = `${'filler '.repeat(40)}budget ${'tail '.repeat(60)}`;
+    const snippet = buildNoteSnippet(content, ['budget']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('budget');
+    expect(snippet.length).toBeLessThanOrEqual(202);
+  });
+
+  it('returns an empty string for empty notes', () => {
+    expect(buildNoteSnippet('', ['budget'])).toBe('');
+  });
+});
+
+describe('VaultSearchIndex', () => {
+  function createIndex(notes: Record<string, string>): VaultSearchIndex {
+    const index = new VaultSearchIndex();
+    for (const [path, content] of Object.entries(notes)) {
+      index.setNote(path, content);
+    }
+    return index;
+  }
+
+  it('ranks notes with more matching terms higher', () => {
+    const index = createIndex({
+      'a.md': 'budget planning for the quarterly review',
+      'b.md': 'budget',
+      'c.md': 'gardening tips',
+    });
+
+    const hits = index.search('quarterly budget planning');
+
+    expect(hits.map(hit => hit.path)).toEqual(['a.md', 'b.md']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('boosts notes whose file name matches', () => {
+    const index = createIndex({
+      'Projects/Budget.md': 'numbers and figures',
+      'Daily/2025-01-01.md': 'talked about the budget and figures',
+    });
+
+    expect(index.search('budget')[0].path).toBe('Projects/Budget.md');
+  });
+
+  it('filters by folder', () => {
+    const index = createIndex({
+      'Work/budget.md': 'budget',
+      'Home/budget.md': 'budget',
+    });
+
+    expect(index.search('budget', { folder: '/Work/' }).map(hit => hit.path)).toEqual(['Work/budget.md']);
+  });
+
+  it('leaves out excluded notes before applying the limit', () => {
+    const index = createIndex({ 'Private/a.md': 'topic', 'b.md': 'topic' });
+
+    const hits = index.search('topic', { limit: 1, exclude: path => path.startsWith('Private/') });
+
+    expect(hits.map(hit => hit.path)).toEqual(['b.md']);
+  });
+
+  it('applies the limit', () => {
+    const index = createIndex({ 'a.md': 'topic', 'b.md': 'topic', 'c.md': 'topic' });
+
+    expect(index.search('topic', { limit: 2 })).toHaveLength(2);
+  });
+
+  it('replaces and removes notes', () => {
+    const index = createIndex({ 'a.md': 'old content' });
+
+    index.setNote('a.md', 'new content');
+    expect(index.search('old')).toEqual([]);
+    expect(index.search('new').map(hit => hit.path)).toEqual(['a.md']);
+
+    index.removeNote('a.md');
+    expect(index.size).toBe(0);
+    expect(index.has('a.md')).toBe(false);
+    expect(index.search('new')).toEqual([]);
+  });
+
+  it('returns nothing for queries without searchable terms', () => {
+    const index = createIndex({ 'a.md': 'the notes' });
+
+    expect(index.search('the')).toEqual([]);
+  });
+});
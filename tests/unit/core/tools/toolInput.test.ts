@@ -1,4 +1,4 @@
-import { extractResolvedAnswers, getPathFromToolInput } from '@/core/tools/toolInput';
+import { extractResolvedAnswers, getPathFromToolInput, getSearchScope } from '@/core/tools/toolInput';
 
 describe('extractResolvedAnswers', () => {
   it('returns undefined when result is not an object', () => {
@@ -285,3 +285,21 @@ describe('getPathFromToolInput', () => {
     });
   });
 });
+
+describe('getSearchScope', () => {
+  it('searches everything below the Grep path', () => {
+    expect(getSearchScope('Grep', { pattern: 'key' })).toEqual({ root: '', depth: Infinity });
+    expect(getSearchScope('Grep', { pattern: 'key', path: 'notes' })).toEqual({ root: 'notes', depth: Infinity });
+  });
+
+  it('narrows the Glob root with the literal folders of the pattern', () => {
+    expect(getSearchScope('Glob', { pattern: '**/*.md' })).toEqual({ root: '', depth: Infinity });
+    expect(getSearchScope('Glob', { pattern: 'notes/*/*.md', path: 'vault' })).toEqual({ root: 'vault/notes', depth: 1 });
+    expect(getSearchScope('Glob', { pattern: '*.md' })).toEqual({ root: '', depth: 0 });
+    expect(getSearchScope('Glob', { pattern: '/abs/**/*.md', path: 'ignored' })).toEqual({ root: '/abs', depth: Infinity });
+  });
+
+  it('returns null for other tools', () => {
+    expect(getSearchScope('Read', { file_path: 'a.md' })).toBeNull();
+  });
+});
@@ -105,9 +105,12 @@ describe('types.ts', () => {
         environmentVariables: '',
         envSnippets: [],
         customContextLimits: {},
+        modelPricing: {},
         systemPrompt: '',
         allowedExportPaths: [],
         persistentExternalContextPaths: [],
+        enableGhostText: false,
+        ghostTextFolders: [],
         slashCommands: [],
         keyboardNavigation: { scrollUpKey: 'w', scrollDownKey: 's', focusInputKey: 'i' },
         locale: 'en',
@@ -118,10 +121,19 @@ describe('types.ts', () => {
         show1MModel: false,
         enableChrome: false,
         enableBangBash: false,
+        enableVaultSearch: true,
+        enableObsidianTools: true,
+        reviewEdits: false,
+        enableAuditLog: false,
+        folderPolicies: [],
+        enableRedaction: false,
+        redactionDetectors: ['api_keys'],
+        redactionPatterns: [],
         tabBarPosition: 'input',
         enableAutoScroll: true,
         openInMainTab: false,
         hiddenSlashCommands: [],
+        scheduledJobs: [],
       };
 
       expect(settings.enableBlocklist).toBe(false);
@@ -144,9 +156,12 @@ describe('types.ts', () => {
         environmentVariables: 'API_KEY=test',
         envSnippets: [],
         customContextLimits: {},
+        modelPricing: {},
         systemPrompt: '',
         allowedExportPaths: [],
         persistentExternalContextPaths: [],
+        enableGhostText: false,
+        ghostTextFolders: [],
         slashCommands: [],
         keyboardNavigation: { scrollUpKey: 'w', scrollDownKey: 's', focusInputKey: 'i' },
         locale: 'zh-CN',
@@ -157,10 +172,19 @@ describe('types.ts', () => {
         show1MModel: false,
         enableChrome: false,
         enableBangBash: false,
+        enableVaultSearch: true,
+        enableObsidianTools: true,
+        reviewEdits: false,
+        enableAuditLog: false,
+        folderPolicies: [],
+        enableRedaction: false,
+        redactionDetectors: ['api_keys'],
+        redactionPatterns: [],
         tabBarPosition: 'input',
         enableAutoScroll: true,
         openInMainTab: false,
         hiddenSlashCommands: [],
+        scheduledJobs: [],
       };
 
       expect(settings.model).toBe('anthropic/custom-model-v1');
@@ -183,9 +207,12 @@ describe('types.ts', () => {
         environmentVariables: '',
         envSnippets: [],
         customContextLimits: {},
+        modelPricing: {},
         systemPrompt: '',
         allowedExportPaths: [],
         persistentExternalContextPaths: [],
+        enableGhostText: false,
+        ghostTextFolders: [],
         slashCommands: [],
         keyboardNavigation: { scrollUpKey: 'w', scrollDownKey: 's', focusInputKey: 'i' },
         locale: 'en',
@@ -196,10 +223,19 @@ describe('types.ts', () => {
         show1MModel: true,
         enableChrome: false,
         enableBangBash: false,
+        enableVaultSearch: true,
+        enableObsidianTools: true,
+        reviewEdits: false,
+        enableAuditLog: false,
+        folderPolicies: [],
+        enableRedaction: false,
+        redactionDetectors: ['api_keys'],
+        redactionPatterns: [],
         tabBarPosition: 'header',
         enableAutoScroll: false,
         openInMainTab: false,
         hiddenSlashCommands: [],
+        scheduledJobs: [],
       };
 
       expect(settings.lastClaudeModel).toBe('opus');
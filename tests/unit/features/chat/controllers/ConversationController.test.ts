@@ -450,6 +450,28 @@ describe('ConversationController', () => {
       const updates = call[1];
       expect(updates).not.toHaveProperty('resumeSessionAt');
     });
+
+    it('should append pending token usage to the stored records', async () => {
+      const tokens = { inputTokens: 1, outputTokens: 2, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 };
+      const existing = { timestamp: 1, model: 'haiku', ...tokens };
+      (deps.plugin.getConversationById as jest.Mock).mockResolvedValue({
+        id: 'conv-1',
+        messages: [],
+        sessionId: null,
+        tokenUsage: [existing],
+      });
+      deps.state.currentConversationId = 'conv-1';
+      deps.state.messages = [{ id: '1', role: 'user', content: 'test', timestamp: Date.now() }];
+      deps.state.recordTokenUsage('msg-1', 'sonnet', tokens);
+
+      await controller.save(true);
+      await controller.save(true);
+
+      const calls = (deps.plugin.updateConversation as jest.Mock).mock.calls;
+      expect(calls[0][1].tokenUsage).toEqual([existing, expect.objectContaining({ model: 'sonnet', ...tokens })]);
+      // Already-taken usage is not appended twice
+      expect(calls[1][1].tokenUsage).toEqual([existing]);
+    });
   });
 
   describe('loadActive with existing conversation', () => {
@@ -644,8 +666,24 @@ describe('ConversationController', () => {
         const item = list.children[0];
         const actions = item.querySelector('.claudian-history-item-actions');
         expect(actions).toBeTruthy();
-        // regenerate button + rename button + delete button = 3 children
-        expect(actions!.children.length).toBe(3);
+        // regenerate button + export button + rename button + delete button = 4 children
+        expect(actions!.children.length).toBe(4);
+      });
+
+      it('should export conversation when clicking export button', async () => {
+        (deps.plugin as any).exportConversationToNote = jest.fn().mockResolvedValue(null);
+        (deps.plugin.getConversationList as jest.Mock).mockReturnValue([
+          { id: 'conv-1', title: 'Test', createdAt: 1000, lastResponseAt: 1000 },
+        ]);
+
+        controller.updateHistoryDropdown();
+
+        const list = dropdown.children[1];
+        const actions = list.children[0].querySelector('.claudian-history-item-actions');
+        const exportBtn = actions!.children[0];
+        await exportBtn._eventListeners.get('click')![0]({ stopPropagation: jest.fn() });
+
+        expect((deps.plugin as any).exportConversationToNote).toHaveBeenCalledWith('conv-1');
       });
 
       it('should not show select click handler on current conversation', () => {
@@ -721,6 +759,107 @@ describe('ConversationController', () => {
     });
   });
 
+  describe('History Search', () => {
+    let dropdown: any;
+
+    const searchResult = {
+      conversationId: 'conv-2',
+      title: 'Dataview fixes',
+      messageId: 'msg-7',
+      role: 'assistant',
+      snippet: '…the Dataview query needs quotes',
+      highlights: [[5, 13]] as Array<[number, number]>,
+      timestamp: 1000,
+      score: 2,
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      dropdown = createMockEl();
+      deps.getHistoryDropdown = () => dropdown;
+      deps.renderer.scrollToMessage = jest.fn().mockReturnValue(true);
+      (deps.plugin as any).searchConversations = jest.fn().mockResolvedValue([searchResult]);
+      (deps.plugin.getConversationList as jest.Mock).mockReturnValue([
+        { id: 'conv-1', title: 'First', createdAt: 1000, lastResponseAt: 1000 },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    async function typeQuery(query: string): Promise<any> {
+      controller.updateHistoryDropdown();
+      const input = dropdown.children[0].querySelector('.claudian-history-search');
+      input.value = query;
+      input.dispatchEvent('input');
+      jest.advanceTimersByTime(200);
+      await Promise.resolve();
+      await Promise.resolve();
+      return dropdown.children[1];
+    }
+
+    it('should render a search input in the header', () => {
+      controller.updateHistoryDropdown();
+
+      const header = dropdown.children[0];
+      expect(header.querySelector('.claudian-history-search')).toBeTruthy();
+    });
+
+    it('should debounce search and render highlighted results', async () => {
+      const list = await typeQuery('dataview');
+
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledTimes(1);
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledWith('dataview');
+      const item = list.children[0];
+      expect(item.hasClass('claudian-history-search-result')).toBe(true);
+      const snippet = item.querySelector('.claudian-history-item-snippet');
+      const mark = snippet.children.find((c: any) => c.tagName === 'MARK');
+      expect(mark.textContent).toBe('Dataview');
+    });
+
+    it('should show empty state when nothing matches', async () => {
+      (deps.plugin as any).searchConversations.mockResolvedValue([]);
+
+      const list = await typeQuery('nothing');
+
+      expect(list.children[0].hasClass('claudian-history-empty')).toBe(true);
+      expect(list.children[0].textContent).toBe('No matching messages');
+    });
+
+    it('should switch conversation and reveal the matched message on click', async () => {
+      const list = await typeQuery('dataview');
+
+      const content = list.children[0].querySelector('.claudian-history-item-content');
+      await content._eventListeners.get('click')[0]({ stopPropagation: jest.fn() });
+
+      expect(deps.plugin.switchConversation).toHaveBeenCalledWith('conv-2');
+      expect(deps.renderer.scrollToMessage).toHaveBeenCalledWith('msg-7');
+    });
+
+    it('should keep the query when the dropdown re-renders', async () => {
+      await typeQuery('dataview');
+
+      controller.updateHistoryDropdown();
+      await Promise.resolve();
+
+      const input = dropdown.children[0].querySelector('.claudian-history-search');
+      expect(input.value).toBe('dataview');
+      expect((deps.plugin as any).searchConversations).toHaveBeenCalledTimes(2);
+    });
+
+    it('should restore the conversation list when the query is cleared with Escape', async () => {
+      await typeQuery('dataview');
+
+      const input = dropdown.children[0].querySelector('.claudian-history-search');
+      input.dispatchEvent({ type: 'keydown', key: 'Escape', isComposing: false, stopPropagation: jest.fn() });
+
+      const list = dropdown.children[1];
+      expect(input.value).toBe('');
+      expect(list.children[0].querySelector('.claudian-history-item-title')?.textContent).toBe('First');
+    });
+  });
+
   describe('History Item Interactions', () => {
     let dropdown: any;
 
@@ -795,8 +934,8 @@ describe('ConversationController', () => {
       const item = list.children[0];
       const actions = item.querySelector('.claudian-history-item-actions');
       expect(actions).toBeTruthy();
-      // For non-failed items: rename is children[0], delete is children[1]
-      const rBtn = actions!.children[0];
+      // For non-failed items: export is children[0], rename is children[1], delete is children[2]
+      const rBtn = actions!.children[1];
       expect(rBtn).toBeTruthy();
       const clickHandlers = rBtn._eventListeners?.get('click');
       expect(clickHandlers).toBeDefined();
@@ -1,6 +1,8 @@
 import { createMockEl } from '@test/helpers/mockElement';
 import { Notice } from 'obsidian';
 
+import { getMcpPrompt, readMcpResource } from '@/core/mcp/McpTester';
+import { getRedactionRules, Redactor } from '@/core/redaction';
 import { InputController, type InputControllerDeps } from '@/features/chat/controllers/InputController';
 import { ChatState } from '@/features/chat/state/ChatState';
 import { ResumeSessionDropdown } from '@/shared/components/ResumeSessionDropdown';
@@ -9,6 +11,12 @@ jest.mock('@/shared/components/ResumeSessionDropdown', () => ({
   ResumeSessionDropdown: jest.fn(),
 }));
 
+jest.mock('@/core/mcp/McpTester', () => ({
+  ...jest.requireActual('@/core/mcp/McpTester'),
+  getMcpPrompt: jest.fn(),
+  readMcpResource: jest.fn(),
+}));
+
 beforeAll(() => {
   globalThis.requestAnimationFrame = (cb: FrameRequestCallback) => {
     cb(0);
@@ -36,6 +44,8 @@ function createMockFileContextManager() {
     shouldSendCurrentNote: jest.fn().mockReturnValue(false),
     markCurrentNoteSent: jest.fn(),
     transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+    getMcpResources: jest.fn().mockReturnValue([]),
+    clearMcpResources: jest.fn(),
   };
 }
 
@@ -95,6 +105,19 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
 
   return {
     plugin: {
+      app: {
+        vault: {
+          adapter: { basePath: '/mock/vault' },
+        },
+        metadataCache: {
+          unresolvedLinks: {},
+          on: jest.fn().mockReturnValue({}),
+          offref: jest.fn(),
+        },
+        workspace: {
+          openLinkText: jest.fn(),
+        },
+      },
       saveSettings: jest.fn(),
       settings: {
         slashCommands: [],
@@ -106,12 +129,18 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
       mcpManager: {
         extractMentions: jest.fn().mockReturnValue(new Set()),
         transformMentions: jest.fn().mockImplementation((text: string) => text),
+        findPromptCommand: jest.fn().mockReturnValue(null),
+        getServers: jest.fn().mockReturnValue([]),
+        resolveServer: jest.fn().mockImplementation(async (server: unknown) => server),
       },
+      redactor: new Redactor(() => []),
       renameConversation: jest.fn(),
       updateConversation: jest.fn(),
       getConversationSync: jest.fn().mockReturnValue(null),
       getConversationById: jest.fn().mockResolvedValue(null),
       createConversation: jest.fn().mockResolvedValue({ id: 'conv-1' }),
+      listExternalSessions: jest.fn().mockResolvedValue([]),
+      importExternalSession: jest.fn().mockResolvedValue(null),
     } as any,
     state,
     renderer: {
@@ -147,6 +176,8 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
       shouldSendCurrentNote: jest.fn().mockReturnValue(false),
       markCurrentNoteSent: jest.fn(),
       transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+      getMcpResources: jest.fn().mockReturnValue([]),
+      clearMcpResources: jest.fn(),
     }) as any,
     getImageContextManager: () => imageContextManager as any,
     getMcpServerSelector: () => null,
@@ -426,6 +457,8 @@ describe('InputController - Message Queue', () => {
         shouldSendCurrentNote: jest.fn().mockImplementation(() => !currentNoteSent),
         markCurrentNoteSent: jest.fn().mockImplementation(() => { currentNoteSent = true; }),
         transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+        getMcpResources: jest.fn().mockReturnValue([]),
+        clearMcpResources: jest.fn(),
       };
 
       deps.getFileContextManager = () => fileContextManager as any;
@@ -463,6 +496,138 @@ describe('InputController - Message Queue', () => {
       expect(queryOptions.mcpMentions).toBe(mcpMentions);
       expect(queryOptions.enabledMcpServers).toBe(enabledServers);
     });
+
+    it('should send masked text but show what the user typed', async () => {
+      const redactor = new Redactor(() => getRedactionRules(['emails'], []));
+      deps.plugin.redactor = redactor;
+      (deps as any).mockAgentService.query = jest.fn().mockImplementation(() => createMockStream([{ type: 'done' }]));
+
+      inputEl.value = 'Email jane@example.com';
+      await controller.sendMessage();
+
+      const prompt = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0][0];
+      expect(prompt).toBe(`Email ${redactor.redact('jane@example.com').text}`);
+      expect(deps.state.messages[0].displayContent).toBe('Email jane@example.com');
+      expect(deps.state.messages[0].redactions).toEqual([{ label: 'Email address', count: 1 }]);
+    });
+
+    describe('MCP prompts and resources', () => {
+      const server = { name: 'docs', config: { command: 'docs' }, enabled: true, contextSaving: true };
+      const prompt = { name: 'review', arguments: [{ name: 'file', required: true }] };
+
+      beforeEach(() => {
+        (deps as any).mockAgentService.query = jest.fn().mockImplementation(() => createMockStream([{ type: 'done' }]));
+      });
+
+      it('should send the expanded prompt but show what the user typed', async () => {
+        deps.plugin.mcpManager.findPromptCommand = jest.fn().mockReturnValue({ server, prompt, args: 'a.ts' });
+        (getMcpPrompt as jest.Mock).mockResolvedValue('Review a.ts carefully.');
+
+        inputEl.value = '/mcp__docs__review a.ts';
+        await controller.sendMessage();
+
+        expect(getMcpPrompt).toHaveBeenCalledWith(server, 'review', { file: 'a.ts' });
+        expect(deps.state.messages[0].content).toBe('Review a.ts carefully.');
+        expect(deps.state.messages[0].displayContent).toBe('/mcp__docs__review a.ts');
+      });
+
+      it('should send the raw text and notify when the prompt cannot be expanded', async () => {
+        deps.plugin.mcpManager.findPromptCommand = jest.fn().mockReturnValue({ server, prompt, args: '' });
+
+        inputEl.value = '/mcp__docs__review';
+        await controller.sendMessage();
+
+        expect(getMcpPrompt).not.toHaveBeenCalled();
+        expect(mockNotice).toHaveBeenCalledWith('MCP prompt failed: Missing argument "file" for prompt "review"');
+        expect(deps.state.messages[0].content).toBe('/mcp__docs__review');
+      });
+
+      it('should append attached resources and clear them', async () => {
+        const fileContextManager = deps.getFileContextManager() as any;
+        fileContextManager.getMcpResources.mockReturnValue([{ server: 'docs', uri: 'file:///readme.md', name: 'readme' }]);
+        deps.getFileContextManager = () => fileContextManager;
+        deps.plugin.mcpManager.getServers = jest.fn().mockReturnValue([server]);
+        (readMcpResource as jest.Mock).mockResolvedValue('# Readme');
+
+        inputEl.value = 'Summarize this';
+        await controller.sendMessage();
+
+        expect(deps.state.messages[0].content).toBe(
+          'Summarize this\n\n<mcp_resource server="docs" uri="file:///readme.md">\n# Readme\n</mcp_resource>'
+        );
+        expect(deps.state.messages[0].displayContent).toBe('Summarize this');
+        expect(fileContextManager.clearMcpResources).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('Link integrity check', () => {
+    let contentEl: any;
+    let resolveMetadata: () => void;
+
+    beforeEach(() => {
+      contentEl = createMockEl();
+      contentEl.isConnected = true;
+      (deps.renderer.addMessage as jest.Mock).mockReturnValue({
+        querySelector: jest.fn().mockReturnValue(contentEl),
+      });
+      (deps.plugin.app.metadataCache.on as jest.Mock).mockImplementation((_event: string, callback: () => void) => {
+        resolveMetadata = callback;
+        return {};
+      });
+      (deps as any).mockAgentService.query = jest.fn().mockImplementation(() => createMockStream([
+        { type: 'tool_use', id: 'tool-1', name: 'Bash', input: {} },
+      ]));
+    });
+
+    function touchFiles(toolCall: Record<string, unknown>) {
+      (deps.streamController.handleStreamChunk as jest.Mock).mockImplementation(async (_chunk: any, msg: any) => {
+        msg.toolCalls.push({ id: 'tool-1', status: 'completed', ...toolCall });
+      });
+    }
+
+    it('should list links that broke during the turn and offer a fix', async () => {
+      const metadataCache = deps.plugin.app.metadataCache as any;
+      metadataCache.unresolvedLinks = { 'a.md': { 'Old idea': 1 } };
+      touchFiles({ name: 'Bash', input: { command: 'mv Plan.md Archive/Plan.md' } });
+
+      inputEl.value = 'Archive the plan';
+      await controller.sendMessage();
+
+      metadataCache.unresolvedLinks = { 'a.md': { 'Old idea': 1, 'Plan': 1 } };
+      resolveMetadata();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      const brokenEl = contentEl.querySelector('.claudian-broken-links');
+      expect(brokenEl).not.toBeNull();
+      expect(brokenEl.querySelectorAll('.claudian-broken-links-target').map((el: any) => el.textContent))
+        .toEqual(['[[Plan]]']);
+
+      const sendSpy = jest.spyOn(controller, 'sendMessage').mockResolvedValue(undefined);
+      brokenEl.querySelector('.claudian-broken-links-fix').click();
+      expect(sendSpy).toHaveBeenCalledWith({ content: expect.stringContaining('- [[Plan]] in a.md') });
+    });
+
+    it('should not check links when the turn did not touch files', async () => {
+      touchFiles({ name: 'Bash', input: { command: 'ls' } });
+
+      inputEl.value = 'List files';
+      await controller.sendMessage();
+
+      expect(deps.plugin.app.metadataCache.on).not.toHaveBeenCalled();
+    });
+
+    it('should render nothing when no links broke', async () => {
+      touchFiles({ name: 'Write', input: { file_path: 'new.md' } });
+
+      inputEl.value = 'Write a note';
+      await controller.sendMessage();
+      resolveMetadata();
+      await Promise.resolve();
+
+      expect(contentEl.querySelector('.claudian-broken-links')).toBeNull();
+    });
   });
 
   describe('Conversation operation guards', () => {
@@ -1091,6 +1256,70 @@ describe('InputController - Message Queue', () => {
       expect(mockNotice).toHaveBeenCalledWith('Failed to open conversation: session not found');
     });
 
+    it('should list external sessions after conversations', async () => {
+      const external = { id: 'cli-1', title: 'From CLI', createdAt: 500, updatedAt: 500, messageCount: 0, preview: '', isExternal: true };
+      (deps.plugin as any).getConversationList = jest.fn().mockReturnValue(mockConversations);
+      (deps.plugin as any).listExternalSessions = jest.fn().mockResolvedValue([external]);
+      inputEl.value = '/resume';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      expect((ResumeSessionDropdown as jest.Mock).mock.calls[0][2]).toEqual([...mockConversations, external]);
+    });
+
+    it('should show dropdown when only external sessions exist', async () => {
+      const external = { id: 'cli-1', title: 'From CLI', createdAt: 500, updatedAt: 500, messageCount: 0, preview: '', isExternal: true };
+      (deps.plugin as any).getConversationList = jest.fn().mockReturnValue([]);
+      (deps.plugin as any).listExternalSessions = jest.fn().mockResolvedValue([external]);
+      inputEl.value = '/resume';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      expect(mockNotice).not.toHaveBeenCalledWith('No conversations to resume');
+      expect(ResumeSessionDropdown).toHaveBeenCalled();
+    });
+
+    it('should import external sessions before opening them', async () => {
+      const external = { id: 'cli-1', title: 'From CLI', createdAt: 500, updatedAt: 500, messageCount: 0, preview: '', isExternal: true };
+      (deps.plugin as any).getConversationList = jest.fn().mockReturnValue(mockConversations);
+      (deps.plugin as any).listExternalSessions = jest.fn().mockResolvedValue([external]);
+      (deps.plugin as any).importExternalSession = jest.fn().mockResolvedValue({ id: 'cli-1' });
+      deps.openConversation = jest.fn().mockResolvedValue(undefined);
+      inputEl.value = '/resume';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const callbacks = (ResumeSessionDropdown as jest.Mock).mock.calls[0][4];
+      callbacks.onSelect('cli-1');
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect((deps.plugin as any).importExternalSession).toHaveBeenCalledWith('cli-1');
+      expect(deps.openConversation).toHaveBeenCalledWith('cli-1');
+    });
+
+    it('should show notice when an external session cannot be imported', async () => {
+      const external = { id: 'cli-1', title: 'From CLI', createdAt: 500, updatedAt: 500, messageCount: 0, preview: '', isExternal: true };
+      (deps.plugin as any).getConversationList = jest.fn().mockReturnValue([]);
+      (deps.plugin as any).listExternalSessions = jest.fn().mockResolvedValue([external]);
+      deps.openConversation = jest.fn().mockResolvedValue(undefined);
+      inputEl.value = '/resume';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const callbacks = (ResumeSessionDropdown as jest.Mock).mock.calls[0][4];
+      callbacks.onSelect('cli-1');
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(deps.openConversation).not.toHaveBeenCalled();
+      expect(mockNotice).toHaveBeenCalledWith('Failed to open conversation: session file could not be read');
+    });
+
     it('should destroy existing dropdown before creating new one', async () => {
       (deps.plugin as any).getConversationList = jest.fn().mockReturnValue(mockConversations);
       inputEl.value = '/resume';
@@ -1574,6 +1803,84 @@ describe('InputController - Message Queue', () => {
       controller.dismissPendingApproval();
       await approvalPromise;
     });
+
+    it('should not offer "Always allow" when allowAlways is false', async () => {
+      const parentEl = createMockEl();
+      const inputContainerEl = createMockEl();
+      (inputContainerEl as any).parentElement = parentEl;
+      deps.getInputContainerEl = () => inputContainerEl as any;
+
+      controller = new InputController(deps);
+
+      const approvalPromise = controller.handleApprovalRequest(
+        'mcp__github__create_issue',
+        {},
+        'Create issue',
+        { allowAlways: false },
+      );
+
+      const labels = parentEl.querySelectorAll('claudian-ask-item')
+        .map((item: any) => item.querySelector('claudian-ask-item-label')?.textContent);
+      expect(labels).toEqual(['Deny', 'Allow once']);
+
+      controller.dismissPendingApproval();
+      await approvalPromise;
+    });
+  });
+
+  describe('handleEditReview', () => {
+    function setupInputContainer() {
+      const parentEl = createMockEl();
+      const inputContainerEl = createMockEl();
+      (inputContainerEl as any).parentElement = parentEl;
+      deps.getInputContainerEl = () => inputContainerEl as any;
+      return { parentEl, inputContainerEl };
+    }
+
+    it('should show the diff review with a vault-relative path and resolve its decision', async () => {
+      const { parentEl, inputContainerEl } = setupInputContainer();
+      controller = new InputController(deps);
+
+      const input = { file_path: '/mock/vault/notes/a.md', old_string: 'a', new_string: 'b' };
+      const reviewPromise = controller.handleEditReview('Edit', input);
+      await Promise.resolve();
+
+      expect(inputContainerEl.style.display).toBe('none');
+      expect(parentEl.querySelector('claudian-edit-review-path')?.textContent).toBe('notes/a.md');
+
+      parentEl.querySelector('claudian-edit-review-accept')!.click();
+
+      await expect(reviewPromise).resolves.toEqual({ type: 'accept', updatedInput: input });
+      expect(inputContainerEl.style.display).toBe('');
+      expect((controller as any).pendingEditReviewInline).toBeNull();
+    });
+
+    it('should resolve null when dismissed', async () => {
+      setupInputContainer();
+      controller = new InputController(deps);
+
+      const reviewPromise = controller.handleEditReview('Edit', { file_path: 'a.md', old_string: 'a', new_string: 'b' });
+      await Promise.resolve();
+      controller.dismissPendingApproval();
+
+      await expect(reviewPromise).resolves.toBeNull();
+    });
+
+    it('should fall back to the approval prompt when there is nothing to diff', async () => {
+      const { parentEl } = setupInputContainer();
+      controller = new InputController(deps);
+
+      const input = { notebook_path: 'n.ipynb', cell_id: 'c1', new_source: '', edit_mode: 'delete' };
+      const reviewPromise = controller.handleEditReview('NotebookEdit', input);
+      await Promise.resolve();
+
+      const denyItem = parentEl.querySelectorAll('claudian-ask-item').find((item: any) =>
+        item.querySelector('claudian-ask-item-label')?.textContent === 'Deny'
+      );
+      denyItem!.click();
+
+      await expect(reviewPromise).resolves.toEqual({ type: 'reject' });
+    });
   });
 
   describe('handleInstructionSubmit', () => {
@@ -301,6 +301,15 @@ describe('StreamController - Text Content', () => {
 
       expect(deps.state.usage).toBeNull();
     });
+
+    it('should record billed tokens for the turn', async () => {
+      const msg = createTestMessage();
+      const usage = { inputTokens: 5, outputTokens: 7, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 };
+
+      await controller.handleStreamChunk({ type: 'token_usage', messageId: 'msg-1', model: 'sonnet', usage }, msg);
+
+      expect(deps.state.takeTokenUsage(1)).toEqual([{ timestamp: 1, model: 'sonnet', ...usage }]);
+    });
   });
 
   describe('Tool handling', () => {
@@ -0,0 +1,139 @@
+import { createMockEl } from '@test/helpers/mockElement';
+
+import { InlineEditReview } from '@/features/chat/rendering/InlineEditReview';
+import type { EditProposal } from '@/utils/editReview';
+
+beforeAll(() => {
+  globalThis.requestAnimationFrame = (cb: FrameRequestCallback) => {
+    cb(0);
+    return 0;
+  };
+});
+
+const ORIGINAL = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+const PROPOSED = ['A', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'J'].join('\n');
+
+function createProposal(overrides: Partial<EditProposal> = {}): EditProposal {
+  return {
+    filePath: 'notes/todo.md',
+    field: 'content',
+    originalText: ORIGINAL,
+    proposedText: PROPOSED,
+    isNewFile: false,
+    ...overrides,
+  };
+}
+
+function renderReview(proposal = createProposal(), signal?: AbortSignal) {
+  const container = createMockEl();
+  const resolve = jest.fn();
+  const input = { file_path: proposal.filePath, content: proposal.proposedText };
+  const review = new InlineEditReview(container, 'Write', input, proposal, resolve, signal);
+  review.render();
+  const root = container.querySelector('.claudian-edit-review-inline');
+  return { container, root, resolve, input, review };
+}
+
+function fireKeyDown(root: any, key: string, target?: any): void {
+  root.dispatchEvent({ type: 'keydown', key, target, preventDefault: jest.fn(), stopPropagation: jest.fn() });
+}
+
+describe('InlineEditReview', () => {
+  it('renders one toggleable hunk per separated change with stats', () => {
+    const { root } = renderReview();
+
+    expect(root.querySelectorAll('claudian-edit-review-hunk')).toHaveLength(2);
+    expect(root.querySelector('.claudian-edit-review-stats').children.map((c: any) => c.textContent))
+      .toEqual(['+2', ' ', '-2']);
+  });
+
+  it('passes the original input through when everything is accepted', () => {
+    const { root, resolve, input } = renderReview();
+
+    root.querySelector('.claudian-edit-review-accept').click();
+
+    expect(resolve).toHaveBeenCalledWith({ type: 'accept', updatedInput: input });
+  });
+
+  it('leaves out rejected hunks', () => {
+    const { root, resolve, input } = renderReview();
+
+    const [firstToggle] = root.querySelectorAll('claudian-edit-review-hunk-toggle');
+    firstToggle.checked = false;
+    firstToggle.dispatchEvent('change');
+
+    const acceptBtn = root.querySelector('.claudian-edit-review-accept');
+    expect(acceptBtn.textContent).toBe('Accept selected (1/2)');
+    expect(root.querySelectorAll('claudian-edit-review-hunk')[0].hasClass('is-rejected')).toBe(true);
+
+    acceptBtn.click();
+
+    expect(resolve).toHaveBeenCalledWith({
+      type: 'accept',
+      updatedInput: { ...input, content: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'J'].join('\n') },
+    });
+  });
+
+  it('rejects when every hunk is deselected', () => {
+    const { root, resolve } = renderReview();
+
+    for (const toggle of root.querySelectorAll('claudian-edit-review-hunk-toggle')) {
+      toggle.checked = false;
+      toggle.dispatchEvent('change');
+    }
+    root.querySelector('.claudian-edit-review-accept').click();
+
+    expect(resolve).toHaveBeenCalledWith({ type: 'reject', feedback: 'All changes were deselected' });
+  });
+
+  it('accepts text edited by the user', () => {
+    const { root, resolve, input } = renderReview();
+
+    root.querySelector('.claudian-edit-review-toggle').click();
+    const editor = root.querySelector('.claudian-edit-review-editor');
+    expect(editor.value).toBe(PROPOSED);
+
+    editor.value = 'custom';
+    root.querySelector('.claudian-edit-review-accept').click();
+
+    expect(resolve).toHaveBeenCalledWith({ type: 'accept', updatedInput: { ...input, content: 'custom' } });
+  });
+
+  it('recomputes the diff when returning from the editor', () => {
+    const { root } = renderReview();
+
+    root.querySelector('.claudian-edit-review-toggle').click();
+    root.querySelector('.claudian-edit-review-editor').value = ORIGINAL;
+    root.querySelector('.claudian-edit-review-toggle').click();
+
+    expect(root.querySelectorAll('claudian-edit-review-hunk')).toHaveLength(0);
+    expect(root.querySelector('.claudian-diff-no-changes')).not.toBeNull();
+  });
+
+  it('rejects with feedback on Enter in the feedback input', () => {
+    const { root, resolve } = renderReview();
+
+    const feedback = root.querySelector('.claudian-edit-review-feedback');
+    feedback.value = '  keep the heading  ';
+    fireKeyDown(root, 'Enter', feedback);
+
+    expect(resolve).toHaveBeenCalledWith({ type: 'reject', feedback: 'keep the heading' });
+  });
+
+  it('resolves null on Escape and on abort, only once', () => {
+    const controller = new AbortController();
+    const { root, resolve } = renderReview(createProposal(), controller.signal);
+
+    fireKeyDown(root, 'Escape');
+    controller.abort();
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(resolve).toHaveBeenCalledWith(null);
+  });
+
+  it('marks new files', () => {
+    const { root } = renderReview(createProposal({ originalText: '', isNewFile: true }));
+
+    expect(root.querySelector('.claudian-edit-review-badge').textContent).toBe('new file');
+  });
+});
@@ -817,6 +817,38 @@ describe('MessageRenderer', () => {
   // addTextCopyButton - click behavior
   // ============================================
 
+  describe('scrollToMessage', () => {
+    it('tags rendered messages with their id', () => {
+      const { renderer, messagesEl } = createRenderer();
+
+      renderer.renderStoredMessage({ id: 'm1', role: 'user', content: 'Hi', timestamp: 1 });
+
+      expect(messagesEl.children[0].dataset.messageId).toBe('m1');
+    });
+
+    it('scrolls to and highlights the matching message', () => {
+      jest.useFakeTimers();
+      const { renderer, messagesEl } = createRenderer();
+      renderer.renderStoredMessage({ id: 'm1', role: 'user', content: 'Hi', timestamp: 1 });
+      const msgEl = messagesEl.children[0];
+      const scrollSpy = jest.spyOn(msgEl, 'scrollIntoView');
+
+      expect(renderer.scrollToMessage('m1')).toBe(true);
+      expect(scrollSpy).toHaveBeenCalled();
+      expect(msgEl.hasClass('claudian-message-search-hit')).toBe(true);
+
+      jest.advanceTimersByTime(2000);
+      expect(msgEl.hasClass('claudian-message-search-hit')).toBe(false);
+      jest.useRealTimers();
+    });
+
+    it('returns false when the message is not rendered', () => {
+      const { renderer } = createRenderer();
+
+      expect(renderer.scrollToMessage('missing')).toBe(false);
+    });
+  });
+
   describe('addTextCopyButton - click behavior', () => {
     let originalNavigator: Navigator;
 
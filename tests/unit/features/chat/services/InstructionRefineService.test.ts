@@ -25,6 +25,7 @@ function createMockPlugin(settings = {}) {
     },
     getActiveEnvironmentVariables: jest.fn().mockReturnValue(''),
     getResolvedClaudeCliPath: jest.fn().mockReturnValue('/fake/claude'),
+    rememberInternalSession: jest.fn().mockResolvedValue(undefined),
   } as any;
 }
 
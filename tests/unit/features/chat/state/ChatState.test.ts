@@ -251,6 +251,39 @@ describe('ChatState', () => {
     });
   });
 
+  describe('token usage', () => {
+    const tokens = (inputTokens: number, outputTokens: number) => ({
+      inputTokens,
+      outputTokens,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    });
+
+    it('keeps the latest counts per message and sums per model', () => {
+      const chatState = new ChatState();
+      chatState.recordTokenUsage('msg-1', 'sonnet', tokens(10, 1));
+      chatState.recordTokenUsage('msg-1', 'sonnet', tokens(10, 5));
+      chatState.recordTokenUsage('msg-2', 'sonnet', tokens(20, 2));
+      chatState.recordTokenUsage('msg-3', 'haiku', tokens(3, 3));
+
+      const records = chatState.takeTokenUsage(1000);
+
+      expect(records).toEqual([
+        { timestamp: 1000, model: 'sonnet', ...tokens(30, 7) },
+        { timestamp: 1000, model: 'haiku', ...tokens(3, 3) },
+      ]);
+    });
+
+    it('clears pending usage once taken', () => {
+      const chatState = new ChatState();
+      chatState.recordTokenUsage('msg-1', 'sonnet', tokens(10, 1));
+
+      chatState.takeTokenUsage();
+
+      expect(chatState.takeTokenUsage()).toEqual([]);
+    });
+  });
+
   describe('currentTodos', () => {
     it('fires onTodosChanged when todos change', () => {
       const onTodosChanged = jest.fn();
@@ -426,6 +459,9 @@ describe('ChatState', () => {
       chatState.queuedMessage = { content: 'queued', editorContext: null };
       chatState.usage = { inputTokens: 100, outputTokens: 50 } as any;
       chatState.currentTodos = [{ content: 'Test', status: 'pending' as const, activeForm: 'Testing' }];
+      chatState.recordTokenUsage('msg-1', 'sonnet', {
+        inputTokens: 1, outputTokens: 1, cacheCreationInputTokens: 0, cacheReadInputTokens: 0,
+      });
       // autoScrollEnabled defaults to true, set to false first so reset triggers change
       chatState.autoScrollEnabled = false;
 
@@ -445,6 +481,7 @@ describe('ChatState', () => {
       expect(chatState.usage).toBeNull();
       expect(chatState.currentTodos).toBeNull();
       expect(chatState.autoScrollEnabled).toBe(true);
+      expect(chatState.takeTokenUsage()).toEqual([]);
 
       // Verify callbacks were fired
       expect(onMessagesChanged).toHaveBeenCalled();
@@ -54,6 +54,7 @@ const createMockFileContextManager = () => ({
   handleMentionKeydown: jest.fn().mockReturnValue(false),
   isMentionDropdownVisible: jest.fn().mockReturnValue(false),
   hideMentionDropdown: jest.fn(),
+  attachMcpResource: jest.fn(),
   destroy: jest.fn(),
 });
 
@@ -89,6 +90,7 @@ const createMockStatusPanel = () => ({
   mount: jest.fn(),
   remount: jest.fn(),
   updateTodos: jest.fn(),
+  updateBatchRuns: jest.fn(),
   updateSubagent: jest.fn(),
   removeSubagent: jest.fn(),
   clearSubagents: jest.fn(),
@@ -136,6 +138,7 @@ const createMockExternalContextSelector = () => ({
 
 const createMockMcpServerSelector = () => ({
   setMcpManager: jest.fn(),
+  setOnBrowse: jest.fn(),
   addMentionedServers: jest.fn(),
 });
 
@@ -195,6 +198,7 @@ jest.mock('@/features/chat/ui', () => ({
     mockStatusPanel = createMockStatusPanel();
     return mockStatusPanel;
   }),
+  McpBrowserModal: jest.fn().mockImplementation(() => ({ open: jest.fn() })),
   createInputToolbar: jest.fn().mockImplementation(() => {
     mockModelSelector = createMockModelSelector();
     mockThinkingBudgetSelector = createMockThinkingBudgetSelector();
@@ -305,6 +309,12 @@ function createMockPlugin(overrides: Record<string, any> = {}): any {
     },
     mcpManager: { getMcpServers: jest.fn().mockReturnValue([]) },
     agentManager: { searchAgents: jest.fn().mockReturnValue([]) },
+    batchRunner: {
+      getRuns: jest.fn().mockReturnValue([]),
+      onChange: jest.fn().mockReturnValue(jest.fn()),
+      cancel: jest.fn(),
+      clearFinished: jest.fn(),
+    },
     getConversationById: jest.fn().mockResolvedValue(null),
     getConversationSync: jest.fn().mockReturnValue(null),
     saveSettings: jest.fn().mockResolvedValue(undefined),
@@ -851,6 +861,26 @@ describe('Tab - UI Initialization', () => {
       expect(mockStatusPanel.mount).toHaveBeenCalledWith(tab.dom.statusPanelContainerEl);
     });
 
+    it('should show batch runs in StatusPanel and unsubscribe on destroy', async () => {
+      const runs = [{ id: 'batch-1', commandName: 'tidy', permissionMode: 'normal', startedAt: 1, files: [] }];
+      const unsubscribe = jest.fn();
+      const batchRunner = {
+        getRuns: jest.fn().mockReturnValue(runs),
+        onChange: jest.fn().mockReturnValue(unsubscribe),
+      };
+      const options = createMockOptions({ plugin: createMockPlugin({ batchRunner }) });
+      const tab = createTab(options);
+
+      initializeTabUI(tab, options.plugin);
+      expect(mockStatusPanel.updateBatchRuns).toHaveBeenCalledWith(runs);
+
+      batchRunner.onChange.mock.calls[0][0]();
+      expect(mockStatusPanel.updateBatchRuns).toHaveBeenCalledTimes(2);
+
+      await destroyTab(tab);
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+
     it('should create input toolbar components', () => {
       const options = createMockOptions();
       const tab = createTab(options);
@@ -874,6 +904,25 @@ describe('Tab - UI Initialization', () => {
       expect(mockMcpServerSelector.setMcpManager).toHaveBeenCalledWith(options.plugin.mcpManager);
     });
 
+    it('should open the MCP browser and attach chosen resources', () => {
+      const { McpBrowserModal } = jest.requireMock('@/features/chat/ui');
+      const options = createMockOptions();
+      const tab = createTab(options);
+
+      initializeTabUI(tab, options.plugin);
+      const onBrowse = mockMcpServerSelector.setOnBrowse.mock.calls[0][0];
+      onBrowse();
+
+      expect(McpBrowserModal).toHaveBeenCalledWith(options.plugin.app, options.plugin.mcpManager, expect.any(Object));
+      const modalCallbacks = McpBrowserModal.mock.calls[0][2];
+      modalCallbacks.onAttachResource('docs', { uri: 'file:///readme.md', name: 'readme' });
+      expect(mockFileContextManager.attachMcpResource).toHaveBeenCalledWith({
+        server: 'docs',
+        uri: 'file:///readme.md',
+        name: 'readme',
+      });
+    });
+
     it('should wire external context selector onChange', () => {
       const options = createMockOptions();
       const tab = createTab(options);
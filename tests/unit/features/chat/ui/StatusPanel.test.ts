@@ -1,4 +1,5 @@
 import type { TodoItem } from '@/core/tools';
+import type { BatchRun } from '@/core/types';
 import { StatusPanel } from '@/features/chat/ui/StatusPanel';
 
 // Mock obsidian
@@ -1160,4 +1161,95 @@ describe('StatusPanel', () => {
       expect(writeTextMock).toHaveBeenCalled();
     });
   });
+
+  describe('batch runs', () => {
+    const edit = {
+      id: 'tool-1',
+      name: 'Edit',
+      input: { file_path: 'notes/a.md' },
+      status: 'completed' as const,
+      diffData: { filePath: 'notes/a.md', diffLines: [], stats: { added: 3, removed: 1 } },
+    };
+
+    function createRun(overrides: Partial<BatchRun> = {}): BatchRun {
+      return {
+        id: 'batch-1',
+        commandName: 'tidy',
+        permissionMode: 'normal',
+        startedAt: 1,
+        files: [
+          { path: 'notes/a.md', status: 'success', edits: [edit] },
+          { path: 'notes/b.md', status: 'error', error: 'Rate limited', edits: [] },
+          { path: 'notes/c.md', status: 'running', edits: [] },
+        ],
+        ...overrides,
+      };
+    }
+
+    it('should stay hidden without runs', () => {
+      panel.mount(containerEl as unknown as HTMLElement);
+      panel.updateBatchRuns([]);
+
+      expect(containerEl.querySelector('.claudian-status-panel-batch')!.style.display).toBe('none');
+    });
+
+    it('should render progress and per-file results', () => {
+      panel.mount(containerEl as unknown as HTMLElement);
+      panel.updateBatchRuns([createRun()]);
+
+      const entry = containerEl.querySelector('.claudian-status-panel-batch-entry');
+      expect(entry!.querySelector('.claudian-tool-label')!.textContent).toBe('/tidy (2/3)');
+
+      const files = containerEl.querySelectorAll('.claudian-status-panel-batch-file');
+      expect(files.map(f => f.className)).toEqual([
+        'claudian-status-panel-batch-file status-success',
+        'claudian-status-panel-batch-file status-error',
+        'claudian-status-panel-batch-file status-running',
+      ]);
+      expect(files[0].querySelector('.claudian-status-panel-batch-diff')!.textContent).toBe('+3 -1');
+      expect(files[1].querySelector('.claudian-status-panel-batch-error')!.textContent).toBe('Rate limited');
+    });
+
+    it('should delegate file, diff, and cancel actions to callbacks', () => {
+      const callbacks = {
+        onOpenFile: jest.fn(),
+        onShowBatchEdits: jest.fn(),
+        onCancelBatch: jest.fn(),
+        onClearBatches: jest.fn(),
+      };
+      panel = new StatusPanel(callbacks);
+      panel.mount(containerEl as unknown as HTMLElement);
+      const run = createRun();
+      panel.updateBatchRuns([run]);
+
+      containerEl.querySelector('.claudian-status-panel-batch-path')!.click();
+      containerEl.querySelector('.claudian-status-panel-batch-diff')!.click();
+      containerEl.querySelector('.claudian-status-panel-bash-action-cancel')!.click();
+
+      expect(callbacks.onOpenFile).toHaveBeenCalledWith('notes/a.md');
+      expect(callbacks.onShowBatchEdits).toHaveBeenCalledWith(run.files[0]);
+      expect(callbacks.onCancelBatch).toHaveBeenCalledWith('batch-1');
+    });
+
+    it('should offer clearing once the run finished', () => {
+      const onClearBatches = jest.fn();
+      panel = new StatusPanel({ onClearBatches });
+      panel.mount(containerEl as unknown as HTMLElement);
+      panel.updateBatchRuns([createRun({ finishedAt: 2 })]);
+
+      expect(containerEl.querySelector('.claudian-status-panel-bash-action-cancel')).toBeNull();
+      containerEl.querySelector('.claudian-status-panel-bash-action-clear')!.click();
+
+      expect(onClearBatches).toHaveBeenCalled();
+    });
+
+    it('should restore batch runs on remount', () => {
+      panel.mount(containerEl as unknown as HTMLElement);
+      panel.updateBatchRuns([createRun()]);
+
+      panel.remount();
+
+      expect(containerEl.querySelectorAll('.claudian-status-panel-batch-entry')).toHaveLength(1);
+    });
+  });
 });
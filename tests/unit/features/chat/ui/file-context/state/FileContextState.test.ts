@@ -149,6 +149,34 @@ describe('FileContextState', () => {
     });
   });
 
+  describe('MCP resource attachments', () => {
+    const readme = { server: 'docs', uri: 'file:///readme.md', name: 'readme' };
+
+    it('should attach each resource once', () => {
+      expect(state.attachMcpResource(readme)).toBe(true);
+      expect(state.attachMcpResource({ ...readme })).toBe(false);
+      expect(state.getMcpResources()).toEqual([readme]);
+    });
+
+    it('should keep the same URI from different servers apart', () => {
+      state.attachMcpResource(readme);
+      state.attachMcpResource({ ...readme, server: 'other' });
+      expect(state.getMcpResources()).toHaveLength(2);
+    });
+
+    it('should detach by server and URI', () => {
+      state.attachMcpResource(readme);
+      state.detachMcpResource('docs', 'file:///readme.md');
+      expect(state.getMcpResources()).toEqual([]);
+    });
+
+    it('should clear resources on reset', () => {
+      state.attachMcpResource(readme);
+      state.resetForNewConversation();
+      expect(state.getMcpResources()).toEqual([]);
+    });
+  });
+
   describe('MCP server mentions', () => {
     it('should add a mentioned MCP server', () => {
       state.addMentionedMcpServer('server1');
@@ -0,0 +1,192 @@
+import * as sdk from '@anthropic-ai/claude-agent-sdk';
+// eslint-disable-next-line jest/no-mocks-import
+import {
+  getLastOptions,
+  resetMockMessages,
+  setMockMessages,
+} from '@test/__mocks__/claude-agent-sdk';
+
+import { BUILT_IN_REDACTION_RULES, Redactor } from '@/core/redaction';
+import {
+  buildGhostTextPrompt,
+  GhostTextService,
+  isGhostTextEnabledForPath,
+  parseGhostTextResponse,
+} from '@/features/ghost-text/GhostTextService';
+import { buildCursorContext } from '@/utils/editor';
+
+function createMockPlugin(settings = {}, redactor = new Redactor(() => [])) {
+  return {
+    redactor,
+    settings: {
+      loadUserClaudeSettings: false,
+      ...settings,
+    },
+    app: {
+      vault: {
+        adapter: {
+          basePath: '/test/vault/path',
+        },
+      },
+    },
+    getActiveEnvironmentVariables: jest.fn().mockReturnValue(''),
+    getResolvedClaudeCliPath: jest.fn().mockReturnValue('/fake/claude'),
+  } as any;
+}
+
+function assistantMessages(text: string) {
+  return [
+    { type: 'system', subtype: 'init', session_id: 'test-session' },
+    { type: 'assistant', message: { content: [{ type: 'text', text }] } },
+    { type: 'result' },
+  ];
+}
+
+const lines = ['# Trip', '', 'We left early and'];
+const request = {
+  notePath: 'Journal/trip.md',
+  cursorContext: buildCursorContext((i) => lines[i], lines.length, 2, lines[2].length),
+  precedingText: '# Trip\n',
+};
+
+describe('isGhostTextEnabledForPath', () => {
+  it('allows every note when no folders are listed', () => {
+    expect(isGhostTextEnabledForPath('a.md', [])).toBe(true);
+    expect(isGhostTextEnabledForPath(null, [])).toBe(true);
+  });
+
+  it('allows notes inside a listed folder and its subfolders', () => {
+    expect(isGhostTextEnabledForPath('Journal/2024/day.md', ['Journal'])).toBe(true);
+    expect(isGhostTextEnabledForPath('Journal/day.md', ['/Journal/'])).toBe(true);
+  });
+
+  it('rejects notes outside the listed folders', () => {
+    expect(isGhostTextEnabledForPath('Journaling/day.md', ['Journal'])).toBe(false);
+    expect(isGhostTextEnabledForPath('day.md', ['Journal'])).toBe(false);
+    expect(isGhostTextEnabledForPath(null, ['Journal'])).toBe(false);
+  });
+
+  it('treats the vault root as all notes', () => {
+    expect(isGhostTextEnabledForPath('day.md', ['/'])).toBe(true);
+  });
+});
+
+describe('buildGhostTextPrompt', () => {
+  it('includes the preceding text and the cursor line', () => {
+    const prompt = buildGhostTextPrompt(request);
+
+    expect(prompt).toContain('<preceding_text>\n# Trip\n\n</preceding_text>');
+    expect(prompt).toContain('<editor_cursor path="Journal/trip.md">\nWe left early and| #inline\n</editor_cursor>');
+  });
+
+  it('omits blank preceding text', () => {
+    const prompt = buildGhostTextPrompt({ ...request, precedingText: '  ' });
+
+    expect(prompt).not.toContain('<preceding_text>');
+  });
+});
+
+describe('parseGhostTextResponse', () => {
+  it('extracts the completion and keeps its leading space', () => {
+    expect(parseGhostTextResponse('<completion> drove north.</completion>')).toBe(' drove north.');
+  });
+
+  it('falls back to the raw reply without tags', () => {
+    expect(parseGhostTextResponse(' drove north.\n')).toBe(' drove north.');
+  });
+
+  it('stops at the first blank line', () => {
+    expect(parseGhostTextResponse('<completion> drove north.\n\nNext day</completion>')).toBe(' drove north.');
+  });
+
+  it('caps long completions', () => {
+    expect(parseGhostTextResponse(`<completion>${'a'.repeat(500)}</completion>`)).toHaveLength(200);
+  });
+
+  it('returns null for empty completions', () => {
+    expect(parseGhostTextResponse('<completion></completion>')).toBeNull();
+    expect(parseGhostTextResponse('  ')).toBeNull();
+  });
+});
+
+describe('GhostTextService', () => {
+  let service: GhostTextService;
+  let mockPlugin: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetMockMessages();
+    mockPlugin = createMockPlugin();
+    service = new GhostTextService(mockPlugin);
+  });
+
+  it('returns the parsed continuation', async () => {
+    setMockMessages(assistantMessages('<completion> drove north.</completion>'));
+
+    await expect(service.complete(request)).resolves.toBe(' drove north.');
+  });
+
+  it('runs a tool-less query on the fast model', async () => {
+    setMockMessages(assistantMessages('<completion> x</completion>'));
+
+    await service.complete(request);
+
+    const options = getLastOptions();
+    expect(options?.tools).toEqual([]);
+    expect(options?.model).toBe('claude-haiku-4-5');
+    expect(options?.settingSources).toEqual(['project']);
+  });
+
+  it('uses ANTHROPIC_DEFAULT_HAIKU_MODEL when set', async () => {
+    mockPlugin.getActiveEnvironmentVariables.mockReturnValue('ANTHROPIC_DEFAULT_HAIKU_MODEL=custom-haiku');
+    setMockMessages(assistantMessages('<completion> x</completion>'));
+
+    await service.complete(request);
+
+    expect(getLastOptions()?.model).toBe('custom-haiku');
+  });
+
+  it('masks secrets in the prompt and restores them in the continuation', async () => {
+    const querySpy = jest.spyOn(sdk, 'query');
+    const redactor = new Redactor(() => [BUILT_IN_REDACTION_RULES.emails]);
+    const placeholder = redactor.redact('a@example.com').text;
+    service = new GhostTextService(createMockPlugin({}, redactor));
+    setMockMessages(assistantMessages(`<completion> and wrote to ${placeholder}.</completion>`));
+
+    const result = await service.complete({ ...request, precedingText: 'Contact a@example.com\n' });
+
+    const prompt = querySpy.mock.calls[0][0].prompt as string;
+    expect(prompt).toContain(placeholder);
+    expect(prompt).not.toContain('a@example.com');
+    expect(result).toBe(' and wrote to a@example.com.');
+    querySpy.mockRestore();
+  });
+
+  it('returns null without a Claude CLI', async () => {
+    mockPlugin.getResolvedClaudeCliPath.mockReturnValue(null);
+
+    await expect(service.complete(request)).resolves.toBeNull();
+  });
+
+  it('aborts the previous request when a new one starts', async () => {
+    setMockMessages(assistantMessages('<completion> x</completion>'));
+
+    const first = service.complete(request);
+    const firstController = getLastOptions()?.abortController;
+    const second = service.complete(request);
+
+    expect(firstController?.signal.aborted).toBe(true);
+    await expect(first).resolves.toBeNull();
+    await expect(second).resolves.toBe(' x');
+  });
+
+  it('aborts the pending request on cancel', async () => {
+    setMockMessages(assistantMessages('<completion> x</completion>'));
+
+    const pending = service.complete(request);
+    service.cancel();
+
+    expect(getLastOptions()?.abortController?.signal.aborted).toBe(true);
+    await expect(pending).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { EditorSelection, EditorState } from '@codemirror/state';
+import { editorInfoField } from 'obsidian';
+
+import {
+  buildGhostTextRequest,
+  ghostTextField,
+  setGhostText,
+} from '@/features/ghost-text/ui/GhostTextExtension';
+
+function createState(doc: string, cursor: number, notePath = 'Notes/a.md') {
+  return EditorState.create({
+    doc,
+    selection: { anchor: cursor },
+    extensions: [ghostTextField, editorInfoField.init(() => ({ file: { path: notePath } }) as any)],
+  });
+}
+
+describe('ghostTextField', () => {
+  it('shows the ghost text set by the effect', () => {
+    const state = createState('Hello', 5);
+    const next = state.update({ effects: setGhostText.of({ pos: 5, text: ' world' }) }).state;
+
+    expect(next.field(ghostTextField)).toEqual({ pos: 5, text: ' world' });
+  });
+
+  it('clears on typing', () => {
+    const state = createState('Hello', 5)
+      .update({ effects: setGhostText.of({ pos: 5, text: ' world' }) }).state;
+    const next = state.update({ changes: { from: 5, insert: '!' } }).state;
+
+    expect(next.field(ghostTextField)).toBeNull();
+  });
+
+  it('clears when the cursor moves', () => {
+    const state = createState('Hello', 5)
+      .update({ effects: setGhostText.of({ pos: 5, text: ' world' }) }).state;
+    const next = state.update({ selection: { anchor: 2 } }).state;
+
+    expect(next.field(ghostTextField)).toBeNull();
+  });
+});
+
+describe('buildGhostTextRequest', () => {
+  it('builds the cursor context and preceding lines for the note', () => {
+    const request = buildGhostTextRequest(createState('# Title\n\nSome text', 18));
+
+    expect(request).toEqual({
+      notePath: 'Notes/a.md',
+      cursorContext: expect.objectContaining({ beforeCursor: 'Some text', afterCursor: '', line: 2, column: 9 }),
+      precedingText: '# Title\n',
+    });
+  });
+
+  it('has no preceding text on the first line', () => {
+    expect(buildGhostTextRequest(createState('Hello', 5))?.precedingText).toBe('');
+  });
+
+  it('skips non-empty selections and multiple cursors', () => {
+    const selected = createState('Hello', 0).update({ selection: { anchor: 0, head: 5 } }).state;
+    const multi = EditorState.create({
+      doc: 'Hello',
+      selection: EditorSelection.create([EditorSelection.cursor(1), EditorSelection.cursor(4)]),
+      extensions: [EditorState.allowMultipleSelections.of(true)],
+    });
+
+    expect(buildGhostTextRequest(selected)).toBeNull();
+    expect(buildGhostTextRequest(multi)).toBeNull();
+  });
+});
@@ -11,13 +11,16 @@ import * as os from 'os';
 jest.mock('fs');
 
 // Now import after all mocks are set up
+import { RedactedFileStore, Redactor } from '@/core/redaction';
 import { getPathFromToolInput } from '@/core/tools/toolInput';
 import type { InlineEditRequest } from '@/features/inline-edit/InlineEditService';
 import {
   buildInlineEditPrompt,
+  buildRefinePrompt,
   createReadOnlyHook,
   createVaultRestrictionHook,
   extractTextFromSdkMessage,
+  formatIndexedReplacements,
   InlineEditService,
   parseInlineEditResponse,
 } from '@/features/inline-edit/InlineEditService';
@@ -25,6 +28,7 @@ import { buildCursorContext } from '@/utils/editor';
 
 // Create a mock plugin
 function createMockPlugin(settings = {}) {
+  const redactor = new Redactor(() => []);
   return {
     settings: {
       model: 'sonnet',
@@ -40,6 +44,9 @@ function createMockPlugin(settings = {}) {
     },
     getActiveEnvironmentVariables: jest.fn().mockReturnValue(''),
     getResolvedClaudeCliPath: jest.fn().mockReturnValue('/fake/claude'),
+    rememberInternalSession: jest.fn().mockResolvedValue(undefined),
+    redactor,
+    redactedFiles: new RedactedFileStore(redactor, () => null),
   } as any;
 }
 
@@ -568,6 +575,7 @@ describe('InlineEditService', () => {
 
       const options = getLastOptions();
       expect(options?.resume).toBe('inline-session-123');
+      expect(mockPlugin.rememberInternalSession).toHaveBeenCalledWith('inline-session-123');
     });
 
     it('should return clarification response', async () => {
@@ -739,6 +747,140 @@ describe('InlineEditService', () => {
     });
   });
 
+  describe('proposal history and refine', () => {
+    beforeEach(() => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+    });
+
+    function replyWith(text: string, sessionId?: string) {
+      setMockMessages([
+        ...(sessionId ? [{ type: 'system', subtype: 'init', session_id: sessionId }] : []),
+        { type: 'assistant', message: { content: [{ type: 'text', text }] } },
+        { type: 'result' },
+      ]);
+    }
+
+    it('should keep every proposal of the conversation in order', async () => {
+      replyWith('<replacement>first</replacement>', 'refine-session');
+      await service.editText({ mode: 'selection', selectedText: 'text', instruction: 'fix', notePath: 'a.md' });
+
+      replyWith('<replacement>second</replacement>');
+      const result = await service.refine('shorter', 'first');
+
+      expect(result.editedText).toBe('second');
+      expect(getLastOptions()?.resume).toBe('refine-session');
+      expect(service.getProposals()).toEqual([
+        { instruction: 'fix', kind: 'replacement', text: 'first' },
+        { instruction: 'shorter', kind: 'replacement', text: 'second' },
+      ]);
+    });
+
+    it('should not record clarifications as proposals', async () => {
+      replyWith('Which part?', 'clarify-session');
+      await service.editText({ mode: 'selection', selectedText: 'text', instruction: 'fix', notePath: 'a.md' });
+
+      expect(service.getProposals()).toEqual([]);
+    });
+
+    it('should clear the history on a new edit and on reset', async () => {
+      replyWith('<replacement>first</replacement>', 's1');
+      await service.editText({ mode: 'selection', selectedText: 'text', instruction: 'fix', notePath: 'a.md' });
+      replyWith('<replacement>other</replacement>', 's2');
+      await service.editText({ mode: 'selection', selectedText: 'text', instruction: 'redo', notePath: 'a.md' });
+
+      expect(service.getProposals()).toHaveLength(1);
+
+      service.resetConversation();
+      expect(service.getProposals()).toEqual([]);
+    });
+
+    it('should fail to refine without an active conversation', async () => {
+      const result = await service.refine('shorter', 'text');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No active conversation');
+    });
+  });
+
+  describe('note and multi-selection modes', () => {
+    it('should send the whole note for note mode', () => {
+      const prompt = buildInlineEditPrompt({
+        mode: 'note',
+        instruction: 'make headings sentence case',
+        notePath: 'notes/a.md',
+        noteContent: '# My Title\ntext',
+      });
+
+      expect(prompt).toBe('make headings sentence case\n\n<editor_note path="notes/a.md">\n# My Title\ntext\n</editor_note>');
+    });
+
+    it('should number each selection in multi-selection mode', () => {
+      const prompt = buildInlineEditPrompt({
+        mode: 'multi-selection',
+        instruction: 'fix the tables',
+        notePath: 'notes/a.md',
+        selections: [
+          { text: '| a |', startLine: 3, lineCount: 1 },
+          { text: '| b |\n| c |', startLine: 10, lineCount: 2 },
+        ],
+      });
+
+      expect(prompt).toContain('<editor_selection index="1" path="notes/a.md" lines="3-3">\n| a |\n</editor_selection>');
+      expect(prompt).toContain('<editor_selection index="2" path="notes/a.md" lines="10-11">');
+      expect(prompt.startsWith('fix the tables')).toBe(true);
+    });
+
+    it('should parse indexed replacements by index', () => {
+      const result = parseInlineEditResponse(
+        '<replacement index="2">second</replacement>\n<replacement index="1">first</replacement>'
+      );
+
+      expect(result).toEqual({ success: true, editedTexts: ['first', 'second'] });
+    });
+
+    it('should record multi-selection proposals', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      setMockMessages([
+        { type: 'system', subtype: 'init', session_id: 'multi-session' },
+        {
+          type: 'assistant',
+          message: { content: [{ type: 'text', text: '<replacement index="1">A</replacement><replacement index="2">B</replacement>' }] },
+        },
+        { type: 'result' },
+      ]);
+
+      await service.editText({
+        mode: 'multi-selection',
+        instruction: 'upper',
+        notePath: 'a.md',
+        selections: [{ text: 'a', startLine: 1, lineCount: 1 }, { text: 'b', startLine: 2, lineCount: 1 }],
+      });
+
+      expect(service.getProposals()).toEqual([{ instruction: 'upper', kind: 'replacements', texts: ['A', 'B'] }]);
+    });
+
+    it('should format indexed replacements for refining', () => {
+      expect(formatIndexedReplacements(['x', 'y'])).toBe(
+        '<replacement index="1">x</replacement>\n<replacement index="2">y</replacement>'
+      );
+      expect(buildRefinePrompt('again', 'x', 'multi-selection')).toContain('<replacement index="N">');
+    });
+  });
+
+  describe('buildRefinePrompt', () => {
+    it('should put the instruction first and ask for a full replacement', () => {
+      const prompt = buildRefinePrompt('shorter please', 'kept text', 'selection');
+
+      expect(prompt.startsWith('shorter please')).toBe(true);
+      expect(prompt).toContain('<current_proposal>\nkept text\n</current_proposal>');
+      expect(prompt).toContain('<replacement>');
+    });
+
+    it('should ask for an insertion in cursor mode', () => {
+      expect(buildRefinePrompt('more', 'x', 'cursor')).toContain('<insertion>');
+    });
+  });
+
   describe('resetConversation', () => {
     it('should clear session so continueConversation fails', async () => {
       (fs.existsSync as jest.Mock).mockReturnValue(true);
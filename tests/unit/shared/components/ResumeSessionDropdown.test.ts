@@ -127,6 +127,26 @@ describe('ResumeSessionDropdown', () => {
       dropdown.destroy();
     });
 
+    it('marks external sessions and labels them as CLI sessions', () => {
+      const dropdown = new ResumeSessionDropdown(
+        containerEl,
+        inputEl,
+        [createConversation('cli-1', 'From terminal', { lastResponseAt: 4000, isExternal: true })],
+        null,
+        callbacks
+      );
+
+      const dropdownEl = containerEl.children.find(
+        (c: any) => c.hasClass('claudian-resume-dropdown')
+      );
+      const [item] = dropdownEl.querySelectorAll('.claudian-resume-item');
+      expect(item.hasClass('external')).toBe(true);
+      const dateEl = item.querySelector('.claudian-resume-item-date');
+      expect(dateEl.textContent).toMatch(/^CLI session · /);
+
+      dropdown.destroy();
+    });
+
     it('renders empty state when no conversations', () => {
       const dropdown = new ResumeSessionDropdown(
         containerEl, inputEl, [], null, callbacks
@@ -273,6 +273,36 @@ describe('SlashCommandDropdown', () => {
     });
   });
 
+  describe('MCP prompt commands', () => {
+    it('should list MCP prompts ahead of a same-named SDK command', async () => {
+      const mcpPrompt: SlashCommand = {
+        id: 'mcp:docs:review', name: 'mcp__docs__review', description: 'Review code (docs)', content: '', source: 'mcp',
+      };
+      const getSdkCommands = jest.fn().mockResolvedValue([
+        { ...mcpPrompt, id: 'sdk:mcp__docs__review', description: 'SDK copy', source: 'sdk' },
+      ]);
+      const getMcpPromptCommands = jest.fn().mockReturnValue([mcpPrompt]);
+
+      const dropdownWithMcp = new SlashCommandDropdown(
+        containerEl,
+        inputEl,
+        { ...callbacks, getSdkCommands, getMcpPromptCommands }
+      );
+
+      inputEl.value = '/mcp__';
+      inputEl.selectionStart = 6;
+      dropdownWithMcp.handleInputChange();
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(getRenderedItems(containerEl)).toEqual([
+        { name: 'mcp__docs__review', description: 'Review code (docs)' },
+      ]);
+
+      dropdownWithMcp.destroy();
+    });
+  });
+
   describe('SDK command caching', () => {
     it('should cache SDK commands after first successful fetch', async () => {
       const getSdkCommands = jest.fn().mockResolvedValue(SDK_COMMANDS);
@@ -0,0 +1,292 @@
+import type { ChatMessage, Conversation } from '@/core/types';
+import {
+  collectTouchedFiles,
+  conversationToMarkdown,
+  DEFAULT_EXPORT_BASENAME,
+  getExportBasename,
+  toVaultRelativePath,
+  toWikilink,
+} from '@/utils/conversationExport';
+
+const VAULT = '/Users/me/Vault';
+
+function createConversation(messages: ChatMessage[], overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: 'conv-1',
+    title: 'Fix Dataview query',
+    createdAt: Date.UTC(2025, 0, 15, 10, 30),
+    updatedAt: Date.UTC(2025, 0, 15, 11, 0),
+    sessionId: null,
+    messages,
+    ...overrides,
+  };
+}
+
+describe('toVaultRelativePath', () => {
+  it('keeps relative paths', () => {
+    expect(toVaultRelativePath('notes/a.md', VAULT)).toBe('notes/a.md');
+    expect(toVaultRelativePath('./notes/a.md', VAULT)).toBe('notes/a.md');
+  });
+
+  it('strips the vault prefix from absolute paths', () => {
+    expect(toVaultRelativePath(`${VAULT}/notes/a.md`, VAULT)).toBe('notes/a.md');
+  });
+
+  it('handles Windows separators', () => {
+    expect(toVaultRelativePath('C:\\Vault\\notes\\a.md', 'C:\\Vault')).toBe('notes/a.md');
+  });
+
+  it('returns null for paths outside the vault', () => {
+    expect(toVaultRelativePath('/tmp/a.md', VAULT)).toBeNull();
+    expect(toVaultRelativePath('../a.md', VAULT)).toBeNull();
+    expect(toVaultRelativePath('~/a.md', VAULT)).toBeNull();
+    expect(toVaultRelativePath('/tmp/a.md', null)).toBeNull();
+  });
+});
+
+describe('toWikilink', () => {
+  it('omits the extension for Markdown notes only', () => {
+    expect(toWikilink('notes/a.md')).toBe('[[notes/a]]');
+    expect(toWikilink('assets/img.png')).toBe('[[assets/img.png]]');
+  });
+});
+
+describe('collectTouchedFiles', () => {
+  it('separates read and edited vault files, deduplicated', () => {
+    const messages: ChatMessage[] = [
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        timestamp: 1,
+        toolCalls: [
+          { id: 't1', name: 'Read', input: { file_path: `${VAULT}/notes/a.md` }, status: 'completed' },
+          { id: 't2', name: 'Read', input: { file_path: 'notes/a.md' }, status: 'completed' },
+          { id: 't3', name: 'Edit', input: { file_path: 'notes/b.md' }, status: 'completed' },
+          { id: 't4', name: 'Write', input: { file_path: '/tmp/out.md' }, status: 'completed' },
+          { id: 't5', name: 'Edit', input: { file_path: 'notes/c.md' }, status: 'blocked' },
+          { id: 't6', name: 'Grep', input: { path: 'notes' }, status: 'completed' },
+        ],
+      },
+    ];
+
+    expect(collectTouchedFiles(messages, VAULT)).toEqual({
+      read: ['notes/a.md'],
+      edited: ['notes/b.md'],
+    });
+  });
+
+  it('includes subagent tool calls', () => {
+    const messages: ChatMessage[] = [
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        timestamp: 1,
+        subagents: [{
+          id: 'task-1',
+          description: 'Explore',
+          isExpanded: false,
+          status: 'completed',
+          toolCalls: [{ id: 't1', name: 'Read', input: { file_path: 'deep/x.md' }, status: 'completed' }],
+        }],
+      },
+    ];
+
+    expect(collectTouchedFiles(messages, VAULT).read).toEqual(['deep/x.md']);
+  });
+});
+
+describe('conversationToMarkdown', () => {
+  it('writes frontmatter with title, createdAt, model, and usage', () => {
+    const markdown = conversationToMarkdown(createConversation([], {
+      usage: {
+        model: 'claude-sonnet-4-5',
+        inputTokens: 100,
+        cacheCreationInputTokens: 20,
+        cacheReadInputTokens: 30,
+        contextWindow: 200000,
+        contextTokens: 150,
+        percentage: 1,
+      },
+    }), { vaultPath: VAULT });
+
+    expect(markdown.startsWith('---\n')).toBe(true);
+    expect(markdown).toContain('title: "Fix Dataview query"');
+    expect(markdown).toContain('createdAt: 2025-01-15T10:30:00.000Z');
+    expect(markdown).toContain('model: "claude-sonnet-4-5"');
+    expect(markdown).toContain('usage:\n  inputTokens: 100\n');
+    expect(markdown).toContain('  contextWindow: 200000');
+    expect(markdown).toContain('conversationId: "conv-1"');
+  });
+
+  it('falls back to the provided model and escapes titles', () => {
+    const markdown = conversationToMarkdown(
+      createConversation([], { title: 'Say "hi": now' }),
+      { vaultPath: VAULT, fallbackModel: 'haiku' }
+    );
+
+    expect(markdown).toContain('title: "Say \\"hi\\": now"');
+    expect(markdown).toContain('model: "haiku"');
+    expect(markdown).not.toContain('usage:');
+    expect(markdown).not.toContain('tokenUsage:');
+  });
+
+  it('writes the tokens billed over the whole conversation', () => {
+    const record = { timestamp: 1, model: 'claude-sonnet-4-5', cacheCreationInputTokens: 5, cacheReadInputTokens: 0 };
+    const markdown = conversationToMarkdown(createConversation([], {
+      tokenUsage: [
+        { ...record, inputTokens: 100, outputTokens: 10 },
+        { ...record, inputTokens: 50, outputTokens: 20, cacheReadInputTokens: 200 },
+      ],
+    }), { vaultPath: VAULT });
+
+    expect(markdown).toContain([
+      'tokenUsage:',
+      '  inputTokens: 150',
+      '  outputTokens: 30',
+      '  cacheCreationInputTokens: 10',
+      '  cacheReadInputTokens: 200',
+      '  totalTokens: 390',
+    ].join('\n'));
+  });
+
+  it('renders user and assistant turns using display content', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      { id: 'u1', role: 'user', content: '/fix expanded prompt', displayContent: '/fix', timestamp: 1 },
+      { id: 'a1', role: 'assistant', content: 'Done.', timestamp: 2 },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).toContain('## User\n\n/fix\n\n## Assistant\n\nDone.');
+    expect(markdown).not.toContain('expanded prompt');
+  });
+
+  it('renders thinking and tool calls as collapsed callouts in content block order', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: 'Reading first.Updated.',
+        timestamp: 2,
+        toolCalls: [
+          { id: 't1', name: 'Read', input: { file_path: 'notes/a.md' }, status: 'completed', result: 'file body' },
+        ],
+        contentBlocks: [
+          { type: 'thinking', content: 'Let me check\nthe note', durationSeconds: 3 },
+          { type: 'text', content: 'Reading first.' },
+          { type: 'tool_use', toolId: 't1' },
+          { type: 'text', content: 'Updated.' },
+        ],
+      },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).toContain('> [!note]- Thinking (3s)\n> Let me check\n> the note');
+    expect(markdown).toContain('> [!example]- Read: [[notes/a]]');
+    expect(markdown).toContain('> **Result**\n> ```\n> file body\n> ```');
+
+    const thinkingIdx = markdown.indexOf('Thinking');
+    const textIdx = markdown.indexOf('Reading first.');
+    const toolIdx = markdown.indexOf('[!example]');
+    const updatedIdx = markdown.indexOf('Updated.');
+    expect(thinkingIdx).toBeLessThan(textIdx);
+    expect(textIdx).toBeLessThan(toolIdx);
+    expect(toolIdx).toBeLessThan(updatedIdx);
+  });
+
+  it('marks failed tool calls and uses longer fences for backticks in results', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        timestamp: 2,
+        toolCalls: [
+          { id: 't1', name: 'Bash', input: { command: 'ls' }, status: 'error', result: 'has ``` inside' },
+        ],
+      },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).toContain('> [!failure]- Bash: ls');
+    expect(markdown).toContain('> ````\n> has ``` inside\n> ````');
+  });
+
+  it('renders subagents with their result', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        timestamp: 2,
+        subagents: [{
+          id: 'task-1',
+          description: 'Find notes',
+          isExpanded: false,
+          status: 'completed',
+          result: 'Found 3 notes',
+          toolCalls: [],
+        }],
+        contentBlocks: [{ type: 'subagent', subagentId: 'task-1' }],
+      },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).toContain('> [!abstract]- Subagent: Find notes');
+    expect(markdown).toContain('> Found 3 notes');
+  });
+
+  it('lists touched files as wikilinks in frontmatter and a Files section', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        timestamp: 2,
+        toolCalls: [
+          { id: 't1', name: 'Read', input: { file_path: 'notes/a.md' }, status: 'completed' },
+          { id: 't2', name: 'Write', input: { file_path: `${VAULT}/notes/b.md` }, status: 'completed' },
+        ],
+      },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).toContain('filesRead:\n  - "[[notes/a]]"');
+    expect(markdown).toContain('filesEdited:\n  - "[[notes/b]]"');
+    expect(markdown).toContain('## Files\n\n**Edited**: [[notes/b]]\n\n**Read**: [[notes/a]]');
+  });
+
+  it('skips rebuilt context and marks interrupts', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      { id: 'u0', role: 'user', content: 'history blob', timestamp: 1, isRebuiltContext: true },
+      { id: 'u1', role: 'user', content: '[Request interrupted by user]', timestamp: 2, isInterrupt: true },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).not.toContain('history blob');
+    expect(markdown).toContain('> [!warning] Interrupted by user');
+  });
+
+  it('notes attached images on user turns', () => {
+    const markdown = conversationToMarkdown(createConversation([
+      {
+        id: 'u1',
+        role: 'user',
+        content: 'What is this?',
+        timestamp: 1,
+        images: [{ id: 'i1', name: 'a.png', mediaType: 'image/png', data: '', size: 1, source: 'paste' }],
+      },
+    ]), { vaultPath: VAULT });
+
+    expect(markdown).toContain('What is this?\n\n_1 image attached_');
+  });
+});
+
+describe('getExportBasename', () => {
+  it('replaces characters that are invalid in note names', () => {
+    expect(getExportBasename('a/b: c? [d] #e')).toBe('a b c d e');
+  });
+
+  it('falls back to a default name', () => {
+    expect(getExportBasename('  ///  ')).toBe(DEFAULT_EXPORT_BASENAME);
+  });
+
+  it('truncates long titles', () => {
+    expect(getExportBasename('x'.repeat(300)).length).toBe(100);
+  });
+});
@@ -1,4 +1,4 @@
-import { formatDurationMmSs, getTodayDate } from '../../../src/utils/date';
+import { formatDurationMmSs, formatLocalDate, formatLocalTime, getTodayDate } from '../../../src/utils/date';
 
 describe('getTodayDate', () => {
   it('returns readable date with ISO suffix', () => {
@@ -79,3 +79,15 @@ describe('formatDurationMmSs', () => {
     });
   });
 });
+
+describe('formatLocalDate', () => {
+  it('formats local dates with zero padding', () => {
+    expect(formatLocalDate(new Date(2025, 2, 5, 23, 59).getTime())).toBe('2025-03-05');
+  });
+});
+
+describe('formatLocalTime', () => {
+  it('formats local times with zero padding', () => {
+    expect(formatLocalTime(new Date(2025, 2, 5, 8, 5).getTime())).toBe('08:05');
+  });
+});
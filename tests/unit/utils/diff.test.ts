@@ -1,5 +1,5 @@
 import type { ToolCallInfo } from '../../../src/core/types/tools';
-import { diffFromToolInput,extractDiffData } from '../../../src/utils/diff';
+import { applyLineDiff, computeLineDiff, diffFromToolInput, extractDiffData } from '../../../src/utils/diff';
 
 /** Helper to create a ToolCallInfo for testing. */
 function makeToolCall(name: string, input: Record<string, unknown>): ToolCallInfo {
@@ -168,3 +168,44 @@ describe('diffFromToolInput', () => {
     expect(result).toBeUndefined();
   });
 });
+
+describe('computeLineDiff', () => {
+  it('marks changed lines between a common prefix and suffix', () => {
+    const diff = computeLineDiff('a\nb\nc', 'a\nB\nc');
+
+    expect(diff.map(line => [line.type, line.text])).toEqual([
+      ['equal', 'a'],
+      ['delete', 'b'],
+      ['insert', 'B'],
+      ['equal', 'c'],
+    ]);
+  });
+
+  it('numbers old and new lines', () => {
+    const diff = computeLineDiff('a\nc', 'a\nb\nc');
+
+    expect(diff[1]).toEqual({ type: 'insert', text: 'b', newLineNum: 2 });
+    expect(diff[2]).toEqual({ type: 'equal', text: 'c', oldLineNum: 2, newLineNum: 3 });
+  });
+
+  it('treats empty text as no lines', () => {
+    expect(computeLineDiff('', 'x').map(line => line.type)).toEqual(['insert']);
+    expect(computeLineDiff('', '')).toEqual([]);
+  });
+
+  it('round-trips through applyLineDiff', () => {
+    const oldText = 'one\ntwo\nthree\nfour\n';
+    const newText = 'zero\none\nthree\n4\nfive\n';
+
+    expect(applyLineDiff(computeLineDiff(oldText, newText))).toBe(newText);
+  });
+});
+
+describe('applyLineDiff', () => {
+  it('undoes rejected changes', () => {
+    const diff = computeLineDiff('a\nb\nc\nd', 'a\nB\nc\nD');
+    const rejected = new Set(diff.filter(line => line.text === 'b' || line.text === 'B'));
+
+    expect(applyLineDiff(diff, rejected)).toBe('a\nb\nc\nD');
+  });
+});
@@ -0,0 +1,79 @@
+import { applyReviewedText, buildEditProposal } from '@/utils/editReview';
+
+describe('buildEditProposal', () => {
+  const readFile = jest.fn();
+
+  beforeEach(() => {
+    readFile.mockReset();
+  });
+
+  it('diffs a Write against the current file', async () => {
+    readFile.mockResolvedValue('old');
+
+    const proposal = await buildEditProposal('Write', { file_path: 'note.md', content: 'new' }, readFile);
+
+    expect(readFile).toHaveBeenCalledWith('note.md');
+    expect(proposal).toEqual({
+      filePath: 'note.md',
+      field: 'content',
+      originalText: 'old',
+      proposedText: 'new',
+      isNewFile: false,
+    });
+  });
+
+  it('treats an unreadable Write target as a new file', async () => {
+    readFile.mockRejectedValue(new Error('ENOENT'));
+
+    const proposal = await buildEditProposal('Write', { file_path: 'new.md', content: 'x' }, readFile);
+
+    expect(proposal).toMatchObject({ originalText: '', isNewFile: true });
+  });
+
+  it('diffs an Edit old_string against new_string without reading the file', async () => {
+    const proposal = await buildEditProposal(
+      'Edit',
+      { file_path: 'note.md', old_string: 'a', new_string: 'b' },
+      readFile
+    );
+
+    expect(readFile).not.toHaveBeenCalled();
+    expect(proposal).toMatchObject({ field: 'new_string', originalText: 'a', proposedText: 'b' });
+  });
+
+  it('diffs a NotebookEdit against the current cell source', async () => {
+    readFile.mockResolvedValue(JSON.stringify({ cells: [{ id: 'c1', source: ['x = 1\n', 'y = 2'] }] }));
+
+    const proposal = await buildEditProposal(
+      'NotebookEdit',
+      { notebook_path: 'n.ipynb', cell_id: 'c1', new_source: 'x = 2' },
+      readFile
+    );
+
+    expect(proposal).toMatchObject({ field: 'new_source', originalText: 'x = 1\ny = 2', proposedText: 'x = 2' });
+  });
+
+  it('returns null for cell deletion and other tools', async () => {
+    await expect(buildEditProposal(
+      'NotebookEdit',
+      { notebook_path: 'n.ipynb', cell_id: 'c1', new_source: '', edit_mode: 'delete' },
+      readFile
+    )).resolves.toBeNull();
+    await expect(buildEditProposal('Bash', { command: 'ls' }, readFile)).resolves.toBeNull();
+  });
+});
+
+describe('applyReviewedText', () => {
+  it('replaces only the reviewed field', () => {
+    const input = { file_path: 'note.md', old_string: 'a', new_string: 'b', replace_all: true };
+    const proposal = {
+      filePath: 'note.md',
+      field: 'new_string' as const,
+      originalText: 'a',
+      proposedText: 'b',
+      isNewFile: false,
+    };
+
+    expect(applyReviewedText(input, proposal, 'c')).toEqual({ ...input, new_string: 'c' });
+  });
+});
@@ -4,6 +4,7 @@ import {
   type EditorSelectionContext,
   findNearestNonEmptyLine,
   formatEditorContext,
+  getSelectedRanges,
 } from '@/utils/editor';
 
 function makeGetLine(lines: string[]): (line: number) => string {
@@ -247,3 +248,24 @@ describe('appendEditorContext', () => {
     expect(appendEditorContext('Fix this', context)).toBe('Fix this');
   });
 });
+
+describe('getSelectedRanges', () => {
+  function createEditor(text: string, selections: Array<[number, number]>) {
+    const toPos = (offset: number) => ({ line: 0, ch: offset });
+    return {
+      listSelections: () => selections.map(([anchor, head]) => ({ anchor: toPos(anchor), head: toPos(head) })),
+      posToOffset: (pos: { ch: number }) => pos.ch,
+      offsetToPos: toPos,
+      getRange: (from: { ch: number }, to: { ch: number }) => text.slice(from.ch, to.ch),
+    } as any;
+  }
+
+  it('returns non-blank selections in document order with normalized direction', () => {
+    const editor = createEditor('alpha beta gamma', [[11, 16], [5, 0], [6, 6]]);
+
+    expect(getSelectedRanges(editor)).toEqual([
+      { from: 0, to: 5, text: 'alpha' },
+      { from: 11, to: 16, text: 'gamma' },
+    ]);
+  });
+});
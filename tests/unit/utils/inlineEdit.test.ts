@@ -1,4 +1,13 @@
-import { escapeHtml, normalizeInsertionText } from '@/utils/inlineEdit';
+import {
+  applyWordDiff,
+  computeWordDiff,
+  countWordDiffHunks,
+  diffTextRegions,
+  escapeHtml,
+  groupWordDiff,
+  normalizeInsertionText,
+  wordDiffToHtml,
+} from '@/utils/inlineEdit';
 
 describe('normalizeInsertionText', () => {
   it('removes leading blank lines', () => {
@@ -53,3 +62,84 @@ describe('escapeHtml', () => {
     expect(escapeHtml('')).toBe('');
   });
 });
+
+describe('groupWordDiff', () => {
+  it('pairs adjacent deletes and inserts into one change', () => {
+    const segments = groupWordDiff(computeWordDiff('the quick fox', 'the slow fox'));
+
+    expect(segments).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'change', deleted: 'quick', inserted: 'slow' },
+      { type: 'equal', text: ' fox' },
+    ]);
+  });
+
+  it('keeps separated changes as separate hunks', () => {
+    const segments = groupWordDiff(computeWordDiff('one two three', 'ONE two THREE'));
+
+    expect(countWordDiffHunks(segments)).toBe(2);
+  });
+});
+
+describe('applyWordDiff', () => {
+  const segments = groupWordDiff(computeWordDiff('one two three', 'ONE two THREE'));
+
+  it('produces the proposed text when nothing is rejected', () => {
+    expect(applyWordDiff(segments)).toBe('ONE two THREE');
+  });
+
+  it('reverts rejected hunks to the original words', () => {
+    expect(applyWordDiff(segments, new Set([1]))).toBe('ONE two three');
+    expect(applyWordDiff(segments, new Set([0, 1]))).toBe('one two three');
+  });
+});
+
+describe('wordDiffToHtml', () => {
+  it('wraps each change in a toggleable hunk span and escapes text', () => {
+    const segments = groupWordDiff(computeWordDiff('a <b>', 'a <i>'));
+
+    expect(wordDiffToHtml(segments, new Set([0]))).toBe(
+      'a <span class="claudian-inline-diff-hunk is-rejected" data-hunk="0" title="Click to keep this change">'
+        + '<span class="claudian-diff-del">&lt;b&gt;</span><span class="claudian-diff-ins">&lt;i&gt;</span></span>'
+    );
+  });
+});
+
+describe('diffTextRegions', () => {
+  function applyRegions(text: string, regions: ReturnType<typeof diffTextRegions>): string {
+    let result = '';
+    let offset = 0;
+    for (const region of regions) {
+      result += text.slice(offset, region.from) + region.proposed;
+      offset = region.to;
+    }
+    return result + text.slice(offset);
+  }
+
+  it('returns one region per changed block of lines', () => {
+    const oldText = '# Title\n\nintro\n\n## Part\ntext';
+    const newText = '# New title\n\nintro\n\n## Part\nmore text';
+
+    const regions = diffTextRegions(oldText, newText);
+
+    expect(regions).toEqual([
+      { from: 0, to: 7, original: '# Title', proposed: '# New title' },
+      { from: oldText.length - 4, to: oldText.length, original: 'text', proposed: 'more text' },
+    ]);
+  });
+
+  it.each([
+    ['inserted line', 'a\nc\n', 'a\nb\nc\n'],
+    ['appended line without trailing newline', 'a\nb', 'a\nb\nc'],
+    ['deleted middle line', 'a\nb\nc', 'a\nc'],
+    ['deleted last line', 'a\nb\nc', 'a\nb'],
+    ['everything deleted', 'a\nb', ''],
+    ['empty original', '', 'a\nb'],
+  ])('round-trips %s', (_label, oldText, newText) => {
+    expect(applyRegions(oldText, diffTextRegions(oldText, newText))).toBe(newText);
+  });
+
+  it('returns nothing for identical text', () => {
+    expect(diffTextRegions('same', 'same')).toEqual([]);
+  });
+});
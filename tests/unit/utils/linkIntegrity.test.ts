@@ -0,0 +1,112 @@
+import {
+  buildLinkFixPrompt,
+  didTouchVaultFiles,
+  findNewlyBrokenLinks,
+  snapshotUnresolvedLinks,
+  waitForMetadataResolved,
+} from '@/utils/linkIntegrity';
+
+describe('snapshotUnresolvedLinks', () => {
+  it('copies the link counts so later cache updates do not leak in', () => {
+    const metadataCache = { unresolvedLinks: { 'a.md': { Plan: 1 } } } as any;
+
+    const snapshot = snapshotUnresolvedLinks(metadataCache);
+    metadataCache.unresolvedLinks['a.md'].Plan = 2;
+
+    expect(snapshot).toEqual({ 'a.md': { Plan: 1 } });
+  });
+});
+
+describe('findNewlyBrokenLinks', () => {
+  it('returns links that were not unresolved before', () => {
+    const before = { 'a.md': { Someday: 1 } };
+    const after = { 'a.md': { Someday: 1, Plan: 1 }, 'b.md': { Plan: 2 } };
+
+    expect(findNewlyBrokenLinks(before, after)).toEqual([
+      { sourcePath: 'a.md', link: 'Plan' },
+      { sourcePath: 'b.md', link: 'Plan' },
+    ]);
+  });
+
+  it('reports links whose unresolved count grew', () => {
+    expect(findNewlyBrokenLinks({ 'a.md': { Plan: 1 } }, { 'a.md': { Plan: 2 } })).toEqual([
+      { sourcePath: 'a.md', link: 'Plan' },
+    ]);
+  });
+
+  it('ignores links that were fixed or unchanged', () => {
+    expect(findNewlyBrokenLinks({ 'a.md': { Plan: 1, Old: 1 } }, { 'a.md': { Plan: 1 } })).toEqual([]);
+  });
+});
+
+describe('didTouchVaultFiles', () => {
+  it('detects completed edit tools', () => {
+    expect(didTouchVaultFiles([{ id: '1', name: 'Edit', input: {}, status: 'completed' }])).toBe(true);
+  });
+
+  it('ignores failed or blocked edits', () => {
+    expect(didTouchVaultFiles([
+      { id: '1', name: 'Write', input: {}, status: 'error' },
+      { id: '2', name: 'Edit', input: {}, status: 'blocked' },
+    ])).toBe(false);
+  });
+
+  it('detects Bash commands that move or delete files', () => {
+    const bash = (command: string) => [{ id: '1', name: 'Bash', input: { command }, status: 'completed' as const }];
+
+    expect(didTouchVaultFiles(bash('mv a.md b.md'))).toBe(true);
+    expect(didTouchVaultFiles(bash('cd notes && git mv a.md b.md'))).toBe(true);
+    expect(didTouchVaultFiles(bash('rm -r old'))).toBe(true);
+    expect(didTouchVaultFiles(bash('ls -la'))).toBe(false);
+    expect(didTouchVaultFiles(bash('cat remove-me.md'))).toBe(false);
+  });
+
+  it('ignores read-only tools', () => {
+    expect(didTouchVaultFiles([{ id: '1', name: 'Read', input: {}, status: 'completed' }])).toBe(false);
+  });
+});
+
+describe('waitForMetadataResolved', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves on the resolved event and unsubscribes', async () => {
+    let callback: () => void = () => {};
+    const ref = {};
+    const metadataCache = {
+      on: jest.fn((_event: string, cb: () => void) => {
+        callback = cb;
+        return ref;
+      }),
+      offref: jest.fn(),
+    } as any;
+
+    const promise = waitForMetadataResolved(metadataCache, 1000);
+    callback();
+    await promise;
+
+    expect(metadataCache.on).toHaveBeenCalledWith('resolved', expect.any(Function));
+    expect(metadataCache.offref).toHaveBeenCalledWith(ref);
+  });
+
+  it('resolves after the timeout when no event fires', async () => {
+    jest.useFakeTimers();
+    const metadataCache = { on: jest.fn().mockReturnValue({}), offref: jest.fn() } as any;
+
+    const promise = waitForMetadataResolved(metadataCache, 1000);
+    jest.advanceTimersByTime(1000);
+    await promise;
+
+    expect(metadataCache.offref).toHaveBeenCalled();
+  });
+});
+
+describe('buildLinkFixPrompt', () => {
+  it('lists each broken link with its note', () => {
+    const prompt = buildLinkFixPrompt([{ sourcePath: 'a.md', link: 'Plan' }]);
+
+    expect(prompt).toContain('- [[Plan]] in a.md');
+    expect(prompt).toContain('Fix them');
+  });
+});
@@ -1,4 +1,12 @@
-import { extractMcpMentions, parseCommand, splitCommandString, transformMcpMentions } from '@/utils/mcp';
+import {
+  extractMcpMentions,
+  formatMcpPromptArgumentHint,
+  mapMcpPromptArguments,
+  mcpPromptToSlashCommand,
+  parseCommand,
+  splitCommandString,
+  transformMcpMentions,
+} from '@/utils/mcp';
 
 describe('extractMcpMentions', () => {
   it('extracts valid MCP mentions', () => {
@@ -254,3 +262,45 @@ describe('parseCommand', () => {
     });
   });
 });
+
+describe('MCP prompt commands', () => {
+  const prompt = {
+    name: 'review',
+    description: 'Review code',
+    arguments: [
+      { name: 'file', required: true },
+      { name: 'focus' },
+    ],
+  };
+
+  it('formats required and optional arguments as a hint', () => {
+    expect(formatMcpPromptArgumentHint(prompt)).toBe('<file> [focus]');
+    expect(formatMcpPromptArgumentHint({ name: 'bare' })).toBe('');
+  });
+
+  it('converts a prompt to a slash command', () => {
+    expect(mcpPromptToSlashCommand('docs', prompt)).toEqual({
+      id: 'mcp:docs:review',
+      name: 'mcp__docs__review',
+      description: 'Review code (docs)',
+      argumentHint: '<file> [focus]',
+      content: '',
+      source: 'mcp',
+    });
+  });
+
+  it('maps positional arguments and gives extra words to the last one', () => {
+    expect(mapMcpPromptArguments(prompt, '"src/a b.ts" error handling')).toEqual({
+      file: 'src/a b.ts',
+      focus: 'error handling',
+    });
+  });
+
+  it('leaves out optional arguments that were not given', () => {
+    expect(mapMcpPromptArguments(prompt, 'a.ts')).toEqual({ file: 'a.ts' });
+  });
+
+  it('throws when a required argument is missing', () => {
+    expect(() => mapMcpPromptArguments(prompt, '')).toThrow('Missing argument "file" for prompt "review"');
+  });
+});
@@ -9,11 +9,13 @@ import {
   getSDKProjectsPath,
   getSDKSessionPath,
   isValidSessionId,
+  listSDKSessions,
   loadSDKSessionMessages,
   parseSDKMessageToChat,
   readSDKSession,
   type SDKNativeMessage,
   sdkSessionExists,
+  summarizeSDKSession,
 } from '@/utils/sdkSession';
 
 // Mock fs, fs/promises, and os modules
@@ -272,6 +274,94 @@ describe('sdkSession', () => {
     });
   });
 
+  describe('summarizeSDKSession', () => {
+    function mockSessionFile(lines: string[], mtimeMs = 5000): void {
+      const content = Buffer.from(lines.join('\n'));
+      mockFsPromises.stat.mockResolvedValue({ mtimeMs } as any);
+      mockFsPromises.open.mockResolvedValue({
+        read: jest.fn().mockImplementation((buffer: Buffer) => {
+          const bytesRead = content.copy(buffer);
+          return Promise.resolve({ bytesRead, buffer });
+        }),
+        close: jest.fn().mockResolvedValue(undefined),
+      } as any);
+    }
+
+    it('returns the first user prompt, skipping injected and meta messages', async () => {
+      mockSessionFile([
+        '{"type":"file-history-snapshot"}',
+        '{"type":"user","uuid":"m0","timestamp":"2025-01-15T10:00:00.000Z","isMeta":true,"message":{"content":"Caveat"}}',
+        '{"type":"user","uuid":"u0","message":{"content":"<command-name>/clear</command-name>"}}',
+        '{"type":"user","uuid":"u1","message":{"content":"Fix my Dataview query"}}',
+        '{"type":"user","uuid":"u2","message":{"content":"Second prompt"}}',
+      ]);
+
+      const summary = await summarizeSDKSession('/Users/test/vault', 'cli-session');
+
+      expect(summary).toEqual({
+        sessionId: 'cli-session',
+        firstPrompt: 'Fix my Dataview query',
+        createdAt: Date.UTC(2025, 0, 15, 10),
+        updatedAt: 5000,
+      });
+    });
+
+    it('ignores a truncated last line', async () => {
+      mockSessionFile([
+        '{"type":"user","uuid":"u1","message":{"content":"Hello"}}',
+        '{"type":"assistant","uuid":"a1","mess',
+      ]);
+
+      const summary = await summarizeSDKSession('/Users/test/vault', 'cli-session');
+
+      expect(summary?.firstPrompt).toBe('Hello');
+      expect(summary?.createdAt).toBe(5000);
+    });
+
+    it('returns null when the session has no user prompt', async () => {
+      mockSessionFile(['{"type":"summary","summary":"Old"}']);
+
+      expect(await summarizeSDKSession('/Users/test/vault', 'empty')).toBeNull();
+    });
+
+    it('returns null when the file cannot be read', async () => {
+      mockFsPromises.stat.mockRejectedValue(new Error('ENOENT'));
+
+      expect(await summarizeSDKSession('/Users/test/vault', 'missing')).toBeNull();
+    });
+  });
+
+  describe('listSDKSessions', () => {
+    it('returns an empty list when the project directory does not exist', async () => {
+      mockFsPromises.readdir.mockRejectedValue(new Error('ENOENT'));
+
+      expect(await listSDKSessions('/Users/test/vault')).toEqual([]);
+    });
+
+    it('lists session files newest first, skipping subagent transcripts', async () => {
+      mockFsPromises.readdir.mockResolvedValue(
+        ['old.jsonl', 'new.jsonl', 'agent-abc.jsonl', 'notes.txt'] as any
+      );
+      mockFsPromises.stat.mockImplementation((filePath: any) =>
+        Promise.resolve({ mtimeMs: String(filePath).includes('new') ? 2000 : 1000 } as any)
+      );
+      mockFsPromises.open.mockImplementation(() => {
+        const content = Buffer.from('{"type":"user","message":{"content":"Prompt"}}');
+        return Promise.resolve({
+          read: jest.fn().mockImplementation((buffer: Buffer) =>
+            Promise.resolve({ bytesRead: content.copy(buffer), buffer })
+          ),
+          close: jest.fn().mockResolvedValue(undefined),
+        } as any);
+      });
+
+      const sessions = await listSDKSessions('/Users/test/vault');
+
+      expect(mockFsPromises.readdir).toHaveBeenCalledWith('/Users/test/.claude/projects/-Users-test-vault');
+      expect(sessions.map(s => s.sessionId)).toEqual(['new', 'old']);
+    });
+  });
+
   describe('parseSDKMessageToChat', () => {
     it('converts user message with string content', () => {
       const sdkMsg: SDKNativeMessage = {
@@ -0,0 +1,95 @@
+import { hasSkillErrors, validateSkill } from '@/utils/skill';
+
+function messages(name: string, markdown: string): string[] {
+  return validateSkill(name, markdown).map(issue => `${issue.severity}:${issue.field}:${issue.message}`);
+}
+
+describe('validateSkill', () => {
+  it('accepts a complete skill', () => {
+    const markdown = `---
+name: pdf-forms
+description: Fill PDF forms
+allowed-tools:
+  - Read
+  - Bash(python:*)
+  - mcp__files__read
+context: fork
+agent: general-purpose
+hooks: {"PostToolUse":[{"matcher":"Edit","hooks":[]}]}
+---
+Fill the form in $1`;
+
+    expect(validateSkill('pdf-forms', markdown)).toEqual([]);
+  });
+
+  it('requires a valid name and instructions', () => {
+    const issues = messages('Bad Name', '---\ndescription: x\n---\n   ');
+
+    expect(issues).toContain('error:name:Skill name can only contain lowercase letters, numbers, and hyphens');
+    expect(issues).toContain('error:content:Instructions are required');
+  });
+
+  it('reports missing frontmatter', () => {
+    expect(messages('plain', 'Just a prompt')).toEqual([
+      'error:frontmatter:Frontmatter is missing or could not be parsed',
+    ]);
+  });
+
+  it('warns about a missing description and unknown fields', () => {
+    const issues = messages('demo', '---\ncolour: blue\n---\nDo it');
+
+    expect(issues).toEqual([
+      'warning:frontmatter:Unknown field "colour" is ignored',
+      'warning:description:Add a description so Claude knows when to use this skill',
+    ]);
+  });
+
+  it('flags a skill nobody can invoke', () => {
+    const markdown = '---\ndescription: x\ndisable-model-invocation: true\nuser-invocable: false\n---\nDo it';
+
+    expect(messages('hidden', markdown)).toEqual([
+      'error:userInvocable:Neither Claude nor the user can invoke this skill',
+    ]);
+  });
+
+  it('checks context and agent', () => {
+    expect(messages('demo', '---\ndescription: x\ncontext: inline\n---\nDo it')).toEqual([
+      'error:context:Unsupported context "inline" (only "fork" is supported)',
+    ]);
+    expect(messages('demo', '---\ndescription: x\nagent: reviewer\n---\nDo it')).toEqual([
+      'warning:agent:Agent is only used when context is fork',
+    ]);
+  });
+
+  it('checks allowed tool rules', () => {
+    const markdown = '---\ndescription: x\nallowed-tools: [Read, Frobnicate, Bash((, 9lives]\n---\nDo it';
+
+    expect(messages('demo', markdown)).toEqual([
+      'warning:allowedTools:Unknown tool "Frobnicate"',
+      'error:allowedTools:Invalid tool rule "Bash(("',
+      'error:allowedTools:Invalid tool rule "9lives"',
+    ]);
+  });
+
+  it('checks hook events and their shape', () => {
+    const markdown = '---\ndescription: x\nhooks: {"OnSave":[],"Stop":{"command":"x"}}\n---\nDo it';
+
+    expect(messages('demo', markdown)).toEqual([
+      'error:hooks:Unknown hook event "OnSave"',
+      'error:hooks:Hooks for "Stop" must be a list',
+    ]);
+  });
+
+  it('warns when the frontmatter name differs from the folder', () => {
+    expect(messages('demo', '---\nname: other\ndescription: x\n---\nDo it')).toEqual([
+      'warning:name:Frontmatter name "other" differs from the folder name "demo"',
+    ]);
+  });
+});
+
+describe('hasSkillErrors', () => {
+  it('ignores warnings', () => {
+    expect(hasSkillErrors([{ severity: 'warning', field: 'description', message: 'x' }])).toBe(false);
+    expect(hasSkillErrors([{ severity: 'error', field: 'content', message: 'x' }])).toBe(true);
+  });
+});
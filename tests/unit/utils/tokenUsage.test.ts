@@ -0,0 +1,117 @@
+import type { Conversation, ModelPricing, TokenUsageRecord } from '@/core/types';
+import {
+  buildUsageReport,
+  estimateCost,
+  getTotalTokens,
+  getUsageFolder,
+  NO_FOLDER_KEY,
+  ROOT_FOLDER_KEY,
+} from '@/utils/tokenUsage';
+
+const PRICING: Record<string, ModelPricing> = {
+  sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  haiku: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+};
+
+const JAN_10 = new Date(2025, 0, 10, 12).getTime();
+const JAN_11 = new Date(2025, 0, 11, 9).getTime();
+
+function record(model: string, timestamp: number, overrides: Partial<TokenUsageRecord> = {}): TokenUsageRecord {
+  return {
+    timestamp,
+    model,
+    inputTokens: 1_000_000,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    ...overrides,
+  };
+}
+
+function conv(
+  id: string,
+  tokenUsage: TokenUsageRecord[],
+  extra: Partial<Conversation> = {}
+): Pick<Conversation, 'id' | 'title' | 'currentNote' | 'tokenUsage'> {
+  return { id, title: `Title ${id}`, tokenUsage, ...extra };
+}
+
+describe('estimateCost', () => {
+  it('prices each token type per million', () => {
+    const cost = estimateCost({
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      cacheCreationInputTokens: 200_000,
+      cacheReadInputTokens: 1_000_000,
+    }, PRICING.sonnet);
+
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.75 + 0.3);
+  });
+});
+
+describe('getTotalTokens', () => {
+  it('sums all token types', () => {
+    expect(getTotalTokens({
+      inputTokens: 1,
+      outputTokens: 2,
+      cacheCreationInputTokens: 3,
+      cacheReadInputTokens: 4,
+    })).toBe(10);
+  });
+});
+
+describe('getUsageFolder', () => {
+  it('returns the folder of the current note', () => {
+    expect(getUsageFolder({ currentNote: 'projects/alpha/plan.md' })).toBe('projects/alpha');
+    expect(getUsageFolder({ currentNote: 'projects\\beta.md' })).toBe('projects');
+  });
+
+  it('distinguishes root notes from conversations without a note', () => {
+    expect(getUsageFolder({ currentNote: 'inbox.md' })).toBe(ROOT_FOLDER_KEY);
+    expect(getUsageFolder({})).toBe(NO_FOLDER_KEY);
+  });
+});
+
+describe('buildUsageReport', () => {
+  it('aggregates totals by day, model, folder, and conversation', () => {
+    const report = buildUsageReport([
+      conv('c1', [record('claude-sonnet-4-5', JAN_10), record('claude-haiku-4-5', JAN_11)], {
+        currentNote: 'work/a.md',
+      }),
+      conv('c2', [record('claude-sonnet-4-5', JAN_11)]),
+    ], PRICING);
+
+    expect(report.total.inputTokens).toBe(3_000_000);
+    expect(report.total.cost).toBeCloseTo(7);
+    expect(report.byDay.map(b => [b.key, b.cost])).toEqual([['2025-01-11', 4], ['2025-01-10', 3]]);
+    expect(report.byModel.map(b => b.key)).toEqual(['claude-sonnet-4-5', 'claude-haiku-4-5']);
+    expect(report.byFolder.map(b => b.key)).toEqual(['work', NO_FOLDER_KEY]);
+    expect(report.byConversation.map(b => [b.key, b.label])).toEqual([['c1', 'Title c1'], ['c2', 'Title c2']]);
+  });
+
+  it('excludes records before the since timestamp', () => {
+    const report = buildUsageReport(
+      [conv('c1', [record('sonnet', JAN_10), record('sonnet', JAN_11)])],
+      PRICING,
+      { since: new Date(2025, 0, 11).getTime() }
+    );
+
+    expect(report.total.inputTokens).toBe(1_000_000);
+    expect(report.byDay).toHaveLength(1);
+  });
+
+  it('tracks tokens from unpriced models separately', () => {
+    const report = buildUsageReport([conv('c1', [record('gpt-x', JAN_10)])], PRICING);
+
+    expect(report.total.cost).toBe(0);
+    expect(report.total.unpricedTokens).toBe(1_000_000);
+    expect(report.byModel[0].unpricedTokens).toBe(1_000_000);
+  });
+
+  it('returns empty groups for conversations without usage', () => {
+    const report = buildUsageReport([{ id: 'c1', title: 'Empty' }], PRICING);
+
+    expect(getTotalTokens(report.total)).toBe(0);
+    expect(report.byConversation).toEqual([]);
+  });
+});